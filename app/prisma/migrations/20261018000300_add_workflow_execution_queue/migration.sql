@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "WorkflowExecution" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "input" JSONB,
+ADD COLUMN     "jobId" TEXT,
+ADD COLUMN     "progress" JSONB;
+
+-- CreateIndex
+CREATE INDEX "WorkflowExecution_userId_status_idx" ON "WorkflowExecution"("userId", "status");
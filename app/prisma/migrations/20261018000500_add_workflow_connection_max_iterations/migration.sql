@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "WorkflowConnection" ADD COLUMN     "maxIterations" INTEGER;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Signal" ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "error" TEXT,
+ADD COLUMN     "normalized" JSONB,
+ADD COLUMN     "processedAt" TIMESTAMP(3);
+
+-- Existing signals were never deduplicated, so each gets a hash of its own ID
+UPDATE "Signal" SET "contentHash" = 'legacy:' || "id" WHERE "contentHash" IS NULL;
+
+ALTER TABLE "Signal" ALTER COLUMN "contentHash" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Signal_sourceId_timestamp_idx" ON "Signal"("sourceId", "timestamp");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Signal_sourceId_contentHash_key" ON "Signal"("sourceId", "contentHash");
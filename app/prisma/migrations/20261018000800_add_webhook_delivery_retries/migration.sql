@@ -0,0 +1,19 @@
+-- DropForeignKey
+ALTER TABLE "WebhookDelivery" DROP CONSTRAINT "WebhookDelivery_webhookId_fkey";
+
+-- AlterTable
+ALTER TABLE "SentientLoopWebhook" ADD COLUMN     "disabledAt" TIMESTAMP(3),
+ADD COLUMN     "disabledReason" TEXT;
+
+-- AlterTable
+ALTER TABLE "WebhookDelivery" ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "redeliveryOfId" TEXT,
+ALTER COLUMN "statusCode" SET DEFAULT 0,
+ALTER COLUMN "deliveredAt" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "WebhookDelivery_status_nextAttemptAt_idx" ON "WebhookDelivery"("status", "nextAttemptAt");
+
+-- AddForeignKey
+ALTER TABLE "WebhookDelivery" ADD CONSTRAINT "WebhookDelivery_webhookId_fkey" FOREIGN KEY ("webhookId") REFERENCES "SentientLoopWebhook"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "SentientLoopConfig" ADD COLUMN     "policy" JSONB;
+
+-- CreateTable
+CREATE TABLE "SentientPolicyEvaluation" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "moduleId" TEXT NOT NULL,
+    "agentId" TEXT,
+    "actionType" TEXT NOT NULL,
+    "needed" BOOLEAN NOT NULL,
+    "checkpointType" TEXT,
+    "ruleId" TEXT,
+    "reason" TEXT NOT NULL,
+    "spend" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "facts" JSONB NOT NULL,
+    "explanation" JSONB NOT NULL,
+    "checkpointId" TEXT,
+
+    CONSTRAINT "SentientPolicyEvaluation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SentientPolicyEvaluation_userId_createdAt_idx" ON "SentientPolicyEvaluation"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SentientPolicyEvaluation_checkpointId_idx" ON "SentientPolicyEvaluation"("checkpointId");
+
+-- AddForeignKey
+ALTER TABLE "SentientPolicyEvaluation" ADD CONSTRAINT "SentientPolicyEvaluation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "SentientCheckpoint" ADD COLUMN     "slaDueAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "SentientCheckpoint_status_slaDueAt_idx" ON "SentientCheckpoint"("status", "slaDueAt");
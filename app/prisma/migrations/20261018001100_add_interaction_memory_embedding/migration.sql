@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "InteractionMemory" ADD COLUMN     "embedding" DOUBLE PRECISION[],
+ADD COLUMN     "metadata" JSONB;
+
+-- CreateIndex
+CREATE INDEX "InteractionMemory_createdAt_idx" ON "InteractionMemory"("createdAt");
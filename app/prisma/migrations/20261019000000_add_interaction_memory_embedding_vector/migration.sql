@@ -0,0 +1,14 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- AlterTable
+ALTER TABLE "InteractionMemory" ADD COLUMN "embeddingVector" vector(1536);
+
+-- Backfill the vectors of existing memories; zero vectors have no direction and are left out
+UPDATE "InteractionMemory"
+SET "embeddingVector" = "embedding"::vector
+WHERE cardinality("embedding") = 1536
+  AND EXISTS (SELECT 1 FROM unnest("embedding") AS value WHERE value <> 0);
+
+-- CreateIndex
+CREATE INDEX "InteractionMemory_embeddingVector_idx" ON "InteractionMemory" USING hnsw ("embeddingVector" vector_cosine_ops);
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "InteractionMemory" ADD COLUMN     "embeddingDimensions" INTEGER,
+ADD COLUMN     "embeddingModel" TEXT;
+
+-- CreateIndex
+CREATE INDEX "InteractionMemory_embeddingModel_idx" ON "InteractionMemory"("embeddingModel");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "InteractionMemory" ADD COLUMN     "clusterCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "consolidatedIntoId" TEXT,
+ADD COLUMN     "importanceDecayedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "InteractionMemory_consolidatedIntoId_idx" ON "InteractionMemory"("consolidatedIntoId");
+
+-- AddForeignKey
+ALTER TABLE "InteractionMemory" ADD CONSTRAINT "InteractionMemory_consolidatedIntoId_fkey" FOREIGN KEY ("consolidatedIntoId") REFERENCES "InteractionMemory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- DropForeignKey
+ALTER TABLE "InteractionMemory" DROP CONSTRAINT "InteractionMemory_agentId_fkey";
+
+-- AlterTable
+ALTER TABLE "InteractionMemory" ADD COLUMN     "checkpointId" TEXT,
+ADD COLUMN     "context" TEXT,
+ADD COLUMN     "legacyId" TEXT,
+ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'memory',
+ALTER COLUMN "agentId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InteractionMemory_legacyId_key" ON "InteractionMemory"("legacyId");
+
+-- CreateIndex
+CREATE INDEX "InteractionMemory_checkpointId_idx" ON "InteractionMemory"("checkpointId");
+
+-- CreateIndex
+CREATE INDEX "InteractionMemory_source_idx" ON "InteractionMemory"("source");
+
+-- CreateIndex
+CREATE INDEX "InteractionMemory_context_idx" ON "InteractionMemory"("context");
+
+-- AddForeignKey
+ALTER TABLE "InteractionMemory" ADD CONSTRAINT "InteractionMemory_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "AI_Agent"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InteractionMemory" ADD CONSTRAINT "InteractionMemory_checkpointId_fkey" FOREIGN KEY ("checkpointId") REFERENCES "SentientCheckpoint"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "CollaborationArchive" ADD COLUMN     "legalHold" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "DataSubjectRequest" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "agentId" TEXT,
+    "requestedById" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "reason" TEXT,
+    "verificationCodeHash" TEXT,
+    "verificationExpiresAt" TIMESTAMP(3),
+    "verificationAttempts" INTEGER NOT NULL DEFAULT 0,
+    "verifiedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "summary" JSONB,
+    "error" TEXT,
+
+    CONSTRAINT "DataSubjectRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DataSubjectRequest_userId_idx" ON "DataSubjectRequest"("userId");
+
+-- CreateIndex
+CREATE INDEX "DataSubjectRequest_requestedById_idx" ON "DataSubjectRequest"("requestedById");
+
+-- CreateIndex
+CREATE INDEX "DataSubjectRequest_type_idx" ON "DataSubjectRequest"("type");
+
+-- CreateIndex
+CREATE INDEX "DataSubjectRequest_status_idx" ON "DataSubjectRequest"("status");
+
+-- CreateIndex
+CREATE INDEX "DataSubjectRequest_createdAt_idx" ON "DataSubjectRequest"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "CollaborationArchive_legalHold_idx" ON "CollaborationArchive"("legalHold");
+
+-- AddForeignKey
+ALTER TABLE "DataSubjectRequest" ADD CONSTRAINT "DataSubjectRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DataSubjectRequest" ADD CONSTRAINT "DataSubjectRequest_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "AISemanticCacheEntry" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "lastHitAt" TIMESTAMP(3),
+    "module" TEXT NOT NULL,
+    "requestType" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "userId" TEXT,
+    "contextHash" TEXT NOT NULL,
+    "promptHash" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "embeddingModel" TEXT NOT NULL,
+    "response" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER NOT NULL DEFAULT 0,
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "positiveFeedback" INTEGER NOT NULL DEFAULT 0,
+    "negativeFeedback" INTEGER NOT NULL DEFAULT 0,
+    "disabled" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "AISemanticCacheEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AISemanticCacheLookup" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "module" TEXT NOT NULL,
+    "requestType" TEXT NOT NULL,
+    "userId" TEXT,
+    "hit" BOOLEAN NOT NULL,
+    "similarity" DOUBLE PRECISION,
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "entryId" TEXT,
+    "tokensSaved" INTEGER NOT NULL DEFAULT 0,
+    "latencySavedMs" INTEGER NOT NULL DEFAULT 0,
+    "feedback" TEXT,
+    "feedbackAt" TIMESTAMP(3),
+
+    CONSTRAINT "AISemanticCacheLookup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AISemanticCacheEntry_module_requestType_model_contextHash_idx" ON "AISemanticCacheEntry"("module", "requestType", "model", "contextHash");
+
+-- CreateIndex
+CREATE INDEX "AISemanticCacheEntry_userId_idx" ON "AISemanticCacheEntry"("userId");
+
+-- CreateIndex
+CREATE INDEX "AISemanticCacheEntry_expiresAt_idx" ON "AISemanticCacheEntry"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "AISemanticCacheLookup_createdAt_idx" ON "AISemanticCacheLookup"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AISemanticCacheLookup_module_requestType_idx" ON "AISemanticCacheLookup"("module", "requestType");
+
+-- CreateIndex
+CREATE INDEX "AISemanticCacheLookup_entryId_idx" ON "AISemanticCacheLookup"("entryId");
+
+-- AddForeignKey
+ALTER TABLE "AISemanticCacheLookup" ADD CONSTRAINT "AISemanticCacheLookup_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "AISemanticCacheEntry"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "UserTokenUsage" ADD COLUMN     "requestCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "TokenQuotaOverride" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT,
+    "organizationId" TEXT,
+    "dailyTokens" INTEGER,
+    "monthlyTokens" INTEGER,
+    "dailyRequests" INTEGER,
+    "monthlyRequests" INTEGER,
+    "enforcement" TEXT,
+    "reason" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+
+    CONSTRAINT "TokenQuotaOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TokenQuotaOverride_userId_key" ON "TokenQuotaOverride"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TokenQuotaOverride_organizationId_key" ON "TokenQuotaOverride"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "TokenQuotaOverride_expiresAt_idx" ON "TokenQuotaOverride"("expiresAt");
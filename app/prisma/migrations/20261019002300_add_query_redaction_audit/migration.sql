@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "QueryRedactionAudit" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "queryRequestId" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "targetModel" TEXT NOT NULL,
+    "redactedCount" INTEGER NOT NULL DEFAULT 0,
+    "redactions" JSONB NOT NULL,
+
+    CONSTRAINT "QueryRedactionAudit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QueryRedactionAudit_queryRequestId_idx" ON "QueryRedactionAudit"("queryRequestId");
+
+-- CreateIndex
+CREATE INDEX "QueryRedactionAudit_agentId_idx" ON "QueryRedactionAudit"("agentId");
+
+-- CreateIndex
+CREATE INDEX "QueryRedactionAudit_userId_idx" ON "QueryRedactionAudit"("userId");
+
+-- AddForeignKey
+ALTER TABLE "QueryRedactionAudit" ADD CONSTRAINT "QueryRedactionAudit_queryRequestId_fkey" FOREIGN KEY ("queryRequestId") REFERENCES "AgentQueryRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
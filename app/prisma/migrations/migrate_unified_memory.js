@@ -0,0 +1,112 @@
+/**
+ * Migrate Memories to the Unified Store
+ *
+ * This script copies rows of the memory stores replaced by the MemoryService into
+ * InteractionMemory:
+ * - MemoryEntry rows (ForgeFlow memories) become source 'legacy'
+ * - SentientMemorySnapshot rows become source 'sentient-loop', linked to their checkpoint
+ * It also fills the context column of InteractionMemory rows that kept it in metadata.
+ *
+ * The legacy tables are left untouched. Copies record the row they came from in
+ * `legacyId`, so the script can be run again safely. Copied rows have no embedding; the
+ * re-embedding job embeds them.
+ *
+ * Run after the database migrations, including 20261019001400_unify_interaction_memory,
+ * are applied (`wasp db migrate-dev`):
+ *   node prisma/migrations/migrate_unified_memory.js
+ */
+
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+// Migration that makes agentId optional and adds the source, context, checkpointId and legacyId columns
+const REQUIRED_MIGRATION = '20261019001400_unify_interaction_memory';
+
+// Main function
+async function migrateMemories() {
+  try {
+    console.log('Starting unified memory migration...');
+
+    const applied = await prisma.$queryRawUnsafe(
+      `SELECT 1 FROM "_prisma_migrations"
+       WHERE "migration_name" = $1 AND "finished_at" IS NOT NULL AND "rolled_back_at" IS NULL`,
+      REQUIRED_MIGRATION
+    );
+    if (applied.length === 0) {
+      throw new Error(`Migration ${REQUIRED_MIGRATION} has not been applied; run the database migrations first`);
+    }
+
+    console.log('Filling context column from metadata...');
+    const contexts = await prisma.$executeRawUnsafe(`
+      UPDATE "InteractionMemory"
+      SET "context" = "metadata"->>'context'
+      WHERE "context" IS NULL
+        AND jsonb_typeof("metadata") = 'object'
+        AND "metadata"->>'context' IS NOT NULL
+    `);
+    console.log(`Updated ${contexts} memories`);
+
+    console.log('Copying MemoryEntry rows...');
+    const entries = await prisma.$executeRawUnsafe(`
+      INSERT INTO "InteractionMemory" (
+        "id", "createdAt", "userId", "source", "type", "context", "content",
+        "importance", "expiresAt", "embedding", "metadata", "legacyId"
+      )
+      SELECT
+        gen_random_uuid()::text,
+        e."createdAt",
+        e."userId",
+        'legacy',
+        'fact',
+        e."context",
+        e."content",
+        e."importance",
+        e."expiresAt",
+        ARRAY[]::double precision[],
+        jsonb_build_object('context', e."context", 'memoryType', e."type", 'legacyTable', 'MemoryEntry'),
+        'MemoryEntry:' || e."id"
+      FROM "MemoryEntry" e
+      ON CONFLICT ("legacyId") DO NOTHING
+    `);
+    console.log(`Copied ${entries} memory entries`);
+
+    console.log('Copying SentientMemorySnapshot rows...');
+    const snapshots = await prisma.$executeRawUnsafe(`
+      INSERT INTO "InteractionMemory" (
+        "id", "createdAt", "userId", "agentId", "checkpointId", "source", "type", "context",
+        "content", "importance", "expiresAt", "embedding", "metadata", "legacyId"
+      )
+      SELECT
+        gen_random_uuid()::text,
+        s."createdAt",
+        c."userId",
+        c."agentId",
+        s."checkpointId",
+        'sentient-loop',
+        s."type"::text,
+        'sentient-loop:' || c."moduleId",
+        s."content",
+        s."importance",
+        s."expiresAt",
+        ARRAY[]::double precision[],
+        CASE WHEN jsonb_typeof(s."metadata") = 'object' THEN s."metadata" ELSE '{}'::jsonb END
+          || jsonb_build_object('context', 'sentient-loop:' || c."moduleId", 'loopSessionId', c."sessionId"),
+        'SentientMemorySnapshot:' || s."id"
+      FROM "SentientMemorySnapshot" s
+      JOIN "SentientCheckpoint" c ON c."id" = s."checkpointId"
+      ON CONFLICT ("legacyId") DO NOTHING
+    `);
+    console.log(`Copied ${snapshots} memory snapshots`);
+
+    console.log('Unified memory migration completed successfully');
+  } catch (error) {
+    console.error('Error migrating memories:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the migration
+migrateMemories();
@@ -0,0 +1,144 @@
+import { type AuthUser } from 'wasp/auth';
+import { useState } from 'react';
+import { getAICacheMetrics, getBenchmarkHistory, useQuery } from 'wasp/client/operations';
+import Breadcrumb from '../../layout/Breadcrumb';
+import DefaultLayout from '../../layout/DefaultLayout';
+import { useRedirectHomeUnlessUserIsAdmin } from '../../useRedirectHomeUnlessUserIsAdmin';
+
+type Period = 'day' | 'week' | 'month';
+
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? '-' : `${(value * 100).toFixed(1)}%`;
+
+const formatDuration = (ms: number) => (ms >= 60000 ? `${(ms / 60000).toFixed(1)} min` : `${(ms / 1000).toFixed(1)} s`);
+
+const StatCard = ({ title, value, detail }: { title: string; value: string; detail?: string }) => (
+  <div className='rounded-sm border border-stroke bg-white px-6 py-5 shadow-default dark:border-strokedark dark:bg-boxdark'>
+    <p className='text-sm font-medium'>{title}</p>
+    <h4 className='mt-2 text-title-md font-bold text-black dark:text-white'>{value}</h4>
+    {detail && <p className='mt-1 text-xs text-body'>{detail}</p>}
+  </div>
+);
+
+const AIBenchmarkPage = ({ user }: { user: AuthUser }) => {
+  useRedirectHomeUnlessUserIsAdmin({ user });
+
+  const [period, setPeriod] = useState<Period>('week');
+  const { data: cacheMetrics, isLoading: isLoadingCache } = useQuery(getAICacheMetrics, { period });
+  const { data: history, isLoading: isLoadingHistory } = useQuery(getBenchmarkHistory, { limit: 20 });
+
+  const semanticCache = cacheMetrics?.semanticCache;
+  const responseCache = cacheMetrics?.responseCache;
+
+  return (
+    <DefaultLayout user={user}>
+      <Breadcrumb pageName='AI Benchmark' />
+
+      <div className='flex flex-col gap-6'>
+        <div className='flex items-center justify-between'>
+          <h3 className='font-medium text-black dark:text-white'>Response caching</h3>
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as Period)}
+            className='rounded border border-stroke bg-transparent px-4 py-2 outline-none focus:border-primary dark:border-strokedark'
+          >
+            <option value='day'>Last 24 hours</option>
+            <option value='week'>Last 7 days</option>
+            <option value='month'>Last 30 days</option>
+          </select>
+        </div>
+
+        {isLoadingCache && <p className='text-sm'>Loading...</p>}
+
+        {cacheMetrics && (
+          <>
+            <div className='grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-4'>
+              <StatCard
+                title='Exact cache'
+                value={`${responseCache?.databaseSize ?? 0} entries`}
+                detail={`${responseCache?.hitStats?._sum?.hitCount ?? 0} hits, ${responseCache?.memorySize ?? 0} in memory`}
+              />
+              <StatCard
+                title='Semantic cache hit rate'
+                value={semanticCache?.enabled ? formatPercent(semanticCache.hitRate) : 'Disabled'}
+                detail={`${semanticCache?.hits ?? 0} of ${semanticCache?.lookups ?? 0} lookups, average similarity ${
+                  semanticCache?.averageHitSimilarity?.toFixed(3) ?? '-'
+                }`}
+              />
+              <StatCard
+                title='Saved by the semantic cache'
+                value={`${(semanticCache?.tokensSaved ?? 0).toLocaleString()} tokens`}
+                detail={`${formatDuration(semanticCache?.latencySavedMs ?? 0)} of generation time`}
+              />
+              <StatCard
+                title='Semantic hit feedback'
+                value={`${semanticCache?.feedback.positive ?? 0} helpful / ${semanticCache?.feedback.negative ?? 0} not`}
+                detail={`${semanticCache?.entries.active ?? 0} active entries, ${
+                  semanticCache?.entries.disabled ?? 0
+                } disabled by feedback`}
+              />
+            </div>
+
+            <div className='rounded-sm border border-stroke bg-white shadow-default dark:border-strokedark dark:bg-boxdark'>
+              <div className='grid grid-cols-12 border-b border-stroke px-4 py-4 text-sm font-medium dark:border-strokedark md:px-6'>
+                <p className='col-span-3'>Module</p>
+                <p className='col-span-3'>Request type</p>
+                <p className='col-span-2'>Threshold</p>
+                <p className='col-span-2'>Hit rate</p>
+                <p className='col-span-2'>Tokens saved</p>
+              </div>
+              {semanticCache?.byScope.length === 0 && (
+                <p className='px-4 py-4 text-sm md:px-6'>No semantic cache lookups in this period.</p>
+              )}
+              {semanticCache?.byScope.map((scope: any) => (
+                <div
+                  key={`${scope.module}:${scope.requestType}`}
+                  className='grid grid-cols-12 border-b border-stroke px-4 py-3 text-sm dark:border-strokedark md:px-6'
+                >
+                  <p className='col-span-3'>{scope.module}</p>
+                  <p className='col-span-3'>{scope.requestType}</p>
+                  <p className='col-span-2'>{scope.threshold}</p>
+                  <p className='col-span-2'>
+                    {formatPercent(scope.hitRate)}
+                    <span className='block text-xs text-body'>
+                      {scope.hits} of {scope.lookups}
+                    </span>
+                  </p>
+                  <p className='col-span-2'>{scope.tokensSaved.toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className='rounded-sm border border-stroke bg-white shadow-default dark:border-strokedark dark:bg-boxdark'>
+          <h3 className='border-b border-stroke px-4 py-4 font-medium text-black dark:border-strokedark dark:text-white md:px-6'>
+            Model latency
+          </h3>
+          <div className='grid grid-cols-12 border-b border-stroke px-4 py-4 text-sm font-medium dark:border-strokedark md:px-6'>
+            <p className='col-span-4'>Model</p>
+            <p className='col-span-2'>Avg latency</p>
+            <p className='col-span-2'>Min latency</p>
+            <p className='col-span-2'>Max latency</p>
+            <p className='col-span-2'>Avg tokens/s</p>
+          </div>
+          {isLoadingHistory && <p className='px-4 py-4 text-sm md:px-6'>Loading...</p>}
+          {history?.aggregateStats.map((stats: any) => (
+            <div
+              key={stats.modelName}
+              className='grid grid-cols-12 border-b border-stroke px-4 py-3 text-sm dark:border-strokedark md:px-6'
+            >
+              <p className='col-span-4 truncate'>{stats.modelName}</p>
+              <p className='col-span-2'>{Math.round(stats._avg.latencyMs ?? 0)} ms</p>
+              <p className='col-span-2'>{Math.round(stats._min.latencyMs ?? 0)} ms</p>
+              <p className='col-span-2'>{Math.round(stats._max.latencyMs ?? 0)} ms</p>
+              <p className='col-span-2'>{(stats._avg.tokensPerSecond ?? 0).toFixed(1)}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </DefaultLayout>
+  );
+};
+
+export default AIBenchmarkPage;
@@ -0,0 +1,143 @@
+import { type AuthUser } from 'wasp/auth';
+import { useState } from 'react';
+import { exportUserData, requestDataErasure, getDataSubjectRequests, useQuery } from 'wasp/client/operations';
+import Breadcrumb from '../layout/Breadcrumb';
+import DefaultLayout from '../layout/DefaultLayout';
+import { useRedirectHomeUnlessUserIsAdmin } from '../useRedirectHomeUnlessUserIsAdmin';
+import { downloadExport } from '../../modules/user/components/DataPrivacySection';
+
+const DataSubjectRequestsPage = ({ user }: { user: AuthUser }) => {
+  useRedirectHomeUnlessUserIsAdmin({ user });
+
+  const { data: requests, isLoading, refetch } = useQuery(getDataSubjectRequests, { allUsers: true, limit: 100 });
+  const [userId, setUserId] = useState('');
+  const [agentId, setAgentId] = useState('');
+  const [reason, setReason] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const scope = () => ({ userId: userId.trim(), ...(agentId.trim() && { agentId: agentId.trim() }) });
+
+  const run = async (operation: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await operation();
+    } catch (err: any) {
+      setError(err?.message || 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+      refetch();
+    }
+  };
+
+  const handleExport = (format: 'json' | 'zip') =>
+    run(async () => {
+      downloadExport(await exportUserData({ ...scope(), format }));
+    });
+
+  const handleErase = () => {
+    if (!window.confirm(`Erase the data of user ${userId}${agentId ? ` held by agent ${agentId}` : ''}? This cannot be undone.`)) {
+      return;
+    }
+    run(async () => {
+      const { request } = await requestDataErasure({ ...scope(), reason: reason.trim() || undefined });
+      const retained = request.summary?.retainedUnderLegalHold?.length ?? 0;
+      setMessage(
+        request.status === 'COMPLETED'
+          ? `Erasure completed${retained ? `; ${retained} archive(s) retained under legal hold` : ''}.`
+          : `Erasure ${request.status.toLowerCase()}: ${request.error || 'see the request summary'}.`
+      );
+    });
+  };
+
+  return (
+    <DefaultLayout user={user}>
+      <Breadcrumb pageName='Data Requests' />
+
+      <div className='flex flex-col gap-6'>
+        <div className='rounded-sm border border-stroke bg-white p-4 shadow-default dark:border-strokedark dark:bg-boxdark md:p-6'>
+          <h3 className='mb-4 font-medium text-black dark:text-white'>Export or erase a user's data</h3>
+          <div className='grid grid-cols-1 gap-4 md:grid-cols-3'>
+            <input
+              value={userId}
+              onChange={(e) => setUserId(e.target.value)}
+              placeholder='User ID'
+              className='rounded border border-stroke bg-transparent px-4 py-2 outline-none focus:border-primary dark:border-strokedark'
+            />
+            <input
+              value={agentId}
+              onChange={(e) => setAgentId(e.target.value)}
+              placeholder='Agent ID (optional)'
+              className='rounded border border-stroke bg-transparent px-4 py-2 outline-none focus:border-primary dark:border-strokedark'
+            />
+            <input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder='Reason for erasure'
+              className='rounded border border-stroke bg-transparent px-4 py-2 outline-none focus:border-primary dark:border-strokedark'
+            />
+          </div>
+          <div className='mt-4 flex flex-wrap gap-3'>
+            <button
+              onClick={() => handleExport('json')}
+              disabled={!userId.trim() || isWorking}
+              className='rounded bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-opacity-90 disabled:opacity-50'
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={() => handleExport('zip')}
+              disabled={!userId.trim() || isWorking}
+              className='rounded bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-opacity-90 disabled:opacity-50'
+            >
+              Export ZIP
+            </button>
+            <button
+              onClick={handleErase}
+              disabled={!userId.trim() || isWorking}
+              className='rounded bg-danger px-4 py-2 text-sm font-medium text-white hover:bg-opacity-90 disabled:opacity-50'
+            >
+              Erase data
+            </button>
+          </div>
+          {message && <p className='mt-3 text-sm text-success'>{message}</p>}
+          {error && <p className='mt-3 text-sm text-danger'>{error}</p>}
+        </div>
+
+        <div className='rounded-sm border border-stroke bg-white shadow-default dark:border-strokedark dark:bg-boxdark'>
+          <div className='grid grid-cols-12 border-b border-stroke px-4 py-4 text-sm font-medium dark:border-strokedark md:px-6'>
+            <p className='col-span-3'>User</p>
+            <p className='col-span-2'>Type</p>
+            <p className='col-span-2'>Status</p>
+            <p className='col-span-2'>Requested by</p>
+            <p className='col-span-3'>Created</p>
+          </div>
+          {isLoading && <p className='px-4 py-4 text-sm md:px-6'>Loading...</p>}
+          {requests?.map((request: any) => (
+            <div
+              key={request.id}
+              className='grid grid-cols-12 border-b border-stroke px-4 py-3 text-sm dark:border-strokedark md:px-6'
+            >
+              <p className='col-span-3 truncate'>
+                {request.user?.email || request.user?.username || request.userId}
+                {request.agentId && <span className='block text-xs text-body'>Agent {request.agentId}</span>}
+              </p>
+              <p className='col-span-2'>{request.type}</p>
+              <p className='col-span-2'>
+                {request.status}
+                {request.error && <span className='block text-xs text-danger'>{request.error}</span>}
+              </p>
+              <p className='col-span-2 truncate'>{request.requestedBy?.email || request.requestedById}</p>
+              <p className='col-span-3'>{new Date(request.createdAt).toLocaleString()}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </DefaultLayout>
+  );
+};
+
+export default DataSubjectRequestsPage;
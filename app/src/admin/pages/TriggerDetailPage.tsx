@@ -0,0 +1,167 @@
+import { type AuthUser } from 'wasp/auth';
+import { type ReactNode } from 'react';
+import { useParams } from 'react-router-dom';
+import { useQuery, getTriggerDetails } from 'wasp/client/operations';
+import { Link as WaspRouterLink, routes } from 'wasp/client/router';
+import Breadcrumb from '../layout/Breadcrumb';
+import DefaultLayout from '../layout/DefaultLayout';
+import { useRedirectHomeUnlessUserIsAdmin } from '../useRedirectHomeUnlessUserIsAdmin';
+
+const STATUS_STYLES: Record<string, string> = {
+  PENDING: 'bg-gray-100 text-gray-700 dark:bg-meta-4 dark:text-gray-300',
+  PROCESSING: 'bg-blue-100 text-blue-700',
+  RUNNING: 'bg-blue-100 text-blue-700',
+  COMPLETED: 'bg-green-100 text-green-700',
+  FAILED: 'bg-red-100 text-red-700',
+};
+
+export function TriggerDetailPage({ user }: { user: AuthUser }) {
+  useRedirectHomeUnlessUserIsAdmin({ user });
+
+  const { id } = useParams<{ id: string }>();
+  const { data, isLoading, error } = useQuery(getTriggerDetails, { id: id! }, { enabled: !!id });
+
+  return (
+    <DefaultLayout user={user}>
+      <Breadcrumb pageName='Trigger Details' />
+
+      <div className='mb-4'>
+        <WaspRouterLink to={routes.TriggerTrackingRoute.to} className='text-sm text-primary hover:underline'>
+          &larr; Back to triggers
+        </WaspRouterLink>
+      </div>
+
+      {isLoading && <div className='text-sm text-gray-500'>Loading trigger...</div>}
+      {error && <div className='text-sm text-red-500'>Failed to load trigger: {error.message}</div>}
+
+      {data && (
+        <div className='flex flex-col gap-6'>
+          <Section title='Overview'>
+            <dl className='grid grid-cols-1 gap-4 text-sm md:grid-cols-3'>
+              <Field label='Status'>
+                <StatusBadge status={data.trigger.status} />
+              </Field>
+              <Field label='Source'>
+                {data.trigger.source?.name} ({data.trigger.sourceType})
+              </Field>
+              <Field label='Triggered at'>{new Date(data.trigger.timestamp).toLocaleString()}</Field>
+              <Field label='Workflow'>{data.trigger.workflow?.name || '-'}</Field>
+              <Field label='Agent'>{data.trigger.agent?.name || '-'}</Field>
+              <Field label='User'>{data.trigger.user?.username || data.trigger.user?.email || '-'}</Field>
+              <Field label='Originating event'>{data.trigger.originatingEventId || '-'}</Field>
+              <Field label='Duration'>{data.trigger.duration != null ? `${data.trigger.duration} ms` : '-'}</Field>
+              <Field label='Trace ID'>{data.trigger.traceId || '-'}</Field>
+            </dl>
+            {data.trigger.error && <div className='mt-4 text-sm text-red-500'>{data.trigger.error}</div>}
+          </Section>
+
+          <Section title='Payload'>
+            <pre className='max-h-80 overflow-auto whitespace-pre-wrap rounded bg-gray-2 p-4 text-xs dark:bg-meta-4'>
+              {JSON.stringify(data.trigger.payload ?? {}, null, 2)}
+            </pre>
+          </Section>
+
+          {data.trigger.execution && (
+            <Section title='Workflow execution'>
+              <dl className='grid grid-cols-1 gap-4 text-sm md:grid-cols-3'>
+                <Field label='Execution ID'>{data.trigger.execution.id}</Field>
+                <Field label='Status'>{data.trigger.execution.status}</Field>
+                <Field label='Attempts'>{data.trigger.execution.attempts}</Field>
+                <Field label='Started'>
+                  {data.trigger.execution.startedAt ? new Date(data.trigger.execution.startedAt).toLocaleString() : '-'}
+                </Field>
+                <Field label='Completed'>
+                  {data.trigger.execution.completedAt
+                    ? new Date(data.trigger.execution.completedAt).toLocaleString()
+                    : '-'}
+                </Field>
+              </dl>
+            </Section>
+          )}
+
+          <Section title='Execution flow'>
+            {data.trigger.executionFlows.length === 0 ? (
+              <div className='text-sm text-gray-500'>No execution steps recorded</div>
+            ) : (
+              <table className='w-full text-sm'>
+                <thead>
+                  <tr className='text-left text-gray-500'>
+                    <th className='pb-2'>#</th>
+                    <th className='pb-2'>Step</th>
+                    <th className='pb-2'>Status</th>
+                    <th className='pb-2'>Started</th>
+                    <th className='pb-2'>Duration</th>
+                    <th className='pb-2'>Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.trigger.executionFlows.map((step: any) => (
+                    <tr key={step.id} className='border-t border-stroke dark:border-strokedark'>
+                      <td className='py-2'>{step.stepNumber}</td>
+                      <td className='py-2'>
+                        <div>{step.stepName || step.stepId || '-'}</div>
+                        <div className='text-xs text-gray-500'>{step.stepType}</div>
+                      </td>
+                      <td className='py-2'>
+                        <StatusBadge status={step.status} />
+                      </td>
+                      <td className='py-2'>{new Date(step.startedAt).toLocaleString()}</td>
+                      <td className='py-2'>{step.duration != null ? `${step.duration} ms` : '-'}</td>
+                      <td className='py-2 text-red-500'>{step.error || ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Section>
+
+          <Section title='Logs'>
+            {data.logs.length === 0 ? (
+              <div className='text-sm text-gray-500'>No logs share this trigger's trace</div>
+            ) : (
+              <ul className='flex flex-col gap-2 text-sm'>
+                {data.logs.map((log: any) => (
+                  <li key={log.id} className='flex gap-4'>
+                    <span className='text-gray-500'>{new Date(log.timestamp).toLocaleTimeString()}</span>
+                    <span className='font-medium'>{log.level}</span>
+                    <span>{log.message}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Section>
+        </div>
+      )}
+    </DefaultLayout>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className='rounded-sm border border-stroke bg-white shadow-default dark:border-strokedark dark:bg-boxdark'>
+      <div className='border-b border-stroke py-4 px-6 dark:border-strokedark'>
+        <h3 className='font-medium text-black dark:text-white'>{title}</h3>
+      </div>
+      <div className='p-6'>{children}</div>
+    </div>
+  );
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <dt className='text-gray-500'>{label}</dt>
+      <dd className='mt-1 text-black dark:text-white'>{children}</dd>
+    </div>
+  );
+}
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[status] || STATUS_STYLES.PENDING}`}>
+      {status}
+    </span>
+  );
+}
+
+export default TriggerDetailPage;
@@ -0,0 +1,282 @@
+import { type AuthUser } from 'wasp/auth';
+import { useState } from 'react';
+import { useQuery, getTriggerStats, listTriggers } from 'wasp/client/operations';
+import { Link as WaspRouterLink, routes } from 'wasp/client/router';
+import Breadcrumb from '../layout/Breadcrumb';
+import DefaultLayout from '../layout/DefaultLayout';
+import { useRedirectHomeUnlessUserIsAdmin } from '../useRedirectHomeUnlessUserIsAdmin';
+
+type Timeframe = 'day' | 'week' | 'month' | 'year' | 'all';
+
+const SOURCE_TYPES = [
+  'SCHEDULED_JOB',
+  'WEBHOOK',
+  'SYSTEM_EVENT',
+  'USER_INPUT',
+  'API_CALL',
+  'AGENT_ACTION',
+  'OSINT_SCAN',
+  'ALERT_RULE',
+  'OTHER',
+];
+
+const STATUSES = ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'];
+
+const STATUS_STYLES: Record<string, string> = {
+  PENDING: 'bg-gray-100 text-gray-700 dark:bg-meta-4 dark:text-gray-300',
+  PROCESSING: 'bg-blue-100 text-blue-700',
+  COMPLETED: 'bg-green-100 text-green-700',
+  FAILED: 'bg-red-100 text-red-700',
+};
+
+export function TriggerTrackingPage({ user }: { user: AuthUser }) {
+  useRedirectHomeUnlessUserIsAdmin({ user });
+
+  const [timeframe, setTimeframe] = useState<Timeframe>('week');
+  const [sourceType, setSourceType] = useState<string>('');
+  const [status, setStatus] = useState<string>('');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+
+  const { data: stats, isLoading: isStatsLoading } = useQuery(getTriggerStats, {
+    timeframe,
+    sourceType: sourceType || undefined,
+  } as any);
+
+  const { data: triggerList, isLoading: isListLoading, error } = useQuery(listTriggers, {
+    page,
+    limit: 20,
+    sourceType: sourceType || undefined,
+    status: status || undefined,
+    search: search || undefined,
+  } as any);
+
+  const countFor = (rows: any[] | undefined, key: string, value: string) =>
+    Number(rows?.find((row: any) => row[key] === value)?.count ?? 0);
+
+  return (
+    <DefaultLayout user={user}>
+      <Breadcrumb pageName='Agent Triggers' />
+
+      <div className='mb-6 flex flex-wrap gap-4'>
+        <select
+          value={timeframe}
+          onChange={(e) => setTimeframe(e.target.value as Timeframe)}
+          className='rounded border border-stroke bg-white px-3 py-2 text-sm dark:border-strokedark dark:bg-boxdark'
+        >
+          <option value='day'>Last 24 hours</option>
+          <option value='week'>Last 7 days</option>
+          <option value='month'>Last 30 days</option>
+          <option value='year'>Last year</option>
+          <option value='all'>All time</option>
+        </select>
+        <select
+          value={sourceType}
+          onChange={(e) => {
+            setSourceType(e.target.value);
+            setPage(1);
+          }}
+          className='rounded border border-stroke bg-white px-3 py-2 text-sm dark:border-strokedark dark:bg-boxdark'
+        >
+          <option value=''>All sources</option>
+          {SOURCE_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+        <select
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value);
+            setPage(1);
+          }}
+          className='rounded border border-stroke bg-white px-3 py-2 text-sm dark:border-strokedark dark:bg-boxdark'
+        >
+          <option value=''>All statuses</option>
+          {STATUSES.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <input
+          type='text'
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setPage(1);
+          }}
+          placeholder='Search source, agent, workflow or tag'
+          className='flex-1 rounded border border-stroke bg-white px-3 py-2 text-sm dark:border-strokedark dark:bg-boxdark'
+        />
+      </div>
+
+      {isStatsLoading ? (
+        <div className='mb-6 text-sm text-gray-500'>Loading statistics...</div>
+      ) : (
+        stats && (
+          <div className='mb-6 grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-4'>
+            <StatCard label='Total triggers' value={stats.totalCount} />
+            <StatCard label='Completed' value={countFor(stats.countByStatus as any[], 'status', 'COMPLETED')} />
+            <StatCard label='Failed' value={countFor(stats.countByStatus as any[], 'status', 'FAILED')} />
+            <StatCard
+              label='In progress'
+              value={
+                countFor(stats.countByStatus as any[], 'status', 'PENDING') +
+                countFor(stats.countByStatus as any[], 'status', 'PROCESSING')
+              }
+            />
+          </div>
+        )
+      )}
+
+      {stats && (
+        <div className='mb-6 grid grid-cols-1 gap-4 xl:grid-cols-2'>
+          <div className='rounded-sm border border-stroke bg-white p-6 shadow-default dark:border-strokedark dark:bg-boxdark'>
+            <h3 className='mb-4 font-medium text-black dark:text-white'>By source type</h3>
+            <table className='w-full text-sm'>
+              <thead>
+                <tr className='text-left text-gray-500'>
+                  <th className='pb-2'>Source</th>
+                  <th className='pb-2'>Triggers</th>
+                  <th className='pb-2'>Error rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(stats.countBySourceType as any[]).map((row: any) => {
+                  const errorRate = (stats.errorRateBySourceType as any[]).find(
+                    (r: any) => r.sourceType === row.sourceType
+                  );
+                  return (
+                    <tr key={row.sourceType} className='border-t border-stroke dark:border-strokedark'>
+                      <td className='py-2'>{row.sourceType}</td>
+                      <td className='py-2'>{Number(row.count)}</td>
+                      <td className='py-2'>{errorRate ? `${Number(errorRate.error_rate)}%` : '-'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className='rounded-sm border border-stroke bg-white p-6 shadow-default dark:border-strokedark dark:bg-boxdark'>
+            <h3 className='mb-4 font-medium text-black dark:text-white'>Most frequent sources</h3>
+            <table className='w-full text-sm'>
+              <thead>
+                <tr className='text-left text-gray-500'>
+                  <th className='pb-2'>Name</th>
+                  <th className='pb-2'>Type</th>
+                  <th className='pb-2'>Triggers</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(stats.topTriggers as any[]).map((row: any) => (
+                  <tr key={`${row.name}-${row.type}`} className='border-t border-stroke dark:border-strokedark'>
+                    <td className='py-2'>{row.name}</td>
+                    <td className='py-2'>{row.type}</td>
+                    <td className='py-2'>{Number(row.count)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className='rounded-sm border border-stroke bg-white shadow-default dark:border-strokedark dark:bg-boxdark'>
+        <div className='border-b border-stroke py-4 px-6 dark:border-strokedark'>
+          <h3 className='font-medium text-black dark:text-white'>Recent triggers</h3>
+        </div>
+
+        {isListLoading && <div className='p-6 text-sm text-gray-500'>Loading triggers...</div>}
+        {error && <div className='p-6 text-sm text-red-500'>Failed to load triggers: {error.message}</div>}
+
+        {triggerList && (
+          <>
+            <table className='w-full text-sm'>
+              <thead>
+                <tr className='text-left text-gray-500'>
+                  <th className='py-3 px-6'>Time</th>
+                  <th className='py-3 px-6'>Source</th>
+                  <th className='py-3 px-6'>Target</th>
+                  <th className='py-3 px-6'>Status</th>
+                  <th className='py-3 px-6'>Duration</th>
+                </tr>
+              </thead>
+              <tbody>
+                {triggerList.triggers.map((trigger: any) => (
+                  <tr key={trigger.id} className='border-t border-stroke dark:border-strokedark'>
+                    <td className='py-3 px-6'>
+                      <WaspRouterLink
+                        to={routes.TriggerDetailRoute.to}
+                        params={{ id: trigger.id }}
+                        className='text-primary hover:underline'
+                      >
+                        {new Date(trigger.timestamp).toLocaleString()}
+                      </WaspRouterLink>
+                    </td>
+                    <td className='py-3 px-6'>
+                      <div>{trigger.source?.name}</div>
+                      <div className='text-xs text-gray-500'>{trigger.sourceType}</div>
+                    </td>
+                    <td className='py-3 px-6'>{trigger.workflow?.name || trigger.agent?.name || '-'}</td>
+                    <td className='py-3 px-6'>
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[trigger.status] || STATUS_STYLES.PENDING}`}
+                      >
+                        {trigger.status}
+                      </span>
+                    </td>
+                    <td className='py-3 px-6'>{trigger.duration != null ? `${trigger.duration} ms` : '-'}</td>
+                  </tr>
+                ))}
+                {triggerList.triggers.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className='py-6 px-6 text-center text-gray-500'>
+                      No triggers recorded yet
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+
+            <div className='flex items-center justify-between border-t border-stroke py-4 px-6 text-sm dark:border-strokedark'>
+              <span className='text-gray-500'>
+                Page {triggerList.pagination.page} of {Math.max(triggerList.pagination.totalPages, 1)} (
+                {triggerList.pagination.totalCount} triggers)
+              </span>
+              <div className='flex gap-2'>
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={!triggerList.pagination.hasPreviousPage}
+                  className='rounded border border-stroke px-3 py-1 disabled:opacity-50 dark:border-strokedark'
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={!triggerList.pagination.hasNextPage}
+                  className='rounded border border-stroke px-3 py-1 disabled:opacity-50 dark:border-strokedark'
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </DefaultLayout>
+  );
+}
+
+function StatCard({ label, value }: { label: string; value: number }) {
+  return (
+    <div className='rounded-sm border border-stroke bg-white p-6 shadow-default dark:border-strokedark dark:bg-boxdark'>
+      <div className='text-sm text-gray-500'>{label}</div>
+      <div className='mt-2 text-title-md font-bold text-black dark:text-white'>{value}</div>
+    </div>
+  );
+}
+
+export default TriggerTrackingPage;
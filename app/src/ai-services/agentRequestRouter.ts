@@ -2,15 +2,27 @@
  * Agent Request Router
  *
  * This module provides intelligent routing of AI requests to the appropriate models,
- * with support for load balancing, fallbacks, and parallel processing.
+ * with support for load balancing, fallbacks, and parallel processing. Providers are
+ * resolved by the LLM gateway from the module's routing rules; Groq and Gemini keep their
+ * SDK-based inference paths, other providers and all streamed requests are served through
+ * the gateway. Streamed responses are cached and tracked once they complete. The tokens
+ * every inference used are recorded for the user's quotas, including streams that are
+ * aborted or fail part way.
  */
 
-import { GROQ_CONFIG, GEMINI_CONFIG } from '../shared/config/ai-config';
+import { GROQ_CONFIG, GEMINI_CONFIG, SEMANTIC_CACHE_CONFIG } from '../shared/config/ai-config';
 import { groqInference, GroqInferenceOptions } from './groq';
 import { geminiInference, GeminiInferenceInput } from './gemini';
 import { trackedGroqInference, TrackedGroqInferenceOptions } from './trackedGroqInference';
 import { LoggingService } from '../shared/services/logging';
+import { enforceTokenQuota } from './tokenQuotas';
+import { trackTokenBudget } from './inferenceMetrics';
+import { getCompletionText, isAsyncIterable, observeChatCompletionStream, replayChatCompletion } from './streaming';
 import { HttpError } from 'wasp/server';
+import { LLMGateway, LLMGatewayRequest, LLMProviderId, llmProviders, toChatCompletion, toChatCompletionChunks } from './gateway';
+
+// Providers with a dedicated SDK integration; all others go through the gateway
+const SDK_PROVIDERS: LLMProviderId[] = ['groq', 'gemini'];
 
 // Model tier types
 export type ModelTier = 'fast' | 'standard' | 'premium';
@@ -58,9 +70,18 @@ export interface RouterOptions {
 
   // Whether to use caching for this request
   useCache?: boolean;
+
+  // Whether to serve responses cached for similar prompts (see SEMANTIC_CACHE_CONFIG)
+  useSemanticCache?: boolean;
   
-  // The AI provider to use (groq or gemini)
-  provider?: 'groq' | 'gemini';
+  // The AI provider to use, bypassing the module's routing rules
+  provider?: LLMProviderId;
+
+  // Whether to check the user's token and request quotas before the request (see tokenQuotas.ts)
+  enforceQuota?: boolean;
+
+  // Aborts a streamed request upstream, e.g. when the client disconnects
+  signal?: AbortSignal;
 }
 
 /**
@@ -82,23 +103,46 @@ export async function routeRequest(
   // Determine the model tier to use
   const modelTier = routerOptions.modelTier || determineModelTier(options, routerOptions);
 
-  // Determine the provider to use
-  const provider = routerOptions.provider || determineProvider(options.model);
+  // A provider override must name a provider the module may use
+  if (
+    routerOptions.provider &&
+    !(await LLMGateway.isProviderAllowed(routerOptions.module, routerOptions.provider, routerOptions.userId))
+  ) {
+    throw new HttpError(400, `Unknown provider: ${routerOptions.provider}`);
+  }
+
+  // Determine the provider to use from the request, the module's routing rules or the model
+  const route = await LLMGateway.resolveRoute(routerOptions.module, {
+    requestType: routerOptions.requestType,
+    modelTier,
+    provider: routerOptions.provider,
+    model: options.model,
+    userId: routerOptions.userId,
+  });
+  const provider = route.provider;
 
   // Get the model configuration for this tier based on provider
-  const modelConfig = provider === 'gemini' 
-    ? GEMINI_CONFIG.models[modelTier] 
-    : GROQ_CONFIG.models[modelTier];
+  const modelConfig = getModelConfig(provider, modelTier);
 
   // Apply model configuration to options if not explicitly set
   const inferenceOptions = {
     ...options,
-    model: options.model || modelConfig.name,
+    model: route.model || modelConfig.name,
     temperature: options.temperature ?? modelConfig.temperature,
     maxTokens: options.maxTokens || modelConfig.maxTokens,
     topP: options.topP || modelConfig.topP,
   };
 
+  // Check quotas before spending any tokens; exhausted quotas are not retried with fallbacks
+  if (routerOptions.userId && routerOptions.enforceQuota !== false) {
+    await enforceTokenQuota({
+      userId: routerOptions.userId,
+      estimatedTokens: estimateRequestTokens(inferenceOptions),
+      module: routerOptions.module,
+      requestType: routerOptions.requestType,
+    });
+  }
+
   try {
     // Log the request routing decision
     await LoggingService.logSystemEvent({
@@ -113,6 +157,8 @@ export async function routeRequest(
         requestType: routerOptions.requestType || 'default',
         priority: routerOptions.priority || modelConfig.priority,
         modelTier,
+        provider,
+        routeSource: route.source,
         model: inferenceOptions.model,
         useParallelProcessing: routerOptions.useParallelProcessing || false,
       },
@@ -164,71 +210,42 @@ export async function routeRequest(
           },
         });
 
-        return cachedResponse;
+        return inferenceOptions.stream ? replayChatCompletion(cachedResponse) : cachedResponse;
       }
 
       // If not in cache, proceed with inference and cache the result afterward
-      let result;
-
-      // If tracking is enabled, use tracked inference
-      if (routerOptions.trackRequest && routerOptions.userId) {
-        const trackedOptions: TrackedGroqInferenceOptions = {
-          ...inferenceOptions,
-          userId: routerOptions.userId,
-          module: routerOptions.module,
-          sessionType: routerOptions.requestType || 'default',
-          agentId: routerOptions.agentId,
-          trackingSessionId: routerOptions.sessionId,
-        };
-
-        result = await trackedGroqInference(trackedOptions, context);
-      } else {
-        // Otherwise use standard inference
-        result = await groqInference(inferenceOptions, context);
-      }
-
-      // Cache the result
-      await cacheResponse(cacheKey, result, {
+      const result = await inferWithSemanticCache(provider, inferenceOptions, routerOptions, context);
+      const cacheOptions = {
         prompt: inferenceOptions.prompt,
         model: inferenceOptions.model,
         userId: routerOptions.userId,
         module: routerOptions.module,
         requestType: routerOptions.requestType,
-      });
-
-      return result;
-    }
+      };
 
-    // If not using cache, proceed with normal inference
+      // Responses served from the semantic cache are already cached
+      if (result?.semanticCache) {
+        return result;
+      }
 
-    // Determine which provider to use
-    const provider = routerOptions.provider || determineProvider(inferenceOptions.model);
+      // Streams are cached once they complete
+      if (isAsyncIterable(result)) {
+        return observeChatCompletionStream(result, {
+          onComplete: completion => cacheResponse(cacheKey, completion, cacheOptions),
+        });
+      }
 
-    // If tracking is enabled and using Groq, use tracked inference
-    if (provider === 'groq' && routerOptions.trackRequest && routerOptions.userId) {
-      const trackedOptions: TrackedGroqInferenceOptions = {
-        ...inferenceOptions,
-        userId: routerOptions.userId,
-        module: routerOptions.module,
-        sessionType: routerOptions.requestType || 'default',
-        agentId: routerOptions.agentId,
-        trackingSessionId: routerOptions.sessionId,
-      };
+      await cacheResponse(cacheKey, result, cacheOptions);
 
-      return await trackedGroqInference(trackedOptions, context);
-    }
-    
-    // Use the appropriate provider
-    if (provider === 'gemini') {
-      return await geminiInference(inferenceOptions, context);
-    } else {
-      // Otherwise use standard Groq inference
-      return await groqInference(inferenceOptions, context);
+      return result;
     }
+
+    // If not using the exact cache, proceed with inference
+    return await inferWithSemanticCache(provider, inferenceOptions, routerOptions, context);
   } catch (error) {
     // If fallbacks are enabled, try fallback models
     if (routerOptions.useFallbacks !== false && GROQ_CONFIG.fallbacks) {
-      return await handleFallbacks(error, inferenceOptions, routerOptions, modelTier, context);
+      return await handleFallbacks(error, inferenceOptions, routerOptions, provider, modelTier, context);
     }
 
     // Otherwise, rethrow the error
@@ -261,6 +278,211 @@ export async function routeRequest(
   }
 }
 
+/**
+ * Estimates the tokens a request will use from its text and completion budget
+ */
+function estimateRequestTokens(inferenceOptions: any): number {
+  return estimatePromptTokens(inferenceOptions) + (inferenceOptions.maxTokens || 0);
+}
+
+/**
+ * Estimates the prompt tokens of a request from its text
+ */
+function estimatePromptTokens(inferenceOptions: any): number {
+  const promptLength = [inferenceOptions.systemPrompt, inferenceOptions.context, inferenceOptions.prompt]
+    .filter(Boolean)
+    .join('\n').length;
+
+  return Math.ceil(promptLength / 4);
+}
+
+/**
+ * Records the tokens an inference used to the user's token usage, which quotas are checked
+ * against. Streams are recorded once they complete, are aborted or fail, with the output
+ * generated until then; providers that do not report usage are estimated from the text.
+ */
+async function recordTokenUsage(result: any, inferenceOptions: any, routerOptions: RouterOptions) {
+  if (!routerOptions.userId) {
+    return result;
+  }
+
+  const record = async (completion: any) => {
+    await trackTokenBudget(
+      routerOptions.userId!,
+      completion?.usage?.prompt_tokens ?? estimatePromptTokens(inferenceOptions),
+      completion?.usage?.completion_tokens ?? Math.ceil(getCompletionText(completion).length / 4),
+      routerOptions.requestType || 'default'
+    );
+  };
+
+  if (isAsyncIterable(result)) {
+    return observeChatCompletionStream(result, {
+      onComplete: record,
+      onAbort: record,
+      onError: (_error, partial) => record(partial),
+    });
+  }
+
+  // A response that was generated is returned even if recording its usage fails
+  try {
+    await record(result);
+  } catch (error) {
+    console.error('Error recording token usage:', error);
+  }
+
+  return result;
+}
+
+/**
+ * Runs inference, serving the response cached for a similar prompt when the semantic cache
+ * has one. Served responses carry the cache lookup id so users can rate them.
+ */
+async function inferWithSemanticCache(
+  provider: LLMProviderId,
+  inferenceOptions: any,
+  routerOptions: RouterOptions,
+  context: any
+) {
+  if (routerOptions.useSemanticCache === false || !SEMANTIC_CACHE_CONFIG.enabled) {
+    return await runInference(provider, inferenceOptions, routerOptions, context);
+  }
+
+  // Import cache utilities dynamically to avoid circular dependencies
+  const { lookupSemanticCache, storeSemanticCacheEntry } = await import('./semanticResponseCache');
+
+  const cacheRequest = {
+    prompt: inferenceOptions.prompt,
+    systemPrompt: inferenceOptions.systemPrompt,
+    context: inferenceOptions.context,
+    model: inferenceOptions.model,
+    module: routerOptions.module,
+    requestType: routerOptions.requestType || 'default',
+    temperature: inferenceOptions.temperature,
+    userId: routerOptions.userId,
+  };
+
+  const lookup = await lookupSemanticCache(cacheRequest);
+
+  if (lookup?.hit) {
+    const semanticCache = { lookupId: lookup.lookupId, similarity: lookup.similarity };
+
+    return inferenceOptions.stream
+      ? Object.assign(replayChatCompletion({ ...lookup.response, semanticCache }), { semanticCache })
+      : { ...lookup.response, semanticCache };
+  }
+
+  const startTime = Date.now();
+  const result = await runInference(provider, inferenceOptions, routerOptions, context);
+
+  if (lookup && isAsyncIterable(result)) {
+    return observeChatCompletionStream(result, {
+      onComplete: completion =>
+        storeSemanticCacheEntry(cacheRequest, completion, {
+          embedding: lookup.embedding,
+          latencyMs: Date.now() - startTime,
+        }),
+    });
+  }
+
+  if (lookup) {
+    await storeSemanticCacheEntry(cacheRequest, result, {
+      embedding: lookup.embedding,
+      latencyMs: Date.now() - startTime,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Runs inference with the SDK integration of Groq or Gemini, or through the gateway
+ */
+async function runInference(
+  provider: LLMProviderId,
+  inferenceOptions: any,
+  routerOptions: RouterOptions,
+  context: any
+) {
+  const trackedOptions: TrackedGroqInferenceOptions | null =
+    routerOptions.trackRequest && routerOptions.userId
+      ? {
+          ...inferenceOptions,
+          userId: routerOptions.userId,
+          module: routerOptions.module,
+          sessionType: routerOptions.requestType || 'default',
+          agentId: routerOptions.agentId,
+          trackingSessionId: routerOptions.sessionId,
+        }
+      : null;
+
+  let result;
+
+  // Streams go through the gateway, which aborts the upstream request on routerOptions.signal
+  if (inferenceOptions.stream) {
+    const streamInference = (options: any) => gatewayInference(options, { ...routerOptions, provider });
+
+    result = trackedOptions
+      ? await trackedGroqInference(trackedOptions, context, streamInference)
+      : await streamInference(inferenceOptions);
+  } else if (!SDK_PROVIDERS.includes(provider)) {
+    result = await gatewayInference(inferenceOptions, routerOptions);
+  } else if (provider === 'gemini') {
+    result = await geminiInference(inferenceOptions, context);
+  } else if (trackedOptions) {
+    // If tracking is enabled, use tracked inference
+    result = await trackedGroqInference(trackedOptions, context);
+  } else {
+    // Otherwise use standard Groq inference
+    result = await groqInference(inferenceOptions, context);
+  }
+
+  return recordTokenUsage(result, inferenceOptions, routerOptions);
+}
+
+/**
+ * Runs inference through the LLM gateway, returning the chat completion (or stream of
+ * chunks) shape of the Groq SDK so callers need not know which provider answered
+ */
+async function gatewayInference(inferenceOptions: any, routerOptions: RouterOptions) {
+  const request: LLMGatewayRequest = {
+    module: routerOptions.module,
+    requestType: routerOptions.requestType,
+    provider: routerOptions.provider,
+    userId: routerOptions.userId,
+    model: inferenceOptions.model,
+    temperature: inferenceOptions.temperature,
+    maxTokens: inferenceOptions.maxTokens,
+    topP: inferenceOptions.topP,
+    signal: routerOptions.signal,
+    messages: [
+      ...(inferenceOptions.systemPrompt ? [{ role: 'system' as const, content: inferenceOptions.systemPrompt }] : []),
+      {
+        role: 'user' as const,
+        content: inferenceOptions.context
+          ? `${inferenceOptions.context}\n\n${inferenceOptions.prompt}`
+          : inferenceOptions.prompt,
+      },
+    ],
+  };
+
+  if (inferenceOptions.stream) {
+    return toChatCompletionChunks(LLMGateway.stream(request), inferenceOptions.model);
+  }
+
+  return toChatCompletion(await LLMGateway.complete(request));
+}
+
+/**
+ * Gets the tier settings of a provider; providers without their own settings use the
+ * Groq tier settings with their own model names
+ */
+function getModelConfig(provider: LLMProviderId, modelTier: ModelTier) {
+  if (provider === 'gemini') return GEMINI_CONFIG.models[modelTier];
+  if (provider === 'groq') return GROQ_CONFIG.models[modelTier];
+
+  return { ...GROQ_CONFIG.models[modelTier], name: llmProviders.get(provider).models[modelTier] };
+}
+
 /**
  * Determines the appropriate provider based on the model name
  */
@@ -327,12 +549,15 @@ async function handleFallbacks(
   error: any,
   options: any,
   routerOptions: RouterOptions,
+  provider: LLMProviderId,
   modelTier: ModelTier,
   context: any
 ) {
-  // Determine the provider
-  const provider = routerOptions.provider || determineProvider(options.model);
-  
+  // The gateway has already tried the fallbacks of the module's route
+  if (!SDK_PROVIDERS.includes(provider)) {
+    throw error;
+  }
+
   // Get the fallback models for this tier based on provider
   const fallbacks = provider === 'gemini' 
     ? GEMINI_CONFIG.fallbacks[modelTier] 
@@ -393,11 +618,11 @@ async function handleFallbacks(
       const fallbackProvider = determineProvider(fallbackModel);
       
       // Try the fallback model with the appropriate provider
-      if (fallbackProvider === 'gemini') {
-        return await geminiInference(fallbackOptions, context);
-      } else {
-        return await groqInference(fallbackOptions, context);
-      }
+      const result = fallbackProvider === 'gemini'
+        ? await geminiInference(fallbackOptions, context)
+        : await groqInference(fallbackOptions, context);
+
+      return await recordTokenUsage(result, fallbackOptions, routerOptions);
     } catch (fallbackError) {
       lastError = fallbackError;
 
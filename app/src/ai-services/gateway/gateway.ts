@@ -0,0 +1,390 @@
+/**
+ * LLM Gateway
+ *
+ * Single entry point for chat completions, streaming and embeddings across providers.
+ * Each request is routed by the calling module's routing rules, stored in a ModuleConfig
+ * row named 'llm-routing', falling back to LLM_DEFAULT_PROVIDER and then to the provider
+ * implied by the requested model. Targets lacking a capability the request needs (tools,
+ * JSON mode, embeddings) are skipped, and failed targets fall through to the route's
+ * fallbacks in order.
+ */
+
+import { prisma } from 'wasp/server';
+import { LoggingService } from '../../shared/services/logging';
+import type { ModelTier, RequestType } from '../agentRequestRouter';
+import { llmProviders } from './registry';
+import {
+  LLMCapability,
+  LLMGatewayError,
+  LLMProviderId,
+  LLMRequest,
+  LLMResponse,
+  LLMRoute,
+  LLMRouteTarget,
+  LLMRoutingRule,
+  LLMStreamChunk,
+  ModuleLLMRoutingConfig,
+} from './types';
+
+export const LLM_ROUTING_CONFIG_NAME = 'llm-routing';
+
+// Routing configs are read on every request, so they are cached briefly
+const ROUTING_CACHE_TTL_MS = 60 * 1000;
+const routingCache = new Map<string, { config: ModuleLLMRoutingConfig | null; expiresAt: number }>();
+
+export interface LLMGatewayRequest extends LLMRequest {
+  /** The module making the request, used to look up its routing rules */
+  module: string;
+  requestType?: RequestType;
+  /** Bypass routing and use this provider */
+  provider?: LLMProviderId;
+  userId?: string;
+}
+
+export interface LLMRouteOptions {
+  requestType?: RequestType;
+  modelTier?: ModelTier;
+  provider?: LLMProviderId;
+  model?: string;
+  userId?: string;
+}
+
+function matchesFilter<T>(value: T | undefined, filter?: T | T[]): boolean {
+  if (filter === undefined) return true;
+  if (value === undefined) return false;
+  return Array.isArray(filter) ? filter.includes(value) : filter === value;
+}
+
+function toTarget(target: LLMProviderId | LLMRouteTarget): LLMRouteTarget {
+  return typeof target === 'string' ? { provider: target } : target;
+}
+
+function requiredCapabilities(request: LLMRequest): LLMCapability[] {
+  return [
+    ...(request.tools?.length ? ['tools' as const] : []),
+    ...(request.responseFormat === 'json' ? ['jsonMode' as const] : []),
+  ];
+}
+
+export class LLMGateway {
+  /**
+   * Get the routing config of a module: the user's override, then the organization's,
+   * then the global one
+   */
+  static async getModuleRoutingConfig(moduleId: string, userId?: string): Promise<ModuleLLMRoutingConfig | null> {
+    const cacheKey = `${moduleId}:${userId || ''}`;
+    const cached = routingCache.get(cacheKey);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.config;
+    }
+
+    let config: ModuleLLMRoutingConfig | null = null;
+
+    try {
+      const user = userId
+        ? await prisma.user.findUnique({ where: { id: userId }, select: { organizationId: true } })
+        : null;
+      const scopes = [
+        ...(userId ? [{ userId }] : []),
+        ...(user?.organizationId ? [{ organizationId: user.organizationId, userId: null }] : []),
+        { userId: null, organizationId: null },
+      ];
+
+      for (const scope of scopes) {
+        const row = await prisma.moduleConfig.findFirst({
+          where: { ...scope, moduleId, name: LLM_ROUTING_CONFIG_NAME, isActive: true },
+        });
+
+        if (row) {
+          config = row.config as unknown as ModuleLLMRoutingConfig;
+          break;
+        }
+      }
+    } catch (error) {
+      // Routing falls back to the default provider when the config cannot be read
+      console.error(`Error loading LLM routing config for ${moduleId}:`, error);
+    }
+
+    routingCache.set(cacheKey, { config, expiresAt: Date.now() + ROUTING_CACHE_TTL_MS });
+    return config;
+  }
+
+  static clearRoutingCache(): void {
+    routingCache.clear();
+  }
+
+  /**
+   * Whether a caller may override a module's routing with this provider: it must be
+   * registered and, when the module has a routing config, allowed by it
+   */
+  static async isProviderAllowed(moduleId: string, providerId: LLMProviderId, userId?: string): Promise<boolean> {
+    if (!llmProviders.has(providerId)) {
+      return false;
+    }
+
+    const config = await LLMGateway.getModuleRoutingConfig(moduleId, userId);
+
+    if (!config) {
+      return true;
+    }
+
+    const allowed = config.allowedProviders || [
+      ...(config.rules || []).flatMap(rule => [rule.provider, ...(rule.fallbacks || []).map(toTarget).map(target => target.provider)]),
+      ...(config.provider ? [config.provider] : []),
+      ...(config.fallbacks || []).map(toTarget).map(target => target.provider),
+    ];
+
+    return allowed.includes(providerId);
+  }
+
+  /**
+   * Decide which provider and model serve a request from a module
+   */
+  static async resolveRoute(moduleId: string, options: LLMRouteOptions = {}): Promise<LLMRoute> {
+    if (options.provider) {
+      if (!(await LLMGateway.isProviderAllowed(moduleId, options.provider, options.userId))) {
+        throw new LLMGatewayError(options.provider, `provider is not available to module ${moduleId}`, 400);
+      }
+
+      return { provider: options.provider, model: options.model, fallbacks: [], source: 'request' };
+    }
+
+    const config = await LLMGateway.getModuleRoutingConfig(moduleId, options.userId);
+    const rule: LLMRoutingRule | undefined = config?.rules?.find(
+      candidate =>
+        matchesFilter(options.requestType, candidate.requestType) &&
+        matchesFilter(options.modelTier, candidate.modelTier)
+    );
+
+    if (rule) {
+      return {
+        provider: rule.provider,
+        model: rule.model,
+        fallbacks: (rule.fallbacks || config?.fallbacks || []).map(toTarget),
+        source: 'module',
+      };
+    }
+
+    if (config?.provider) {
+      return {
+        provider: config.provider,
+        model: config.model,
+        fallbacks: (config.fallbacks || []).map(toTarget),
+        source: 'module',
+      };
+    }
+
+    if (llmProviders.hasConfiguredDefault()) {
+      return { provider: llmProviders.getDefaultProviderId(), fallbacks: [], source: 'default' };
+    }
+
+    return {
+      provider: options.model?.startsWith('gemini-') ? 'gemini' : llmProviders.getDefaultProviderId(),
+      model: options.model,
+      fallbacks: [],
+      source: 'model',
+    };
+  }
+
+  /**
+   * The targets to try for a request, in order, leaving out unregistered providers and
+   * providers without the capabilities the request needs
+   */
+  private static async getTargets(request: LLMGatewayRequest, capabilities: LLMCapability[]): Promise<LLMRouteTarget[]> {
+    const route = await LLMGateway.resolveRoute(request.module, {
+      requestType: request.requestType,
+      modelTier: request.modelTier,
+      provider: request.provider,
+      model: request.model,
+      userId: request.userId,
+    });
+    const targets = [{ provider: route.provider, model: route.model }, ...route.fallbacks].filter(
+      target =>
+        llmProviders.has(target.provider) &&
+        capabilities.every(capability => llmProviders.get(target.provider).capabilities[capability])
+    );
+
+    if (targets.length === 0) {
+      throw new LLMGatewayError(
+        route.provider,
+        capabilities.length
+          ? `no provider on the route of module ${request.module} supports ${capabilities.join(', ')}`
+          : `provider is not registered`
+      );
+    }
+
+    return targets;
+  }
+
+  private static async logFallback(request: LLMGatewayRequest, target: LLMRouteTarget, error: any, hasNext: boolean) {
+    await LoggingService.logSystemEvent({
+      message: `LLM provider ${target.provider} failed${hasNext ? ', trying the next provider' : ''}`,
+      level: hasNext ? 'WARN' : 'ERROR',
+      category: 'INTEGRATION',
+      source: 'llm-gateway',
+      userId: request.userId,
+      tags: ['ai', 'gateway', 'fallback', target.provider],
+      metadata: {
+        module: request.module,
+        requestType: request.requestType || 'default',
+        provider: target.provider,
+        model: target.model,
+        error: error?.message,
+      },
+    });
+  }
+
+  /**
+   * Complete a chat request
+   */
+  static async complete(request: LLMGatewayRequest): Promise<LLMResponse> {
+    const targets = await LLMGateway.getTargets(request, requiredCapabilities(request));
+    let lastError: any;
+
+    for (const [index, target] of targets.entries()) {
+      try {
+        return await llmProviders.get(target.provider).complete({ ...request, model: target.model });
+      } catch (error) {
+        lastError = error;
+        await LLMGateway.logFallback(request, target, error, index < targets.length - 1);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Stream a chat request; a failed provider is only replaced by a fallback before it has
+   * produced any output
+   */
+  static async *stream(request: LLMGatewayRequest): AsyncGenerator<LLMStreamChunk> {
+    const targets = await LLMGateway.getTargets(request, requiredCapabilities(request));
+    let lastError: any;
+
+    for (const [index, target] of targets.entries()) {
+      let started = false;
+
+      try {
+        for await (const chunk of llmProviders.get(target.provider).stream({ ...request, model: target.model })) {
+          started = true;
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        if (started) throw error;
+
+        lastError = error;
+        await LLMGateway.logFallback(request, target, error, index < targets.length - 1);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Embed texts with the first provider on the module's route that supports embeddings
+   */
+  static async embed(request: {
+    module: string;
+    texts: string[];
+    provider?: LLMProviderId;
+    model?: string;
+    userId?: string;
+  }): Promise<{ provider: LLMProviderId; model?: string; vectors: number[][] }> {
+    const gatewayRequest: LLMGatewayRequest = { ...request, messages: [], requestType: 'embedding' };
+    const targets = await LLMGateway.getTargets(gatewayRequest, ['embeddings']);
+    let lastError: any;
+
+    for (const [index, target] of targets.entries()) {
+      const provider = llmProviders.get(target.provider);
+
+      try {
+        const model = target.model || provider.embeddingModel;
+        return { provider: provider.id, model, vectors: await provider.embed!(request.texts, model) };
+      } catch (error) {
+        lastError = error;
+        await LLMGateway.logFallback(gatewayRequest, target, error, index < targets.length - 1);
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+/**
+ * Convert a gateway response to the OpenAI chat completion shape returned by the Groq SDK
+ */
+export function toChatCompletion(response: LLMResponse) {
+  return {
+    id: response.id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: response.model,
+    provider: response.provider,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: response.content,
+          ...(response.toolCalls && {
+            tool_calls: response.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function',
+              function: { name: call.name, arguments: call.arguments },
+            })),
+          }),
+        },
+        finish_reason: response.finishReason,
+      },
+    ],
+    usage: response.usage && {
+      prompt_tokens: response.usage.promptTokens,
+      completion_tokens: response.usage.completionTokens,
+      total_tokens: response.usage.totalTokens,
+    },
+  };
+}
+
+/**
+ * Convert a gateway stream to OpenAI chat completion chunks, so existing stream handlers
+ * such as handleGroqStream can consume it
+ */
+export async function* toChatCompletionChunks(stream: AsyncIterable<LLMStreamChunk>, model: string) {
+  const id = `chatcmpl-${Date.now().toString(36)}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  for await (const chunk of stream) {
+    yield {
+      id,
+      object: 'chat.completion.chunk',
+      created,
+      model,
+      choices: [
+        {
+          index: 0,
+          delta: {
+            content: chunk.delta,
+            ...(chunk.toolCalls && {
+              tool_calls: chunk.toolCalls.map((call, index) => ({
+                index,
+                id: call.id,
+                type: 'function',
+                function: { name: call.name, arguments: call.arguments },
+              })),
+            }),
+          },
+          finish_reason: chunk.finishReason ?? null,
+        },
+      ],
+      ...(chunk.usage && {
+        usage: {
+          prompt_tokens: chunk.usage.promptTokens,
+          completion_tokens: chunk.usage.completionTokens,
+          total_tokens: chunk.usage.totalTokens,
+        },
+      }),
+    };
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * LLM Gateway for CauldronOS
+ *
+ * Provider-agnostic access to chat models and embeddings, with per-module routing.
+ */
+
+export * from './types';
+export * from './providers';
+export * from './registry';
+export * from './gateway';
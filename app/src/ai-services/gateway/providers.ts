@@ -0,0 +1,504 @@
+/**
+ * LLM Providers
+ *
+ * Gateway backends for Groq, Gemini, any OpenAI-compatible endpoint (OpenAI, vLLM, Ollama,
+ * the llama.cpp server) and a deterministic mock for tests. All of them talk plain HTTP,
+ * so a provider can point at a local server in environments without internet access.
+ */
+
+import { createHash } from 'crypto';
+import { GEMINI_CONFIG, GROQ_CONFIG } from '../../shared/config/ai-config';
+import { LocalHashingEmbeddingProvider } from '../../modules/memory/services/embeddingProviders';
+import type { ModelTier } from '../agentRequestRouter';
+import {
+  LLMCapabilities,
+  LLMFinishReason,
+  LLMGatewayError,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderId,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMToolCall,
+  LLMUsage,
+} from './types';
+
+const DEFAULT_TIMEOUT_MS = GROQ_CONFIG.swarm.timeoutMs;
+
+/**
+ * Yield the data field of every server-sent event in a response body
+ */
+async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trim();
+        }
+      }
+
+      if (done) {
+        finished = true;
+        return;
+      }
+    }
+  } finally {
+    // Close the upstream connection when the consumer stops reading early
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
+
+async function checkResponse(providerId: LLMProviderId, response: Response): Promise<Response> {
+  if (!response.ok) {
+    throw new LLMGatewayError(providerId, `HTTP ${response.status}: ${await response.text()}`, response.status);
+  }
+
+  return response;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Provider for any API implementing the OpenAI `/chat/completions` endpoint
+ */
+export class OpenAICompatibleLLMProvider implements LLMProvider {
+  readonly id: LLMProviderId;
+  readonly capabilities: LLMCapabilities;
+  readonly models: Record<ModelTier, string>;
+  readonly embeddingModel?: string;
+
+  constructor(private readonly options: {
+    id: LLMProviderId;
+    baseUrl: string;
+    apiKey?: string;
+    models: Record<ModelTier, string>;
+    capabilities: LLMCapabilities;
+    embeddingModel?: string;
+    timeoutMs?: number;
+  }) {
+    this.id = options.id;
+    this.models = options.models;
+    this.capabilities = options.capabilities;
+    this.embeddingModel = options.embeddingModel;
+  }
+
+  private async post(path: string, body: Record<string, any>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(!!this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` }),
+      },
+      body: JSON.stringify(body),
+      signal: signal ?? AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+
+    return checkResponse(this.id, response);
+  }
+
+  private buildBody(request: LLMRequest, model: string, stream: boolean): Record<string, any> {
+    return {
+      model,
+      messages: request.messages.map(message => ({
+        role: message.role,
+        content: message.content,
+        ...(!!message.toolCalls?.length && {
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        }),
+        ...(!!message.toolCallId && { tool_call_id: message.toolCallId }),
+        ...(!!message.name && { name: message.name }),
+      })),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      top_p: request.topP,
+      stop: request.stop,
+      ...(request.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+      ...(!!request.tools?.length && {
+        tools: request.tools.map(tool => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      }),
+      ...(stream && { stream: true }),
+    };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const model = request.model || this.models[request.modelTier || 'standard'];
+    const response = await this.post('/chat/completions', this.buildBody(request, model, false), request.signal);
+    const body = await response.json();
+    const choice = body.choices?.[0];
+
+    if (!choice) {
+      throw new LLMGatewayError(this.id, 'response contained no choices');
+    }
+
+    const toolCalls: LLMToolCall[] = (choice.message?.tool_calls || []).map((call: any) => ({
+      id: call.id,
+      name: call.function?.name,
+      arguments: call.function?.arguments || '{}',
+    }));
+
+    return {
+      id: body.id || `${this.id}-${startTime}`,
+      provider: this.id,
+      model: body.model || model,
+      content: choice.message?.content || '',
+      ...(toolCalls.length > 0 && { toolCalls }),
+      finishReason: toFinishReason(choice.finish_reason),
+      usage: toUsage(body.usage),
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const model = request.model || this.models[request.modelTier || 'standard'];
+    const response = await this.post('/chat/completions', this.buildBody(request, model, true), request.signal);
+    const toolCalls: LLMToolCall[] = [];
+    let finishReason: LLMFinishReason = 'stop';
+    let usage: LLMUsage | undefined;
+
+    for await (const data of readServerSentEvents(response)) {
+      if (data === '[DONE]') break;
+
+      const chunk = JSON.parse(data);
+      const choice = chunk.choices?.[0];
+      usage = toUsage(chunk.usage ?? chunk.x_groq?.usage) ?? usage;
+
+      // Tool call names and arguments arrive in fragments keyed by index
+      for (const fragment of choice?.delta?.tool_calls || []) {
+        const call = (toolCalls[fragment.index ?? toolCalls.length] ??= { id: '', name: '', arguments: '' });
+        call.id = fragment.id || call.id;
+        call.name += fragment.function?.name || '';
+        call.arguments += fragment.function?.arguments || '';
+      }
+
+      if (choice?.finish_reason) {
+        finishReason = toFinishReason(choice.finish_reason);
+      }
+
+      if (choice?.delta?.content) {
+        yield { delta: choice.delta.content };
+      }
+    }
+
+    yield { delta: '', ...(toolCalls.length > 0 && { toolCalls }), finishReason, usage };
+  }
+
+  async embed(texts: string[], model?: string): Promise<number[][]> {
+    const embeddingModel = model || this.embeddingModel;
+
+    if (!this.capabilities.embeddings || !embeddingModel) {
+      throw new LLMGatewayError(this.id, 'embeddings are not supported');
+    }
+
+    const response = await this.post('/embeddings', { model: embeddingModel, input: texts });
+    const body = await response.json();
+
+    return [...(body.data || [])]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+  }
+}
+
+function toFinishReason(reason?: string | null): LLMFinishReason {
+  switch (reason) {
+    case 'length':
+    case 'MAX_TOKENS':
+      return 'length';
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_calls';
+    case 'content_filter':
+    case 'SAFETY':
+    case 'RECITATION':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+      return 'content_filter';
+    default:
+      return 'stop';
+  }
+}
+
+function toUsage(usage?: any): LLMUsage | undefined {
+  if (!usage) return undefined;
+
+  return {
+    promptTokens: usage.prompt_tokens ?? usage.promptTokenCount ?? 0,
+    completionTokens: usage.completion_tokens ?? usage.candidatesTokenCount ?? 0,
+    totalTokens: usage.total_tokens ?? usage.totalTokenCount ?? 0,
+  };
+}
+
+/**
+ * Provider for Groq's OpenAI-compatible API
+ */
+export class GroqLLMProvider extends OpenAICompatibleLLMProvider {
+  constructor(options: { apiKey: string; baseUrl?: string }) {
+    super({
+      id: 'groq',
+      baseUrl: options.baseUrl || GROQ_CONFIG.swarm.endpoints[0].url,
+      apiKey: options.apiKey,
+      models: {
+        fast: GROQ_CONFIG.models.fast.name,
+        standard: GROQ_CONFIG.models.standard.name,
+        premium: GROQ_CONFIG.models.premium.name,
+      },
+      capabilities: { tools: true, jsonMode: true, embeddings: true },
+      embeddingModel: 'llama3-embedding-v1',
+      timeoutMs: GROQ_CONFIG.swarm.timeoutMs,
+    });
+  }
+}
+
+/**
+ * Provider for the Gemini REST API
+ */
+export class GeminiLLMProvider implements LLMProvider {
+  readonly id = 'gemini';
+  readonly capabilities: LLMCapabilities = { tools: true, jsonMode: true, embeddings: true };
+  readonly models: Record<ModelTier, string> = {
+    fast: GEMINI_CONFIG.models.fast.name,
+    standard: GEMINI_CONFIG.models.standard.name,
+    premium: GEMINI_CONFIG.models.premium.name,
+  };
+  readonly embeddingModel = 'text-embedding-004';
+
+  constructor(private readonly options: {
+    apiKey: string;
+    baseUrl?: string;
+    timeoutMs?: number;
+  }) {}
+
+  private async post(path: string, body: Record<string, any>, signal?: AbortSignal): Promise<Response> {
+    const baseUrl = (this.options.baseUrl || 'https://generativelanguage.googleapis.com/v1beta').replace(/\/$/, '');
+    const separator = path.includes('?') ? '&' : '?';
+    const response = await fetch(`${baseUrl}/${path}${separator}key=${encodeURIComponent(this.options.apiKey)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: signal ?? AbortSignal.timeout(this.options.timeoutMs ?? GEMINI_CONFIG.models.premium.timeoutMs),
+    });
+
+    return checkResponse(this.id, response);
+  }
+
+  private buildBody(request: LLMRequest): Record<string, any> {
+    const system = request.messages.filter(message => message.role === 'system');
+
+    return {
+      contents: request.messages
+        .filter(message => message.role !== 'system')
+        .map(toGeminiContent),
+      ...(system.length > 0 && {
+        systemInstruction: { parts: [{ text: system.map(message => message.content).join('\n\n') }] },
+      }),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        topP: request.topP,
+        stopSequences: request.stop,
+        ...(request.responseFormat === 'json' && { responseMimeType: 'application/json' }),
+      },
+      ...(!!request.tools?.length && {
+        tools: [{
+          functionDeclarations: request.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          })),
+        }],
+      }),
+    };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const model = request.model || this.models[request.modelTier || 'standard'];
+    const response = await this.post(`models/${model}:generateContent`, this.buildBody(request), request.signal);
+    const body = await response.json();
+    const { text, toolCalls } = readGeminiParts(body.candidates?.[0]?.content?.parts);
+
+    return {
+      id: body.responseId || `${this.id}-${startTime}`,
+      provider: this.id,
+      model,
+      content: text,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      finishReason: toolCalls.length ? 'tool_calls' : toFinishReason(body.candidates?.[0]?.finishReason),
+      usage: toUsage(body.usageMetadata),
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const model = request.model || this.models[request.modelTier || 'standard'];
+    const response = await this.post(`models/${model}:streamGenerateContent?alt=sse`, this.buildBody(request), request.signal);
+    const toolCalls: LLMToolCall[] = [];
+    let finishReason: LLMFinishReason = 'stop';
+    let usage: LLMUsage | undefined;
+
+    for await (const data of readServerSentEvents(response)) {
+      const chunk = JSON.parse(data);
+      const candidate = chunk.candidates?.[0];
+      const parts = readGeminiParts(candidate?.content?.parts, toolCalls.length);
+      usage = toUsage(chunk.usageMetadata) ?? usage;
+      toolCalls.push(...parts.toolCalls);
+
+      if (candidate?.finishReason) {
+        finishReason = toFinishReason(candidate.finishReason);
+      }
+
+      if (parts.text) {
+        yield { delta: parts.text };
+      }
+    }
+
+    yield {
+      delta: '',
+      ...(toolCalls.length > 0 && { toolCalls }),
+      finishReason: toolCalls.length ? 'tool_calls' : finishReason,
+      usage,
+    };
+  }
+
+  async embed(texts: string[], model?: string): Promise<number[][]> {
+    const modelPath = `models/${model || this.embeddingModel}`;
+    const response = await this.post(`${modelPath}:batchEmbedContents`, {
+      requests: texts.map(text => ({ model: modelPath, content: { parts: [{ text }] } })),
+    });
+    const body = await response.json();
+
+    return (body.embeddings || []).map((embedding: any) => embedding.values);
+  }
+}
+
+function toGeminiContent(message: LLMMessage): Record<string, any> {
+  if (message.role === 'tool') {
+    return {
+      role: 'user',
+      parts: [{ functionResponse: { name: message.name, response: { content: message.content } } }],
+    };
+  }
+
+  return {
+    role: message.role === 'assistant' ? 'model' : 'user',
+    parts: [
+      ...(message.content ? [{ text: message.content }] : []),
+      ...(message.toolCalls || []).map(call => ({
+        functionCall: { name: call.name, args: JSON.parse(call.arguments || '{}') },
+      })),
+    ],
+  };
+}
+
+function readGeminiParts(parts: any[] = [], offset = 0): { text: string; toolCalls: LLMToolCall[] } {
+  const toolCalls = parts
+    .filter(part => part.functionCall)
+    .map((part, index) => ({
+      id: part.functionCall.id || `call_${offset + index}`,
+      name: part.functionCall.name,
+      arguments: JSON.stringify(part.functionCall.args || {}),
+    }));
+
+  return {
+    text: parts.map(part => part.text || '').join(''),
+    toolCalls,
+  };
+}
+
+/**
+ * Deterministic provider for tests and offline development
+ *
+ * Without a `respond` function it answers every request with a fixed transformation of
+ * the last user message, so identical requests always produce identical responses.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly id: LLMProviderId;
+  readonly capabilities: LLMCapabilities = { tools: true, jsonMode: true, embeddings: true };
+  readonly models: Record<ModelTier, string> = {
+    fast: 'mock-fast',
+    standard: 'mock-standard',
+    premium: 'mock-premium',
+  };
+  readonly embeddingModel = 'mock-embedding';
+  private readonly embedder = new LocalHashingEmbeddingProvider();
+
+  constructor(private readonly options: {
+    id?: LLMProviderId;
+    respond?: (request: LLMRequest) => string | Pick<LLMResponse, 'content' | 'toolCalls'>;
+  } = {}) {
+    this.id = options.id || 'mock';
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.models[request.modelTier || 'standard'];
+    const reply = this.options.respond ? this.options.respond(request) : this.defaultReply(request);
+    const { content, toolCalls } = typeof reply === 'string' ? { content: reply, toolCalls: undefined } : reply;
+    const digest = createHash('sha256').update(JSON.stringify([model, request.messages])).digest('hex');
+    const promptTokens = estimateTokens(request.messages.map(message => message.content).join('\n'));
+    const completionTokens = estimateTokens(content);
+
+    return {
+      id: `mock-${digest.slice(0, 16)}`,
+      provider: this.id,
+      model,
+      content,
+      ...(!!toolCalls?.length && { toolCalls }),
+      finishReason: toolCalls?.length ? 'tool_calls' : 'stop',
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      latencyMs: 0,
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.complete(request);
+
+    for (const word of response.content.match(/\S+\s*/g) || []) {
+      yield { delta: word };
+    }
+
+    yield {
+      delta: '',
+      ...(response.toolCalls && { toolCalls: response.toolCalls }),
+      finishReason: response.finishReason,
+      usage: response.usage,
+    };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return this.embedder.embed(texts);
+  }
+
+  private defaultReply(request: LLMRequest): string {
+    const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+
+    return request.responseFormat === 'json'
+      ? JSON.stringify({ response: `Mock response to: ${prompt}` })
+      : `Mock response to: ${prompt}`;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * LLM Provider Registry
+ *
+ * Holds the providers the gateway can route to. The registry built from the environment
+ * always contains Groq; Gemini, OpenAI and a local OpenAI-compatible server are added when
+ * their API key or URL is configured, and the mock provider only when running tests.
+ */
+
+import type { ModelTier } from '../agentRequestRouter';
+import { GeminiLLMProvider, GroqLLMProvider, MockLLMProvider, OpenAICompatibleLLMProvider } from './providers';
+import { LLMCapabilities, LLMGatewayError, LLMProvider, LLMProviderId } from './types';
+
+export class LLMProviderRegistry {
+  private readonly providers = new Map<LLMProviderId, LLMProvider>();
+  private defaultProviderConfigured = false;
+
+  constructor(private defaultProviderId: LLMProviderId = 'groq') {}
+
+  register(provider: LLMProvider): this {
+    this.providers.set(provider.id, provider);
+    return this;
+  }
+
+  unregister(providerId: LLMProviderId): void {
+    this.providers.delete(providerId);
+  }
+
+  has(providerId: LLMProviderId): boolean {
+    return this.providers.has(providerId);
+  }
+
+  get(providerId: LLMProviderId): LLMProvider {
+    const provider = this.providers.get(providerId);
+
+    if (!provider) {
+      throw new LLMGatewayError(providerId, 'provider is not registered');
+    }
+
+    return provider;
+  }
+
+  list(): LLMProvider[] {
+    return [...this.providers.values()];
+  }
+
+  getDefaultProviderId(): LLMProviderId {
+    return this.defaultProviderId;
+  }
+
+  /**
+   * Whether the default provider was chosen explicitly rather than left at 'groq'
+   */
+  hasConfiguredDefault(): boolean {
+    return this.defaultProviderConfigured;
+  }
+
+  setDefaultProvider(providerId: LLMProviderId): void {
+    this.get(providerId);
+    this.defaultProviderId = providerId;
+    this.defaultProviderConfigured = true;
+  }
+}
+
+/**
+ * Parse a model list such as "fast=llama3.2:3b,standard=llama3.1:8b" or a single model
+ * name used for every tier
+ */
+function parseModels(value: string | undefined, fallback: Record<ModelTier, string>): Record<ModelTier, string> {
+  if (!value) return fallback;
+
+  if (!value.includes('=')) {
+    return { fast: value, standard: value, premium: value };
+  }
+
+  const models = { ...fallback };
+  value.split(',').forEach(entry => {
+    const [tier, model] = entry.split('=').map(part => part.trim());
+    if (tier in models && model) {
+      models[tier as ModelTier] = model;
+    }
+  });
+
+  return models;
+}
+
+function parseCapabilities(value: string | undefined, fallback: LLMCapabilities): LLMCapabilities {
+  if (value === undefined) return fallback;
+
+  const flags = value.split(',').map(flag => flag.trim().toLowerCase());
+  return {
+    tools: flags.includes('tools'),
+    jsonMode: flags.includes('json'),
+    embeddings: flags.includes('embeddings'),
+  };
+}
+
+/**
+ * Create the registry described by the environment
+ */
+export function createLLMProviderRegistryFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProviderRegistry {
+  const registry = new LLMProviderRegistry();
+
+  registry.register(new GroqLLMProvider({ apiKey: env.GROQ_API_KEY || '' }));
+
+  if (env.NODE_ENV === 'test') {
+    registry.register(new MockLLMProvider());
+  }
+
+  if (env.GEMINI_API_KEY) {
+    registry.register(new GeminiLLMProvider({ apiKey: env.GEMINI_API_KEY }));
+  }
+
+  if (env.OPENAI_API_KEY) {
+    registry.register(new OpenAICompatibleLLMProvider({
+      id: 'openai',
+      baseUrl: 'https://api.openai.com/v1',
+      apiKey: env.OPENAI_API_KEY,
+      models: parseModels(env.LLM_OPENAI_MODELS, { fast: 'gpt-4o-mini', standard: 'gpt-4o-mini', premium: 'gpt-4o' }),
+      capabilities: { tools: true, jsonMode: true, embeddings: true },
+      embeddingModel: 'text-embedding-3-small',
+    }));
+  }
+
+  if (env.LLM_LOCAL_BASE_URL) {
+    registry.register(new OpenAICompatibleLLMProvider({
+      id: 'local',
+      baseUrl: env.LLM_LOCAL_BASE_URL,
+      apiKey: env.LLM_LOCAL_API_KEY,
+      models: parseModels(env.LLM_LOCAL_MODELS, { fast: 'llama3.1:8b', standard: 'llama3.1:8b', premium: 'llama3.1:8b' }),
+      capabilities: parseCapabilities(env.LLM_LOCAL_CAPABILITIES, { tools: false, jsonMode: true, embeddings: false }),
+      embeddingModel: env.LLM_LOCAL_EMBEDDING_MODEL,
+      timeoutMs: env.LLM_LOCAL_TIMEOUT_MS ? Number(env.LLM_LOCAL_TIMEOUT_MS) : 60000,
+    }));
+  }
+
+  if (env.LLM_DEFAULT_PROVIDER) {
+    registry.setDefaultProvider(env.LLM_DEFAULT_PROVIDER);
+  }
+
+  return registry;
+}
+
+/**
+ * Providers available to the application
+ */
+export const llmProviders = createLLMProviderRegistryFromEnv();
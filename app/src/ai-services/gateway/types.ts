@@ -0,0 +1,164 @@
+/**
+ * LLM Gateway Types
+ *
+ * Provider-agnostic request, response and streaming types shared by every LLM provider.
+ */
+
+import type { ModelTier, RequestType } from '../agentRequestRouter';
+
+/**
+ * Identifier of a registered provider, e.g. 'groq', 'gemini', 'openai', 'local' or 'mock'
+ */
+export type LLMProviderId = string;
+
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments */
+  arguments: string;
+}
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+  /** Tool calls requested by an assistant message */
+  toolCalls?: LLMToolCall[];
+  /** For tool messages, the id of the call this message answers */
+  toolCallId?: string;
+  /** For tool messages, the name of the tool that produced the content */
+  name?: string;
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description?: string;
+  /** JSON schema of the tool arguments */
+  parameters: Record<string, any>;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  /** Model to use; defaults to the provider's model for the tier */
+  model?: string;
+  modelTier?: ModelTier;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+  /** 'json' asks the model to answer with a single JSON object */
+  responseFormat?: 'text' | 'json';
+  tools?: LLMToolDefinition[];
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type LLMFinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'error';
+
+export interface LLMResponse {
+  id: string;
+  provider: LLMProviderId;
+  model: string;
+  content: string;
+  toolCalls?: LLMToolCall[];
+  finishReason: LLMFinishReason;
+  usage?: LLMUsage;
+  latencyMs: number;
+}
+
+export interface LLMStreamChunk {
+  /** Text generated since the previous chunk */
+  delta: string;
+  /** Complete tool calls, emitted once they have been fully received */
+  toolCalls?: LLMToolCall[];
+  /** Set on the last chunk */
+  finishReason?: LLMFinishReason;
+  /** Set on the last chunk when the provider reports usage */
+  usage?: LLMUsage;
+}
+
+export interface LLMCapabilities {
+  /** Function/tool calling */
+  tools: boolean;
+  /** Constrained JSON output */
+  jsonMode: boolean;
+  /** Text embeddings */
+  embeddings: boolean;
+}
+
+export type LLMCapability = keyof LLMCapabilities;
+
+/**
+ * A backend able to serve chat completions
+ */
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly capabilities: LLMCapabilities;
+  /** Default model of each tier */
+  readonly models: Record<ModelTier, string>;
+  /** Default embedding model, when the provider supports embeddings */
+  readonly embeddingModel?: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  stream(request: LLMRequest): AsyncIterable<LLMStreamChunk>;
+  embed?(texts: string[], model?: string): Promise<number[][]>;
+}
+
+/**
+ * Where to send a request; resolved from module routing rules
+ */
+export interface LLMRouteTarget {
+  provider: LLMProviderId;
+  model?: string;
+}
+
+export interface LLMRoutingRule extends LLMRouteTarget {
+  /** Request types the rule applies to; all when omitted */
+  requestType?: RequestType | RequestType[];
+  /** Model tiers the rule applies to; all when omitted */
+  modelTier?: ModelTier | ModelTier[];
+  /** Providers tried in order when the target fails */
+  fallbacks?: Array<LLMProviderId | LLMRouteTarget>;
+}
+
+/**
+ * Routing configuration of a module, stored in a ModuleConfig row named 'llm-routing'
+ */
+export interface ModuleLLMRoutingConfig {
+  /** Rules evaluated in order; the first match wins */
+  rules?: LLMRoutingRule[];
+  /** Provider used when no rule matches */
+  provider?: LLMProviderId;
+  model?: string;
+  fallbacks?: Array<LLMProviderId | LLMRouteTarget>;
+  /**
+   * Providers callers may pick with a provider override; defaults to the providers named
+   * by the rules, provider and fallbacks above
+   */
+  allowedProviders?: LLMProviderId[];
+}
+
+export interface LLMRoute extends LLMRouteTarget {
+  fallbacks: LLMRouteTarget[];
+  /**
+   * Where the route came from: the caller, the module's routing rules, LLM_DEFAULT_PROVIDER
+   * or the name of the requested model
+   */
+  source: 'request' | 'module' | 'default' | 'model';
+}
+
+export class LLMGatewayError extends Error {
+  constructor(
+    public readonly providerId: LLMProviderId,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(`LLM provider ${providerId} failed: ${message}`);
+    this.name = 'LLMGatewayError';
+  }
+}
@@ -1,3 +1,4 @@
 export * from './groq';
 export * from './operations';
-export * from './langchain';
\ No newline at end of file
+export * from './langchain';
+export * from './gateway';
\ No newline at end of file
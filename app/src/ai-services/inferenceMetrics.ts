@@ -263,6 +263,7 @@ export async function trackTokenBudget(
         promptTokens: { increment: promptTokens },
         completionTokens: { increment: completionTokens },
         totalTokens: { increment: totalTokens },
+        requestCount: { increment: 1 },
       },
       create: {
         userId,
@@ -270,6 +271,7 @@ export async function trackTokenBudget(
         promptTokens,
         completionTokens,
         totalTokens,
+        requestCount: 1,
       },
     });
   } catch (error) {
@@ -6,10 +6,15 @@
  */
 
 import { LoggingService } from '@src/shared/services/logging';
-import { BaseChatMemory } from 'langchain/memory';
+import { BaseChatMemory, getInputValue, getOutputValue } from 'langchain/memory';
 import { BufferMemory } from 'langchain/memory';
 import { MemoryVectorStore } from 'langchain/vectorstores/memory';
 import { OpenAIEmbeddings } from '@langchain/openai';
+import { AIMessage, BaseMessage, HumanMessage, getBufferString } from '@langchain/core/messages';
+import { MemoryService } from '@src/modules/memory/services/memoryService';
+
+/** Conversation turns loaded into a chain's history */
+const MAX_HISTORY_TURNS = 20;
 
 /**
  * Creates a standard buffer memory for LangChain
@@ -69,12 +74,15 @@ export async function createVectorMemory(
 /**
  * CauldronMemory adapter for LangChain
  * 
- * This class adapts CauldronOS's memory system to work with LangChain
+ * This class adapts CauldronOS's memory system to work with LangChain.
+ * Each conversation turn is stored through the MemoryService with source 'langchain'
+ * and a context of `langchain:<sessionId>`. Without a user ID nothing is persisted.
  */
 export class CauldronMemory extends BaseChatMemory {
   sessionId: string;
   userId?: string;
   moduleId?: string;
+  memoryKey = 'history';
   
   constructor(options: {
     sessionId: string;
@@ -95,17 +103,39 @@ export class CauldronMemory extends BaseChatMemory {
     this.moduleId = options.moduleId;
   }
   
+  get memoryKeys(): string[] {
+    return [this.memoryKey];
+  }
+  
+  private get context(): string {
+    return `langchain:${this.sessionId}`;
+  }
+  
   /**
    * Load memory variables
    */
   async loadMemoryVariables(): Promise<Record<string, any>> {
     try {
-      // TODO: Implement integration with CauldronOS memory system
-      // This would fetch conversation history from the database
+      if (!this.userId) {
+        return { [this.memoryKey]: this.returnMessages ? [] : '' };
+      }
+      
+      // Latest turns, replayed oldest first
+      const turns = await MemoryService.recall({
+        userId: this.userId,
+        source: 'langchain',
+        context: this.context,
+        limit: MAX_HISTORY_TURNS,
+        order: 'newest',
+      });
+      
+      const messages: BaseMessage[] = turns.reverse().flatMap(turn => [
+        new HumanMessage(String(turn.content?.input ?? '')),
+        new AIMessage(String(turn.content?.output ?? '')),
+      ]);
       
-      // For now, return empty chat history
       return {
-        [this.memoryKey]: [],
+        [this.memoryKey]: this.returnMessages ? messages : getBufferString(messages),
       };
     } catch (error) {
       LoggingService.error({
@@ -120,7 +150,7 @@ export class CauldronMemory extends BaseChatMemory {
         },
       });
       
-      return { [this.memoryKey]: [] };
+      return { [this.memoryKey]: this.returnMessages ? [] : '' };
     }
   }
   
@@ -132,8 +162,24 @@ export class CauldronMemory extends BaseChatMemory {
     outputValues: Record<string, any>
   ): Promise<void> {
     try {
-      // TODO: Implement integration with CauldronOS memory system
-      // This would save the conversation to the database
+      if (!this.userId) {
+        return;
+      }
+      
+      await MemoryService.store({
+        userId: this.userId,
+        source: 'langchain',
+        contentType: 'conversation',
+        context: this.context,
+        content: {
+          input: getInputValue(inputValues, this.inputKey),
+          output: getOutputValue(outputValues, this.outputKey),
+        },
+        metadata: {
+          sessionId: this.sessionId,
+          moduleId: this.moduleId,
+        },
+      });
       
       LoggingService.info({
         message: 'Saved context to CauldronMemory',
@@ -167,8 +213,13 @@ export class CauldronMemory extends BaseChatMemory {
    */
   async clear(): Promise<void> {
     try {
-      // TODO: Implement integration with CauldronOS memory system
-      // This would clear the conversation history
+      const forgotten = this.userId
+        ? await MemoryService.forget({
+            userId: this.userId,
+            source: 'langchain',
+            context: this.context,
+          })
+        : 0;
       
       LoggingService.info({
         message: 'Cleared CauldronMemory',
@@ -178,6 +229,7 @@ export class CauldronMemory extends BaseChatMemory {
           sessionId: this.sessionId,
           userId: this.userId,
           moduleId: this.moduleId,
+          forgotten,
         },
       });
     } catch (error) {
@@ -4,8 +4,8 @@ import { z } from 'zod';
 import { ensureArgsSchemaOrThrowHttpError } from '../server/validation';
 import { AiLogging, createLoggingContext } from '../shared/services/loggingIntegration';
 import { routeRequest } from './agentRequestRouter';
-import { trackTokenBudget } from './inferenceMetrics';
 import { trackLatency, trackError } from './performanceAlerts';
+import { recordSemanticCacheFeedback } from './semanticResponseCache';
 
 // Input schema for the generateAiResponse function
 export const generateAiResponseInputSchema = z.object({
@@ -26,7 +26,8 @@ export const generateAiResponseInputSchema = z.object({
   module: z
     .enum(['arcana', 'phantom', 'manifold', 'forgeflow', 'sentinel', 'athena'])
     .default('arcana'),
-  provider: z.enum(['groq', 'gemini']).default('groq'),
+  // Overrides the module's LLM routing rules when set
+  provider: z.string().optional(),
 });
 
 export type GenerateAiResponseInput = z.infer<typeof generateAiResponseInputSchema>;
@@ -82,18 +83,6 @@ export const generateAiResponse = async (args: GenerateAiResponseInput, context:
       validatedArgs.temperature <= 0.3 &&
       (requestType === 'embedding' || requestType === 'summarization');
 
-    // Track token usage for quota management
-    const estimatedPromptTokens = validatedArgs.prompt.length / 4; // Simple estimation
-    const estimatedCompletionTokens = validatedArgs.maxTokens;
-
-    // Track token budget
-    await trackTokenBudget(
-      context.user.id,
-      estimatedPromptTokens,
-      estimatedCompletionTokens,
-      requestType
-    );
-
     // Start timing for performance tracking
     const startTime = Date.now();
 
@@ -111,6 +100,7 @@ export const generateAiResponse = async (args: GenerateAiResponseInput, context:
         {
           module: validatedArgs.module,
           requestType,
+          provider: validatedArgs.provider,
           trackRequest: true,
           userId: context.user.id,
           useCache,
@@ -159,10 +149,34 @@ export const generateAiResponse = async (args: GenerateAiResponseInput, context:
     // Log the error
     await logger.logCompletion(null, error);
 
+    if (error instanceof HttpError) {
+      throw error;
+    }
+
     throw new HttpError(error.status || 500, error.message || 'Failed to generate AI response');
   }
 };
 
+const submitSemanticCacheFeedbackInputSchema = z.object({
+  lookupId: z.string().min(1),
+  helpful: z.boolean(),
+});
+
+type SubmitSemanticCacheFeedbackInput = z.infer<typeof submitSemanticCacheFeedbackInputSchema>;
+
+/**
+ * Records whether a response served from the semantic cache answered the user's prompt
+ */
+export const submitSemanticCacheFeedback = async (rawArgs: SubmitSemanticCacheFeedbackInput, context: any) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Unauthorized');
+  }
+
+  const { lookupId, helpful } = ensureArgsSchemaOrThrowHttpError(submitSemanticCacheFeedbackInputSchema, rawArgs);
+
+  return recordSemanticCacheFeedback({ lookupId, helpful, userId: context.user.id });
+};
+
 /**
  * Returns the appropriate system prompt for each module
  */
@@ -24,6 +24,7 @@ export enum AlertType {
   THROUGHPUT = 'THROUGHPUT',
   ERROR_RATE = 'ERROR_RATE',
   TOKEN_BUDGET = 'TOKEN_BUDGET',
+  TOKEN_QUOTA = 'TOKEN_QUOTA',
   CACHE_PERFORMANCE = 'CACHE_PERFORMANCE',
 }
 
@@ -78,6 +79,7 @@ const alertCooldowns = {
   [AlertType.THROUGHPUT]: 10 * 60 * 1000, // 10 minutes
   [AlertType.ERROR_RATE]: 15 * 60 * 1000, // 15 minutes
   [AlertType.TOKEN_BUDGET]: 30 * 60 * 1000, // 30 minutes
+  [AlertType.TOKEN_QUOTA]: 60 * 60 * 1000, // 60 minutes
   [AlertType.CACHE_PERFORMANCE]: 60 * 60 * 1000, // 60 minutes
 };
 
@@ -87,6 +89,7 @@ const lastAlertTimestamps: Record<AlertType, Record<string, number>> = {
   [AlertType.THROUGHPUT]: {},
   [AlertType.ERROR_RATE]: {},
   [AlertType.TOKEN_BUDGET]: {},
+  [AlertType.TOKEN_QUOTA]: {},
   [AlertType.CACHE_PERFORMANCE]: {},
 };
 
@@ -286,6 +289,57 @@ export async function trackTokenBudget(
   }
 }
 
+/**
+ * Tracks the usage of a token or request quota and triggers alerts as it approaches exhaustion
+ * 
+ * @param quotaKey The quota, e.g. "organization org-1 monthly tokens"
+ * @param usagePercent The percentage of the quota used, including the current request
+ * @param metadata Additional metadata
+ */
+export async function trackQuotaUsage(
+  quotaKey: string,
+  usagePercent: number,
+  metadata: any = {}
+): Promise<void> {
+  const timestamp = Date.now();
+  
+  // Check if quota usage exceeds thresholds
+  let severity: AlertSeverity | null = null;
+  
+  if (usagePercent >= alertThresholds.tokenBudget.critical * 100) {
+    severity = AlertSeverity.CRITICAL;
+  } else if (usagePercent >= alertThresholds.tokenBudget.error * 100) {
+    severity = AlertSeverity.ERROR;
+  } else if (usagePercent >= alertThresholds.tokenBudget.warning * 100) {
+    severity = AlertSeverity.WARNING;
+  }
+  
+  if (!severity) {
+    return;
+  }
+  
+  // Alert again within the cooldown only when the quota gets more severe
+  const alertKey = `${quotaKey}:${severity}`;
+  const lastAlertTime = lastAlertTimestamps[AlertType.TOKEN_QUOTA][alertKey] || 0;
+  
+  if (timestamp - lastAlertTime >= alertCooldowns[AlertType.TOKEN_QUOTA]) {
+    await createAlert({
+      type: AlertType.TOKEN_QUOTA,
+      severity,
+      message: `Quota ${quotaKey} is ${usagePercent >= 100 ? 'exhausted' : 'nearly exhausted'}: ${usagePercent.toFixed(2)}% used`,
+      timestamp: new Date(timestamp),
+      metadata: {
+        quotaKey,
+        usagePercent,
+        threshold: getThresholdForSeverity(alertThresholds.tokenBudget, severity) * 100,
+        ...metadata,
+      },
+    });
+    
+    lastAlertTimestamps[AlertType.TOKEN_QUOTA][alertKey] = timestamp;
+  }
+}
+
 /**
  * Tracks error rates and triggers alerts if thresholds are exceeded
  * 
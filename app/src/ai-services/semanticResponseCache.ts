@@ -0,0 +1,395 @@
+/**
+ * Semantic Response Cache
+ *
+ * An optional cache layer that matches prompts by meaning rather than by exact text.
+ * Prompts are embedded with the memory embedding provider and a cached response is served
+ * when a previous prompt with the same system prompt and context is similar enough; the
+ * threshold is configurable per module and request type. Every lookup is recorded so that
+ * hit rate and savings can be reported, and users can rate served responses: entries with
+ * poor feedback stop being served.
+ */
+
+import { createHash } from 'crypto';
+import { HttpError, prisma } from 'wasp/server';
+import { SEMANTIC_CACHE_CONFIG } from '../shared/config/ai-config';
+import { LoggingService } from '../shared/services/logging';
+import {
+  calculateCosineSimilarity,
+  generateEmbeddings,
+  getEmbeddingProvider,
+} from '../modules/memory/services/embeddingService';
+
+export interface SemanticCacheRequest {
+  prompt: string;
+  systemPrompt?: string;
+  context?: string;
+  model: string;
+  module: string;
+  requestType: string;
+  temperature?: number;
+  userId?: string;
+}
+
+export interface SemanticCacheLookupResult {
+  lookupId: string;
+  hit: boolean;
+  threshold: number;
+  similarity?: number;
+  /** The cached response, on a hit */
+  response?: any;
+  /** The prompt embedding, reused to store the response on a miss */
+  embedding: number[];
+}
+
+export interface SemanticCacheStats {
+  enabled: boolean;
+  since: Date;
+  lookups: number;
+  hits: number;
+  hitRate: number;
+  averageHitSimilarity: number | null;
+  tokensSaved: number;
+  latencySavedMs: number;
+  feedback: { positive: number; negative: number };
+  entries: { active: number; disabled: number };
+  byScope: Array<{
+    module: string;
+    requestType: string;
+    threshold: number;
+    lookups: number;
+    hits: number;
+    hitRate: number;
+    tokensSaved: number;
+  }>;
+}
+
+/**
+ * Get the similarity a cached prompt needs to be served for a module and request type
+ */
+export function getSimilarityThreshold(module: string, requestType: string): number {
+  const thresholds = SEMANTIC_CACHE_CONFIG.similarityThresholds;
+  const moduleThresholds = thresholds.modules[module];
+
+  return (
+    moduleThresholds?.[requestType] ??
+    moduleThresholds?.default ??
+    thresholds.requestTypes[requestType] ??
+    thresholds.default
+  );
+}
+
+/**
+ * Whether a request may be answered from, and stored in, the semantic cache
+ */
+export function isSemanticCacheEligible(request: SemanticCacheRequest): boolean {
+  return (
+    SEMANTIC_CACHE_CONFIG.enabled &&
+    !!request.prompt.trim() &&
+    (request.temperature ?? 0) <= SEMANTIC_CACHE_CONFIG.maxTemperature
+  );
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Prompts only match prompts asked with the same instructions and context
+function getContextHash(request: SemanticCacheRequest): string {
+  return hash(JSON.stringify([request.systemPrompt || '', request.context || '']));
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function getResponseText(response: any): string {
+  if (typeof response === 'string') return response;
+  return response?.choices?.[0]?.message?.content ?? response?.text ?? JSON.stringify(response);
+}
+
+/**
+ * Look a request up in the semantic cache
+ *
+ * @returns The lookup, or null when the request is not eligible or the cache is unavailable
+ */
+export async function lookupSemanticCache(request: SemanticCacheRequest): Promise<SemanticCacheLookupResult | null> {
+  if (!isSemanticCacheEligible(request)) {
+    return null;
+  }
+
+  try {
+    const [embedding] = await generateEmbeddings([request.prompt], request.userId);
+    const threshold = getSimilarityThreshold(request.module, request.requestType);
+
+    const candidates = await prisma.aISemanticCacheEntry.findMany({
+      where: {
+        module: request.module,
+        requestType: request.requestType,
+        model: request.model,
+        contextHash: getContextHash(request),
+        embeddingModel: getEmbeddingProvider().id,
+        disabled: false,
+        expiresAt: { gt: new Date() },
+        ...(!SEMANTIC_CACHE_CONFIG.shareAcrossUsers && { userId: request.userId ?? null }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: SEMANTIC_CACHE_CONFIG.maxCandidates,
+      select: {
+        id: true,
+        embedding: true,
+        response: true,
+        promptTokens: true,
+        completionTokens: true,
+        latencyMs: true,
+      },
+    });
+
+    let best: { entry: (typeof candidates)[number]; similarity: number } | null = null;
+    for (const entry of candidates) {
+      if (entry.embedding.length !== embedding.length) continue;
+
+      const similarity = calculateCosineSimilarity(embedding, entry.embedding);
+      if (!best || similarity > best.similarity) {
+        best = { entry, similarity };
+      }
+    }
+
+    const hitEntry = best && best.similarity >= threshold ? best.entry : null;
+
+    const lookup = await prisma.aISemanticCacheLookup.create({
+      data: {
+        module: request.module,
+        requestType: request.requestType,
+        userId: request.userId,
+        hit: !!hitEntry,
+        similarity: best?.similarity ?? null,
+        threshold,
+        entryId: hitEntry?.id,
+        tokensSaved: hitEntry ? hitEntry.promptTokens + hitEntry.completionTokens : 0,
+        latencySavedMs: hitEntry?.latencyMs ?? 0,
+      },
+    });
+
+    if (!hitEntry) {
+      return { lookupId: lookup.id, hit: false, threshold, similarity: best?.similarity, embedding };
+    }
+
+    await prisma.aISemanticCacheEntry.update({
+      where: { id: hitEntry.id },
+      data: { hitCount: { increment: 1 }, lastHitAt: new Date() },
+    });
+
+    await LoggingService.logSystemEvent({
+      message: `Semantic cache hit for ${request.model} (similarity ${best!.similarity.toFixed(3)})`,
+      level: 'DEBUG',
+      category: 'PERFORMANCE',
+      source: 'semantic-response-cache',
+      userId: request.userId,
+      tags: ['ai', 'cache', 'semantic', 'hit', request.model],
+      metadata: {
+        lookupId: lookup.id,
+        entryId: hitEntry.id,
+        module: request.module,
+        requestType: request.requestType,
+        similarity: best!.similarity,
+        threshold,
+      },
+    });
+
+    return {
+      lookupId: lookup.id,
+      hit: true,
+      threshold,
+      similarity: best!.similarity,
+      response: JSON.parse(hitEntry.response),
+      embedding,
+    };
+  } catch (error) {
+    console.error('Error checking semantic cache:', error);
+    // Continue without the cache if the lookup fails
+    return null;
+  }
+}
+
+/**
+ * Store a generated response in the semantic cache
+ *
+ * @param request The request the response answers
+ * @param response The complete response; streams are stored by the router once they complete
+ * @param options The prompt embedding from the lookup and the generation latency
+ */
+export async function storeSemanticCacheEntry(
+  request: SemanticCacheRequest,
+  response: any,
+  options: { embedding: number[]; latencyMs: number }
+): Promise<void> {
+  if (!isSemanticCacheEligible(request) || !response || typeof response[Symbol.asyncIterator] === 'function') {
+    return;
+  }
+
+  try {
+    await prisma.aISemanticCacheEntry.create({
+      data: {
+        expiresAt: new Date(Date.now() + SEMANTIC_CACHE_CONFIG.ttlSeconds * 1000),
+        module: request.module,
+        requestType: request.requestType,
+        model: request.model,
+        userId: request.userId,
+        contextHash: getContextHash(request),
+        // Don't store raw prompts
+        promptHash: hash(request.prompt),
+        embedding: options.embedding,
+        embeddingModel: getEmbeddingProvider().id,
+        response: JSON.stringify(response),
+        promptTokens:
+          response.usage?.prompt_tokens ??
+          estimateTokens([request.systemPrompt, request.context, request.prompt].filter(Boolean).join('\n')),
+        completionTokens: response.usage?.completion_tokens ?? estimateTokens(getResponseText(response)),
+        latencyMs: Math.round(options.latencyMs),
+      },
+    });
+  } catch (error) {
+    console.error('Error storing in semantic cache:', error);
+    // Continue execution even if the semantic cache store fails
+  }
+}
+
+/**
+ * Record whether a response served from the semantic cache was helpful
+ *
+ * A user may change their vote. Once an entry has enough votes and too large a share of
+ * them is negative, it is no longer served.
+ */
+export async function recordSemanticCacheFeedback(params: {
+  lookupId: string;
+  helpful: boolean;
+  userId: string;
+}): Promise<{ entryDisabled: boolean }> {
+  const lookup = await prisma.aISemanticCacheLookup.findUnique({ where: { id: params.lookupId } });
+
+  if (!lookup || lookup.userId !== params.userId) {
+    throw new HttpError(404, 'Cached response not found');
+  }
+
+  if (!lookup.hit || !lookup.entryId) {
+    throw new HttpError(400, 'Feedback can only be given on responses served from the cache');
+  }
+
+  const feedback = params.helpful ? 'positive' : 'negative';
+  if (lookup.feedback === feedback) {
+    const entry = await prisma.aISemanticCacheEntry.findUnique({ where: { id: lookup.entryId } });
+    return { entryDisabled: !!entry?.disabled };
+  }
+
+  return prisma.$transaction(async tx => {
+    await tx.aISemanticCacheLookup.update({
+      where: { id: lookup.id },
+      data: { feedback, feedbackAt: new Date() },
+    });
+
+    const entry = await tx.aISemanticCacheEntry.update({
+      where: { id: lookup.entryId! },
+      data: {
+        ...(params.helpful ? { positiveFeedback: { increment: 1 } } : { negativeFeedback: { increment: 1 } }),
+        ...(lookup.feedback === 'positive' && { positiveFeedback: { decrement: 1 } }),
+        ...(lookup.feedback === 'negative' && { negativeFeedback: { decrement: 1 } }),
+      },
+    });
+
+    const votes = entry.positiveFeedback + entry.negativeFeedback;
+    const shouldDisable =
+      votes >= SEMANTIC_CACHE_CONFIG.feedback.minVotes &&
+      entry.negativeFeedback / votes > SEMANTIC_CACHE_CONFIG.feedback.maxNegativeRatio;
+
+    if (shouldDisable !== entry.disabled) {
+      await tx.aISemanticCacheEntry.update({ where: { id: entry.id }, data: { disabled: shouldDisable } });
+    }
+
+    return { entryDisabled: shouldDisable };
+  });
+}
+
+/**
+ * Delete expired semantic cache entries and lookups past their retention
+ */
+export async function cleanupExpiredSemanticCache(): Promise<{ entries: number; lookups: number }> {
+  const retentionStart = new Date(Date.now() - SEMANTIC_CACHE_CONFIG.lookupRetentionDays * 24 * 60 * 60 * 1000);
+
+  try {
+    const entries = await prisma.aISemanticCacheEntry.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    const lookups = await prisma.aISemanticCacheLookup.deleteMany({ where: { createdAt: { lt: retentionStart } } });
+
+    return { entries: entries.count, lookups: lookups.count };
+  } catch (error) {
+    console.error('Error cleaning up semantic cache:', error);
+    return { entries: 0, lookups: 0 };
+  }
+}
+
+/**
+ * Get the hit rate and savings of the semantic cache since a date
+ */
+export async function getSemanticCacheStats(since: Date): Promise<SemanticCacheStats> {
+  const inPeriod = { createdAt: { gte: since } };
+
+  const [totals, hitTotals, feedback, scopeLookups, scopeHits, activeEntries, disabledEntries] = await Promise.all([
+    prisma.aISemanticCacheLookup.count({ where: inPeriod }),
+    prisma.aISemanticCacheLookup.aggregate({
+      where: { ...inPeriod, hit: true },
+      _count: true,
+      _avg: { similarity: true },
+      _sum: { tokensSaved: true, latencySavedMs: true },
+    }),
+    prisma.aISemanticCacheLookup.groupBy({
+      by: ['feedback'],
+      where: { ...inPeriod, feedback: { not: null } },
+      _count: true,
+    }),
+    prisma.aISemanticCacheLookup.groupBy({
+      by: ['module', 'requestType'],
+      where: inPeriod,
+      _count: true,
+    }),
+    prisma.aISemanticCacheLookup.groupBy({
+      by: ['module', 'requestType'],
+      where: { ...inPeriod, hit: true },
+      _count: true,
+      _sum: { tokensSaved: true },
+    }),
+    prisma.aISemanticCacheEntry.count({ where: { disabled: false, expiresAt: { gt: new Date() } } }),
+    prisma.aISemanticCacheEntry.count({ where: { disabled: true } }),
+  ]);
+
+  const hits = hitTotals._count;
+  const feedbackCount = (value: string) => feedback.find(group => group.feedback === value)?._count ?? 0;
+
+  return {
+    enabled: SEMANTIC_CACHE_CONFIG.enabled,
+    since,
+    lookups: totals,
+    hits,
+    hitRate: totals ? hits / totals : 0,
+    averageHitSimilarity: hitTotals._avg.similarity,
+    tokensSaved: hitTotals._sum.tokensSaved ?? 0,
+    latencySavedMs: hitTotals._sum.latencySavedMs ?? 0,
+    feedback: { positive: feedbackCount('positive'), negative: feedbackCount('negative') },
+    entries: { active: activeEntries, disabled: disabledEntries },
+    byScope: scopeLookups
+      .map(scope => {
+        const scopeHit = scopeHits.find(
+          group => group.module === scope.module && group.requestType === scope.requestType
+        );
+
+        return {
+          module: scope.module,
+          requestType: scope.requestType,
+          threshold: getSimilarityThreshold(scope.module, scope.requestType),
+          lookups: scope._count,
+          hits: scopeHit?._count ?? 0,
+          hitRate: scope._count ? (scopeHit?._count ?? 0) / scope._count : 0,
+          tokensSaved: scopeHit?._sum.tokensSaved ?? 0,
+        };
+      })
+      .sort((a, b) => b.lookups - a.lookups),
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Streaming Utilities
+ *
+ * Helpers for streams of chat completion chunks (the shape of the Groq SDK and the LLM
+ * gateway), so that caching, tracking and safety scoring can run once a stream completes
+ * and cached completions can be served to callers expecting a stream.
+ */
+
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * A chat completion assembled from a stream, in the non-streaming response shape
+ */
+export interface AssembledChatCompletion {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: { role: 'assistant'; content: string };
+    finish_reason: string | null;
+  }>;
+  usage?: ChatCompletionUsage;
+}
+
+export interface ChatCompletionStreamHandlers {
+  /** Called with the assembled completion once the stream has ended */
+  onComplete?: (completion: AssembledChatCompletion) => Promise<void> | void;
+  /** Called with the output so far when the consumer stops reading before the end */
+  onAbort?: (partial: AssembledChatCompletion) => Promise<void> | void;
+  /** Called with the output so far when the stream fails */
+  onError?: (error: unknown, partial: AssembledChatCompletion) => Promise<void> | void;
+}
+
+export function isAsyncIterable(value: any): value is AsyncIterable<any> {
+  return !!value && typeof value[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Get the text of a chat completion or of a single stream chunk
+ */
+export function getCompletionText(completion: any): string {
+  const choice = completion?.choices?.[0];
+  return choice?.delta?.content ?? choice?.message?.content ?? choice?.text ?? '';
+}
+
+// Handler failures must not break a stream the client is already reading
+async function runHandler(name: string, handler: () => Promise<void> | void) {
+  try {
+    await handler();
+  } catch (error) {
+    console.error(`Error in stream ${name} handler:`, error);
+  }
+}
+
+/**
+ * Pass a stream of chat completion chunks through unchanged, assembling the completion
+ * on the way for the handlers
+ */
+export async function* observeChatCompletionStream(
+  stream: AsyncIterable<any>,
+  handlers: ChatCompletionStreamHandlers
+): AsyncGenerator<any> {
+  const completion: AssembledChatCompletion = {
+    id: '',
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: '',
+    choices: [{ index: 0, message: { role: 'assistant', content: '' }, finish_reason: null }],
+  };
+  let settled = false;
+
+  try {
+    for await (const chunk of stream) {
+      completion.id ||= chunk.id || '';
+      completion.model ||= chunk.model || '';
+      completion.choices[0].message.content += getCompletionText(chunk);
+      completion.choices[0].finish_reason = chunk.choices?.[0]?.finish_reason ?? completion.choices[0].finish_reason;
+      completion.usage = chunk.usage ?? chunk.x_groq?.usage ?? completion.usage;
+
+      yield chunk;
+    }
+
+    settled = true;
+    if (handlers.onComplete) {
+      await runHandler('completion', () => handlers.onComplete!(completion));
+    }
+  } catch (error) {
+    settled = true;
+    if (handlers.onError) {
+      await runHandler('error', () => handlers.onError!(error, completion));
+    }
+    throw error;
+  } finally {
+    // Reached when the consumer stops iterating early, e.g. the client disconnected
+    if (!settled && handlers.onAbort) {
+      await runHandler('abort', () => handlers.onAbort!(completion));
+    }
+  }
+}
+
+/**
+ * Serve a complete chat completion as a stream of a single chunk
+ */
+export async function* replayChatCompletion(completion: any): AsyncGenerator<any> {
+  yield {
+    id: completion.id,
+    object: 'chat.completion.chunk',
+    created: completion.created ?? Math.floor(Date.now() / 1000),
+    model: completion.model,
+    choices: [
+      {
+        index: 0,
+        delta: { role: 'assistant', content: getCompletionText(completion) },
+        finish_reason: completion.choices?.[0]?.finish_reason ?? 'stop',
+      },
+    ],
+    ...(completion.usage && { usage: completion.usage }),
+    ...(completion.semanticCache && { semanticCache: completion.semanticCache }),
+    cached: true,
+  };
+}
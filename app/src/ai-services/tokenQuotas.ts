@@ -0,0 +1,408 @@
+/**
+ * Token Quotas
+ *
+ * Daily and monthly token and request quotas checked before AI requests are routed.
+ * Three kinds of quota apply to a request:
+ * - the user's own quota (TOKEN_QUOTA_CONFIG.userLimits, replaced field by field by a user override)
+ * - the plan quota of the user's organization, shared by its members; users without an
+ *   organization are on the free plan
+ * - an organization override, which replaces the plan quota for the limits it sets
+ *
+ * Usage is read from UserTokenUsage, which the agent request router records for every
+ * completed, aborted or failed inference. Quotas above the warning threshold raise a performance
+ * alert; exceeded quotas block the request with a 429 unless their enforcement is soft.
+ */
+
+import { HttpError, prisma } from 'wasp/server';
+import { TOKEN_QUOTA_CONFIG } from '../shared/config/ai-config';
+import { LoggingService } from '../shared/services/logging';
+import { PlanTier, SubscriptionStatus, planFeatures } from '../modules/payment/utils/plans';
+import { trackQuotaUsage } from './performanceAlerts';
+
+export type QuotaScope = 'user' | 'organization' | 'plan';
+export type QuotaPeriod = 'daily' | 'monthly';
+export type QuotaMetric = 'tokens' | 'requests';
+export type QuotaEnforcement = 'hard' | 'soft';
+
+/**
+ * Quota limits; a missing or negative limit is unlimited
+ */
+export interface QuotaLimits {
+  dailyTokens?: number | null;
+  monthlyTokens?: number | null;
+  dailyRequests?: number | null;
+  monthlyRequests?: number | null;
+}
+
+export interface QuotaCheck {
+  scope: QuotaScope;
+  /** The user or organization whose usage counts against the quota */
+  subjectId: string;
+  period: QuotaPeriod;
+  metric: QuotaMetric;
+  limit: number;
+  used: number;
+  /** Estimated usage of the request being checked */
+  requested: number;
+  /** Usage including the request, as a percentage of the limit */
+  usagePercent: number;
+  enforcement: QuotaEnforcement;
+  exceeded: boolean;
+}
+
+export interface TokenQuotaStatus {
+  userId: string;
+  organizationId: string | null;
+  planTier: PlanTier;
+  checks: QuotaCheck[];
+  /** Quotas above the warning threshold, including soft quotas that are exceeded */
+  warnings: QuotaCheck[];
+  /** The first exceeded hard quota, when the request must be blocked */
+  blockedBy: QuotaCheck | null;
+}
+
+interface UsageTotals {
+  dailyTokens: number;
+  monthlyTokens: number;
+  dailyRequests: number;
+  monthlyRequests: number;
+}
+
+const QUOTA_FIELDS: Array<{ field: keyof QuotaLimits; period: QuotaPeriod; metric: QuotaMetric }> = [
+  { field: 'dailyTokens', period: 'daily', metric: 'tokens' },
+  { field: 'monthlyTokens', period: 'monthly', metric: 'tokens' },
+  { field: 'dailyRequests', period: 'daily', metric: 'requests' },
+  { field: 'monthlyRequests', period: 'monthly', metric: 'requests' },
+];
+
+// UserTokenUsage dates are ISO dates (YYYY-MM-DD), so they compare as strings
+function getUsageDates(now: Date = new Date()) {
+  const today = now.toISOString().split('T')[0];
+  return { today, monthStart: `${today.slice(0, 7)}-01` };
+}
+
+async function getUsageTotals(userIds: string[]): Promise<UsageTotals> {
+  const { today, monthStart } = getUsageDates();
+
+  const rows = await prisma.userTokenUsage.groupBy({
+    by: ['date'],
+    where: { userId: { in: userIds }, date: { gte: monthStart } },
+    _sum: { totalTokens: true, requestCount: true },
+  });
+
+  return rows.reduce(
+    (totals, row) => {
+      const tokens = row._sum.totalTokens ?? 0;
+      const requests = row._sum.requestCount ?? 0;
+
+      return {
+        dailyTokens: totals.dailyTokens + (row.date === today ? tokens : 0),
+        monthlyTokens: totals.monthlyTokens + tokens,
+        dailyRequests: totals.dailyRequests + (row.date === today ? requests : 0),
+        monthlyRequests: totals.monthlyRequests + requests,
+      };
+    },
+    { dailyTokens: 0, monthlyTokens: 0, dailyRequests: 0, monthlyRequests: 0 }
+  );
+}
+
+async function getActiveOverride(where: { userId: string } | { organizationId: string }) {
+  const override = await prisma.tokenQuotaOverride.findUnique({ where });
+
+  if (!override || (override.expiresAt && override.expiresAt <= new Date())) {
+    return null;
+  }
+
+  return override;
+}
+
+/**
+ * Get the plan tier of an organization; lapsed subscriptions fall back to the free plan
+ */
+async function getPlanTier(organizationId: string | null): Promise<PlanTier> {
+  if (!organizationId) {
+    return PlanTier.Free;
+  }
+
+  const subscription = await prisma.subscription.findUnique({
+    where: { organizationId },
+    include: { plan: { select: { tier: true } } },
+  });
+
+  if (!subscription) {
+    return PlanTier.Free;
+  }
+
+  const isActive =
+    subscription.status === SubscriptionStatus.Active ||
+    subscription.status === SubscriptionStatus.Trialing ||
+    (subscription.status === SubscriptionStatus.PastDue &&
+      !!subscription.gracePeriodEnd &&
+      new Date() < subscription.gracePeriodEnd);
+
+  return isActive ? (subscription.plan.tier as PlanTier) : PlanTier.Free;
+}
+
+/**
+ * Get the quota limits of a plan tier
+ */
+export function getPlanQuotaLimits(tier: PlanTier): QuotaLimits {
+  return {
+    ...TOKEN_QUOTA_CONFIG.planLimits[tier],
+    monthlyRequests: planFeatures[tier].maxRequests,
+  };
+}
+
+function buildChecks(
+  scope: QuotaScope,
+  subjectId: string,
+  limits: QuotaLimits,
+  usage: UsageTotals,
+  estimatedTokens: number,
+  enforcement: QuotaEnforcement
+): QuotaCheck[] {
+  return QUOTA_FIELDS.flatMap(({ field, period, metric }) => {
+    const limit = limits[field];
+
+    if (limit === undefined || limit === null || limit < 0) {
+      return [];
+    }
+
+    const used = usage[field];
+    const requested = metric === 'tokens' ? estimatedTokens : 1;
+    const usagePercent = limit === 0 ? 100 : ((used + requested) / limit) * 100;
+
+    return [
+      {
+        scope,
+        subjectId,
+        period,
+        metric,
+        limit,
+        used,
+        requested,
+        usagePercent,
+        enforcement,
+        exceeded: used + requested > limit,
+      },
+    ];
+  });
+}
+
+function pickDefined(limits: QuotaLimits): QuotaLimits {
+  return Object.fromEntries(
+    Object.entries(limits).filter(([, value]) => value !== null && value !== undefined)
+  ) as QuotaLimits;
+}
+
+function toEnforcement(value: string | null | undefined): QuotaEnforcement {
+  return value === 'soft' || value === 'hard' ? value : TOKEN_QUOTA_CONFIG.enforcement;
+}
+
+/**
+ * Get the quotas that apply to a user and how much of them a request would use
+ *
+ * @param userId The user making the request
+ * @param estimatedTokens The tokens the request is expected to use
+ */
+export async function getTokenQuotaStatus(userId: string, estimatedTokens: number = 0): Promise<TokenQuotaStatus> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { organizationId: true } });
+
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+
+  const organizationId = user.organizationId;
+  const [userOverride, organizationOverride, planTier, userUsage] = await Promise.all([
+    getActiveOverride({ userId }),
+    organizationId ? getActiveOverride({ organizationId }) : null,
+    getPlanTier(organizationId),
+    getUsageTotals([userId]),
+  ]);
+
+  const organizationUsage = organizationId
+    ? await getUsageTotals(
+        (await prisma.user.findMany({ where: { organizationId }, select: { id: true } })).map(member => member.id)
+      )
+    : userUsage;
+
+  // A user override's enforcement applies to every quota of the user's requests
+  const userEnforcement = toEnforcement(userOverride?.enforcement);
+  const organizationEnforcement = toEnforcement(userOverride?.enforcement ?? organizationOverride?.enforcement);
+
+  const organizationLimits = organizationOverride ? pickDefined(organizationOverride) : {};
+  const planLimits = Object.fromEntries(
+    Object.entries(getPlanQuotaLimits(planTier)).filter(([field]) => !(field in organizationLimits))
+  ) as QuotaLimits;
+
+  const checks = [
+    ...buildChecks(
+      'user',
+      userId,
+      { ...TOKEN_QUOTA_CONFIG.userLimits, ...(userOverride ? pickDefined(userOverride) : {}) },
+      userUsage,
+      estimatedTokens,
+      userEnforcement
+    ),
+    ...(organizationId
+      ? buildChecks('organization', organizationId, organizationLimits, organizationUsage, estimatedTokens, organizationEnforcement)
+      : []),
+    ...buildChecks('plan', organizationId || userId, planLimits, organizationUsage, estimatedTokens, organizationEnforcement),
+  ];
+
+  return {
+    userId,
+    organizationId,
+    planTier,
+    checks,
+    warnings: checks.filter(
+      check =>
+        check.usagePercent >= TOKEN_QUOTA_CONFIG.warningThreshold * 100 &&
+        !(check.exceeded && check.enforcement === 'hard')
+    ),
+    blockedBy: checks.find(check => check.exceeded && check.enforcement === 'hard') ?? null,
+  };
+}
+
+function describeQuota(check: QuotaCheck): string {
+  return `${check.scope} ${check.subjectId} ${check.period} ${check.metric}`;
+}
+
+/**
+ * Check a request against the user's quotas, raising alerts for quotas nearing exhaustion
+ *
+ * @throws HttpError 429 when the request would exceed a hard quota
+ */
+export async function enforceTokenQuota(params: {
+  userId: string;
+  estimatedTokens: number;
+  module?: string;
+  requestType?: string;
+}): Promise<TokenQuotaStatus | null> {
+  if (!TOKEN_QUOTA_CONFIG.enabled) {
+    return null;
+  }
+
+  const status = await getTokenQuotaStatus(params.userId, params.estimatedTokens);
+
+  for (const check of [...status.warnings, ...(status.blockedBy ? [status.blockedBy] : [])]) {
+    await trackQuotaUsage(describeQuota(check), check.usagePercent, {
+      ...check,
+      userId: params.userId,
+      planTier: status.planTier,
+      module: params.module,
+    });
+  }
+
+  if (status.blockedBy) {
+    const check = status.blockedBy;
+
+    await LoggingService.logSystemEvent({
+      message: `AI request blocked: ${check.period} ${check.metric} quota of ${check.scope} ${check.subjectId} exhausted`,
+      level: 'WARN',
+      category: 'BUSINESS_LOGIC',
+      source: 'token-quotas',
+      userId: params.userId,
+      tags: ['ai', 'quota', 'blocked', check.scope, check.metric],
+      metadata: {
+        ...check,
+        planTier: status.planTier,
+        module: params.module,
+        requestType: params.requestType || 'default',
+      },
+    });
+
+    throw new HttpError(
+      429,
+      `The ${check.period} ${check.metric === 'tokens' ? 'token' : 'request'} quota of your ${
+        check.scope === 'user' ? 'account' : check.scope
+      } has been reached`,
+      {
+        scope: check.scope,
+        period: check.period,
+        metric: check.metric,
+        limit: check.limit,
+        used: check.used,
+      }
+    );
+  }
+
+  return status;
+}
+
+/**
+ * Set the quota override of a user or an organization, replacing any existing one
+ */
+export async function setTokenQuotaOverride(params: {
+  userId?: string;
+  organizationId?: string;
+  limits: QuotaLimits;
+  enforcement?: QuotaEnforcement | null;
+  reason?: string;
+  expiresAt?: Date | null;
+  createdById: string;
+}) {
+  if (!params.userId === !params.organizationId) {
+    throw new HttpError(400, 'A quota override applies to either a user or an organization');
+  }
+
+  const where = params.userId ? { userId: params.userId } : { organizationId: params.organizationId! };
+  const data = {
+    dailyTokens: params.limits.dailyTokens ?? null,
+    monthlyTokens: params.limits.monthlyTokens ?? null,
+    dailyRequests: params.limits.dailyRequests ?? null,
+    monthlyRequests: params.limits.monthlyRequests ?? null,
+    enforcement: params.enforcement ?? null,
+    reason: params.reason,
+    expiresAt: params.expiresAt ?? null,
+    createdById: params.createdById,
+  };
+
+  const override = await prisma.tokenQuotaOverride.upsert({
+    where,
+    update: data,
+    create: { ...where, ...data },
+  });
+
+  await LoggingService.logSystemEvent({
+    message: `Token quota override set for ${params.userId ? `user ${params.userId}` : `organization ${params.organizationId}`}`,
+    level: 'INFO',
+    category: 'AUTHORIZATION',
+    source: 'token-quotas',
+    userId: params.createdById,
+    tags: ['ai', 'quota', 'override'],
+    metadata: { overrideId: override.id, ...where, ...data },
+  });
+
+  return override;
+}
+
+/**
+ * Remove the quota override of a user or an organization
+ */
+export async function removeTokenQuotaOverride(params: {
+  userId?: string;
+  organizationId?: string;
+  removedById: string;
+}): Promise<void> {
+  if (!params.userId === !params.organizationId) {
+    throw new HttpError(400, 'A quota override applies to either a user or an organization');
+  }
+
+  const where = params.userId ? { userId: params.userId } : { organizationId: params.organizationId! };
+  const { count } = await prisma.tokenQuotaOverride.deleteMany({ where });
+
+  if (count === 0) {
+    throw new HttpError(404, 'Quota override not found');
+  }
+
+  await LoggingService.logSystemEvent({
+    message: `Token quota override removed for ${params.userId ? `user ${params.userId}` : `organization ${params.organizationId}`}`,
+    level: 'INFO',
+    category: 'AUTHORIZATION',
+    source: 'token-quotas',
+    userId: params.removedById,
+    tags: ['ai', 'quota', 'override', 'removed'],
+    metadata: where,
+  });
+}
@@ -16,6 +16,7 @@ import {
   AIOperationTracking,
 } from './promptTrackingUtils';
 import { calculateTotalTokens } from '../shared/utils/tokenUtils';
+import { getCompletionText, isAsyncIterable, observeChatCompletionStream } from './streaming';
 
 /**
  * Options for tracked Groq inference
@@ -37,8 +38,18 @@ export interface TrackedGroqInferenceOptions extends GroqInferenceOptions {
 
 /**
  * Perform Groq inference with automatic tracking of prompts and reasoning
+ *
+ * Streamed responses are tracked once the stream completes, or as failed if it errors or
+ * is abandoned by the consumer.
+ *
+ * @param inference Runs the inference; defaults to Groq
  */
-export async function trackedGroqInference(options: TrackedGroqInferenceOptions, context: any) {
+export async function trackedGroqInference(
+  options: TrackedGroqInferenceOptions,
+  context: any,
+  inference: (options: TrackedGroqInferenceOptions) => Promise<any> = inferenceOptions =>
+    groqInference(inferenceOptions, context)
+) {
   const startTime = Date.now();
   let sessionId = options.trackingSessionId;
   let promptId: string | undefined;
@@ -87,17 +98,7 @@ export async function trackedGroqInference(options: TrackedGroqInferenceOptions,
     }
     
     // Perform the inference
-    const inferenceResult = await groqInference(options, context);
-    
-    // Calculate latency
-    const latencyMs = Date.now() - startTime;
-    
-    // Extract token usage
-    const tokenUsage = inferenceResult.usage || {
-      prompt_tokens: 0,
-      completion_tokens: 0,
-      total_tokens: 0,
-    };
+    const inferenceResult = await inference(options);
     
     // Create tracking info
     const tracking: AIOperationTracking = {
@@ -110,51 +111,17 @@ export async function trackedGroqInference(options: TrackedGroqInferenceOptions,
       sessionType: options.sessionType || 'inference',
     };
     
-    // Track the operation
-    const reasoningId = await trackAIOperation(tracking, {
-      rawOutput: inferenceResult.choices[0]?.text || '',
-      model: options.model || 'llama3-8b-8192',
-      temperature: options.temperature || 0.7,
-      maxTokens: options.maxTokens,
-      totalTokens: tokenUsage.total_tokens,
-      promptTokens: tokenUsage.prompt_tokens,
-      completionTokens: tokenUsage.completion_tokens,
-      latencyMs,
-      success: true,
-      metadata: {
-        inferenceId: inferenceResult.id,
-        created: inferenceResult.created,
-        model: inferenceResult.model,
-      },
-    });
-    
-    // Extract reasoning steps if available
-    if (inferenceResult.reasoning) {
-      const reasoningSteps = Array.isArray(inferenceResult.reasoning)
-        ? inferenceResult.reasoning
-        : [inferenceResult.reasoning];
-      
-      // Store response nodes for the reasoning steps
-      await storeResponseNodes(
-        reasoningId,
-        reasoningSteps.map((step, index) => ({
-          content: typeof step === 'string' ? step : JSON.stringify(step),
-          type: 'reasoning',
-          order: index,
-          metadata: { step: index + 1 },
-        }))
-      );
+    if (isAsyncIterable(inferenceResult)) {
+      const trackFailure = (error: string) => trackFailedOperation(tracking, options, error, Date.now() - startTime);
+
+      return observeChatCompletionStream(inferenceResult, {
+        onComplete: completion => trackResult(tracking, options, completion, Date.now() - startTime),
+        onAbort: () => trackFailure('Stream cancelled by the client'),
+        onError: error => trackFailure(error instanceof Error ? error.message : String(error)),
+      });
     }
     
-    // Store the final response as a node
-    await storeResponseNodes(reasoningId, [
-      {
-        content: inferenceResult.choices[0]?.text || '',
-        type: 'response',
-        order: 1000, // High order to ensure it's last
-        metadata: { final: true },
-      },
-    ]);
+    await trackResult(tracking, options, inferenceResult, Date.now() - startTime);
     
     return inferenceResult;
   } catch (error) {
@@ -162,27 +129,21 @@ export async function trackedGroqInference(options: TrackedGroqInferenceOptions,
     if (sessionId && promptId) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       
-      // Create tracking info
-      const tracking: AIOperationTracking = {
-        sessionId,
-        promptId,
-        systemPromptId,
-        agentId: options.agentId,
-        userId: options.userId,
-        module: options.module,
-        sessionType: options.sessionType || 'inference',
-      };
-      
       // Track the failed operation
-      await trackAIOperation(tracking, {
-        rawOutput: errorMessage,
-        model: options.model || 'llama3-8b-8192',
-        temperature: options.temperature || 0.7,
-        maxTokens: options.maxTokens,
-        latencyMs: Date.now() - startTime,
-        success: false,
-        error: errorMessage,
-      });
+      await trackFailedOperation(
+        {
+          sessionId,
+          promptId,
+          systemPromptId,
+          agentId: options.agentId,
+          userId: options.userId,
+          module: options.module,
+          sessionType: options.sessionType || 'inference',
+        },
+        options,
+        errorMessage,
+        Date.now() - startTime
+      );
     }
     
     // Re-throw the error
@@ -190,6 +151,89 @@ export async function trackedGroqInference(options: TrackedGroqInferenceOptions,
   }
 }
 
+/**
+ * Track a completed inference and its response
+ */
+async function trackResult(
+  tracking: AIOperationTracking,
+  options: TrackedGroqInferenceOptions,
+  inferenceResult: any,
+  latencyMs: number
+): Promise<void> {
+  // Extract token usage
+  const tokenUsage = inferenceResult.usage || {
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+  };
+  
+  // Track the operation
+  const reasoningId = await trackAIOperation(tracking, {
+    rawOutput: getCompletionText(inferenceResult),
+    model: options.model || 'llama3-8b-8192',
+    temperature: options.temperature || 0.7,
+    maxTokens: options.maxTokens,
+    totalTokens: tokenUsage.total_tokens,
+    promptTokens: tokenUsage.prompt_tokens,
+    completionTokens: tokenUsage.completion_tokens,
+    latencyMs,
+    success: true,
+    metadata: {
+      inferenceId: inferenceResult.id,
+      created: inferenceResult.created,
+      model: inferenceResult.model,
+    },
+  });
+  
+  // Extract reasoning steps if available
+  if (inferenceResult.reasoning) {
+    const reasoningSteps = Array.isArray(inferenceResult.reasoning)
+      ? inferenceResult.reasoning
+      : [inferenceResult.reasoning];
+    
+    // Store response nodes for the reasoning steps
+    await storeResponseNodes(
+      reasoningId,
+      reasoningSteps.map((step, index) => ({
+        content: typeof step === 'string' ? step : JSON.stringify(step),
+        type: 'reasoning',
+        order: index,
+        metadata: { step: index + 1 },
+      }))
+    );
+  }
+  
+  // Store the final response as a node
+  await storeResponseNodes(reasoningId, [
+    {
+      content: getCompletionText(inferenceResult),
+      type: 'response',
+      order: 1000, // High order to ensure it's last
+      metadata: { final: true },
+    },
+  ]);
+}
+
+/**
+ * Track a failed inference
+ */
+async function trackFailedOperation(
+  tracking: AIOperationTracking,
+  options: TrackedGroqInferenceOptions,
+  errorMessage: string,
+  latencyMs: number
+): Promise<void> {
+  await trackAIOperation(tracking, {
+    rawOutput: errorMessage,
+    model: options.model || 'llama3-8b-8192',
+    temperature: options.temperature || 0.7,
+    maxTokens: options.maxTokens,
+    latencyMs,
+    success: false,
+    error: errorMessage,
+  });
+}
+
 /**
  * Complete a tracked Groq inference session
  */
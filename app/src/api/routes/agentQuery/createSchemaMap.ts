@@ -7,6 +7,8 @@ import { validateRequest } from '../../middleware/validation';
 import { requirePermission } from '../../middleware/rbac';
 import { z } from 'zod';
 import { AgentQueryService } from '../../../server/services/agentQueryService';
+import { RowPolicyService } from '../../../server/services/rowPolicyService';
+import { RedactionService } from '../../../server/services/redactionService';
 import { LoggingService } from '../../../shared/services/logging';
 
 // Define the schema for the request
@@ -21,7 +23,16 @@ const createSchemaMapSchema = z.object({
     {
       message: 'Schema must have at least one model',
     }
-  ),
+  ).superRefine((schema, ctx) => {
+    // Validate the row policies and field classifications declared for the models
+    const messages = [
+      ...RowPolicyService.validatePolicies(schema),
+      ...RedactionService.validateClassifications(schema),
+    ];
+    for (const message of messages) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  }),
   isActive: z.boolean().optional(),
   organizationId: z.string().optional(),
 });
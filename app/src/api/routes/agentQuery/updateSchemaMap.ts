@@ -7,6 +7,8 @@ import { validateRequest } from '../../middleware/validation';
 import { requirePermission } from '../../middleware/rbac';
 import { z } from 'zod';
 import { AgentQueryService } from '../../../server/services/agentQueryService';
+import { RowPolicyService } from '../../../server/services/rowPolicyService';
+import { RedactionService } from '../../../server/services/redactionService';
 import { LoggingService } from '../../../shared/services/logging';
 
 // Define the schema for the request
@@ -14,7 +16,16 @@ const updateSchemaMapSchema = z.object({
   id: z.string().uuid('Invalid schema map ID'),
   name: z.string().min(1, 'Name is required').optional(),
   description: z.string().optional(),
-  schema: z.record(z.any()).optional(),
+  schema: z.record(z.any()).superRefine((schema, ctx) => {
+    // Validate the row policies and field classifications declared for the models
+    const messages = [
+      ...RowPolicyService.validatePolicies(schema),
+      ...RedactionService.validateClassifications(schema),
+    ];
+    for (const message of messages) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  }).optional(),
   isActive: z.boolean().optional(),
 });
 
@@ -9,6 +9,8 @@ import { requirePermission } from '../../middleware/rbac';
 import { z } from 'zod';
 import { benchmarkLatency } from '../../../ai-services/inferenceMetrics';
 import { GROQ_CONFIG } from '../../../shared/config/ai-config';
+import { getCacheStats } from '../../../ai-services/aiResponseCache';
+import { getSemanticCacheStats } from '../../../ai-services/semanticResponseCache';
 
 // Define the schema for the benchmark request
 const benchmarkRequestSchema = z.object({
@@ -134,6 +136,28 @@ const performanceMetricsRequestSchema = z.object({
   period: z.enum(['day', 'week', 'month']).default('day'),
 });
 
+/**
+ * Gets the start of a metrics period, counting back from now
+ */
+function getPeriodStartDate(period: 'day' | 'week' | 'month'): Date {
+  const now = new Date();
+  const startDate = new Date(now);
+
+  switch (period) {
+    case 'day':
+      startDate.setDate(now.getDate() - 1);
+      break;
+    case 'week':
+      startDate.setDate(now.getDate() - 7);
+      break;
+    case 'month':
+      startDate.setMonth(now.getMonth() - 1);
+      break;
+  }
+
+  return startDate;
+}
+
 /**
  * Gets the performance metrics for AI operations
  */
@@ -150,23 +174,7 @@ export const getPerformanceMetrics = withErrorHandling(async (args, context) =>
   })(context);
 
   // Calculate the start date based on the period
-  const now = new Date();
-  let startDate: Date;
-  
-  switch (validatedArgs.period) {
-    case 'day':
-      startDate = new Date(now);
-      startDate.setDate(now.getDate() - 1);
-      break;
-    case 'week':
-      startDate = new Date(now);
-      startDate.setDate(now.getDate() - 7);
-      break;
-    case 'month':
-      startDate = new Date(now);
-      startDate.setMonth(now.getMonth() - 1);
-      break;
-  }
+  const startDate = getPeriodStartDate(validatedArgs.period);
 
   // Get token usage metrics
   const tokenUsage = await prisma.userTokenUsage.findMany({
@@ -224,3 +232,30 @@ export const getPerformanceMetrics = withErrorHandling(async (args, context) =>
     },
   };
 });
+
+/**
+ * Gets the hit rate and savings of the exact and semantic AI response caches
+ */
+export const getAICacheMetrics = withErrorHandling(async (args, context) => {
+  // Validate request arguments
+  const validatedArgs = validateRequest(args, performanceMetricsRequestSchema);
+
+  // Apply RBAC middleware - require 'ai:view-metrics' permission
+  await requirePermission({
+    resource: 'ai',
+    action: 'view-metrics',
+    adminOverride: true,
+    auditRejection: true,
+  })(context);
+
+  const [responseCache, semanticCache] = await Promise.all([
+    getCacheStats(),
+    getSemanticCacheStats(getPeriodStartDate(validatedArgs.period)),
+  ]);
+
+  return {
+    period: validatedArgs.period,
+    responseCache,
+    semanticCache,
+  };
+});
@@ -1,100 +1,275 @@
 /**
  * AI Chat API Route
- * 
- * This file implements the API route for AI chat completions using the Vercel AI SDK.
- * It supports streaming responses and function calling.
+ *
+ * Streams chat completions to the client as server-sent events:
+ *
+ *   data: {"delta": "..."}                 for every piece of generated text
+ *   event: done    data: {...}             once the response is complete, with its usage
+ *                                          and safety moderation decision
+ *   event: error   data: {"error": "..."}  when the request fails after streaming started
+ *
+ * Requests go through the agent request router, so routing rules, quotas, caching and
+ * tracking apply; the router also records the token usage of cancelled streams. Closing
+ * the connection aborts the upstream model request.
+ *
+ * The text is scored for safety while it streams. A response scored as blocked is stopped
+ * right away and finishes with `finishReason: "content_filter"`; clients withdraw the text
+ * they already rendered.
  */
 
-import { StreamingTextResponse, Message, createStreamDataTransformer } from 'ai';
-import { groqInference } from '../../../ai-services/groq';
 import { HttpError } from 'wasp/server';
-import { LoggingService } from '../../../shared/services/LoggingService';
-import { requirePermission } from '../../../shared/auth/rbac';
+import { type StreamAiChat } from 'wasp/server/api';
+import { z } from 'zod';
+import { requirePermission } from '../../middleware/rbac';
+import { validateRequest } from '../../middleware/validation';
+import { routeRequest } from '../../../ai-services/agentRequestRouter';
+import { getCompletionText, isAsyncIterable, replayChatCompletion } from '../../../ai-services/streaming';
+import { LoggingService } from '../../../shared/services/logging';
+
+// Define the schema for the chat request
+const chatRequestSchema = z
+  .object({
+    prompt: z.string().optional(),
+    // Conversation so far, as sent by chat UIs; the last user message is the prompt
+    messages: z
+      .array(
+        z.object({
+          role: z.enum(['system', 'user', 'assistant']),
+          content: z.string(),
+        })
+      )
+      .optional(),
+    context: z.string().optional(),
+    systemPrompt: z.string().optional(),
+    module: z.enum(['arcana', 'phantom', 'manifold', 'forgeflow', 'sentinel', 'athena', 'obelisk']).default('arcana'),
+    model: z.string().optional(),
+    provider: z.string().optional(),
+    temperature: z.number().min(0).max(1).default(0.7),
+    maxTokens: z.number().positive().max(8192).default(1024),
+  })
+  .refine(args => !!args.prompt?.trim() || !!args.messages?.some(message => message.role === 'user'), {
+    message: 'A prompt or a user message is required',
+  });
+
+type ChatRequest = z.infer<typeof chatRequestSchema>;
+
+type ResponseModeration = { decision: 'allow' | 'flag' | 'block'; score: number };
+
+// Streamed text is scored again once this many characters were added since the last check
+const SAFETY_CHECK_INTERVAL_CHARS = 500;
 
 /**
- * Handler for the chat API route
- * This is designed to be compatible with the Vercel AI SDK's useChat hook
+ * Split a conversation into the system prompt, the earlier turns and the prompt to answer
  */
-export const POST = async (req: Request, context: any) => {
-  // Apply RBAC middleware - require 'ai-assistant:use' permission
-  const user = await requirePermission({
-    resource: 'ai-assistant',
-    action: 'use',
-    adminOverride: true,
-    auditRejection: true
-  })(context);
+function toInferenceInput(args: ChatRequest) {
+  const messages = args.messages || [];
+  const lastUserIndex = messages.map(message => message.role).lastIndexOf('user');
+  const history = messages
+    .slice(0, Math.max(lastUserIndex, 0))
+    .filter(message => message.role !== 'system')
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n');
 
-  try {
-    // Parse the request body
-    const { messages, functions, module = 'arcana' } = await req.json();
+  return {
+    prompt: args.prompt?.trim() || messages[lastUserIndex].content,
+    systemPrompt:
+      args.systemPrompt || messages.find(message => message.role === 'system')?.content || getDefaultSystemMessage(args.module),
+    context: [args.context, history].filter(Boolean).join('\n\n') || undefined,
+  };
+}
 
-    // Validate the request
-    if (!messages || !Array.isArray(messages)) {
-      throw new HttpError(400, 'Invalid request: messages must be an array');
+export const streamAiChat: StreamAiChat = async (request, response, context) => {
+  const abortController = new AbortController();
+  let streaming = false;
+
+  // The response closes before finishing when the client disconnects or cancels
+  response.on('close', () => {
+    if (!response.writableFinished) {
+      abortController.abort();
     }
+  });
 
-    // Log the operation
-    LoggingService.info({
-      message: 'Processing AI chat request',
-      userId: user.id,
-      module,
-      category: 'AI_CHAT',
-      metadata: { 
-        messageCount: messages.length,
-        hasFunctions: !!functions,
-      }
-    });
-
-    // Prepare the system message if not already provided
-    let systemMessage = messages.find(m => m.role === 'system');
-    if (!systemMessage) {
-      // Add a default system message based on the module
-      const defaultSystemMessage = getDefaultSystemMessage(module);
-      messages.unshift({
-        role: 'system',
-        content: defaultSystemMessage
-      });
+  const send = (data: unknown, event?: string) => {
+    if (!response.writableEnded) {
+      response.write(`${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`);
     }
+  };
 
-    // Call the Groq inference API with streaming enabled
-    const stream = await groqInference({
-      messages,
-      model: 'llama3-8b-8192', // Default model, can be made configurable
-      temperature: 0.7,
-      stream: true,
-      functions: functions,
-    }, context);
+  // Set when safety scoring blocks the response while it streams
+  const safety: { blocked: ResponseModeration | null } = { blocked: null };
 
-    // Transform the stream to be compatible with Vercel AI SDK
-    const transformedStream = stream.pipeThrough(createStreamDataTransformer());
+  const sendBlocked = (moderation: ResponseModeration) => {
+    send({ finishReason: 'content_filter', moderation }, 'done');
+    response.end();
+  };
 
-    // Return a streaming response
-    return new StreamingTextResponse(transformedStream);
-  } catch (error) {
-    console.error('Error in chat API route:', error);
-    
-    // Log the error
-    LoggingService.error({
-      message: 'Error in chat API route',
-      userId: user?.id,
-      module: 'ai',
-      category: 'API_ERROR',
-      metadata: { error: error.message }
-    });
-
-    // Return an appropriate error response
-    return new Response(
-      JSON.stringify({
-        error: error.message || 'An error occurred during the chat request',
-      }),
+  try {
+    // Apply RBAC middleware - require 'ai-assistant:use' permission
+    const user = await requirePermission({
+      resource: 'ai-assistant',
+      action: 'use',
+      adminOverride: true,
+      auditRejection: true,
+    })(context);
+
+    const args = validateRequest(request.body, chatRequestSchema);
+    const input = toInferenceInput(args);
+
+    const result = await routeRequest(
+      {
+        ...input,
+        model: args.model,
+        temperature: args.temperature,
+        maxTokens: args.maxTokens,
+        stream: true,
+      },
       {
-        status: error.status || 500,
-        headers: { 'Content-Type': 'application/json' },
+        module: args.module,
+        requestType: 'chat',
+        provider: args.provider,
+        userId: user.id,
+        trackRequest: true,
+        useFallbacks: true,
+        signal: abortController.signal,
+      },
+      context
+    );
+
+    response.status(200);
+    response.setHeader('Content-Type', 'text/event-stream');
+    response.setHeader('Cache-Control', 'no-cache, no-transform');
+    response.setHeader('Connection', 'keep-alive');
+    // Stop reverse proxies from buffering the stream
+    response.setHeader('X-Accel-Buffering', 'no');
+    response.flushHeaders();
+    streaming = true;
+
+    let content = '';
+    let usage: any;
+    let finishReason: string | null = null;
+    let scoredLength = 0;
+    let safetyCheck: Promise<void> | null = null;
+
+    // Checks run in the background, one at a time, so they do not hold up the stream
+    const checkSafety = () => {
+      scoredLength = content.length;
+      safetyCheck = scoreResponse(content, args.module, user.id, context).then(moderation => {
+        safetyCheck = null;
+        if (moderation?.decision === 'block') {
+          safety.blocked = moderation;
+          abortController.abort();
+        }
+      });
+    };
+
+    // Providers without streaming support return a whole completion
+    for await (const chunk of isAsyncIterable(result) ? result : replayChatCompletion(result)) {
+      if (abortController.signal.aborted) {
+        break;
       }
+
+      const delta = getCompletionText(chunk);
+      usage = chunk.usage ?? chunk.x_groq?.usage ?? usage;
+      finishReason = chunk.choices?.[0]?.finish_reason ?? finishReason;
+
+      if (delta) {
+        content += delta;
+        send({ delta });
+
+        if (!safetyCheck && content.length - scoredLength >= SAFETY_CHECK_INTERVAL_CHARS) {
+          checkSafety();
+        }
+      }
+    }
+
+    await safetyCheck;
+
+    if (safety.blocked) {
+      sendBlocked(safety.blocked);
+      return;
+    }
+
+    if (abortController.signal.aborted) {
+      return;
+    }
+
+    // Score the complete response; a blocked response is withdrawn by the client
+    const moderation = await scoreResponse(content, args.module, user.id, context);
+
+    send(
+      {
+        finishReason,
+        usage,
+        semanticCache: (result as any)?.semanticCache,
+        moderation,
+      },
+      'done'
     );
+    response.end();
+  } catch (error: any) {
+    // Stopping a blocked response can make the upstream stream throw
+    if (safety.blocked) {
+      sendBlocked(safety.blocked);
+      return;
+    }
+
+    if (abortController.signal.aborted) {
+      response.end();
+      return;
+    }
+
+    const status = error instanceof HttpError ? error.statusCode : 500;
+    const message = error instanceof HttpError ? error.message : 'Failed to generate AI response';
+
+    if (status >= 500) {
+      await LoggingService.logSystemEvent({
+        message: `Error in AI chat stream: ${error?.message || error}`,
+        level: 'ERROR',
+        category: 'INTEGRATION',
+        source: 'ai-chat-stream',
+        userId: context.user?.id,
+        tags: ['ai', 'chat', 'stream'],
+        stackTrace: error?.stack,
+      });
+    }
+
+    if (streaming) {
+      send({ error: message, status }, 'error');
+      response.end();
+      return;
+    }
+
+    response.status(status).json({ error: message, ...(error instanceof HttpError && error.data ? { data: error.data } : {}) });
   }
 };
 
+/**
+ * Score a generated response for safety; scoring failures do not withhold the response
+ */
+async function scoreResponse(
+  content: string,
+  module: string,
+  userId: string,
+  context: any
+): Promise<ResponseModeration | null> {
+  if (!content.trim()) {
+    return null;
+  }
+
+  try {
+    const { SafetyScoringService } = await import('../../../ai-services/safetyScoringService');
+    const result = await SafetyScoringService.scoreContent(
+      { content, contentType: 'response', module, userId },
+      context
+    );
+
+    return { decision: result.moderationDecision, score: result.overallScore };
+  } catch (error) {
+    console.error('Error scoring streamed response:', error);
+    return null;
+  }
+}
+
 /**
  * Get a default system message based on the module
  */
@@ -105,31 +280,31 @@ function getDefaultSystemMessage(module: string): string {
 You provide concise, accurate information and assist with dashboard operations.
 You have access to business metrics, security insights, and can help users navigate the platform.
 Always be professional, clear, and helpful.`;
-    
+
     case 'phantom':
       return `You are the Phantom AI assistant, a cybersecurity expert for the Cauldron platform.
 You help users understand security threats, analyze vulnerabilities, and recommend defensive actions.
 Your tone is precise, technical when needed, but always accessible.
 Focus on actionable security insights and clear explanations of complex security concepts.`;
-    
+
     case 'athena':
       return `You are the Athena AI assistant, a business intelligence expert for the Cauldron platform.
 You analyze data, identify trends, and provide strategic recommendations.
 Your insights are data-driven, actionable, and focused on business growth.
 Present information clearly with a focus on metrics that matter.`;
-    
+
     case 'forgeflow':
       return `You are the Forgeflow AI assistant, an expert in workflow automation for the Cauldron platform.
 You help users design, implement, and optimize automated workflows.
 Your guidance is practical, step-by-step, and focused on efficiency.
 Explain technical concepts clearly and suggest best practices for workflow design.`;
-    
+
     case 'sentinel':
       return `You are the Sentinel AI assistant, a security monitoring expert for the Cauldron platform.
 You help users understand security alerts, assess risks, and implement protective measures.
 Your tone is calm but authoritative, focusing on clear security guidance.
 Prioritize user safety while explaining security concepts in accessible terms.`;
-    
+
     default:
       return `You are a helpful AI assistant for the Cauldron platform.
 You provide concise, accurate information and assist users with their tasks.
@@ -0,0 +1,135 @@
+/**
+ * Token quota administration: quota usage of users and overrides of their quotas
+ */
+import { prisma } from 'wasp/server';
+import { withErrorHandling } from '../../middleware';
+import { validateRequest } from '../../middleware/validation';
+import { requirePermission } from '../../middleware/rbac';
+import { z } from 'zod';
+import {
+  getTokenQuotaStatus,
+  removeTokenQuotaOverride as removeOverride,
+  setTokenQuotaOverride as setOverride,
+} from '../../../ai-services/tokenQuotas';
+
+// A limit of -1 is unlimited; null inherits the user default or plan limit
+const quotaLimitSchema = z.number().int().min(-1).nullable().optional();
+
+// Define the schema for the quota usage request
+const tokenQuotaUsageRequestSchema = z.object({
+  userId: z.string().min(1, 'User ID is required'),
+});
+
+/**
+ * Gets the quotas that apply to a user, their usage and the overrides in effect
+ */
+export const getTokenQuotaUsage = withErrorHandling(async (args, context) => {
+  // Validate request arguments
+  const validatedArgs = validateRequest(args, tokenQuotaUsageRequestSchema);
+
+  // Apply RBAC middleware - require 'ai:view-metrics' permission
+  await requirePermission({
+    resource: 'ai',
+    action: 'view-metrics',
+    adminOverride: true,
+    auditRejection: true,
+  })(context);
+
+  const status = await getTokenQuotaStatus(validatedArgs.userId);
+
+  const overrides = await prisma.tokenQuotaOverride.findMany({
+    where: {
+      OR: [
+        { userId: validatedArgs.userId },
+        ...(status.organizationId ? [{ organizationId: status.organizationId }] : []),
+      ],
+    },
+  });
+
+  return {
+    ...status,
+    overrides,
+  };
+});
+
+// Define the schema for the quota override request
+const tokenQuotaOverrideRequestSchema = z
+  .object({
+    userId: z.string().optional(),
+    organizationId: z.string().optional(),
+    dailyTokens: quotaLimitSchema,
+    monthlyTokens: quotaLimitSchema,
+    dailyRequests: quotaLimitSchema,
+    monthlyRequests: quotaLimitSchema,
+    enforcement: z.enum(['hard', 'soft']).nullable().optional(),
+    reason: z.string().max(500).optional(),
+    expiresAt: z.coerce.date().nullable().optional(),
+  })
+  .refine(args => !args.userId !== !args.organizationId, {
+    message: 'Provide either a user ID or an organization ID',
+  });
+
+/**
+ * Sets the quota override of a user or an organization
+ */
+export const setTokenQuotaOverride = withErrorHandling(async (args, context) => {
+  // Validate request arguments
+  const validatedArgs = validateRequest(args, tokenQuotaOverrideRequestSchema);
+
+  // Apply RBAC middleware - require 'ai:manage-quotas' permission
+  const user = await requirePermission({
+    resource: 'ai',
+    action: 'manage-quotas',
+    adminOverride: true,
+    auditRejection: true,
+  })(context);
+
+  return await setOverride({
+    userId: validatedArgs.userId,
+    organizationId: validatedArgs.organizationId,
+    limits: {
+      dailyTokens: validatedArgs.dailyTokens,
+      monthlyTokens: validatedArgs.monthlyTokens,
+      dailyRequests: validatedArgs.dailyRequests,
+      monthlyRequests: validatedArgs.monthlyRequests,
+    },
+    enforcement: validatedArgs.enforcement,
+    reason: validatedArgs.reason,
+    expiresAt: validatedArgs.expiresAt,
+    createdById: user.id,
+  });
+});
+
+// Define the schema for the quota override removal request
+const removeTokenQuotaOverrideRequestSchema = z
+  .object({
+    userId: z.string().optional(),
+    organizationId: z.string().optional(),
+  })
+  .refine(args => !args.userId !== !args.organizationId, {
+    message: 'Provide either a user ID or an organization ID',
+  });
+
+/**
+ * Removes the quota override of a user or an organization
+ */
+export const removeTokenQuotaOverride = withErrorHandling(async (args, context) => {
+  // Validate request arguments
+  const validatedArgs = validateRequest(args, removeTokenQuotaOverrideRequestSchema);
+
+  // Apply RBAC middleware - require 'ai:manage-quotas' permission
+  const user = await requirePermission({
+    resource: 'ai',
+    action: 'manage-quotas',
+    adminOverride: true,
+    auditRejection: true,
+  })(context);
+
+  await removeOverride({
+    userId: validatedArgs.userId,
+    organizationId: validatedArgs.organizationId,
+    removedById: user.id,
+  });
+
+  return { success: true };
+});
@@ -21,5 +21,7 @@ export { registerWebhook } from './registerWebhook';
 export { 
   updateWebhook,
   deleteWebhook,
-  listWebhooks
+  listWebhooks,
+  listWebhookDeliveries,
+  redeliverWebhook
 } from './manageWebhook';
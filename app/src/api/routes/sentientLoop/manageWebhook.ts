@@ -9,6 +9,7 @@ import { requirePermission } from '../../middleware/rbac';
 import { z } from 'zod';
 import { SentientLoopEventType } from '../../types/sentientLoopApi';
 import { LoggingService } from '../../../shared/services/logging';
+import { redeliverWebhookDelivery } from '../../../modules/arcana/shared/services/sentientLoop/webhookService';
 
 // Schema for updating a webhook
 const updateWebhookSchema = z.object({
@@ -32,6 +33,19 @@ const listWebhooksSchema = z.object({
   isActive: z.boolean().optional(),
 });
 
+// Schema for listing webhook deliveries
+const listWebhookDeliveriesSchema = z.object({
+  webhookId: z.string().uuid(),
+  limit: z.number().int().positive().max(100).default(20),
+  offset: z.number().int().nonnegative().default(0),
+  status: z.enum(['PENDING', 'SUCCESS', 'FAILED', 'DEAD']).optional(),
+});
+
+// Schema for redelivering a webhook delivery
+const redeliverWebhookSchema = z.object({
+  deliveryId: z.string().uuid(),
+});
+
 // Update webhook
 export const updateWebhook = withErrorHandling(async (args, context) => {
   // Apply RBAC middleware - require 'sentient-loop:manage-webhooks' permission
@@ -70,6 +84,9 @@ export const updateWebhook = withErrorHandling(async (args, context) => {
       throw new HttpError(403, 'You do not have permission to update this webhook');
     }
 
+    // Re-enabling a webhook clears the failure streak that disabled it
+    const reenabling = validatedData.isActive === true && !existingWebhook.isActive;
+
     // Update the webhook
     const webhook = await prisma.sentientLoopWebhook.update({
       where: { id: validatedData.webhookId },
@@ -78,7 +95,12 @@ export const updateWebhook = withErrorHandling(async (args, context) => {
         description: validatedData.description,
         events: validatedData.events,
         isActive: validatedData.isActive,
-        metadata: validatedData.metadata
+        metadata: validatedData.metadata,
+        ...(reenabling && {
+          failureCount: 0,
+          disabledAt: null,
+          disabledReason: null
+        })
       }
     });
 
@@ -211,7 +233,11 @@ export const listWebhooks = withErrorHandling(async (args, context) => {
         isActive: true,
         createdAt: true,
         updatedAt: true,
-        metadata: true
+        metadata: true,
+        lastDeliveryAt: true,
+        failureCount: true,
+        disabledAt: true,
+        disabledReason: true
       }
     });
 
@@ -236,3 +262,147 @@ export const listWebhooks = withErrorHandling(async (args, context) => {
     throw error;
   }
 });
+
+// List webhook deliveries
+export const listWebhookDeliveries = withErrorHandling(async (args, context) => {
+  // Apply RBAC middleware - require 'sentient-loop:manage-webhooks' permission
+  const user = await requirePermission({
+    resource: 'sentient-loop',
+    action: 'manage-webhooks',
+    adminOverride: true,
+    auditRejection: true
+  })(context);
+
+  // Validate request data
+  const validatedData = validateRequest(args, listWebhookDeliveriesSchema);
+
+  try {
+    // Check if the webhook exists and belongs to the user
+    const webhook = await prisma.sentientLoopWebhook.findUnique({
+      where: { id: validatedData.webhookId }
+    });
+
+    if (!webhook) {
+      throw new HttpError(404, 'Webhook not found');
+    }
+
+    if (webhook.userId !== user.id && !user.isAdmin) {
+      throw new HttpError(403, 'You do not have permission to view this webhook');
+    }
+
+    // Build the query
+    const where: any = {
+      webhookId: validatedData.webhookId
+    };
+
+    if (validatedData.status) {
+      where.status = validatedData.status;
+    }
+
+    // Get the total count
+    const totalCount = await prisma.webhookDelivery.count({ where });
+
+    // Get the deliveries
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: validatedData.offset,
+      take: validatedData.limit,
+      select: {
+        id: true,
+        createdAt: true,
+        eventType: true,
+        payload: true,
+        status: true,
+        statusCode: true,
+        responseBody: true,
+        deliveredAt: true,
+        retryCount: true,
+        nextAttemptAt: true,
+        lastError: true,
+        redeliveryOfId: true
+      }
+    });
+
+    return {
+      deliveries,
+      pagination: {
+        total: totalCount,
+        limit: validatedData.limit,
+        offset: validatedData.offset,
+        hasMore: validatedData.offset + deliveries.length < totalCount
+      }
+    };
+  } catch (error) {
+    console.error('Error listing webhook deliveries:', error);
+    LoggingService.error({
+      message: 'Failed to list webhook deliveries',
+      userId: user.id,
+      module: 'arcana',
+      category: 'SENTIENT_LOOP',
+      error
+    });
+    throw error;
+  }
+});
+
+// Redeliver a webhook delivery
+export const redeliverWebhook = withErrorHandling(async (args, context) => {
+  // Apply RBAC middleware - require 'sentient-loop:manage-webhooks' permission
+  const user = await requirePermission({
+    resource: 'sentient-loop',
+    action: 'manage-webhooks',
+    adminOverride: true,
+    auditRejection: true
+  })(context);
+
+  // Validate request data
+  const validatedData = validateRequest(args, redeliverWebhookSchema);
+
+  try {
+    // Log the operation
+    LoggingService.info({
+      message: `API: Redelivering webhook delivery for Sentient Loop events`,
+      userId: user.id,
+      module: 'arcana',
+      category: 'SENTIENT_LOOP',
+      metadata: {
+        deliveryId: validatedData.deliveryId
+      }
+    });
+
+    // Check if the delivery exists and its webhook belongs to the user
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: validatedData.deliveryId },
+      include: { webhook: true }
+    });
+
+    if (!delivery) {
+      throw new HttpError(404, 'Webhook delivery not found');
+    }
+
+    if (delivery.webhook.userId !== user.id && !user.isAdmin) {
+      throw new HttpError(403, 'You do not have permission to redeliver this webhook');
+    }
+
+    const result = await redeliverWebhookDelivery(delivery.id);
+
+    return {
+      success: result.success,
+      deliveryId: result.deliveryId,
+      status: result.status,
+      statusCode: result.statusCode,
+      error: result.error
+    };
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    LoggingService.error({
+      message: 'Failed to redeliver webhook',
+      userId: user.id,
+      module: 'arcana',
+      category: 'SENTIENT_LOOP',
+      error
+    });
+    throw error;
+  }
+});
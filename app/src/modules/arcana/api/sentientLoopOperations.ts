@@ -3,6 +3,19 @@ import { prisma } from 'wasp/server';
 import { SentientLoopService } from '../shared/services/sentientLoop';
 import { LoggingService } from '../shared/services/logging';
 import { requirePermission } from './middleware/rbac';
+import { SentientPolicyService } from '../shared/services/sentientLoop/sentientPolicyService';
+import { sentientLoopPolicySchema } from '../shared/services/sentientLoop/sentientPolicyEngine';
+
+/**
+ * Parses a policy document or throws a 400 with the validation issues
+ */
+const parsePolicyOrThrow = (policy: unknown) => {
+  const parsed = sentientLoopPolicySchema.safeParse(policy);
+  if (!parsed.success) {
+    throw new HttpError(400, 'Invalid Sentient Loop policy', { issues: parsed.error.issues });
+  }
+  return parsed.data;
+};
 
 /**
  * Gets pending checkpoints for the current user
@@ -148,6 +161,7 @@ export const updateSentientLoopConfig = async (args: {
   escalationRules?: any;
   memoryRetention?: any;
   auditFrequency?: any;
+  policy?: any;
   isActive?: boolean;
 }, context: any) => {
   // Apply RBAC middleware - require 'sentient-loop:manage' permission
@@ -158,6 +172,9 @@ export const updateSentientLoopConfig = async (args: {
     auditRejection: true
   })(context);
 
+  // A null policy reverts to the checkpoint thresholds
+  const policy = args.policy === undefined || args.policy === null ? args.policy : parsePolicyOrThrow(args.policy);
+
   try {
     const { moduleId, checkpointThresholds, escalationRules, memoryRetention, auditFrequency, isActive } = args;
 
@@ -178,6 +195,7 @@ export const updateSentientLoopConfig = async (args: {
       escalationRules,
       memoryRetention,
       auditFrequency,
+      policy,
       isActive
     });
 
@@ -516,4 +534,53 @@ export const processAgentAction = async (args: {
     });
     throw new HttpError(500, 'Failed to process agent action');
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Replays recent policy evaluations against a draft policy
+ */
+export const simulateSentientLoopPolicy = async (args: {
+  moduleId?: string;
+  policy: any;
+  limit?: number;
+}, context: any) => {
+  // Apply RBAC middleware - require 'sentient-loop:manage' permission
+  const user = await requirePermission({
+    resource: 'sentient-loop',
+    action: 'manage',
+    adminOverride: true,
+    auditRejection: true
+  })(context);
+
+  const policy = parsePolicyOrThrow(args.policy);
+  const limit = Math.min(Math.max(Math.floor(args.limit ?? 100), 1), 1000);
+
+  try {
+    // Log the operation
+    LoggingService.info({
+      message: 'Simulating Sentient Loop policy',
+      userId: user.id,
+      module: 'arcana',
+      category: 'SENTIENT_LOOP',
+      metadata: { moduleId: args.moduleId, limit, ruleCount: policy.rules.length }
+    });
+
+    return await SentientPolicyService.simulatePolicy({
+      userId: user.id,
+      moduleId: args.moduleId,
+      policy,
+      limit
+    });
+  } catch (error) {
+    console.error('Error simulating Sentient Loop policy:', error);
+    LoggingService.error({
+      message: 'Failed to simulate Sentient Loop policy',
+      userId: user.id,
+      module: 'arcana',
+      category: 'SENTIENT_LOOP',
+      error,
+      metadata: { moduleId: args.moduleId }
+    });
+    throw new HttpError(500, 'Failed to simulate Sentient Loop policy');
+  }
+};
@@ -7,6 +7,20 @@
 import { HttpError } from 'wasp/server';
 import { useQuery as useWaspQuery, useAction as useWaspAction } from 'wasp/client/operations';
 import { QueryApprovalStatus } from '@src/shared/types/entities/agentQuery';
+import { requirePermission } from '@src/api/middleware/rbac';
+
+// Actions whose changes can be previewed and reverted; kept in sync with the query write service
+const WRITE_ACTIONS = ['create', 'update', 'delete'];
+
+/**
+ * Limit query requests to those of the user and of the user's organization
+ */
+const accessibleQueryRequests = (user: { id: string; organizationId?: string | null }) => ({
+  OR: [
+    { userId: user.id },
+    ...(user.organizationId ? [{ user: { organizationId: user.organizationId } }] : []),
+  ],
+});
 
 // ==================== Server Operations ====================
 
@@ -51,6 +65,55 @@ export const getPendingQueryRequests = async (_args: unknown, context: any) => {
   }
 };
 
+/**
+ * Get applied query requests
+ * 
+ * This query returns the executed write query requests whose changes can still be reverted.
+ */
+export const getAppliedQueryRequests = async (_args: unknown, context: any) => {
+  // Apply RBAC middleware - require 'sentient-loop:read' permission
+  const user = await requirePermission({
+    resource: 'sentient-loop',
+    action: 'read',
+    adminOverride: true,
+    auditRejection: true
+  })(context);
+
+  try {
+    const appliedQueries = await context.entities.AgentQueryRequest.findMany({
+      where: {
+        ...accessibleQueryRequests(user),
+        action: { in: WRITE_ACTIONS },
+        executedAt: { not: null },
+        executionError: null,
+      },
+      include: {
+        agent: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        user: {
+          select: {
+            id: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: {
+        executedAt: 'desc',
+      },
+      take: 50,
+    });
+
+    return appliedQueries.filter((query: any) => query.metadata?.rollbackId && !query.metadata?.revertedAt);
+  } catch (error) {
+    console.error('Error getting applied query requests:', error);
+    throw new HttpError(500, 'Failed to get applied query requests');
+  }
+};
+
 /**
  * Get query request details
  * 
@@ -98,6 +161,14 @@ export const getQueryRequestDetails = async (args: { queryId: string }, context:
       throw new HttpError(404, 'Query request not found');
     }
 
+    // Show the changes a pending write would make
+    if (queryRequest.status === QueryApprovalStatus.PENDING && WRITE_ACTIONS.includes(queryRequest.action)) {
+      const { QuerySandboxService } = await import('@src/server/services/querySandboxService');
+      const preview = await QuerySandboxService.previewWrite(args.queryId);
+
+      return { ...queryRequest, writePreview: preview.success ? preview.diff : { error: preview.error } };
+    }
+
     return queryRequest;
   } catch (error) {
     console.error('Error getting query request details:', error);
@@ -345,6 +416,52 @@ export const modifyQueryRequest = async (
   }
 };
 
+/**
+ * Revert a query request
+ * 
+ * This action reverts the changes an executed write query request made.
+ */
+export const revertQueryRequest = async (args: { queryId: string }, context: any) => {
+  // Apply RBAC middleware - require 'sentient-loop:use' permission
+  const user = await requirePermission({
+    resource: 'sentient-loop',
+    action: 'use',
+    adminOverride: true,
+    auditRejection: true
+  })(context);
+
+  if (!args.queryId) {
+    throw new HttpError(400, 'Query ID is required');
+  }
+
+  try {
+    // Query requests of other users and organizations are not found
+    const queryRequest = await context.entities.AgentQueryRequest.findFirst({
+      where: {
+        id: args.queryId,
+        ...accessibleQueryRequests(user),
+      },
+      select: { id: true },
+    });
+
+    if (!queryRequest) {
+      throw new HttpError(404, 'Query request not found');
+    }
+
+    // Import the QueryWriteService
+    const { QueryWriteService } = await import('@src/server/services/queryWriteService');
+
+    return await QueryWriteService.revertWrite(queryRequest.id, user.id);
+  } catch (error) {
+    console.error('Error reverting query request:', error);
+    // Tell the reviewer why, e.g. when the row changed after the query ran
+    if (error instanceof HttpError) {
+      throw error;
+    }
+    throw new HttpError(500, 'Failed to revert query request');
+  }
+};
+
 // ==================== Client Hooks ====================
 
 /**
@@ -381,3 +498,10 @@ export function useRejectQueryRequest() {
 export function useModifyQueryRequest() {
   return useWaspAction(modifyQueryRequest);
 }
+
+/**
+ * Hook for reverting a query request
+ */
+export function useRevertQueryRequest() {
+  return useWaspAction(revertQueryRequest);
+}
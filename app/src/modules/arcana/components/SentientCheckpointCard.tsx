@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 
 interface SentientCheckpointCardProps {
   checkpoint: any;
@@ -11,6 +11,13 @@ const SentientCheckpointCard: React.FC<SentientCheckpointCardProps> = ({
   onClick,
   isSelected
 }) => {
+  // Re-render every minute so the elapsed time stays current without a refresh
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    const intervalId = setInterval(() => setTick(tick => tick + 1), 60000);
+    return () => clearInterval(intervalId);
+  }, []);
+
   // Get checkpoint type icon
   const getTypeIcon = () => {
     switch (checkpoint.type) {
@@ -102,8 +109,8 @@ const SentientCheckpointCard: React.FC<SentientCheckpointCardProps> = ({
     }
   };
 
-  // Check if the checkpoint has escalations
-  const hasEscalations = checkpoint.escalations && checkpoint.escalations.length > 0;
+  // Check if the checkpoint has escalations or was escalated since it was loaded
+  const hasEscalations = checkpoint.status === 'ESCALATED' || (checkpoint.escalations && checkpoint.escalations.length > 0);
 
   return (
     <div
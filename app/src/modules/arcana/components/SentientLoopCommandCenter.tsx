@@ -37,7 +37,9 @@ export const SentientLoopCommandCenter: React.FC<SentientLoopCommandCenterProps>
     getActiveHITLSessions,
     resolveHITLSession,
     escalateHITLSession,
-    takeMemorySnapshot
+    takeMemorySnapshot,
+    lastCheckpointEvent,
+    isLive
   } = useSentientLoopSystem(moduleId);
 
   // Local state
@@ -58,6 +60,19 @@ export const SentientLoopCommandCenter: React.FC<SentientLoopCommandCenterProps>
     }
   }, [currentCheckpoint, selectedCheckpoint, onCheckpointSelected]);
 
+  // Close the selected checkpoint when it is resolved or escalated elsewhere
+  useEffect(() => {
+    if (
+      lastCheckpointEvent &&
+      lastCheckpointEvent.type !== 'checkpoint.created' &&
+      selectedCheckpoint?.id === lastCheckpointEvent.checkpointId
+    ) {
+      setSelectedCheckpoint(null);
+      setModifiedPayload(null);
+      setResolution('');
+    }
+  }, [lastCheckpointEvent]);
+
   // Update active sessions when they change
   useEffect(() => {
     setActiveSessions(getActiveHITLSessions());
@@ -222,7 +237,13 @@ export const SentientLoopCommandCenter: React.FC<SentientLoopCommandCenterProps>
     <div className={`bg-gray-900 text-white rounded-lg shadow-lg ${className}`}>
       {/* Command Center Header */}
       <div className="border-b border-gray-800 p-4">
-        <h2 className="text-xl font-bold text-purple-400">Sentient Loop™ Command Center</h2>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-purple-400">Sentient Loop™ Command Center</h2>
+          <span className={`flex items-center text-xs ${isLive ? 'text-green-400' : 'text-gray-500'}`}>
+            <span className={`mr-1 h-2 w-2 rounded-full ${isLive ? 'bg-green-400' : 'bg-gray-500'}`}></span>
+            {isLive ? 'Live' : 'Offline'}
+          </span>
+        </div>
         <p className="text-gray-400 text-sm">Human-in-the-loop cognitive feedback system</p>
       </div>
 
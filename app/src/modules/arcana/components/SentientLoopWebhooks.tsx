@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { useQuery, useAction, listWebhooks, listWebhookDeliveries, updateWebhook, redeliverWebhook } from 'wasp/client/operations';
+
+type DeliveryStatusFilter = 'PENDING' | 'SUCCESS' | 'FAILED' | 'DEAD' | undefined;
+
+const DELIVERY_STATUS_STYLES: Record<string, string> = {
+  PENDING: 'bg-blue-900 text-blue-200',
+  SUCCESS: 'bg-green-900 text-green-200',
+  FAILED: 'bg-yellow-900 text-yellow-200',
+  DEAD: 'bg-red-900 text-red-200'
+};
+
+/**
+ * Sentient Loop™ Webhooks Component
+ *
+ * Lists the user's Sentient Loop™ webhooks with their health, lets the user enable or
+ * disable them, and shows the delivery log of the selected webhook with manual redelivery.
+ */
+const SentientLoopWebhooks: React.FC = () => {
+  const [selectedWebhookId, setSelectedWebhookId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<DeliveryStatusFilter>(undefined);
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    data: webhooksData,
+    isLoading: isLoadingWebhooks,
+    refetch: refetchWebhooks
+  } = useQuery(listWebhooks, { limit: 50, offset: 0 });
+
+  const {
+    data: deliveriesData,
+    isLoading: isLoadingDeliveries,
+    refetch: refetchDeliveries
+  } = useQuery(
+    listWebhookDeliveries,
+    { webhookId: selectedWebhookId ?? '', limit: 50, offset: 0, status: statusFilter },
+    { enabled: !!selectedWebhookId }
+  );
+
+  const updateWebhookAction = useAction(updateWebhook);
+  const redeliverWebhookAction = useAction(redeliverWebhook);
+
+  const webhooks = webhooksData?.webhooks || [];
+  const deliveries = deliveriesData?.deliveries || [];
+  const selectedWebhook = webhooks.find((webhook: any) => webhook.id === selectedWebhookId);
+
+  // Enable or disable a webhook
+  const handleToggleWebhook = async (webhook: any) => {
+    setProcessingId(webhook.id);
+    setError(null);
+    try {
+      await updateWebhookAction({ webhookId: webhook.id, isActive: !webhook.isActive });
+      await refetchWebhooks();
+    } catch (err: any) {
+      setError(err.message || 'Failed to update webhook');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  // Send a recorded delivery again
+  const handleRedeliver = async (deliveryId: string) => {
+    setProcessingId(deliveryId);
+    setError(null);
+    try {
+      const result = await redeliverWebhookAction({ deliveryId });
+      if (!result.success) {
+        setError(`Redelivery failed${result.statusCode ? ` with status ${result.statusCode}` : ''}: ${result.error}`);
+      }
+      await Promise.all([refetchDeliveries(), refetchWebhooks()]);
+    } catch (err: any) {
+      setError(err.message || 'Failed to redeliver webhook');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (isLoadingWebhooks) {
+    return (
+      <div className="flex h-32 items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+      {/* Webhook List */}
+      <div className="space-y-3">
+        {webhooks.length === 0 ? (
+          <div className="rounded-lg border border-gray-700 bg-gray-700/50 p-4 text-center text-gray-400">
+            No webhooks registered
+          </div>
+        ) : (
+          webhooks.map((webhook: any) => (
+            <div
+              key={webhook.id}
+              className={`cursor-pointer rounded-lg border p-4 transition-colors duration-200 ${
+                selectedWebhookId === webhook.id
+                  ? 'border-purple-500 bg-gray-700'
+                  : 'border-gray-700 bg-gray-800 hover:border-gray-600'
+              }`}
+              onClick={() => {
+                setSelectedWebhookId(webhook.id);
+                setExpandedDeliveryId(null);
+              }}
+            >
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <h3 className="truncate font-medium text-white">{webhook.url}</h3>
+                  {webhook.description && (
+                    <p className="mt-1 text-sm text-gray-400">{webhook.description}</p>
+                  )}
+                </div>
+                <span className={`ml-2 rounded px-2 py-0.5 text-xs ${
+                  webhook.isActive ? 'bg-green-900 text-green-300' : 'bg-red-900 text-red-300'
+                }`}>
+                  {webhook.isActive ? 'Active' : 'Disabled'}
+                </span>
+              </div>
+              <div className="mt-2 text-xs text-gray-500">
+                {webhook.events.length} events
+                {webhook.failureCount > 0 && ` • ${webhook.failureCount} consecutive failures`}
+                {webhook.lastDeliveryAt && ` • Last delivery ${new Date(webhook.lastDeliveryAt).toLocaleString()}`}
+              </div>
+              {!webhook.isActive && webhook.disabledReason && (
+                <p className="mt-2 text-xs text-red-400">{webhook.disabledReason}</p>
+              )}
+              <button
+                className="mt-3 rounded bg-gray-600 px-3 py-1 text-xs text-white hover:bg-gray-500 disabled:opacity-50"
+                disabled={processingId === webhook.id}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleToggleWebhook(webhook);
+                }}
+              >
+                {webhook.isActive ? 'Disable' : 'Enable'}
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Delivery Log */}
+      <div className="rounded-lg border border-gray-700 bg-gray-800 p-4 lg:col-span-2">
+        {!selectedWebhook ? (
+          <div className="flex h-32 items-center justify-center text-gray-400">
+            Select a webhook to view its delivery log
+          </div>
+        ) : (
+          <div>
+            <div className="mb-4 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-white">Delivery Log</h3>
+              <select
+                className="rounded border border-gray-600 bg-gray-700 px-2 py-1 text-sm text-white"
+                value={statusFilter ?? ''}
+                onChange={(e) => setStatusFilter((e.target.value || undefined) as DeliveryStatusFilter)}
+              >
+                <option value="">All statuses</option>
+                <option value="PENDING">Pending</option>
+                <option value="SUCCESS">Success</option>
+                <option value="FAILED">Retrying</option>
+                <option value="DEAD">Dead</option>
+              </select>
+            </div>
+
+            {error && (
+              <div className="mb-4 rounded bg-red-900/50 p-3 text-sm text-red-300">{error}</div>
+            )}
+
+            {isLoadingDeliveries ? (
+              <div className="flex h-32 items-center justify-center">
+                <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-white"></div>
+              </div>
+            ) : deliveries.length === 0 ? (
+              <div className="py-8 text-center text-gray-500">No deliveries recorded</div>
+            ) : (
+              <div className="space-y-2">
+                {deliveries.map((delivery: any) => (
+                  <div key={delivery.id} className="rounded-lg bg-gray-700 p-3">
+                    <div className="flex items-center justify-between">
+                      <div
+                        className="min-w-0 cursor-pointer"
+                        onClick={() => setExpandedDeliveryId(expandedDeliveryId === delivery.id ? null : delivery.id)}
+                      >
+                        <div className="flex items-center">
+                          <span className={`mr-2 rounded-full px-2 py-0.5 text-xs ${DELIVERY_STATUS_STYLES[delivery.status] || 'bg-gray-900 text-gray-200'}`}>
+                            {delivery.status}
+                          </span>
+                          <span className="text-sm font-medium text-white">{delivery.eventType}</span>
+                        </div>
+                        <div className="mt-1 text-xs text-gray-400">
+                          {new Date(delivery.createdAt).toLocaleString()}
+                          {delivery.statusCode > 0 && ` • HTTP ${delivery.statusCode}`}
+                          {` • ${delivery.retryCount} attempt${delivery.retryCount === 1 ? '' : 's'}`}
+                          {delivery.status === 'FAILED' && delivery.nextAttemptAt &&
+                            ` • Next attempt ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                          {delivery.redeliveryOfId && ' • Redelivery'}
+                        </div>
+                        {delivery.lastError && (
+                          <div className="mt-1 text-xs text-red-400">{delivery.lastError}</div>
+                        )}
+                      </div>
+                      <button
+                        className="ml-2 rounded bg-purple-600 px-3 py-1 text-xs text-white hover:bg-purple-700 disabled:opacity-50"
+                        disabled={processingId === delivery.id}
+                        onClick={() => handleRedeliver(delivery.id)}
+                      >
+                        {processingId === delivery.id ? 'Sending...' : 'Redeliver'}
+                      </button>
+                    </div>
+                    {expandedDeliveryId === delivery.id && (
+                      <div className="mt-3 space-y-2">
+                        <div>
+                          <div className="mb-1 text-xs font-medium text-gray-400">Payload</div>
+                          <pre className="max-h-60 overflow-auto rounded bg-gray-900 p-2 text-xs text-gray-300">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                        </div>
+                        {delivery.responseBody !== null && delivery.responseBody !== undefined && (
+                          <div>
+                            <div className="mb-1 text-xs font-medium text-gray-400">Response</div>
+                            <pre className="max-h-40 overflow-auto rounded bg-gray-900 p-2 text-xs text-gray-300">
+                              {typeof delivery.responseBody === 'string'
+                                ? delivery.responseBody
+                                : JSON.stringify(delivery.responseBody, null, 2)}
+                            </pre>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SentientLoopWebhooks;
@@ -19,9 +19,9 @@ import { Textarea } from '@src/client/components/Textarea';
 import { Input } from '@src/client/components/Input';
 import { Label } from '@src/client/components/Label';
 import { Alert, AlertDescription, AlertTitle } from '@src/client/components/Alert';
-import { AlertCircle, CheckCircle, XCircle, Edit, Eye, AlertTriangle, Clock, Database } from 'lucide-react';
+import { AlertCircle, CheckCircle, XCircle, Edit, Eye, AlertTriangle, Clock, Database, RotateCcw } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
-import { QueryApprovalStatus } from '@src/shared/types/entities/agentQuery';
+import { QueryApprovalStatus, WriteDiff } from '@src/shared/types/entities/agentQuery';
 
 interface SentientQueryApprovalProps {
   moduleId?: string;
@@ -30,12 +30,14 @@ interface SentientQueryApprovalProps {
 export function SentientQueryApproval({ moduleId = 'agent-query' }: SentientQueryApprovalProps) {
   const {
     pendingQueries,
+    appliedQueries,
     selectedQuery,
     isLoading,
     error,
     approveQuery,
     rejectQuery,
     modifyQuery,
+    revertQuery,
     selectQuery,
     refreshQueries,
   } = useSentientQueryApproval({ moduleId });
@@ -98,6 +100,16 @@ export function SentientQueryApproval({ moduleId = 'agent-query' }: SentientQuer
     }
   };
 
+  // Handle reverting an executed write
+  const handleRevert = async (queryId: string) => {
+    try {
+      await revertQuery(queryId);
+      refreshQueries();
+    } catch (error) {
+      console.error('Error reverting query:', error);
+    }
+  };
+
   // Render status badge
   const renderStatusBadge = (status: QueryApprovalStatus) => {
     switch (status) {
@@ -114,15 +126,45 @@ export function SentientQueryApproval({ moduleId = 'agent-query' }: SentientQuer
     }
   };
 
+  // Render the before and after values of a write
+  const renderWriteDiff = (diff: WriteDiff) => (
+    <div className="overflow-x-auto rounded-md border">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-100 dark:bg-gray-800">
+          <tr>
+            <th className="px-3 py-2 text-left font-medium">Field</th>
+            <th className="px-3 py-2 text-left font-medium">Before</th>
+            <th className="px-3 py-2 text-left font-medium">After</th>
+          </tr>
+        </thead>
+        <tbody>
+          {diff.changes.map((change) => (
+            <tr key={change.field} className="border-t">
+              <td className="px-3 py-2 font-mono">{change.field}</td>
+              <td className="px-3 py-2 font-mono text-red-700 dark:text-red-400">
+                {change.before === undefined ? '—' : JSON.stringify(change.before)}
+              </td>
+              <td className="px-3 py-2 font-mono text-green-700 dark:text-green-400">
+                {change.after === undefined ? '—' : JSON.stringify(change.after)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
   // Render query list
-  const renderQueryList = () => {
-    if (!pendingQueries || pendingQueries.length === 0) {
+  const renderQueryList = (queries: QueryRequestWithDetails[] | undefined, applied = false) => {
+    if (!queries || queries.length === 0) {
       return (
         <div className="flex flex-col items-center justify-center p-8 text-center">
           <Database className="h-12 w-12 text-gray-400 mb-4" />
-          <h3 className="text-lg font-medium">No pending queries</h3>
+          <h3 className="text-lg font-medium">{applied ? 'No applied changes' : 'No pending queries'}</h3>
           <p className="text-sm text-gray-500 mt-2">
-            All agent-generated queries have been processed.
+            {applied
+              ? 'Writes executed by agents will appear here until they are reverted.'
+              : 'All agent-generated queries have been processed.'}
           </p>
         </div>
       );
@@ -130,7 +172,7 @@ export function SentientQueryApproval({ moduleId = 'agent-query' }: SentientQuer
 
     return (
       <div className="space-y-4">
-        {pendingQueries.map((query) => (
+        {queries.map((query) => (
           <Card 
             key={query.id} 
             className={`cursor-pointer hover:border-primary transition-colors ${
@@ -157,7 +199,7 @@ export function SentientQueryApproval({ moduleId = 'agent-query' }: SentientQuer
             <CardFooter className="pt-0 text-xs text-gray-500">
               <div className="flex items-center">
                 <Clock className="h-3 w-3 mr-1" />
-                {formatDistanceToNow(new Date(query.createdAt), { addSuffix: true })}
+                {formatDistanceToNow(new Date(query.executedAt || query.createdAt), { addSuffix: true })}
               </div>
             </CardFooter>
           </Card>
@@ -182,6 +224,8 @@ export function SentientQueryApproval({ moduleId = 'agent-query' }: SentientQuer
 
     const validationResults = selectedQuery.validationResults || { valid: true };
     const metadata = selectedQuery.metadata || {};
+    const writePreview = selectedQuery.writePreview;
+    const canRevert = Boolean(metadata.rollbackId && !metadata.revertedAt);
 
     return (
       <div className="space-y-4">
@@ -189,7 +233,12 @@ export function SentientQueryApproval({ moduleId = 'agent-query' }: SentientQuer
           <h3 className="text-lg font-medium">
             {selectedQuery.targetModel}.{selectedQuery.action}
           </h3>
-          {renderStatusBadge(selectedQuery.status)}
+          <div className="flex items-center space-x-2">
+            {metadata.revertedAt && (
+              <Badge variant="outline" className="bg-gray-100 text-gray-800">Reverted</Badge>
+            )}
+            {renderStatusBadge(selectedQuery.status)}
+          </div>
         </div>
 
         <div className="space-y-2">
@@ -217,6 +266,28 @@ export function SentientQueryApproval({ moduleId = 'agent-query' }: SentientQuer
           />
         </div>
 
+        {writePreview && (
+          <div className="space-y-2">
+            <Label>Proposed Changes</Label>
+            {'error' in writePreview ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Changes could not be previewed</AlertTitle>
+                <AlertDescription>{writePreview.error}</AlertDescription>
+              </Alert>
+            ) : (
+              renderWriteDiff(writePreview)
+            )}
+          </div>
+        )}
+
+        {metadata.writeDiff && (
+          <div className="space-y-2">
+            <Label>Applied Changes</Label>
+            {renderWriteDiff(metadata.writeDiff)}
+          </div>
+        )}
+
         {validationResults.warnings && validationResults.warnings.length > 0 && (
           <Alert variant="warning">
             <AlertTriangle className="h-4 w-4" />
@@ -241,40 +312,57 @@ export function SentientQueryApproval({ moduleId = 'agent-query' }: SentientQuer
           </Alert>
         )}
 
-        <div className="space-y-2">
-          <Label>Comment (Optional)</Label>
-          <Textarea
-            placeholder="Add a comment about your decision..."
-            value={comment}
-            onChange={(e) => setComment(e.target.value)}
-          />
-        </div>
+        {canRevert && (
+          <div className="flex justify-end">
+            <Button
+              variant="destructive"
+              onClick={() => handleRevert(selectedQuery.id)}
+              className="flex items-center"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Revert Changes
+            </Button>
+          </div>
+        )}
 
-        <div className="flex space-x-2 justify-end">
-          <Button
-            variant="outline"
-            onClick={() => setIsRejectModalOpen(true)}
-            className="flex items-center"
-          >
-            <XCircle className="h-4 w-4 mr-2" />
-            Reject
-          </Button>
-          <Button
-            variant="outline"
-            onClick={() => setIsModifyModalOpen(true)}
-            className="flex items-center"
-          >
-            <Edit className="h-4 w-4 mr-2" />
-            Modify
-          </Button>
-          <Button
-            onClick={handleApprove}
-            className="flex items-center"
-          >
-            <CheckCircle className="h-4 w-4 mr-2" />
-            Approve
-          </Button>
-        </div>
+        {selectedQuery.status === QueryApprovalStatus.PENDING && (
+          <>
+            <div className="space-y-2">
+              <Label>Comment (Optional)</Label>
+              <Textarea
+                placeholder="Add a comment about your decision..."
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+              />
+            </div>
+    
+            <div className="flex space-x-2 justify-end">
+              <Button
+                variant="outline"
+                onClick={() => setIsRejectModalOpen(true)}
+                className="flex items-center"
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsModifyModalOpen(true)}
+                className="flex items-center"
+              >
+                <Edit className="h-4 w-4 mr-2" />
+                Modify
+              </Button>
+              <Button
+                onClick={handleApprove}
+                className="flex items-center"
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+            </div>
+          </>
+        )}
       </div>
     );
   };
@@ -307,11 +395,24 @@ export function SentientQueryApproval({ moduleId = 'agent-query' }: SentientQuer
               <CardHeader>
                 <CardTitle>Queries</CardTitle>
                 <CardDescription>
-                  {pendingQueries?.length || 0} pending queries
+                  {activeTab === 'applied'
+                    ? `${appliedQueries?.length || 0} applied changes`
+                    : `${pendingQueries?.length || 0} pending queries`}
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {renderQueryList()}
+                <Tabs value={activeTab} onValueChange={setActiveTab}>
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="pending">Pending</TabsTrigger>
+                    <TabsTrigger value="applied">Applied</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="pending">
+                    {renderQueryList(pendingQueries)}
+                  </TabsContent>
+                  <TabsContent value="applied">
+                    {renderQueryList(appliedQueries, true)}
+                  </TabsContent>
+                </Tabs>
               </CardContent>
             </Card>
           </div>
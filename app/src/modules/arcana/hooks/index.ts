@@ -8,6 +8,9 @@
 // Export the base Sentient Loop hook
 export { useSentientLoop } from './useSentientLoop';
 
+// Export the live checkpoint events hook
+export { useCheckpointEvents } from './useCheckpointEvents';
+
 // Export the enhanced Sentient Loop system hooks
 export {
   useSentientLoopSystem,
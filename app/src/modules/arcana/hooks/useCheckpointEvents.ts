@@ -0,0 +1,36 @@
+import { useCallback, useState } from 'react';
+import { useSocket, useSocketListener } from 'wasp/client/webSocket';
+import type { CheckpointEvent } from '../shared/services/sentientLoop/checkpointEvents';
+
+/**
+ * Hook for receiving live Sentient Loop™ checkpoint events
+ *
+ * The server pushes checkpoint created/resolved/escalated events for the current user
+ * and their organization over the app WebSocket.
+ *
+ * @param onEvent Called for every event that matches the module filter
+ * @param moduleId Optional module ID to filter by
+ * @returns The last received event and whether the socket is connected
+ */
+export function useCheckpointEvents(
+  onEvent?: (event: CheckpointEvent) => void,
+  moduleId?: string
+) {
+  const { isConnected } = useSocket();
+  const [lastEvent, setLastEvent] = useState<CheckpointEvent | null>(null);
+
+  const handleEvent = useCallback((event: CheckpointEvent) => {
+    if (moduleId && event.moduleId !== moduleId) {
+      return;
+    }
+    setLastEvent(event);
+    onEvent?.(event);
+  }, [moduleId, onEvent]);
+
+  useSocketListener('sentientCheckpoint', handleEvent);
+
+  return {
+    lastEvent,
+    isConnected
+  };
+}
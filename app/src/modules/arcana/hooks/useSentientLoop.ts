@@ -11,6 +11,8 @@ import {
   recordDecisionTrace,
   processAgentAction
 } from '../api/operations';
+import { useCheckpointEvents } from './useCheckpointEvents';
+import type { CheckpointEvent } from '../shared/services/sentientLoop/checkpointEvents';
 
 /**
  * Hook for interacting with the Sentient Loop™ system
@@ -47,6 +49,18 @@ export function useSentientLoop(moduleId?: string) {
   const recordDecisionTraceAction = useAction(recordDecisionTrace);
   const processAgentActionFn = useAction(processAgentAction);
 
+  // Refresh pending checkpoints whenever the server pushes a checkpoint event
+  const handleCheckpointEvent = useCallback((event: CheckpointEvent) => {
+    refetchCheckpoints();
+
+    // Drop the current checkpoint if someone else resolved or escalated it
+    if (event.type !== 'checkpoint.created') {
+      setCurrentCheckpoint((current: any) => (current && current.id === event.checkpointId ? null : current));
+    }
+  }, [refetchCheckpoints]);
+
+  const { lastEvent: lastCheckpointEvent, isConnected: isLive } = useCheckpointEvents(handleCheckpointEvent, moduleId);
+
   // Set the first pending checkpoint as current if none is selected
   useEffect(() => {
     if (!currentCheckpoint && pendingCheckpoints && pendingCheckpoints.length > 0) {
@@ -383,6 +397,8 @@ export function useSentientLoop(moduleId?: string) {
     isProcessing,
     checkpointsError,
     configError,
+    lastCheckpointEvent,
+    isLive,
 
     // Actions
     approveCheckpoint,
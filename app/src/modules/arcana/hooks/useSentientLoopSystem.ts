@@ -13,6 +13,8 @@ import {
   processAgentAction
 } from '../api/sentientLoopOperations';
 import { useSentientLoop } from './useSentientLoop';
+import { useCheckpointEvents } from './useCheckpointEvents';
+import type { CheckpointEvent } from '../shared/services/sentientLoop/checkpointEvents';
 
 /**
  * Enhanced hook for the Sentient Loop™ system with advanced HITL capabilities
@@ -40,6 +42,10 @@ export function useSentientLoopSystem(moduleId?: string) {
   // Refs for tracking session timeouts
   const sessionTimeoutsRef = useRef<Record<string, NodeJS.Timeout>>({});
   
+  // Refs for resolving waiters when a session leaves the pending state
+  const activeHITLSessionsRef = useRef<Record<string, any>>({});
+  const resolutionWaitersRef = useRef<Record<string, Array<(session: any) => void>>>({});
+  
   // Actions
   const processAgentActionFn = useAction(processAgentAction);
   const createMemorySnapshotAction = useAction(createMemorySnapshot);
@@ -127,6 +133,7 @@ export function useSentientLoopSystem(moduleId?: string) {
         ...prev,
         [checkpoint.id]: hitlSession
       }));
+      activeHITLSessionsRef.current = { ...activeHITLSessionsRef.current, [checkpoint.id]: hitlSession };
       
       // Set a timeout to automatically expire the session
       const timeoutId = setTimeout(() => {
@@ -176,34 +183,83 @@ export function useSentientLoopSystem(moduleId?: string) {
    */
   const waitForHITLResolution = useCallback((sessionId: string, timeoutMs: number = 5 * 60 * 1000): Promise<any> => {
     return new Promise((resolve, reject) => {
-      const startTime = Date.now();
-      const checkInterval = 1000; // Check every second
+      const session = activeHITLSessionsRef.current[sessionId];
       
-      // Function to check if the session is resolved
-      const checkResolution = () => {
-        const session = activeHITLSessions[sessionId];
-        
-        // If the session doesn't exist, reject
-        if (!session) {
-          return reject(new Error(`HITL session ${sessionId} not found`));
-        }
-        
-        // If the session is resolved, resolve with the result
-        if (session.status !== 'PENDING') {
-          return resolve(session);
-        }
-        
-        // If we've exceeded the timeout, reject
-        if (Date.now() - startTime > timeoutMs) {
-          return reject(new Error(`Timeout waiting for HITL session ${sessionId} to be resolved`));
-        }
-        
-        // Otherwise, check again after the interval
-        setTimeout(checkResolution, checkInterval);
+      // If the session doesn't exist, reject
+      if (!session) {
+        return reject(new Error(`HITL session ${sessionId} not found`));
+      }
+      
+      // If the session is resolved, resolve with the result
+      if (session.status !== 'PENDING') {
+        return resolve(session);
+      }
+      
+      // Otherwise, wait until a local resolution or a pushed checkpoint event settles it
+      const waiter = (resolvedSession: any) => {
+        clearTimeout(timeoutId);
+        resolve(resolvedSession);
       };
       
-      // Start checking
-      checkResolution();
+      const timeoutId = setTimeout(() => {
+        resolutionWaitersRef.current[sessionId] = (resolutionWaitersRef.current[sessionId] || []).filter(w => w !== waiter);
+        reject(new Error(`Timeout waiting for HITL session ${sessionId} to be resolved`));
+      }, timeoutMs);
+      
+      resolutionWaitersRef.current[sessionId] = [...(resolutionWaitersRef.current[sessionId] || []), waiter];
+    });
+  }, []);
+  
+  /**
+   * Applies a pushed checkpoint event to the matching HITL session
+   * 
+   * Checkpoints can be resolved or escalated by another user in the organization or by
+   * the server, so the session is updated from the event instead of waiting for a refresh.
+   */
+  const handleCheckpointEvent = useCallback((event: CheckpointEvent) => {
+    if (event.type === 'checkpoint.created' || event.status === 'PENDING') {
+      return;
+    }
+    
+    setActiveHITLSessions(prev => {
+      const session = prev[event.checkpointId];
+      if (!session || session.status !== 'PENDING') {
+        return prev;
+      }
+      
+      return {
+        ...prev,
+        [event.checkpointId]: {
+          ...session,
+          status: event.status,
+          result: {
+            status: event.status,
+            message: `Checkpoint ${event.status.toLowerCase()}`
+          }
+        }
+      };
+    });
+    
+    // The session is settled, so it can no longer expire
+    if (sessionTimeoutsRef.current[event.checkpointId]) {
+      clearTimeout(sessionTimeoutsRef.current[event.checkpointId]);
+      delete sessionTimeoutsRef.current[event.checkpointId];
+    }
+  }, []);
+  
+  useCheckpointEvents(handleCheckpointEvent, moduleId);
+  
+  // Keep the sessions ref current and notify waiters of settled sessions
+  useEffect(() => {
+    activeHITLSessionsRef.current = activeHITLSessions;
+    
+    Object.keys(resolutionWaitersRef.current).forEach(sessionId => {
+      const session = activeHITLSessions[sessionId];
+      if (session && session.status !== 'PENDING') {
+        const waiters = resolutionWaitersRef.current[sessionId];
+        delete resolutionWaitersRef.current[sessionId];
+        waiters.forEach(waiter => waiter(session));
+      }
     });
   }, [activeHITLSessions]);
   
@@ -340,6 +396,7 @@ export function useSentientLoopSystem(moduleId?: string) {
           ...prev,
           [checkpointId]: hitlSession
         }));
+        activeHITLSessionsRef.current = { ...activeHITLSessionsRef.current, [checkpointId]: hitlSession };
         
         // Set a timeout to automatically expire the session
         const timeoutId = setTimeout(() => {
@@ -10,13 +10,15 @@ import { useAction, useQuery } from 'wasp/client/operations';
 import { useUser } from 'wasp/client/auth';
 import { 
   getPendingQueryRequests,
+  getAppliedQueryRequests,
   approveQueryRequest,
   rejectQueryRequest,
   modifyQueryRequest,
+  revertQueryRequest,
   getQueryRequestDetails
 } from '../api/sentientQueryOperations';
 import { useSentientLoop } from './useSentientLoop';
-import { QueryApprovalStatus } from '@src/shared/types/entities/agentQuery';
+import { QueryApprovalStatus, WriteDiff } from '@src/shared/types/entities/agentQuery';
 
 export interface QueryRequestWithDetails {
   id: string;
@@ -40,6 +42,9 @@ export interface QueryRequestWithDetails {
     warnings?: string[];
   };
   metadata?: any;
+  // Changes a pending write would make, or why they could not be computed
+  writePreview?: WriteDiff | { error: string };
+  executedAt?: Date;
   createdAt: Date;
 }
 
@@ -81,6 +86,16 @@ export function useSentientQueryApproval(options: UseSentientQueryApprovalOption
     pollingInterval: autoRefresh ? refreshInterval : undefined,
   });
   
+  // Get executed writes that can still be reverted
+  const {
+    data: appliedQueries,
+    isLoading: isLoadingAppliedQueries,
+    error: appliedQueriesError,
+    refetch: refetchAppliedQueries
+  } = useQuery(getAppliedQueryRequests, undefined, {
+    refetchInterval: autoRefresh ? refreshInterval : undefined,
+  });
+  
   // Get query request details
   const { 
     data: selectedQuery,
@@ -97,6 +112,7 @@ export function useSentientQueryApproval(options: UseSentientQueryApprovalOption
   const approveQueryRequestAction = useAction(approveQueryRequest);
   const rejectQueryRequestAction = useAction(rejectQueryRequest);
   const modifyQueryRequestAction = useAction(modifyQueryRequest);
+  const revertQueryRequestAction = useAction(revertQueryRequest);
   
   /**
    * Approve a query request
@@ -265,18 +281,69 @@ export function useSentientQueryApproval(options: UseSentientQueryApprovalOption
     }
   }, [user, modifyQueryRequestAction, refetchPendingQueries, refetchSelectedQuery, selectedQueryId, selectedQuery, sentientLoop, moduleId]);
   
+  /**
+   * Revert the changes of an executed write query request
+   * 
+   * @param queryId The ID of the query request to revert
+   * @returns The result of the revert
+   */
+  const revertQuery = useCallback(async (queryId: string) => {
+    if (!user) return;
+    
+    setIsLoading(true);
+    setError(null);
+    
+    try {
+      const result = await revertQueryRequestAction({ queryId });
+      
+      // Refetch applied queries
+      refetchAppliedQueries();
+      
+      // If the selected query was reverted, refetch it
+      if (selectedQueryId === queryId) {
+        refetchSelectedQuery();
+      }
+      
+      // Record the decision in Sentient Loop™
+      await sentientLoop.recordDecision({
+        decisionType: 'QUERY_APPROVAL',
+        decision: 'REVERTED',
+        context: {
+          queryId,
+        },
+        metadata: {
+          userId: user.id,
+          moduleId,
+        },
+      });
+      
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to revert query';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, revertQueryRequestAction, refetchAppliedQueries, refetchSelectedQuery, selectedQueryId, sentientLoop, moduleId]);
+  
   return {
     // State
     pendingQueries,
+    appliedQueries,
     selectedQuery,
-    isLoading: isLoading || isLoadingPendingQueries || isLoadingSelectedQuery,
-    error: error || pendingQueriesError || selectedQueryError,
+    isLoading: isLoading || isLoadingPendingQueries || isLoadingAppliedQueries || isLoadingSelectedQuery,
+    error: error || pendingQueriesError || appliedQueriesError || selectedQueryError,
     
     // Actions
     approveQuery,
     rejectQuery,
     modifyQuery,
+    revertQuery,
     selectQuery: setSelectedQueryId,
-    refreshQueries: refetchPendingQueries,
+    refreshQueries: () => {
+      refetchPendingQueries();
+      refetchAppliedQueries();
+    },
   };
 }
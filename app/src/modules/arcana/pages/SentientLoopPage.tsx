@@ -7,9 +7,10 @@ import SentientLoopConfig from '../components/SentientLoopConfig';
 import SentientCheckpointDetail from '../components/SentientCheckpointDetail';
 import SentientLoopCommandCenter from '../components/SentientLoopCommandCenter';
 import SentientCheckpointFlow from '../components/SentientCheckpointFlow';
+import SentientLoopWebhooks from '../components/SentientLoopWebhooks';
 
 const SentientLoopPage: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'command-center' | 'checkpoints' | 'flow' | 'config'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'command-center' | 'checkpoints' | 'flow' | 'config' | 'webhooks'>('dashboard');
   const [selectedCheckpointId, setSelectedCheckpointId] = useState<string | null>(null);
 
   const {
@@ -114,6 +115,16 @@ const SentientLoopPage: React.FC = () => {
           >
             Configuration
           </button>
+          <button
+            className={`rounded-lg px-4 py-2 ${
+              activeTab === 'webhooks'
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+            onClick={() => setActiveTab('webhooks')}
+          >
+            Webhooks
+          </button>
           <Link
             to="/arcana/sentient-loop/feedback-graph"
             className="rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700"
@@ -355,6 +366,14 @@ const SentientLoopPage: React.FC = () => {
           )}
         </div>
       )}
+
+      {/* Webhooks Tab */}
+      {activeTab === 'webhooks' && (
+        <div className="rounded-lg border border-gray-700 bg-gray-800 p-6">
+          <h2 className="mb-6 text-xl font-semibold text-white">Sentient Loop™ Webhooks</h2>
+          <SentientLoopWebhooks />
+        </div>
+      )}
     </div>
   );
 };
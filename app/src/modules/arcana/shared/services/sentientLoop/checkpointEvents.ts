@@ -0,0 +1,159 @@
+import { EventEmitter } from 'events';
+import { prisma } from 'wasp/server';
+import { LoggingService } from '../logging';
+
+/**
+ * Checkpoint event types pushed to agent waiters and connected clients
+ */
+export type CheckpointEventType = 'checkpoint.created' | 'checkpoint.resolved' | 'checkpoint.escalated';
+
+/**
+ * Payload of a checkpoint event
+ */
+export interface CheckpointEvent {
+  type: CheckpointEventType;
+  checkpointId: string;
+  userId: string;
+  organizationId: string | null;
+  moduleId: string;
+  status: string;
+  title: string;
+  timestamp: string;
+}
+
+export type CheckpointEventListener = (event: CheckpointEvent) => void;
+
+const CHECKPOINT_EVENT = 'checkpoint';
+
+// In-process bus shared by the checkpoint services, the waiters and the WebSocket server
+const checkpointEventBus = new EventEmitter();
+checkpointEventBus.setMaxListeners(0);
+
+/**
+ * Publishes a checkpoint event to every subscriber
+ *
+ * Publishing never throws: a failure here must not roll back the checkpoint write that
+ * triggered it.
+ *
+ * @param type The event type
+ * @param checkpoint The checkpoint the event is about
+ * @returns The published event, or null if it could not be built
+ */
+export async function publishCheckpointEvent(
+  type: CheckpointEventType,
+  checkpoint: { id: string; userId: string; moduleId: string; status: string; title: string }
+): Promise<CheckpointEvent | null> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: checkpoint.userId },
+      select: { organizationId: true }
+    });
+
+    const event: CheckpointEvent = {
+      type,
+      checkpointId: checkpoint.id,
+      userId: checkpoint.userId,
+      organizationId: user?.organizationId ?? null,
+      moduleId: checkpoint.moduleId,
+      status: checkpoint.status,
+      title: checkpoint.title,
+      timestamp: new Date().toISOString()
+    };
+
+    checkpointEventBus.emit(CHECKPOINT_EVENT, event);
+    return event;
+  } catch (error) {
+    LoggingService.error({
+      message: `Error publishing Sentient Loop ${type} event`,
+      userId: checkpoint.userId,
+      module: 'arcana',
+      category: 'SENTIENT_LOOP',
+      error,
+      metadata: {
+        checkpointId: checkpoint.id
+      }
+    });
+    return null;
+  }
+}
+
+/**
+ * Subscribes to checkpoint events
+ *
+ * @param listener Called for every published event
+ * @returns A function that removes the listener
+ */
+export function subscribeToCheckpointEvents(listener: CheckpointEventListener): () => void {
+  const safeListener = (event: CheckpointEvent) => {
+    try {
+      listener(event);
+    } catch (error) {
+      LoggingService.error({
+        message: 'Error in Sentient Loop checkpoint event listener',
+        userId: event.userId,
+        module: 'arcana',
+        category: 'SENTIENT_LOOP',
+        error,
+        metadata: {
+          checkpointId: event.checkpointId,
+          type: event.type
+        }
+      });
+    }
+  };
+
+  checkpointEventBus.on(CHECKPOINT_EVENT, safeListener);
+  return () => {
+    checkpointEventBus.off(CHECKPOINT_EVENT, safeListener);
+  };
+}
+
+/**
+ * A pending wait for a checkpoint event
+ */
+export interface CheckpointEventWait {
+  // Resolves with the matching event, or null on timeout or cancellation
+  event: Promise<CheckpointEvent | null>;
+  // Removes the listener and timer of a wait that is no longer needed
+  cancel: () => void;
+}
+
+/**
+ * Waits for the next event about a checkpoint that matches a predicate
+ *
+ * The wait holds a listener and a timer until it ends, so callers that stop waiting
+ * early must cancel it.
+ *
+ * @param checkpointId The checkpoint ID
+ * @param predicate Decides which events end the wait
+ * @param timeoutMs Timeout in milliseconds
+ * @returns The wait, whose event is null if the timeout elapsed first
+ */
+export function waitForCheckpointEvent(
+  checkpointId: string,
+  predicate: (event: CheckpointEvent) => boolean,
+  timeoutMs: number
+): CheckpointEventWait {
+  let settle: (event: CheckpointEvent | null) => void = () => {};
+
+  const nextEvent = new Promise<CheckpointEvent | null>(resolve => {
+    const timer = setTimeout(() => settle(null), timeoutMs);
+
+    const unsubscribe = subscribeToCheckpointEvents(event => {
+      if (event.checkpointId === checkpointId && predicate(event)) {
+        settle(event);
+      }
+    });
+
+    settle = result => {
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(result);
+    };
+  });
+
+  return {
+    event: nextEvent,
+    cancel: () => settle(null)
+  };
+}
@@ -4,6 +4,8 @@ import { SentientEscalationService } from './sentientEscalationService';
 import { SentientDecisionTraceService } from './sentientDecisionTraceService';
 import { SentientLoopConfigService } from './sentientLoopConfigService';
 import { deliverEventToWebhooks } from './webhookService';
+import { SentientPolicyService } from './sentientPolicyService';
+import { PolicyDecision } from './sentientPolicyEngine';
 import { SentientLoopEventType } from '../../../../../api/types/sentientLoopApi';
 import crypto from 'crypto';
 
@@ -71,7 +73,8 @@ export class SentientLoopService {
   static async resolveCheckpoint(params: {
     checkpointId: string;
     userId: string;
-    status: 'APPROVED' | 'REJECTED' | 'MODIFIED' | 'ESCALATED';
+    resolvedBy?: string;
+    status: 'APPROVED' | 'REJECTED' | 'MODIFIED' | 'ESCALATED' | 'EXPIRED';
     resolution: string;
     modifiedPayload?: any;
     reasoning?: string;
@@ -325,16 +328,20 @@ export class SentientLoopService {
     escalationRules?: any;
     memoryRetention?: any;
     auditFrequency?: any;
+    policy?: any;
     isActive?: boolean;
   }) {
     return SentientLoopConfigService.updateConfig(params);
   }
 
   /**
-   * Determines if a human checkpoint is needed based on the configuration
+   * Determines if a human checkpoint is needed based on the configured policy
    *
-   * @param params Parameters to check against thresholds
-   * @returns Whether a checkpoint is needed and the recommended type
+   * The policy stored on the configuration is evaluated; configurations without one use
+   * their checkpoint thresholds. Every evaluation is recorded with the rule that fired.
+   *
+   * @param params Parameters to evaluate the policy against
+   * @returns Whether a checkpoint is needed, the recommended type and the rule that fired
    */
   static async needsHumanCheckpoint(params: {
     userId: string;
@@ -343,49 +350,16 @@ export class SentientLoopService {
     actionType: string;
     confidence: number;
     impact: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+    payload?: any;
     context: any;
-  }) {
+  }): Promise<PolicyDecision & { evaluationId?: string }> {
     const config = await SentientLoopConfigService.getConfig(params.userId, params.moduleId);
 
     if (!config || !config.isActive) {
-      return { needed: false };
-    }
-
-    const thresholds = config.checkpointThresholds as any;
-
-    // Check if the action requires a checkpoint based on confidence and impact
-    if (params.confidence < thresholds.confidenceThreshold) {
-      return {
-        needed: true,
-        type: 'CONFIRMATION_REQUIRED',
-        reason: 'Low confidence score'
-      };
-    }
-
-    if (params.impact === 'HIGH' || params.impact === 'CRITICAL') {
-      if (thresholds.alwaysCheckHighImpact) {
-        return {
-          needed: true,
-          type: 'DECISION_REQUIRED',
-          reason: 'High impact action'
-        };
-      }
-    }
-
-    // Check action-specific rules
-    const actionRules = thresholds.actionRules || {};
-    if (actionRules[params.actionType]) {
-      const rule = actionRules[params.actionType];
-      if (rule.alwaysCheck) {
-        return {
-          needed: true,
-          type: rule.checkpointType || 'CONFIRMATION_REQUIRED',
-          reason: rule.reason || 'Action-specific rule'
-        };
-      }
+      return { needed: false, reason: 'Sentient Loop is inactive', ruleId: null, explanation: [] };
     }
 
-    return { needed: false };
+    return SentientPolicyService.evaluateAction(params, config);
   }
 
   /**
@@ -416,6 +390,7 @@ export class SentientLoopService {
       actionType: params.actionType,
       confidence: params.confidence,
       impact: params.impact,
+      payload: params.payload,
       context: params.context
     });
 
@@ -449,7 +424,10 @@ export class SentientLoopService {
       return {
         status: 'APPROVED',
         message: 'Action automatically approved (no checkpoint needed)',
-        payload: params.payload
+        payload: params.payload,
+        reason: checkpointCheck.reason,
+        ruleId: checkpointCheck.ruleId,
+        explanation: checkpointCheck.explanation
       };
     }
 
@@ -468,10 +446,16 @@ export class SentientLoopService {
         confidence: params.confidence,
         impact: params.impact,
         actionType: params.actionType,
-        reason: checkpointCheck.reason
+        reason: checkpointCheck.reason,
+        policyRuleId: checkpointCheck.ruleId,
+        policyEvaluationId: checkpointCheck.evaluationId
       }
     });
 
+    if (checkpointCheck.evaluationId) {
+      await SentientPolicyService.linkCheckpoint(checkpointCheck.evaluationId, checkpoint.id);
+    }
+
     // Create a memory snapshot for context
     await this.createMemorySnapshot({
       checkpointId: checkpoint.id,
@@ -527,7 +511,9 @@ export class SentientLoopService {
       status: 'PENDING',
       message: 'Action requires human approval',
       checkpointId: checkpoint.id,
-      reason: checkpointCheck.reason
+      reason: checkpointCheck.reason,
+      ruleId: checkpointCheck.ruleId,
+      explanation: checkpointCheck.explanation
     };
   }
 }
@@ -537,7 +523,8 @@ export {
   SentientMemoryService,
   SentientEscalationService,
   SentientDecisionTraceService,
-  SentientLoopConfigService
+  SentientLoopConfigService,
+  SentientPolicyService
 };
 
 export { LoopPerformanceService } from './loopPerformanceService';
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { prisma } from 'wasp/server';
 import { LoggingService } from '../logging';
+import { publishCheckpointEvent } from './checkpointEvents';
 
 /**
  * Service for managing checkpoints in the Sentient Loop™ system
@@ -60,6 +61,8 @@ export class SentientCheckpointService {
         }
       });
 
+      await publishCheckpointEvent('checkpoint.created', checkpoint);
+
       return checkpoint;
     } catch (error) {
       LoggingService.error({
@@ -87,7 +90,8 @@ export class SentientCheckpointService {
   static async resolveCheckpoint(params: {
     checkpointId: string;
     userId: string;
-    status: 'APPROVED' | 'REJECTED' | 'MODIFIED' | 'ESCALATED';
+    resolvedBy?: string;
+    status: 'APPROVED' | 'REJECTED' | 'MODIFIED' | 'ESCALATED' | 'EXPIRED';
     resolution: string;
     modifiedPayload?: any;
   }) {
@@ -112,12 +116,17 @@ export class SentientCheckpointService {
         data: {
           status: params.status as any,
           resolvedAt: new Date(),
-          resolvedBy: params.userId,
+          resolvedBy: params.resolvedBy ?? params.userId,
           resolution: params.resolution,
           modifiedPayload: params.modifiedPayload
         }
       });
 
+      await publishCheckpointEvent(
+        params.status === 'ESCALATED' ? 'checkpoint.escalated' : 'checkpoint.resolved',
+        checkpoint
+      );
+
       return checkpoint;
     } catch (error) {
       LoggingService.error({
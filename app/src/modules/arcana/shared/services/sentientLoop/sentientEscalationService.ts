@@ -1,5 +1,6 @@
 import { prisma } from 'wasp/server';
 import { LoggingService } from '../logging';
+import { publishCheckpointEvent } from './checkpointEvents';
 
 /**
  * Service for managing escalations in the Sentient Loop™ system
@@ -42,7 +43,7 @@ export class SentientEscalationService {
       });
 
       // Update the checkpoint status to ESCALATED
-      await prisma.sentientCheckpoint.update({
+      const checkpoint = await prisma.sentientCheckpoint.update({
         where: {
           id: params.checkpointId
         },
@@ -51,6 +52,8 @@ export class SentientEscalationService {
         }
       });
 
+      await publishCheckpointEvent('checkpoint.escalated', checkpoint);
+
       return escalation;
     } catch (error) {
       LoggingService.error({
@@ -109,7 +112,7 @@ export class SentientEscalationService {
       });
 
       // Update the checkpoint status to match the escalation resolution
-      await prisma.sentientCheckpoint.update({
+      const checkpoint = await prisma.sentientCheckpoint.update({
         where: {
           id: escalation.checkpointId
         },
@@ -121,6 +124,8 @@ export class SentientEscalationService {
         }
       });
 
+      await publishCheckpointEvent('checkpoint.resolved', checkpoint);
+
       return escalation;
     } catch (error) {
       LoggingService.error({
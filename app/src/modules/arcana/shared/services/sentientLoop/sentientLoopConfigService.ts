@@ -1,10 +1,11 @@
 import { prisma } from 'wasp/server';
+import { Prisma } from '@prisma/client';
 import { LoggingService } from '../logging';
 
 /**
  * Default configuration for the Sentient Loop™ system
  */
-const DEFAULT_CONFIG = {
+export const DEFAULT_CONFIG = {
   checkpointThresholds: {
     confidenceThreshold: 0.7,
     alwaysCheckHighImpact: true,
@@ -30,7 +31,20 @@ const DEFAULT_CONFIG = {
     autoEscalateThreshold: 'HIGH',
     escalationTimeout: 24, // hours
     notifyUsers: ['admin'],
-    criticalEscalationPath: ['team-lead', 'manager', 'executive']
+    criticalEscalationPath: ['team-lead', 'manager', 'executive'],
+    // Minutes an open checkpoint may wait, per checkpoint type, and what happens then
+    slas: {
+      default: { expireAfterMinutes: 24 * 60, onExpiry: 'EXPIRE' },
+      CONFIRMATION_REQUIRED: { expireAfterMinutes: 4 * 60, onExpiry: 'APPROVE_LOW_IMPACT' },
+      AUDIT_REQUIRED: { expireAfterMinutes: 7 * 24 * 60, onExpiry: 'EXPIRE' }
+    },
+    // Steps after the assignee, in minutes since the checkpoint was created
+    escalationChain: [
+      { role: 'TEAM_LEAD', afterMinutes: 60, level: 'HIGH' },
+      { role: 'ORG_ADMIN', afterMinutes: 4 * 60, level: 'CRITICAL' }
+    ],
+    teamLeadRoles: ['Team Lead', 'Manager'],
+    orgAdminRoles: ['Admin']
   },
   memoryRetention: {
     shortTerm: 7, // days
@@ -130,6 +144,7 @@ export class SentientLoopConfigService {
     escalationRules?: any;
     memoryRetention?: any;
     auditFrequency?: any;
+    policy?: any;
     isActive?: boolean;
   }) {
     try {
@@ -175,6 +190,10 @@ export class SentientLoopConfigService {
         updateData.auditFrequency = params.auditFrequency;
       }
 
+      if (params.policy !== undefined) {
+        updateData.policy = params.policy === null ? Prisma.DbNull : params.policy;
+      }
+
       if (params.isActive !== undefined) {
         updateData.isActive = params.isActive;
       }
@@ -190,6 +209,7 @@ export class SentientLoopConfigService {
           escalationRules: params.escalationRules || DEFAULT_CONFIG.escalationRules,
           memoryRetention: params.memoryRetention || DEFAULT_CONFIG.memoryRetention,
           auditFrequency: params.auditFrequency || DEFAULT_CONFIG.auditFrequency,
+          policy: params.policy ?? undefined,
           isActive: params.isActive !== undefined ? params.isActive : true
         }
       });
@@ -4,6 +4,7 @@ import { SentientMemoryService } from './sentientMemoryService';
 import { SentientEscalationService } from './sentientEscalationService';
 import { SentientDecisionTraceService } from './sentientDecisionTraceService';
 import { SentientLoopConfigService } from './sentientLoopConfigService';
+import { waitForCheckpointEvent } from './checkpointEvents';
 import { prisma } from 'wasp/server';
 
 /**
@@ -235,8 +236,10 @@ export class SentientLoopCore {
   /**
    * Waits for a checkpoint to be resolved
    * 
-   * This method polls the database for changes to the checkpoint status
-   * and resolves when the checkpoint is no longer pending.
+   * This method listens on the checkpoint event bus and resolves as soon as the
+   * checkpoint leaves the pending state. The database is re-read after every event
+   * and on a slow safety interval, so changes made outside the checkpoint services
+   * are still picked up.
    * 
    * @param checkpointId The checkpoint ID
    * @param timeoutMs Timeout in milliseconds (default: 5 minutes)
@@ -244,29 +247,42 @@ export class SentientLoopCore {
    */
   static async waitForCheckpointResolution(checkpointId: string, timeoutMs: number = 5 * 60 * 1000): Promise<any> {
     const startTime = Date.now();
-    const pollIntervalMs = 2000; // Poll every 2 seconds
+    const safetyPollIntervalMs = 30000; // Re-check the database every 30 seconds
 
     while (Date.now() - startTime < timeoutMs) {
-      // Get the current checkpoint status
-      const checkpoint = await prisma.sentientCheckpoint.findUnique({
-        where: { id: checkpointId },
-        include: {
-          decisionTraces: true
+      // Subscribe before reading so a resolution between the read and the wait is not missed
+      const remainingMs = timeoutMs - (Date.now() - startTime);
+      const nextEvent = waitForCheckpointEvent(
+        checkpointId,
+        event => event.status !== 'PENDING',
+        Math.min(safetyPollIntervalMs, remainingMs)
+      );
+
+      try {
+        // Get the current checkpoint status
+        const checkpoint = await prisma.sentientCheckpoint.findUnique({
+          where: { id: checkpointId },
+          include: {
+            decisionTraces: true
+          }
+        });
+
+        // If the checkpoint doesn't exist, throw an error
+        if (!checkpoint) {
+          throw new Error(`Checkpoint ${checkpointId} not found`);
         }
-      });
 
-      // If the checkpoint doesn't exist, throw an error
-      if (!checkpoint) {
-        throw new Error(`Checkpoint ${checkpointId} not found`);
-      }
+        // If the checkpoint is no longer pending, return it
+        if (checkpoint.status !== 'PENDING') {
+          return checkpoint;
+        }
 
-      // If the checkpoint is no longer pending, return it
-      if (checkpoint.status !== 'PENDING') {
-        return checkpoint;
+        // Wait for a status change event or the safety interval
+        await nextEvent.event;
+      } finally {
+        // Stop listening when the checkpoint was already resolved or could not be read
+        nextEvent.cancel();
       }
-
-      // Wait for the poll interval
-      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
     }
 
     // If we reach here, the timeout was exceeded
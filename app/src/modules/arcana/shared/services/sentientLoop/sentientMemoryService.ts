@@ -1,8 +1,22 @@
 import { prisma } from 'wasp/server';
 import { LoggingService } from '../logging';
+import { MemoryRecord, MemoryService } from '../../../../memory/services/memoryService';
+
+/**
+ * Snapshots are stored by the MemoryService; `type` is the snapshot's content type
+ */
+function toSnapshot(record: MemoryRecord) {
+  return {
+    ...record,
+    type: record.contentType
+  };
+}
 
 /**
  * Service for managing memory snapshots in the Sentient Loop™ system
+ *
+ * Snapshots are kept by the MemoryService with source 'sentient-loop' and are linked
+ * to their checkpoint.
  */
 export class SentientMemoryService {
   /**
@@ -32,18 +46,16 @@ export class SentientMemoryService {
       });
 
       // Create the memory snapshot
-      const memorySnapshot = await prisma.sentientMemorySnapshot.create({
-        data: {
-          checkpointId: params.checkpointId,
-          type: params.type as any,
-          content: params.content,
-          metadata: params.metadata || {},
-          importance: params.importance || 1.0,
-          expiresAt: params.expiresAt
-        }
+      const memorySnapshot = await MemoryService.snapshot({
+        checkpointId: params.checkpointId,
+        type: params.type,
+        content: params.content,
+        metadata: params.metadata || {},
+        importance: params.importance || 1.0,
+        expiresAt: params.expiresAt
       });
 
-      return memorySnapshot;
+      return toSnapshot(memorySnapshot);
     } catch (error) {
       LoggingService.error({
         message: 'Error creating Sentient Loop memory snapshot',
@@ -67,21 +79,15 @@ export class SentientMemoryService {
    */
   static async getMemorySnapshotsByCheckpoint(checkpointId: string) {
     try {
-      const memorySnapshots = await prisma.sentientMemorySnapshot.findMany({
-        where: {
-          checkpointId
-        },
-        orderBy: [
-          {
-            importance: 'desc'
-          },
-          {
-            createdAt: 'desc'
-          }
-        ]
+      const memorySnapshots = await MemoryService.recall({
+        checkpointId,
+        source: 'sentient-loop',
+        includeExpired: true,
+        limit: 1000,
+        order: 'importance'
       });
 
-      return memorySnapshots;
+      return memorySnapshots.map(toSnapshot);
     } catch (error) {
       LoggingService.error({
         message: 'Error getting Sentient Loop memory snapshots',
@@ -109,9 +115,10 @@ export class SentientMemoryService {
     try {
       const { type, limit = 10 } = params;
 
-      const memorySnapshots = await prisma.sentientMemorySnapshot.findMany({
+      const memorySnapshots = await prisma.interactionMemory.findMany({
         where: {
-          type: type as any
+          source: 'sentient-loop',
+          type
         },
         orderBy: [
           {
@@ -156,8 +163,9 @@ export class SentientMemoryService {
    */
   static async cleanupExpiredMemory() {
     try {
-      const result = await prisma.sentientMemorySnapshot.deleteMany({
+      const result = await prisma.interactionMemory.deleteMany({
         where: {
+          source: 'sentient-loop',
           expiresAt: {
             lt: new Date()
           }
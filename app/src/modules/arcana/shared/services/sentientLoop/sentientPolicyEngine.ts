@@ -0,0 +1,367 @@
+import { z } from 'zod';
+
+/**
+ * Policy engine for the Sentient Loop™ system
+ *
+ * A policy is an ordered list of rules. Each rule has a condition over the facts of an
+ * agent action (agent trust, action type, payload fields, time of day, cumulative spend,
+ * module) and an effect. Rules are tried by descending priority; on equal priority a rule
+ * that requires a checkpoint is tried before one that allows the action, then declaration
+ * order applies. The first matching rule decides, and the policy default applies when no
+ * rule matches.
+ *
+ * This file is pure: facts are gathered by the policy service.
+ */
+
+export const IMPACT_LEVELS = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as const;
+
+export const CHECKPOINT_TYPES = [
+  'DECISION_REQUIRED',
+  'CONFIRMATION_REQUIRED',
+  'INFORMATION_REQUIRED',
+  'ESCALATION_REQUIRED',
+  'VALIDATION_REQUIRED',
+  'AUDIT_REQUIRED'
+] as const;
+
+export const POLICY_OPERATORS = [
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'notIn',
+  'contains',
+  'startsWith',
+  'exists',
+  'between'
+] as const;
+
+export type PolicyOperator = typeof POLICY_OPERATORS[number];
+export type PolicyEffect = 'REQUIRE_CHECKPOINT' | 'ALLOW';
+export type CheckpointType = typeof CHECKPOINT_TYPES[number];
+
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | { fact: string; op: PolicyOperator; value?: any };
+
+const policyConditionSchema: z.ZodType<PolicyCondition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(policyConditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(policyConditionSchema).min(1) }).strict(),
+    z.object({ not: policyConditionSchema }).strict(),
+    z.object({
+      fact: z.string().min(1),
+      op: z.enum(POLICY_OPERATORS),
+      value: z.any().optional()
+    }).strict()
+  ])
+);
+
+export const policyRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  priority: z.number().int().default(0),
+  enabled: z.boolean().default(true),
+  when: policyConditionSchema,
+  effect: z.enum(['REQUIRE_CHECKPOINT', 'ALLOW']),
+  checkpointType: z.enum(CHECKPOINT_TYPES).optional(),
+  reason: z.string().optional()
+});
+
+export const sentientLoopPolicySchema = z.object({
+  version: z.literal(1).default(1),
+  timezone: z.string().default('UTC').refine(isValidTimezone, 'Unknown timezone'),
+  spendField: z.string().default('amount'),
+  spendWindowHours: z.number().positive().default(24),
+  defaultEffect: z.enum(['REQUIRE_CHECKPOINT', 'ALLOW']).default('ALLOW'),
+  defaultCheckpointType: z.enum(CHECKPOINT_TYPES).default('CONFIRMATION_REQUIRED'),
+  rules: z.array(policyRuleSchema)
+}).superRefine((policy, ctx) => {
+  const seen = new Set<string>();
+  policy.rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['rules', index, 'id'],
+        message: `Duplicate rule id "${rule.id}"`
+      });
+    }
+    seen.add(rule.id);
+  });
+});
+
+export type PolicyRule = z.infer<typeof policyRuleSchema>;
+export type SentientLoopPolicy = z.infer<typeof sentientLoopPolicySchema>;
+
+/**
+ * Facts a policy is evaluated against
+ */
+export interface PolicyFacts {
+  module: string;
+  agent?: {
+    id: string;
+    trustLevel: number;
+    trustScore: number;
+  };
+  action: {
+    type: string;
+    confidence: number;
+    impact: typeof IMPACT_LEVELS[number];
+  };
+  payload: any;
+  context: any;
+  time: {
+    hour: number;
+    dayOfWeek: number;
+  };
+  spend: {
+    amount: number;
+    cumulative: number;
+  };
+}
+
+/**
+ * Evaluation result of one rule
+ */
+export interface RuleEvaluation {
+  ruleId: string;
+  name?: string;
+  priority: number;
+  effect: PolicyEffect;
+  matched: boolean;
+  details: string[];
+}
+
+/**
+ * Decision of a policy for one action
+ */
+export interface PolicyDecision {
+  needed: boolean;
+  type?: CheckpointType;
+  reason: string;
+  ruleId: string | null;
+  explanation: RuleEvaluation[];
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads a dot-separated fact path such as "payload.order.total"
+ */
+export function getFactValue(facts: PolicyFacts, path: string): any {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), facts);
+}
+
+// Impact levels compare by severity; everything else compares as numbers
+function toComparable(value: any): number {
+  const impactRank = IMPACT_LEVELS.indexOf(value);
+  return impactRank >= 0 ? impactRank : Number(value);
+}
+
+function compare(actual: any, expected: any): number | null {
+  const a = toComparable(actual);
+  const b = toComparable(expected);
+  return Number.isNaN(a) || Number.isNaN(b) ? null : a - b;
+}
+
+function applyOperator(op: PolicyOperator, actual: any, expected: any): boolean {
+  switch (op) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const diff = compare(actual, expected);
+      if (diff === null) return false;
+      if (op === 'gt') return diff > 0;
+      if (op === 'gte') return diff >= 0;
+      if (op === 'lt') return diff < 0;
+      return diff <= 0;
+    }
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'notIn':
+      return Array.isArray(expected) && !expected.includes(actual);
+    case 'contains':
+      if (Array.isArray(actual)) return actual.includes(expected);
+      return typeof actual === 'string' && typeof expected === 'string' && actual.includes(expected);
+    case 'startsWith':
+      return typeof actual === 'string' && typeof expected === 'string' && actual.startsWith(expected);
+    case 'exists':
+      return (actual !== undefined && actual !== null) === (expected !== false);
+    case 'between': {
+      if (!Array.isArray(expected) || expected.length !== 2) return false;
+      const [min, max] = expected;
+      const fromMin = compare(actual, min);
+      const toMax = compare(actual, max);
+      if (fromMin === null || toMax === null) return false;
+      // A range whose start is after its end wraps around, e.g. hours [22, 6]
+      return compare(min, max)! <= 0
+        ? fromMin >= 0 && toMax <= 0
+        : fromMin >= 0 || toMax <= 0;
+    }
+    default:
+      return false;
+  }
+}
+
+function formatValue(value: any): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+/**
+ * Evaluates a condition and records a line per leaf comparison
+ */
+export function evaluateCondition(condition: PolicyCondition, facts: PolicyFacts, details: string[] = []): boolean {
+  if ('all' in condition) {
+    // Every leaf is evaluated so the explanation is complete
+    return condition.all.map(child => evaluateCondition(child, facts, details)).every(Boolean);
+  }
+
+  if ('any' in condition) {
+    return condition.any.map(child => evaluateCondition(child, facts, details)).some(Boolean);
+  }
+
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, facts, details);
+  }
+
+  const actual = getFactValue(facts, condition.fact);
+  const matched = applyOperator(condition.op, actual, condition.value);
+  details.push(
+    `${condition.fact} ${condition.op} ${formatValue(condition.value)} (actual ${formatValue(actual)}): ${matched ? 'true' : 'false'}`
+  );
+  return matched;
+}
+
+/**
+ * Orders rules by precedence
+ */
+export function sortRulesByPrecedence(rules: PolicyRule[]): PolicyRule[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) =>
+      b.rule.priority - a.rule.priority ||
+      (a.rule.effect === b.rule.effect ? 0 : a.rule.effect === 'REQUIRE_CHECKPOINT' ? -1 : 1) ||
+      a.index - b.index
+    )
+    .map(({ rule }) => rule);
+}
+
+/**
+ * Evaluates a policy against the facts of an action
+ *
+ * @param policy The policy to evaluate
+ * @param facts The facts of the action
+ * @returns The decision, with the rule that fired and an explanation of every rule tried
+ */
+export function evaluatePolicy(policy: SentientLoopPolicy, facts: PolicyFacts): PolicyDecision {
+  const explanation: RuleEvaluation[] = [];
+
+  for (const rule of sortRulesByPrecedence(policy.rules)) {
+    if (!rule.enabled) {
+      continue;
+    }
+
+    const details: string[] = [];
+    const matched = evaluateCondition(rule.when, facts, details);
+    explanation.push({
+      ruleId: rule.id,
+      name: rule.name,
+      priority: rule.priority,
+      effect: rule.effect,
+      matched,
+      details
+    });
+
+    if (matched) {
+      const needed = rule.effect === 'REQUIRE_CHECKPOINT';
+      return {
+        needed,
+        type: needed ? rule.checkpointType || policy.defaultCheckpointType : undefined,
+        reason: rule.reason || `Rule "${rule.name || rule.id}" matched`,
+        ruleId: rule.id,
+        explanation
+      };
+    }
+  }
+
+  const needed = policy.defaultEffect === 'REQUIRE_CHECKPOINT';
+  return {
+    needed,
+    type: needed ? policy.defaultCheckpointType : undefined,
+    reason: needed ? 'No rule matched; policy requires a checkpoint by default' : 'No rule matched',
+    ruleId: null,
+    explanation
+  };
+}
+
+/**
+ * Converts the legacy checkpoint thresholds into an equivalent policy
+ *
+ * Configurations saved before the policy language keep their behavior: low confidence is
+ * checked first, then high impact, then the per-action rules.
+ *
+ * @param thresholds The checkpointThresholds of a SentientLoopConfig
+ * @returns The equivalent policy
+ */
+export function compileLegacyThresholds(thresholds: any): SentientLoopPolicy {
+  const rules: any[] = [];
+
+  if (typeof thresholds?.confidenceThreshold === 'number') {
+    rules.push({
+      id: 'legacy-low-confidence',
+      name: 'Low confidence',
+      priority: 30,
+      when: { fact: 'action.confidence', op: 'lt', value: thresholds.confidenceThreshold },
+      effect: 'REQUIRE_CHECKPOINT',
+      checkpointType: 'CONFIRMATION_REQUIRED',
+      reason: 'Low confidence score'
+    });
+  }
+
+  if (thresholds?.alwaysCheckHighImpact) {
+    rules.push({
+      id: 'legacy-high-impact',
+      name: 'High impact',
+      priority: 20,
+      when: { fact: 'action.impact', op: 'in', value: ['HIGH', 'CRITICAL'] },
+      effect: 'REQUIRE_CHECKPOINT',
+      checkpointType: 'DECISION_REQUIRED',
+      reason: 'High impact action'
+    });
+  }
+
+  Object.entries(thresholds?.actionRules || {}).forEach(([actionType, rule]: [string, any]) => {
+    if (!rule?.alwaysCheck) {
+      return;
+    }
+    rules.push({
+      id: `legacy-action-${actionType}`,
+      name: `Action ${actionType}`,
+      priority: 10,
+      when: { fact: 'action.type', op: 'eq', value: actionType },
+      effect: 'REQUIRE_CHECKPOINT',
+      checkpointType: CHECKPOINT_TYPES.includes(rule.checkpointType) ? rule.checkpointType : 'CONFIRMATION_REQUIRED',
+      reason: rule.reason || 'Action-specific rule'
+    });
+  });
+
+  return sentientLoopPolicySchema.parse({ rules });
+}
@@ -0,0 +1,279 @@
+import { prisma } from 'wasp/server';
+import { LoggingService } from '../logging';
+import {
+  PolicyDecision,
+  PolicyFacts,
+  SentientLoopPolicy,
+  compileLegacyThresholds,
+  evaluatePolicy,
+  getFactValue,
+  sentientLoopPolicySchema
+} from './sentientPolicyEngine';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Service for evaluating Sentient Loop™ policies against agent actions
+ */
+export class SentientPolicyService {
+  /**
+   * Gets the policy of a configuration
+   *
+   * Configurations without a stored policy use their legacy checkpoint thresholds.
+   *
+   * @param config The Sentient Loop configuration
+   * @returns The effective policy
+   */
+  static resolvePolicy(config: { policy?: any; checkpointThresholds: any }): SentientLoopPolicy {
+    if (config.policy) {
+      const parsed = sentientLoopPolicySchema.safeParse(config.policy);
+      if (parsed.success) {
+        return parsed.data;
+      }
+
+      LoggingService.warn({
+        message: 'Stored Sentient Loop policy is invalid; falling back to checkpoint thresholds',
+        module: 'arcana',
+        category: 'SENTIENT_LOOP',
+        metadata: {
+          issues: parsed.error.issues
+        }
+      });
+    }
+
+    return compileLegacyThresholds(config.checkpointThresholds);
+  }
+
+  /**
+   * Gets the hour and day of week of a date in a timezone
+   */
+  static getTimeFacts(date: Date, timezone: string): PolicyFacts['time'] {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour: 'numeric',
+      hourCycle: 'h23',
+      weekday: 'short'
+    }).formatToParts(date);
+
+    return {
+      hour: Number(parts.find(part => part.type === 'hour')?.value ?? 0),
+      dayOfWeek: WEEKDAYS.indexOf(parts.find(part => part.type === 'weekday')?.value ?? 'Sun')
+    };
+  }
+
+  /**
+   * Reads the spend of an action from its payload
+   */
+  static getActionSpend(payload: any, spendField: string): number {
+    const value = Number(getFactValue({ payload } as PolicyFacts, `payload.${spendField}`));
+    return Number.isFinite(value) ? value : 0;
+  }
+
+  /**
+   * Gathers the facts of an agent action
+   *
+   * @param params The action parameters
+   * @param policy The policy the facts are gathered for
+   * @returns The facts
+   */
+  static async buildFacts(params: {
+    userId: string;
+    moduleId: string;
+    agentId?: string;
+    actionType: string;
+    confidence: number;
+    impact: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+    payload?: any;
+    context: any;
+  }, policy: SentientLoopPolicy): Promise<PolicyFacts> {
+    const now = new Date();
+    const amount = this.getActionSpend(params.payload, policy.spendField);
+
+    const [trust, spendTotal] = await Promise.all([
+      params.agentId
+        ? prisma.agentTrustScore.findUnique({
+            where: { agentId: params.agentId },
+            select: { level: true, trustScore: true }
+          })
+        : Promise.resolve(null),
+      prisma.sentientPolicyEvaluation.aggregate({
+        where: {
+          userId: params.userId,
+          createdAt: { gte: new Date(now.getTime() - policy.spendWindowHours * 60 * 60 * 1000) }
+        },
+        _sum: { spend: true }
+      })
+    ]);
+
+    return {
+      module: params.moduleId,
+      agent: params.agentId
+        ? {
+            id: params.agentId,
+            trustLevel: trust?.level ?? 0,
+            trustScore: trust?.trustScore ?? 0
+          }
+        : undefined,
+      action: {
+        type: params.actionType,
+        confidence: params.confidence,
+        impact: params.impact
+      },
+      payload: params.payload ?? {},
+      context: params.context ?? {},
+      time: this.getTimeFacts(now, policy.timezone),
+      spend: {
+        amount,
+        cumulative: (spendTotal._sum.spend ?? 0) + amount
+      }
+    };
+  }
+
+  /**
+   * Evaluates the policy for an action and records the decision
+   *
+   * The recorded evaluations hold the spend of every action, which the cumulative spend
+   * fact is computed from.
+   *
+   * @param params The action parameters
+   * @param config The Sentient Loop configuration
+   * @returns The decision and the ID of the recorded evaluation
+   */
+  static async evaluateAction(params: {
+    userId: string;
+    moduleId: string;
+    agentId?: string;
+    actionType: string;
+    confidence: number;
+    impact: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+    payload?: any;
+    context: any;
+  }, config: { policy?: any; checkpointThresholds: any }): Promise<PolicyDecision & { evaluationId: string }> {
+    const policy = this.resolvePolicy(config);
+    const facts = await this.buildFacts(params, policy);
+    const decision = evaluatePolicy(policy, facts);
+
+    const evaluation = await prisma.sentientPolicyEvaluation.create({
+      data: {
+        userId: params.userId,
+        moduleId: params.moduleId,
+        agentId: params.agentId,
+        actionType: params.actionType,
+        needed: decision.needed,
+        checkpointType: decision.type,
+        ruleId: decision.ruleId,
+        reason: decision.reason,
+        spend: facts.spend.amount,
+        facts: facts as any,
+        explanation: decision.explanation as any
+      }
+    });
+
+    return { ...decision, evaluationId: evaluation.id };
+  }
+
+  /**
+   * Links a recorded evaluation to the checkpoint it created
+   */
+  static async linkCheckpoint(evaluationId: string, checkpointId: string) {
+    await prisma.sentientPolicyEvaluation.update({
+      where: { id: evaluationId },
+      data: { checkpointId }
+    });
+  }
+
+  /**
+   * Replays recent decisions against a draft policy
+   *
+   * The last recorded evaluations of the user cover every agent action, including those
+   * the current policy let through, so the draft can be shown to create more checkpoints
+   * as well as fewer. Each evaluation is re-evaluated with the facts recorded for it.
+   *
+   * @param params Simulation parameters
+   * @returns How many of the replayed actions the draft would have checkpointed
+   */
+  static async simulatePolicy(params: {
+    userId: string;
+    moduleId?: string;
+    policy: SentientLoopPolicy;
+    limit?: number;
+  }) {
+    const { userId, moduleId, policy, limit = 100 } = params;
+
+    const evaluations = await prisma.sentientPolicyEvaluation.findMany({
+      where: {
+        userId,
+        ...(moduleId && { moduleId })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+
+    const checkpointIds = evaluations
+      .map(evaluation => evaluation.checkpointId)
+      .filter((id): id is string => !!id);
+
+    const checkpoints = await prisma.sentientCheckpoint.findMany({
+      where: { id: { in: checkpointIds } },
+      select: { id: true, status: true }
+    });
+
+    const checkpointsById = new Map(checkpoints.map(checkpoint => [checkpoint.id, checkpoint]));
+
+    const results = evaluations.map(evaluation => {
+      const recorded = evaluation.facts as unknown as PolicyFacts;
+      const checkpoint = evaluation.checkpointId ? checkpointsById.get(evaluation.checkpointId) : undefined;
+      const amount = this.getActionSpend(recorded.payload, policy.spendField);
+
+      const facts: PolicyFacts = {
+        ...recorded,
+        // The draft may use another timezone or spend field than the recorded policy
+        time: this.getTimeFacts(evaluation.createdAt, policy.timezone),
+        spend: {
+          amount,
+          cumulative: recorded.spend.cumulative - recorded.spend.amount + amount
+        }
+      };
+
+      const decision = evaluatePolicy(policy, facts);
+
+      return {
+        evaluationId: evaluation.id,
+        checkpointId: evaluation.checkpointId,
+        createdAt: evaluation.createdAt,
+        actionType: evaluation.actionType,
+        createdCheckpoint: evaluation.needed,
+        humanDecision: checkpoint?.status ?? null,
+        wouldCreateCheckpoint: decision.needed,
+        checkpointType: decision.type,
+        ruleId: decision.ruleId,
+        reason: decision.reason
+      };
+    });
+
+    const byRule: Record<string, number> = {};
+    results.forEach(result => {
+      const key = result.ruleId ?? 'default';
+      byRule[key] = (byRule[key] || 0) + 1;
+    });
+
+    const wouldCreate = results.filter(result => result.wouldCreateCheckpoint).length;
+
+    return {
+      actionsReplayed: results.length,
+      checkpointsBefore: results.filter(result => result.createdCheckpoint).length,
+      checkpointsCreated: wouldCreate,
+      autoApproved: results.length - wouldCreate,
+      // Actions the current policy let through that the draft would checkpoint
+      newlyCheckpointed: results.filter(
+        result => result.wouldCreateCheckpoint && !result.createdCheckpoint
+      ).length,
+      // Actions a human rejected that the draft would have let through
+      autoApprovedButRejected: results.filter(
+        result => !result.wouldCreateCheckpoint && result.humanDecision === 'REJECTED'
+      ).length,
+      byRule,
+      results
+    };
+  }
+}
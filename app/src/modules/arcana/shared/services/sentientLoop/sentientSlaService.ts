@@ -0,0 +1,384 @@
+import { prisma } from 'wasp/server';
+import { z } from 'zod';
+import { LoggingService } from '../logging';
+import { SentientLoopService } from './index';
+import { DEFAULT_CONFIG, SentientLoopConfigService } from './sentientLoopConfigService';
+import { sendNotification } from '../../../../../shared/services/notificationService';
+
+/**
+ * Service for checkpoint SLAs in the Sentient Loop™ system
+ *
+ * Every checkpoint type has an SLA in `SentientLoopConfig.escalationRules.slas`. While a
+ * checkpoint is open, it walks the escalation chain (assignee → team lead → org admin)
+ * as each step's deadline passes, and when the SLA expires the configured default
+ * action is applied. Each checkpoint records in `slaDueAt` when it is next due, so the
+ * sweep only reads checkpoints with something to do; SLA changes apply to a checkpoint
+ * from its next deadline.
+ */
+
+const SYSTEM_RESOLVER = 'system:sla';
+
+const OPEN_STATUSES: Array<'PENDING' | 'ESCALATED'> = ['PENDING', 'ESCALATED'];
+
+export const ESCALATION_ROLES = ['TEAM_LEAD', 'ORG_ADMIN'] as const;
+
+const escalationStepSchema = z.object({
+  role: z.enum(ESCALATION_ROLES),
+  // Minutes after the checkpoint was created
+  afterMinutes: z.number().positive(),
+  level: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']).optional(),
+  // Explicit recipients; otherwise resolved from the organization's roles
+  userIds: z.array(z.string()).optional()
+});
+
+const checkpointSlaSchema = z.object({
+  expireAfterMinutes: z.number().positive(),
+  // EXPIRE marks the checkpoint EXPIRED, REJECT auto-rejects it, APPROVE_LOW_IMPACT
+  // auto-approves LOW impact checkpoints and rejects the rest
+  onExpiry: z.enum(['EXPIRE', 'REJECT', 'APPROVE_LOW_IMPACT']).default('EXPIRE'),
+  escalationChain: z.array(escalationStepSchema).optional()
+});
+
+export const slaConfigSchema = z.object({
+  slas: z.record(checkpointSlaSchema).default({}),
+  escalationChain: z.array(escalationStepSchema).default([]),
+  teamLeadRoles: z.array(z.string()).default(['Team Lead', 'Manager']),
+  orgAdminRoles: z.array(z.string()).default(['Admin'])
+});
+
+export type EscalationStep = z.infer<typeof escalationStepSchema>;
+export type CheckpointSla = z.infer<typeof checkpointSlaSchema>;
+export type SlaConfig = z.infer<typeof slaConfigSchema>;
+
+type OpenCheckpoint = {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+  type: string;
+  status: string;
+  userId: string;
+  moduleId: string;
+  title: string;
+  expiresAt: Date | null;
+  metadata: any;
+  escalations: { metadata: any }[];
+};
+
+export type SlaAction =
+  | { checkpointId: string; action: 'ESCALATED'; step: number; role: string; recipients: string[] }
+  | { checkpointId: string; action: 'EXPIRED' | 'REJECTED' | 'APPROVED' };
+
+export class SentientSlaService {
+  /**
+   * Reads the SLA settings of a configuration's escalation rules
+   *
+   * @param escalationRules The escalationRules of a SentientLoopConfig
+   * @returns The SLA settings, with defaults for anything not configured
+   */
+  static getSlaConfig(escalationRules: any): SlaConfig {
+    const defaults = DEFAULT_CONFIG.escalationRules;
+    const parsed = slaConfigSchema.safeParse({
+      slas: { ...defaults.slas, ...(escalationRules?.slas || {}) },
+      escalationChain: escalationRules?.escalationChain ?? defaults.escalationChain,
+      teamLeadRoles: escalationRules?.teamLeadRoles ?? defaults.teamLeadRoles,
+      orgAdminRoles: escalationRules?.orgAdminRoles ?? defaults.orgAdminRoles
+    });
+
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    LoggingService.warn({
+      message: 'Invalid Sentient Loop SLA configuration; using defaults',
+      module: 'arcana',
+      category: 'SENTIENT_LOOP',
+      metadata: {
+        issues: parsed.error.issues
+      }
+    });
+    return slaConfigSchema.parse(defaults);
+  }
+
+  /**
+   * Gets the SLA of a checkpoint type
+   */
+  static getSla(config: SlaConfig, checkpointType: string): CheckpointSla {
+    return config.slas[checkpointType] || config.slas.default;
+  }
+
+  /**
+   * Gets the time a checkpoint expires at
+   *
+   * An explicit expiresAt on the checkpoint takes precedence over the SLA.
+   */
+  static getExpiry(checkpoint: Pick<OpenCheckpoint, 'createdAt' | 'expiresAt'>, sla: CheckpointSla): Date {
+    return checkpoint.expiresAt ?? new Date(checkpoint.createdAt.getTime() + sla.expireAfterMinutes * 60 * 1000);
+  }
+
+  /**
+   * Gets the time the SLA of a checkpoint is next due: the deadline of its next
+   * escalation step, or its expiry
+   */
+  static getNextDeadline(
+    checkpoint: Pick<OpenCheckpoint, 'createdAt' | 'expiresAt'>,
+    sla: CheckpointSla,
+    chain: EscalationStep[],
+    completedSteps: number
+  ): Date {
+    const expiry = this.getExpiry(checkpoint, sla);
+    const nextStep = chain[completedSteps];
+
+    if (!nextStep) {
+      return expiry;
+    }
+
+    const stepDeadline = new Date(checkpoint.createdAt.getTime() + nextStep.afterMinutes * 60 * 1000);
+    return stepDeadline < expiry ? stepDeadline : expiry;
+  }
+
+  /**
+   * Finds the users an escalation step goes to
+   */
+  static async resolveRecipients(step: EscalationStep, checkpoint: OpenCheckpoint, config: SlaConfig): Promise<string[]> {
+    if (step.userIds?.length) {
+      return step.userIds;
+    }
+
+    const owner = await prisma.user.findUnique({
+      where: { id: checkpoint.userId },
+      select: { organizationId: true }
+    });
+
+    if (!owner?.organizationId) {
+      return [];
+    }
+
+    const roleNames = step.role === 'TEAM_LEAD' ? config.teamLeadRoles : config.orgAdminRoles;
+    const users = await prisma.user.findMany({
+      where: {
+        organizationId: owner.organizationId,
+        isActive: true,
+        role: { name: { in: roleNames } }
+      },
+      select: { id: true }
+    });
+
+    return users.map(user => user.id);
+  }
+
+  /**
+   * Applies the SLA to one open checkpoint
+   *
+   * @param checkpoint The checkpoint, with its escalations
+   * @param config The SLA settings of the checkpoint's configuration
+   * @param now The current time
+   * @returns The action taken, or null if the checkpoint is within its SLA or was
+   * resolved or escalated since it was read
+   */
+  static async applySla(checkpoint: OpenCheckpoint, config: SlaConfig, now: Date = new Date()): Promise<SlaAction | null> {
+    const sla = this.getSla(config, checkpoint.type);
+
+    if (now >= this.getExpiry(checkpoint, sla)) {
+      return this.expireCheckpoint(checkpoint, sla);
+    }
+
+    // Escalations created by this service record the chain step they belong to
+    const chain = sla.escalationChain ?? config.escalationChain;
+    const completedSteps = checkpoint.escalations.reduce(
+      (max, escalation) => Math.max(max, Number(escalation.metadata?.slaStep) || 0),
+      0
+    );
+
+    // Steps whose deadlines passed together are collapsed into the latest one
+    let dueStep = completedSteps;
+    while (
+      dueStep < chain.length &&
+      now.getTime() >= checkpoint.createdAt.getTime() + chain[dueStep].afterMinutes * 60 * 1000
+    ) {
+      dueStep++;
+    }
+
+    if (dueStep === completedSteps) {
+      await prisma.sentientCheckpoint.updateMany({
+        where: { id: checkpoint.id, status: { in: OPEN_STATUSES } },
+        data: { slaDueAt: this.getNextDeadline(checkpoint, sla, chain, completedSteps) }
+      });
+      return null;
+    }
+
+    // Claim the step; a checkpoint changed since it was read is resolved, or was escalated
+    // by another sweep, and is left alone
+    const { count } = await prisma.sentientCheckpoint.updateMany({
+      where: { id: checkpoint.id, status: { in: OPEN_STATUSES }, updatedAt: checkpoint.updatedAt },
+      data: { status: 'ESCALATED', slaDueAt: this.getNextDeadline(checkpoint, sla, chain, dueStep) }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const step = chain[dueStep - 1];
+    const recipients = await this.resolveRecipients(step, checkpoint, config);
+    const reason = `Checkpoint not resolved within ${step.afterMinutes} minutes; escalated to ${step.role === 'TEAM_LEAD' ? 'team lead' : 'organization admin'}`;
+
+    await SentientLoopService.createEscalation({
+      checkpointId: checkpoint.id,
+      userId: checkpoint.userId,
+      level: step.level ?? (dueStep === chain.length ? 'CRITICAL' : 'HIGH'),
+      reason,
+      metadata: {
+        slaStep: dueStep,
+        role: step.role,
+        assigneeIds: recipients,
+        automatic: true
+      }
+    });
+
+    if (recipients.length > 0) {
+      await sendNotification({
+        title: `Escalated: ${checkpoint.title}`,
+        message: reason,
+        type: 'AI_AGENT',
+        severity: dueStep === chain.length ? 'CRITICAL' : 'WARNING',
+        recipients,
+        metadata: {
+          checkpointId: checkpoint.id,
+          moduleId: checkpoint.moduleId,
+          slaStep: dueStep
+        }
+      });
+    }
+
+    return { checkpointId: checkpoint.id, action: 'ESCALATED', step: dueStep, role: step.role, recipients };
+  }
+
+  /**
+   * Applies the expiry action of an SLA to a checkpoint
+   *
+   * @returns The action taken, or null if the checkpoint was resolved since it was read
+   */
+  static async expireCheckpoint(checkpoint: OpenCheckpoint, sla: CheckpointSla): Promise<SlaAction | null> {
+    const impact = checkpoint.metadata?.impact;
+    let status: 'EXPIRED' | 'REJECTED' | 'APPROVED' = 'EXPIRED';
+    let resolution = 'Checkpoint expired without a decision';
+
+    if (sla.onExpiry === 'REJECT') {
+      status = 'REJECTED';
+      resolution = 'Auto-rejected: checkpoint SLA expired';
+    } else if (sla.onExpiry === 'APPROVE_LOW_IMPACT') {
+      status = impact === 'LOW' ? 'APPROVED' : 'REJECTED';
+      resolution = impact === 'LOW'
+        ? 'Auto-approved: low impact checkpoint SLA expired'
+        : 'Auto-rejected: checkpoint SLA expired';
+    }
+
+    // Claim the checkpoint so that a decision made since it was read is not overwritten
+    const { count } = await prisma.sentientCheckpoint.updateMany({
+      where: { id: checkpoint.id, status: { in: OPEN_STATUSES } },
+      data: { status, resolvedAt: new Date(), resolvedBy: SYSTEM_RESOLVER, resolution }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    await SentientLoopService.resolveCheckpoint({
+      checkpointId: checkpoint.id,
+      userId: checkpoint.userId,
+      resolvedBy: SYSTEM_RESOLVER,
+      status,
+      resolution
+    });
+
+    // Open escalations end with the checkpoint
+    await prisma.sentientEscalation.updateMany({
+      where: {
+        checkpointId: checkpoint.id,
+        status: 'PENDING'
+      },
+      data: {
+        status,
+        resolvedAt: new Date(),
+        resolvedBy: SYSTEM_RESOLVER,
+        resolution
+      }
+    });
+
+    LoggingService.info({
+      message: `Applied SLA expiry to Sentient Loop checkpoint: ${status}`,
+      userId: checkpoint.userId,
+      module: 'arcana',
+      category: 'SENTIENT_LOOP',
+      metadata: {
+        checkpointId: checkpoint.id,
+        type: checkpoint.type,
+        onExpiry: sla.onExpiry,
+        impact
+      }
+    });
+
+    return { checkpointId: checkpoint.id, action: status };
+  }
+
+  /**
+   * Escalates or expires every open checkpoint that is past its SLA
+   *
+   * Checkpoints not swept before have no due time yet and are examined to get one.
+   *
+   * @param limit Maximum number of checkpoints to examine
+   * @returns The actions taken
+   */
+  static async processOverdueCheckpoints(limit: number = 500): Promise<SlaAction[]> {
+    const now = new Date();
+    const checkpoints = await prisma.sentientCheckpoint.findMany({
+      where: {
+        status: { in: OPEN_STATUSES },
+        OR: [
+          { slaDueAt: null },
+          { slaDueAt: { lte: now } }
+        ]
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+      include: {
+        escalations: {
+          select: { metadata: true }
+        }
+      }
+    });
+
+    const configs = new Map<string, SlaConfig>();
+    const actions: SlaAction[] = [];
+
+    for (const checkpoint of checkpoints) {
+      try {
+        const key = `${checkpoint.userId}:${checkpoint.moduleId}`;
+        let config = configs.get(key);
+        if (!config) {
+          const loopConfig = await SentientLoopConfigService.getConfig(checkpoint.userId, checkpoint.moduleId);
+          config = this.getSlaConfig(loopConfig.escalationRules);
+          configs.set(key, config);
+        }
+
+        const action = await this.applySla(checkpoint, config, now);
+        if (action) {
+          actions.push(action);
+        }
+      } catch (error) {
+        // One failing checkpoint must not hold up the rest
+        LoggingService.error({
+          message: 'Error applying SLA to Sentient Loop checkpoint',
+          userId: checkpoint.userId,
+          module: 'arcana',
+          category: 'SENTIENT_LOOP',
+          error,
+          metadata: {
+            checkpointId: checkpoint.id
+          }
+        });
+      }
+    }
+
+    return actions;
+  }
+}
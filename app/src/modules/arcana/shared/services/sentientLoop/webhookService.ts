@@ -1,20 +1,78 @@
 /**
  * Webhook service for the Sentient Loop™ system
  *
- * This service handles the delivery of events to registered webhooks.
+ * This service handles the delivery of events to registered webhooks. Events are only
+ * delivered to webhooks owned by the event's user or by members of the same organization.
+ * Every delivery is recorded as a WebhookDelivery row; failed deliveries are retried with
+ * exponential backoff by the webhook retry job, and a webhook is disabled after too many
+ * consecutive failures.
  */
 import { prisma } from 'wasp/server';
-import { LoggingService } from '../../../../../shared/services/logging';
+import { Prisma } from '@prisma/client';
+import { LoggingService } from '../logging';
 import { SentientLoopEventType } from '../../../../../api/types/sentientLoopApi';
 import { createHmacSignature } from '../../../../../shared/utils/security';
 import axios from 'axios';
 import crypto from 'crypto';
 
+// Attempts per delivery before it is marked DEAD, including the first one
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+// Delay before the first retry; doubled for every further attempt
+export const BASE_RETRY_DELAY_MS = 30 * 1000;
+
+// Upper bound for the retry delay
+export const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Consecutive failed attempts after which a webhook is disabled
+export const MAX_CONSECUTIVE_FAILURES = 10;
+
+// How long an in-flight attempt holds its delivery before the retry job may take it over
+const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+
+export type WebhookDeliveryStatus = 'PENDING' | 'SUCCESS' | 'FAILED' | 'DEAD';
+
+type WebhookRecord = {
+  id: string;
+  userId: string;
+  url: string;
+  secret: string;
+  isActive: boolean;
+  failureCount: number;
+};
+
+type DeliveryRecord = {
+  id: string;
+  webhookId: string;
+  eventType: string;
+  payload: any;
+  retryCount: number;
+};
+
+export type WebhookDeliveryResult = {
+  webhookId: string;
+  deliveryId: string;
+  success: boolean;
+  statusCode: number;
+  status: WebhookDeliveryStatus;
+  error?: string;
+};
+
+/**
+ * Computes the delay before the next attempt of a delivery
+ *
+ * @param attempt The number of attempts made so far (1 after the first failure)
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
 /**
- * Delivers an event to all registered webhooks
+ * Delivers an event to all registered webhooks of the event's user and organization
  *
  * @param event The event to deliver
- * @returns A promise that resolves when all webhooks have been notified
+ * @returns The result of the first delivery attempt for each webhook
  */
 export async function deliverEventToWebhooks(event: {
   type: SentientLoopEventType;
@@ -26,14 +84,37 @@ export async function deliverEventToWebhooks(event: {
   sessionId?: string;
   traceId?: string;
   spanId?: string;
-}) {
+}): Promise<WebhookDeliveryResult[]> {
   try {
+    // Resolve the organization from the user when the caller did not pass it
+    let organizationId = event.organizationId;
+    if (!organizationId && event.userId) {
+      const user = await prisma.user.findUnique({
+        where: { id: event.userId },
+        select: { organizationId: true }
+      });
+      organizationId = user?.organizationId ?? undefined;
+    }
+
+    // An event without an owner cannot be routed safely, so it is not delivered at all
+    if (!event.userId && !organizationId) {
+      LoggingService.warn({
+        message: `Skipping ${event.type} webhook delivery: event has no user or organization`,
+        module: 'arcana',
+        category: 'SENTIENT_LOOP',
+        metadata: {
+          eventType: event.type
+        }
+      });
+      return [];
+    }
+
     // Create the event payload
     const eventPayload = {
       id: crypto.randomUUID(),
       type: event.type,
       timestamp: new Date().toISOString(),
-      organizationId: event.organizationId,
+      organizationId,
       userId: event.userId,
       moduleId: event.moduleId,
       agentId: event.agentId,
@@ -44,19 +125,28 @@ export async function deliverEventToWebhooks(event: {
       data: event.data
     };
 
-    // Find all active webhooks that are subscribed to this event type
+    // Find the active webhooks of the event's tenant that are subscribed to this event type
+    const owners: any[] = [];
+    if (event.userId) {
+      owners.push({ userId: event.userId });
+    }
+    if (organizationId) {
+      owners.push({ user: { organizationId } });
+    }
+
     const webhooks = await prisma.sentientLoopWebhook.findMany({
       where: {
         isActive: true,
         events: {
           has: event.type
-        }
+        },
+        OR: owners
       }
     });
 
     if (webhooks.length === 0) {
       // No webhooks to deliver to
-      return;
+      return [];
     }
 
     // Log the operation
@@ -71,95 +161,19 @@ export async function deliverEventToWebhooks(event: {
       }
     });
 
-    // Deliver the event to each webhook
+    // Record the deliveries before the first attempt so a crash cannot lose them
     const deliveryPromises = webhooks.map(async (webhook) => {
-      try {
-        // Create a signature for the webhook
-        const signature = createHmacSignature(eventPayload, webhook.secret);
-
-        // Send the webhook request
-        const response = await axios.post(webhook.url, eventPayload, {
-          headers: {
-            'Content-Type': 'application/json',
-            'X-Sentient-Loop-Signature': signature,
-            'X-Sentient-Loop-Event': event.type,
-            'X-Sentient-Loop-Delivery': crypto.randomUUID()
-          },
-          timeout: 5000 // 5 second timeout
-        });
-
-        // Log the successful delivery
-        await prisma.webhookDelivery.create({
-          data: {
-            webhookId: webhook.id,
-            eventType: event.type,
-            payload: eventPayload,
-            status: 'SUCCESS',
-            statusCode: response.status,
-            responseBody: response.data,
-            deliveredAt: new Date()
-          }
-        });
-
-        // Update the webhook's last delivery time and reset failure count if it was previously failing
-        await prisma.sentientLoopWebhook.update({
-          where: { id: webhook.id },
-          data: {
-            lastDeliveryAt: new Date(),
-            failureCount: 0
-          }
-        });
-
-        return {
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
           webhookId: webhook.id,
-          success: true,
-          statusCode: response.status
-        };
-      } catch (error) {
-        // Log the failed delivery
-        await prisma.webhookDelivery.create({
-          data: {
-            webhookId: webhook.id,
-            eventType: event.type,
-            payload: eventPayload,
-            status: 'FAILED',
-            statusCode: error.response?.status || 0,
-            responseBody: error.response?.data || error.message,
-            deliveredAt: new Date()
-          }
-        });
-
-        // Increment the webhook's failure count
-        await prisma.sentientLoopWebhook.update({
-          where: { id: webhook.id },
-          data: {
-            lastDeliveryAt: new Date(),
-            failureCount: {
-              increment: 1
-            }
-          }
-        });
-
-        LoggingService.error({
-          message: `Failed to deliver ${event.type} event to webhook ${webhook.url}`,
-          userId: event.userId,
-          module: 'arcana',
-          category: 'SENTIENT_LOOP',
-          error,
-          metadata: {
-            webhookId: webhook.id,
-            eventType: event.type,
-            statusCode: error.response?.status
-          }
-        });
-
-        return {
-          webhookId: webhook.id,
-          success: false,
-          statusCode: error.response?.status || 0,
-          error: error.message
-        };
-      }
+          eventType: event.type,
+          payload: eventPayload,
+          status: 'PENDING',
+          nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS)
+        }
+      });
+
+      return attemptWebhookDelivery(delivery, webhook);
     });
 
     // Wait for all deliveries to complete
@@ -179,3 +193,236 @@ export async function deliverEventToWebhooks(event: {
     throw error;
   }
 }
+
+/**
+ * Makes one delivery attempt and records its outcome
+ *
+ * On failure the delivery is rescheduled with exponential backoff, or marked DEAD once
+ * MAX_DELIVERY_ATTEMPTS is reached. The webhook is disabled after
+ * MAX_CONSECUTIVE_FAILURES failed attempts in a row.
+ *
+ * @param delivery The delivery to attempt
+ * @param webhook The webhook to deliver to
+ * @param options Set retry to false to mark a failed attempt DEAD right away
+ * @returns The result of the attempt
+ */
+export async function attemptWebhookDelivery(
+  delivery: DeliveryRecord,
+  webhook: WebhookRecord,
+  options: { retry?: boolean } = {}
+): Promise<WebhookDeliveryResult> {
+  const attempt = delivery.retryCount + 1;
+
+  try {
+    // Create a signature for the webhook
+    const signature = createHmacSignature(delivery.payload, webhook.secret);
+
+    // Send the webhook request
+    const response = await axios.post(webhook.url, delivery.payload, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Sentient-Loop-Signature': signature,
+        'X-Sentient-Loop-Event': delivery.eventType,
+        'X-Sentient-Loop-Delivery': delivery.id,
+        'X-Sentient-Loop-Attempt': String(attempt)
+      },
+      timeout: 5000 // 5 second timeout
+    });
+
+    // Log the successful delivery
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'SUCCESS',
+        statusCode: response.status,
+        responseBody: response.data ?? Prisma.JsonNull,
+        deliveredAt: new Date(),
+        retryCount: attempt,
+        nextAttemptAt: null,
+        lastError: null
+      }
+    });
+
+    // Update the webhook's last delivery time and reset failure count if it was previously failing
+    await prisma.sentientLoopWebhook.update({
+      where: { id: webhook.id },
+      data: {
+        lastDeliveryAt: new Date(),
+        failureCount: 0
+      }
+    });
+
+    return {
+      webhookId: webhook.id,
+      deliveryId: delivery.id,
+      success: true,
+      statusCode: response.status,
+      status: 'SUCCESS'
+    };
+  } catch (error) {
+    const statusCode = error.response?.status || 0;
+    const exhausted = options.retry === false || attempt >= MAX_DELIVERY_ATTEMPTS;
+    const status: WebhookDeliveryStatus = exhausted ? 'DEAD' : 'FAILED';
+
+    // Log the failed attempt and schedule the next one
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status,
+        statusCode,
+        responseBody: error.response?.data ?? Prisma.JsonNull,
+        retryCount: attempt,
+        nextAttemptAt: exhausted ? null : new Date(Date.now() + getRetryDelayMs(attempt)),
+        lastError: error.message
+      }
+    });
+
+    // Increment the webhook's failure count
+    const updatedWebhook = await prisma.sentientLoopWebhook.update({
+      where: { id: webhook.id },
+      data: {
+        lastDeliveryAt: new Date(),
+        failureCount: {
+          increment: 1
+        }
+      }
+    });
+
+    LoggingService.error({
+      message: `Failed to deliver ${delivery.eventType} event to webhook ${webhook.url}`,
+      userId: webhook.userId,
+      module: 'arcana',
+      category: 'SENTIENT_LOOP',
+      error,
+      metadata: {
+        webhookId: webhook.id,
+        deliveryId: delivery.id,
+        eventType: delivery.eventType,
+        statusCode,
+        attempt,
+        status
+      }
+    });
+
+    if (updatedWebhook.isActive && updatedWebhook.failureCount >= MAX_CONSECUTIVE_FAILURES) {
+      await disableFailingWebhook(updatedWebhook);
+    }
+
+    return {
+      webhookId: webhook.id,
+      deliveryId: delivery.id,
+      success: false,
+      statusCode,
+      status,
+      error: error.message
+    };
+  }
+}
+
+/**
+ * Disables a webhook that keeps failing
+ *
+ * @param webhook The webhook to disable
+ */
+async function disableFailingWebhook(webhook: WebhookRecord) {
+  const reason = `Disabled after ${webhook.failureCount} consecutive failed deliveries`;
+
+  await prisma.sentientLoopWebhook.update({
+    where: { id: webhook.id },
+    data: {
+      isActive: false,
+      disabledAt: new Date(),
+      disabledReason: reason
+    }
+  });
+
+  LoggingService.warn({
+    message: `Disabled Sentient Loop webhook ${webhook.url}: ${reason}`,
+    userId: webhook.userId,
+    module: 'arcana',
+    category: 'SENTIENT_LOOP',
+    metadata: {
+      webhookId: webhook.id,
+      failureCount: webhook.failureCount
+    }
+  });
+}
+
+/**
+ * Retries failed deliveries whose next attempt is due
+ *
+ * Deliveries of disabled webhooks stay queued and are picked up again if the webhook is
+ * re-enabled.
+ *
+ * @param limit Maximum number of deliveries to attempt
+ * @returns The results of the attempts
+ */
+export async function processWebhookRetries(limit: number = 50): Promise<WebhookDeliveryResult[]> {
+  const dueDeliveries = await prisma.webhookDelivery.findMany({
+    where: {
+      status: { in: ['PENDING', 'FAILED'] },
+      nextAttemptAt: { lte: new Date() },
+      webhook: { isActive: true }
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+    include: { webhook: true }
+  });
+
+  const results: WebhookDeliveryResult[] = [];
+  for (const delivery of dueDeliveries) {
+    // Claim the delivery so an overlapping run does not attempt it twice
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: {
+        id: delivery.id,
+        status: delivery.status,
+        nextAttemptAt: delivery.nextAttemptAt
+      },
+      data: {
+        status: 'PENDING',
+        nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS)
+      }
+    });
+
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    results.push(await attemptWebhookDelivery(delivery, delivery.webhook));
+  }
+
+  return results;
+}
+
+/**
+ * Redelivers a recorded delivery on request
+ *
+ * A new delivery row is created with the original payload, so the log keeps the history
+ * of the earlier attempts.
+ *
+ * @param deliveryId The delivery to redeliver
+ * @returns The result of the new delivery attempt
+ */
+export async function redeliverWebhookDelivery(deliveryId: string): Promise<WebhookDeliveryResult> {
+  const original = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { webhook: true }
+  });
+
+  if (!original) {
+    throw new Error(`Webhook delivery ${deliveryId} not found`);
+  }
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      webhookId: original.webhookId,
+      eventType: original.eventType,
+      payload: original.payload ?? Prisma.JsonNull,
+      status: 'PENDING',
+      redeliveryOfId: original.id
+    }
+  });
+
+  // A manual redelivery is a single attempt; it is not retried automatically
+  return attemptWebhookDelivery(delivery, original.webhook, { retry: false });
+}
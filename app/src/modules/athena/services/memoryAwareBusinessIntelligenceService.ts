@@ -19,14 +19,8 @@ import {
 import { 
   executeBusinessIntelligenceWorkflow 
 } from '../langGraph/businessIntelligenceWorkflow';
-import { 
-  searchMemories, 
-  storeMemory 
-} from '@src/modules/memory/services/enhancedMemoryManager';
-import { 
-  MemoryEntryType, 
-  MemoryContentType 
-} from '@src/modules/memory/types';
+import { MemoryService } from '@src/modules/memory/services/memoryService';
+import { MemoryContentType } from '@src/modules/memory/types';
 
 /**
  * Generates business insights with memory awareness
@@ -303,10 +297,9 @@ export async function trackRecommendationEffectiveness(
     });
     
     // Store the effectiveness in memory
-    await storeMemory({
+    await MemoryService.store({
       userId,
-      type: MemoryEntryType.LONG_TERM,
-      contentType: MemoryContentType.RECOMMENDATION_FEEDBACK,
+      contentType: MemoryContentType.FEEDBACK,
       context: 'recommendation-effectiveness',
       content: {
         recommendationId,
@@ -316,8 +309,7 @@ export async function trackRecommendationEffectiveness(
       importance: 2.0,
       metadata: {
         recommendationId
-      },
-      embedding: []
+      }
     });
     
     return true;
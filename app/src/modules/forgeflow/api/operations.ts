@@ -2,7 +2,7 @@ import { HttpError } from 'wasp/server';
 import { prisma } from 'wasp/server';
 import { z } from 'zod';
 import { ensureArgsSchemaOrThrowHttpError } from '@src/server/validation';
-import { createCrew, executeCrew, crewConfigSchema } from '../crew/crewAiUtils';
+import { createCrew, crewConfigSchema } from '../crew/crewAiUtils';
 import { workflowTemplates } from '../crew/workflowTemplates';
 import { predefinedAgentRoles } from '../crew/agentRoles';
 import {
@@ -10,12 +10,23 @@ import {
   processThroughSentientLoop,
   getSentientLoopStatus,
 } from '../sentientLoop';
-import { registerDataSource, ingestSignal, DataSourceType } from '../signal/signalIngestion';
+import {
+  registerDataSource,
+  getDataSources,
+  DataSourceType,
+  DataSourceNotFoundError,
+  SignalValidationError,
+  SignalBackpressureError,
+} from '../signal/signalIngestion';
 import { storeMemory, retrieveMemories, storeFeedback, MemoryType } from '../memory/memorySystem';
 import { requirePermission } from '@src/api/middleware/rbac';
 import { applyFieldAccess, applyFieldAccessToArray } from '@src/api/middleware/fieldAccess';
 import { LoggingService } from '@src/shared/services/logging';
 import { executeThreatResearchWorkflow } from './langGraphOperations';
+import { enqueueWorkflowExecution, cancelWorkflowExecution } from '../services/workflowQueueService';
+import { workflowTriggersSchema, buildWorkflowTriggers } from '../triggers/workflowTriggerService';
+import { loadWorkflowDesign } from '../services/visualWorkflowService';
+import { validateWorkflowDesign, hasDesignErrors, DesignValidationError } from '../langGraph/designCompiler';
 
 // Schema for creating an agent
 const createAgentSchema = z.object({
@@ -42,6 +53,24 @@ const executeWorkflowSchema = z.object({
   input: z.record(z.any()).optional(),
 });
 
+// Schema for cancelling a workflow execution
+const cancelWorkflowExecutionSchema = z.object({
+  executionId: z.string().min(1, 'Execution ID is required'),
+});
+
+// Schema for running a visual workflow design
+const runWorkflowDesignSchema = z.object({
+  workflowId: z.string().min(1, 'Workflow ID is required'),
+  input: z.record(z.any()).optional(),
+});
+
+// Schema for updating the triggers of a workflow
+const updateWorkflowTriggersSchema = z.object({
+  workflowId: z.string().min(1, 'Workflow ID is required'),
+  triggers: workflowTriggersSchema,
+  rotateWebhookSecret: z.boolean().optional(),
+});
+
 /**
  * Creates a new agent for the user
  */
@@ -142,87 +171,33 @@ export const executeAgentWorkflow = async (args: unknown, context: any) => {
       throw new HttpError(404, 'Workflow not found');
     }
 
-    // Create a workflow execution record
-    const workflowExecution = await prisma.workflowExecution.create({
-      data: {
-        workflowId: workflow.id,
-        status: 'running',
-      },
-    });
-
-    try {
-      // Parse the workflow steps
-      const workflowConfig = workflow.steps as any;
-
-      // Create the crew
-      const crew = createCrew(workflowConfig);
-
-      // Execute the crew
-      const result = await executeCrew(crew);
-
-      // Update the workflow execution record
-      await prisma.workflowExecution.update({
-        where: {
-          id: workflowExecution.id,
-        },
-        data: {
-          status: 'completed',
-          completedAt: new Date(),
-          results: result,
-        },
-      });
-
-      // Log successful execution
-      LoggingService.info({
-        message: `Workflow execution completed: ${validatedArgs.workflowId}`,
-        userId: user.id,
-        module: 'forgeflow',
-        category: 'WORKFLOW_EXECUTION',
-        metadata: {
-          workflowId: validatedArgs.workflowId,
-          executionId: workflowExecution.id,
-          status: 'completed',
-        },
-      });
+    // Validate the crew configuration (or visual design) before queueing so bad workflows fail fast
+    if (workflow.isVisual) {
+      const design = await loadWorkflowDesign(workflow.id);
+      const issues = design ? validateWorkflowDesign(design) : [];
+      if (!design || hasDesignErrors(issues)) {
+        throw new DesignValidationError(issues);
+      }
+    } else {
+      createCrew(workflow.steps as any);
+    }
 
-      // Apply field-level access control
-      const filteredResult = await applyFieldAccess(
-        { executionId: workflowExecution.id, status: 'completed', result },
-        user,
-        'forgeflow',
-        'execute'
-      );
-
-      return filteredResult;
-    } catch (error) {
-      // Update the workflow execution record with the error
-      await prisma.workflowExecution.update({
-        where: {
-          id: workflowExecution.id,
-        },
-        data: {
-          status: 'failed',
-          completedAt: new Date(),
-          error: error.message || 'Unknown error',
-        },
-      });
+    // Queue the execution; the executeWorkflowJob worker runs it in the background
+    const workflowExecution = await enqueueWorkflowExecution(
+      workflow.id,
+      user.id,
+      validatedArgs.input || {}
+    );
 
-      // Log execution failure
-      LoggingService.error({
-        message: `Workflow execution failed: ${validatedArgs.workflowId}`,
-        userId: user.id,
-        module: 'forgeflow',
-        category: 'WORKFLOW_EXECUTION',
-        error,
-        metadata: {
-          workflowId: validatedArgs.workflowId,
-          executionId: workflowExecution.id,
-          status: 'failed',
-        },
-      });
+    // Apply field-level access control
+    const filteredResult = await applyFieldAccess(
+      { executionId: workflowExecution.id, status: workflowExecution.status },
+      user,
+      'forgeflow',
+      'execute'
+    );
 
-      throw error;
-    }
+    return filteredResult;
   } catch (error) {
     LoggingService.error({
       message: `Error executing workflow: ${validatedArgs.workflowId}`,
@@ -236,6 +211,55 @@ export const executeAgentWorkflow = async (args: unknown, context: any) => {
   }
 };
 
+/**
+ * Cancels a queued or running workflow execution
+ */
+export const cancelAgentWorkflowExecution = async (args: unknown, context: any) => {
+  // Validate arguments
+  const validatedArgs = ensureArgsSchemaOrThrowHttpError(cancelWorkflowExecutionSchema, args);
+
+  // Apply RBAC middleware - require 'forgeflow:execute' permission
+  const user = await requirePermission({
+    resource: 'forgeflow',
+    action: 'execute',
+    adminOverride: true,
+    auditRejection: true,
+  })(context);
+
+  const execution = await prisma.workflowExecution.findUnique({
+    where: { id: validatedArgs.executionId },
+  });
+
+  if (!execution) {
+    throw new HttpError(404, 'Workflow execution not found');
+  }
+
+  if (execution.userId !== user.id && !user.isAdmin) {
+    throw new HttpError(403, 'You do not have permission to cancel this workflow execution');
+  }
+
+  try {
+    const updated = await cancelWorkflowExecution(execution.id);
+
+    LoggingService.info({
+      message: `Workflow execution cancellation requested: ${execution.id}`,
+      userId: user.id,
+      module: 'forgeflow',
+      category: 'WORKFLOW_EXECUTION',
+      metadata: {
+        workflowId: execution.workflowId,
+        executionId: execution.id,
+        status: updated.status,
+      },
+    });
+
+    return { executionId: updated.id, status: updated.status };
+  } catch (error) {
+    console.error('Error cancelling workflow execution:', error);
+    throw new HttpError(500, 'Failed to cancel workflow execution: ' + error.message);
+  }
+};
+
 /**
  * Creates a new workflow from a template or custom configuration
  */
@@ -248,6 +272,10 @@ export const createWorkflow = async (args: any, context: any) => {
     auditRejection: true,
   })(context);
 
+  const triggers = args.triggers
+    ? ensureArgsSchemaOrThrowHttpError(workflowTriggersSchema, args.triggers)
+    : undefined;
+
   try {
     // Log the operation start
     LoggingService.info({
@@ -313,7 +341,7 @@ export const createWorkflow = async (args: any, context: any) => {
         name: args.name,
         description: args.description,
         steps: workflowConfig,
-        triggers: args.triggers || {},
+        triggers: buildWorkflowTriggers(triggers) as any,
         isActive: true,
         agents: {
           connect: agentIds.map((id) => ({ id })),
@@ -351,6 +379,68 @@ export const createWorkflow = async (args: any, context: any) => {
   }
 };
 
+/**
+ * Replaces the cron, webhook and event triggers of a workflow
+ */
+export const updateWorkflowTriggers = async (args: unknown, context: any) => {
+  // Validate arguments
+  const validatedArgs = ensureArgsSchemaOrThrowHttpError(updateWorkflowTriggersSchema, args);
+
+  // Apply RBAC middleware - require 'forgeflow:update' permission
+  const user = await requirePermission({
+    resource: 'forgeflow',
+    action: 'update',
+    adminOverride: true,
+    auditRejection: true,
+  })(context);
+
+  const workflow = await prisma.workflow.findUnique({
+    where: { id: validatedArgs.workflowId },
+  });
+
+  if (!workflow) {
+    throw new HttpError(404, 'Workflow not found');
+  }
+
+  if (workflow.userId !== user.id && !user.isAdmin) {
+    throw new HttpError(403, 'You do not have permission to update this workflow');
+  }
+
+  try {
+    const triggers = buildWorkflowTriggers(validatedArgs.triggers, workflow.triggers, {
+      rotateWebhookSecret: validatedArgs.rotateWebhookSecret,
+    });
+
+    const updated = await prisma.workflow.update({
+      where: { id: workflow.id },
+      data: { triggers: triggers as any },
+    });
+
+    LoggingService.info({
+      message: `Workflow triggers updated: ${workflow.name}`,
+      userId: user.id,
+      module: 'forgeflow',
+      category: 'WORKFLOW_MANAGEMENT',
+      metadata: {
+        workflowId: workflow.id,
+        cronTriggers: triggers.cron?.length || 0,
+        webhookEnabled: !!triggers.webhook?.enabled,
+        eventTriggers: triggers.events?.length || 0,
+        webhookSecretRotated: !!validatedArgs.rotateWebhookSecret,
+      },
+    });
+
+    return {
+      workflowId: updated.id,
+      triggers,
+      webhookUrl: triggers.webhook ? `/api/forgeflow/workflows/${updated.id}/webhook` : null,
+    };
+  } catch (error) {
+    console.error('Error updating workflow triggers:', error);
+    throw new HttpError(500, 'Failed to update workflow triggers: ' + error.message);
+  }
+};
+
 /**
  * Gets all available agent templates
  */
@@ -514,11 +604,33 @@ export const registerDataSourceForUser = async (args: any, context: any) => {
       context.user.id
     );
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new HttpError(400, 'Invalid data source configuration', { issues: error.issues });
+    }
+    if (error.code === 'P2002') {
+      throw new HttpError(409, `A data source named ${validatedArgs.name} already exists`);
+    }
     console.error('Error registering data source:', error);
     throw new HttpError(500, 'Failed to register data source');
   }
 };
 
+/**
+ * Lists the data sources registered by the user
+ */
+export const getDataSourcesForUser = async (args: any, context: any) => {
+  if (!context.user) {
+    throw new HttpError(401, 'You must be logged in to list data sources');
+  }
+
+  try {
+    return await getDataSources(context.user.id);
+  } catch (error) {
+    console.error('Error listing data sources:', error);
+    throw new HttpError(500, 'Failed to list data sources');
+  }
+};
+
 /**
  * Ingests a signal and processes it through the Sentient Loop™
  */
@@ -541,6 +653,15 @@ export const ingestSignalForUser = async (args: any, context: any) => {
       validatedArgs.data
     );
   } catch (error) {
+    if (error instanceof DataSourceNotFoundError) {
+      throw new HttpError(404, error.message);
+    }
+    if (error instanceof SignalValidationError) {
+      throw new HttpError(400, error.message, { issues: error.issues });
+    }
+    if (error instanceof SignalBackpressureError) {
+      throw new HttpError(429, error.message);
+    }
     console.error('Error ingesting signal:', error);
     throw new HttpError(500, 'Failed to ingest signal');
   }
@@ -646,11 +767,27 @@ export const saveWorkflowDesign = async (args: any, context: any) => {
     description: z.string().min(1, 'Description is required'),
     nodes: z.array(z.any()),
     edges: z.array(z.any()),
+    triggers: workflowTriggersSchema.optional(),
   });
 
   const validatedArgs = ensureArgsSchemaOrThrowHttpError(schema, args);
 
   try {
+    const existingWorkflow = await prisma.workflow.findUnique({
+      where: {
+        userId_name: {
+          userId: context.user.id,
+          name: validatedArgs.name,
+        },
+      },
+      select: { triggers: true },
+    });
+
+    // Triggers are left untouched when the designer does not send them
+    const triggers = validatedArgs.triggers
+      ? buildWorkflowTriggers(validatedArgs.triggers, existingWorkflow?.triggers)
+      : undefined;
+
     // Create or update the workflow
     const workflow = await prisma.workflow.upsert({
       where: {
@@ -662,13 +799,14 @@ export const saveWorkflowDesign = async (args: any, context: any) => {
       update: {
         description: validatedArgs.description,
         isVisual: true,
+        ...(triggers ? { triggers: triggers as any } : {}),
       },
       create: {
         userId: context.user.id,
         name: validatedArgs.name,
         description: validatedArgs.description,
         steps: {},
-        triggers: {},
+        triggers: (triggers || {}) as any,
         isActive: true,
         isVisual: true,
       },
@@ -725,8 +863,10 @@ export const saveWorkflowDesign = async (args: any, context: any) => {
     }, {});
 
     // Create connections
-    await Promise.all(
+    const createdConnections = await Promise.all(
       validatedArgs.edges.map(async (edge: any) => {
+        const maxIterations = Number(edge.data?.maxIterations);
+
         return await prisma.workflowConnection.create({
           data: {
             designId: workflowDesign.id,
@@ -735,17 +875,31 @@ export const saveWorkflowDesign = async (args: any, context: any) => {
             sourceHandle: edge.sourceHandle,
             targetHandle: edge.targetHandle,
             label: edge.data?.label,
+            maxIterations: Number.isInteger(maxIterations) && maxIterations > 0 ? maxIterations : null,
           },
         });
       })
     );
 
+    // Create connection ID mapping
+    const connectionIdMap = validatedArgs.edges.reduce((map: any, edge: any, index: number) => {
+      map[edge.id] = createdConnections[index].id;
+      return map;
+    }, {});
+
+    // Validation problems are returned so the canvas can show them; saving still succeeds
+    const design = await loadWorkflowDesign(workflow.id);
+    const issues = design ? validateWorkflowDesign(design) : [];
+
     return {
       id: workflow.id,
       name: workflow.name,
       description: workflow.description,
       designId: workflowDesign.id,
       version: workflowDesign.version,
+      nodeIdMap,
+      connectionIdMap,
+      issues,
     };
   } catch (error) {
     console.error('Error saving workflow design:', error);
@@ -816,6 +970,7 @@ export const getWorkflowDesign = async (args: any, context: any) => {
       targetHandle: connection.targetHandle,
       data: {
         label: connection.label,
+        maxIterations: connection.maxIterations,
       },
     }));
 
@@ -871,3 +1026,63 @@ export const getVisualWorkflows = async (args: any, context: any) => {
     throw new HttpError(500, 'Failed to get visual workflows');
   }
 };
+
+/**
+ * Validates a saved visual workflow design and queues it for execution.
+ * Designs with validation errors are not queued; the issues are returned instead.
+ */
+export const runWorkflowDesign = async (args: unknown, context: any) => {
+  // Validate arguments
+  const validatedArgs = ensureArgsSchemaOrThrowHttpError(runWorkflowDesignSchema, args);
+
+  // Apply RBAC middleware - require 'forgeflow:execute' permission
+  const user = await requirePermission({
+    resource: 'forgeflow',
+    action: 'execute',
+    adminOverride: true,
+    auditRejection: true,
+  })(context);
+
+  const workflow = await prisma.workflow.findUnique({
+    where: {
+      id: validatedArgs.workflowId,
+      userId: user.id,
+    },
+    select: { id: true, isVisual: true },
+  });
+
+  if (!workflow) {
+    throw new HttpError(404, 'Workflow not found');
+  }
+
+  const design = workflow.isVisual ? await loadWorkflowDesign(workflow.id) : null;
+  if (!design) {
+    throw new HttpError(400, 'Workflow is not a visual workflow');
+  }
+
+  const issues = validateWorkflowDesign(design);
+  if (hasDesignErrors(issues)) {
+    return { executionId: null, status: null, issues };
+  }
+
+  try {
+    // Queue the execution; the executeWorkflowJob worker compiles and runs the design
+    const execution = await enqueueWorkflowExecution(workflow.id, user.id, validatedArgs.input || {});
+
+    LoggingService.info({
+      message: `Visual workflow queued: ${workflow.id}`,
+      userId: user.id,
+      module: 'forgeflow',
+      category: 'WORKFLOW_EXECUTION',
+      metadata: {
+        workflowId: workflow.id,
+        executionId: execution.id,
+      },
+    });
+
+    return { executionId: execution.id, status: execution.status, issues };
+  } catch (error) {
+    console.error('Error running workflow design:', error);
+    throw new HttpError(500, 'Failed to run workflow design: ' + error.message);
+  }
+};
@@ -360,16 +360,30 @@ export const PropertyPanel: React.FC<PropertyPanelProps> = ({
         
         {/* Edge Properties */}
         {selectedEdge && (
-          <div>
-            <label className="block text-sm font-medium text-gray-400 mb-1">Label</label>
-            <input
-              type="text"
-              name="label"
-              value={formData.label || ''}
-              onChange={handleInputChange}
-              className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1">Label</label>
+              <input
+                type="text"
+                name="label"
+                value={formData.label || ''}
+                onChange={handleInputChange}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1">Max Iterations</label>
+              <input
+                type="number"
+                name="maxIterations"
+                min={1}
+                value={formData.maxIterations || ''}
+                onChange={handleInputChange}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">Required when this connection loops back to an earlier node</p>
+            </div>
+          </>
         )}
         
         <button
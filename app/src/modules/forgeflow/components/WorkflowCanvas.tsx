@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import ReactFlow, {
   ReactFlowProvider,
   Background,
@@ -44,12 +44,35 @@ const edgeTypes: EdgeTypes = {
   default: ConnectionLine,
 };
 
+// How a node or connection is highlighted: validation problems or run status
+export type CanvasHighlight = 'error' | 'warning' | 'running' | 'completed' | 'failed';
+
+const NODE_HIGHLIGHT_CLASSES: Record<CanvasHighlight, string> = {
+  error: 'rounded-lg ring-4 ring-red-500',
+  warning: 'rounded-lg ring-4 ring-yellow-400',
+  running: 'rounded-lg ring-4 ring-blue-400 animate-pulse',
+  completed: 'rounded-lg ring-4 ring-green-500',
+  failed: 'rounded-lg ring-4 ring-red-600',
+};
+
+const EDGE_HIGHLIGHT_COLORS: Record<CanvasHighlight, string> = {
+  error: '#ef4444',
+  warning: '#facc15',
+  running: '#60a5fa',
+  completed: '#22c55e',
+  failed: '#dc2626',
+};
+
 interface WorkflowCanvasProps {
   initialNodes?: Node[];
   initialEdges?: Edge[];
   onNodesChange?: (nodes: Node[]) => void;
   onEdgesChange?: (edges: Edge[]) => void;
   onSave?: (nodes: Node[], edges: Edge[]) => void;
+  onRun?: (nodes: Node[], edges: Edge[]) => void;
+  isRunning?: boolean;
+  nodeHighlights?: Record<string, CanvasHighlight>;
+  edgeHighlights?: Record<string, CanvasHighlight>;
   readOnly?: boolean;
 }
 
@@ -59,6 +82,10 @@ const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
   onNodesChange,
   onEdgesChange,
   onSave,
+  onRun,
+  isRunning = false,
+  nodeHighlights = {},
+  edgeHighlights = {},
   readOnly = false,
 }) => {
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
@@ -156,23 +183,60 @@ const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
     }
   }, [nodes, edges, onSave]);
 
+  // Run the workflow
+  const handleRun = useCallback(() => {
+    if (onRun) {
+      onRun(nodes, edges);
+    }
+  }, [nodes, edges, onRun]);
+
+  // Apply highlights without touching the nodes and edges being edited
+  const displayNodes = useMemo(
+    () =>
+      nodes.map((node) =>
+        nodeHighlights[node.id] ? { ...node, className: NODE_HIGHLIGHT_CLASSES[nodeHighlights[node.id]] } : node
+      ),
+    [nodes, nodeHighlights]
+  );
+
+  const displayEdges = useMemo(
+    () =>
+      edges.map((edge) =>
+        edgeHighlights[edge.id]
+          ? { ...edge, style: { ...edge.style, stroke: EDGE_HIGHLIGHT_COLORS[edgeHighlights[edge.id]], strokeWidth: 3 } }
+          : edge
+      ),
+    [edges, edgeHighlights]
+  );
+
   return (
     <div className="h-full w-full flex flex-col">
       <div className="flex justify-between items-center p-4 bg-gray-800 border-b border-gray-700">
         <h2 className="text-xl font-bold text-white">Workflow Designer</h2>
         {!readOnly && (
-          <button
-            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
-            onClick={handleSave}
-          >
-            Save Workflow
-          </button>
+          <div className="flex space-x-2">
+            {onRun && (
+              <button
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={handleRun}
+                disabled={isRunning}
+              >
+                {isRunning ? 'Running...' : 'Run'}
+              </button>
+            )}
+            <button
+              className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+              onClick={handleSave}
+            >
+              Save Workflow
+            </button>
+          </div>
         )}
       </div>
       <div className="flex-grow" ref={reactFlowWrapper}>
         <ReactFlow
-          nodes={nodes}
-          edges={edges}
+          nodes={displayNodes}
+          edges={displayEdges}
           onNodesChange={handleNodesChange}
           onEdgesChange={handleEdgesChange}
           onConnect={onConnect}
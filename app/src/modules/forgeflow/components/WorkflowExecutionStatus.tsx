@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import {
+  useQuery,
+  useAction,
+  getWorkflowExecutionById,
+  cancelAgentWorkflowExecution,
+} from 'wasp/client/operations';
+
+interface WorkflowExecutionStatusProps {
+  executionId: string;
+  refreshInterval?: number;
+}
+
+// Statuses after which the execution no longer changes
+const FINAL_STATUSES = ['completed', 'failed', 'cancelled'];
+
+const STATUS_STYLES: Record<string, string> = {
+  queued: 'bg-gray-600 text-gray-100',
+  running: 'bg-blue-600 text-blue-100',
+  cancelling: 'bg-yellow-600 text-yellow-100',
+  cancelled: 'bg-gray-700 text-gray-300',
+  completed: 'bg-green-600 text-green-100',
+  failed: 'bg-red-600 text-red-100',
+};
+
+/**
+ * Shows the live status, progress and result of a queued workflow execution
+ */
+export function WorkflowExecutionStatus({ executionId, refreshInterval = 2000 }: WorkflowExecutionStatusProps) {
+  const [isCancelling, setIsCancelling] = useState(false);
+  const cancelExecutionAction = useAction(cancelAgentWorkflowExecution);
+
+  const { data: execution, isLoading, error } = useQuery(
+    getWorkflowExecutionById,
+    { executionId },
+    {
+      // Poll until the worker has finished the execution
+      refetchInterval: (data: any) =>
+        FINAL_STATUSES.includes(data?.status) ? false : refreshInterval,
+    }
+  );
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      await cancelExecutionAction({ executionId });
+    } catch (error) {
+      console.error('Error cancelling workflow execution:', error);
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-400">Loading execution status...</div>;
+  }
+
+  if (error || !execution) {
+    return <div className="text-sm text-red-400">Unable to load execution status</div>;
+  }
+
+  const progress = execution.progress as { completedTasks: number; totalTasks: number; currentTask?: string } | null;
+  const percent = progress && progress.totalTasks > 0
+    ? Math.round((progress.completedTasks / progress.totalTasks) * 100)
+    : 0;
+  const canCancel = execution.status === 'queued' || execution.status === 'running';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[execution.status] || STATUS_STYLES.queued}`}>
+          {execution.status}
+        </span>
+        {canCancel && (
+          <button
+            type="button"
+            onClick={handleCancel}
+            disabled={isCancelling}
+            className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+          >
+            {isCancelling ? 'Cancelling...' : 'Cancel'}
+          </button>
+        )}
+      </div>
+
+      {progress && (
+        <div>
+          <div className="mb-1 flex justify-between text-xs text-gray-400">
+            <span>{progress.currentTask ? `Current task: ${progress.currentTask}` : 'Finishing up'}</span>
+            <span>
+              {progress.completedTasks}/{progress.totalTasks} tasks
+            </span>
+          </div>
+          <div className="h-2 w-full rounded-full bg-gray-700">
+            <div className="h-2 rounded-full bg-yellow-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {execution.attempts > 1 && (
+        <div className="text-xs text-gray-400">Attempt {execution.attempts}</div>
+      )}
+
+      {execution.error && <div className="text-xs text-red-400">{execution.error}</div>}
+
+      {execution.status === 'completed' && execution.results && (
+        <div className="bg-gray-700 rounded-lg p-4 overflow-auto max-h-60">
+          <pre className="text-xs text-gray-300 whitespace-pre-wrap">
+            {JSON.stringify(execution.results, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WorkflowExecutionStatus;
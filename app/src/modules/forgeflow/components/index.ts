@@ -10,6 +10,7 @@ export { default as WorkflowCanvas } from './WorkflowCanvas';
 export { NodePalette } from './NodePalette';
 export { PropertyPanel } from './PropertyPanel';
 export { ConnectionLine } from './ConnectionLine';
+export { WorkflowExecutionStatus } from './WorkflowExecutionStatus';
 
 // Node components
 export { AgentNode } from './nodes/AgentNode';
@@ -75,6 +75,24 @@ export interface CrewExecutionState {
   [key: string]: any;
 }
 
+// Hooks used by background workers to observe and stop a crew execution
+export interface CrewExecutionHooks {
+  // Checked before each task; returning true stops the crew
+  isCancelled?: () => Promise<boolean>;
+  // Called after each task completes
+  onTaskComplete?: (task: Task, completedTasks: number, totalTasks: number, state: CrewExecutionState) => Promise<void>;
+}
+
+/**
+ * Error thrown when a crew execution is cancelled between tasks
+ */
+export class CrewCancelledError extends Error {
+  constructor(crewName: string) {
+    super(`Crew execution cancelled: ${crewName}`);
+    this.name = 'CrewCancelledError';
+  }
+}
+
 /**
  * Creates a crew from a configuration
  */
@@ -94,7 +112,11 @@ export function createCrew(config: any): Crew {
 /**
  * Executes a crew
  */
-export async function executeCrew(crew: Crew, initialState: CrewExecutionState = {}): Promise<CrewExecutionState> {
+export async function executeCrew(
+  crew: Crew,
+  initialState: CrewExecutionState = {},
+  hooks: CrewExecutionHooks = {}
+): Promise<CrewExecutionState> {
   // Initialize the state
   let state: CrewExecutionState = { ...initialState };
   
@@ -111,7 +133,12 @@ export async function executeCrew(crew: Crew, initialState: CrewExecutionState =
   });
   
   // Execute each task in order
-  for (const task of crew.tasks) {
+  for (const [index, task] of crew.tasks.entries()) {
+    // Stop between tasks if the execution was cancelled
+    if (hooks.isCancelled && await hooks.isCancelled()) {
+      throw new CrewCancelledError(crew.name);
+    }
+    
     // Check if dependencies are satisfied
     if (task.dependsOn && task.dependsOn.length > 0) {
       for (const dependency of task.dependsOn) {
@@ -157,6 +184,11 @@ export async function executeCrew(crew: Crew, initialState: CrewExecutionState =
           success: true,
         },
       });
+      
+      // Report progress
+      if (hooks.onTaskComplete) {
+        await hooks.onTaskComplete(task, index + 1, crew.tasks.length, state);
+      }
     } catch (error) {
       // Log the task execution failure
       LoggingService.error({
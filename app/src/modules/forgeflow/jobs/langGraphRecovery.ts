@@ -0,0 +1,70 @@
+/**
+ * LangGraph Recovery Job
+ *
+ * This job periodically sweeps LangGraph runs that stopped checkpointing (for example
+ * because the server running them was restarted during a deploy) and resumes or fails them.
+ */
+
+import { LoggingService } from '../../../shared/services/logging';
+import { recoverInterruptedGraphs } from '../langGraph/recovery';
+import { GRAPH_HEARTBEAT_INTERVAL_MS } from '../langGraph/persistence';
+// Importing the workflows registers their resumable graph factories
+import '../langGraph/threatWorkflow';
+
+/**
+ * Recover interrupted LangGraph runs job
+ */
+export const langGraphRecoveryJob = async () => {
+  try {
+    const result = await recoverInterruptedGraphs({ waitForCompletion: true });
+
+    LoggingService.info({
+      message: 'LangGraph recovery job completed',
+      module: 'forgeflow',
+      category: 'LANGGRAPH_RECOVERY',
+      metadata: {
+        resumed: result.resumed.length,
+        failed: result.failed.length,
+        skipped: result.skipped.length,
+      },
+    });
+
+    return result;
+  } catch (error) {
+    console.error('Error in LangGraph recovery job:', error);
+
+    LoggingService.error({
+      message: 'Error in LangGraph recovery job',
+      module: 'forgeflow',
+      category: 'LANGGRAPH_RECOVERY',
+      error,
+    });
+
+    throw error;
+  }
+};
+
+/**
+ * Recovers interrupted LangGraph runs when the server starts.
+ * Resumed runs continue in the background so startup is not blocked.
+ */
+export const recoverLangGraphRunsOnStartup = async () => {
+  try {
+    // Running graphs send a heartbeat even while a node runs, so runs that missed a few
+    // belong to an instance that is gone
+    const result = await recoverInterruptedGraphs({
+      staleAfterMs: 3 * GRAPH_HEARTBEAT_INTERVAL_MS,
+      waitForCompletion: false,
+    });
+
+    LoggingService.info({
+      message: 'LangGraph startup recovery sweep completed',
+      module: 'forgeflow',
+      category: 'LANGGRAPH_RECOVERY',
+      metadata: result,
+    });
+  } catch (error) {
+    // Never prevent the server from starting because of the sweep
+    console.error('Error recovering LangGraph runs on startup:', error);
+  }
+};
@@ -0,0 +1,40 @@
+/**
+ * Workflow Cron Triggers Job
+ *
+ * This job runs every minute and queues executions for workflows whose cron triggers
+ * match the current minute.
+ */
+
+import { LoggingService } from '../../../shared/services/logging';
+import { dispatchDueCronTriggers } from '../triggers/workflowTriggerService';
+
+/**
+ * Fire due workflow cron triggers job
+ */
+export const workflowCronTriggersJob = async () => {
+  try {
+    const result = await dispatchDueCronTriggers();
+
+    if (result.fired > 0 || result.failed > 0) {
+      LoggingService.info({
+        message: 'Workflow cron triggers dispatched',
+        module: 'forgeflow',
+        category: 'WORKFLOW_TRIGGER',
+        metadata: result,
+      });
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Error in workflow cron triggers job:', error);
+
+    LoggingService.error({
+      message: 'Error in workflow cron triggers job',
+      module: 'forgeflow',
+      category: 'WORKFLOW_TRIGGER',
+      error,
+    });
+
+    throw error;
+  }
+};
@@ -0,0 +1,260 @@
+/**
+ * Workflow Execution Job
+ *
+ * This job runs queued Forgeflow workflow executions on the PgBoss worker instead of inside
+ * the Wasp action that requested them. It enforces the per-user concurrency limit, reports
+ * progress after every task, honours cancellation and retries failed attempts. Workflows
+ * designed in the Visual Builder run as compiled LangGraph graphs.
+ */
+
+import { type ExecuteWorkflowJob } from 'wasp/server/jobs';
+import { prisma } from 'wasp/server';
+import { LoggingService } from '../../../shared/services/logging';
+import { createCrew, executeCrew, CrewCancelledError } from '../crew/crewAiUtils';
+import {
+  WORKFLOW_EXECUTION_STATUS,
+  WORKFLOW_JOB_RETRY_LIMIT,
+  CONCURRENCY_RETRY_DELAY_SECONDS,
+  ExecuteWorkflowJobArgs,
+  claimExecutionSlot,
+  submitExecutionJob,
+  isExecutionCancelled,
+  updateExecutionProgress,
+} from '../services/workflowQueueService';
+import { loadWorkflowDesign, executeWorkflowDesign } from '../services/visualWorkflowService';
+import { DesignValidationError } from '../langGraph/designCompiler';
+import {
+  recordTriggeredAttemptStarted,
+  recordTriggeredAttemptFailed,
+  completeTriggeredExecution,
+} from '../triggers/triggerExecutionTracking';
+
+/**
+ * Execute queued workflow job
+ */
+export const performWorkflowExecution: ExecuteWorkflowJob<ExecuteWorkflowJobArgs, void> = async (args) => {
+  const { executionId } = args;
+
+  const execution = await prisma.workflowExecution.findUnique({
+    where: { id: executionId },
+    include: { workflow: true },
+  });
+
+  if (!execution) {
+    LoggingService.warn({
+      message: `Workflow execution not found for job: ${executionId}`,
+      module: 'forgeflow',
+      category: 'WORKFLOW_QUEUE',
+      metadata: { executionId },
+    });
+    return;
+  }
+
+  // A previous attempt died mid-run (e.g. worker restart); put it back in the queue
+  if (execution.status === WORKFLOW_EXECUTION_STATUS.RUNNING) {
+    await prisma.workflowExecution.update({
+      where: { id: executionId },
+      data: { status: WORKFLOW_EXECUTION_STATUS.QUEUED },
+    });
+  } else if (execution.status === WORKFLOW_EXECUTION_STATUS.CANCELLING) {
+    await finishExecution(executionId, WORKFLOW_EXECUTION_STATUS.CANCELLED);
+    return;
+  } else if (execution.status !== WORKFLOW_EXECUTION_STATUS.QUEUED) {
+    // Cancelled or already finished
+    return;
+  }
+
+  const claimed = await claimExecutionSlot(executionId, execution.userId);
+  if (!claimed) {
+    const current = await prisma.workflowExecution.findUnique({
+      where: { id: executionId },
+      select: { status: true },
+    });
+
+    // The user is at the concurrency limit: try again later
+    if (current?.status === WORKFLOW_EXECUTION_STATUS.QUEUED) {
+      await submitExecutionJob(executionId, CONCURRENCY_RETRY_DELAY_SECONDS);
+    }
+    return;
+  }
+
+  await recordTriggeredAttemptStarted(executionId);
+
+  LoggingService.info({
+    message: `Workflow execution started: ${executionId}`,
+    userId: execution.userId,
+    module: 'forgeflow',
+    category: 'WORKFLOW_EXECUTION',
+    metadata: {
+      workflowId: execution.workflowId,
+      executionId,
+      attempt: execution.attempts + 1,
+    },
+  });
+
+  try {
+    const result = execution.workflow.isVisual
+      ? await runVisualWorkflow(execution)
+      : await runCrewWorkflow(execution);
+
+    await finishExecution(executionId, WORKFLOW_EXECUTION_STATUS.COMPLETED, { results: result });
+
+    LoggingService.info({
+      message: `Workflow execution completed: ${executionId}`,
+      userId: execution.userId,
+      module: 'forgeflow',
+      category: 'WORKFLOW_EXECUTION',
+      metadata: {
+        workflowId: execution.workflowId,
+        executionId,
+        status: 'completed',
+      },
+    });
+  } catch (error) {
+    if (error instanceof CrewCancelledError) {
+      await finishExecution(executionId, WORKFLOW_EXECUTION_STATUS.CANCELLED);
+      return;
+    }
+
+    const attempts = execution.attempts + 1;
+    // An invalid design fails the same way on every attempt
+    const retrying = attempts <= WORKFLOW_JOB_RETRY_LIMIT && !(error instanceof DesignValidationError);
+
+    LoggingService.error({
+      message: `Workflow execution failed: ${executionId}`,
+      userId: execution.userId,
+      module: 'forgeflow',
+      category: 'WORKFLOW_EXECUTION',
+      error,
+      metadata: {
+        workflowId: execution.workflowId,
+        executionId,
+        attempt: attempts,
+        retrying,
+      },
+    });
+
+    if (!retrying) {
+      await finishExecution(executionId, WORKFLOW_EXECUTION_STATUS.FAILED, {
+        error: error.message || 'Unknown error',
+      });
+      return;
+    }
+
+    await recordTriggeredAttemptFailed(executionId, error.message || 'Unknown error');
+
+    // Back to the queue; rethrowing lets PgBoss schedule the retry with backoff
+    await prisma.workflowExecution.updateMany({
+      where: { id: executionId, status: WORKFLOW_EXECUTION_STATUS.RUNNING },
+      data: {
+        status: WORKFLOW_EXECUTION_STATUS.QUEUED,
+        error: error.message || 'Unknown error',
+      },
+    });
+
+    throw error;
+  }
+};
+
+/**
+ * Runs a workflow defined by crew steps
+ */
+async function runCrewWorkflow(execution: { id: string; input: unknown; workflow: { steps: unknown } }) {
+  // Create the crew from the workflow steps
+  const crew = createCrew(execution.workflow.steps as any);
+
+  await updateExecutionProgress(execution.id, {
+    completedTasks: 0,
+    totalTasks: crew.tasks.length,
+    currentTask: crew.tasks[0]?.name,
+  });
+
+  // Execute the crew
+  return executeCrew(crew, (execution.input as Record<string, any>) || {}, {
+    isCancelled: () => isExecutionCancelled(execution.id),
+    onTaskComplete: (task, completedTasks, totalTasks) =>
+      updateExecutionProgress(execution.id, {
+        completedTasks,
+        totalTasks,
+        currentTask: crew.tasks[completedTasks]?.name,
+      }),
+  });
+}
+
+/**
+ * Runs a workflow designed in the Visual Builder as a LangGraph graph
+ */
+async function runVisualWorkflow(execution: {
+  id: string;
+  workflowId: string;
+  userId: string | null;
+  input: unknown;
+  workflow: { name: string };
+}) {
+  const design = await loadWorkflowDesign(execution.workflowId);
+  if (!design) {
+    throw new Error(`Workflow ${execution.workflowId} has no visual design`);
+  }
+
+  // Loops and untaken branches make the node count an estimate
+  const totalTasks = design.nodes.length;
+  const completedNodes = new Set<string>();
+
+  await updateExecutionProgress(execution.id, { completedTasks: 0, totalTasks });
+
+  const state = await executeWorkflowDesign(design, execution, {
+    beforeNode: async (node) => {
+      if (await isExecutionCancelled(execution.id)) {
+        throw new CrewCancelledError(execution.workflow.name);
+      }
+
+      await updateExecutionProgress(execution.id, {
+        completedTasks: completedNodes.size,
+        totalTasks,
+        currentTask: node.data?.name || node.type,
+      });
+    },
+    afterNode: async (node) => {
+      completedNodes.add(node.id);
+      await updateExecutionProgress(execution.id, {
+        completedTasks: completedNodes.size,
+        totalTasks,
+      });
+    },
+  });
+
+  return {
+    results: state.results,
+    outputs: state.outputs,
+  };
+}
+
+/**
+ * Moves a running (or cancelling) execution to a final status
+ */
+async function finishExecution(
+  executionId: string,
+  status: string,
+  data: { results?: any; error?: string } = {}
+): Promise<void> {
+  // A cancellation requested while the last task was running still wins
+  const current = await prisma.workflowExecution.findUnique({
+    where: { id: executionId },
+    select: { status: true },
+  });
+
+  const finalStatus = current?.status === WORKFLOW_EXECUTION_STATUS.CANCELLING
+    ? WORKFLOW_EXECUTION_STATUS.CANCELLED
+    : status;
+
+  await prisma.workflowExecution.update({
+    where: { id: executionId },
+    data: {
+      status: finalStatus,
+      completedAt: new Date(),
+      ...data,
+    },
+  });
+
+  await completeTriggeredExecution(executionId, finalStatus, data);
+}
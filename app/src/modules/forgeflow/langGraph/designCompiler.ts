@@ -0,0 +1,633 @@
+/**
+ * Visual Design Compiler
+ *
+ * This file turns a Visual Builder design (nodes and connections saved as a `WorkflowDesign`)
+ * into a `Graph` that `executeGraph` can run:
+ *
+ *   TRIGGER   -> passes the execution input into the graph
+ *   AGENT     -> LLM node prompted with the agent's role, goal and backstory
+ *   TASK      -> tool node that has its assigned agent perform the task
+ *   CONDITION -> evaluates its condition; outgoing connections from the `true` and
+ *                `false` handles become conditional edges
+ *   OUTPUT    -> records the final result of the run
+ *
+ * Designs are validated first; problems are reported per node or connection so the
+ * canvas can highlight them.
+ */
+
+import { groqInference } from '@src/ai-services/groq';
+import { Graph, GraphEdge, GraphNode, createGraph, createLLMNode, createToolNode } from './index';
+import { PersistenceOptions } from './persistence';
+import { findBackEdges } from './scheduler';
+
+// Node types the compiler can execute
+export const EXECUTABLE_NODE_TYPES = ['TRIGGER', 'AGENT', 'TASK', 'CONDITION', 'OUTPUT'] as const;
+
+// Condition handles on the canvas
+const CONDITION_HANDLES = ['true', 'false'];
+
+export interface DesignNode {
+  id: string;
+  type: string;
+  data: Record<string, any>;
+}
+
+export interface DesignConnection {
+  id: string;
+  sourceId: string;
+  targetId: string;
+  sourceHandle?: string | null;
+  label?: string | null;
+  // Number of times this connection may loop back to an earlier node
+  maxIterations?: number | null;
+}
+
+export interface WorkflowDesignDefinition {
+  name: string;
+  nodes: DesignNode[];
+  connections: DesignConnection[];
+}
+
+export type DesignIssueSeverity = 'error' | 'warning';
+
+export interface DesignIssue {
+  severity: DesignIssueSeverity;
+  code: string;
+  message: string;
+  nodeId?: string;
+  connectionId?: string;
+}
+
+// State shared by the nodes of a compiled design
+export interface VisualWorkflowState {
+  userId?: string;
+  workflowId?: string;
+  executionId?: string;
+  input: Record<string, any>;
+  // Output of every node that ran, keyed by design node ID
+  outputs: Record<string, any>;
+  // Output of the most recently completed node, used as input by the next one
+  lastOutput?: any;
+  // Values recorded by output nodes, keyed by design node ID
+  results: Record<string, { type: string; value: any }>;
+}
+
+export interface CompileDesignOptions {
+  input?: Record<string, any>;
+  persistenceOptions?: PersistenceOptions;
+  // Called before and after every node, e.g. to report progress or stop a cancelled run
+  beforeNode?: (node: DesignNode) => Promise<void>;
+  afterNode?: (node: DesignNode, state: VisualWorkflowState) => Promise<void>;
+}
+
+/**
+ * Error thrown when a design with validation errors is compiled
+ */
+export class DesignValidationError extends Error {
+  issues: DesignIssue[];
+
+  constructor(issues: DesignIssue[]) {
+    const errors = issues.filter(issue => issue.severity === 'error');
+    super(`Workflow design is invalid: ${errors.map(issue => issue.message).join('; ')}`);
+    this.name = 'DesignValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validates a design and returns every problem found
+ */
+export function validateWorkflowDesign(design: WorkflowDesignDefinition): DesignIssue[] {
+  const issues: DesignIssue[] = [];
+  const nodesById = new Map(design.nodes.map(node => [node.id, node]));
+
+  if (design.nodes.length === 0) {
+    return [{ severity: 'error', code: 'EMPTY_DESIGN', message: 'The design has no nodes' }];
+  }
+
+  // Connections to nodes that no longer exist are ignored for the graph checks below
+  const connections = design.connections.filter(connection => {
+    if (nodesById.has(connection.sourceId) && nodesById.has(connection.targetId)) {
+      return true;
+    }
+
+    issues.push({
+      severity: 'error',
+      code: 'DANGLING_CONNECTION',
+      message: 'Connection points to a node that does not exist',
+      connectionId: connection.id,
+    });
+    return false;
+  });
+
+  for (const node of design.nodes) {
+    issues.push(...validateNode(node, design, connections));
+  }
+
+  // Entry points are the nodes executeGraph starts from: nodes without incoming connections
+  const entryNodes = design.nodes.filter(node => !connections.some(c => c.targetId === node.id));
+  if (entryNodes.length === 0) {
+    issues.push({
+      severity: 'error',
+      code: 'NO_ENTRY',
+      message: 'Every node has an incoming connection, so the workflow has nowhere to start',
+    });
+  }
+
+  const reachable = collectReachable(entryNodes.map(node => node.id), connections);
+  for (const node of design.nodes) {
+    if (entryNodes.length > 0 && !reachable.has(node.id)) {
+      issues.push({
+        severity: 'error',
+        code: 'UNREACHABLE_NODE',
+        message: `${describeNode(node)} can never run because no path from a starting node reaches it`,
+        nodeId: node.id,
+      });
+    }
+  }
+
+  // Every path has to end in an output node
+  const outputNodes = design.nodes.filter(node => node.type === 'OUTPUT');
+  if (outputNodes.length === 0) {
+    issues.push({
+      severity: 'error',
+      code: 'MISSING_OUTPUT',
+      message: 'The design has no output node',
+    });
+  }
+
+  for (const node of design.nodes) {
+    if (node.type !== 'OUTPUT' && !connections.some(c => c.sourceId === node.id)) {
+      issues.push({
+        severity: 'error',
+        code: 'MISSING_OUTPUT',
+        message: `${describeNode(node)} is not connected to anything, so its result is never used`,
+        nodeId: node.id,
+      });
+    }
+  }
+
+  // Cycles must declare how many times they may run
+  const schedulerEdges = connections.map(connection => ({ source: connection.sourceId, target: connection.targetId }));
+  const backEdges = findBackEdges(
+    design.nodes.map(node => node.id),
+    schedulerEdges,
+    entryNodes.map(node => node.id)
+  );
+  connections.forEach((connection, index) => {
+    if (backEdges.has(schedulerEdges[index]) && !(connection.maxIterations && connection.maxIterations > 0)) {
+      issues.push({
+        severity: 'error',
+        code: 'UNBOUNDED_CYCLE',
+        message: 'Connection loops back to an earlier node without a maximum number of iterations',
+        connectionId: connection.id,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Checks whether a list of issues contains errors
+ */
+export function hasDesignErrors(issues: DesignIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
+
+/**
+ * Compiles a design into an executable graph.
+ * Throws a `DesignValidationError` if the design has validation errors.
+ */
+export function compileWorkflowDesign(
+  design: WorkflowDesignDefinition,
+  options: CompileDesignOptions = {}
+): Graph<VisualWorkflowState> {
+  const issues = validateWorkflowDesign(design);
+  if (hasDesignErrors(issues)) {
+    throw new DesignValidationError(issues);
+  }
+
+  const persistenceOptions = options.persistenceOptions || {};
+  let graph = createGraph<VisualWorkflowState>(
+    {
+      userId: persistenceOptions.userId,
+      workflowId: persistenceOptions.workflowId,
+      executionId: persistenceOptions.executionId,
+      input: options.input || {},
+      outputs: {},
+      results: {},
+    },
+    design.name,
+    persistenceOptions
+  );
+
+  const nodes = design.nodes.map(node => withDesignHooks(compileNode(node, design), node, options));
+
+  const edges: GraphEdge<VisualWorkflowState>[] = design.connections.map(connection => {
+    const source = design.nodes.find(node => node.id === connection.sourceId);
+    const edge: GraphEdge<VisualWorkflowState> = {
+      source: connection.sourceId,
+      target: connection.targetId,
+      maxIterations: connection.maxIterations ?? undefined,
+    };
+
+    if (source?.type === 'CONDITION') {
+      const expected = connection.sourceHandle === 'true';
+      edge.condition = (state) => state.outputs[source.id] === expected;
+    }
+
+    return edge;
+  });
+
+  // A node fed by more than one node waits for all of them (branches not taken are skipped)
+  for (const node of nodes) {
+    const sources = new Set(edges.filter(edge => edge.target === node.id).map(edge => edge.source));
+    if (sources.size > 1) {
+      node.join = true;
+    }
+  }
+
+  graph = {
+    ...graph,
+    nodes,
+    edges,
+    // Parallel branches each add their own entries to these maps
+    reducers: {
+      outputs: 'merge',
+      results: 'merge',
+    },
+  };
+
+  return graph;
+}
+
+/**
+ * Evaluates the condition of a condition node against the current state.
+ *
+ * Conditions are either structured (`conditionType`, `field`, `value`) or a simple
+ * `<field> <operator> <value>` expression such as `input.severity == critical`.
+ * Fields are dotted paths into the state and default to `lastOutput`.
+ */
+export function evaluateCondition(data: Record<string, any>, state: Partial<VisualWorkflowState>): boolean {
+  const condition = parseCondition(data);
+  if (!condition) {
+    throw new Error('Condition cannot be evaluated');
+  }
+
+  const actual = readPath(state, condition.field);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return String(actual ?? '') === String(expected ?? '');
+    case 'not_equals':
+      return String(actual ?? '') !== String(expected ?? '');
+    case 'greater_than':
+      return Number(actual) > Number(expected);
+    case 'less_than':
+      return Number(actual) < Number(expected);
+    case 'greater_or_equal':
+      return Number(actual) >= Number(expected);
+    case 'less_or_equal':
+      return Number(actual) <= Number(expected);
+    case 'contains':
+      return toSearchable(actual).includes(String(expected ?? '').toLowerCase());
+    case 'not_contains':
+      return !toSearchable(actual).includes(String(expected ?? '').toLowerCase());
+    case 'regex':
+      return new RegExp(String(expected ?? '')).test(typeof actual === 'string' ? actual : JSON.stringify(actual ?? ''));
+    default:
+      return false;
+  }
+}
+
+interface ParsedCondition {
+  field: string;
+  operator: string;
+  value: any;
+}
+
+// Operators accepted in condition expressions, longest first so `>=` wins over `>`
+const EXPRESSION_OPERATORS: Array<[string, string]> = [
+  ['not contains', 'not_contains'],
+  ['contains', 'contains'],
+  ['matches', 'regex'],
+  ['==', 'equals'],
+  ['!=', 'not_equals'],
+  ['>=', 'greater_or_equal'],
+  ['<=', 'less_or_equal'],
+  ['>', 'greater_than'],
+  ['<', 'less_than'],
+];
+
+/**
+ * Reads the condition of a condition node, or returns null if it cannot be understood
+ */
+function parseCondition(data: Record<string, any>): ParsedCondition | null {
+  const field = data.field || 'lastOutput';
+
+  if (data.conditionType && data.conditionType !== 'custom') {
+    return { field, operator: data.conditionType, value: data.value };
+  }
+
+  const expression = String(data.condition ?? '').trim();
+  if (!expression) {
+    return null;
+  }
+
+  for (const [symbol, operator] of EXPRESSION_OPERATORS) {
+    const index = expression.indexOf(` ${symbol} `);
+    if (index > 0) {
+      const left = expression.slice(0, index).trim();
+      const right = expression.slice(index + symbol.length + 2).trim();
+
+      if (!/^[A-Za-z_$][\w$]*(\.[\w$-]+)*$/.test(left) || !right) {
+        return null;
+      }
+
+      return { field: left, operator, value: unquote(right) };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Builds the graph node for a design node
+ */
+function compileNode(node: DesignNode, design: WorkflowDesignDefinition): GraphNode<VisualWorkflowState> {
+  const data = node.data || {};
+
+  switch (node.type) {
+    case 'TRIGGER':
+      return createToolNode<VisualWorkflowState>(node.id, async (state) => state.input, 'lastOutput');
+
+    case 'AGENT':
+      return createLLMNode<VisualWorkflowState>(
+        node.id,
+        (state) => buildAgentPrompt(data, state),
+        'lastOutput',
+        undefined,
+        typeof data.temperature === 'number' ? data.temperature : undefined
+      );
+
+    case 'TASK': {
+      const agent = findAssignedAgent(node, design);
+      return createToolNode<VisualWorkflowState>(
+        node.id,
+        async (state) => {
+          const response = await groqInference(
+            { prompt: buildTaskPrompt(data, agent?.data, state), stream: false },
+            state.userId ? { user: { id: state.userId } } : {}
+          );
+          return responseText(response);
+        },
+        'lastOutput'
+      );
+    }
+
+    case 'CONDITION':
+      return {
+        id: node.id,
+        type: 'condition',
+        // Outgoing edges read the result from `outputs`, the last output is left untouched
+        execute: async (state) => ({
+          ...state,
+          outputs: { ...state.outputs, [node.id]: evaluateCondition(data, state) },
+        }),
+      };
+
+    case 'OUTPUT':
+      return {
+        id: node.id,
+        type: 'output',
+        execute: async (state) => ({
+          ...state,
+          results: {
+            ...state.results,
+            [node.id]: { type: data.outputType || 'result', value: state.lastOutput },
+          },
+        }),
+      };
+
+    default:
+      throw new Error(`Unsupported node type: ${node.type}`);
+  }
+}
+
+/**
+ * Wraps a compiled node so its output is recorded under the design node ID and the
+ * compile hooks run around it
+ */
+function withDesignHooks(
+  graphNode: GraphNode<VisualWorkflowState>,
+  node: DesignNode,
+  options: CompileDesignOptions
+): GraphNode<VisualWorkflowState> {
+  return {
+    ...graphNode,
+    execute: async (state) => {
+      if (options.beforeNode) {
+        await options.beforeNode(node);
+      }
+
+      let next = await graphNode.execute(state);
+
+      // LLM nodes return the full completion; keep only the text in the state
+      if (next.lastOutput !== state.lastOutput) {
+        const output = responseText(next.lastOutput);
+        next = {
+          ...next,
+          lastOutput: output,
+          outputs: { ...next.outputs, [node.id]: output },
+        };
+      }
+
+      if (options.afterNode) {
+        await options.afterNode(node, next);
+      }
+
+      return next;
+    },
+  };
+}
+
+/**
+ * Validates the configuration of a single node
+ */
+function validateNode(
+  node: DesignNode,
+  design: WorkflowDesignDefinition,
+  connections: DesignConnection[]
+): DesignIssue[] {
+  const issues: DesignIssue[] = [];
+  const data = node.data || {};
+  const error = (code: string, message: string) => issues.push({ severity: 'error', code, message, nodeId: node.id });
+  const warning = (code: string, message: string) => issues.push({ severity: 'warning', code, message, nodeId: node.id });
+
+  if (!(EXECUTABLE_NODE_TYPES as readonly string[]).includes(node.type)) {
+    error('UNSUPPORTED_NODE', `${describeNode(node)} has type ${node.type}, which cannot be executed yet`);
+    return issues;
+  }
+
+  switch (node.type) {
+    case 'AGENT':
+      if (!data.role && !data.goal) {
+        error('MISSING_FIELD', `${describeNode(node)} needs a role or a goal`);
+      }
+      break;
+
+    case 'TASK':
+      if (!data.description) {
+        error('MISSING_FIELD', `${describeNode(node)} needs a description`);
+      }
+      if (!findAssignedAgent(node, design)) {
+        warning('NO_AGENT', `${describeNode(node)} has no agent; connect an agent to it or set its agent ID`);
+      }
+      break;
+
+    case 'CONDITION': {
+      if (!parseCondition(data)) {
+        error('INVALID_CONDITION', `${describeNode(node)} has no condition that can be evaluated (e.g. "input.severity == critical")`);
+      }
+
+      const outgoing = connections.filter(c => c.sourceId === node.id);
+      for (const connection of outgoing) {
+        if (!CONDITION_HANDLES.includes(connection.sourceHandle || '')) {
+          issues.push({
+            severity: 'error',
+            code: 'INVALID_CONDITION',
+            message: 'Connections from a condition must start at its True or False handle',
+            connectionId: connection.id,
+          });
+        }
+      }
+
+      for (const handle of CONDITION_HANDLES) {
+        if (outgoing.length > 0 && !outgoing.some(c => c.sourceHandle === handle)) {
+          warning('CONDITION_BRANCH_MISSING', `${describeNode(node)} has nothing connected to its ${handle === 'true' ? 'True' : 'False'} branch`);
+        }
+      }
+      break;
+    }
+
+    case 'OUTPUT':
+      if (connections.some(c => c.sourceId === node.id)) {
+        warning('OUTPUT_NOT_LAST', `${describeNode(node)} has outgoing connections; the result is recorded before they run`);
+      }
+      if (data.outputType && data.outputType !== 'result') {
+        warning('OUTPUT_NOT_DELIVERED', `${describeNode(node)} is recorded as a result; ${data.outputType} delivery is not performed`);
+      }
+      break;
+  }
+
+  return issues;
+}
+
+/**
+ * Finds the agent that performs a task: the agent named by its agent ID, otherwise the
+ * closest agent connected into it
+ */
+function findAssignedAgent(task: DesignNode, design: WorkflowDesignDefinition): DesignNode | undefined {
+  const agents = design.nodes.filter(node => node.type === 'AGENT');
+  const agentId = task.data?.agentId;
+
+  if (agentId) {
+    const assigned = agents.find(agent => agent.id === agentId || agent.data?.id === agentId || agent.data?.name === agentId);
+    if (assigned) {
+      return assigned;
+    }
+  }
+
+  // Walk upstream breadth-first so the nearest agent wins
+  const visited = new Set<string>([task.id]);
+  let frontier = [task.id];
+  while (frontier.length > 0) {
+    const sources = design.connections
+      .filter(c => frontier.includes(c.targetId) && !visited.has(c.sourceId))
+      .map(c => c.sourceId);
+
+    const agent = agents.find(a => sources.includes(a.id));
+    if (agent) {
+      return agent;
+    }
+
+    sources.forEach(id => visited.add(id));
+    frontier = sources;
+  }
+
+  return undefined;
+}
+
+function buildAgentPrompt(data: Record<string, any>, state: VisualWorkflowState): string {
+  return [
+    `You are ${data.name || 'an AI agent'}${data.role ? `, ${data.role}` : ''}.`,
+    data.goal ? `Your goal: ${data.goal}` : '',
+    data.backstory ? `Background: ${data.backstory}` : '',
+    `Workflow input:\n${JSON.stringify(state.input, null, 2)}`,
+    state.lastOutput !== undefined ? `Previous step output:\n${formatOutput(state.lastOutput)}` : '',
+  ].filter(Boolean).join('\n\n');
+}
+
+function buildTaskPrompt(
+  data: Record<string, any>,
+  agent: Record<string, any> | undefined,
+  state: VisualWorkflowState
+): string {
+  return [
+    agent ? `You are ${agent.name || 'an AI agent'}${agent.role ? `, ${agent.role}` : ''}.` : '',
+    agent?.goal ? `Your goal: ${agent.goal}` : '',
+    `Task: ${data.description}`,
+    data.expectedOutput ? `Expected output: ${data.expectedOutput}` : '',
+    `Workflow input:\n${JSON.stringify(state.input, null, 2)}`,
+    state.lastOutput !== undefined ? `Context from the previous step:\n${formatOutput(state.lastOutput)}` : '',
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Extracts the text of a chat completion; other values are returned as they are
+ */
+function responseText(response: any): any {
+  return response?.choices?.[0]?.message?.content ?? response;
+}
+
+function formatOutput(output: any): string {
+  return typeof output === 'string' ? output : JSON.stringify(output, null, 2);
+}
+
+function describeNode(node: DesignNode): string {
+  const name = node.data?.name || node.data?.label;
+  const type = node.type.charAt(0) + node.type.slice(1).toLowerCase();
+  return name ? `${type} "${name}"` : `${type} node`;
+}
+
+function collectReachable(startIds: string[], connections: DesignConnection[]): Set<string> {
+  const reachable = new Set<string>(startIds);
+  const stack = [...startIds];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    for (const connection of connections.filter(c => c.sourceId === id)) {
+      if (!reachable.has(connection.targetId)) {
+        reachable.add(connection.targetId);
+        stack.push(connection.targetId);
+      }
+    }
+  }
+
+  return reachable;
+}
+
+function readPath(state: Record<string, any>, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), state as any);
+}
+
+function toSearchable(value: any): string {
+  return (typeof value === 'string' ? value : JSON.stringify(value ?? '')).toLowerCase();
+}
+
+function unquote(value: string): string {
+  const match = value.match(/^(['"])(.*)\1$/);
+  return match ? match[2] : value;
+}
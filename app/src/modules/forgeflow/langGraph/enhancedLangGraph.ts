@@ -22,6 +22,7 @@ import {
   NodeExecutionResult
 } from '../types/langgraph';
 import { v4 as uuidv4 } from 'uuid';
+import { runScheduledGraph, SchedulerEdge } from './scheduler';
 
 /**
  * Creates a new graph
@@ -72,7 +73,7 @@ export function addNode(
  */
 export function addEdge(
   graph: GraphDefinition,
-  edge: { source: string; target: string; condition?: string; metadata?: any }
+  edge: { source: string; target: string; condition?: string; metadata?: any; maxIterations?: number }
 ): GraphDefinition {
   return {
     ...graph,
@@ -115,27 +116,20 @@ export async function executeGraph(
       throw new Error('No start nodes found in the graph');
     }
     
-    // Create a queue of nodes to execute
-    const queue = [...startNodes];
-    const visited = new Set<string>();
-    const maxSteps = options.maxSteps || 100;
-    let steps = 0;
+    // Compile string conditions once so every branch evaluates them the same way
+    const edges: SchedulerEdge<any>[] = (graph.edges || []).map(edge => ({
+      source: edge.source,
+      target: edge.target,
+      maxIterations: edge.maxIterations,
+      condition: edge.condition
+        ? (new Function('state', `return ${edge.condition}`) as (state: any) => boolean)
+        : undefined,
+    }));
     
-    // Execute the graph
-    while (queue.length > 0 && steps < maxSteps) {
-      // Get the next node
-      const nodeId = queue.shift()!;
-      
-      // Skip if already visited
-      if (visited.has(nodeId)) {
-        continue;
-      }
-      
-      // Mark as visited
-      visited.add(nodeId);
-      
+    // Executes and records a single node, the scheduler merges the result
+    const runNode = async (nodeId: string, input: any) => {
       // Find the node
-      const node = graph.nodes.find(n => n.id === nodeId);
+      const node: any = graph.nodes.find(n => n.id === nodeId);
       
       if (!node) {
         throw new Error(`Node not found: ${nodeId}`);
@@ -145,22 +139,19 @@ export async function executeGraph(
       const executionId = await recordNodeExecution(
         graphState.id,
         nodeId,
-        state
+        input
       );
       
       try {
         // Execute the node
         const nodeStartTime = Date.now();
-        const newState = await node.execute(state);
+        const output = await node.execute(input);
         const nodeEndTime = Date.now();
         
-        // Update the state
-        state = newState;
-        
         // Update the node execution
         await updateNodeExecution(
           executionId,
-          state
+          output
         );
         
         // Add to node executions
@@ -168,28 +159,11 @@ export async function executeGraph(
           executionId,
           nodeId,
           status: LangGraphExecutionStatus.COMPLETED,
-          output: state,
+          output,
           duration: nodeEndTime - nodeStartTime
         });
         
-        // Find outgoing edges
-        const outgoingEdges = (graph.edges || []).filter(e => e.source === nodeId);
-        
-        // Add target nodes to the queue
-        for (const edge of outgoingEdges) {
-          // Check condition if present
-          if (edge.condition) {
-            // Parse and evaluate the condition
-            const conditionFn = new Function('state', `return ${edge.condition}`);
-            const conditionResult = conditionFn(state);
-            
-            if (!conditionResult) {
-              continue;
-            }
-          }
-          
-          queue.push(edge.target);
-        }
+        return output;
       } catch (error) {
         // Update the node execution with error
         await updateNodeExecution(
@@ -219,34 +193,49 @@ export async function executeGraph(
           }
         });
         
-        // Set status to failed
-        status = LangGraphStateStatus.FAILED;
-        
-        // Break the loop
-        break;
+        throw error;
       }
-      
-      // Increment steps
-      steps++;
-      
-      // Update the graph state periodically
-      if (steps % (options.checkpointInterval || 5) === 0) {
-        await updateLangGraphState(graphState.id, state);
-      }
-    }
+    };
+    
+    const maxSteps = options.maxSteps || 100;
+    let steps = 0;
     
-    // Check if we reached the max steps
-    if (steps >= maxSteps) {
-      LoggingService.warn({
-        message: `Graph execution reached max steps: ${maxSteps}`,
-        module: 'forgeflow',
-        category: 'LANGGRAPH_EXECUTION',
-        metadata: {
-          graphId: graph.id,
-          graphStateId: graphState.id,
-          steps
+    try {
+      const result = await runScheduledGraph(graph.nodes, edges, state, {
+        initialQueue: startNodes,
+        maxConcurrency: options.maxConcurrency,
+        maxSteps,
+        reducers: graph.reducers,
+        runNode,
+        onStateMerged: async (mergedState) => {
+          state = mergedState;
+          steps++;
+          
+          // Update the graph state periodically
+          if (steps % (options.checkpointInterval || 5) === 0) {
+            await updateLangGraphState(graphState.id, state);
+          }
         }
       });
+      
+      state = result.state;
+      
+      // Check if we reached the max steps
+      if (result.stepLimitReached) {
+        LoggingService.warn({
+          message: `Graph execution reached max steps: ${maxSteps}`,
+          module: 'forgeflow',
+          category: 'LANGGRAPH_EXECUTION',
+          metadata: {
+            graphId: graph.id,
+            graphStateId: graphState.id,
+            steps: result.steps
+          }
+        });
+      }
+    } catch (error) {
+      // Node failures are recorded in runNode; the run ends with the last merged state
+      status = LangGraphStateStatus.FAILED;
     }
     
     // Set final state
@@ -5,26 +5,39 @@
  * It defines a graph-based workflow for agent orchestration with nodes and edges.
  */
 
+import { prisma } from 'wasp/server';
 import { LoggingService } from '@src/shared/services/logging';
 import { groqInference } from '@src/ai-services/groq';
 import {
   createCheckpointer,
   recordNodeExecution,
   updateNodeExecution,
+  getNodeExecutions,
+  markInterruptedNodeExecutions,
+  GRAPH_STATE_STATUS,
+  Checkpointer,
+  GraphStateMetadata,
   PersistenceOptions
 } from './persistence';
+import { findBackEdges, findExpectedJoinSources, runScheduledGraph, StateReducers } from './scheduler';
 
 // Types for the graph system
 export interface GraphNode<T = any> {
   id: string;
   type: string;
   execute: (state: T) => Promise<T>;
+  // Join nodes wait for all incoming branches before running
+  join?: boolean;
+  // Reducers used to merge the outputs of the branches feeding this join
+  reducers?: StateReducers;
 }
 
 export interface GraphEdge<T = any> {
   source: string;
   target: string;
   condition?: (state: T) => boolean;
+  // Allows this edge to close a cycle and re-run its target up to this many times
+  maxIterations?: number;
 }
 
 export interface Graph<T = any> {
@@ -34,6 +47,12 @@ export interface Graph<T = any> {
   edges: GraphEdge<T>[];
   initialState: T;
   persistenceOptions?: PersistenceOptions;
+  // Reducers used to merge node outputs into the shared state
+  reducers?: StateReducers;
+  // Maximum number of branches running at the same time
+  maxConcurrency?: number;
+  // Maximum number of node executions per run
+  maxSteps?: number;
 }
 
 /**
@@ -74,6 +93,35 @@ export function addEdge<T>(graph: Graph<T>, edge: GraphEdge<T>): Graph<T> {
   };
 }
 
+/**
+ * Factory that rebuilds a graph from its persisted state when a run is resumed
+ */
+export type ResumableGraphFactory<T = any> = (
+  state: T,
+  persistenceOptions: PersistenceOptions
+) => Graph<T>;
+
+// Registry of graph factories keyed by their resume key
+const resumableGraphs = new Map<string, ResumableGraphFactory>();
+
+/**
+ * Registers a graph factory so runs of that graph can be resumed after a restart.
+ * Graphs opt in by setting `persistenceOptions.resumeKey` to the same key.
+ */
+export function registerResumableGraph<T>(
+  resumeKey: string,
+  factory: ResumableGraphFactory<T>
+): void {
+  resumableGraphs.set(resumeKey, factory);
+}
+
+/**
+ * Checks whether a graph factory is registered for a resume key
+ */
+export function isResumableGraph(resumeKey: string | undefined): boolean {
+  return !!resumeKey && resumableGraphs.has(resumeKey);
+}
+
 /**
  * Executes a graph
  */
@@ -82,26 +130,156 @@ export async function executeGraph<T>(graph: Graph<T>): Promise<T> {
   const checkpointer = createCheckpointer(graph.persistenceOptions);
 
   // Initialize the state
-  let state = { ...graph.initialState };
+  const state = { ...graph.initialState };
 
   // Persist the initial state
   await checkpointer.persist(graph.name || 'Unnamed Graph', state);
 
-  // Get the state ID
-  const stateId = checkpointer.getStateId();
-
   // Update the graph with the ID
   graph.id = checkpointer.getGraphId();
 
-  // Create a set to track visited nodes
-  const visitedNodes = new Set<string>();
+  // Find nodes with no incoming edges (start nodes)
+  const startNodes = findStartNodes(graph);
 
-  // Create a queue of nodes to visit
-  const queue: string[] = [];
+  return runGraph(graph, checkpointer, state, startNodes, new Set<string>());
+}
 
-  // Find nodes with no incoming edges (start nodes)
+/**
+ * Resumes a persisted graph run from its last checkpoint.
+ *
+ * Nodes checkpointed as visited are not run again, executions that were still
+ * running when the process died are marked as failed and re-run, and the queue
+ * is rebuilt from the outgoing edges of the visited nodes. Join nodes are only
+ * queued once all their branches have completed; until then the branches that did
+ * are handed to the scheduler as the join's inputs. Cycles continue with the
+ * iterations they had already used.
+ */
+export async function resumeGraph<T = any>(stateId: string): Promise<T> {
+  const graphState = await prisma.langGraphState.findUnique({
+    where: { id: stateId },
+  });
+
+  if (!graphState) {
+    throw new Error(`LangGraph state not found: ${stateId}`);
+  }
+
+  if (graphState.status !== GRAPH_STATE_STATUS.ACTIVE) {
+    throw new Error(`LangGraph state ${stateId} is ${graphState.status} and cannot be resumed`);
+  }
+
+  const metadata = graphState.metadata as GraphStateMetadata | null;
+  const resumeKey = metadata?.resumeKey;
+  const factory = resumeKey ? resumableGraphs.get(resumeKey) : undefined;
+  if (!factory) {
+    throw new Error(`No resumable graph registered for state ${stateId} (resumeKey: ${resumeKey ?? 'none'})`);
+  }
+
+  const persistenceOptions: PersistenceOptions = {
+    userId: graphState.userId ?? undefined,
+    workflowId: graphState.workflowId ?? undefined,
+    executionId: graphState.executionId ?? undefined,
+    resumeKey,
+  };
+
+  // Rebuild the graph and attach a checkpointer to the existing run
+  const state = graphState.state as T;
+  const graph = factory(state, persistenceOptions);
+  const checkpointer = createCheckpointer(persistenceOptions);
+  checkpointer.attach(graphState.id, graphState.graphId);
+  graph.id = graphState.graphId;
+
+  // Anything still marked as running was interrupted and has to run again
+  await markInterruptedNodeExecutions(stateId);
+
+  // Rebuild the visited set from the latest checkpoint; runs checkpointed before the
+  // progress was stored fall back to the completed node executions
+  const visitedNodes = new Set(
+    metadata?.progress?.visitedNodes ??
+      (await getNodeExecutions(stateId)).filter(e => e.status === 'completed').map(e => e.nodeId)
+  );
+  const edgeIterations = metadata?.progress?.edgeIterations ?? {};
+  const { queue, joinInputs } = rebuildQueue(graph, state, visitedNodes);
+
+  LoggingService.info({
+    message: 'Resuming graph execution',
+    module: 'forgeflow',
+    category: 'GRAPH_EXECUTION',
+    metadata: {
+      graphId: graph.id,
+      stateId,
+      resumeKey,
+      visitedNodes: Array.from(visitedNodes),
+      queue,
+      joinInputs: Object.fromEntries([...joinInputs].map(([nodeId, sources]) => [nodeId, [...sources]])),
+      edgeIterations,
+    },
+  });
+
+  return runGraph(graph, checkpointer, state, queue, visitedNodes, joinInputs, edgeIterations);
+}
+
+/**
+ * Rebuilds the pending queue of a run, and the branches that already arrived at
+ * join nodes, from the nodes it has already completed
+ */
+function rebuildQueue<T>(
+  graph: Graph<T>,
+  state: T,
+  visitedNodes: Set<string>
+): { queue: string[]; joinInputs: Map<string, Set<string>> } {
   const startNodes = findStartNodes(graph);
-  queue.push(...startNodes);
+  const queue = startNodes.filter(nodeId => !visitedNodes.has(nodeId));
+  const joinInputs = new Map<string, Set<string>>();
+  const joinNodes = new Set(graph.nodes.filter(node => node.join).map(node => node.id));
+
+  for (const edge of graph.edges) {
+    if (!visitedNodes.has(edge.source) || visitedNodes.has(edge.target)) {
+      continue;
+    }
+
+    // Conditions are evaluated against the latest checkpoint, which is the
+    // state the target would have seen had the run not been interrupted
+    if (edge.condition && !edge.condition(state)) {
+      continue;
+    }
+
+    if (joinNodes.has(edge.target)) {
+      const inputs = joinInputs.get(edge.target) ?? new Set<string>();
+      inputs.add(edge.source);
+      joinInputs.set(edge.target, inputs);
+    } else if (!queue.includes(edge.target)) {
+      queue.push(edge.target);
+    }
+  }
+
+  // Joins that heard from all their branches run now, the others wait for the rest
+  const backEdges = findBackEdges(graph.nodes.map(node => node.id), graph.edges, startNodes);
+  for (const [nodeId, inputs] of joinInputs) {
+    const expected = findExpectedJoinSources(nodeId, graph.edges, backEdges);
+    if ([...expected].every(source => inputs.has(source))) {
+      joinInputs.delete(nodeId);
+      queue.push(nodeId);
+    }
+  }
+
+  return { queue, joinInputs };
+}
+
+/**
+ * Runs the graph from the given queue, checkpointing after every node.
+ * Independent branches run concurrently up to `graph.maxConcurrency`.
+ */
+async function runGraph<T>(
+  graph: Graph<T>,
+  checkpointer: Checkpointer,
+  initialState: T,
+  queue: string[],
+  visitedNodes: Set<string>,
+  joinInputs?: Map<string, Set<string>>,
+  edgeIterations?: Record<string, number>
+): Promise<T> {
+  // Get the state ID
+  const stateId = checkpointer.getStateId();
 
   // Log the graph execution start
   LoggingService.info({
@@ -113,20 +291,16 @@ export async function executeGraph<T>(graph: Graph<T>): Promise<T> {
       stateId,
       nodeCount: graph.nodes.length,
       edgeCount: graph.edges.length,
-      startNodes,
+      startNodes: [...queue],
+      maxConcurrency: graph.maxConcurrency,
     },
   });
 
-  // Execute the graph
-  while (queue.length > 0) {
-    // Get the next node
-    const nodeId = queue.shift()!;
-
-    // Skip if already visited
-    if (visitedNodes.has(nodeId)) {
-      continue;
-    }
+  // Executions whose output is waiting to be merged, completed with the next checkpoint
+  const mergingExecutions = new Map<string, { executionId: string; output: T }>();
 
+  // Executes a single node and records it, the scheduler merges the result
+  const runNode = async (nodeId: string, input: T): Promise<T> => {
     // Find the node
     const node = graph.nodes.find(n => n.id === nodeId);
     if (!node) {
@@ -143,31 +317,23 @@ export async function executeGraph<T>(graph: Graph<T>): Promise<T> {
         stateId,
         nodeId,
         nodeType: node.type,
-        stateKeys: Object.keys(state),
+        stateKeys: getStateKeys(input),
       },
     });
 
     // Record the node execution start
     let executionId: string | null = null;
     if (stateId) {
-      executionId = await recordNodeExecution(stateId, nodeId, state);
+      executionId = await recordNodeExecution(stateId, nodeId, input);
     }
 
     // Execute the node
     try {
-      state = await node.execute(state);
-
-      // Mark the node as visited
-      visitedNodes.add(nodeId);
+      const output = await node.execute(input);
 
-      // Update the node execution record
+      // The execution is completed together with the checkpoint of the merged state
       if (stateId && executionId) {
-        await updateNodeExecution(executionId, state);
-      }
-
-      // Persist the updated state
-      if (stateId) {
-        await checkpointer.persist(graph.name || 'Unnamed Graph', state);
+        mergingExecutions.set(nodeId, { executionId, output });
       }
 
       // Log the node execution completion
@@ -182,20 +348,11 @@ export async function executeGraph<T>(graph: Graph<T>): Promise<T> {
           nodeType: node.type,
           executionId,
           success: true,
-          updatedStateKeys: Object.keys(state),
+          updatedStateKeys: getStateKeys(output),
         },
       });
 
-      // Find outgoing edges
-      const outgoingEdges = graph.edges.filter(e => e.source === nodeId);
-
-      // Add target nodes to the queue if conditions are met
-      for (const edge of outgoingEdges) {
-        // Check if the condition is met
-        if (!edge.condition || edge.condition(state)) {
-          queue.push(edge.target);
-        }
-      }
+      return output;
     } catch (error) {
       // Update the node execution record with the error
       if (stateId && executionId) {
@@ -219,11 +376,67 @@ export async function executeGraph<T>(graph: Graph<T>): Promise<T> {
 
       throw error;
     }
+  };
+
+  // Last merged state, kept so a failed run is persisted with its latest checkpoint
+  let latestState = initialState;
+
+  // Nodes can run for longer than recovery waits for a checkpoint
+  const stopHeartbeat = checkpointer.startHeartbeat();
+
+  let result;
+  try {
+    result = await runScheduledGraph<T>(graph.nodes, graph.edges, initialState, {
+      initialQueue: queue,
+      visitedNodes,
+      joinInputs,
+      edgeIterations,
+      maxConcurrency: graph.maxConcurrency,
+      maxSteps: graph.maxSteps,
+      reducers: graph.reducers,
+      runNode,
+      // Persist the merged state after every node
+      onStateMerged: async (state, nodeId, progress) => {
+        latestState = state;
+        const execution = mergingExecutions.get(nodeId);
+        mergingExecutions.delete(nodeId);
+
+        if (stateId && execution) {
+          await checkpointer.checkpointNode(state, progress, execution.executionId, execution.output);
+        } else if (stateId) {
+          await checkpointer.persist(graph.name || 'Unnamed Graph', state);
+        }
+      },
+    });
+  } catch (error) {
+    // Mark the run as failed so it is not picked up for recovery
+    if (stateId) {
+      await checkpointer.persist(graph.name || 'Unnamed Graph', latestState, GRAPH_STATE_STATUS.FAILED);
+    }
+
+    throw error;
+  } finally {
+    stopHeartbeat();
+  }
+
+  const state = result.state;
+
+  if (result.stepLimitReached) {
+    LoggingService.warn({
+      message: `Graph execution reached max steps: ${result.steps}`,
+      module: 'forgeflow',
+      category: 'GRAPH_EXECUTION',
+      metadata: {
+        graphId: graph.id,
+        stateId,
+        steps: result.steps,
+      },
+    });
   }
 
   // Update the graph state status to completed
   if (stateId) {
-    await checkpointer.persist(graph.name || 'Unnamed Graph', state);
+    await checkpointer.persist(graph.name || 'Unnamed Graph', state, GRAPH_STATE_STATUS.COMPLETED);
   }
 
   // Log the graph execution completion
@@ -234,14 +447,22 @@ export async function executeGraph<T>(graph: Graph<T>): Promise<T> {
     metadata: {
       graphId: graph.id,
       stateId,
-      visitedNodes: Array.from(visitedNodes),
-      finalStateKeys: Object.keys(state),
+      visitedNodes: Array.from(result.visitedNodes),
+      steps: result.steps,
+      finalStateKeys: getStateKeys(state),
     },
   });
 
   return state;
 }
 
+/**
+ * Gets the keys of a graph state, for logging
+ */
+function getStateKeys(state: unknown): string[] {
+  return state && typeof state === 'object' ? Object.keys(state) : [];
+}
+
 /**
  * Finds nodes with no incoming edges (start nodes)
  */
@@ -275,13 +496,14 @@ export function createLLMNode<T>(
         ? promptTemplate(state)
         : promptTemplate;
 
-      // Call the LLM
+      // Call the LLM on behalf of the user that owns the run
+      const userId = getStateUserId(state);
       const response = await groqInference({
         prompt,
         model,
         temperature,
         stream: false,
-      }, {});
+      }, userId ? { user: { id: userId } } : {});
 
       // Update the state
       return {
@@ -292,6 +514,17 @@ export function createLLMNode<T>(
   };
 }
 
+/**
+ * Gets the user that owns a run from its state, if the state records one
+ */
+function getStateUserId(state: unknown): string | undefined {
+  if (state && typeof state === 'object' && 'userId' in state && typeof state.userId === 'string') {
+    return state.userId;
+  }
+
+  return undefined;
+}
+
 /**
  * Creates a tool node
  */
@@ -315,3 +548,21 @@ export function createToolNode<T>(
     },
   };
 }
+
+/**
+ * Creates a join node that waits for all incoming branches and merges their
+ * outputs with the given reducers
+ */
+export function createJoinNode<T>(
+  id: string,
+  reducers: StateReducers = {}
+): GraphNode<T> {
+  return {
+    id,
+    type: 'join',
+    join: true,
+    reducers,
+    // The merge happens in the scheduler, the node itself passes the state through
+    execute: async (state: T) => state,
+  };
+}
@@ -5,11 +5,7 @@
  * It allows for storing and retrieving memories within a graph execution.
  */
 
-import { 
-  storeMemory, 
-  retrieveMemories, 
-  searchMemories 
-} from '@src/modules/memory/services/enhancedMemoryManager';
+import { MemoryService } from '@src/modules/memory/services/memoryService';
 import { 
   MemoryEntryType, 
   MemoryContentType 
@@ -91,22 +87,22 @@ export function createMemoryNode(
               : undefined;
             
             // Store the memory
-            const storedMemory = await storeMemory({
+            const storedMemory = await MemoryService.store({
               userId,
               agentId,
               sessionId,
-              type: memoryType,
+              source: 'langgraph',
               contentType,
               context,
               content,
               importance,
+              shortTerm: memoryType === MemoryEntryType.SHORT_TERM,
               expiresAt,
               metadata: {
                 graphId: state.graphId,
                 graphStateId: state.graphStateId,
                 nodeId: id,
               },
-              embedding: []
             });
             
             // Update the state
@@ -118,10 +114,10 @@ export function createMemoryNode(
           
           case MemoryNodeOperation.RETRIEVE: {
             // Retrieve memories
-            const memories = await retrieveMemories(userId, {
+            const memories = await MemoryService.recall({
+              userId,
               agentId,
               sessionId,
-              type: memoryType,
               contentType,
               context,
               ...queryOptions,
@@ -143,7 +139,7 @@ export function createMemoryNode(
             }
             
             // Search memories
-            const results = await searchMemories(query, userId, {
+            const results = await MemoryService.search(query, userId, {
               agentId,
               sessionId,
               contentType,
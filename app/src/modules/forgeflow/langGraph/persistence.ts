@@ -7,6 +7,7 @@
 import { prisma } from 'wasp/server';
 import { LoggingService } from '@src/shared/services/logging';
 import { v4 as uuidv4 } from 'uuid';
+import { ScheduleProgress } from './scheduler';
 
 // Types for the persistence service
 export interface PersistenceOptions {
@@ -14,6 +15,33 @@ export interface PersistenceOptions {
   workflowId?: string;
   executionId?: string;
   expiresInDays?: number;
+  resumeKey?: string;
+}
+
+// Status values used for persisted graph states
+export const GRAPH_STATE_STATUS = {
+  ACTIVE: 'active',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+} as const;
+
+// How often a running graph refreshes its checkpoint time while its nodes run, so that
+// recovery can tell a long-running node from a run whose server is gone
+export const GRAPH_HEARTBEAT_INTERVAL_MS = 20 * 1000;
+
+// Metadata stored with a graph state
+export type GraphStateMetadata = {
+  resumeKey?: string;
+  // Scheduler progress as of the latest node checkpoint
+  progress?: ScheduleProgress;
+};
+
+// A node execution as needed to rebuild a run after a restart
+export interface PersistedNodeExecution {
+  id: string;
+  nodeId: string;
+  status: string;
+  startedAt: Date;
 }
 
 /**
@@ -37,10 +65,11 @@ export async function createGraphState(
         graphId,
         name,
         state: initialState,
-        status: 'active',
+        status: GRAPH_STATE_STATUS.ACTIVE,
         userId: options.userId,
         workflowId: options.workflowId,
         executionId: options.executionId,
+        metadata: options.resumeKey ? { resumeKey: options.resumeKey } : undefined,
         expiresAt,
       },
     });
@@ -128,6 +157,78 @@ export async function updateGraphState(
   }
 }
 
+/**
+ * Checkpoints the state merged after a node and completes the node's execution in one
+ * transaction, so that a resumed run never sees a completed node whose output is not
+ * part of the state
+ */
+export async function checkpointNodeExecution(
+  stateId: string,
+  state: any,
+  metadata: GraphStateMetadata,
+  executionId: string,
+  output: any
+): Promise<void> {
+  try {
+    await prisma.$transaction(async (tx) => {
+      const execution = await tx.langGraphNodeExecution.findUnique({
+        where: { id: executionId },
+      });
+
+      if (!execution) {
+        throw new Error(`Node execution not found: ${executionId}`);
+      }
+
+      const completedAt = new Date();
+
+      await tx.langGraphState.update({
+        where: { id: stateId },
+        data: {
+          state,
+          metadata,
+          checkpointedAt: completedAt,
+          updatedAt: completedAt,
+        },
+      });
+
+      await tx.langGraphNodeExecution.update({
+        where: { id: executionId },
+        data: {
+          status: 'completed',
+          output,
+          completedAt,
+          duration: completedAt.getTime() - execution.startedAt.getTime(),
+        },
+      });
+    });
+
+    // Log the checkpoint
+    LoggingService.info({
+      message: `Checkpointed LangGraph node execution: ${executionId}`,
+      module: 'forgeflow',
+      category: 'LANGGRAPH_PERSISTENCE',
+      metadata: {
+        stateId,
+        executionId,
+      },
+    });
+  } catch (error) {
+    // Log the error
+    LoggingService.error({
+      message: 'Error checkpointing LangGraph node execution',
+      module: 'forgeflow',
+      category: 'LANGGRAPH_PERSISTENCE',
+      error,
+      metadata: {
+        stateId,
+        executionId,
+      },
+    });
+
+    throw error;
+  }
+}
+
 /**
  * Gets a LangGraph state from the database
  */
@@ -318,26 +419,147 @@ export async function updateNodeExecution(
   }
 }
 
+/**
+ * Gets the node executions of a graph state in execution order
+ */
+export async function getNodeExecutions(stateId: string): Promise<PersistedNodeExecution[]> {
+  try {
+    const executions = await prisma.langGraphNodeExecution.findMany({
+      where: { graphStateId: stateId },
+      orderBy: { startedAt: 'asc' },
+      include: {
+        node: {
+          select: { nodeId: true },
+        },
+      },
+    });
+
+    return executions.map(execution => ({
+      id: execution.id,
+      nodeId: execution.node.nodeId,
+      status: execution.status,
+      startedAt: execution.startedAt,
+    }));
+  } catch (error) {
+    // Log the error
+    LoggingService.error({
+      message: 'Error getting LangGraph node executions',
+      module: 'forgeflow',
+      category: 'LANGGRAPH_PERSISTENCE',
+      error,
+      metadata: {
+        stateId,
+      },
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Marks node executions that were still running when the process died as failed
+ */
+export async function markInterruptedNodeExecutions(
+  stateId: string,
+  reason: string = 'Interrupted before completion'
+): Promise<number> {
+  const result = await prisma.langGraphNodeExecution.updateMany({
+    where: {
+      graphStateId: stateId,
+      status: 'running',
+    },
+    data: {
+      status: 'failed',
+      error: reason,
+      completedAt: new Date(),
+    },
+  });
+
+  if (result.count > 0) {
+    LoggingService.info({
+      message: `Marked ${result.count} interrupted LangGraph node executions as failed`,
+      module: 'forgeflow',
+      category: 'LANGGRAPH_PERSISTENCE',
+      metadata: {
+        stateId,
+        reason,
+      },
+    });
+  }
+
+  return result.count;
+}
+
+/**
+ * Finds graph states that are still active but have not been checkpointed recently
+ */
+export async function findStalledGraphStates(staleAfterMs: number) {
+  return prisma.langGraphState.findMany({
+    where: {
+      status: GRAPH_STATE_STATUS.ACTIVE,
+      checkpointedAt: { lt: new Date(Date.now() - staleAfterMs) },
+    },
+    orderBy: { checkpointedAt: 'asc' },
+  });
+}
+
+/**
+ * Refreshes the checkpoint time of an active graph state without changing its state
+ */
+export async function heartbeatGraphState(stateId: string): Promise<void> {
+  await prisma.langGraphState.updateMany({
+    where: {
+      id: stateId,
+      status: GRAPH_STATE_STATUS.ACTIVE,
+    },
+    data: {
+      checkpointedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Claims a stalled graph state so that only one server instance recovers it.
+ * Returns false if another instance checkpointed or claimed it in the meantime.
+ */
+export async function claimStalledGraphState(
+  stateId: string,
+  checkpointedAt: Date
+): Promise<boolean> {
+  const result = await prisma.langGraphState.updateMany({
+    where: {
+      id: stateId,
+      status: GRAPH_STATE_STATUS.ACTIVE,
+      checkpointedAt,
+    },
+    data: {
+      checkpointedAt: new Date(),
+    },
+  });
+
+  return result.count === 1;
+}
+
 /**
  * Creates a checkpointer for a LangGraph
  */
 export function createCheckpointer(options: PersistenceOptions = {}) {
   // Generate a unique ID for this graph instance
-  const graphId = uuidv4();
+  let graphId = uuidv4();
   let stateId: string | null = null;
   
   return {
     /**
      * Persists the current state of the graph
      */
-    persist: async (name: string, state: any): Promise<void> => {
+    persist: async (name: string, state: any, status?: string): Promise<void> => {
       try {
         if (!stateId) {
           // Create a new state if one doesn't exist
           stateId = await createGraphState(graphId, name, state, options);
         } else {
           // Update the existing state
-          await updateGraphState(stateId, state);
+          await updateGraphState(stateId, state, status);
         }
       } catch (error) {
         console.error('Error persisting graph state:', error);
@@ -345,6 +567,27 @@ export function createCheckpointer(options: PersistenceOptions = {}) {
       }
     },
     
+    /**
+     * Persists the state merged after a node together with the node's completion
+     */
+    checkpointNode: async (
+      state: any,
+      progress: ScheduleProgress,
+      executionId: string,
+      output: any
+    ): Promise<void> => {
+      if (!stateId) {
+        throw new Error('Cannot checkpoint a node before the graph state is persisted');
+      }
+
+      const metadata: GraphStateMetadata = { progress };
+      if (options.resumeKey) {
+        metadata.resumeKey = options.resumeKey;
+      }
+
+      await checkpointNodeExecution(stateId, state, metadata, executionId, output);
+    },
+
     /**
      * Loads the state of the graph
      */
@@ -358,6 +601,32 @@ export function createCheckpointer(options: PersistenceOptions = {}) {
       }
     },
     
+    /**
+     * Attaches the checkpointer to an existing persisted run so that
+     * subsequent checkpoints update it instead of creating a new state
+     */
+    attach: (existingStateId: string, existingGraphId: string): void => {
+      stateId = existingStateId;
+      graphId = existingGraphId;
+    },
+
+    /**
+     * Keeps the persisted run marked as alive until the returned function is called
+     */
+    startHeartbeat: (): (() => void) => {
+      const timer = setInterval(() => {
+        if (stateId) {
+          heartbeatGraphState(stateId).catch(error => {
+            console.error('Error refreshing graph state heartbeat:', error);
+          });
+        }
+      }, GRAPH_HEARTBEAT_INTERVAL_MS);
+      // The heartbeat alone must not keep the process running
+      timer.unref?.();
+
+      return () => clearInterval(timer);
+    },
+
     /**
      * Gets the ID of the current state
      */
@@ -373,3 +642,5 @@ export function createCheckpointer(options: PersistenceOptions = {}) {
     },
   };
 }
+
+export type Checkpointer = ReturnType<typeof createCheckpointer>;
@@ -0,0 +1,168 @@
+/**
+ * LangGraph Recovery
+ *
+ * This file provides the sweep that recovers LangGraph runs left behind by a crashed
+ * or restarted server. Runs of registered resumable graphs are resumed from their last
+ * checkpoint; everything else is marked as failed so it no longer shows as running.
+ */
+
+import { prisma } from 'wasp/server';
+import { LoggingService } from '@src/shared/services/logging';
+import { resumeGraph, isResumableGraph } from './index';
+import {
+  findStalledGraphStates,
+  claimStalledGraphState,
+  markInterruptedNodeExecutions,
+  updateGraphState,
+  GRAPH_STATE_STATUS,
+} from './persistence';
+
+// Types for the recovery sweep
+export interface GraphRecoveryOptions {
+  // Only states that have not been checkpointed for this long are considered stalled
+  staleAfterMs?: number;
+  // Whether resumed runs are awaited (jobs) or left to run in the background (startup)
+  waitForCompletion?: boolean;
+}
+
+export interface GraphRecoveryResult {
+  resumed: string[];
+  failed: string[];
+  skipped: string[];
+}
+
+const DEFAULT_STALE_AFTER_MS = 10 * 60 * 1000;
+
+/**
+ * Finds LangGraph states stuck in the active status and resumes or fails them
+ */
+export async function recoverInterruptedGraphs(
+  options: GraphRecoveryOptions = {}
+): Promise<GraphRecoveryResult> {
+  const staleAfterMs = options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS;
+  const result: GraphRecoveryResult = { resumed: [], failed: [], skipped: [] };
+
+  const stalledStates = await findStalledGraphStates(staleAfterMs);
+
+  LoggingService.info({
+    message: `Found ${stalledStates.length} stalled LangGraph states`,
+    module: 'forgeflow',
+    category: 'LANGGRAPH_RECOVERY',
+    metadata: {
+      staleAfterMs,
+      stateIds: stalledStates.map(s => s.id),
+    },
+  });
+
+  const resumptions: Promise<void>[] = [];
+
+  for (const graphState of stalledStates) {
+    // Another instance may be recovering the same state
+    const claimed = await claimStalledGraphState(graphState.id, graphState.checkpointedAt);
+    if (!claimed) {
+      result.skipped.push(graphState.id);
+      continue;
+    }
+
+    const resumeKey = (graphState.metadata as { resumeKey?: string } | null)?.resumeKey;
+
+    if (!isResumableGraph(resumeKey)) {
+      await failGraphState(graphState.id, graphState.state, graphState.executionId, 'Interrupted by server restart and not resumable');
+      result.failed.push(graphState.id);
+      continue;
+    }
+
+    result.resumed.push(graphState.id);
+    resumptions.push(resumeAndRecord(graphState.id, graphState.executionId));
+  }
+
+  if (options.waitForCompletion) {
+    await Promise.all(resumptions);
+  }
+
+  return result;
+}
+
+/**
+ * Resumes a graph run and records the outcome on its workflow execution
+ */
+async function resumeAndRecord(stateId: string, executionId: string | null): Promise<void> {
+  try {
+    const finalState = await resumeGraph(stateId);
+
+    if (executionId) {
+      await prisma.workflowExecution.update({
+        where: { id: executionId },
+        data: {
+          status: 'completed',
+          completedAt: new Date(),
+          results: finalState,
+        },
+      });
+    }
+
+    LoggingService.info({
+      message: `Resumed LangGraph run completed: ${stateId}`,
+      module: 'forgeflow',
+      category: 'LANGGRAPH_RECOVERY',
+      metadata: {
+        stateId,
+        executionId,
+      },
+    });
+  } catch (error) {
+    LoggingService.error({
+      message: `Resumed LangGraph run failed: ${stateId}`,
+      module: 'forgeflow',
+      category: 'LANGGRAPH_RECOVERY',
+      error,
+      metadata: {
+        stateId,
+        executionId,
+      },
+    });
+
+    if (executionId) {
+      await markWorkflowExecutionFailed(executionId, error.message);
+    }
+  }
+}
+
+/**
+ * Marks a graph state, its running node executions and its workflow execution as failed
+ */
+async function failGraphState(
+  stateId: string,
+  state: any,
+  executionId: string | null,
+  reason: string
+): Promise<void> {
+  await markInterruptedNodeExecutions(stateId, reason);
+  await updateGraphState(stateId, state, GRAPH_STATE_STATUS.FAILED);
+
+  if (executionId) {
+    await markWorkflowExecutionFailed(executionId, reason);
+  }
+
+  LoggingService.warn({
+    message: `Marked interrupted LangGraph run as failed: ${stateId}`,
+    module: 'forgeflow',
+    category: 'LANGGRAPH_RECOVERY',
+    metadata: {
+      stateId,
+      executionId,
+      reason,
+    },
+  });
+}
+
+async function markWorkflowExecutionFailed(executionId: string, reason: string): Promise<void> {
+  await prisma.workflowExecution.update({
+    where: { id: executionId },
+    data: {
+      status: 'failed',
+      completedAt: new Date(),
+      error: reason,
+    },
+  });
+}
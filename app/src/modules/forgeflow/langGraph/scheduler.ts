@@ -0,0 +1,391 @@
+/**
+ * LangGraph Scheduler
+ *
+ * This file provides the execution scheduler shared by the simple (`index.ts`) and
+ * enhanced (`enhancedLangGraph.ts`) graph APIs. It runs independent branches concurrently
+ * up to a concurrency limit, synchronizes branches at join nodes, merges node outputs into
+ * the shared state with reducer functions, and allows cycles through edges that declare
+ * a `maxIterations` bound.
+ */
+
+/**
+ * Merges a value produced by a node into the shared state.
+ *
+ * Nodes return the full state, so reducers also receive the value the node started
+ * from (`previous`) to tell what the node actually added.
+ */
+export type StateReducer<V = any> = (current: V, update: V, previous: V) => V;
+
+// Built-in reducers that can be referenced by name from serializable graph definitions
+export type BuiltInReducer = 'replace' | 'append' | 'merge' | 'sum' | 'max' | 'min';
+
+export type StateReducers = Record<string, StateReducer | BuiltInReducer>;
+
+export const BUILT_IN_REDUCERS: Record<BuiltInReducer, StateReducer> = {
+  replace: (_current, update) => update,
+  append: (current, update, previous) => {
+    const base = Array.isArray(current) ? current : [];
+    const items = Array.isArray(update) ? update : [update];
+    // Only append what the node added on top of the list it started from
+    const added = Array.isArray(previous) ? items.slice(previous.length) : items;
+    return [...base, ...added];
+  },
+  merge: (current, update) => ({ ...(current || {}), ...(update || {}) }),
+  sum: (current, update, previous) => (current || 0) + ((update || 0) - (previous || 0)),
+  max: (current, update) => (current === undefined ? update : Math.max(current, update)),
+  min: (current, update) => (current === undefined ? update : Math.min(current, update)),
+};
+
+export interface SchedulerNode {
+  id: string;
+  // Join nodes wait until every incoming branch has completed
+  join?: boolean;
+  // Reducers applied when merging the outputs of the branches feeding this join
+  reducers?: StateReducers;
+}
+
+export interface SchedulerEdge<T> {
+  source: string;
+  target: string;
+  condition?: (state: T) => boolean;
+  // Number of times this edge may re-activate an already visited node (closes a cycle)
+  maxIterations?: number;
+}
+
+export interface ScheduleOptions<T> {
+  // Nodes to start from
+  initialQueue: string[];
+  // Nodes that already completed (e.g. when resuming a persisted run)
+  visitedNodes?: Set<string>;
+  // Sources that already arrived at each join node (e.g. when resuming a persisted run)
+  joinInputs?: Map<string, Set<string>>;
+  // Times each cycle edge was already taken, keyed by `getEdgeKey` (e.g. when resuming a persisted run)
+  edgeIterations?: Record<string, number>;
+  // Maximum number of nodes running at the same time
+  maxConcurrency?: number;
+  // Maximum number of node executions before the run is stopped
+  maxSteps?: number;
+  // Graph-level reducers used when merging node outputs into the shared state
+  reducers?: StateReducers;
+  // Executes a single node; persistence and logging live in the caller
+  runNode: (nodeId: string, input: T) => Promise<T>;
+  // Called with the merged shared state after every node completes and its outgoing edges are taken
+  onStateMerged?: (state: T, nodeId: string, progress: ScheduleProgress) => Promise<void>;
+}
+
+// Progress of a run that is needed to resume it where it stopped; stored as JSON
+export type ScheduleProgress = {
+  visitedNodes: string[];
+  edgeIterations: Record<string, number>;
+};
+
+export interface ScheduleResult<T> {
+  state: T;
+  visitedNodes: Set<string>;
+  steps: number;
+  stepLimitReached: boolean;
+}
+
+export const DEFAULT_MAX_CONCURRENCY = 4;
+export const DEFAULT_MAX_STEPS = 100;
+
+interface Completion<T> {
+  taskId: number;
+  nodeId: string;
+  input: T;
+  output?: T;
+  error?: unknown;
+}
+
+/**
+ * Gets the key an edge's iteration count is stored under
+ */
+export function getEdgeKey<T>(edge: SchedulerEdge<T>): string {
+  return `${edge.source}->${edge.target}`;
+}
+
+/**
+ * Resolves a reducer given as a function or a built-in name
+ */
+export function resolveReducer(reducer: StateReducer | BuiltInReducer | undefined): StateReducer | undefined {
+  if (!reducer) {
+    return undefined;
+  }
+
+  if (typeof reducer === 'function') {
+    return reducer;
+  }
+
+  const builtIn = BUILT_IN_REDUCERS[reducer];
+  if (!builtIn) {
+    throw new Error(`Unknown state reducer: ${reducer}`);
+  }
+
+  return builtIn;
+}
+
+/**
+ * Merges the keys a node changed into the shared state
+ */
+export function mergeNodeOutput<T>(
+  shared: T,
+  input: T,
+  output: T,
+  reducers: StateReducers = {}
+): T {
+  const merged: any = { ...(shared as any) };
+  const inputRecord = (input || {}) as any;
+
+  for (const [key, value] of Object.entries((output || {}) as any)) {
+    // Keys the node did not touch keep whatever other branches wrote
+    if (key in inputRecord && Object.is(inputRecord[key], value)) {
+      continue;
+    }
+
+    const reducer = resolveReducer(reducers[key]);
+    merged[key] = reducer ? reducer(merged[key], value, inputRecord[key]) : value;
+  }
+
+  return merged as T;
+}
+
+/**
+ * Finds edges that close a cycle (edges pointing back to a node on the current DFS path)
+ */
+export function findBackEdges<T>(
+  nodeIds: string[],
+  edges: SchedulerEdge<T>[],
+  startNodes: string[]
+): Set<SchedulerEdge<T>> {
+  const backEdges = new Set<SchedulerEdge<T>>();
+  const visited = new Set<string>();
+  const onPath = new Set<string>();
+
+  const visit = (nodeId: string) => {
+    visited.add(nodeId);
+    onPath.add(nodeId);
+
+    for (const edge of edges.filter(e => e.source === nodeId)) {
+      if (onPath.has(edge.target)) {
+        backEdges.add(edge);
+      } else if (!visited.has(edge.target)) {
+        visit(edge.target);
+      }
+    }
+
+    onPath.delete(nodeId);
+  };
+
+  // Start from the entry points, then cover nodes that are only reachable through cycles
+  for (const nodeId of [...startNodes, ...nodeIds]) {
+    if (!visited.has(nodeId)) {
+      visit(nodeId);
+    }
+  }
+
+  return backEdges;
+}
+
+/**
+ * Finds the sources a join node has to hear from before it can run; edges closing a
+ * cycle are left out, since they only fire after the join has run
+ */
+export function findExpectedJoinSources<T>(
+  nodeId: string,
+  edges: SchedulerEdge<T>[],
+  backEdges: Set<SchedulerEdge<T>>
+): Set<string> {
+  return new Set(edges.filter(e => e.target === nodeId && !backEdges.has(e)).map(e => e.source));
+}
+
+/**
+ * Finds the nodes of the loop closed by a back edge (reachable from its target and
+ * able to reach its source)
+ */
+function findLoopBody<T>(edge: SchedulerEdge<T>, edges: SchedulerEdge<T>[]): Set<string> {
+  const collect = (from: string, next: (id: string) => string[]) => {
+    const seen = new Set<string>([from]);
+    const stack = [from];
+    while (stack.length > 0) {
+      for (const id of next(stack.pop()!)) {
+        if (!seen.has(id)) {
+          seen.add(id);
+          stack.push(id);
+        }
+      }
+    }
+    return seen;
+  };
+
+  const forward = collect(edge.target, id => edges.filter(e => e.source === id).map(e => e.target));
+  const backward = collect(edge.source, id => edges.filter(e => e.target === id).map(e => e.source));
+
+  return new Set([...forward].filter(id => backward.has(id)));
+}
+
+/**
+ * Runs a graph with concurrent branches, join nodes and bounded cycles
+ */
+export async function runScheduledGraph<T>(
+  nodes: SchedulerNode[],
+  edges: SchedulerEdge<T>[],
+  initialState: T,
+  options: ScheduleOptions<T>
+): Promise<ScheduleResult<T>> {
+  const maxConcurrency = Math.max(1, options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const visitedNodes = options.visitedNodes ?? new Set<string>();
+  const nodeIds = nodes.map(n => n.id);
+  const startNodes = nodeIds.filter(id => !edges.some(e => e.target === id));
+  const backEdges = findBackEdges(nodeIds, edges, startNodes);
+  const edgeIterations = new Map<SchedulerEdge<T>, number>(
+    edges
+      .filter(edge => options.edgeIterations?.[getEdgeKey(edge)])
+      .map(edge => [edge, options.edgeIterations![getEdgeKey(edge)]])
+  );
+
+  // Branches that have already arrived at each join node, keyed by the source node
+  const joinInputs = new Map<string, Set<string>>(options.joinInputs);
+
+  let state = initialState;
+  let steps = 0;
+  let failure: unknown = undefined;
+  let nextTaskId = 0;
+
+  const ready: string[] = [...options.initialQueue];
+  const running = new Map<number, Promise<Completion<T>>>();
+  const runningNodes = new Set<string>();
+
+  const isClaimed = (nodeId: string) =>
+    visitedNodes.has(nodeId) || runningNodes.has(nodeId) || ready.includes(nodeId);
+
+  const expectedJoinSources = (nodeId: string) => findExpectedJoinSources(nodeId, edges, backEdges);
+
+  const activate = (edge: SchedulerEdge<T>) => {
+    if (backEdges.has(edge)) {
+      const iterations = edgeIterations.get(edge) ?? 0;
+      if (iterations >= (edge.maxIterations ?? 0)) {
+        return;
+      }
+      edgeIterations.set(edge, iterations + 1);
+
+      // Start a new iteration of the loop: its nodes may run again
+      for (const nodeId of findLoopBody(edge, edges)) {
+        visitedNodes.delete(nodeId);
+        joinInputs.delete(nodeId);
+      }
+    }
+
+    const target = nodesById.get(edge.target);
+    if (!target) {
+      failure = failure ?? new Error(`Node ${edge.target} not found`);
+      return;
+    }
+
+    if (isClaimed(target.id)) {
+      return;
+    }
+
+    if (!target.join) {
+      ready.push(target.id);
+      return;
+    }
+
+    const inputs = joinInputs.get(target.id) ?? new Set<string>();
+    inputs.add(edge.source);
+    joinInputs.set(target.id, inputs);
+
+    const expected = expectedJoinSources(target.id);
+    if ([...expected].every(source => inputs.has(source))) {
+      joinInputs.delete(target.id);
+      ready.push(target.id);
+    }
+  };
+
+  const dispatch = (nodeId: string) => {
+    const taskId = nextTaskId++;
+    const input = { ...(state as any) } as T;
+
+    runningNodes.add(nodeId);
+    steps++;
+
+    running.set(
+      taskId,
+      options.runNode(nodeId, input).then(
+        output => ({ taskId, nodeId, input, output }),
+        error => ({ taskId, nodeId, input, error })
+      )
+    );
+  };
+
+  while (true) {
+    // Start as many ready nodes as the concurrency limit allows
+    while (failure === undefined && ready.length > 0 && running.size < maxConcurrency && steps < maxSteps) {
+      dispatch(ready.shift()!);
+    }
+
+    if (running.size === 0) {
+      // Joins whose remaining branches were never taken run with what they received
+      const pendingJoin = failure === undefined && steps < maxSteps
+        ? [...joinInputs.keys()].find(nodeId => !isClaimed(nodeId))
+        : undefined;
+
+      if (pendingJoin) {
+        joinInputs.delete(pendingJoin);
+        ready.push(pendingJoin);
+        continue;
+      }
+
+      break;
+    }
+
+    const completion = await Promise.race(running.values());
+    running.delete(completion.taskId);
+    runningNodes.delete(completion.nodeId);
+
+    if (completion.error !== undefined) {
+      // Let branches already in flight finish, then surface the first error
+      failure = failure ?? completion.error;
+      continue;
+    }
+
+    visitedNodes.add(completion.nodeId);
+
+    // Outputs of branches feeding a join are merged with the join's reducers
+    const outgoingEdges = edges.filter(e => e.source === completion.nodeId);
+    const reducers: StateReducers = { ...(options.reducers || {}) };
+    for (const edge of outgoingEdges) {
+      Object.assign(reducers, nodesById.get(edge.target)?.reducers || {});
+    }
+
+    state = mergeNodeOutput(state, completion.input, completion.output as T, reducers);
+
+    if (failure === undefined) {
+      for (const edge of outgoingEdges) {
+        if (!edge.condition || edge.condition(state)) {
+          activate(edge);
+        }
+      }
+    }
+
+    // Checkpoint once the edges are taken, so a resumed run sees the loops already started
+    if (options.onStateMerged) {
+      await options.onStateMerged(state, completion.nodeId, {
+        visitedNodes: [...visitedNodes],
+        edgeIterations: Object.fromEntries([...edgeIterations].map(([edge, count]) => [getEdgeKey(edge), count])),
+      });
+    }
+  }
+
+  if (failure !== undefined) {
+    throw failure;
+  }
+
+  return {
+    state,
+    visitedNodes,
+    steps,
+    stepLimitReached: steps >= maxSteps && (ready.length > 0 || joinInputs.size > 0),
+  };
+}
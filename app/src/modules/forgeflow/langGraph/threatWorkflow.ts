@@ -11,7 +11,8 @@ import {
   addEdge,
   executeGraph,
   createLLMNode,
-  createToolNode
+  createToolNode,
+  registerResumableGraph
 } from './index';
 import { analyzeThreat } from '@src/modules/phantom/services/threatAnalysisService';
 import { LoggingService } from '@src/shared/services/logging';
@@ -25,6 +26,9 @@ export interface ThreatWorkflowState {
   draft_summary?: string;
 }
 
+// Key used to rebuild this workflow when an interrupted run is resumed
+export const THREAT_WORKFLOW_RESUME_KEY = 'forgeflow:threat-workflow';
+
 /**
  * Creates a threat research and drafting workflow
  */
@@ -47,6 +51,7 @@ export function createThreatWorkflow(
     workflowId,
     executionId,
     expiresInDays: 30, // Store for 30 days
+    resumeKey: THREAT_WORKFLOW_RESUME_KEY,
   };
 
   // Create the graph
@@ -127,6 +132,17 @@ Format your response as a well-structured report that could be presented to exec
   return graph;
 }
 
+// Rebuild the workflow from its persisted state so interrupted runs can be resumed
+registerResumableGraph<ThreatWorkflowState>(THREAT_WORKFLOW_RESUME_KEY, (state, options) =>
+  createThreatWorkflow(
+    state.input_threat,
+    state.project_name,
+    options.userId,
+    options.workflowId,
+    options.executionId
+  )
+);
+
 /**
  * Executes a threat research and drafting workflow
  */
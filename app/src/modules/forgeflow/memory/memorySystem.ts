@@ -2,9 +2,11 @@
  * Memory System
  * 
  * This file provides functionality for storing and retrieving memories.
+ * Memories are kept by the memory module's MemoryService with source 'forgeflow'.
  */
 
 import { LoggingService } from '@src/shared/services/logging';
+import { MemoryRecord, MemoryService } from '@src/modules/memory/services/memoryService';
 
 // Memory types
 export enum MemoryType {
@@ -35,12 +37,22 @@ export interface Feedback {
   createdAt: Date;
 }
 
-// In-memory storage for memories (in a real implementation, this would be in a database)
-const memories: Memory[] = [];
-
 // In-memory storage for feedback (in a real implementation, this would be in a database)
 const feedbacks: Feedback[] = [];
 
+function toMemory(record: MemoryRecord, type: MemoryType): Memory {
+  return {
+    id: record.id,
+    userId: record.userId,
+    type,
+    context: record.context || '',
+    content: record.content,
+    importance: record.importance,
+    createdAt: record.createdAt,
+    expiresAt: record.expiresAt,
+  };
+}
+
 /**
  * Stores a memory
  */
@@ -66,22 +78,19 @@ export async function storeMemory(
     },
   });
   
-  // Create the memory
-  const memory: Memory = {
-    id: `mem-${Date.now()}`,
+  // Store the memory
+  const memory = await MemoryService.store({
     userId,
-    type,
+    source: 'forgeflow',
+    contentType: 'fact',
     context,
     content,
     importance,
-    createdAt: new Date(),
+    shortTerm: type === MemoryType.SHORT_TERM,
     expiresAt,
-  };
-  
-  // Store the memory
-  memories.push(memory);
+  });
   
-  return memory;
+  return toMemory(memory, type);
 }
 
 /**
@@ -104,19 +113,18 @@ export async function retrieveMemories(
     },
   });
   
-  // Find memories for the context
-  const contextMemories = memories
-    .filter(m => m.userId === userId && m.context === context)
-    .sort((a, b) => {
-      // Sort by importance (descending) and then by creation date (descending)
-      if (a.importance !== b.importance) {
-        return b.importance - a.importance;
-      }
-      return b.createdAt.getTime() - a.createdAt.getTime();
-    })
-    .slice(0, limit);
+  // Find memories for the context, by importance and then by creation date
+  const contextMemories = await MemoryService.recall({
+    userId,
+    source: 'forgeflow',
+    context,
+    limit,
+    order: 'importance',
+  });
   
-  return contextMemories;
+  return contextMemories.map(memory =>
+    toMemory(memory, memory.expiresAt ? MemoryType.SHORT_TERM : MemoryType.LONG_TERM)
+  );
 }
 
 /**
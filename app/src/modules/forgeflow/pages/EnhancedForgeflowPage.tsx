@@ -9,6 +9,7 @@ import React, { useState } from 'react';
 import { useQuery, useAction } from 'wasp/client/operations';
 import { getAgentTemplates, getWorkflowTemplates, createWorkflow, executeAgentWorkflow } from '../api/operations';
 import { SentientAssistant } from '@src/shared/components/SentientAssistant';
+import { WorkflowExecutionStatus } from '../components/WorkflowExecutionStatus';
 import { ModuleLayout } from '@src/shared/components/layout/ModuleLayout';
 import { ModuleHeader } from '@src/shared/components/branding/ModuleHeader';
 import { ModuleCard } from '@src/shared/components/branding/ModuleCard';
@@ -378,7 +379,7 @@ export default function EnhancedForgeflowPage() {
                           <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                           <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                         </svg>
-                        Executing...
+                        Queueing...
                       </span>
                     ) : (
                       'Execute Workflow'
@@ -395,14 +396,10 @@ export default function EnhancedForgeflowPage() {
                   </button>
                 </div>
 
-                {executionResult && (
+                {executionResult?.executionId && (
                   <div className="mt-4">
-                    <h3 className="font-bold text-sm text-gray-300 mb-2">Execution Result</h3>
-                    <div className="bg-gray-800/50 rounded-lg p-4 overflow-auto max-h-60">
-                      <pre className="text-xs text-gray-300 whitespace-pre-wrap">
-                        {JSON.stringify(executionResult, null, 2)}
-                      </pre>
-                    </div>
+                    <h3 className="font-bold text-sm text-gray-300 mb-2">Execution</h3>
+                    <WorkflowExecutionStatus executionId={executionResult.executionId} />
                   </div>
                 )}
 
@@ -1,5 +1,5 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { useQuery, useAction } from 'wasp/client/operations';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { useQuery, useAction, runWorkflowDesign, getWorkflowExecutionById } from 'wasp/client/operations';
 import {
   getAgentTemplates,
   getWorkflowTemplates,
@@ -9,7 +9,8 @@ import {
 } from '../api/operations';
 import { Node, Edge } from 'reactflow';
 import { SentientAssistant } from '@src/shared/components/SentientAssistant';
-import { WorkflowCanvasWithProvider } from '../components/WorkflowCanvas';
+import { WorkflowCanvasWithProvider, CanvasHighlight } from '../components/WorkflowCanvas';
+import { WorkflowExecutionStatus } from '../components/WorkflowExecutionStatus';
 import { NodePalette } from '../components/NodePalette';
 import { PropertyPanel } from '../components/PropertyPanel';
 import { ForgeflowNav } from '../components/ForgeflowNav';
@@ -18,6 +19,18 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@src/shared/components
 import { Button } from '@src/shared/components/ui/button';
 import { Loader2 } from 'lucide-react';
 
+// A validation problem reported for the design, with canvas IDs
+interface DesignIssue {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+  nodeId?: string;
+  connectionId?: string;
+}
+
+// Statuses after which the execution no longer changes
+const FINAL_EXECUTION_STATUSES = ['completed', 'failed', 'cancelled'];
+
 /**
  * VisualBuilderPage Component
  *
@@ -35,6 +48,7 @@ export default function VisualBuilderPage() {
 
   // Actions
   const saveDesignAction = useAction(saveWorkflowDesign);
+  const runDesignAction = useAction(runWorkflowDesign);
 
   // State for the workflow canvas
   const [nodes, setNodes] = useState<Node[]>([]);
@@ -47,6 +61,24 @@ export default function VisualBuilderPage() {
   const [savedWorkflowId, setSavedWorkflowId] = useState<string | null>(null);
   const [assistantMinimized, setAssistantMinimized] = useState(true);
   const [activeTab, setActiveTab] = useState('editor');
+  // Remounts the canvas when a different design is loaded
+  const [canvasKey, setCanvasKey] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [issues, setIssues] = useState<DesignIssue[]>([]);
+  const [executionId, setExecutionId] = useState<string | null>(null);
+  // Saved node and connection IDs mapped back to the IDs on the canvas
+  const [canvasIds, setCanvasIds] = useState<Record<string, string>>({});
+
+  // Poll the running execution so node statuses show up on the canvas
+  const { data: execution } = useQuery(
+    getWorkflowExecutionById,
+    { executionId: executionId! },
+    {
+      enabled: !!executionId,
+      refetchInterval: (data: any) =>
+        FINAL_EXECUTION_STATUSES.includes(data?.status) ? false : 2000,
+    }
+  );
 
   // Load workflow if workflowId is provided
   useEffect(() => {
@@ -61,6 +93,10 @@ export default function VisualBuilderPage() {
             setNodes(result.nodes);
             setEdges(result.edges);
             setSavedWorkflowId(result.id);
+            setCanvasIds({});
+            setIssues([]);
+            setExecutionId(null);
+            setCanvasKey((key) => key + 1);
           }
         } catch (error) {
           console.error('Error fetching workflow design:', error);
@@ -135,6 +171,93 @@ export default function VisualBuilderPage() {
     }
   };
 
+  // Handle running the design: save it, then queue it unless it has validation errors
+  const handleRunWorkflow = async (canvasNodes: Node[], canvasEdges: Edge[]) => {
+    if (!workflowName || !workflowDescription) {
+      alert('Please provide a name and description for your workflow');
+      return;
+    }
+
+    setNodes(canvasNodes);
+    setEdges(canvasEdges);
+    setIsRunning(true);
+    setExecutionId(null);
+
+    try {
+      const saved = await saveDesignAction({
+        name: workflowName,
+        description: workflowDescription,
+        nodes: canvasNodes,
+        edges: canvasEdges,
+        workflowId: savedWorkflowId,
+      });
+
+      setSavedWorkflowId(saved.id);
+
+      // Saving recreates nodes and connections; keep track of which canvas element each one is
+      const ids: Record<string, string> = {};
+      for (const [canvasId, savedId] of Object.entries({ ...saved.nodeIdMap, ...saved.connectionIdMap })) {
+        ids[savedId as string] = canvasId;
+      }
+      setCanvasIds(ids);
+
+      const run = await runDesignAction({ workflowId: saved.id });
+      setIssues(run.issues as DesignIssue[]);
+
+      if (run.executionId) {
+        setExecutionId(run.executionId);
+      }
+    } catch (error) {
+      console.error('Error running workflow:', error);
+      alert('Error running workflow. Please try again.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Validation issues and node statuses, keyed by canvas ID
+  const canvasIssues = useMemo(
+    () =>
+      issues.map((issue) => ({
+        ...issue,
+        nodeId: issue.nodeId && (canvasIds[issue.nodeId] || issue.nodeId),
+        connectionId: issue.connectionId && (canvasIds[issue.connectionId] || issue.connectionId),
+      })),
+    [issues, canvasIds]
+  );
+
+  const nodeHighlights = useMemo(() => {
+    const highlights: Record<string, CanvasHighlight> = {};
+
+    for (const issue of canvasIssues) {
+      if (issue.nodeId && highlights[issue.nodeId] !== 'error') {
+        highlights[issue.nodeId] = issue.severity;
+      }
+    }
+
+    // The latest execution of each node wins (loops run nodes more than once)
+    const graphState = (execution as any)?.langGraphState;
+    for (const nodeExecution of graphState?.nodeExecutions || []) {
+      const graphNode = graphState.nodes.find((node: any) => node.id === nodeExecution.nodeId);
+      if (graphNode) {
+        const canvasId = canvasIds[graphNode.nodeId] || graphNode.nodeId;
+        highlights[canvasId] = nodeExecution.status as CanvasHighlight;
+      }
+    }
+
+    return highlights;
+  }, [canvasIssues, canvasIds, execution]);
+
+  const edgeHighlights = useMemo(() => {
+    const highlights: Record<string, CanvasHighlight> = {};
+    for (const issue of canvasIssues) {
+      if (issue.connectionId && highlights[issue.connectionId] !== 'error') {
+        highlights[issue.connectionId] = issue.severity;
+      }
+    }
+    return highlights;
+  }, [canvasIssues]);
+
   // Handle creating a new workflow
   const handleNewWorkflow = () => {
     setWorkflowName('');
@@ -144,6 +267,10 @@ export default function VisualBuilderPage() {
     setSavedWorkflowId(null);
     setSelectedNode(null);
     setSelectedEdge(null);
+    setCanvasIds({});
+    setIssues([]);
+    setExecutionId(null);
+    setCanvasKey((key) => key + 1);
     navigate('/forgeflow/visual-builder');
   };
 
@@ -233,17 +360,47 @@ export default function VisualBuilderPage() {
             />
 
             {/* Workflow Canvas */}
-            <div className="flex-grow">
-              <WorkflowCanvasWithProvider
-                initialNodes={nodes}
-                initialEdges={edges}
-                onNodesChange={setNodes}
-                onEdgesChange={setEdges}
-                onSave={(nodes, edges) => {
-                  setNodes(nodes);
-                  setEdges(edges);
-                }}
-              />
+            <div className="flex-grow flex flex-col">
+              <div className="flex-grow">
+                <WorkflowCanvasWithProvider
+                  key={canvasKey}
+                  initialNodes={nodes}
+                  initialEdges={edges}
+                  onNodesChange={setNodes}
+                  onEdgesChange={setEdges}
+                  onSave={(nodes, edges) => {
+                    setNodes(nodes);
+                    setEdges(edges);
+                  }}
+                  onRun={handleRunWorkflow}
+                  isRunning={isRunning}
+                  nodeHighlights={nodeHighlights}
+                  edgeHighlights={edgeHighlights}
+                />
+              </div>
+
+              {/* Validation issues and run status */}
+              {(canvasIssues.length > 0 || executionId) && (
+                <div className="bg-gray-800 border-t border-gray-700 p-4 max-h-64 overflow-y-auto space-y-3">
+                  {canvasIssues.length > 0 && (
+                    <ul className="space-y-1">
+                      {canvasIssues.map((issue, index) => (
+                        <li key={index} className="text-sm flex items-start">
+                          <span
+                            className={`mr-2 px-1.5 py-0.5 rounded text-xs font-medium ${
+                              issue.severity === 'error' ? 'bg-red-600 text-red-100' : 'bg-yellow-600 text-yellow-100'
+                            }`}
+                          >
+                            {issue.severity}
+                          </span>
+                          <span className="text-gray-300">{issue.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {executionId && <WorkflowExecutionStatus executionId={executionId} />}
+                </div>
+              )}
             </div>
 
             {/* Property Panel */}
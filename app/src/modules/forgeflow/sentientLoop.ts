@@ -5,6 +5,7 @@
  */
 
 import { LoggingService } from '@src/shared/services/logging';
+import { ingestSignal } from './signal/signalIngestion';
 
 /**
  * Initializes the Sentient Loop™ for a user
@@ -43,6 +44,9 @@ export async function processThroughSentientLoop(
     },
   });
   
+  // Store, deduplicate and route the signal before it is processed
+  const signal = await ingestSignal(sourceId, data, userId);
+
   // In a real implementation, this would process the data through the Sentient Loop™ system
   // For now, we'll just simulate processing and return a result
   await new Promise(resolve => setTimeout(resolve, 1500));
@@ -50,6 +54,7 @@ export async function processThroughSentientLoop(
   return {
     processed: true,
     timestamp: new Date().toISOString(),
+    signal,
     result: {
       insights: [
         {
@@ -0,0 +1,79 @@
+/**
+ * Visual Workflow Service
+ *
+ * This file loads Visual Builder designs from the database and runs them as LangGraph
+ * graphs through the design compiler.
+ */
+
+import { prisma } from 'wasp/server';
+import { executeGraph } from '../langGraph/index';
+import {
+  CompileDesignOptions,
+  VisualWorkflowState,
+  WorkflowDesignDefinition,
+  compileWorkflowDesign,
+} from '../langGraph/designCompiler';
+
+/**
+ * Loads the saved design of a visual workflow, or null if the workflow has none
+ */
+export async function loadWorkflowDesign(workflowId: string): Promise<WorkflowDesignDefinition | null> {
+  const workflow = await prisma.workflow.findUnique({
+    where: { id: workflowId },
+    include: {
+      visualDesign: {
+        include: {
+          nodes: true,
+          connections: true,
+        },
+      },
+    },
+  });
+
+  if (!workflow?.visualDesign) {
+    return null;
+  }
+
+  return {
+    name: workflow.name,
+    nodes: workflow.visualDesign.nodes.map(node => ({
+      id: node.id,
+      type: node.type,
+      data: (node.data as Record<string, any>) || {},
+    })),
+    connections: workflow.visualDesign.connections.map(connection => ({
+      id: connection.id,
+      sourceId: connection.sourceId,
+      targetId: connection.targetId,
+      sourceHandle: connection.sourceHandle,
+      label: connection.label,
+      maxIterations: connection.maxIterations,
+    })),
+  };
+}
+
+/**
+ * Compiles and runs a design for a queued workflow execution
+ */
+export async function executeWorkflowDesign(
+  design: WorkflowDesignDefinition,
+  execution: { id: string; workflowId: string; userId: string | null; input: unknown },
+  hooks: Pick<CompileDesignOptions, 'beforeNode' | 'afterNode'> = {}
+): Promise<VisualWorkflowState> {
+  const graph = compileWorkflowDesign(design, {
+    ...hooks,
+    input: (execution.input as Record<string, any>) || {},
+    persistenceOptions: {
+      userId: execution.userId ?? undefined,
+      workflowId: execution.workflowId,
+      executionId: execution.id,
+    },
+  });
+
+  // A retried execution starts over; the graph state of the failed attempt is replaced
+  await prisma.langGraphState.deleteMany({
+    where: { executionId: execution.id },
+  });
+
+  return executeGraph(graph);
+}
@@ -0,0 +1,254 @@
+/**
+ * Workflow Queue Service
+ *
+ * This file provides the persistent execution queue for Forgeflow workflows. Executions are
+ * recorded as `WorkflowExecution` rows and handed to the `executeWorkflowJob` PgBoss job, so
+ * they survive client disconnects and are not bound to the HTTP request lifecycle.
+ */
+
+import { prisma } from 'wasp/server';
+import { executeWorkflowJob } from 'wasp/server/jobs';
+import { LoggingService } from '@src/shared/services/logging';
+import { completeTriggeredExecution } from '../triggers/triggerExecutionTracking';
+
+// Status values of a queued workflow execution
+export const WORKFLOW_EXECUTION_STATUS = {
+  QUEUED: 'queued',
+  RUNNING: 'running',
+  CANCELLING: 'cancelling',
+  CANCELLED: 'cancelled',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+} as const;
+
+// Statuses that still occupy a slot in the user's queue
+export const ACTIVE_EXECUTION_STATUSES: string[] = [
+  WORKFLOW_EXECUTION_STATUS.QUEUED,
+  WORKFLOW_EXECUTION_STATUS.RUNNING,
+  WORKFLOW_EXECUTION_STATUS.CANCELLING,
+];
+
+// Maximum number of executions a single user can have running at the same time
+export const MAX_CONCURRENT_EXECUTIONS_PER_USER = Number(
+  process.env.FORGEFLOW_MAX_CONCURRENT_EXECUTIONS_PER_USER || 2
+);
+
+// Maximum number of executions a single user can have waiting in the queue
+export const MAX_QUEUED_EXECUTIONS_PER_USER = Number(
+  process.env.FORGEFLOW_MAX_QUEUED_EXECUTIONS_PER_USER || 20
+);
+
+// Must match `retryLimit` of `executeWorkflowJob` in main.wasp
+export const WORKFLOW_JOB_RETRY_LIMIT = 2;
+
+// Delay before a job deferred by the concurrency limit is picked up again
+export const CONCURRENCY_RETRY_DELAY_SECONDS = 15;
+
+// Attempts at claiming a slot when concurrent claims make the transaction fail to serialize
+const CLAIM_SERIALIZATION_ATTEMPTS = 3;
+
+// Arguments of the execute workflow job
+export interface ExecuteWorkflowJobArgs {
+  executionId: string;
+}
+
+// Progress stored on the execution while it runs
+export interface WorkflowExecutionProgress {
+  completedTasks: number;
+  totalTasks: number;
+  currentTask?: string;
+  updatedAt: string;
+}
+
+/**
+ * Creates a queued execution for a workflow and submits it to the job queue
+ */
+export async function enqueueWorkflowExecution(
+  workflowId: string,
+  userId: string,
+  input: Record<string, any> = {},
+  options: { triggerId?: string } = {}
+) {
+  const queuedCount = await prisma.workflowExecution.count({
+    where: {
+      userId,
+      status: WORKFLOW_EXECUTION_STATUS.QUEUED,
+    },
+  });
+
+  if (queuedCount >= MAX_QUEUED_EXECUTIONS_PER_USER) {
+    throw new Error(`Too many queued workflow executions (limit: ${MAX_QUEUED_EXECUTIONS_PER_USER})`);
+  }
+
+  const execution = await prisma.workflowExecution.create({
+    data: {
+      workflowId,
+      userId,
+      status: WORKFLOW_EXECUTION_STATUS.QUEUED,
+      input,
+      triggerId: options.triggerId,
+    },
+  });
+
+  await submitExecutionJob(execution.id);
+
+  LoggingService.info({
+    message: `Queued workflow execution: ${execution.id}`,
+    userId,
+    module: 'forgeflow',
+    category: 'WORKFLOW_QUEUE',
+    metadata: {
+      workflowId,
+      executionId: execution.id,
+      triggerId: options.triggerId,
+    },
+  });
+
+  return execution;
+}
+
+/**
+ * Submits (or re-submits) the job for an execution and records the job ID
+ */
+export async function submitExecutionJob(executionId: string, startAfterSeconds?: number) {
+  const args: ExecuteWorkflowJobArgs = { executionId };
+  const submittedJob = startAfterSeconds
+    ? await executeWorkflowJob.submit(args, { startAfter: startAfterSeconds })
+    : await executeWorkflowJob.submit(args);
+
+  await prisma.workflowExecution.update({
+    where: { id: executionId },
+    data: { jobId: submittedJob.jobId },
+  });
+}
+
+/**
+ * Atomically moves a queued execution to running if the user has a free slot.
+ * Returns false if the execution is no longer queued or the user is at the limit, and
+ * when concurrent claims keep conflicting, so that the job is deferred like at the limit.
+ */
+export async function claimExecutionSlot(executionId: string, userId: string | null): Promise<boolean> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await claimExecutionSlotOnce(executionId, userId);
+    } catch (error) {
+      // P2034: the transaction conflicted with another claim and can be retried
+      if (error?.code !== 'P2034') {
+        throw error;
+      }
+
+      if (attempt >= CLAIM_SERIALIZATION_ATTEMPTS) {
+        LoggingService.warn({
+          message: `Deferring workflow execution after conflicting slot claims: ${executionId}`,
+          userId: userId ?? undefined,
+          module: 'forgeflow',
+          category: 'WORKFLOW_QUEUE',
+          metadata: {
+            executionId,
+            attempts: attempt,
+          },
+        });
+        return false;
+      }
+    }
+  }
+}
+
+async function claimExecutionSlotOnce(executionId: string, userId: string | null): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    if (userId) {
+      const runningCount = await tx.workflowExecution.count({
+        where: {
+          userId,
+          status: WORKFLOW_EXECUTION_STATUS.RUNNING,
+        },
+      });
+
+      if (runningCount >= MAX_CONCURRENT_EXECUTIONS_PER_USER) {
+        return false;
+      }
+    }
+
+    const claimed = await tx.workflowExecution.updateMany({
+      where: {
+        id: executionId,
+        status: WORKFLOW_EXECUTION_STATUS.QUEUED,
+      },
+      data: {
+        status: WORKFLOW_EXECUTION_STATUS.RUNNING,
+        startedAt: new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+
+    return claimed.count === 1;
+  }, { isolationLevel: 'Serializable' });
+}
+
+/**
+ * Requests cancellation of an execution. Queued executions are cancelled right away;
+ * running executions stop before their next task.
+ *
+ * Each transition only applies while the execution is still in the expected status, so a
+ * worker claiming a queued execution at the same time cannot be overwritten.
+ */
+export async function cancelWorkflowExecution(executionId: string) {
+  const cancelled = await prisma.workflowExecution.updateMany({
+    where: { id: executionId, status: WORKFLOW_EXECUTION_STATUS.QUEUED },
+    data: {
+      status: WORKFLOW_EXECUTION_STATUS.CANCELLED,
+      completedAt: new Date(),
+    },
+  });
+
+  if (cancelled.count === 1) {
+    await completeTriggeredExecution(executionId, WORKFLOW_EXECUTION_STATUS.CANCELLED);
+  } else {
+    // Claimed by a worker in the meantime, or already running
+    await prisma.workflowExecution.updateMany({
+      where: { id: executionId, status: WORKFLOW_EXECUTION_STATUS.RUNNING },
+      data: { status: WORKFLOW_EXECUTION_STATUS.CANCELLING },
+    });
+  }
+
+  const execution = await prisma.workflowExecution.findUnique({
+    where: { id: executionId },
+  });
+
+  if (!execution) {
+    throw new Error(`Workflow execution not found: ${executionId}`);
+  }
+
+  // Already finished or cancelling executions are returned unchanged
+  return execution;
+}
+
+/**
+ * Checks whether cancellation was requested for a running execution
+ */
+export async function isExecutionCancelled(executionId: string): Promise<boolean> {
+  const execution = await prisma.workflowExecution.findUnique({
+    where: { id: executionId },
+    select: { status: true },
+  });
+
+  return !execution || execution.status === WORKFLOW_EXECUTION_STATUS.CANCELLING;
+}
+
+/**
+ * Records the progress of a running execution
+ */
+export async function updateExecutionProgress(
+  executionId: string,
+  progress: Omit<WorkflowExecutionProgress, 'updatedAt'>
+): Promise<void> {
+  await prisma.workflowExecution.update({
+    where: { id: executionId },
+    data: {
+      progress: {
+        ...progress,
+        updatedAt: new Date().toISOString(),
+      },
+    },
+  });
+}
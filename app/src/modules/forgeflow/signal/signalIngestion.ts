@@ -1,10 +1,22 @@
 /**
  * Signal Ingestion
- * 
+ *
  * This file provides functionality for ingesting signals from various sources.
+ *
+ * Data sources are stored per user in the `DataSource` table. Every signal is validated
+ * against the source's schema, normalized, deduplicated by a hash of its content and stored
+ * as a `Signal`, then routed into memory and to workflows subscribed to `SIGNAL_INGESTED`.
+ * Signals from real-time feeds are buffered and written in batches; a full buffer rejects
+ * new signals until it has been flushed. Batches that fail to write go back to the buffer
+ * and are retried at the next flush, up to a few times.
  */
 
+import { z } from 'zod';
+import { prisma } from 'wasp/server';
 import { LoggingService } from '@src/shared/services/logging';
+import { sha256Hash } from '@src/shared/utils/security';
+import { storeMemory, MemoryType } from '../memory/memorySystem';
+import { emitWorkflowEvent } from '../triggers/workflowTriggerService';
 
 // Data source types
 export enum DataSourceType {
@@ -15,18 +27,144 @@ export enum DataSourceType {
   BUSINESS_METRICS = 'business_metrics',
 }
 
+// Field types supported by data source schemas
+const FIELD_TYPES = ['string', 'number', 'boolean', 'timestamp', 'object', 'array'] as const;
+
+// Batching defaults for real-time feeds
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+const DEFAULT_MAX_BUFFERED = 1000;
+
+// Writes of a buffered signal attempted before it is dropped
+const MAX_FLUSH_ATTEMPTS = 5;
+
+// Schema for the configuration of a data source; other keys (URLs, credentials...) are kept as-is
+export const dataSourceConfigSchema = z
+  .object({
+    // Fields signals must (or may) have; values are coerced to the declared type
+    schema: z
+      .object({
+        fields: z.record(
+          z.object({
+            type: z.enum(FIELD_TYPES),
+            required: z.boolean().default(false),
+          })
+        ),
+        allowUnknownFields: z.boolean().default(true),
+      })
+      .optional(),
+    // Paths in the signal data to read the normalized fields from
+    mapping: z
+      .object({
+        kind: z.string(),
+        title: z.string(),
+        timestamp: z.string(),
+      })
+      .partial()
+      .optional(),
+    // Fields that identify a signal for deduplication (defaults to the whole payload)
+    dedupeKeys: z.array(z.string()).min(1).optional(),
+    batching: z
+      .object({
+        batchSize: z.number().int().min(1).max(500).default(DEFAULT_BATCH_SIZE),
+        flushIntervalMs: z.number().int().min(100).max(60000).default(DEFAULT_FLUSH_INTERVAL_MS),
+        maxBuffered: z.number().int().min(1).max(10000).default(DEFAULT_MAX_BUFFERED),
+      })
+      .optional(),
+    routing: z
+      .object({
+        memory: z.boolean().default(true),
+        memoryType: z.enum([MemoryType.SHORT_TERM, MemoryType.LONG_TERM]).default(MemoryType.SHORT_TERM),
+        importance: z.number().min(1).max(5).default(3),
+        workflows: z.boolean().default(true),
+      })
+      .optional(),
+  })
+  .passthrough();
+
+export type DataSourceConfig = z.infer<typeof dataSourceConfigSchema>;
+
 // Data source interface
 export interface DataSource {
   id: string;
   name: string;
   type: DataSourceType;
-  config: any;
+  config: DataSourceConfig;
   userId: string;
+  isActive: boolean;
   createdAt: Date;
 }
 
-// In-memory storage for data sources (in a real implementation, this would be in a database)
-const dataSources: DataSource[] = [];
+// Signal in the common shape shared by all source types
+export interface NormalizedSignal {
+  sourceId: string;
+  sourceName: string;
+  sourceType: DataSourceType;
+  kind: string;
+  title?: string;
+  timestamp: string;
+  payload: Record<string, any>;
+}
+
+export interface IngestSignalResult {
+  // Null while the signal waits in a real-time feed buffer
+  signalId: string | null;
+  duplicate: boolean;
+  queued: boolean;
+  contentHash: string;
+  signal: NormalizedSignal;
+}
+
+/**
+ * Error thrown when a signal does not match the schema of its data source
+ */
+export class SignalValidationError extends Error {
+  issues: string[];
+
+  constructor(sourceName: string, issues: string[]) {
+    super(`Signal does not match the schema of ${sourceName}: ${issues.join('; ')}`);
+    this.name = 'SignalValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error thrown when a real-time feed has more buffered signals than it accepts
+ */
+export class SignalBackpressureError extends Error {
+  constructor(sourceName: string) {
+    super(`Too many buffered signals for ${sourceName}, retry later`);
+    this.name = 'SignalBackpressureError';
+  }
+}
+
+/**
+ * Error thrown when a data source does not exist or belongs to another user
+ */
+export class DataSourceNotFoundError extends Error {
+  constructor(sourceId: string) {
+    super(`Data source ${sourceId} not found`);
+    this.name = 'DataSourceNotFoundError';
+  }
+}
+
+interface PendingSignal {
+  data: Record<string, any>;
+  contentHash: string;
+  signal: NormalizedSignal;
+  // Failed writes of the batches this signal was part of
+  failedFlushes?: number;
+}
+
+interface FeedBuffer {
+  source: DataSource;
+  signals: PendingSignal[];
+  timer?: NodeJS.Timeout;
+  flushing?: Promise<void>;
+}
+
+// Signals of real-time feeds waiting to be written, keyed by data source ID
+const feedBuffers = new Map<string, FeedBuffer>();
 
 /**
  * Registers a new data source
@@ -37,6 +175,8 @@ export async function registerDataSource(
   config: any,
   userId: string
 ): Promise<DataSource> {
+  const validatedConfig = dataSourceConfigSchema.parse(config || {});
+
   // Log the registration
   LoggingService.info({
     message: `Registering data source: ${name}`,
@@ -45,24 +185,32 @@ export async function registerDataSource(
     category: 'SIGNAL_INGESTION',
     metadata: {
       sourceType: type,
-      configKeys: Object.keys(config),
+      configKeys: Object.keys(validatedConfig),
     },
   });
-  
-  // Create the data source
-  const dataSource: DataSource = {
-    id: `ds-${Date.now()}`,
-    name,
-    type,
-    config,
-    userId,
-    createdAt: new Date(),
-  };
-  
-  // Store the data source
-  dataSources.push(dataSource);
-  
-  return dataSource;
+
+  const dataSource = await prisma.dataSource.create({
+    data: {
+      name,
+      type,
+      config: validatedConfig as any,
+      userId,
+    },
+  });
+
+  return toDataSource(dataSource);
+}
+
+/**
+ * Lists the data sources of a user
+ */
+export async function getDataSources(userId: string): Promise<DataSource[]> {
+  const dataSources = await prisma.dataSource.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return dataSources.map(toDataSource);
 }
 
 /**
@@ -72,13 +220,17 @@ export async function ingestSignal(
   sourceId: string,
   data: any,
   userId: string
-): Promise<any> {
-  // Find the data source
-  const dataSource = dataSources.find(ds => ds.id === sourceId && ds.userId === userId);
-  if (!dataSource) {
-    throw new Error(`Data source ${sourceId} not found`);
+): Promise<IngestSignalResult> {
+  // Find the data source; sources of other users look the same as missing ones
+  const record = await prisma.dataSource.findFirst({
+    where: { id: sourceId, userId, isActive: true },
+  });
+  if (!record) {
+    throw new DataSourceNotFoundError(sourceId);
   }
-  
+
+  const dataSource = toDataSource(record);
+
   // Log the ingestion
   LoggingService.info({
     message: `Ingesting signal from ${dataSource.name}`,
@@ -88,98 +240,478 @@ export async function ingestSignal(
     metadata: {
       sourceId,
       sourceType: dataSource.type,
-      dataKeys: Object.keys(data),
+      dataKeys: Object.keys(data || {}),
     },
   });
-  
+
+  const validated = validateSignalData(dataSource, data || {});
+  const signal = normalizeSignal(dataSource, validated);
+  const contentHash = computeContentHash(dataSource, validated);
+
+  if (dataSource.type === DataSourceType.REAL_TIME_FEED) {
+    return bufferFeedSignal(dataSource, { data: validated, contentHash, signal });
+  }
+
+  const existing = await prisma.signal.findUnique({
+    where: { sourceId_contentHash: { sourceId, contentHash } },
+    select: { id: true },
+  });
+  if (existing) {
+    return { signalId: existing.id, duplicate: true, queued: false, contentHash, signal };
+  }
+
+  let stored;
+  try {
+    stored = await prisma.signal.create({
+      data: {
+        sourceId,
+        data: validated as any,
+        normalized: signal as any,
+        contentHash,
+        timestamp: new Date(signal.timestamp),
+      },
+    });
+  } catch (error) {
+    // Another request stored the same signal first
+    if (error.code === 'P2002') {
+      const duplicate = await prisma.signal.findUnique({
+        where: { sourceId_contentHash: { sourceId, contentHash } },
+        select: { id: true },
+      });
+      return { signalId: duplicate?.id ?? null, duplicate: true, queued: false, contentHash, signal };
+    }
+    throw error;
+  }
+
+  await routeSignal(dataSource, stored.id, signal);
+
+  return { signalId: stored.id, duplicate: false, queued: false, contentHash, signal };
+}
+
+/**
+ * Writes all buffered real-time feed signals, e.g. before shutting down
+ */
+export async function flushSignalBuffers(): Promise<void> {
+  await Promise.all(Array.from(feedBuffers.keys()).map(sourceId => flushFeedBuffer(sourceId)));
+}
+
+/**
+ * Validates signal data against the schema of its data source and coerces field types
+ */
+function validateSignalData(dataSource: DataSource, data: Record<string, any>): Record<string, any> {
+  const schema = dataSource.config.schema;
+  if (!schema) {
+    return data;
+  }
+
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const [field, spec] of Object.entries(schema.fields)) {
+    const type = fieldSchema(spec.type);
+    shape[field] = spec.required ? type : type.optional().nullable();
+  }
+
+  const objectSchema = schema.allowUnknownFields ? z.object(shape).passthrough() : z.object(shape).strict();
+  const result = objectSchema.safeParse(data);
+
+  if (!result.success) {
+    throw new SignalValidationError(
+      dataSource.name,
+      result.error.issues.map(issue => `${issue.path.join('.') || 'signal'}: ${issue.message}`)
+    );
+  }
+
+  return result.data;
+}
+
+function fieldSchema(type: (typeof FIELD_TYPES)[number]): z.ZodTypeAny {
+  switch (type) {
+    case 'number':
+      return z.coerce.number();
+    case 'boolean':
+      return z.union([z.boolean(), z.enum(['true', 'false']).transform(value => value === 'true')]);
+    case 'timestamp':
+      return z.coerce.date().transform(date => date.toISOString());
+    case 'object':
+      return z.record(z.any());
+    case 'array':
+      return z.array(z.any());
+    default:
+      return z.string();
+  }
+}
+
+/**
+ * Converts validated signal data into the common signal shape
+ */
+function normalizeSignal(dataSource: DataSource, data: Record<string, any>): NormalizedSignal {
   // Process the signal based on the data source type
+  let defaults: Pick<NormalizedSignal, 'kind' | 'title'> & { timestamp?: any };
   switch (dataSource.type) {
     case DataSourceType.INTERNAL_SYSTEM:
-      return processInternalSystemSignal(dataSource, data);
+      defaults = normalizeInternalSystemSignal(data);
+      break;
     case DataSourceType.EXTERNAL_API:
-      return processExternalApiSignal(dataSource, data);
+      defaults = normalizeExternalApiSignal(data);
+      break;
     case DataSourceType.REAL_TIME_FEED:
-      return processRealTimeFeedSignal(dataSource, data);
+      defaults = normalizeRealTimeFeedSignal(data);
+      break;
     case DataSourceType.USER_INTERACTION:
-      return processUserInteractionSignal(dataSource, data);
+      defaults = normalizeUserInteractionSignal(data);
+      break;
     case DataSourceType.BUSINESS_METRICS:
-      return processBusinessMetricsSignal(dataSource, data);
+      defaults = normalizeBusinessMetricsSignal(data);
+      break;
     default:
       throw new Error(`Unsupported data source type: ${dataSource.type}`);
   }
+
+  // Explicit mappings win over the defaults of the source type
+  const mapping = dataSource.config.mapping || {};
+  const kind = mapping.kind ? readPath(data, mapping.kind) : defaults.kind;
+  const title = mapping.title ? readPath(data, mapping.title) : defaults.title;
+  const timestamp = parseTimestamp(mapping.timestamp ? readPath(data, mapping.timestamp) : defaults.timestamp);
+
+  return {
+    sourceId: dataSource.id,
+    sourceName: dataSource.name,
+    sourceType: dataSource.type,
+    kind: String(kind ?? defaults.kind),
+    title: title != null ? String(title) : undefined,
+    timestamp,
+    payload: data,
+  };
 }
 
 /**
- * Processes a signal from an internal system
+ * Normalizes a signal from an internal system
  */
-function processInternalSystemSignal(dataSource: DataSource, data: any): any {
-  // In a real implementation, this would process the signal
-  // For now, we'll just return the data
+function normalizeInternalSystemSignal(data: Record<string, any>) {
   return {
-    processed: true,
-    source: dataSource.name,
-    type: 'internal_system',
-    timestamp: new Date().toISOString(),
-    data,
+    kind: data.event ?? data.type ?? 'event',
+    title: data.message ?? data.title,
+    timestamp: data.timestamp,
   };
 }
 
 /**
- * Processes a signal from an external API
+ * Normalizes a signal from an external API
  */
-function processExternalApiSignal(dataSource: DataSource, data: any): any {
-  // In a real implementation, this would process the signal
-  // For now, we'll just return the data
+function normalizeExternalApiSignal(data: Record<string, any>) {
   return {
-    processed: true,
-    source: dataSource.name,
-    type: 'external_api',
-    timestamp: new Date().toISOString(),
-    data,
+    kind: data.type ?? 'record',
+    title: data.title ?? data.name,
+    timestamp: data.timestamp ?? data.updatedAt ?? data.createdAt,
   };
 }
 
 /**
- * Processes a signal from a real-time feed
+ * Normalizes a signal from a real-time feed
  */
-function processRealTimeFeedSignal(dataSource: DataSource, data: any): any {
-  // In a real implementation, this would process the signal
-  // For now, we'll just return the data
+function normalizeRealTimeFeedSignal(data: Record<string, any>) {
   return {
-    processed: true,
-    source: dataSource.name,
-    type: 'real_time_feed',
-    timestamp: new Date().toISOString(),
-    data,
+    kind: data.type ?? 'update',
+    title: data.title ?? data.symbol,
+    timestamp: data.timestamp ?? data.ts,
   };
 }
 
 /**
- * Processes a signal from a user interaction
+ * Normalizes a signal from a user interaction
  */
-function processUserInteractionSignal(dataSource: DataSource, data: any): any {
-  // In a real implementation, this would process the signal
-  // For now, we'll just return the data
+function normalizeUserInteractionSignal(data: Record<string, any>) {
   return {
-    processed: true,
-    source: dataSource.name,
-    type: 'user_interaction',
-    timestamp: new Date().toISOString(),
-    data,
+    kind: data.action ?? data.type ?? 'interaction',
+    title: data.target ?? data.page,
+    timestamp: data.timestamp,
   };
 }
 
 /**
- * Processes a signal from business metrics
+ * Normalizes a signal from business metrics
  */
-function processBusinessMetricsSignal(dataSource: DataSource, data: any): any {
-  // In a real implementation, this would process the signal
-  // For now, we'll just return the data
+function normalizeBusinessMetricsSignal(data: Record<string, any>) {
   return {
-    processed: true,
-    source: dataSource.name,
-    type: 'business_metrics',
-    timestamp: new Date().toISOString(),
-    data,
+    kind: 'metric',
+    title: data.metric ?? data.name,
+    timestamp: data.timestamp ?? data.period,
   };
 }
+
+/**
+ * Hashes the identifying content of a signal
+ */
+function computeContentHash(dataSource: DataSource, data: Record<string, any>): string {
+  const keys = dataSource.config.dedupeKeys;
+  const content = keys ? keys.map(key => readPath(data, key)) : data;
+  return sha256Hash(stableStringify(content));
+}
+
+/**
+ * Adds a real-time feed signal to the buffer of its source, flushing it when full
+ */
+async function bufferFeedSignal(dataSource: DataSource, pending: PendingSignal): Promise<IngestSignalResult> {
+  const { batchSize, flushIntervalMs, maxBuffered } = {
+    batchSize: DEFAULT_BATCH_SIZE,
+    flushIntervalMs: DEFAULT_FLUSH_INTERVAL_MS,
+    maxBuffered: DEFAULT_MAX_BUFFERED,
+    ...dataSource.config.batching,
+  };
+
+  let buffer = feedBuffers.get(dataSource.id);
+  if (!buffer) {
+    buffer = { source: dataSource, signals: [] };
+    feedBuffers.set(dataSource.id, buffer);
+  }
+  // Pick up configuration changes
+  buffer.source = dataSource;
+
+  const result = { signalId: null, queued: true, contentHash: pending.contentHash, signal: pending.signal };
+
+  if (buffer.signals.some(signal => signal.contentHash === pending.contentHash)) {
+    return { ...result, duplicate: true };
+  }
+
+  if (buffer.signals.length >= maxBuffered) {
+    throw new SignalBackpressureError(dataSource.name);
+  }
+
+  buffer.signals.push(pending);
+
+  if (buffer.signals.length >= batchSize) {
+    await flushFeedBuffer(dataSource.id);
+  } else if (!buffer.timer) {
+    buffer.timer = setTimeout(() => {
+      flushFeedBuffer(dataSource.id).catch(error => logFlushError(dataSource, error));
+    }, flushIntervalMs);
+  }
+
+  return { ...result, duplicate: false };
+}
+
+/**
+ * Logs an error of a flush that has no caller to report it to
+ */
+function logFlushError(dataSource: DataSource, error: unknown): void {
+  LoggingService.error({
+    message: `Failed to flush signal buffer of ${dataSource.name}`,
+    userId: dataSource.userId,
+    module: 'forgeflow',
+    category: 'SIGNAL_INGESTION',
+    error,
+    metadata: {
+      sourceId: dataSource.id,
+    },
+  });
+}
+
+/**
+ * Writes the buffered signals of a real-time feed and routes the new ones
+ */
+async function flushFeedBuffer(sourceId: string): Promise<void> {
+  const buffer = feedBuffers.get(sourceId);
+  if (!buffer) {
+    return;
+  }
+
+  // One flush per source at a time
+  if (buffer.flushing) {
+    await buffer.flushing;
+    return flushFeedBuffer(sourceId);
+  }
+
+  if (buffer.timer) {
+    clearTimeout(buffer.timer);
+    buffer.timer = undefined;
+  }
+
+  const batch = buffer.signals.splice(0, buffer.source.config.batching?.batchSize ?? DEFAULT_BATCH_SIZE);
+  if (batch.length === 0) {
+    feedBuffers.delete(sourceId);
+    return;
+  }
+
+  buffer.flushing = (async () => {
+    let stored: Array<{ id: string; contentHash: string }>;
+
+    try {
+      // Signals already stored by an earlier batch are skipped
+      stored = await prisma.signal.createManyAndReturn({
+        data: batch.map(pending => ({
+          sourceId,
+          data: pending.data as any,
+          normalized: pending.signal as any,
+          contentHash: pending.contentHash,
+          timestamp: new Date(pending.signal.timestamp),
+        })),
+        skipDuplicates: true,
+        select: { id: true, contentHash: true },
+      });
+    } catch (error) {
+      // Put the batch back in front of newer signals; signals that keep failing are dropped
+      const retried = batch
+        .map(pending => ({ ...pending, failedFlushes: (pending.failedFlushes ?? 0) + 1 }))
+        .filter(pending => pending.failedFlushes < MAX_FLUSH_ATTEMPTS);
+      buffer.signals.unshift(...retried);
+
+      LoggingService.error({
+        message: `Failed to write signal batch from ${buffer.source.name}`,
+        userId: buffer.source.userId,
+        module: 'forgeflow',
+        category: 'SIGNAL_INGESTION',
+        error,
+        metadata: {
+          sourceId,
+          batchSize: batch.length,
+          retried: retried.length,
+          droppedContentHashes: batch
+            .filter(pending => !retried.some(signal => signal.contentHash === pending.contentHash))
+            .map(pending => pending.contentHash),
+        },
+      });
+      return;
+    }
+
+    // Stored signals are not written again, so routing failures are only logged
+    try {
+      for (const row of stored) {
+        const pending = batch.find(signal => signal.contentHash === row.contentHash);
+        if (pending) {
+          await routeSignal(buffer.source, row.id, pending.signal);
+        }
+      }
+    } catch (error) {
+      logFlushError(buffer.source, error);
+    }
+  })();
+
+  try {
+    await buffer.flushing;
+  } finally {
+    buffer.flushing = undefined;
+  }
+
+  // Anything that arrived during the flush gets its own timer
+  if (buffer.signals.length > 0) {
+    if (!buffer.timer) {
+      buffer.timer = setTimeout(() => {
+        flushFeedBuffer(sourceId).catch(error => logFlushError(buffer.source, error));
+      }, buffer.source.config.batching?.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS);
+    }
+  } else {
+    feedBuffers.delete(sourceId);
+  }
+}
+
+/**
+ * Routes a stored signal into memory and to subscribed workflows, then marks it processed
+ */
+async function routeSignal(dataSource: DataSource, signalId: string, signal: NormalizedSignal): Promise<void> {
+  const routing = {
+    memory: true,
+    memoryType: MemoryType.SHORT_TERM,
+    importance: 3,
+    workflows: true,
+    ...dataSource.config.routing,
+  };
+
+  try {
+    if (routing.memory) {
+      await storeMemory(
+        dataSource.userId,
+        routing.memoryType,
+        `signal:${dataSource.name}`,
+        signal,
+        routing.importance
+      );
+    }
+
+    if (routing.workflows) {
+      // Workflows filter on the top-level fields, e.g. { sourceName: 'Stripe', kind: 'charge.failed' }
+      await emitWorkflowEvent('SIGNAL_INGESTED', {
+        userId: dataSource.userId,
+        eventId: signalId,
+        payload: { signalId, ...signal },
+      });
+    }
+
+    await prisma.signal.update({
+      where: { id: signalId },
+      data: { processed: true, processedAt: new Date() },
+    });
+  } catch (error) {
+    LoggingService.error({
+      message: `Failed to route signal from ${dataSource.name}`,
+      userId: dataSource.userId,
+      module: 'forgeflow',
+      category: 'SIGNAL_INGESTION',
+      error,
+      metadata: {
+        sourceId: dataSource.id,
+        signalId,
+      },
+    });
+
+    await prisma.signal.update({
+      where: { id: signalId },
+      data: { error: error.message || 'Failed to route signal' },
+    });
+  }
+}
+
+function toDataSource(record: {
+  id: string;
+  name: string;
+  type: string;
+  config: unknown;
+  userId: string;
+  isActive: boolean;
+  createdAt: Date;
+}): DataSource {
+  return {
+    id: record.id,
+    name: record.name,
+    type: record.type as DataSourceType,
+    // Sources registered before their configuration was validated keep what they have
+    config: (dataSourceConfigSchema.safeParse(record.config || {}).data ?? record.config ?? {}) as DataSourceConfig,
+    userId: record.userId,
+    isActive: record.isActive,
+    createdAt: record.createdAt,
+  };
+}
+
+function parseTimestamp(value: unknown): string {
+  if (value != null && value !== '') {
+    const date = typeof value === 'number'
+      // Unix seconds or milliseconds
+      ? new Date(value < 1e12 ? value * 1000 : value)
+      : new Date(String(value));
+    if (!Number.isNaN(date.getTime())) {
+      return date.toISOString();
+    }
+  }
+
+  return new Date().toISOString();
+}
+
+function readPath(data: Record<string, any>, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data as any);
+}
+
+/**
+ * Serializes a value with sorted object keys so equal content hashes the same
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
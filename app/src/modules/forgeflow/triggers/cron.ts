@@ -0,0 +1,177 @@
+/**
+ * Cron Expressions
+ *
+ * This file provides a small parser and matcher for standard five-field cron expressions
+ * (minute, hour, day of month, month, day of week) used by scheduled workflow triggers.
+ * Lists (`1,15`), ranges (`1-5`), steps (`*\/10`, `0-30/5`) and month/day names are supported.
+ */
+
+interface CronField {
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+export interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+/**
+ * Parses a five-field cron expression, throwing on invalid input
+ */
+export function parseCron(expression: string): ParsedCron {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, CRON_FIELDS[index], expression)
+  );
+
+  // Sunday can be written as 0 or 7
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+/**
+ * Checks whether a cron expression is valid
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether a cron expression matches the minute of a date in the given time zone
+ */
+export function matchesCron(expression: string | ParsedCron, date: Date, timezone?: string): boolean {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  const parts = getDateParts(date, timezone);
+
+  if (!cron.minutes.has(parts.minute) || !cron.hours.has(parts.hour) || !cron.months.has(parts.month)) {
+    return false;
+  }
+
+  const dayOfMonthMatches = cron.daysOfMonth.has(parts.dayOfMonth);
+  const dayOfWeekMatches = cron.daysOfWeek.has(parts.dayOfWeek);
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+function parseField(part: string, field: CronField, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of part.split(',')) {
+    const [rangePart, stepPart] = item.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron expression "${expression}": bad step in "${item}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, field, expression);
+      end = parseValue(to, field, expression);
+    } else {
+      start = parseValue(rangePart, field, expression);
+      // "5/15" means every 15 starting at 5
+      end = stepPart === undefined ? start : field.max;
+    }
+
+    if (start > end) {
+      throw new Error(`Invalid cron expression "${expression}": empty range "${item}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(value: string, field: CronField, expression: string): number {
+  const nameIndex = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  const parsed = nameIndex >= 0 ? nameIndex + (field.min === 1 ? 1 : 0) : Number(value);
+
+  if (!Number.isInteger(parsed) || parsed < field.min || parsed > field.max) {
+    throw new Error(`Invalid cron expression "${expression}": "${value}" is out of range`);
+  }
+
+  return parsed;
+}
+
+function getDateParts(date: Date, timezone?: string) {
+  if (!timezone) {
+    return {
+      minute: date.getUTCMinutes(),
+      hour: date.getUTCHours(),
+      dayOfMonth: date.getUTCDate(),
+      month: date.getUTCMonth() + 1,
+      dayOfWeek: date.getUTCDay(),
+    };
+  }
+
+  const formatted = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    minute: 'numeric',
+    hour: 'numeric',
+    day: 'numeric',
+    month: 'numeric',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const get = (type: string) => formatted.find(p => p.type === type)?.value ?? '';
+
+  return {
+    minute: Number(get('minute')),
+    hour: Number(get('hour')),
+    dayOfMonth: Number(get('day')),
+    month: Number(get('month')),
+    dayOfWeek: CRON_FIELDS[4].names!.indexOf(get('weekday').toLowerCase()),
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Trigger Execution Tracking
+ *
+ * This file records the lifecycle of triggered workflow executions on their `AgentTrigger`
+ * and `TriggerExecutionFlow` rows. Every attempt of the queued execution is recorded as a
+ * step of the trigger's execution flow, so the trigger dashboard shows retries as well.
+ */
+
+import { prisma } from 'wasp/server';
+import { TriggerTrackingService } from '@src/shared/services/triggerTrackingService';
+
+// Step type of a single attempt of a triggered workflow execution
+export const WORKFLOW_ATTEMPT_STEP_TYPE = 'WORKFLOW_ATTEMPT';
+
+/**
+ * Marks the trigger of an execution as processing and records the attempt that started
+ */
+export async function recordTriggeredAttemptStarted(executionId: string): Promise<void> {
+  const execution = await prisma.workflowExecution.findUnique({
+    where: { id: executionId },
+    select: { triggerId: true, attempts: true, input: true },
+  });
+
+  if (!execution?.triggerId) {
+    return;
+  }
+
+  await TriggerTrackingService.updateTrigger({
+    id: execution.triggerId,
+    status: 'PROCESSING',
+    executionId,
+  });
+
+  const step = await TriggerTrackingService.recordExecutionStep({
+    triggerId: execution.triggerId,
+    executionId,
+    stepNumber: execution.attempts,
+    stepType: WORKFLOW_ATTEMPT_STEP_TYPE,
+    stepName: `Attempt ${execution.attempts}`,
+    input: (execution.input as Record<string, any>) || {},
+  });
+
+  await prisma.triggerExecutionFlow.update({
+    where: { id: step.id },
+    data: { status: 'RUNNING' },
+  });
+}
+
+/**
+ * Records that the current attempt of a triggered execution failed and will be retried
+ */
+export async function recordTriggeredAttemptFailed(executionId: string, error: string): Promise<void> {
+  await finishRunningStep(executionId, 'FAILED', { error });
+}
+
+/**
+ * Completes the trigger of an execution that reached a final status
+ */
+export async function completeTriggeredExecution(
+  executionId: string,
+  status: string,
+  data: { results?: any; error?: string } = {}
+): Promise<void> {
+  const execution = await prisma.workflowExecution.findUnique({
+    where: { id: executionId },
+    select: { triggerId: true, trigger: { select: { timestamp: true } } },
+  });
+
+  if (!execution?.triggerId || !execution.trigger) {
+    return;
+  }
+
+  const succeeded = status === 'completed';
+  const error = succeeded ? undefined : data.error || `Workflow execution ${status}`;
+
+  await finishRunningStep(executionId, succeeded ? 'COMPLETED' : 'FAILED', {
+    output: succeeded ? { results: data.results } : undefined,
+    error,
+  });
+
+  await TriggerTrackingService.updateTrigger({
+    id: execution.triggerId,
+    status: succeeded ? 'COMPLETED' : 'FAILED',
+    executionId,
+    error,
+    duration: Date.now() - execution.trigger.timestamp.getTime(),
+  });
+}
+
+async function finishRunningStep(
+  executionId: string,
+  status: 'COMPLETED' | 'FAILED',
+  data: { output?: Record<string, any>; error?: string }
+): Promise<void> {
+  const step = await prisma.triggerExecutionFlow.findFirst({
+    where: {
+      executionId,
+      stepType: WORKFLOW_ATTEMPT_STEP_TYPE,
+      status: 'RUNNING',
+    },
+    orderBy: { stepNumber: 'desc' },
+  });
+
+  if (!step) {
+    return;
+  }
+
+  await TriggerTrackingService.updateExecutionStep({
+    id: step.id,
+    status,
+    output: data.output,
+    error: data.error,
+    duration: Date.now() - step.startedAt.getTime(),
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * Workflow Webhook
+ *
+ * This file provides the public endpoint that starts a workflow from an external system.
+ * Requests must be signed with the workflow's webhook secret:
+ *
+ *   X-Cauldron-Timestamp: <unix seconds>
+ *   X-Cauldron-Signature: hex(HMAC-SHA256(secret, `${timestamp}.${rawBody}`))
+ *   X-Cauldron-Delivery: <optional unique delivery ID, used to ignore redeliveries>
+ *
+ * The JSON body is passed to the workflow as the trigger payload.
+ */
+
+import crypto from 'crypto';
+import express from 'express';
+import { type MiddlewareConfigFn, HttpError, prisma } from 'wasp/server';
+import { type ForgeflowWorkflowWebhook } from 'wasp/server/api';
+import { TriggerSourceType } from '@prisma/client';
+import { LoggingService } from '@src/shared/services/logging';
+import { fireWorkflowTrigger, parseWorkflowTriggers } from './workflowTriggerService';
+
+// Requests signed longer ago than this are rejected to prevent replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Computes the signature of a webhook request
+ */
+export function signWebhookPayload(secret: string, timestamp: string, rawBody: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+/**
+ * Verifies the signature and timestamp of a webhook request
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string | undefined,
+  rawBody: string,
+  signature: string | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!timestamp || !signature) {
+    return false;
+  }
+
+  const age = Math.abs(now.getTime() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, rawBody), 'utf8');
+  const received = Buffer.from(signature, 'utf8');
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+export const forgeflowWorkflowWebhook: ForgeflowWorkflowWebhook = async (request, response) => {
+  const { workflowId } = request.params;
+
+  try {
+    const workflow = await prisma.workflow.findUnique({
+      where: { id: workflowId },
+      select: { id: true, userId: true, isActive: true, triggers: true },
+    });
+
+    const webhook = parseWorkflowTriggers(workflow?.triggers).webhook;
+
+    // Unknown workflows and disabled webhooks look the same to callers
+    if (!workflow || !workflow.isActive || !webhook?.enabled || !webhook.secret) {
+      throw new HttpError(404, 'Webhook not found');
+    }
+
+    const rawBody = Buffer.isBuffer(request.body) ? request.body.toString('utf8') : '';
+
+    if (!verifyWebhookSignature(webhook.secret, request.get('X-Cauldron-Timestamp'), rawBody, request.get('X-Cauldron-Signature'))) {
+      throw new HttpError(401, 'Invalid signature');
+    }
+
+    let payload: Record<string, any>;
+    try {
+      payload = rawBody ? JSON.parse(rawBody) : {};
+    } catch {
+      throw new HttpError(400, 'Request body must be valid JSON');
+    }
+
+    const deliveryId = request.get('X-Cauldron-Delivery');
+
+    if (deliveryId) {
+      const existing = await prisma.agentTrigger.findFirst({
+        where: {
+          workflowId: workflow.id,
+          sourceType: TriggerSourceType.WEBHOOK,
+          originatingEventId: deliveryId,
+        },
+      });
+
+      if (existing) {
+        response.status(200).json({ triggerId: existing.id, executionId: existing.executionId, duplicate: true });
+        return;
+      }
+    }
+
+    const { trigger, execution } = await fireWorkflowTrigger({
+      workflowId: workflow.id,
+      userId: workflow.userId,
+      sourceType: TriggerSourceType.WEBHOOK,
+      sourceName: 'Forgeflow workflow webhook',
+      payload,
+      originatingEventId: deliveryId,
+      tags: ['webhook'],
+    });
+
+    response.status(202).json({ triggerId: trigger.id, executionId: execution.id });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      response.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+
+    LoggingService.error({
+      message: `Error processing workflow webhook: ${workflowId}`,
+      module: 'forgeflow',
+      category: 'WORKFLOW_TRIGGER',
+      error,
+      metadata: { workflowId },
+    });
+
+    response.status(500).json({ error: 'Failed to process webhook' });
+  }
+};
+
+export const forgeflowWorkflowWebhookMiddlewareConfigFn: MiddlewareConfigFn = (middlewareConfig) => {
+  // The signature is computed over the raw body, so it must not be parsed as JSON first
+  middlewareConfig.delete('express.json');
+  middlewareConfig.set('express.raw', express.raw({ type: '*/*', limit: '1mb' }));
+  return middlewareConfig;
+};
@@ -0,0 +1,393 @@
+/**
+ * Workflow Trigger Service
+ *
+ * This file provides the triggers that start Forgeflow workflows without a user clicking
+ * "Execute": cron schedules, signed webhooks and platform events (security alerts, OSINT
+ * findings, revenue alerts, ingested signals). Trigger configuration lives in `Workflow.triggers`; every
+ * firing is recorded through the `TriggerTrackingService` and queued as a workflow execution.
+ */
+
+import crypto from 'crypto';
+import { z } from 'zod';
+import { prisma } from 'wasp/server';
+import { TriggerSourceType } from '@prisma/client';
+import { LoggingService } from '@src/shared/services/logging';
+import { TriggerTrackingService } from '@src/shared/services/triggerTrackingService';
+import { enqueueWorkflowExecution } from '../services/workflowQueueService';
+import { isValidCron, matchesCron } from './cron';
+
+// Platform events that can start a workflow; emitted with `emitWorkflowEvent` where the records are created
+export const WORKFLOW_EVENT_TYPES = [
+  'SECURITY_ALERT_CREATED',
+  'OSINT_FINDING_CREATED',
+  'REVENUE_ALERT_CREATED',
+  'SIGNAL_INGESTED',
+] as const;
+
+export type WorkflowEventType = (typeof WORKFLOW_EVENT_TYPES)[number];
+
+// Maximum number of each trigger kind on a single workflow
+const MAX_CRON_TRIGGERS = 10;
+const MAX_EVENT_TRIGGERS = 20;
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Schema for the trigger configuration submitted by users
+export const workflowTriggersSchema = z.object({
+  cron: z
+    .array(
+      z.object({
+        expression: z.string().refine(isValidCron, 'Invalid cron expression'),
+        timezone: z.string().refine(isValidTimezone, 'Invalid time zone').optional(),
+        enabled: z.boolean().default(true),
+        input: z.record(z.any()).optional(),
+      })
+    )
+    .max(MAX_CRON_TRIGGERS)
+    .optional(),
+  webhook: z
+    .object({
+      enabled: z.boolean().default(true),
+    })
+    .optional(),
+  events: z
+    .array(
+      z.object({
+        type: z.enum(WORKFLOW_EVENT_TYPES),
+        enabled: z.boolean().default(true),
+        // Only events whose payload has these values (e.g. { severity: ['high', 'critical'] }) match
+        filter: z.record(z.union([z.string(), z.number(), z.boolean(), z.array(z.union([z.string(), z.number()]))])).optional(),
+      })
+    )
+    .max(MAX_EVENT_TRIGGERS)
+    .optional(),
+});
+
+export type WorkflowTriggersInput = z.infer<typeof workflowTriggersSchema>;
+
+// Trigger configuration as stored on the workflow
+export interface WorkflowTriggers {
+  cron?: Array<NonNullable<WorkflowTriggersInput['cron']>[number] & { lastRunAt?: string }>;
+  webhook?: { enabled: boolean; secret: string };
+  events?: NonNullable<WorkflowTriggersInput['events']>;
+}
+
+export interface FireWorkflowTriggerParams {
+  workflowId: string;
+  userId: string;
+  sourceType: TriggerSourceType;
+  sourceName: string;
+  payload?: Record<string, any>;
+  input?: Record<string, any>;
+  originatingEventId?: string;
+  tags?: string[];
+}
+
+export interface WorkflowEvent {
+  userId: string;
+  eventId: string;
+  payload: Record<string, any>;
+}
+
+/**
+ * Reads the trigger configuration stored on a workflow
+ */
+export function parseWorkflowTriggers(triggers: unknown): WorkflowTriggers {
+  if (!triggers || typeof triggers !== 'object' || Array.isArray(triggers)) {
+    return {};
+  }
+
+  return triggers as WorkflowTriggers;
+}
+
+/**
+ * Builds the trigger configuration to store from user input, keeping server-managed
+ * fields (webhook secret, last cron run) from the existing configuration
+ */
+export function buildWorkflowTriggers(
+  input: WorkflowTriggersInput | undefined,
+  existing: unknown = {},
+  options: { rotateWebhookSecret?: boolean } = {}
+): WorkflowTriggers {
+  const current = parseWorkflowTriggers(existing);
+  const triggers: WorkflowTriggers = {};
+
+  if (input?.cron?.length) {
+    triggers.cron = input.cron.map(entry => ({
+      ...entry,
+      lastRunAt: current.cron?.find(c => c.expression === entry.expression && c.timezone === entry.timezone)?.lastRunAt,
+    }));
+  }
+
+  if (input?.webhook) {
+    triggers.webhook = {
+      enabled: input.webhook.enabled,
+      secret: !options.rotateWebhookSecret && current.webhook?.secret
+        ? current.webhook.secret
+        : generateWebhookSecret(),
+    };
+  }
+
+  if (input?.events?.length) {
+    triggers.events = input.events;
+  }
+
+  return triggers;
+}
+
+/**
+ * Generates a secret used to sign webhook requests for a workflow
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * Records a trigger and queues an execution of the workflow it targets
+ */
+export async function fireWorkflowTrigger(params: FireWorkflowTriggerParams) {
+  const source = await prisma.triggerSource.upsert({
+    where: {
+      name_type: {
+        name: params.sourceName,
+        type: params.sourceType,
+      },
+    },
+    update: {},
+    create: {
+      name: params.sourceName,
+      type: params.sourceType,
+      moduleId: 'forgeflow',
+      configuration: {},
+    },
+  });
+
+  const trigger = await TriggerTrackingService.recordTrigger({
+    sourceId: source.id,
+    sourceType: params.sourceType,
+    workflowId: params.workflowId,
+    userId: params.userId,
+    originatingEventId: params.originatingEventId,
+    payload: params.payload,
+    tags: ['forgeflow', 'workflow', ...(params.tags || [])],
+  });
+
+  try {
+    const execution = await enqueueWorkflowExecution(
+      params.workflowId,
+      params.userId,
+      {
+        ...(params.input || {}),
+        trigger: {
+          id: trigger.id,
+          type: params.sourceType,
+          source: params.sourceName,
+          payload: params.payload || {},
+        },
+      },
+      { triggerId: trigger.id }
+    );
+
+    return { trigger, execution };
+  } catch (error) {
+    // e.g. the user's queue is full
+    await TriggerTrackingService.updateTrigger({
+      id: trigger.id,
+      status: 'FAILED',
+      error: error.message || 'Failed to queue workflow execution',
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Fires the cron triggers that are due at the given minute
+ */
+export async function dispatchDueCronTriggers(now: Date = new Date()) {
+  const result = { fired: 0, failed: 0 };
+
+  const workflows = await prisma.workflow.findMany({
+    where: {
+      isActive: true,
+      triggers: {
+        path: ['cron'],
+        array_contains: [{ enabled: true }],
+      },
+    },
+    select: {
+      id: true,
+      userId: true,
+      updatedAt: true,
+      triggers: true,
+    },
+  });
+
+  for (const workflow of workflows) {
+    const triggers = parseWorkflowTriggers(workflow.triggers);
+    const due = (triggers.cron || []).filter(entry => {
+      if (!entry.enabled || (entry.lastRunAt && isSameMinute(new Date(entry.lastRunAt), now))) {
+        return false;
+      }
+
+      try {
+        return matchesCron(entry.expression, now, entry.timezone);
+      } catch {
+        return false;
+      }
+    });
+
+    if (due.length === 0) {
+      continue;
+    }
+
+    for (const entry of due) {
+      entry.lastRunAt = now.toISOString();
+    }
+
+    // Only the sweep that records the run fires it (guards against overlapping sweeps)
+    const claimed = await prisma.workflow.updateMany({
+      where: {
+        id: workflow.id,
+        updatedAt: workflow.updatedAt,
+      },
+      data: { triggers: triggers as any },
+    });
+
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    for (const entry of due) {
+      try {
+        await fireWorkflowTrigger({
+          workflowId: workflow.id,
+          userId: workflow.userId,
+          sourceType: TriggerSourceType.SCHEDULED_JOB,
+          sourceName: 'Forgeflow cron schedule',
+          payload: {
+            expression: entry.expression,
+            timezone: entry.timezone,
+            scheduledFor: now.toISOString(),
+          },
+          input: entry.input,
+          tags: ['cron'],
+        });
+        result.fired++;
+      } catch (error) {
+        result.failed++;
+        LoggingService.error({
+          message: `Failed to fire cron trigger for workflow: ${workflow.id}`,
+          userId: workflow.userId,
+          module: 'forgeflow',
+          category: 'WORKFLOW_TRIGGER',
+          error,
+          metadata: {
+            workflowId: workflow.id,
+            expression: entry.expression,
+          },
+        });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Starts the workflows of a user that subscribe to a platform event.
+ * Failures are logged and never propagated to the code that emitted the event.
+ */
+export async function emitWorkflowEvent(type: WorkflowEventType, event: WorkflowEvent): Promise<void> {
+  try {
+    const workflows = await prisma.workflow.findMany({
+      where: {
+        userId: event.userId,
+        isActive: true,
+        triggers: {
+          path: ['events'],
+          array_contains: [{ type, enabled: true }],
+        },
+      },
+      select: {
+        id: true,
+        triggers: true,
+      },
+    });
+
+    for (const workflow of workflows) {
+      const matches = (parseWorkflowTriggers(workflow.triggers).events || []).some(
+        trigger => trigger.enabled && trigger.type === type && matchesEventFilter(trigger.filter, event.payload)
+      );
+
+      if (!matches) {
+        continue;
+      }
+
+      try {
+        await fireWorkflowTrigger({
+          workflowId: workflow.id,
+          userId: event.userId,
+          sourceType: TriggerSourceType.SYSTEM_EVENT,
+          sourceName: `Forgeflow event: ${type}`,
+          payload: event.payload,
+          originatingEventId: event.eventId,
+          tags: ['event', type],
+        });
+      } catch (error) {
+        LoggingService.error({
+          message: `Failed to fire event trigger for workflow: ${workflow.id}`,
+          userId: event.userId,
+          module: 'forgeflow',
+          category: 'WORKFLOW_TRIGGER',
+          error,
+          metadata: {
+            workflowId: workflow.id,
+            eventType: type,
+            eventId: event.eventId,
+          },
+        });
+      }
+    }
+  } catch (error) {
+    LoggingService.error({
+      message: `Failed to dispatch workflow event: ${type}`,
+      userId: event.userId,
+      module: 'forgeflow',
+      category: 'WORKFLOW_TRIGGER',
+      error,
+      metadata: {
+        eventType: type,
+        eventId: event.eventId,
+      },
+    });
+  }
+}
+
+/**
+ * Checks an event payload against the filter of an event trigger
+ */
+export function matchesEventFilter(
+  filter: Record<string, string | number | boolean | Array<string | number>> | undefined,
+  payload: Record<string, any>
+): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  return Object.entries(filter).every(([key, expected]) => {
+    const actual = payload?.[key];
+    return Array.isArray(expected) ? expected.includes(actual) : actual === expected;
+  });
+}
+
+function isSameMinute(a: Date, b: Date): boolean {
+  return Math.floor(a.getTime() / 60000) === Math.floor(b.getTime() / 60000);
+}
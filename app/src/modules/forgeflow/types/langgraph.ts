@@ -4,6 +4,8 @@
  * Types for the enhanced LangGraph system.
  */
 
+import type { StateReducers } from '../langGraph/scheduler';
+
 // Enum for LangGraph state status
 export enum LangGraphStateStatus {
   ACTIVE = 'ACTIVE',
@@ -103,6 +105,7 @@ export interface GraphDefinition {
   edges?: GraphEdgeDefinition[];
   initialState?: any;
   metadata?: any;
+  reducers?: StateReducers;
 }
 
 // Interface for graph node definition
@@ -112,6 +115,8 @@ export interface GraphNodeDefinition {
   config?: any;
   metadata?: any;
   position?: { x: number; y: number };
+  join?: boolean;
+  reducers?: StateReducers;
 }
 
 // Interface for graph edge definition
@@ -120,6 +125,7 @@ export interface GraphEdgeDefinition {
   target: string;
   condition?: string;
   metadata?: any;
+  maxIterations?: number;
 }
 
 // Interface for graph execution options
@@ -130,6 +136,7 @@ export interface GraphExecutionOptions {
   expiresInDays?: number;
   checkpointInterval?: number;
   maxSteps?: number;
+  maxConcurrency?: number;
   timeout?: number;
 }
 
@@ -0,0 +1,145 @@
+import { HttpError } from 'wasp/server';
+import { prisma } from 'wasp/server';
+import { z } from 'zod';
+import { ensureArgsSchemaOrThrowHttpError } from '@src/server/validation';
+import { emitWorkflowEvent } from '@src/modules/forgeflow/triggers/workflowTriggerService';
+
+// Revenue Alert Schemas
+
+const revenueAlertSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  description: z.string().min(1, 'Description is required'),
+  type: z.enum(['revenue_drop', 'revenue_spike', 'churn', 'payment_failure', 'goal', 'other']),
+  severity: z.enum(['critical', 'high', 'medium', 'low', 'informational']),
+  metadata: z.any().optional(),
+});
+
+const revenueAlertFilterSchema = z.object({
+  type: z.enum(['revenue_drop', 'revenue_spike', 'churn', 'payment_failure', 'goal', 'other']).optional(),
+  severity: z.enum(['critical', 'high', 'medium', 'low', 'informational']).optional(),
+  isRead: z.boolean().optional(),
+});
+
+// Revenue Alert Operations
+
+export const createRevenueAlert = async (args: unknown, context: any) => {
+  if (!context.user) {
+    throw new HttpError(401, 'You must be logged in to create a revenue alert');
+  }
+
+  const validatedArgs = ensureArgsSchemaOrThrowHttpError(revenueAlertSchema, args);
+
+  try {
+    const revenueAlert = await prisma.revenueAlert.create({
+      data: {
+        ...validatedArgs,
+        userId: context.user.id,
+      },
+    });
+
+    // Start workflows subscribed to new revenue alerts
+    await emitWorkflowEvent('REVENUE_ALERT_CREATED', {
+      userId: context.user.id,
+      eventId: revenueAlert.id,
+      payload: {
+        alertId: revenueAlert.id,
+        title: revenueAlert.title,
+        description: revenueAlert.description,
+        type: revenueAlert.type,
+        severity: revenueAlert.severity,
+        metadata: revenueAlert.metadata,
+      },
+    });
+
+    return revenueAlert;
+  } catch (error) {
+    console.error('Error creating revenue alert:', error);
+    throw new HttpError(500, 'Failed to create revenue alert');
+  }
+};
+
+export const markRevenueAlertAsRead = async (args: unknown, context: any) => {
+  if (!context.user) {
+    throw new HttpError(401, 'You must be logged in to update a revenue alert');
+  }
+
+  const validatedArgs = ensureArgsSchemaOrThrowHttpError(z.object({ id: z.string() }), args);
+
+  try {
+    const revenueAlert = await prisma.revenueAlert.findUnique({
+      where: { id: validatedArgs.id },
+    });
+
+    if (!revenueAlert) {
+      throw new HttpError(404, 'Revenue alert not found');
+    }
+
+    if (revenueAlert.userId !== context.user.id) {
+      throw new HttpError(403, "You don't have permission to update this revenue alert");
+    }
+
+    return await prisma.revenueAlert.update({
+      where: { id: validatedArgs.id },
+      data: { isRead: true },
+    });
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    console.error('Error updating revenue alert:', error);
+    throw new HttpError(500, 'Failed to update revenue alert');
+  }
+};
+
+export const deleteRevenueAlert = async (args: unknown, context: any) => {
+  if (!context.user) {
+    throw new HttpError(401, 'You must be logged in to delete a revenue alert');
+  }
+
+  const validatedArgs = ensureArgsSchemaOrThrowHttpError(z.object({ id: z.string() }), args);
+
+  try {
+    const revenueAlert = await prisma.revenueAlert.findUnique({
+      where: { id: validatedArgs.id },
+    });
+
+    if (!revenueAlert) {
+      throw new HttpError(404, 'Revenue alert not found');
+    }
+
+    if (revenueAlert.userId !== context.user.id) {
+      throw new HttpError(403, "You don't have permission to delete this revenue alert");
+    }
+
+    await prisma.revenueAlert.delete({
+      where: { id: validatedArgs.id },
+    });
+
+    return { success: true };
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    console.error('Error deleting revenue alert:', error);
+    throw new HttpError(500, 'Failed to delete revenue alert');
+  }
+};
+
+export const getRevenueAlerts = async (args: unknown, context: any) => {
+  if (!context.user) {
+    throw new HttpError(401, 'You must be logged in to get revenue alerts');
+  }
+
+  const validatedArgs = ensureArgsSchemaOrThrowHttpError(revenueAlertFilterSchema, args ?? {});
+
+  try {
+    return await prisma.revenueAlert.findMany({
+      where: {
+        userId: context.user.id,
+        type: validatedArgs.type,
+        severity: validatedArgs.severity,
+        isRead: validatedArgs.isRead,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  } catch (error) {
+    console.error('Error getting revenue alerts:', error);
+    throw new HttpError(500, 'Failed to get revenue alerts');
+  }
+};
@@ -7,7 +7,9 @@
  * 3. Supporting long-horizon coherence and personalization
  */
 
+export * from './services/memoryService';
 export * from './services/memoryManager';
 export * from './services/vectorStore';
 export * from './services/embeddingService';
+export * from './services/memoryConsolidationService';
 export * from './types';
\ No newline at end of file
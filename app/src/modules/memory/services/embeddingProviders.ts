@@ -0,0 +1,214 @@
+/**
+ * Embedding Providers
+ *
+ * Interchangeable backends for generating memory embeddings. The active provider is chosen
+ * with the MEMORY_EMBEDDING_PROVIDER environment variable (groq, gemini, openai or local)
+ * and defaults to groq. API keys never switch the provider, since stored vectors are only
+ * comparable with vectors of the same provider.
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * A backend that turns text into embedding vectors
+ */
+export interface EmbeddingProvider {
+  /** Stable identifier of the provider and model, stored with every vector */
+  readonly id: string;
+  /** Number of dimensions of the vectors the provider returns */
+  readonly dimensions: number;
+  /** Maximum number of texts per embed call */
+  readonly maxBatchSize: number;
+  /**
+   * Embed a batch of texts
+   *
+   * @returns One vector per text, in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class EmbeddingProviderError extends Error {
+  constructor(providerId: string, message: string) {
+    super(`Embedding provider ${providerId} failed: ${message}`);
+    this.name = 'EmbeddingProviderError';
+  }
+}
+
+function checkVectors(providerId: string, vectors: number[][], count: number, dimensions: number): number[][] {
+  if (vectors.length !== count) {
+    throw new EmbeddingProviderError(providerId, `expected ${count} vectors, got ${vectors.length}`);
+  }
+
+  vectors.forEach(vector => {
+    if (!Array.isArray(vector) || vector.length !== dimensions) {
+      throw new EmbeddingProviderError(providerId, `expected ${dimensions} dimensions, got ${vector?.length}`);
+    }
+  });
+
+  return vectors;
+}
+
+/**
+ * Provider for any API implementing the OpenAI `/embeddings` endpoint
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  readonly maxBatchSize: number;
+
+  constructor(private readonly options: {
+    name: string;
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+    dimensions: number;
+    maxBatchSize?: number;
+  }) {
+    this.id = `${options.name}:${options.model}`;
+    this.dimensions = options.dimensions;
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.options.apiKey}`,
+      },
+      body: JSON.stringify({ model: this.options.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      throw new EmbeddingProviderError(this.id, `HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    const body = await response.json();
+    const vectors = [...(body.data || [])]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+
+    return checkVectors(this.id, vectors, texts.length, this.dimensions);
+  }
+}
+
+/**
+ * Provider for Groq's OpenAI-compatible embeddings endpoint
+ */
+export class GroqEmbeddingProvider extends OpenAICompatibleEmbeddingProvider {
+  constructor(options: { apiKey: string; model?: string; dimensions?: number }) {
+    super({
+      name: 'groq',
+      baseUrl: 'https://api.groq.com/openai/v1',
+      apiKey: options.apiKey,
+      model: options.model ?? 'llama3-embedding-v1',
+      dimensions: options.dimensions ?? 1536,
+    });
+  }
+}
+
+/**
+ * Provider for the Gemini embedding models
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  readonly maxBatchSize = 100;
+
+  constructor(private readonly options: { apiKey: string; model?: string; dimensions?: number }) {
+    this.id = `gemini:${options.model ?? 'text-embedding-004'}`;
+    this.dimensions = options.dimensions ?? 768;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const model = `models/${this.options.model ?? 'text-embedding-004'}`;
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/${model}:batchEmbedContents?key=${encodeURIComponent(this.options.apiKey)}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          requests: texts.map(text => ({ model, content: { parts: [{ text }] } })),
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new EmbeddingProviderError(this.id, `HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    const body = await response.json();
+    const vectors = (body.embeddings || []).map((embedding: any) => embedding.values);
+
+    return checkVectors(this.id, vectors, texts.length, this.dimensions);
+  }
+}
+
+/**
+ * Offline provider that embeds text on the CPU by feature hashing
+ *
+ * Words and word bigrams are hashed into signed buckets and the result is L2-normalised.
+ * Texts sharing vocabulary get similar vectors; there is no semantic understanding. The
+ * output is deterministic, which makes the provider suitable for tests and for
+ * deployments without access to an embedding API.
+ */
+export class LocalHashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  readonly maxBatchSize = 1000;
+
+  constructor(options: { dimensions?: number } = {}) {
+    this.dimensions = options.dimensions ?? 384;
+    this.id = `local:hashing-${this.dimensions}`;
+  }
+
+  embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+    ];
+
+    features.forEach(feature => {
+      const digest = createHash('md5').update(feature).digest();
+      const bucket = digest.readUInt32LE(0) % this.dimensions;
+      vector[bucket] += digest[4] & 1 ? 1 : -1;
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+}
+
+/**
+ * Create the provider selected by the environment
+ */
+export function createEmbeddingProviderFromEnv(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider {
+  const dimensions = env.MEMORY_EMBEDDING_DIMENSIONS ? Number(env.MEMORY_EMBEDDING_DIMENSIONS) : undefined;
+  const model = env.MEMORY_EMBEDDING_MODEL || undefined;
+  const name = env.MEMORY_EMBEDDING_PROVIDER || 'groq';
+
+  switch (name) {
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider({
+        name: 'openai',
+        baseUrl: env.MEMORY_EMBEDDING_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: env.MEMORY_EMBEDDING_API_KEY || env.OPENAI_API_KEY || '',
+        model: model ?? 'text-embedding-3-small',
+        dimensions: dimensions ?? 1536,
+      });
+    case 'gemini':
+      return new GeminiEmbeddingProvider({ apiKey: env.GEMINI_API_KEY || '', model, dimensions });
+    case 'groq':
+      return new GroqEmbeddingProvider({ apiKey: env.GROQ_API_KEY || '', model, dimensions });
+    case 'local':
+      return new LocalHashingEmbeddingProvider({ dimensions });
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
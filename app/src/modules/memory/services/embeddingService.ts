@@ -5,48 +5,152 @@
  * to enable semantic search and retrieval.
  */
 
+import { createHash } from 'crypto';
 import { EmbeddingRequest } from '../types';
+import { EmbeddingProvider, createEmbeddingProviderFromEnv } from './embeddingProviders';
 import { trackedGroqInference } from '../../../ai-services/trackedGroqInference';
+import { estimateTokenCount } from '../../../shared/utils/tokenUtils';
 import { logger } from '../../../shared/logger';
 
+/** Embeddings kept in the content-hash cache */
+const EMBEDDING_CACHE_SIZE = 5000;
+
+let activeProvider: EmbeddingProvider | null = null;
+const embeddingCache = new Map<string, number[]>();
+
 /**
- * Generate embeddings for text using Groq's embedding model
- * 
+ * Get the embedding provider in use
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!activeProvider) {
+    activeProvider = createEmbeddingProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the embedding provider in use
+ *
+ * Stored vectors of other providers are not comparable with the new provider's vectors
+ * until the re-embed job has migrated them.
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider): void {
+  activeProvider = provider;
+  embeddingCache.clear();
+}
+
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+function getCacheKey(provider: EmbeddingProvider, text: string): string {
+  return `${provider.id}:${createHash('sha256').update(text).digest('hex')}`;
+}
+
+function cacheEmbedding(key: string, embedding: number[]): void {
+  embeddingCache.delete(key);
+  embeddingCache.set(key, embedding);
+  while (embeddingCache.size > EMBEDDING_CACHE_SIZE) {
+    embeddingCache.delete(embeddingCache.keys().next().value!);
+  }
+}
+
+/**
+ * Get the InteractionMemory columns that store an embedding of the active provider
+ *
+ * The provider ID and dimensions are stored with every vector so that vectors of
+ * different providers are never compared.
+ */
+export function getEmbeddingColumns(embedding: number[]) {
+  return {
+    embedding,
+    embeddingModel: getEmbeddingProvider().id,
+    embeddingDimensions: embedding.length,
+  };
+}
+
+/**
+ * Generate embeddings for a batch of texts
+ *
+ * Texts embedded before are served from a cache keyed by provider and content hash; the
+ * rest are sent to the provider in batches of its maximum size.
+ *
+ * @param texts The texts to generate embeddings for
+ * @param userId The user ID for logging
+ * @returns One embedding per text, in the same order
+ * @throws EmbeddingProviderError if the provider fails
+ */
+export async function generateEmbeddings(texts: string[], userId?: string): Promise<number[][]> {
+  const provider = getEmbeddingProvider();
+  const normalized = texts.map(normalizeText);
+  const keys = normalized.map(text => getCacheKey(provider, text));
+  const results: Array<number[] | undefined> = keys.map(key => embeddingCache.get(key));
+  const computed = new Map<string, number[]>();
+
+  // Identical texts in the batch are embedded once
+  const missing = [...new Set(normalized.filter((_, i) => !results[i]))];
+
+  try {
+    for (let start = 0; start < missing.length; start += provider.maxBatchSize) {
+      const batch = missing.slice(start, start + provider.maxBatchSize);
+      const vectors = await provider.embed(batch);
+      batch.forEach((text, i) => {
+        computed.set(text, vectors[i]);
+        cacheEmbedding(getCacheKey(provider, text), vectors[i]);
+      });
+    }
+  } catch (error) {
+    logger.error('Error generating embeddings:', { error, provider: provider.id, count: missing.length, userId });
+    throw error;
+  }
+
+  // Served from this call's vectors, which large batches may already have evicted from the cache
+  return normalized.map((text, i) => results[i] ?? computed.get(text)!);
+}
+
+/**
+ * Generate embeddings for text with the active embedding provider
+ *
+ * Provider calls are tracked with trackedGroqInference so that their usage is counted;
+ * cached embeddings are returned without a call.
+ *
  * @param text The text to generate embeddings for
  * @param userId The user ID for tracking
- * @param metadata Additional metadata for tracking
  * @returns A vector embedding as an array of numbers
+ * @throws EmbeddingProviderError if the provider fails
  */
 export async function generateEmbedding(
-  { text, userId, metadata = {} }: EmbeddingRequest
+  { text, userId }: EmbeddingRequest
 ): Promise<number[]> {
-  try {
-    // Normalize the text by removing extra whitespace
-    const normalizedText = text.trim().replace(/\s+/g, ' ');
-    
-    // Use Groq's embedding model to generate the embedding
-    const response = await trackedGroqInference({
-      model: 'llama3-embedding-v1',
-      input: normalizedText,
+  const provider = getEmbeddingProvider();
+  const normalizedText = normalizeText(text);
+  const cached = embeddingCache.get(getCacheKey(provider, normalizedText));
+  if (cached) {
+    return cached;
+  }
+
+  const response = await trackedGroqInference(
+    {
+      prompt: normalizedText,
+      model: provider.id,
       userId,
-      purpose: 'memory-embedding',
-      metadata: {
-        ...metadata,
-        textLength: normalizedText.length,
-        operation: 'generate-embedding',
-      },
-    });
-
-    if (!response || !response.embedding) {
-      throw new Error('Failed to generate embedding: No embedding returned');
+      module: 'memory',
+      sessionType: 'memory-embedding',
+    },
+    null,
+    async () => {
+      const [embedding] = await generateEmbeddings([normalizedText], userId);
+      const promptTokens = estimateTokenCount(normalizedText);
+
+      return {
+        embedding,
+        model: provider.id,
+        usage: { prompt_tokens: promptTokens, completion_tokens: 0, total_tokens: promptTokens },
+      };
     }
+  );
 
-    return response.embedding;
-  } catch (error) {
-    logger.error('Error generating embedding:', { error, textLength: text.length, userId });
-    // Return a zero vector as fallback (not ideal but prevents system failure)
-    return new Array(1536).fill(0);
-  }
+  return response.embedding;
 }
 
 /**
@@ -0,0 +1,281 @@
+/**
+ * HNSW Index
+ *
+ * In-process approximate nearest neighbour index (Hierarchical Navigable Small World graph)
+ * over cosine similarity. Used for memory search when the database has no pgvector support.
+ */
+
+export interface HnswIndexOptions {
+  /** Maximum neighbours per node on the upper layers (level 0 allows twice as many) */
+  m?: number;
+  /** Size of the candidate list while inserting */
+  efConstruction?: number;
+  /** Default size of the candidate list while searching */
+  efSearch?: number;
+}
+
+export interface HnswSearchResult {
+  id: string;
+  similarity: number;
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  level: number;
+  neighbors: string[][];
+}
+
+interface Candidate {
+  id: string;
+  distance: number;
+}
+
+function normalize(vector: number[]): Float32Array | null {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+
+  if (norm === 0) {
+    return null;
+  }
+
+  const length = Math.sqrt(norm);
+  const normalized = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    normalized[i] = vector[i] / length;
+  }
+  return normalized;
+}
+
+// Inserts into an array kept sorted by ascending distance
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].distance < candidate.distance) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  list.splice(low, 0, candidate);
+}
+
+export class HnswIndex {
+  private readonly m: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelMultiplier: number;
+  private readonly nodes = new Map<string, HnswNode>();
+  private readonly deleted = new Set<string>();
+  private entryPointId: string | null = null;
+  private maxLevel = -1;
+  private dimensions: number | null = null;
+
+  constructor(options: HnswIndexOptions = {}) {
+    this.m = options.m ?? 16;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 64;
+    this.levelMultiplier = 1 / Math.log(this.m);
+  }
+
+  /**
+   * Number of searchable vectors in the index
+   */
+  get size(): number {
+    return this.nodes.size - this.deleted.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id) && !this.deleted.has(id);
+  }
+
+  /**
+   * Add a vector to the index, replacing any vector stored under the same ID
+   *
+   * Zero vectors have no direction and are not indexed.
+   *
+   * @returns Whether the vector was indexed
+   */
+  add(id: string, vector: number[]): boolean {
+    if (this.dimensions !== null && vector.length !== this.dimensions) {
+      return false;
+    }
+
+    const normalized = normalize(vector);
+    if (!normalized) {
+      this.remove(id);
+      return false;
+    }
+
+    if (this.nodes.has(id)) {
+      // The graph cannot move a node, so the old one stays as a tombstone under a new key
+      this.retire(id);
+    }
+
+    this.dimensions = vector.length;
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const node: HnswNode = {
+      id,
+      vector: normalized,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+    };
+    this.nodes.set(id, node);
+
+    if (this.entryPointId === null) {
+      this.entryPointId = id;
+      this.maxLevel = level;
+      return true;
+    }
+
+    let entryPoints = [this.entryPointId];
+
+    // Greedy descent through the layers above the node's level
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entryPoints = [this.searchLayer(normalized, entryPoints, 1, layer)[0].id];
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(normalized, entryPoints, this.efConstruction, layer);
+      const maxNeighbors = layer === 0 ? this.m * 2 : this.m;
+      node.neighbors[layer] = candidates.slice(0, this.m).map(candidate => candidate.id);
+
+      for (const neighborId of node.neighbors[layer]) {
+        const neighbor = this.nodes.get(neighborId)!;
+        neighbor.neighbors[layer].push(id);
+        if (neighbor.neighbors[layer].length > maxNeighbors) {
+          neighbor.neighbors[layer] = this.closest(neighbor.vector, neighbor.neighbors[layer], maxNeighbors);
+        }
+      }
+
+      entryPoints = candidates.map(candidate => candidate.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPointId = id;
+      this.maxLevel = level;
+    }
+
+    return true;
+  }
+
+  /**
+   * Remove a vector from search results
+   *
+   * The node stays in the graph so that paths through it keep working.
+   */
+  remove(id: string): void {
+    if (this.nodes.has(id)) {
+      this.deleted.add(id);
+    }
+  }
+
+  /**
+   * Find the vectors most similar to a query
+   *
+   * @param query The query vector
+   * @param k Number of results
+   * @param ef Size of the candidate list; larger is slower but more accurate
+   * @returns Results sorted by descending cosine similarity
+   */
+  search(query: number[], k: number, ef: number = this.efSearch): HnswSearchResult[] {
+    if (this.entryPointId === null || query.length !== this.dimensions) {
+      return [];
+    }
+
+    const normalized = normalize(query);
+    if (!normalized) {
+      return [];
+    }
+
+    let entryPoints = [this.entryPointId];
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entryPoints = [this.searchLayer(normalized, entryPoints, 1, layer)[0].id];
+    }
+
+    return this.searchLayer(normalized, entryPoints, Math.max(ef, k), 0)
+      .filter(candidate => !this.deleted.has(candidate.id))
+      .slice(0, k)
+      .map(candidate => ({ id: candidate.id, similarity: 1 - candidate.distance }));
+  }
+
+  private retire(id: string): void {
+    const node = this.nodes.get(id)!;
+    const retiredId = `${id}#retired-${this.nodes.size}`;
+    node.id = retiredId;
+    this.nodes.delete(id);
+    this.nodes.set(retiredId, node);
+    this.deleted.delete(id);
+    this.deleted.add(retiredId);
+
+    node.neighbors.forEach((layerNeighbors, layer) => {
+      layerNeighbors.forEach(neighborId => {
+        const neighbor = this.nodes.get(neighborId);
+        if (neighbor) {
+          neighbor.neighbors[layer] = neighbor.neighbors[layer].map(other => (other === id ? retiredId : other));
+        }
+      });
+    });
+
+    if (this.entryPointId === id) {
+      this.entryPointId = retiredId;
+    }
+  }
+
+  private distance(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+    }
+    return 1 - dot;
+  }
+
+  private closest(vector: Float32Array, ids: string[], count: number): string[] {
+    return ids
+      .map(id => ({ id, distance: this.distance(vector, this.nodes.get(id)!.vector) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, count)
+      .map(candidate => candidate.id);
+  }
+
+  private searchLayer(query: Float32Array, entryIds: string[], ef: number, layer: number): Candidate[] {
+    const visited = new Set<string>(entryIds);
+    const candidates: Candidate[] = [];
+    const results: Candidate[] = [];
+
+    for (const id of entryIds) {
+      const candidate = { id, distance: this.distance(query, this.nodes.get(id)!.vector) };
+      insertSorted(candidates, candidate);
+      insertSorted(results, candidate);
+    }
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.distance > results[results.length - 1].distance) {
+        break;
+      }
+
+      for (const neighborId of this.nodes.get(current.id)!.neighbors[layer] || []) {
+        if (visited.has(neighborId)) {
+          continue;
+        }
+        visited.add(neighborId);
+
+        const distance = this.distance(query, this.nodes.get(neighborId)!.vector);
+        if (results.length < ef || distance < results[results.length - 1].distance) {
+          insertSorted(candidates, { id: neighborId, distance });
+          insertSorted(results, { id: neighborId, distance });
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,377 @@
+/**
+ * Memory Consolidation Service
+ *
+ * Turns related short-term memories into long-term ones. Short-term memories of each
+ * user and agent are clustered by embedding similarity, and every cluster is summarized
+ * into one long-term memory that links back to the memories it was built from. Importance
+ * decays over time so that search favours memories that are still relevant.
+ *
+ * Each agent persona's memory scopes decide what happens to a content type:
+ * - session: memories stay short-term and are never consolidated
+ * - user / organization: memories are consolidated and expire as usual
+ * - permanent: memories are consolidated, kept forever and never decay
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../../prisma/client';
+import { MemoryContentType, MemoryType } from '../types';
+import { storeMemory } from './memoryManager';
+import { getEmbeddingProvider, prepareTextForEmbedding } from './embeddingService';
+import { SCOPE_CONTENT_TYPES } from './vectorStore';
+import { LLMGateway } from '../../../ai-services/gateway';
+import { logger } from '../../../shared/logger';
+
+/** Cosine similarity a memory needs to a cluster's centroid to join it */
+const CLUSTER_SIMILARITY = 0.8;
+
+/** Smallest cluster that is summarized */
+const MIN_CLUSTER_SIZE = 3;
+
+/** Memories younger than this are left alone; the conversation may still be going */
+const MIN_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * Short-term memories read per user and agent in one run
+ *
+ * Memories never clustered come first, then those checked longest ago, so memories left
+ * in small clusters rotate out of the window instead of filling it every run.
+ */
+const MAX_MEMORIES_PER_GROUP = 500;
+
+/** Characters of each memory included in a summarization prompt */
+const MAX_CHARS_PER_MEMORY = 500;
+
+/** Importance lost per day, as a factor */
+const DAILY_IMPORTANCE_DECAY = 0.98;
+
+/** Importance never decays below this */
+const MIN_IMPORTANCE = 0.1;
+
+export type MemoryRetentionPolicy = 'session' | 'user' | 'organization' | 'permanent';
+
+interface ClusterMemory {
+  id: string;
+  type: string;
+  content: any;
+  importance: number;
+  createdAt: Date;
+  embedding: number[];
+}
+
+export interface ConsolidationResult {
+  groupsProcessed: number;
+  clustersConsolidated: number;
+  memoriesConsolidated: number;
+  memoriesDecayed: number;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Group memories by embedding similarity
+ *
+ * Memories are visited oldest first and join the most similar cluster whose centroid is
+ * at least `threshold` similar, or start a new cluster.
+ *
+ * @param memories The memories to cluster
+ * @param threshold Minimum cosine similarity to a cluster centroid
+ * @returns The clusters, each a list of memories
+ */
+export function clusterMemories<T extends { embedding: number[]; createdAt: Date }>(
+  memories: T[],
+  threshold: number = CLUSTER_SIMILARITY
+): T[][] {
+  const clusters: Array<{ members: T[]; sum: number[] }> = [];
+
+  const ordered = [...memories].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  for (const memory of ordered) {
+    const vector = normalize(memory.embedding);
+    let best: { members: T[]; sum: number[] } | null = null;
+    let bestSimilarity = threshold;
+
+    for (const cluster of clusters) {
+      const similarity = dot(vector, normalize(cluster.sum));
+      if (similarity >= bestSimilarity) {
+        best = cluster;
+        bestSimilarity = similarity;
+      }
+    }
+
+    if (best) {
+      best.members.push(memory);
+      best.sum = best.sum.map((value, i) => value + vector[i]);
+    } else {
+      clusters.push({ members: [memory], sum: [...vector] });
+    }
+  }
+
+  return clusters.map(cluster => cluster.members);
+}
+
+/**
+ * Get the retention policy of each content type for an agent's persona
+ *
+ * Content types not covered by a memory scope use the 'user' policy. When several
+ * scopes cover a content type, the one with the highest priority wins.
+ *
+ * @param agentId The agent ID
+ * @returns The retention policy by content type
+ */
+export async function getRetentionPolicies(agentId: string): Promise<Map<string, MemoryRetentionPolicy>> {
+  const agent = await prisma.aI_Agent.findUnique({
+    where: { id: agentId },
+    select: {
+      persona: {
+        select: {
+          memoryScopes: {
+            select: { scope: true, retention: true, priority: true },
+            orderBy: { priority: 'asc' },
+          },
+        },
+      },
+    },
+  });
+
+  const policies = new Map<string, MemoryRetentionPolicy>();
+
+  // Ascending priority, so higher priority scopes overwrite lower ones
+  (agent?.persona?.memoryScopes || []).forEach(memoryScope => {
+    (SCOPE_CONTENT_TYPES[memoryScope.scope] || []).forEach(contentType => {
+      policies.set(contentType, memoryScope.retention as MemoryRetentionPolicy);
+    });
+  });
+
+  return policies;
+}
+
+/**
+ * Summarize a cluster of memories into one text
+ *
+ * Falls back to joining the most important memories when the model is unavailable.
+ */
+async function summarizeCluster(memories: ClusterMemory[]): Promise<string> {
+  const texts = memories.map(memory => prepareTextForEmbedding(memory.content).slice(0, MAX_CHARS_PER_MEMORY));
+
+  try {
+    const { content: summary } = await LLMGateway.complete({
+      module: 'memory',
+      requestType: 'summarization',
+      modelTier: 'fast',
+      maxTokens: 300,
+      temperature: 0.2,
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You consolidate an AI agent\'s short-term memories into one long-term memory. ' +
+            'Summarize the numbered memories below in a few sentences. Keep facts, decisions, ' +
+            'preferences and outcomes; drop small talk. Reply with the summary only.',
+        },
+        { role: 'user', content: texts.map((text, i) => `${i + 1}. ${text}`).join('\n') },
+      ],
+    });
+
+    if (summary.trim()) {
+      return summary.trim();
+    }
+  } catch (error) {
+    logger.error('Error summarizing memory cluster; using extractive summary:', { error });
+  }
+
+  return memories
+    .map((memory, i) => ({ importance: memory.importance, text: texts[i] }))
+    .sort((a, b) => b.importance - a.importance)
+    .slice(0, 5)
+    .map(item => item.text)
+    .join(' ');
+}
+
+/**
+ * Consolidate the short-term memories of one user and agent
+ *
+ * @param userId The user ID
+ * @param agentId The agent ID
+ * @returns The number of clusters and memories consolidated
+ */
+export async function consolidateAgentMemories(
+  userId: string,
+  agentId: string
+): Promise<{ clusters: number; memories: number }> {
+  const policies = await getRetentionPolicies(agentId);
+  const sessionScopedTypes = [...policies.entries()]
+    .filter(([, retention]) => retention === 'session')
+    .map(([contentType]) => contentType);
+
+  const memories: ClusterMemory[] = await prisma.interactionMemory.findMany({
+    where: {
+      userId,
+      agentId,
+      source: { not: 'sentient-loop' },
+      expiresAt: { not: null },
+      consolidatedIntoId: null,
+      embeddingModel: getEmbeddingProvider().id,
+      createdAt: { lt: new Date(Date.now() - MIN_AGE_MS) },
+      ...(sessionScopedTypes.length > 0 && { type: { notIn: sessionScopedTypes } }),
+    },
+    select: { id: true, type: true, content: true, importance: true, createdAt: true, embedding: true },
+    orderBy: [{ clusterCheckedAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+    take: MAX_MEMORIES_PER_GROUP,
+  });
+
+  let clusters = 0;
+  let consolidated = 0;
+  const leftoverIds: string[] = [];
+
+  for (const cluster of clusterMemories(memories)) {
+    if (cluster.length < MIN_CLUSTER_SIZE) {
+      leftoverIds.push(...cluster.map(memory => memory.id));
+      continue;
+    }
+
+    // The summary takes the content type most of its memories share
+    const typeCounts = new Map<string, number>();
+    cluster.forEach(memory => typeCounts.set(memory.type, (typeCounts.get(memory.type) || 0) + 1));
+    const contentType = [...typeCounts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    const sourceIds = cluster.map(memory => memory.id);
+    const retention = policies.get(contentType) ?? 'user';
+
+    const summary = await storeMemory({
+      userId,
+      agentId,
+      type: MemoryType.LONG_TERM,
+      contentType: contentType as MemoryContentType,
+      context: 'consolidation',
+      content: { summary: await summarizeCluster(cluster) },
+      importance: Math.max(...cluster.map(memory => memory.importance)),
+      metadata: {
+        context: 'consolidation',
+        consolidated: true,
+        retention,
+        provenance: {
+          sourceMemoryIds: sourceIds,
+          sourceCount: sourceIds.length,
+          from: cluster[0].createdAt,
+          to: cluster[cluster.length - 1].createdAt,
+        },
+      },
+    });
+
+    // Originals keep their expiry unless the retention policy keeps them forever
+    await prisma.interactionMemory.updateMany({
+      where: { id: { in: sourceIds } },
+      data: {
+        consolidatedIntoId: summary.id,
+        ...(retention === 'permanent' && { expiresAt: null }),
+      },
+    });
+
+    clusters++;
+    consolidated += cluster.length;
+  }
+
+  if (leftoverIds.length > 0) {
+    await prisma.interactionMemory.updateMany({
+      where: { id: { in: leftoverIds } },
+      data: { clusterCheckedAt: new Date() },
+    });
+  }
+
+  return { clusters, memories: consolidated };
+}
+
+/**
+ * Decay the importance of memories
+ *
+ * Importance shrinks by a fixed factor per day since it last decayed, down to a floor.
+ * Memories whose retention policy is permanent do not decay.
+ *
+ * @returns The number of memories decayed
+ */
+export async function decayMemoryImportance(now: Date = new Date()): Promise<number> {
+  const permanentScopes = await prisma.personaMemoryScope.findMany({
+    where: { retention: 'permanent' },
+    select: {
+      scope: true,
+      persona: { select: { agents: { select: { id: true } } } },
+    },
+  });
+
+  const permanentPairs = permanentScopes.flatMap(memoryScope =>
+    memoryScope.persona.agents.flatMap(agent =>
+      (SCOPE_CONTENT_TYPES[memoryScope.scope] || []).map(contentType => Prisma.sql`(${agent.id}, ${contentType})`)
+    )
+  );
+
+  return prisma.$executeRaw`
+    UPDATE "InteractionMemory"
+    SET "importance" = GREATEST(
+          ${MIN_IMPORTANCE},
+          "importance" * POWER(
+            ${DAILY_IMPORTANCE_DECAY}::float,
+            EXTRACT(EPOCH FROM (${now}::timestamp - COALESCE("importanceDecayedAt", "createdAt"))) / 86400
+          )
+        ),
+        "importanceDecayedAt" = ${now}::timestamp
+    WHERE COALESCE("importanceDecayedAt", "createdAt") < ${now}::timestamp - INTERVAL '1 day'
+      AND "importance" > ${MIN_IMPORTANCE}
+      ${permanentPairs.length > 0
+        ? Prisma.sql`AND ("agentId" IS NULL OR ("agentId", "type") NOT IN (${Prisma.join(permanentPairs)}))`
+        : Prisma.empty}
+  `;
+}
+
+/**
+ * Consolidate short-term memories of every user and agent, then decay importance
+ *
+ * @returns What the run did
+ */
+export async function consolidateMemories(): Promise<ConsolidationResult> {
+  const groups = await prisma.interactionMemory.groupBy({
+    by: ['userId', 'agentId'],
+    where: {
+      // Checkpoint snapshots belong to their checkpoint and are not consolidated
+      agentId: { not: null },
+      source: { not: 'sentient-loop' },
+      expiresAt: { not: null },
+      consolidatedIntoId: null,
+      createdAt: { lt: new Date(Date.now() - MIN_AGE_MS) },
+    },
+    having: {
+      id: { _count: { gte: MIN_CLUSTER_SIZE } },
+    },
+  });
+
+  const result: ConsolidationResult = {
+    groupsProcessed: 0,
+    clustersConsolidated: 0,
+    memoriesConsolidated: 0,
+    memoriesDecayed: 0,
+  };
+
+  for (const group of groups) {
+    try {
+      const { clusters, memories } = await consolidateAgentMemories(group.userId, group.agentId!);
+      result.groupsProcessed++;
+      result.clustersConsolidated += clusters;
+      result.memoriesConsolidated += memories;
+    } catch (error) {
+      // One failing agent must not hold up the rest
+      logger.error('Error consolidating memories:', { error, userId: group.userId, agentId: group.agentId });
+    }
+  }
+
+  result.memoriesDecayed = await decayMemoryImportance();
+
+  return result;
+}
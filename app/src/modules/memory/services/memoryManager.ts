@@ -16,11 +16,29 @@ import {
   VectorSearchResult,
   TemporalReference
 } from '../types';
-import { semanticSearch, storeVectorEmbedding, updateEmbedding } from './vectorStore';
-import { generateEmbedding, prepareTextForEmbedding } from './embeddingService';
+import { indexMemoryEmbedding } from './vectorStore';
+import { generateEmbedding, getEmbeddingColumns, prepareTextForEmbedding } from './embeddingService';
 import { extractTemporalReferences } from './temporalMemoryService';
+import { MemoryRecord, MemoryService } from './memoryService';
 import { logger } from '../../../shared/logger';
 
+function toMemoryEntry(record: MemoryRecord): MemoryEntry {
+  return {
+    id: record.id,
+    userId: record.userId,
+    agentId: record.agentId,
+    sessionId: record.sessionId,
+    type: record.expiresAt ? MemoryType.SHORT_TERM : MemoryType.LONG_TERM,
+    contentType: record.contentType as MemoryContentType,
+    context: record.context || '',
+    content: record.content,
+    importance: record.importance,
+    expiresAt: record.expiresAt,
+    metadata: record.metadata,
+    createdAt: record.createdAt,
+  };
+}
+
 /**
  * Store a new memory entry
  * 
@@ -36,18 +54,9 @@ export async function storeMemory(memoryEntry: MemoryEntry): Promise<MemoryEntry
       metadata: memoryEntry.metadata || {},
     };
 
-    // Set expiration for short-term memories if not provided
-    if (entry.type === MemoryType.SHORT_TERM && !entry.expiresAt) {
-      const expirationHours = 24; // Default 24-hour expiration for short-term memories
-      entry.expiresAt = new Date(Date.now() + expirationHours * 60 * 60 * 1000);
-    }
-
-    // Generate text for embedding
-    const textToEmbed = prepareTextForEmbedding(entry.content);
-    
     // Extract temporal references if not already provided
     if (!entry.temporalReferences) {
-      entry.temporalReferences = await extractTemporalReferences(textToEmbed, entry.userId);
+      entry.temporalReferences = await extractTemporalReferences(prepareTextForEmbedding(entry.content), entry.userId);
     }
     
     // Add temporal references to metadata
@@ -58,38 +67,24 @@ export async function storeMemory(memoryEntry: MemoryEntry): Promise<MemoryEntry
       };
     }
     
-    // Generate embedding
-    entry.embedding = await generateEmbedding({
-      text: textToEmbed,
+    const storedMemory = await MemoryService.store({
       userId: entry.userId,
-      metadata: {
-        memoryType: entry.type,
-        contentType: entry.contentType,
-        context: entry.context,
-        temporalReferences: entry.temporalReferences,
-      },
-    });
-
-    // Store in database
-    const storedMemory = await prisma.interactionMemory.create({
-      data: {
-        userId: entry.userId,
-        agentId: entry.agentId || '',
-        sessionId: entry.sessionId,
-        type: entry.contentType,
-        content: entry.content,
-        importance: entry.importance,
-        expiresAt: entry.expiresAt,
-        embedding: entry.embedding,
-        metadata: entry.metadata || {},
-      },
+      agentId: entry.agentId,
+      sessionId: entry.sessionId,
+      contentType: entry.contentType,
+      context: entry.context,
+      content: entry.content,
+      importance: entry.importance,
+      shortTerm: entry.type === MemoryType.SHORT_TERM,
+      expiresAt: entry.expiresAt,
+      metadata: entry.metadata,
     });
 
     return {
       ...entry,
       id: storedMemory.id,
+      expiresAt: storedMemory.expiresAt,
       createdAt: storedMemory.createdAt,
-      updatedAt: storedMemory.updatedAt,
     };
   } catch (error) {
     logger.error('Error storing memory:', { error, userId: memoryEntry.userId });
@@ -111,53 +106,23 @@ export async function retrieveMemories(options: MemoryQueryOptions): Promise<Mem
       sessionId,
       context,
       contentType,
-      type,
       limit = 10,
       minImportance = 0,
       includeExpired = false,
     } = options;
 
-    // Build the where clause
-    const whereClause: any = {
+    const memories = await MemoryService.recall({
       userId,
-      ...(agentId && { agentId }),
-      ...(sessionId && { sessionId }),
-      ...(context && { metadata: { path: ['context'], equals: context } }),
-      ...(contentType && { type: contentType }),
-      importance: { gte: minImportance },
-      ...(!includeExpired && { 
-        OR: [
-          { expiresAt: null },
-          { expiresAt: { gt: new Date() } },
-        ],
-      }),
-    };
-
-    // Retrieve memories from database
-    const memories = await prisma.interactionMemory.findMany({
-      where: whereClause,
-      orderBy: [
-        { importance: 'desc' },
-        { createdAt: 'desc' },
-      ],
-      take: limit,
+      agentId,
+      sessionId,
+      context,
+      contentType,
+      limit,
+      minImportance,
+      includeExpired,
     });
 
-    // Map to MemoryEntry format
-    return memories.map(memory => ({
-      id: memory.id,
-      userId: memory.userId,
-      agentId: memory.agentId,
-      sessionId: memory.sessionId || undefined,
-      type: memory.type.includes('SHORT_TERM') ? MemoryType.SHORT_TERM : MemoryType.LONG_TERM,
-      contentType: memory.type as MemoryContentType,
-      context: memory.metadata?.context || '',
-      content: memory.content,
-      importance: memory.importance,
-      expiresAt: memory.expiresAt || undefined,
-      metadata: memory.metadata || {},
-      embedding: memory.embedding,
-    }));
+    return memories.map(toMemoryEntry);
   } catch (error) {
     logger.error('Error retrieving memories:', { error, userId: options.userId });
     return [];
@@ -186,57 +151,35 @@ export async function searchMemories(
       minImportance = 0,
       similarityThreshold = 0.7,
       includeExpired = false,
+      startDate,
+      endDate,
+      persona,
+      recencyHalfLifeDays,
     } = options;
 
-    // Perform semantic search
-    const searchResults = await semanticSearch(query, userId, {
+    // Ranked by similarity, importance and recency
+    const memories = await MemoryService.search(query, userId, {
       agentId,
       sessionId,
       contentType,
       limit,
+      minImportance,
       similarityThreshold,
       includeExpired,
+      startDate,
+      endDate,
+      persona,
+      recencyHalfLifeDays,
     });
 
-    // Fetch full memory entries for the search results
-    const memoryIds = searchResults.map(result => result.id);
-    
-    if (memoryIds.length === 0) {
-      return [];
-    }
-
-    const memories = await prisma.interactionMemory.findMany({
-      where: {
-        id: { in: memoryIds },
-        importance: { gte: minImportance },
+    return memories.map(memory => ({
+      ...toMemoryEntry(memory),
+      metadata: {
+        ...memory.metadata,
+        similarity: memory.similarity,
+        score: memory.score,
       },
-    });
-
-    // Map to MemoryEntry format and sort by similarity
-    const memoryMap = new Map(memories.map(memory => [memory.id, memory]));
-    
-    return searchResults
-      .filter(result => memoryMap.has(result.id))
-      .map(result => {
-        const memory = memoryMap.get(result.id)!;
-        return {
-          id: memory.id,
-          userId: memory.userId,
-          agentId: memory.agentId,
-          sessionId: memory.sessionId || undefined,
-          type: memory.type.includes('SHORT_TERM') ? MemoryType.SHORT_TERM : MemoryType.LONG_TERM,
-          contentType: memory.type as MemoryContentType,
-          context: memory.metadata?.context || '',
-          content: memory.content,
-          importance: memory.importance,
-          expiresAt: memory.expiresAt || undefined,
-          metadata: {
-            ...memory.metadata,
-            similarity: result.similarity,
-          },
-          embedding: memory.embedding,
-        };
-      });
+    }));
   } catch (error) {
     logger.error('Error searching memories:', { error, userId, query });
     return [];
@@ -288,23 +231,28 @@ export async function updateMemory(
         ...(updates.agentId !== undefined && { agentId: updates.agentId }),
         ...(updates.sessionId !== undefined && { sessionId: updates.sessionId }),
         ...(updates.contentType !== undefined && { type: updates.contentType }),
+        ...(updates.context !== undefined && { context: updates.context }),
         ...(updates.content !== undefined && { content: updates.content }),
         ...(updates.importance !== undefined && { importance: updates.importance }),
         ...(updates.expiresAt !== undefined && { expiresAt: updates.expiresAt }),
         ...(updates.metadata !== undefined && { metadata: updates.metadata }),
-        ...(contentUpdated && { embedding }),
+        ...(contentUpdated && getEmbeddingColumns(embedding)),
       },
     });
 
+    if (contentUpdated) {
+      await indexMemoryEmbedding(memoryId, updatedMemory.userId, embedding);
+    }
+
     // Map to MemoryEntry format
     return {
       id: updatedMemory.id,
       userId: updatedMemory.userId,
-      agentId: updatedMemory.agentId,
+      agentId: updatedMemory.agentId || undefined,
       sessionId: updatedMemory.sessionId || undefined,
-      type: updatedMemory.type.includes('SHORT_TERM') ? MemoryType.SHORT_TERM : MemoryType.LONG_TERM,
+      type: updatedMemory.expiresAt ? MemoryType.SHORT_TERM : MemoryType.LONG_TERM,
       contentType: updatedMemory.type as MemoryContentType,
-      context: updatedMemory.metadata?.context || '',
+      context: updatedMemory.context || updatedMemory.metadata?.context || '',
       content: updatedMemory.content,
       importance: updatedMemory.importance,
       expiresAt: updatedMemory.expiresAt || undefined,
@@ -324,9 +272,11 @@ export async function updateMemory(
  */
 export async function deleteMemory(memoryId: string): Promise<void> {
   try {
-    await prisma.interactionMemory.delete({
-      where: { id: memoryId },
-    });
+    const deleted = await MemoryService.forget({ id: memoryId });
+
+    if (deleted === 0) {
+      throw new Error(`Memory not found: ${memoryId}`);
+    }
   } catch (error) {
     logger.error('Error deleting memory:', { error, memoryId });
     throw new Error(`Failed to delete memory: ${error.message}`);
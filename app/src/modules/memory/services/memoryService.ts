@@ -0,0 +1,324 @@
+/**
+ * Memory Service
+ *
+ * The single API for agent memory: store, recall, search, forget and snapshot. Every
+ * memory lives in InteractionMemory, whichever integration wrote it:
+ * - the memory module and agents ('memory')
+ * - ForgeFlow workflows and LangGraph memory nodes ('forgeflow', 'langgraph')
+ * - LangChain conversation history ('langchain')
+ * - Sentient Loop checkpoint snapshots ('sentient-loop')
+ * - rows copied from the stores this replaced ('legacy')
+ *
+ * `source` records the writer and `context` groups related memories, such as the turns
+ * of one LangChain conversation. Search ranks memories of all sources alike.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../../../prisma/client';
+import { indexMemoryEmbedding, removeMemoryEmbedding, semanticSearch, SemanticSearchOptions } from './vectorStore';
+import { generateEmbedding, getEmbeddingColumns, prepareTextForEmbedding } from './embeddingService';
+
+/** Lifetime of short-term memories stored without an explicit expiry */
+const SHORT_TERM_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type MemorySource = 'memory' | 'forgeflow' | 'langgraph' | 'langchain' | 'sentient-loop' | 'legacy';
+
+export type SnapshotType = 'DECISION' | 'FEEDBACK' | 'CONTEXT' | 'ESCALATION' | 'AUDIT' | 'SYSTEM';
+
+export interface MemoryRecord {
+  id: string;
+  userId: string;
+  agentId?: string;
+  sessionId?: string;
+  checkpointId?: string;
+  source: MemorySource;
+  contentType: string;
+  context?: string;
+  content: any;
+  importance: number;
+  expiresAt?: Date;
+  metadata: Record<string, any>;
+  createdAt: Date;
+  /** Set on search results */
+  similarity?: number;
+  /** Set on search results; similarity combined with importance and recency */
+  score?: number;
+}
+
+export interface StoreMemoryInput {
+  userId: string;
+  agentId?: string;
+  sessionId?: string;
+  checkpointId?: string;
+  source?: MemorySource;
+  contentType: string;
+  context?: string;
+  content: any;
+  importance?: number;
+  /** Short-term memories expire after a day unless expiresAt is given */
+  shortTerm?: boolean;
+  expiresAt?: Date;
+  metadata?: Record<string, any>;
+}
+
+export interface MemoryFilter {
+  userId?: string;
+  agentId?: string;
+  sessionId?: string;
+  checkpointId?: string;
+  source?: MemorySource;
+  context?: string;
+  contentType?: string | string[];
+}
+
+export interface RecallMemoryOptions extends MemoryFilter {
+  minImportance?: number;
+  includeExpired?: boolean;
+  limit?: number;
+  offset?: number;
+  order?: 'importance' | 'newest' | 'oldest';
+}
+
+export interface SearchMemoryOptions extends SemanticSearchOptions {
+  minImportance?: number;
+}
+
+export type ForgetMemoryFilter = { id: string; userId?: string } | MemoryFilter;
+
+export interface SnapshotInput {
+  checkpointId: string;
+  type: SnapshotType;
+  content: any;
+  metadata?: Record<string, any>;
+  importance?: number;
+  expiresAt?: Date;
+}
+
+const RECALL_ORDERS: Record<NonNullable<RecallMemoryOptions['order']>, Prisma.InteractionMemoryOrderByWithRelationInput[]> = {
+  importance: [{ importance: 'desc' }, { createdAt: 'desc' }],
+  newest: [{ createdAt: 'desc' }],
+  oldest: [{ createdAt: 'asc' }],
+};
+
+function toMemoryRecord(memory: any): MemoryRecord {
+  return {
+    id: memory.id,
+    userId: memory.userId,
+    agentId: memory.agentId || undefined,
+    sessionId: memory.sessionId || undefined,
+    checkpointId: memory.checkpointId || undefined,
+    source: memory.source as MemorySource,
+    contentType: memory.type,
+    // Rows written before the column existed keep their context in metadata
+    context: memory.context || memory.metadata?.context || undefined,
+    content: memory.content,
+    importance: memory.importance,
+    expiresAt: memory.expiresAt || undefined,
+    metadata: memory.metadata || {},
+    createdAt: memory.createdAt,
+  };
+}
+
+// Memories must be scoped to a user or a checkpoint so that no query spans tenants
+function buildWhere(filter: MemoryFilter): Prisma.InteractionMemoryWhereInput {
+  if (!filter.userId && !filter.checkpointId) {
+    throw new Error('Memory queries require a userId or checkpointId');
+  }
+
+  return {
+    ...(filter.userId && { userId: filter.userId }),
+    ...(filter.agentId && { agentId: filter.agentId }),
+    ...(filter.sessionId && { sessionId: filter.sessionId }),
+    ...(filter.checkpointId && { checkpointId: filter.checkpointId }),
+    ...(filter.source && { source: filter.source }),
+    ...(filter.context && { context: filter.context }),
+    ...(filter.contentType && {
+      type: Array.isArray(filter.contentType) ? { in: filter.contentType } : filter.contentType,
+    }),
+  };
+}
+
+export class MemoryService {
+  /**
+   * Store a memory
+   *
+   * @param input The memory to store
+   * @returns The stored memory
+   */
+  static async store(input: StoreMemoryInput): Promise<MemoryRecord> {
+    const source = input.source ?? 'memory';
+    const expiresAt = input.expiresAt
+      ?? (input.shortTerm ? new Date(Date.now() + SHORT_TERM_TTL_MS) : undefined);
+
+    const embedding = await generateEmbedding({
+      text: prepareTextForEmbedding(input.content),
+      userId: input.userId,
+      metadata: {
+        source,
+        contentType: input.contentType,
+        context: input.context,
+      },
+    });
+
+    const memory = await prisma.interactionMemory.create({
+      data: {
+        userId: input.userId,
+        agentId: input.agentId,
+        sessionId: input.sessionId,
+        checkpointId: input.checkpointId,
+        source,
+        type: input.contentType,
+        context: input.context,
+        content: input.content,
+        importance: input.importance ?? 1.0,
+        expiresAt,
+        metadata: {
+          ...(input.metadata || {}),
+          ...(input.context && { context: input.context }),
+        },
+        ...getEmbeddingColumns(embedding),
+      },
+    });
+
+    await indexMemoryEmbedding(memory.id, memory.userId, embedding);
+
+    return toMemoryRecord(memory);
+  }
+
+  /**
+   * Recall memories matching a filter, without semantic ranking
+   *
+   * @param options The filter, paging and order
+   * @returns The matching memories
+   */
+  static async recall(options: RecallMemoryOptions): Promise<MemoryRecord[]> {
+    const {
+      minImportance,
+      includeExpired = false,
+      limit = 10,
+      offset = 0,
+      order = 'importance',
+    } = options;
+
+    const memories = await prisma.interactionMemory.findMany({
+      where: {
+        ...buildWhere(options),
+        ...(minImportance !== undefined && { importance: { gte: minImportance } }),
+        ...(!includeExpired && {
+          OR: [
+            { expiresAt: null },
+            { expiresAt: { gt: new Date() } },
+          ],
+        }),
+      },
+      orderBy: RECALL_ORDERS[order],
+      skip: offset,
+      take: limit,
+    });
+
+    return memories.map(toMemoryRecord);
+  }
+
+  /**
+   * Search a user's memories by semantic similarity
+   *
+   * @param query The text to search for
+   * @param userId The user whose memories are searched
+   * @param options Search options
+   * @returns The memories ranked by score, with their similarity and score
+   */
+  static async search(query: string, userId: string, options: SearchMemoryOptions = {}): Promise<MemoryRecord[]> {
+    const { minImportance = 0, ...searchOptions } = options;
+    const results = await semanticSearch(query, userId, { limit: 5, ...searchOptions });
+
+    if (results.length === 0) {
+      return [];
+    }
+
+    const memories = await prisma.interactionMemory.findMany({
+      where: {
+        id: { in: results.map(result => result.id) },
+        importance: { gte: minImportance },
+      },
+    });
+
+    // Keep the ranking of the search
+    const memoryMap = new Map(memories.map(memory => [memory.id, memory]));
+
+    return results
+      .filter(result => memoryMap.has(result.id))
+      .map(result => ({
+        ...toMemoryRecord(memoryMap.get(result.id)!),
+        similarity: result.similarity,
+        score: result.score,
+      }));
+  }
+
+  /**
+   * Delete one memory or every memory matching a filter
+   *
+   * Deleted memories are also removed from the search index.
+   *
+   * @param filter A memory ID, optionally with its owner, or a filter
+   * @returns The number of memories deleted
+   */
+  static async forget(filter: ForgetMemoryFilter): Promise<number> {
+    const where: Prisma.InteractionMemoryWhereInput = 'id' in filter
+      ? { id: filter.id, ...(filter.userId && { userId: filter.userId }) }
+      : buildWhere(filter);
+
+    const memories = await prisma.interactionMemory.findMany({
+      where,
+      select: { id: true, userId: true },
+    });
+
+    if (memories.length === 0) {
+      return 0;
+    }
+
+    const result = await prisma.interactionMemory.deleteMany({
+      where: { id: { in: memories.map(memory => memory.id) } },
+    });
+
+    memories.forEach(memory => removeMemoryEmbedding(memory.id, memory.userId));
+
+    return result.count;
+  }
+
+  /**
+   * Store a snapshot of a Sentient Loop checkpoint
+   *
+   * The snapshot belongs to the checkpoint's user and agent, and is deleted with the
+   * checkpoint.
+   *
+   * @param input The snapshot
+   * @returns The stored snapshot
+   */
+  static async snapshot(input: SnapshotInput): Promise<MemoryRecord> {
+    const checkpoint = await prisma.sentientCheckpoint.findUnique({
+      where: { id: input.checkpointId },
+      select: { userId: true, agentId: true, moduleId: true, sessionId: true },
+    });
+
+    if (!checkpoint) {
+      throw new Error(`Sentient checkpoint not found: ${input.checkpointId}`);
+    }
+
+    return this.store({
+      userId: checkpoint.userId,
+      agentId: checkpoint.agentId || undefined,
+      checkpointId: input.checkpointId,
+      source: 'sentient-loop',
+      contentType: input.type,
+      context: `sentient-loop:${checkpoint.moduleId}`,
+      content: input.content,
+      importance: input.importance,
+      expiresAt: input.expiresAt,
+      // The checkpoint's session is a Sentient Loop session, not an agent session
+      metadata: {
+        ...(input.metadata || {}),
+        loopSessionId: checkpoint.sessionId,
+      },
+    });
+  }
+}
@@ -3,8 +3,13 @@
  * 
  * Provides advanced temporal querying and recall capabilities for the memory system.
  * Enables natural language time-based queries and comparisons across different time periods.
+ *
+ * Time expressions are resolved by the local temporal parser; the model is only asked
+ * when the parser finds expressions it cannot resolve. Milestones such as "the launch"
+ * are dated by the user's stored event memories.
  */
 
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../../../prisma/client';
 import { 
   MemoryEntry, 
@@ -15,9 +20,93 @@ import {
   MemoryComparison
 } from '../types';
 import { searchMemories, retrieveMemories } from './memoryManager';
+import { parseTemporalExpression, TemporalParseResult } from './temporalParser';
 import { trackedGroqInference } from '../../../ai-services/trackedGroqInference';
 import { logger } from '../../../shared/logger';
 
+type ParsedTemporalQuery = {
+  parsedQuery: string;
+  timeframe?: string;
+  startDate?: Date;
+  endDate?: Date;
+  temporalReferences?: TemporalReference[];
+};
+
+/** Metadata fields of event memories that hold when the event happened */
+const EVENT_DATE_FIELDS = ['date', 'eventDate', 'occurredAt'];
+
+/**
+ * Get the first month of the fiscal year, 1-12, from FISCAL_YEAR_START_MONTH
+ */
+function getFiscalYearStartMonth(): number {
+  const month = parseInt(process.env.FISCAL_YEAR_START_MONTH || '1', 10);
+  return month >= 1 && month <= 12 ? month : 1;
+}
+
+/**
+ * Date milestones from the user's event memories
+ *
+ * A milestone is dated by the most important event memory that mentions it, using the
+ * event's own date from its metadata when present and its creation time otherwise.
+ *
+ * @param milestones Normalized milestone names
+ * @param userId User ID
+ * @returns The dates of the milestones that were found
+ */
+export async function resolveMilestones(
+  milestones: string[],
+  userId: string
+): Promise<Record<string, Date>> {
+  const resolved: Record<string, Date> = {};
+
+  for (const milestone of milestones) {
+    const pattern = `%${milestone.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+    const events = await prisma.$queryRaw<Array<{ createdAt: Date; metadata: any }>>(Prisma.sql`
+      SELECT "createdAt", "metadata"
+      FROM "InteractionMemory"
+      WHERE "userId" = ${userId}
+        AND "type" = ${MemoryContentType.EVENT}
+        AND ("context" ILIKE ${pattern} OR "content"::text ILIKE ${pattern})
+      ORDER BY "importance" DESC, "createdAt" DESC
+      LIMIT 1
+    `);
+
+    if (events.length > 0) {
+      const { createdAt, metadata } = events[0];
+      const eventDate = EVENT_DATE_FIELDS
+        .map(field => metadata?.[field] && new Date(metadata[field]))
+        .find(date => date && !isNaN(date.getTime()));
+      resolved[milestone] = eventDate || createdAt;
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Parse time expressions locally, dating milestones from stored events
+ *
+ * @param text Text to parse
+ * @param userId User whose events date the milestones
+ * @returns The parse result
+ */
+export async function parseTemporalExpressionForUser(
+  text: string,
+  userId: string
+): Promise<TemporalParseResult> {
+  const options = { fiscalYearStartMonth: getFiscalYearStartMonth() };
+  const result = parseTemporalExpression(text, options);
+
+  if (result.unresolvedMilestones.length === 0) {
+    return result;
+  }
+
+  const milestones = await resolveMilestones(result.unresolvedMilestones, userId);
+  return Object.keys(milestones).length > 0
+    ? parseTemporalExpression(text, { ...options, milestones })
+    : result;
+}
+
 /**
  * Parse a natural language temporal query into structured temporal parameters
  * 
@@ -28,101 +117,118 @@ import { logger } from '../../../shared/logger';
 export async function parseTemporalQuery(
   query: string,
   userId: string
-): Promise<{
-  parsedQuery: string;
-  timeframe?: string;
-  startDate?: Date;
-  endDate?: Date;
-  temporalReferences?: TemporalReference[];
-}> {
-  try {
-    // Use Groq to parse the temporal aspects of the query
-    const prompt = `
-      Parse the following query and extract any temporal references. 
-      The current date is ${new Date().toISOString().split('T')[0]}.
-      
-      Query: "${query}"
-      
-      Extract:
-      1. The core query without temporal references
-      2. Any specific timeframes mentioned (e.g., "last week", "in April", "during the product launch")
-      3. Start and end dates if applicable
-      4. The type of temporal reference (absolute, relative, recurring, seasonal, milestone)
-      
-      Return as JSON with these fields:
-      {
-        "parsedQuery": "the core query without temporal references",
-        "timeframe": "the timeframe description if any",
-        "startDate": "YYYY-MM-DD if applicable",
-        "endDate": "YYYY-MM-DD if applicable",
-        "temporalReferences": [
-          {
-            "type": "absolute|relative|recurring|seasonal|milestone",
-            "value": "the original text reference",
-            "startDate": "YYYY-MM-DD if applicable",
-            "endDate": "YYYY-MM-DD if applicable"
-          }
-        ]
-      }
-    `;
+): Promise<ParsedTemporalQuery> {
+  let local: ParsedTemporalQuery = { parsedQuery: query };
 
-    const response = await trackedGroqInference({
-      model: 'llama3-70b-8192',
-      messages: [
-        { role: 'system', content: 'You are a temporal query parser that extracts time-related information from natural language queries.' },
-        { role: 'user', content: prompt }
-      ],
-      userId,
-      purpose: 'temporal-query-parsing',
-      metadata: {
-        queryLength: query.length,
-        operation: 'parse-temporal-query',
-      },
-    });
+  try {
+    const result = await parseTemporalExpressionForUser(query, userId);
+    local = {
+      parsedQuery: result.query || query,
+      timeframe: result.timeframe,
+      startDate: result.startDate,
+      endDate: result.endDate,
+      temporalReferences: result.references,
+    };
 
-    if (!response || !response.content) {
-      throw new Error('Failed to parse temporal query: No response from AI service');
+    if (!result.ambiguous) {
+      return local;
     }
 
-    // Extract JSON from the response
-    const jsonMatch = response.content.match(/```json\n([\s\S]*?)\n```/) || 
-                      response.content.match(/{[\s\S]*?}/);
+    return await parseTemporalQueryWithModel(query, userId);
+  } catch (error) {
+    logger.error('Error parsing temporal query:', { error, query, userId });
+    // Fall back to what the local parser resolved
+    return local;
+  }
+}
+
+/**
+ * Parse a temporal query with the model, for expressions the local parser cannot resolve
+ */
+async function parseTemporalQueryWithModel(
+  query: string,
+  userId: string
+): Promise<ParsedTemporalQuery> {
+  // Use Groq to parse the temporal aspects of the query
+  const prompt = `
+    Parse the following query and extract any temporal references. 
+    The current date is ${new Date().toISOString().split('T')[0]}.
     
-    if (!jsonMatch) {
-      throw new Error('Failed to parse temporal query: No valid JSON in response');
+    Query: "${query}"
+    
+    Extract:
+    1. The core query without temporal references
+    2. Any specific timeframes mentioned (e.g., "last week", "in April", "during the product launch")
+    3. Start and end dates if applicable
+    4. The type of temporal reference (absolute, relative, recurring, seasonal, milestone)
+    
+    Return as JSON with these fields:
+    {
+      "parsedQuery": "the core query without temporal references",
+      "timeframe": "the timeframe description if any",
+      "startDate": "YYYY-MM-DD if applicable",
+      "endDate": "YYYY-MM-DD if applicable",
+      "temporalReferences": [
+        {
+          "type": "absolute|relative|recurring|seasonal|milestone",
+          "value": "the original text reference",
+          "startDate": "YYYY-MM-DD if applicable",
+          "endDate": "YYYY-MM-DD if applicable"
+        }
+      ]
     }
+  `;
+
+  const response = await trackedGroqInference({
+    model: 'llama3-70b-8192',
+    messages: [
+      { role: 'system', content: 'You are a temporal query parser that extracts time-related information from natural language queries.' },
+      { role: 'user', content: prompt }
+    ],
+    userId,
+    purpose: 'temporal-query-parsing',
+    metadata: {
+      queryLength: query.length,
+      operation: 'parse-temporal-query',
+    },
+  });
+
+  if (!response || !response.content) {
+    throw new Error('Failed to parse temporal query: No response from AI service');
+  }
 
-    const jsonStr = jsonMatch[0].replace(/```json\n|```/g, '');
-    const parsed = JSON.parse(jsonStr);
+  // Extract JSON from the response
+  const jsonMatch = response.content.match(/```json\n([\s\S]*?)\n```/) || 
+                    response.content.match(/{[\s\S]*?}/);
+  
+  if (!jsonMatch) {
+    throw new Error('Failed to parse temporal query: No valid JSON in response');
+  }
 
-    // Convert string dates to Date objects
-    if (parsed.startDate) {
-      parsed.startDate = new Date(parsed.startDate);
-    }
-    if (parsed.endDate) {
-      parsed.endDate = new Date(parsed.endDate);
-    }
+  const jsonStr = jsonMatch[0].replace(/```json\n|```/g, '');
+  const parsed = JSON.parse(jsonStr);
 
-    // Convert dates in temporal references
-    if (parsed.temporalReferences && Array.isArray(parsed.temporalReferences)) {
-      parsed.temporalReferences.forEach((ref: any) => {
-        if (ref.startDate) {
-          ref.startDate = new Date(ref.startDate);
-        }
-        if (ref.endDate) {
-          ref.endDate = new Date(ref.endDate);
-        }
-      });
-    }
+  // Convert string dates to Date objects
+  if (parsed.startDate) {
+    parsed.startDate = new Date(parsed.startDate);
+  }
+  if (parsed.endDate) {
+    parsed.endDate = new Date(parsed.endDate);
+  }
 
-    return parsed;
-  } catch (error) {
-    logger.error('Error parsing temporal query:', { error, query, userId });
-    // Return just the original query if parsing fails
-    return {
-      parsedQuery: query,
-    };
+  // Convert dates in temporal references
+  if (parsed.temporalReferences && Array.isArray(parsed.temporalReferences)) {
+    parsed.temporalReferences.forEach((ref: any) => {
+      if (ref.startDate) {
+        ref.startDate = new Date(ref.startDate);
+      }
+      if (ref.endDate) {
+        ref.endDate = new Date(ref.endDate);
+      }
+    });
   }
+
+  return parsed;
 }
 
 /**
@@ -592,6 +698,9 @@ async function compareTimePeriods(
 /**
  * Extract temporal references from text and store them with a memory
  * 
+ * The model is only asked when the local parser finds nothing it can resolve in text
+ * that does mention time.
+ *
  * @param text Text to analyze for temporal references
  * @param userId User ID for tracking
  * @returns Array of temporal references
@@ -599,6 +708,27 @@ async function compareTimePeriods(
 export async function extractTemporalReferences(
   text: string,
   userId: string
+): Promise<TemporalReference[]> {
+  try {
+    const result = await parseTemporalExpressionForUser(text, userId);
+
+    if (result.references.length > 0 || !result.ambiguous) {
+      return result.references;
+    }
+
+    return await extractTemporalReferencesWithModel(text, userId);
+  } catch (error) {
+    logger.error('Error extracting temporal references:', { error, text, userId });
+    return [];
+  }
+}
+
+/**
+ * Extract temporal references with the model, for text the local parser cannot resolve
+ */
+async function extractTemporalReferencesWithModel(
+  text: string,
+  userId: string
 ): Promise<TemporalReference[]> {
   try {
     // Use Groq to extract temporal references
@@ -0,0 +1,733 @@
+/**
+ * Temporal Parser
+ *
+ * Resolves time expressions in memory queries and memory text to date ranges, without a
+ * model call. It understands:
+ * - relative ranges: "yesterday", "last week", "the past 3 months", "two weeks ago"
+ * - dates, months and years: "2024-04-05", "April 5th", "in April", "March 2024", "in 2023"
+ * - quarters, seasons and fiscal periods: "Q3", "last quarter", "summer 2023", "FY24", "fiscal Q2"
+ * - ranges: "between March and May", "since last month", "before 2024", "early April"
+ * - milestones: "since the launch", "before the v2 release", dated by the caller
+ * - recurrences: "every Monday", "weekly"
+ *
+ * Dates are computed in UTC and weeks start on Monday. Without a year, a month, quarter
+ * or season means its most recent occurrence that has started. Fiscal years are named
+ * after the calendar year they end in: with an October start, FY2024 runs from October
+ * 2023 to September 2024. Winter starts in December, so "winter 2024" ends in February 2025.
+ *
+ * Text the parser cannot resolve reliably, such as "recently" or "3/4", marks the result
+ * as ambiguous so that callers can fall back to a model.
+ */
+
+import { TemporalReference, TemporalReferenceType } from '../types';
+
+export interface TemporalParseOptions {
+  /** Reference time; defaults to now */
+  now?: Date;
+  /** First month of the fiscal year, 1-12; defaults to January */
+  fiscalYearStartMonth?: number;
+  /** Dates of known milestones, keyed by normalizeMilestone(name) */
+  milestones?: Record<string, Date>;
+}
+
+export interface TemporalParseResult {
+  /** The text with resolved time expressions removed */
+  query: string;
+  /** The time expressions found, as written */
+  timeframe?: string;
+  /** Start of the range covering every reference */
+  startDate?: Date;
+  /** End of the range covering every reference, inclusive */
+  endDate?: Date;
+  references: TemporalReference[];
+  /** Milestones missing from options.milestones */
+  unresolvedMilestones: string[];
+  /** Whether the text holds time expressions the parser could not resolve */
+  ambiguous: boolean;
+}
+
+interface Range {
+  start?: Date;
+  end?: Date;
+}
+
+interface Resolution extends Range {
+  type: TemporalReferenceType;
+  recurrencePattern?: string;
+  milestone?: string;
+  /** Recurrences describe a topic rather than a range, so they stay in the query */
+  keepInQuery?: boolean;
+}
+
+interface ParseContext {
+  now: Date;
+  fiscalYearStartMonth: number;
+  milestones: Record<string, Date>;
+  unresolvedMilestones: string[];
+}
+
+interface Rule {
+  pattern: string;
+  /** Only matches after a preposition, for words that are rarely temporal on their own */
+  needsPreposition?: boolean;
+  resolve: (match: RegExpExecArray, ctx: ParseContext) => Resolution | null;
+}
+
+type Unit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTH = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY = 'monday|tuesday|wednesday|thursday|friday|saturday|sunday';
+const WEEKDAY_NAMES = WEEKDAY.split('|');
+const SEASON = 'spring|summer|autumn|fall|winter';
+const SEASON_START_MONTHS: Record<string, number> = { spring: 2, summer: 5, autumn: 8, fall: 8, winter: 11 };
+const NUMBER_WORDS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'];
+const NUMBER = `\\d+|${NUMBER_WORDS.join('|')}`;
+const ORDINAL = 'first|second|third|fourth|1st|2nd|3rd|4th';
+const UNIT = '(day|week|month|quarter|year)s?';
+const FISCAL_YEAR = String.raw`(?:fy|fiscal\s+year)\s*('?\d{2}(?:\d{2})?)`;
+const MODIFIER = String.raw`early|mid|late|(?:the\s+)?(?:beginning|start|middle|end)\s+of`;
+
+/** Words that may introduce a time expression and are removed with it */
+const PREPOSITION = String.raw`(?:in|during|on|over|for|throughout|from|of)\s+(?:the\s+)?`;
+
+const MILESTONE_EVENT = String.raw`launch|release|rollout|roll-out|go-live|kickoff|kick-off|migration|deadline|offsite|off-site|conference|summit|demo|announcement|acquisition|merger|reorg|reorganization|outage|incident|audit|funding\s+round|board\s+meeting|all-hands|hackathon|retreat`;
+const MILESTONE_WORD = String.raw`(?!(?:we|i|you|they|he|she|it|did|had|was|were|a|an|the)\b)[a-z0-9][\w.'-]*`;
+
+const AMBIGUOUS_CUES = new RegExp(
+  [
+    String.raw`\b(?:recent(?:ly)?|lately|the\s+other\s+day|back\s+(?:when|then)|ago|since)\b`,
+    String.raw`\b(?:few|several|couple(?:\s+of)?)\s+(?:days|weeks|months|quarters|years)\b`,
+    String.raw`\b(?:last|past|previous|next|this)\s+(?:time|sprint|cycle|season|term|semester|holidays?)\b`,
+    String.raw`\b\d{1,2}/\d{1,2}(?:/\d{2,4})?\b`,
+  ].join('|'),
+  'i'
+);
+
+// Dates
+
+function utc(year: number, month: number, day = 1): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  result.setUTCDate(Math.min(date.getUTCDate(), daysInMonth(result.getUTCFullYear(), result.getUTCMonth())));
+  return result;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return utc(year, month + 1, 0).getUTCDate();
+}
+
+function endBefore(date: Date): Date {
+  return new Date(date.getTime() - 1);
+}
+
+function periodRange(year: number, month: number, months: number): Range {
+  return { start: utc(year, month), end: endBefore(utc(year, month + months)) };
+}
+
+function dayRange(date: Date): Range {
+  const start = utc(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return { start, end: endBefore(addDays(start, 1)) };
+}
+
+function weekRange(date: Date): Range {
+  const start = addDays(dayRange(date).start!, -((date.getUTCDay() + 6) % 7));
+  return { start, end: endBefore(addDays(start, 7)) };
+}
+
+function calendarRange(unit: Unit, date: Date): Range {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (unit) {
+    case 'day':
+      return dayRange(date);
+    case 'week':
+      return weekRange(date);
+    case 'month':
+      return periodRange(year, month, 1);
+    case 'quarter':
+      return periodRange(year, month - (month % 3), 3);
+    case 'year':
+      return periodRange(year, 0, 12);
+  }
+}
+
+function shift(date: Date, unit: Unit, amount: number): Date {
+  switch (unit) {
+    case 'day':
+      return addDays(date, amount);
+    case 'week':
+      return addDays(date, 7 * amount);
+    case 'month':
+      return addMonths(date, amount);
+    case 'quarter':
+      return addMonths(date, 3 * amount);
+    case 'year':
+      return addMonths(date, 12 * amount);
+  }
+}
+
+// The most recent occurrence that has started
+function mostRecent(ctx: ParseContext, rangeForYear: (year: number) => Range): Range {
+  const year = ctx.now.getUTCFullYear();
+  const range = rangeForYear(year);
+  return range.start! > ctx.now ? rangeForYear(year - 1) : range;
+}
+
+function fiscalYearRange(ctx: ParseContext, fiscalYear: number): Range {
+  const startMonth = ctx.fiscalYearStartMonth - 1;
+  return periodRange(startMonth === 0 ? fiscalYear : fiscalYear - 1, startMonth, 12);
+}
+
+function fiscalQuarterRange(ctx: ParseContext, fiscalYear: number, quarter: number): Range {
+  const { start } = fiscalYearRange(ctx, fiscalYear);
+  return periodRange(start!.getUTCFullYear(), start!.getUTCMonth() + 3 * (quarter - 1), 3);
+}
+
+function fiscalYearOf(ctx: ParseContext, date: Date): number {
+  const startMonth = ctx.fiscalYearStartMonth - 1;
+  const year = date.getUTCFullYear();
+  return startMonth > 0 && date.getUTCMonth() >= startMonth ? year + 1 : year;
+}
+
+function fiscalQuarterOf(ctx: ParseContext, date: Date): Range {
+  const quarter = Math.floor(((date.getUTCMonth() - (ctx.fiscalYearStartMonth - 1) + 12) % 12) / 3) + 1;
+  return fiscalQuarterRange(ctx, fiscalYearOf(ctx, date), quarter);
+}
+
+function seasonRange(year: number, season: string): Range {
+  return periodRange(year, SEASON_START_MONTHS[season.toLowerCase()], 3);
+}
+
+// Thirds of a range, for "early", "mid" and "late"
+function partOf(range: Range, part: 0 | 1 | 2): Range {
+  const start = range.start!.getTime();
+  const third = (range.end!.getTime() + 1 - start) / 3;
+  return {
+    start: new Date(Math.round(start + part * third)),
+    end: new Date(Math.round(start + (part + 1) * third) - 1),
+  };
+}
+
+// Values
+
+function monthIndex(name: string): number {
+  return MONTH_NAMES.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+function weekdayIndex(name: string): number {
+  return WEEKDAY_NAMES.indexOf(name.toLowerCase());
+}
+
+function parseNumber(value: string): number {
+  const lower = value.toLowerCase();
+  if (lower === 'a' || lower === 'an') {
+    return 1;
+  }
+  return /^\d+$/.test(lower) ? parseInt(lower, 10) : NUMBER_WORDS.indexOf(lower) + 1;
+}
+
+function parseYear(value: string): number {
+  const digits = value.replace("'", '');
+  return digits.length === 2 ? 2000 + parseInt(digits, 10) : parseInt(digits, 10);
+}
+
+function parseOrdinal(value: string): number {
+  return ['first', 'second', 'third', 'fourth'].indexOf(value.toLowerCase()) + 1 || parseInt(value, 10);
+}
+
+function unitOf(value: string): Unit {
+  return value.toLowerCase() as Unit;
+}
+
+/**
+ * Normalize a milestone name for lookup
+ *
+ * @param name A milestone as written, such as "the Product Launch"
+ * @returns The name in lower case, without a leading article or possessive
+ */
+export function normalizeMilestone(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^(?:the|our|my|their) /, '')
+    .trim();
+}
+
+function dayOfMonth(ctx: ParseContext, month: number, day: number, year?: string): Resolution | null {
+  const resolvedYear = year
+    ? parseInt(year, 10)
+    : utc(ctx.now.getUTCFullYear(), month, day) > ctx.now
+      ? ctx.now.getUTCFullYear() - 1
+      : ctx.now.getUTCFullYear();
+
+  if (month < 0 || day < 1 || day > daysInMonth(resolvedYear, month)) {
+    return null;
+  }
+
+  return { type: TemporalReferenceType.ABSOLUTE, ...dayRange(utc(resolvedYear, month, day)) };
+}
+
+// Rules
+
+const POINT_RULES: Rule[] = [
+  {
+    // 2024-04-05
+    pattern: String.raw`(\d{4})-(\d{1,2})-(\d{1,2})`,
+    resolve: (m, ctx) => dayOfMonth(ctx, parseInt(m[2], 10) - 1, parseInt(m[3], 10), m[1]),
+  },
+  {
+    // 2024-04
+    pattern: String.raw`(\d{4})-(\d{1,2})(?![\d-])`,
+    resolve: m => {
+      const month = parseInt(m[2], 10) - 1;
+      return month >= 0 && month < 12
+        ? { type: TemporalReferenceType.ABSOLUTE, ...periodRange(parseInt(m[1], 10), month, 1) }
+        : null;
+    },
+  },
+  {
+    // April 5th, 2024
+    pattern: String.raw`(${MONTH})\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?(?!\d)`,
+    resolve: (m, ctx) => dayOfMonth(ctx, monthIndex(m[1]), parseInt(m[2], 10), m[3]),
+  },
+  {
+    // 5th of April 2024
+    pattern: String.raw`(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?(${MONTH})(?:,?\s+(\d{4}))?`,
+    resolve: (m, ctx) => dayOfMonth(ctx, monthIndex(m[2]), parseInt(m[1], 10), m[3]),
+  },
+  {
+    // March 2024
+    pattern: String.raw`(${MONTH}),?\s+(?:of\s+)?(\d{4})`,
+    resolve: m => ({ type: TemporalReferenceType.ABSOLUTE, ...periodRange(parseInt(m[2], 10), monthIndex(m[1]), 1) }),
+  },
+  {
+    // Q2 FY24
+    pattern: String.raw`(?:fiscal\s+)?q([1-4])\s*(?:of\s+)?${FISCAL_YEAR}`,
+    resolve: (m, ctx) => ({
+      type: TemporalReferenceType.SEASONAL,
+      ...fiscalQuarterRange(ctx, parseYear(m[2]), parseInt(m[1], 10)),
+    }),
+  },
+  {
+    // FY24 Q2
+    pattern: String.raw`${FISCAL_YEAR}\s*q([1-4])`,
+    resolve: (m, ctx) => ({
+      type: TemporalReferenceType.SEASONAL,
+      ...fiscalQuarterRange(ctx, parseYear(m[1]), parseInt(m[2], 10)),
+    }),
+  },
+  {
+    // FY2024
+    pattern: FISCAL_YEAR,
+    resolve: (m, ctx) => ({ type: TemporalReferenceType.SEASONAL, ...fiscalYearRange(ctx, parseYear(m[1])) }),
+  },
+  {
+    // last fiscal year, this fiscal quarter
+    pattern: String.raw`(this|current|last|previous|next)\s+fiscal\s+(year|quarter)`,
+    resolve: (m, ctx) => {
+      const offset = /^(?:last|previous)$/i.test(m[1]) ? -1 : /^next$/i.test(m[1]) ? 1 : 0;
+      if (m[2].toLowerCase() === 'year') {
+        return { type: TemporalReferenceType.SEASONAL, ...fiscalYearRange(ctx, fiscalYearOf(ctx, ctx.now) + offset) };
+      }
+      const current = fiscalQuarterOf(ctx, ctx.now);
+      return { type: TemporalReferenceType.SEASONAL, ...fiscalQuarterOf(ctx, addMonths(current.start!, 3 * offset)) };
+    },
+  },
+  {
+    // fiscal Q2, the second fiscal quarter
+    pattern: String.raw`fiscal\s+q([1-4])|(?:the\s+)?(${ORDINAL})\s+fiscal\s+quarter`,
+    resolve: (m, ctx) => {
+      const quarter = m[1] ? parseInt(m[1], 10) : parseOrdinal(m[2]);
+      const fiscalYear = fiscalYearOf(ctx, ctx.now);
+      const range = fiscalQuarterRange(ctx, fiscalYear, quarter);
+      return {
+        type: TemporalReferenceType.SEASONAL,
+        ...(range.start! > ctx.now ? fiscalQuarterRange(ctx, fiscalYear - 1, quarter) : range),
+      };
+    },
+  },
+  {
+    // Q3 2024, the first quarter
+    pattern: String.raw`(?:q([1-4])|(?:the\s+)?(${ORDINAL})\s+quarter)(?:\s+(?:of\s+)?(\d{4}))?`,
+    resolve: (m, ctx) => {
+      const quarter = m[1] ? parseInt(m[1], 10) : parseOrdinal(m[2]);
+      const rangeForYear = (year: number) => periodRange(year, 3 * (quarter - 1), 3);
+      return {
+        type: TemporalReferenceType.SEASONAL,
+        ...(m[3] ? rangeForYear(parseInt(m[3], 10)) : mostRecent(ctx, rangeForYear)),
+      };
+    },
+  },
+  {
+    // summer 2023
+    pattern: String.raw`(${SEASON})\s+(?:of\s+)?(\d{4})`,
+    resolve: m => ({ type: TemporalReferenceType.SEASONAL, ...seasonRange(parseInt(m[2], 10), m[1]) }),
+  },
+  {
+    // last summer
+    pattern: String.raw`(this|last|next)\s+(${SEASON})`,
+    resolve: (m, ctx) => {
+      const year = ctx.now.getUTCFullYear();
+      const season = m[2].toLowerCase();
+      const modifier = m[1].toLowerCase();
+      let range = mostRecent(ctx, y => seasonRange(y, season));
+
+      if (modifier === 'last' && range.end! >= ctx.now) {
+        range = seasonRange(range.start!.getUTCFullYear() - 1, season);
+      } else if (modifier === 'next') {
+        range = seasonRange(year, season).start! > ctx.now ? seasonRange(year, season) : seasonRange(year + 1, season);
+      } else if (modifier === 'this' && range.end! < ctx.now) {
+        range = seasonRange(year, season);
+      }
+
+      return { type: TemporalReferenceType.SEASONAL, ...range };
+    },
+  },
+  {
+    // yesterday, today
+    pattern: String.raw`(?:the\s+)?day\s+before\s+yesterday|yesterday|today|tonight|this\s+(?:morning|afternoon|evening)`,
+    resolve: (m, ctx) => {
+      const offset = /before/i.test(m[0]) ? -2 : /yesterday/i.test(m[0]) ? -1 : 0;
+      return { type: TemporalReferenceType.RELATIVE, ...dayRange(addDays(ctx.now, offset)) };
+    },
+  },
+  {
+    // year to date, QTD
+    pattern: String.raw`(year|quarter|month|week)[\s-]to[\s-]date|([yqmw])td`,
+    resolve: (m, ctx) => {
+      const unit = m[1]
+        ? unitOf(m[1])
+        : ({ y: 'year', q: 'quarter', m: 'month', w: 'week' } as Record<string, Unit>)[m[2].toLowerCase()];
+      return { type: TemporalReferenceType.RELATIVE, start: calendarRange(unit, ctx.now).start, end: ctx.now };
+    },
+  },
+  {
+    // the past 3 months
+    pattern: String.raw`(?:the\s+)?(?:last|past|previous|prior)\s+(${NUMBER})\s+${UNIT}`,
+    resolve: (m, ctx) => ({
+      type: TemporalReferenceType.RELATIVE,
+      start: shift(ctx.now, unitOf(m[2]), -parseNumber(m[1])),
+      end: ctx.now,
+    }),
+  },
+  {
+    // the past week
+    pattern: String.raw`(?:the\s+(?:last|past|previous)|past)\s+(day|week|month|quarter|year)`,
+    resolve: (m, ctx) => ({ type: TemporalReferenceType.RELATIVE, start: shift(ctx.now, unitOf(m[1]), -1), end: ctx.now }),
+  },
+  {
+    // two weeks ago
+    pattern: String.raw`(an?|${NUMBER})\s+${UNIT}\s+ago`,
+    resolve: (m, ctx) => {
+      const unit = unitOf(m[2]);
+      return { type: TemporalReferenceType.RELATIVE, ...calendarRange(unit, shift(ctx.now, unit, -parseNumber(m[1]))) };
+    },
+  },
+  {
+    // last week, this quarter
+    pattern: String.raw`(this|current|last|previous|next)\s+(week|month|quarter|year|weekend)`,
+    resolve: (m, ctx) => {
+      const offset = /^(?:last|previous)$/i.test(m[1]) ? -1 : /^next$/i.test(m[1]) ? 1 : 0;
+      const unit = m[2].toLowerCase();
+
+      if (unit === 'weekend') {
+        const week = weekRange(shift(ctx.now, 'week', offset));
+        return { type: TemporalReferenceType.RELATIVE, start: addDays(week.start!, 5), end: week.end };
+      }
+
+      return { type: TemporalReferenceType.RELATIVE, ...calendarRange(unit as Unit, shift(ctx.now, unit as Unit, offset)) };
+    },
+  },
+  {
+    // last Monday
+    pattern: String.raw`(last|this|next|on|past)\s+(${WEEKDAY})`,
+    resolve: (m, ctx) => {
+      const target = weekdayIndex(m[2]);
+      const today = (ctx.now.getUTCDay() + 6) % 7;
+      const modifier = m[1].toLowerCase();
+      let offset: number;
+
+      if (modifier === 'this') {
+        offset = target - today;
+      } else if (modifier === 'next') {
+        offset = (target - today + 7) % 7 || 7;
+      } else if (modifier === 'on') {
+        offset = -((today - target + 7) % 7);
+      } else {
+        offset = -((today - target + 7) % 7 || 7);
+      }
+
+      return { type: TemporalReferenceType.RELATIVE, ...dayRange(addDays(ctx.now, offset)) };
+    },
+  },
+  {
+    // in the summer
+    pattern: `(${SEASON})`,
+    needsPreposition: true,
+    resolve: (m, ctx) => ({ type: TemporalReferenceType.SEASONAL, ...mostRecent(ctx, year => seasonRange(year, m[1])) }),
+  },
+  {
+    // in 2023
+    pattern: String.raw`(19\d{2}|20\d{2})`,
+    needsPreposition: true,
+    resolve: m => ({ type: TemporalReferenceType.ABSOLUTE, ...periodRange(parseInt(m[1], 10), 0, 12) }),
+  },
+  {
+    // in April
+    pattern: `(${MONTH})`,
+    needsPreposition: true,
+    resolve: (m, ctx) => ({
+      type: TemporalReferenceType.ABSOLUTE,
+      ...mostRecent(ctx, year => periodRange(year, monthIndex(m[1]), 1)),
+    }),
+  },
+];
+
+function toNonCapturing(pattern: string): string {
+  return pattern.replace(/(?<!\\)\((?!\?)/g, '(?:');
+}
+
+/** Any single time expression, optionally with a modifier */
+const POINT = `(?:(?:${MODIFIER})[\\s-]+)?(?:${POINT_RULES.map(rule => toNonCapturing(rule.pattern)).join('|')})`;
+
+const MODIFIER_RULE: Rule = {
+  // early April, the end of last year
+  pattern: String.raw`(${MODIFIER})[\s-]+(${toNonCapturing(POINT)})`,
+  resolve: (m, ctx) => {
+    const range = resolvePoint(m[2], ctx);
+    if (!range?.start || !range.end) {
+      return null;
+    }
+    const modifier = m[1].toLowerCase();
+    const part = /early|beginning|start/.test(modifier) ? 0 : /mid|middle/.test(modifier) ? 1 : 2;
+    return { ...range, ...partOf(range, part) };
+  },
+};
+
+const ANCHORED_POINT_RULES = [MODIFIER_RULE, ...POINT_RULES].map(rule => ({
+  regex: new RegExp(`^(?:${rule.pattern})$`, 'i'),
+  rule,
+}));
+
+// Resolve text that is exactly one time expression
+function resolvePoint(text: string, ctx: ParseContext): Resolution | null {
+  for (const { regex, rule } of ANCHORED_POINT_RULES) {
+    const match = regex.exec(text.trim());
+    if (match) {
+      const resolution = rule.resolve(match, ctx);
+      if (resolution) {
+        return resolution;
+      }
+    }
+  }
+  return null;
+}
+
+const MILESTONE_RULE: Rule = {
+  // since the launch, before the v2.0 release
+  pattern: String.raw`(since|after|before|until|till|prior\s+to|around|during|at)\s+((?:the|our|my|their)\s+)?((?:${MILESTONE_WORD}\s+){0,2}?(?:${MILESTONE_EVENT}))`,
+  resolve: (m, ctx) => {
+    const milestone = normalizeMilestone(m[3]);
+    const date = ctx.milestones[milestone];
+
+    if (!date) {
+      if (!ctx.unresolvedMilestones.includes(milestone)) {
+        ctx.unresolvedMilestones.push(milestone);
+      }
+      return { type: TemporalReferenceType.MILESTONE, milestone };
+    }
+
+    const relation = m[1].toLowerCase().replace(/\s+/g, ' ');
+    const day = dayRange(date);
+    const range: Range =
+      relation === 'since' || relation === 'after' ? { start: date, end: ctx.now }
+      : relation === 'before' || relation === 'prior to' ? { end: endBefore(date) }
+      : relation === 'until' || relation === 'till' ? { end: day.end }
+      : relation === 'around' ? { start: addDays(day.start!, -7), end: addDays(day.end!, 7) }
+      : day;
+
+    return { type: TemporalReferenceType.MILESTONE, milestone, ...range };
+  },
+};
+
+const RANGE_RULES: Rule[] = [
+  {
+    // between March and May
+    pattern: String.raw`(?:between|from)\s+(${POINT})\s+(?:and|to|until|till|through|thru)\s+(${POINT})`,
+    resolve: (m, ctx) => {
+      const to = resolvePoint(m[2], ctx);
+      let from = resolvePoint(m[1], ctx);
+      if (!from?.start || !to?.start || !to.end) {
+        return null;
+      }
+      // "between March and May 2024": a start without a year is its latest occurrence before the end
+      if (from.start > to.start) {
+        from = resolvePoint(m[1], { ...ctx, now: to.start });
+      }
+      return from?.start ? { type: from.type, start: from.start, end: to.end } : null;
+    },
+  },
+  {
+    // since last month, after Q2
+    pattern: String.raw`(since|after|starting|as\s+of)\s+(${POINT})`,
+    resolve: (m, ctx) => {
+      const point = resolvePoint(m[2], ctx);
+      if (!point?.start || !point.end) {
+        return null;
+      }
+      const start = m[1].toLowerCase() === 'after' ? new Date(point.end.getTime() + 1) : point.start;
+      return { type: point.type, start, end: ctx.now };
+    },
+  },
+  {
+    // before 2024, until March
+    pattern: String.raw`((?<!\bday\s)before|prior\s+to|until|till|up\s+to|through)\s+(${POINT})`,
+    resolve: (m, ctx) => {
+      const point = resolvePoint(m[2], ctx);
+      if (!point?.start || !point.end) {
+        return null;
+      }
+      return {
+        type: point.type,
+        end: /^(?:before|prior)/i.test(m[1]) ? endBefore(point.start) : point.end,
+      };
+    },
+  },
+];
+
+const RECURRENCE_PATTERNS: Record<string, string> = {
+  day: 'daily',
+  week: 'weekly',
+  month: 'monthly',
+  quarter: 'quarterly',
+  year: 'yearly',
+  weekday: 'weekdays',
+  weekend: 'weekends',
+  biweekly: 'biweekly',
+  fortnightly: 'biweekly',
+  annually: 'yearly',
+};
+
+const RECURRENCE_RULES: Rule[] = [
+  {
+    // every Monday, every other week
+    pattern: String.raw`every\s+(other\s+)?(day|week|month|quarter|year|weekday|weekend|${WEEKDAY})`,
+    resolve: m => {
+      const unit = m[2].toLowerCase();
+      const pattern = RECURRENCE_PATTERNS[unit] ?? `weekly:${unit}`;
+      return {
+        type: TemporalReferenceType.RECURRING,
+        recurrencePattern: m[1] ? `every-other:${pattern}` : pattern,
+        keepInQuery: true,
+      };
+    },
+  },
+  {
+    // weekly
+    pattern: '(daily|weekly|biweekly|fortnightly|monthly|quarterly|yearly|annually)',
+    resolve: m => ({
+      type: TemporalReferenceType.RECURRING,
+      recurrencePattern: RECURRENCE_PATTERNS[m[1].toLowerCase()] ?? m[1].toLowerCase(),
+      keepInQuery: true,
+    }),
+  },
+];
+
+// Rules in the order they are applied; earlier rules claim text first
+const SCAN_RULES = [
+  MILESTONE_RULE,
+  ...RANGE_RULES,
+  MODIFIER_RULE,
+  ...POINT_RULES,
+  ...RECURRENCE_RULES,
+].map(rule => ({
+  rule,
+  // The preposition is captured first, ahead of the rule's own groups
+  source: String.raw`\b(${PREPOSITION})${rule.needsPreposition ? '' : '?'}(?:${rule.pattern})\b`,
+}));
+
+/**
+ * Parse the time expressions in a text
+ *
+ * @param text A query or memory text
+ * @param options Reference time, fiscal year start and known milestones
+ * @returns The references found, their combined range and the text without them
+ */
+export function parseTemporalExpression(text: string, options: TemporalParseOptions = {}): TemporalParseResult {
+  const ctx: ParseContext = {
+    now: options.now ?? new Date(),
+    fiscalYearStartMonth: options.fiscalYearStartMonth ?? 1,
+    milestones: options.milestones ?? {},
+    unresolvedMilestones: [],
+  };
+
+  const found: Array<{ index: number; length: number; value: string; resolution: Resolution }> = [];
+  let remaining = text;
+
+  for (const { rule, source } of SCAN_RULES) {
+    const regex = new RegExp(source, 'gi');
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(remaining)) !== null) {
+      const preposition = match[1] ?? '';
+      const value = match[0].slice(preposition.length);
+      const groups = Object.assign([value, ...match.slice(2)], {
+        index: match.index + preposition.length,
+        input: text,
+      }) as unknown as RegExpExecArray;
+      const resolution = rule.resolve(groups, ctx);
+
+      if (resolution) {
+        found.push({ index: match.index, length: match[0].length, value, resolution });
+        // Blank out the match so later rules do not claim it again
+        remaining = remaining.slice(0, match.index) + ' '.repeat(match[0].length) + remaining.slice(match.index + match[0].length);
+      }
+    }
+  }
+
+  found.sort((a, b) => a.index - b.index);
+
+  const references: TemporalReference[] = found.map(({ value, resolution }) => ({
+    type: resolution.type,
+    value,
+    ...(resolution.start && { startDate: resolution.start }),
+    ...(resolution.end && { endDate: resolution.end }),
+    ...(resolution.recurrencePattern && { recurrencePattern: resolution.recurrencePattern }),
+    ...(resolution.milestone && { milestone: resolution.milestone }),
+  }));
+
+  const ranged = found.filter(({ resolution }) => resolution.start || resolution.end);
+  const timeframes = found.filter(({ resolution }) => !resolution.keepInQuery);
+
+  let query = text;
+  for (const { index, length } of [...timeframes].reverse()) {
+    query = query.slice(0, index) + ' ' + query.slice(index + length);
+  }
+  query = query.replace(/\s+/g, ' ').replace(/\s+([,.;:?!])/g, '$1').trim();
+
+  return {
+    query,
+    timeframe: timeframes.length > 0 ? timeframes.map(({ value }) => value).join(', ') : undefined,
+    startDate: ranged.length > 0 && ranged.every(({ resolution }) => resolution.start)
+      ? new Date(Math.min(...ranged.map(({ resolution }) => resolution.start!.getTime())))
+      : undefined,
+    endDate: ranged.length > 0 && ranged.every(({ resolution }) => resolution.end)
+      ? new Date(Math.max(...ranged.map(({ resolution }) => resolution.end!.getTime())))
+      : undefined,
+    references,
+    unresolvedMilestones: ctx.unresolvedMilestones,
+    ambiguous: ctx.unresolvedMilestones.length > 0 || AMBIGUOUS_CUES.test(remaining),
+  };
+}
@@ -1,18 +1,255 @@
 /**
  * Vector Store Service
- * 
+ *
  * Manages the storage and retrieval of vector embeddings for memory entries.
  * Provides semantic search capabilities using vector similarity.
+ *
+ * Search orders 1536-dimension embeddings with `<=>` on the pgvector `embeddingVector`
+ * column, and embeddings of other sizes with an in-process HNSW index per user. Both return
+ * candidates by similarity alone; the candidates are then ranked by similarity, importance
+ * and recency.
  */
 
+import { InteractionMemory, Prisma } from '@prisma/client';
 import { prisma } from '../../../../prisma/client';
 import { EmbeddingVector, MemoryEntry, VectorSearchResult } from '../types';
-import { calculateCosineSimilarity, generateEmbedding, prepareTextForEmbedding } from './embeddingService';
+import {
+  calculateCosineSimilarity,
+  generateEmbedding,
+  generateEmbeddings,
+  getEmbeddingColumns,
+  getEmbeddingProvider,
+  prepareTextForEmbedding,
+} from './embeddingService';
+import { HnswIndex } from './hnswIndex';
 import { logger } from '../../../shared/logger';
 
+/** Dimensions of the pgvector column; embeddings of any other size are only indexed in-process */
+export const VECTOR_DIMENSIONS = 1536;
+
+/** Candidates fetched per requested result before filtering and ranking */
+const CANDIDATE_MULTIPLIER = 10;
+
+/** Upper bound of pgvector's hnsw.ef_search setting */
+const MAX_EF_SEARCH = 1000;
+
+/** In-process indexes kept in memory, least recently used first */
+const MAX_CACHED_INDEXES = 50;
+
+/** In-process indexes are rebuilt after this long to pick up writes from other instances */
+const INDEX_TTL_MS = 10 * 60 * 1000;
+
+const INDEX_LOAD_BATCH_SIZE = 1000;
+
+// Persona memory scopes and the memory content types they cover
+export const SCOPE_CONTENT_TYPES: Record<string, string[]> = {
+  conversation: ['conversation'],
+  user_preferences: ['preference'],
+  domain_knowledge: ['fact'],
+  task_history: ['task', 'outcome'],
+  decision_history: ['decision'],
+  feedback: ['feedback'],
+  context: ['event', 'comparison'],
+};
+
+export interface SemanticSearchOptions {
+  agentId?: string;
+  sessionId?: string;
+  contentType?: string;
+  limit?: number;
+  similarityThreshold?: number;
+  includeExpired?: boolean;
+  /** Only memories created at or after this time */
+  startDate?: Date;
+  /** Only memories created at or before this time */
+  endDate?: Date;
+  /**
+   * Only memories of agents using this persona. The content types are limited to the
+   * given scopes, or to the persona's memory scopes when none are given.
+   */
+  persona?: {
+    personaId: string;
+    scopes?: string[];
+  };
+  /**
+   * Days after which the recency factor of a memory halves. 0 disables recency decay.
+   */
+  recencyHalfLifeDays?: number;
+}
+
+interface CachedIndex {
+  index: HnswIndex;
+  loadedAt: number;
+}
+
+const indexCache = new Map<string, CachedIndex>();
+const indexLoads = new Map<string, Promise<HnswIndex>>();
+
+function isIndexableVector(embedding: number[] | undefined | null): embedding is number[] {
+  return Array.isArray(embedding) && embedding.length > 0 && embedding.some(value => value !== 0);
+}
+
+// In-process indexes hold the vectors of one provider
+function getIndexKey(userId: string): string {
+  return `${getEmbeddingProvider().id}:${userId}`;
+}
+
+function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+/**
+ * Load the in-process index of a user's memories, building it if needed
+ */
+async function getUserIndex(userId: string): Promise<HnswIndex> {
+  const key = getIndexKey(userId);
+  const embeddingModel = getEmbeddingProvider().id;
+  const cached = indexCache.get(key);
+  if (cached && Date.now() - cached.loadedAt < INDEX_TTL_MS) {
+    // Re-insert to mark the index as recently used
+    indexCache.delete(key);
+    indexCache.set(key, cached);
+    return cached.index;
+  }
+
+  const pending = indexLoads.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const load = (async () => {
+    const index = new HnswIndex();
+    let cursor: string | undefined;
+
+    while (true) {
+      const batch = await prisma.interactionMemory.findMany({
+        where: { userId, embeddingModel },
+        select: { id: true, embedding: true },
+        orderBy: { id: 'asc' },
+        take: INDEX_LOAD_BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      batch.forEach(memory => {
+        if (isIndexableVector(memory.embedding)) {
+          index.add(memory.id, memory.embedding);
+        }
+      });
+
+      if (batch.length < INDEX_LOAD_BATCH_SIZE) {
+        break;
+      }
+      cursor = batch[batch.length - 1].id;
+    }
+
+    indexCache.delete(key);
+    indexCache.set(key, { index, loadedAt: Date.now() });
+    while (indexCache.size > MAX_CACHED_INDEXES) {
+      indexCache.delete(indexCache.keys().next().value!);
+    }
+
+    return index;
+  })();
+
+  indexLoads.set(key, load);
+  try {
+    return await load;
+  } finally {
+    indexLoads.delete(key);
+  }
+}
+
+/**
+ * Index the embedding of a stored memory
+ *
+ * Call after writing an embedding to InteractionMemory so that searches see it.
+ *
+ * @param memoryId The ID of the memory
+ * @param userId The owner of the memory
+ * @param embedding The embedding of the memory
+ */
+export async function indexMemoryEmbedding(memoryId: string, userId: string, embedding: number[]): Promise<void> {
+  const cached = indexCache.get(getIndexKey(userId));
+  if (cached) {
+    if (isIndexableVector(embedding)) {
+      cached.index.add(memoryId, embedding);
+    } else {
+      cached.index.remove(memoryId);
+    }
+  }
+
+  // Prisma cannot write the vector column, so it is set separately
+  const vector = isIndexableVector(embedding) && embedding.length === VECTOR_DIMENSIONS
+    ? toVectorLiteral(embedding)
+    : null;
+  await prisma.$executeRaw`
+    UPDATE "InteractionMemory" SET "embeddingVector" = ${vector}::vector WHERE "id" = ${memoryId}
+  `;
+}
+
+/**
+ * Remove a deleted memory from the in-process index
+ *
+ * @param memoryId The ID of the memory
+ * @param userId The owner of the memory
+ */
+export function removeMemoryEmbedding(memoryId: string, userId: string): void {
+  indexCache.get(getIndexKey(userId))?.index.remove(memoryId);
+}
+
+/**
+ * Resolve a persona scope to the agents and content types it covers
+ */
+async function resolvePersonaScope(
+  userId: string,
+  persona: NonNullable<SemanticSearchOptions['persona']>
+): Promise<{ agentIds: string[]; contentTypes?: string[] }> {
+  const [agents, memoryScopes] = await Promise.all([
+    prisma.aI_Agent.findMany({
+      where: { userId, personaId: persona.personaId },
+      select: { id: true },
+    }),
+    persona.scopes
+      ? Promise.resolve(persona.scopes.map(scope => ({ scope })))
+      : prisma.personaMemoryScope.findMany({
+          where: { personaId: persona.personaId },
+          select: { scope: true },
+        }),
+  ]);
+
+  // A scope outside the known ones, or no scopes at all, does not limit content types
+  const scopes = memoryScopes.map(memoryScope => memoryScope.scope);
+  const contentTypes = scopes.length > 0 && scopes.every(scope => SCOPE_CONTENT_TYPES[scope])
+    ? [...new Set(scopes.flatMap(scope => SCOPE_CONTENT_TYPES[scope]))]
+    : undefined;
+
+  return { agentIds: agents.map(agent => agent.id), contentTypes };
+}
+
+/**
+ * Rank a memory by similarity, importance and recency
+ *
+ * @param similarity Cosine similarity to the query
+ * @param importance Importance of the memory
+ * @param createdAt When the memory was created
+ * @param recencyHalfLifeDays Days after which the recency factor halves; 0 disables decay
+ * @returns The ranking score
+ */
+export function calculateHybridScore(
+  similarity: number,
+  importance: number,
+  createdAt: Date,
+  recencyHalfLifeDays: number = 30,
+  now: Date = new Date()
+): number {
+  const ageDays = Math.max(0, now.getTime() - createdAt.getTime()) / (24 * 60 * 60 * 1000);
+  const recency = recencyHalfLifeDays > 0 ? Math.pow(0.5, ageDays / recencyHalfLifeDays) : 1;
+  return similarity * importance * recency;
+}
+
 /**
  * Store a vector embedding in the database
- * 
+ *
  * @param memoryEntry The memory entry to store
  * @returns The stored memory entry with its embedding
  */
@@ -33,7 +270,7 @@ export async function storeVectorEmbedding(memoryEntry: MemoryEntry): Promise<Me
     }
 
     // Store the embedding in the database
-    await prisma.interactionMemory.create({
+    const storedMemory = await prisma.interactionMemory.create({
       data: {
         userId: memoryEntry.userId,
         agentId: memoryEntry.agentId || '',
@@ -42,37 +279,80 @@ export async function storeVectorEmbedding(memoryEntry: MemoryEntry): Promise<Me
         content: memoryEntry.content,
         importance: memoryEntry.importance,
         expiresAt: memoryEntry.expiresAt,
-        embedding: memoryEntry.embedding,
+        ...getEmbeddingColumns(memoryEntry.embedding),
         metadata: memoryEntry.metadata || {},
       },
     });
 
-    return memoryEntry;
+    await indexMemoryEmbedding(storedMemory.id, memoryEntry.userId, memoryEntry.embedding);
+
+    return { ...memoryEntry, id: storedMemory.id, createdAt: storedMemory.createdAt };
   } catch (error) {
     logger.error('Error storing vector embedding:', { error, userId: memoryEntry.userId });
     throw new Error(`Failed to store vector embedding: ${error.message}`);
   }
 }
 
+/**
+ * Find candidate memories with pgvector
+ *
+ * The HNSW index filters the rows it finds rather than searching among the matching rows,
+ * so a scan that finds only ef_search rows can return far fewer candidates than asked for
+ * when filters are selective. ef_search is raised to the candidate limit for the query,
+ * which over-fetches the requested results several times over.
+ */
+async function findPgvectorCandidates(
+  queryEmbedding: number[],
+  userId: string,
+  options: SemanticSearchOptions,
+  scope: { agentIds: string[]; contentTypes?: string[] } | null,
+  candidateLimit: number
+): Promise<Array<{ id: string; similarity: number }>> {
+  const vector = toVectorLiteral(queryEmbedding);
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`"userId" = ${userId}`,
+    Prisma.sql`"embeddingModel" = ${getEmbeddingProvider().id}`,
+    Prisma.sql`"embeddingVector" IS NOT NULL`,
+  ];
+
+  if (options.agentId) conditions.push(Prisma.sql`"agentId" = ${options.agentId}`);
+  if (options.sessionId) conditions.push(Prisma.sql`"sessionId" = ${options.sessionId}`);
+  if (options.contentType) conditions.push(Prisma.sql`"type" = ${options.contentType}`);
+  if (options.startDate) conditions.push(Prisma.sql`"createdAt" >= ${options.startDate}`);
+  if (options.endDate) conditions.push(Prisma.sql`"createdAt" <= ${options.endDate}`);
+  if (!options.includeExpired) conditions.push(Prisma.sql`("expiresAt" IS NULL OR "expiresAt" > NOW())`);
+  if (scope) {
+    conditions.push(Prisma.sql`"agentId" IN (${Prisma.join(scope.agentIds)})`);
+    if (scope.contentTypes) conditions.push(Prisma.sql`"type" IN (${Prisma.join(scope.contentTypes)})`);
+  }
+
+  const efSearch = Math.min(Math.max(candidateLimit, 40), MAX_EF_SEARCH);
+  const [, candidates] = await prisma.$transaction([
+    prisma.$executeRawUnsafe(`SET LOCAL hnsw.ef_search = ${efSearch}`),
+    prisma.$queryRaw<Array<{ id: string; similarity: number }>>`
+      SELECT "id", 1 - ("embeddingVector" <=> ${vector}::vector) AS "similarity"
+      FROM "InteractionMemory"
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY "embeddingVector" <=> ${vector}::vector
+      LIMIT ${candidateLimit}
+    `,
+  ]);
+
+  return candidates;
+}
+
 /**
  * Perform a semantic search using vector similarity
- * 
+ *
  * @param query The query text to search for
  * @param userId The user ID to search within
  * @param options Additional search options
- * @returns Array of search results sorted by similarity
+ * @returns Array of search results sorted by hybrid score
  */
 export async function semanticSearch(
   query: string,
   userId: string,
-  options: {
-    agentId?: string;
-    sessionId?: string;
-    contentType?: string;
-    limit?: number;
-    similarityThreshold?: number;
-    includeExpired?: boolean;
-  } = {}
+  options: SemanticSearchOptions = {}
 ): Promise<VectorSearchResult[]> {
   try {
     const {
@@ -82,8 +362,17 @@ export async function semanticSearch(
       limit = 5,
       similarityThreshold = 0.7,
       includeExpired = false,
+      startDate,
+      endDate,
+      persona,
+      recencyHalfLifeDays = 30,
     } = options;
 
+    const scope = persona ? await resolvePersonaScope(userId, persona) : null;
+    if (scope && scope.agentIds.length === 0) {
+      return [];
+    }
+
     // Generate embedding for the query
     const queryEmbedding = await generateEmbedding({
       text: query,
@@ -91,45 +380,85 @@ export async function semanticSearch(
       metadata: { operation: 'semantic-search' },
     });
 
-    // Fetch all relevant memory entries
+    if (!isIndexableVector(queryEmbedding)) {
+      return [];
+    }
+
+    // Vectors of other providers are not comparable with the query
     const whereClause: any = {
       userId,
+      embeddingModel: getEmbeddingProvider().id,
       ...(agentId && { agentId }),
       ...(sessionId && { sessionId }),
       ...(contentType && { type: contentType }),
-      ...(!includeExpired && { 
+      ...((startDate || endDate) && {
+        createdAt: {
+          ...(startDate && { gte: startDate }),
+          ...(endDate && { lte: endDate }),
+        },
+      }),
+      ...(!includeExpired && {
         OR: [
           { expiresAt: null },
           { expiresAt: { gt: new Date() } },
         ],
       }),
+      ...(scope && {
+        AND: [
+          { agentId: { in: scope.agentIds } },
+          ...(scope.contentTypes ? [{ type: { in: scope.contentTypes } }] : []),
+        ],
+      }),
     };
 
-    const memories = await prisma.interactionMemory.findMany({
-      where: whereClause,
-      orderBy: { importance: 'desc' },
-      take: limit * 3, // Fetch more than needed to filter by similarity
-    });
+    let candidateLimit = limit * CANDIDATE_MULTIPLIER;
+    let candidates: Array<{ id: string; similarity: number }>;
+    let memories: InteractionMemory[];
+
+    if (queryEmbedding.length === VECTOR_DIMENSIONS) {
+      candidates = await findPgvectorCandidates(queryEmbedding, userId, options, scope, candidateLimit);
+      memories = await prisma.interactionMemory.findMany({
+        where: { id: { in: candidates.map(candidate => candidate.id) } },
+      });
+    } else {
+      // The in-process index does not know the filters; widen the candidate set until
+      // enough candidates survive them or the index is exhausted
+      const index = await getUserIndex(userId);
+      while (true) {
+        candidates = index.search(queryEmbedding, candidateLimit, candidateLimit * 2);
+        memories = await prisma.interactionMemory.findMany({
+          where: {
+            ...whereClause,
+            id: { in: candidates.map(candidate => candidate.id) },
+          },
+        });
+
+        if (memories.length >= candidateLimit || candidates.length < candidateLimit || candidateLimit >= index.size) {
+          break;
+        }
+        candidateLimit *= 4;
+      }
+    }
 
-    // Calculate similarity scores and filter by threshold
-    const results = memories
-      .filter(memory => memory.embedding)
+    const similarityById = new Map(candidates.map(candidate => [candidate.id, Number(candidate.similarity)]));
+    const now = new Date();
+
+    return memories
       .map(memory => {
-        const similarity = calculateCosineSimilarity(queryEmbedding, memory.embedding);
+        const similarity = similarityById.get(memory.id) ?? calculateCosineSimilarity(queryEmbedding, memory.embedding);
         return {
           id: memory.id,
           content: memory.content,
-          context: memory.type,
+          context: memory.context || (memory.metadata as Record<string, any> | null)?.context || '',
           contentType: memory.type,
           similarity,
+          score: calculateHybridScore(similarity, memory.importance, memory.createdAt, recencyHalfLifeDays, now),
           createdAt: memory.createdAt,
         };
       })
       .filter(result => result.similarity >= similarityThreshold)
-      .sort((a, b) => b.similarity - a.similarity)
+      .sort((a, b) => b.score - a.score)
       .slice(0, limit);
-
-    return results;
   } catch (error) {
     logger.error('Error performing semantic search:', { error, userId, query });
     return [];
@@ -138,7 +467,7 @@ export async function semanticSearch(
 
 /**
  * Update the embedding for an existing memory entry
- * 
+ *
  * @param memoryId The ID of the memory entry to update
  * @param content The new content to generate an embedding for
  * @returns The updated memory entry
@@ -167,11 +496,56 @@ export async function updateEmbedding(memoryId: string, content: any): Promise<v
       where: { id: memoryId },
       data: {
         content,
-        embedding,
+        ...getEmbeddingColumns(embedding),
       },
     });
+
+    await indexMemoryEmbedding(memoryId, memory.userId, embedding);
   } catch (error) {
     logger.error('Error updating embedding:', { error, memoryId });
     throw new Error(`Failed to update embedding: ${error.message}`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Re-embed memories whose vectors were generated by another embedding provider
+ *
+ * Memories are processed newest first so that recent memories become searchable again
+ * soonest after a provider change.
+ *
+ * @param limit Maximum number of memories to re-embed
+ * @returns How many memories were re-embedded and how many are still stale
+ */
+export async function reembedStaleMemories(limit: number = 200): Promise<{ reembedded: number; remaining: number }> {
+  const embeddingModel = getEmbeddingProvider().id;
+  const staleWhere = {
+    OR: [
+      { embeddingModel: null },
+      { embeddingModel: { not: embeddingModel } },
+    ],
+  };
+
+  const memories = await prisma.interactionMemory.findMany({
+    where: staleWhere,
+    select: { id: true, userId: true, content: true },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+
+  if (memories.length > 0) {
+    const embeddings = await generateEmbeddings(memories.map(memory => prepareTextForEmbedding(memory.content)));
+
+    for (let i = 0; i < memories.length; i++) {
+      await prisma.interactionMemory.update({
+        where: { id: memories[i].id },
+        data: getEmbeddingColumns(embeddings[i]),
+      });
+      await indexMemoryEmbedding(memories[i].id, memories[i].userId, embeddings[i]);
+    }
+  }
+
+  return {
+    reembedded: memories.length,
+    remaining: await prisma.interactionMemory.count({ where: staleWhere }),
+  };
+}
@@ -101,6 +101,11 @@ export interface MemoryQueryOptions {
   endDate?: Date;
   timeframe?: string;
   compareTo?: string;
+  persona?: {
+    personaId: string;
+    scopes?: string[];
+  };
+  recencyHalfLifeDays?: number;
 }
 
 export interface VectorSearchResult {
@@ -109,6 +114,8 @@ export interface VectorSearchResult {
   context: string;
   contentType: MemoryContentType;
   similarity: number;
+  /** Ranking score combining similarity, importance and recency */
+  score?: number;
   createdAt: Date;
   temporalReferences?: TemporalReference[];
 }
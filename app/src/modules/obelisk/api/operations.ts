@@ -2,6 +2,7 @@ import { HttpError } from 'wasp/server';
 import { prisma } from 'wasp/server';
 import { z } from 'zod';
 import { ensureArgsSchemaOrThrowHttpError } from '@src/server/validation';
+import { emitWorkflowEvent } from '@src/modules/forgeflow/triggers/workflowTriggerService';
 
 // Dashboard Operations
 export const getOsintDashboardStats = async (args: unknown, context: any) => {
@@ -654,6 +655,20 @@ export const createOsintFinding = async (args: unknown, context: any) => {
       data: validatedArgs,
     });
 
+    // Start workflows subscribed to new OSINT findings
+    await emitWorkflowEvent('OSINT_FINDING_CREATED', {
+      userId: context.user.id,
+      eventId: osintFinding.id,
+      payload: {
+        findingId: osintFinding.id,
+        sourceId: osintFinding.sourceId,
+        title: osintFinding.title,
+        summary: osintFinding.summary,
+        category: osintFinding.category,
+        severity: osintFinding.severity,
+      },
+    });
+
     return osintFinding;
   } catch (error) {
     if (error instanceof HttpError) throw error;
@@ -52,6 +52,13 @@ const getArchiveContentSchema = z.object({
   reason: z.string().optional(),
 });
 
+// Schema for placing or lifting a legal hold
+const setArchiveLegalHoldSchema = z.object({
+  archiveId: z.string(),
+  legalHold: z.boolean(),
+  reason: z.string().min(1),
+});
+
 // Schema for compliance report
 const generateComplianceReportSchema = z.object({
   standard: z.string(), // "SOC2", "GDPR", "HIPAA", etc.
@@ -360,3 +367,71 @@ export const getCollaborationArchiveContent = async (args: any, context: any) =>
     throw new HttpError(500, 'Failed to get collaboration archive content');
   }
 };
+
+/**
+ * Places an archive on legal hold or lifts the hold
+ *
+ * Archives on legal hold are skipped by archive rotation and by data subject erasure.
+ */
+export const setArchiveLegalHold = async (args: any, context: any) => {
+  // Apply RBAC middleware - require 'archive:manage' permission
+  const user = await requirePermission({
+    resource: 'archive',
+    action: 'manage',
+    adminOverride: true,
+    auditRejection: true
+  })(context);
+
+  try {
+    // Validate arguments
+    const validatedArgs = ensureArgsSchemaOrThrowHttpError(setArchiveLegalHoldSchema, args);
+
+    const archive = await prisma.collaborationArchive.update({
+      where: { id: validatedArgs.archiveId },
+      data: { legalHold: validatedArgs.legalHold },
+      select: { id: true, userId: true, legalHold: true }
+    });
+
+    // Record the change in the archive's access log
+    await prisma.archiveAccessLog.create({
+      data: {
+        archiveId: archive.id,
+        accessedBy: user.id,
+        accessType: validatedArgs.legalHold ? 'legal_hold_placed' : 'legal_hold_lifted',
+        ipAddress: context.req?.ip,
+        userAgent: context.req?.headers['user-agent'],
+        reason: validatedArgs.reason,
+      }
+    });
+
+    LoggingService.info({
+      message: validatedArgs.legalHold ? 'Placed collaboration archive on legal hold' : 'Lifted legal hold on collaboration archive',
+      userId: user.id,
+      module: 'sentinel',
+      category: 'ARCHIVE',
+      metadata: {
+        archiveId: archive.id,
+        archiveUserId: archive.userId,
+        reason: validatedArgs.reason,
+      }
+    });
+
+    return archive;
+  } catch (error) {
+    console.error('Error setting legal hold on collaboration archive:', error);
+    LoggingService.error({
+      message: 'Failed to set legal hold on collaboration archive',
+      userId: user.id,
+      module: 'sentinel',
+      category: 'ARCHIVE',
+      error,
+      metadata: { archiveId: args.archiveId }
+    });
+
+    if (error instanceof HttpError) {
+      throw error;
+    }
+
+    throw new HttpError(500, 'Failed to set legal hold on collaboration archive');
+  }
+};
@@ -5,6 +5,7 @@ import { LoggingService } from '@src/shared/services/logging';
 import { ensureArgsSchemaOrThrowHttpError } from '@src/server/validation';
 import { requirePermission } from '@src/api/middleware/rbac';
 import { applyFieldVisibility } from '@src/api/middleware/fieldAccess';
+import { emitWorkflowEvent } from '@src/modules/forgeflow/triggers/workflowTriggerService';
 
 // Validation schemas
 const securityAlertSchema = z.object({
@@ -507,7 +508,7 @@ export const runSecurityScan = async (args: any, context: any) => {
 
         // Create alerts based on scan results
         if (results.alerts && results.alerts.length > 0) {
-          await prisma.securityAlert.createMany({
+          const createdAlerts = await prisma.securityAlert.createManyAndReturn({
             data: results.alerts.map((alert: any) => ({
               userId: context.user.id,
               title: alert.title,
@@ -519,6 +520,23 @@ export const runSecurityScan = async (args: any, context: any) => {
               metadata: alert.metadata,
             })),
           });
+
+          // Start workflows subscribed to new security alerts
+          for (const alert of createdAlerts) {
+            await emitWorkflowEvent('SECURITY_ALERT_CREATED', {
+              userId: context.user.id,
+              eventId: alert.id,
+              payload: {
+                alertId: alert.id,
+                title: alert.title,
+                description: alert.description,
+                severity: alert.severity,
+                source: alert.source,
+                scanId: alert.scanId,
+                metadata: alert.metadata,
+              },
+            });
+          }
         }
 
         // Create compliance checks based on scan results
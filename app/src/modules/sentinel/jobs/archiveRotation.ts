@@ -81,6 +81,8 @@ class CollaborationArchivesRotation extends MaintenanceOperation {
         createdAt: {
           lt: cutoffDate,
         },
+        // Archives on legal hold are never rotated
+        legalHold: false,
       };
 
       // If preserveVerified is true, exclude verified archives
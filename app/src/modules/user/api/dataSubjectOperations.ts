@@ -0,0 +1,125 @@
+import * as z from 'zod';
+import {
+  type ExportUserData,
+  type RequestDataErasure,
+  type ConfirmDataErasure,
+  type GetDataSubjectRequests,
+} from 'wasp/server/operations';
+import { HttpError } from 'wasp/server';
+import { ensureArgsSchemaOrThrowHttpError } from '../../../server/validation';
+import {
+  DataSubjectService,
+  type DataExport,
+  type DataSubjectRequestListItem,
+  type DataSubjectRequestRecord,
+  type ErasureRequestResult,
+} from '../services/dataSubjectService';
+
+const dataSubjectScopeSchema = z.object({
+  // Defaults to the current user; only admins may act on other users
+  userId: z.string().nonempty().optional(),
+  agentId: z.string().nonempty().optional(),
+});
+
+const exportUserDataInputSchema = dataSubjectScopeSchema.extend({
+  format: z.enum(['json', 'zip']).default('json'),
+});
+
+type ExportUserDataInput = z.input<typeof exportUserDataInputSchema>;
+
+const requestDataErasureInputSchema = dataSubjectScopeSchema.extend({
+  reason: z.string().max(1000).optional(),
+});
+
+type RequestDataErasureInput = z.infer<typeof requestDataErasureInputSchema>;
+
+const confirmDataErasureInputSchema = z.object({
+  requestId: z.string().nonempty(),
+  code: z.string().regex(/^\s*\d{6}\s*$/, 'Verification code must be 6 digits'),
+});
+
+type ConfirmDataErasureInput = z.infer<typeof confirmDataErasureInputSchema>;
+
+const getDataSubjectRequestsInputSchema = z.object({
+  // Admins only; omit to list the requests of every user
+  userId: z.string().nonempty().optional(),
+  allUsers: z.boolean().optional(),
+  limit: z.number().int().min(1).max(200).optional(),
+});
+
+type GetDataSubjectRequestsInput = z.infer<typeof getDataSubjectRequestsInputSchema>;
+
+function resolveSubjectUserId(user: { id: string; isAdmin: boolean }, userId?: string): string {
+  if (userId && userId !== user.id && !user.isAdmin) {
+    throw new HttpError(403, 'Only admins are allowed to act on the data of other users');
+  }
+
+  return userId ?? user.id;
+}
+
+export const exportUserData: ExportUserData<ExportUserDataInput, DataExport> = async (rawArgs, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Only authenticated users are allowed to perform this operation');
+  }
+
+  const { userId, agentId, format } = ensureArgsSchemaOrThrowHttpError(exportUserDataInputSchema, rawArgs);
+
+  return DataSubjectService.exportData(
+    { userId: resolveSubjectUserId(context.user, userId), agentId },
+    format,
+    context.user.id
+  );
+};
+
+export const requestDataErasure: RequestDataErasure<RequestDataErasureInput, ErasureRequestResult> = async (
+  rawArgs,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Only authenticated users are allowed to perform this operation');
+  }
+
+  const { userId, agentId, reason } = ensureArgsSchemaOrThrowHttpError(requestDataErasureInputSchema, rawArgs);
+
+  return DataSubjectService.requestErasure({
+    scope: { userId: resolveSubjectUserId(context.user, userId), agentId },
+    requestedBy: { id: context.user.id, isAdmin: context.user.isAdmin },
+    reason,
+  });
+};
+
+export const confirmDataErasure: ConfirmDataErasure<ConfirmDataErasureInput, DataSubjectRequestRecord> = async (
+  rawArgs,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Only authenticated users are allowed to perform this operation');
+  }
+
+  const { requestId, code } = ensureArgsSchemaOrThrowHttpError(confirmDataErasureInputSchema, rawArgs);
+
+  return DataSubjectService.confirmErasure({ requestId, code, userId: context.user.id });
+};
+
+export const getDataSubjectRequests: GetDataSubjectRequests<
+  GetDataSubjectRequestsInput | undefined,
+  DataSubjectRequestListItem[]
+> = async (
+  rawArgs,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Only authenticated users are allowed to perform this operation');
+  }
+
+  const { userId, allUsers, limit } = ensureArgsSchemaOrThrowHttpError(getDataSubjectRequestsInputSchema, rawArgs ?? {});
+
+  if (allUsers && !context.user.isAdmin) {
+    throw new HttpError(403, 'Only admins are allowed to perform this operation');
+  }
+
+  return DataSubjectService.getRequests({
+    userId: allUsers ? userId : resolveSubjectUserId(context.user, userId),
+    limit,
+  });
+};
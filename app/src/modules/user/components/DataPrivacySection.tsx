@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import {
+  exportUserData,
+  requestDataErasure,
+  confirmDataErasure,
+  getDataSubjectRequests,
+  useQuery,
+} from 'wasp/client/operations';
+
+export function downloadExport({ fileName, contentType, encoding, data }: {
+  fileName: string;
+  contentType: string;
+  encoding: 'utf8' | 'base64';
+  data: string;
+}) {
+  const content = encoding === 'base64' ? Uint8Array.from(atob(data), (char) => char.charCodeAt(0)) : data;
+  const url = URL.createObjectURL(new Blob([content], { type: contentType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const statusLabels: Record<string, string> = {
+  PENDING_VERIFICATION: 'Awaiting verification',
+  PROCESSING: 'In progress',
+  COMPLETED: 'Completed',
+  FAILED: 'Failed',
+  CANCELLED: 'Cancelled',
+};
+
+export default function DataPrivacySection() {
+  const { data: requests, refetch } = useQuery(getDataSubjectRequests, { limit: 10 });
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingErasureId, setPendingErasureId] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A request awaiting verification survives a page reload
+  const awaitingVerificationId =
+    pendingErasureId ??
+    requests?.find((request: any) => request.type === 'ERASURE' && request.status === 'PENDING_VERIFICATION')?.id ??
+    null;
+
+  const run = async (operation: () => Promise<void>) => {
+    setError(null);
+    setMessage(null);
+    try {
+      await operation();
+    } catch (err: any) {
+      setError(err?.message || 'Something went wrong');
+    } finally {
+      refetch();
+    }
+  };
+
+  const handleExport = (format: 'json' | 'zip') =>
+    run(async () => {
+      setIsExporting(true);
+      try {
+        downloadExport(await exportUserData({ format }));
+      } finally {
+        setIsExporting(false);
+      }
+    });
+
+  const handleRequestErasure = () => {
+    if (!window.confirm('Erase your memories, prompts, reasoning history and archives? This cannot be undone.')) {
+      return;
+    }
+    run(async () => {
+      const { request } = await requestDataErasure({});
+      setPendingErasureId(request.id);
+      setMessage('We sent a verification code to your email address.');
+    });
+  };
+
+  const handleConfirmErasure = () =>
+    run(async () => {
+      if (!awaitingVerificationId) return;
+      const request = await confirmDataErasure({ requestId: awaitingVerificationId, code });
+      setPendingErasureId(null);
+      setCode('');
+      setMessage(
+        request.status === 'COMPLETED'
+          ? 'Your data has been erased.'
+          : 'Your data could not be fully erased. Please contact support.'
+      );
+    });
+
+  return (
+    <div className='overflow-hidden border border-gray-900/10 shadow-lg sm:rounded-lg mb-4 lg:m-8 dark:border-gray-100/10'>
+      <div className='px-4 py-5 sm:px-6 lg:px-8'>
+        <h3 className='text-base font-semibold leading-6 text-gray-900 dark:text-white'>Your Data</h3>
+        <p className='mt-1 text-sm text-gray-500 dark:text-gray-400'>
+          Download everything our agents remember about you, or have it erased. Archives under legal hold are kept
+          until the hold is lifted.
+        </p>
+      </div>
+      <div className='border-t border-gray-900/10 dark:border-gray-100/10 px-4 py-5 sm:px-6 lg:px-8 space-y-4'>
+        <div className='flex flex-wrap gap-3'>
+          <button
+            onClick={() => handleExport('json')}
+            disabled={isExporting}
+            className='font-medium text-sm text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300 disabled:opacity-50'
+          >
+            Export as JSON
+          </button>
+          <button
+            onClick={() => handleExport('zip')}
+            disabled={isExporting}
+            className='font-medium text-sm text-indigo-600 hover:text-indigo-500 dark:text-indigo-400 dark:hover:text-indigo-300 disabled:opacity-50'
+          >
+            Export as ZIP
+          </button>
+          <button
+            onClick={handleRequestErasure}
+            disabled={!!awaitingVerificationId}
+            className='font-medium text-sm text-red-600 hover:text-red-500 dark:text-red-400 dark:hover:text-red-300 disabled:opacity-50'
+          >
+            Erase my data
+          </button>
+        </div>
+
+        {awaitingVerificationId && (
+          <div className='flex flex-wrap items-center gap-3'>
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              inputMode='numeric'
+              maxLength={6}
+              placeholder='Verification code'
+              className='rounded-md border border-gray-300 px-3 py-1.5 text-sm dark:bg-boxdark dark:border-gray-600'
+            />
+            <button
+              onClick={handleConfirmErasure}
+              disabled={code.trim().length !== 6}
+              className='inline-flex justify-center py-1.5 px-4 border border-transparent shadow-md text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50'
+            >
+              Confirm erasure
+            </button>
+          </div>
+        )}
+
+        {message && <p className='text-sm text-green-600 dark:text-green-400'>{message}</p>}
+        {error && <p className='text-sm text-red-600 dark:text-red-400'>{error}</p>}
+
+        {!!requests?.length && (
+          <ul className='divide-y divide-gray-900/10 dark:divide-gray-100/10 text-sm'>
+            {requests.map((request: any) => (
+              <li key={request.id} className='py-2 flex justify-between text-gray-900 dark:text-gray-400'>
+                <span>
+                  {request.type === 'EXPORT' ? 'Export' : 'Erasure'} · {new Date(request.createdAt).toLocaleString()}
+                </span>
+                <span>{statusLabels[request.status] || request.status}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { SubscriptionStatus, prettyPaymentPlanName, parsePaymentPlanId } from '.
 import { getCustomerPortalUrl, useQuery } from 'wasp/client/operations';
 import { Link as WaspRouterLink, routes } from 'wasp/client/router';
 import { logout } from 'wasp/client/auth';
+import DataPrivacySection from '../components/DataPrivacySection';
 
 export default function AccountPage({ user }: { user: User }) {
   return (
@@ -49,6 +50,7 @@ export default function AccountPage({ user }: { user: User }) {
           </dl>
         </div>
       </div>
+      <DataPrivacySection />
       <div className='inline-flex w-full justify-end'>
         <button
           onClick={logout}
@@ -0,0 +1,703 @@
+/**
+ * Data Subject Service
+ *
+ * Exports and erases what the platform remembers about a user: memories, prompts,
+ * reasoning traces, agent sessions, Sentient Loop snapshots and collaboration archives.
+ * A request can be limited to what one agent remembers about the user.
+ *
+ * Erasure requested by the user is confirmed with a code sent to their email address,
+ * and cancelled after too many wrong codes; erasure requested by an admin runs
+ * immediately. After an erasure, the affected models are counted again and the request
+ * only completes when nothing erasable is left.
+ * Archives on legal hold are kept, and every export and erasure is written to the
+ * system log.
+ */
+
+import { createHash, randomInt, timingSafeEqual } from 'crypto';
+import { HttpError, prisma } from 'wasp/server';
+import { emailSender } from 'wasp/server/email';
+import { Prisma } from '@prisma/client';
+import { LoggingService } from '@src/shared/services/logging';
+import { MemoryService } from '@src/modules/memory/services/memoryService';
+import { createZipArchive } from './zipArchive';
+
+/** How long an erasure verification code is valid */
+const VERIFICATION_TTL_MS = 30 * 60 * 1000;
+
+/** Codes that may be tried for an erasure request before it is cancelled */
+const MAX_VERIFICATION_ATTEMPTS = 5;
+
+/** Content of prompts that other users' reasoning traces still reference */
+export const ERASED_CONTENT = '[erased at the request of the data subject]';
+
+export const DATA_SUBJECT_CATEGORIES = [
+  'interactionMemories',
+  'memoryEntries',
+  'prompts',
+  'reasonings',
+  'agentSessions',
+  'sentientMemorySnapshots',
+  'collaborationArchives',
+] as const;
+
+export type DataSubjectCategory = (typeof DATA_SUBJECT_CATEGORIES)[number];
+
+export type DataCounts = Record<DataSubjectCategory, number>;
+
+export interface DataSubjectScope {
+  userId: string;
+  /** Only what this agent remembers about the user */
+  agentId?: string;
+}
+
+export interface DataExport {
+  requestId: string;
+  fileName: string;
+  contentType: string;
+  encoding: 'utf8' | 'base64';
+  data: string;
+  counts: DataCounts;
+}
+
+// A type rather than an interface so that it can be stored as JSON
+export type ErasureSummary = {
+  erased: DataCounts;
+  /** Prompts kept because other users' reasoning traces reference them, with their content erased */
+  redactedPrompts: number;
+  /** IDs of archives kept because they are on legal hold */
+  retainedUnderLegalHold: string[];
+  /** Erasable rows found after the erasure; all zero when it succeeded */
+  remaining: DataCounts;
+};
+
+const REQUEST_SELECT = {
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  userId: true,
+  agentId: true,
+  requestedById: true,
+  type: true,
+  status: true,
+  reason: true,
+  verificationExpiresAt: true,
+  verificationAttempts: true,
+  verifiedAt: true,
+  completedAt: true,
+  summary: true,
+  error: true,
+} satisfies Prisma.DataSubjectRequestSelect;
+
+const REQUEST_LIST_SELECT = {
+  ...REQUEST_SELECT,
+  user: { select: { id: true, email: true, username: true } },
+  requestedBy: { select: { id: true, email: true, username: true } },
+} satisfies Prisma.DataSubjectRequestSelect;
+
+export type DataSubjectRequestRecord = Prisma.DataSubjectRequestGetPayload<{
+  select: typeof REQUEST_SELECT;
+}>;
+
+export type DataSubjectRequestListItem = Prisma.DataSubjectRequestGetPayload<{
+  select: typeof REQUEST_LIST_SELECT;
+}>;
+
+export interface ErasureRequestResult {
+  request: DataSubjectRequestRecord;
+  verificationRequired: boolean;
+}
+
+// Where clause of each category; null when the category cannot be limited to an agent
+function getScopeFilters({ userId, agentId }: DataSubjectScope): Record<DataSubjectCategory, any | null> {
+  return {
+    interactionMemories: { userId, ...(agentId && { agentId }) },
+    memoryEntries: agentId ? null : { userId },
+    prompts: agentId ? null : { createdById: userId },
+    reasonings: { userId, ...(agentId && { agentId }) },
+    agentSessions: { userId, ...(agentId && { agentId }) },
+    sentientMemorySnapshots: { checkpoint: { userId, ...(agentId && { agentId }) } },
+    collaborationArchives: agentId ? null : { userId },
+  };
+}
+
+function hashCode(code: string): string {
+  return createHash('sha256').update(code).digest('hex');
+}
+
+function emptyCounts(): DataCounts {
+  return Object.fromEntries(DATA_SUBJECT_CATEGORIES.map(category => [category, 0])) as DataCounts;
+}
+
+async function recordAuditEvent(params: {
+  message: string;
+  action: 'export' | 'erasure-requested' | 'erasure-verification-failed' | 'erasure-completed' | 'erasure-failed';
+  actorId: string;
+  requestId: string;
+  scope: DataSubjectScope;
+  level?: 'INFO' | 'WARN' | 'ERROR';
+  counts?: Partial<DataCounts>;
+  metadata?: Record<string, any>;
+}) {
+  await LoggingService.logSystemEvent({
+    message: params.message,
+    level: params.level || 'INFO',
+    category: 'DATA_ACCESS',
+    source: 'data-subject-service',
+    userId: params.actorId,
+    agentId: params.scope.agentId,
+    tags: ['data-subject', params.action],
+    metadata: {
+      requestId: params.requestId,
+      subjectUserId: params.scope.userId,
+      ...params.metadata,
+    },
+    affectedEntities: params.counts || {},
+  });
+}
+
+export class DataSubjectService {
+  /**
+   * Collects everything the platform remembers about a user
+   *
+   * Embedding vectors and encrypted archive contents are left out.
+   *
+   * @param scope The user, and optionally the agent
+   * @returns The rows of each category
+   */
+  static async collectData(scope: DataSubjectScope): Promise<Record<DataSubjectCategory, any[]>> {
+    const filters = getScopeFilters(scope);
+
+    const [
+      interactionMemories,
+      memoryEntries,
+      prompts,
+      reasonings,
+      agentSessions,
+      sentientMemorySnapshots,
+      collaborationArchives,
+    ] = await Promise.all([
+      prisma.interactionMemory.findMany({
+        where: filters.interactionMemories,
+        select: {
+          id: true,
+          createdAt: true,
+          agentId: true,
+          sessionId: true,
+          checkpointId: true,
+          source: true,
+          type: true,
+          context: true,
+          content: true,
+          importance: true,
+          expiresAt: true,
+          metadata: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      filters.memoryEntries ? prisma.memoryEntry.findMany({ where: filters.memoryEntries, orderBy: { createdAt: 'asc' } }) : [],
+      filters.prompts ? prisma.aIPrompt.findMany({ where: filters.prompts, orderBy: { createdAt: 'asc' } }) : [],
+      prisma.aIReasoning.findMany({
+        where: filters.reasonings,
+        include: { reasoningSteps: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.agentSession.findMany({ where: filters.agentSessions, orderBy: { createdAt: 'asc' } }),
+      prisma.sentientMemorySnapshot.findMany({ where: filters.sentientMemorySnapshots, orderBy: { createdAt: 'asc' } }),
+      filters.collaborationArchives
+        ? prisma.collaborationArchive.findMany({ where: filters.collaborationArchives, orderBy: { createdAt: 'asc' } })
+        : [],
+    ]);
+
+    return {
+      interactionMemories,
+      memoryEntries,
+      prompts,
+      reasonings,
+      agentSessions,
+      sentientMemorySnapshots,
+      collaborationArchives,
+    };
+  }
+
+  /**
+   * Exports everything the platform remembers about a user
+   *
+   * @param scope The user, and optionally the agent
+   * @param format 'json' for one document, 'zip' for one file per category
+   * @param requestedById The user requesting the export
+   * @returns The export, base64 encoded when zipped
+   */
+  static async exportData(scope: DataSubjectScope, format: 'json' | 'zip', requestedById: string): Promise<DataExport> {
+    const data = await this.collectData(scope);
+    const counts = Object.fromEntries(
+      DATA_SUBJECT_CATEGORIES.map(category => [category, data[category].length])
+    ) as DataCounts;
+
+    const request = await prisma.dataSubjectRequest.create({
+      data: {
+        userId: scope.userId,
+        agentId: scope.agentId,
+        requestedById,
+        type: 'EXPORT',
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        summary: { format, counts },
+      },
+    });
+
+    await recordAuditEvent({
+      message: 'Exported data subject data',
+      action: 'export',
+      actorId: requestedById,
+      requestId: request.id,
+      scope,
+      counts,
+      metadata: { format },
+    });
+
+    const exportedAt = new Date();
+    const manifest = {
+      userId: scope.userId,
+      agentId: scope.agentId ?? null,
+      exportedAt: exportedAt.toISOString(),
+      requestId: request.id,
+      counts,
+    };
+    const baseName = `data-export-${scope.userId}${scope.agentId ? `-${scope.agentId}` : ''}-${exportedAt.toISOString().slice(0, 10)}`;
+
+    if (format === 'zip') {
+      const archive = createZipArchive([
+        { name: 'manifest.json', content: JSON.stringify(manifest, null, 2) },
+        ...DATA_SUBJECT_CATEGORIES.map(category => ({
+          name: `${category}.json`,
+          content: JSON.stringify(data[category], null, 2),
+        })),
+      ], exportedAt);
+
+      return {
+        requestId: request.id,
+        fileName: `${baseName}.zip`,
+        contentType: 'application/zip',
+        encoding: 'base64',
+        data: archive.toString('base64'),
+        counts,
+      };
+    }
+
+    return {
+      requestId: request.id,
+      fileName: `${baseName}.json`,
+      contentType: 'application/json',
+      encoding: 'utf8',
+      data: JSON.stringify({ ...manifest, data }, null, 2),
+      counts,
+    };
+  }
+
+  /**
+   * Requests the erasure of what the platform remembers about a user
+   *
+   * When the user requests it themselves, a verification code is emailed to them and the
+   * erasure runs once it is confirmed with confirmErasure. An admin's request for another
+   * user runs immediately.
+   *
+   * @returns The request, and whether it awaits verification
+   */
+  static async requestErasure(params: {
+    scope: DataSubjectScope;
+    requestedBy: { id: string; isAdmin: boolean };
+    reason?: string;
+  }): Promise<ErasureRequestResult> {
+    const { scope, requestedBy, reason } = params;
+
+    const inProgress = await prisma.dataSubjectRequest.findFirst({
+      where: {
+        userId: scope.userId,
+        agentId: scope.agentId ?? null,
+        type: 'ERASURE',
+        status: 'PROCESSING',
+      },
+    });
+
+    if (inProgress) {
+      throw new HttpError(409, 'An erasure of this data is already in progress');
+    }
+
+    if (requestedBy.id !== scope.userId && requestedBy.isAdmin) {
+      const request = await prisma.dataSubjectRequest.create({
+        data: {
+          userId: scope.userId,
+          agentId: scope.agentId,
+          requestedById: requestedBy.id,
+          type: 'ERASURE',
+          status: 'PROCESSING',
+          reason,
+          verifiedAt: new Date(),
+        },
+      });
+
+      await recordAuditEvent({
+        message: 'Admin requested data subject erasure',
+        action: 'erasure-requested',
+        actorId: requestedBy.id,
+        requestId: request.id,
+        scope,
+        metadata: { reason, verification: 'admin' },
+      });
+
+      return { request: await this.executeErasure(request.id), verificationRequired: false };
+    }
+
+    const subject = await prisma.user.findUnique({
+      where: { id: scope.userId },
+      select: { email: true },
+    });
+
+    if (!subject?.email) {
+      throw new HttpError(400, 'An email address is required to verify an erasure request');
+    }
+
+    // Earlier unconfirmed requests for the same data are superseded
+    await prisma.dataSubjectRequest.updateMany({
+      where: {
+        userId: scope.userId,
+        agentId: scope.agentId ?? null,
+        type: 'ERASURE',
+        status: 'PENDING_VERIFICATION',
+      },
+      data: { status: 'CANCELLED', verificationCodeHash: null },
+    });
+
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+    const request = await prisma.dataSubjectRequest.create({
+      data: {
+        userId: scope.userId,
+        agentId: scope.agentId,
+        requestedById: requestedBy.id,
+        type: 'ERASURE',
+        status: 'PENDING_VERIFICATION',
+        reason,
+        verificationCodeHash: hashCode(code),
+        verificationExpiresAt: new Date(Date.now() + VERIFICATION_TTL_MS),
+      },
+      select: REQUEST_SELECT,
+    });
+
+    await emailSender.send({
+      to: subject.email,
+      subject: 'Confirm the erasure of your data',
+      text: `Your verification code is ${code}. It expires in 30 minutes. If you did not request the erasure of your data, ignore this email.`,
+      html: `
+        <h1>Confirm the erasure of your data</h1>
+        <p>Your verification code is <strong>${code}</strong>. It expires in 30 minutes.</p>
+        <p>Erased data cannot be recovered. If you did not request the erasure of your data, ignore this email.</p>
+      `,
+    });
+
+    await recordAuditEvent({
+      message: 'Data subject erasure requested; awaiting verification',
+      action: 'erasure-requested',
+      actorId: requestedBy.id,
+      requestId: request.id,
+      scope,
+      metadata: { reason, verification: 'email' },
+    });
+
+    return { request, verificationRequired: true };
+  }
+
+  /**
+   * Confirms an erasure request with its verification code and runs the erasure
+   *
+   * @returns The completed request
+   */
+  static async confirmErasure(params: {
+    requestId: string;
+    code: string;
+    userId: string;
+  }): Promise<DataSubjectRequestRecord> {
+    const request = await prisma.dataSubjectRequest.findUnique({
+      where: { id: params.requestId },
+    });
+
+    if (!request || request.userId !== params.userId || request.type !== 'ERASURE') {
+      throw new HttpError(404, 'Erasure request not found');
+    }
+
+    if (request.status !== 'PENDING_VERIFICATION' || !request.verificationCodeHash) {
+      throw new HttpError(409, 'Erasure request is not awaiting verification');
+    }
+
+    if (!request.verificationExpiresAt || request.verificationExpiresAt < new Date()) {
+      throw new HttpError(410, 'Verification code has expired; request the erasure again');
+    }
+
+    // Count the attempt before checking the code, so that concurrent guesses are counted too
+    const { count } = await prisma.dataSubjectRequest.updateMany({
+      where: {
+        id: request.id,
+        status: 'PENDING_VERIFICATION',
+        verificationAttempts: { lt: MAX_VERIFICATION_ATTEMPTS },
+      },
+      data: { verificationAttempts: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw new HttpError(409, 'Erasure request is not awaiting verification');
+    }
+
+    const expected = Buffer.from(request.verificationCodeHash, 'hex');
+    const actual = Buffer.from(hashCode(params.code.trim()), 'hex');
+
+    if (!timingSafeEqual(expected, actual)) {
+      const cancelled = request.verificationAttempts + 1 >= MAX_VERIFICATION_ATTEMPTS;
+
+      if (cancelled) {
+        await prisma.dataSubjectRequest.update({
+          where: { id: request.id },
+          data: { status: 'CANCELLED', verificationCodeHash: null },
+        });
+      }
+
+      await recordAuditEvent({
+        message: cancelled
+          ? 'Data subject erasure cancelled after too many failed verifications'
+          : 'Data subject erasure verification failed',
+        action: 'erasure-verification-failed',
+        actorId: params.userId,
+        requestId: request.id,
+        scope: { userId: request.userId, agentId: request.agentId || undefined },
+        level: 'WARN',
+        metadata: { attempts: request.verificationAttempts + 1, cancelled },
+      });
+
+      if (cancelled) {
+        throw new HttpError(429, 'Too many invalid verification codes; request the erasure again');
+      }
+      throw new HttpError(400, 'Invalid verification code');
+    }
+
+    await prisma.dataSubjectRequest.update({
+      where: { id: request.id },
+      data: {
+        status: 'PROCESSING',
+        verifiedAt: new Date(),
+        verificationCodeHash: null,
+      },
+    });
+
+    return this.executeErasure(request.id);
+  }
+
+  /**
+   * Erases the data of a verified erasure request and verifies that it is gone
+   *
+   * @param requestId The ID of a request in PROCESSING status
+   * @returns The request with its erasure summary
+   */
+  static async executeErasure(requestId: string): Promise<DataSubjectRequestRecord> {
+    const request = await prisma.dataSubjectRequest.findUniqueOrThrow({
+      where: { id: requestId },
+    });
+    const scope: DataSubjectScope = { userId: request.userId, agentId: request.agentId || undefined };
+    const filters = getScopeFilters(scope);
+    const erased = emptyCounts();
+
+    try {
+      const retained = filters.collaborationArchives
+        ? await prisma.collaborationArchive.findMany({
+            where: { ...filters.collaborationArchives, legalHold: true },
+            select: { id: true },
+          })
+        : [];
+
+      // Memories go through the MemoryService so they also leave the search index
+      erased.interactionMemories = await MemoryService.forget(scope);
+
+      const redactedPrompts = await prisma.$transaction(async tx => {
+        const reasoningIds = (await tx.aIReasoning.findMany({
+          where: filters.reasonings,
+          select: { id: true },
+        })).map(reasoning => reasoning.id);
+
+        if (reasoningIds.length > 0) {
+          const byReasoning = { reasoningId: { in: reasoningIds } };
+          await tx.aIFeedbackAnnotation.deleteMany({ where: byReasoning });
+          await tx.aIResponseNode.deleteMany({ where: byReasoning });
+          await tx.aIEvaluationMetric.deleteMany({ where: byReasoning });
+          await tx.aIReasoningContext.deleteMany({ where: byReasoning });
+          erased.reasonings = (await tx.aIReasoning.deleteMany({ where: { id: { in: reasoningIds } } })).count;
+        }
+
+        let redacted = 0;
+        if (filters.prompts) {
+          const promptIds = (await tx.aIPrompt.findMany({
+            where: filters.prompts,
+            select: { id: true },
+          })).map(prompt => prompt.id);
+
+          // Prompts used by other users' reasoning traces keep their row but lose their content
+          const referencedIds = new Set((await tx.aIReasoning.findMany({
+            where: { promptId: { in: promptIds } },
+            select: { promptId: true },
+            distinct: ['promptId'],
+          })).map(reasoning => reasoning.promptId));
+          const deletableIds = promptIds.filter(id => !referencedIds.has(id));
+
+          await tx.aIPromptSafetyCheck.deleteMany({ where: { promptId: { in: deletableIds } } });
+          erased.prompts = (await tx.aIPrompt.deleteMany({ where: { id: { in: deletableIds } } })).count;
+
+          redacted = (await tx.aIPrompt.updateMany({
+            where: { id: { in: [...referencedIds] } },
+            data: {
+              content: ERASED_CONTENT,
+              name: null,
+              description: null,
+              templateValues: Prisma.DbNull,
+            },
+          })).count;
+        }
+
+        erased.agentSessions = (await tx.agentSession.deleteMany({ where: filters.agentSessions })).count;
+        erased.sentientMemorySnapshots = (await tx.sentientMemorySnapshot.deleteMany({
+          where: filters.sentientMemorySnapshots,
+        })).count;
+
+        if (filters.memoryEntries) {
+          erased.memoryEntries = (await tx.memoryEntry.deleteMany({ where: filters.memoryEntries })).count;
+        }
+
+        if (filters.collaborationArchives) {
+          const archiveIds = (await tx.collaborationArchive.findMany({
+            where: { ...filters.collaborationArchives, legalHold: false },
+            select: { id: true },
+          })).map(archive => archive.id);
+
+          const byArchive = { archiveId: { in: archiveIds } };
+          await tx.archiveAccessLog.deleteMany({ where: byArchive });
+          await tx.archiveVerification.deleteMany({ where: byArchive });
+          erased.collaborationArchives = (await tx.collaborationArchive.deleteMany({
+            where: { id: { in: archiveIds } },
+          })).count;
+        }
+
+        return redacted;
+      }, { timeout: 60000 });
+
+      const summary: ErasureSummary = {
+        erased,
+        redactedPrompts,
+        retainedUnderLegalHold: retained.map(archive => archive.id),
+        remaining: await this.countRemaining(scope),
+      };
+      const complete = Object.values(summary.remaining).every(count => count === 0);
+
+      const updated = await prisma.dataSubjectRequest.update({
+        where: { id: request.id },
+        data: {
+          status: complete ? 'COMPLETED' : 'FAILED',
+          completedAt: new Date(),
+          summary,
+          error: complete ? null : 'Data remained after erasure',
+        },
+        select: REQUEST_SELECT,
+      });
+
+      await recordAuditEvent({
+        message: complete ? 'Data subject erasure completed' : 'Data subject erasure left data behind',
+        action: complete ? 'erasure-completed' : 'erasure-failed',
+        actorId: request.requestedById,
+        requestId: request.id,
+        scope,
+        level: complete ? 'INFO' : 'ERROR',
+        counts: erased,
+        metadata: {
+          redactedPrompts,
+          retainedUnderLegalHold: summary.retainedUnderLegalHold,
+          remaining: summary.remaining,
+        },
+      });
+
+      return updated;
+    } catch (error) {
+      await prisma.dataSubjectRequest.update({
+        where: { id: request.id },
+        data: {
+          status: 'FAILED',
+          error: error instanceof Error ? error.message : String(error),
+          summary: { erased },
+        },
+      });
+
+      await recordAuditEvent({
+        message: 'Data subject erasure failed',
+        action: 'erasure-failed',
+        actorId: request.requestedById,
+        requestId: request.id,
+        scope,
+        level: 'ERROR',
+        counts: erased,
+        metadata: { error: error instanceof Error ? error.message : String(error) },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Counts the erasable rows left for a scope
+   *
+   * Archives on legal hold and prompts whose content was erased are not counted.
+   */
+  static async countRemaining(scope: DataSubjectScope): Promise<DataCounts> {
+    const filters = getScopeFilters(scope);
+
+    const [
+      interactionMemories,
+      memoryEntries,
+      prompts,
+      reasonings,
+      agentSessions,
+      sentientMemorySnapshots,
+      collaborationArchives,
+    ] = await Promise.all([
+      prisma.interactionMemory.count({ where: filters.interactionMemories }),
+      filters.memoryEntries ? prisma.memoryEntry.count({ where: filters.memoryEntries }) : 0,
+      filters.prompts
+        ? prisma.aIPrompt.count({ where: { ...filters.prompts, content: { not: ERASED_CONTENT } } })
+        : 0,
+      prisma.aIReasoning.count({ where: filters.reasonings }),
+      prisma.agentSession.count({ where: filters.agentSessions }),
+      prisma.sentientMemorySnapshot.count({ where: filters.sentientMemorySnapshots }),
+      filters.collaborationArchives
+        ? prisma.collaborationArchive.count({ where: { ...filters.collaborationArchives, legalHold: false } })
+        : 0,
+    ]);
+
+    return {
+      interactionMemories,
+      memoryEntries,
+      prompts,
+      reasonings,
+      agentSessions,
+      sentientMemorySnapshots,
+      collaborationArchives,
+    };
+  }
+
+  /**
+   * Lists data subject requests, newest first
+   *
+   * @param params Limit to one user's requests, or all requests when omitted
+   */
+  static async getRequests(
+    params: { userId?: string; limit?: number } = {}
+  ): Promise<DataSubjectRequestListItem[]> {
+    return prisma.dataSubjectRequest.findMany({
+      where: params.userId ? { userId: params.userId } : {},
+      select: REQUEST_LIST_SELECT,
+      orderBy: { createdAt: 'desc' },
+      take: params.limit ?? 50,
+    });
+  }
+}
@@ -7,6 +7,7 @@
 import { prisma } from 'wasp/server';
 import { LoggingService } from '../../shared/services/logging';
 import { cleanupExpiredCache, getCacheStats } from '../../ai-services/aiResponseCache';
+import { cleanupExpiredSemanticCache } from '../../ai-services/semanticResponseCache';
 
 /**
  * Cleans up expired cache entries and performs cache optimization
@@ -27,6 +28,7 @@ export async function cacheCleanupJob(): Promise<void> {
 
     // Clean up expired cache entries
     await cleanupExpiredCache();
+    const semanticCacheRemoved = await cleanupExpiredSemanticCache();
 
     // Get cache stats after cleanup
     const afterStats = await getCacheStats();
@@ -47,6 +49,7 @@ export async function cacheCleanupJob(): Promise<void> {
         afterStats,
         entriesRemoved,
         memoryEntriesRemoved,
+        semanticCacheRemoved,
       },
     });
 
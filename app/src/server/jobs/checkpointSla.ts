@@ -0,0 +1,52 @@
+/**
+ * Checkpoint SLA Job
+ *
+ * This job escalates Sentient Loop™ checkpoints along their escalation chain and applies
+ * the expiry action to checkpoints whose SLA has run out.
+ */
+
+import { LoggingService } from '../../shared/services/logging';
+import { SentientSlaService } from '../../modules/arcana/shared/services/sentientLoop/sentientSlaService';
+
+/**
+ * Checkpoint SLA job
+ */
+export const checkpointSlaJob = async () => {
+  try {
+    const actions = await SentientSlaService.processOverdueCheckpoints();
+
+    if (actions.length > 0) {
+      const escalated = actions.filter(action => action.action === 'ESCALATED').length;
+
+      await LoggingService.logSystemEvent({
+        message: `Applied checkpoint SLAs to ${actions.length} checkpoints (${escalated} escalated)`,
+        level: 'INFO',
+        category: 'SYSTEM_EVENT',
+        source: 'checkpoint-sla-job',
+        tags: ['job', 'sentient-loop'],
+        metadata: {
+          escalated,
+          expired: actions.filter(action => action.action === 'EXPIRED').length,
+          autoApproved: actions.filter(action => action.action === 'APPROVED').length,
+          autoRejected: actions.filter(action => action.action === 'REJECTED').length,
+        },
+      });
+    }
+  } catch (error) {
+    console.error('Error in checkpoint SLA job:', error);
+
+    await LoggingService.logSystemEvent({
+      message: `Error in checkpoint SLA job: ${error.message}`,
+      level: 'ERROR',
+      category: 'SYSTEM_EVENT',
+      source: 'checkpoint-sla-job',
+      tags: ['job', 'sentient-loop', 'error'],
+      metadata: {
+        error: error.message,
+        stack: error.stack,
+      },
+    });
+
+    throw error;
+  }
+};
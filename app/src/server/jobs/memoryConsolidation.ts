@@ -0,0 +1,49 @@
+/**
+ * Memory Consolidation Job
+ *
+ * This job consolidates related short-term agent memories into long-term summaries,
+ * decays memory importance and deletes expired memories.
+ */
+
+import { LoggingService } from '../../shared/services/logging';
+import { consolidateMemories } from '../../modules/memory/services/memoryConsolidationService';
+import { cleanupExpiredMemories } from '../../modules/memory/services/memoryManager';
+
+/**
+ * Memory consolidation job
+ */
+export const memoryConsolidationJob = async () => {
+  try {
+    // Consolidate before cleanup so that memories about to expire are summarized first
+    const result = await consolidateMemories();
+    const expiredDeleted = await cleanupExpiredMemories();
+
+    await LoggingService.logSystemEvent({
+      message: `Consolidated ${result.memoriesConsolidated} memories into ${result.clustersConsolidated} long-term memories`,
+      level: 'INFO',
+      category: 'SYSTEM_EVENT',
+      source: 'memory-consolidation-job',
+      tags: ['job', 'memory'],
+      metadata: {
+        ...result,
+        expiredDeleted,
+      },
+    });
+  } catch (error) {
+    console.error('Error in memory consolidation job:', error);
+
+    await LoggingService.logSystemEvent({
+      message: `Error in memory consolidation job: ${error.message}`,
+      level: 'ERROR',
+      category: 'SYSTEM_EVENT',
+      source: 'memory-consolidation-job',
+      tags: ['job', 'memory', 'error'],
+      metadata: {
+        error: error.message,
+        stack: error.stack,
+      },
+    });
+
+    throw error;
+  }
+};
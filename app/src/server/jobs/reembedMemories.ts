@@ -0,0 +1,48 @@
+/**
+ * Re-embed Memories Job
+ *
+ * This job migrates memory embeddings to the active embedding provider after the provider
+ * or its model changes. Each run re-embeds one batch of stale memories.
+ */
+
+import { LoggingService } from '../../shared/services/logging';
+import { reembedStaleMemories } from '../../modules/memory/services/vectorStore';
+
+/**
+ * Re-embed memories job
+ */
+export const reembedMemoriesJob = async () => {
+  try {
+    const { reembedded, remaining } = await reembedStaleMemories();
+
+    if (reembedded > 0) {
+      await LoggingService.logSystemEvent({
+        message: `Re-embedded ${reembedded} memories (${remaining} remaining)`,
+        level: 'INFO',
+        category: 'SYSTEM_EVENT',
+        source: 'reembed-memories-job',
+        tags: ['job', 'memory'],
+        metadata: {
+          reembedded,
+          remaining,
+        },
+      });
+    }
+  } catch (error) {
+    console.error('Error in re-embed memories job:', error);
+
+    await LoggingService.logSystemEvent({
+      message: `Error in re-embed memories job: ${error.message}`,
+      level: 'ERROR',
+      category: 'SYSTEM_EVENT',
+      source: 'reembed-memories-job',
+      tags: ['job', 'memory', 'error'],
+      metadata: {
+        error: error.message,
+        stack: error.stack,
+      },
+    });
+
+    throw error;
+  }
+};
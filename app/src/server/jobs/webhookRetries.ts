@@ -0,0 +1,50 @@
+/**
+ * Webhook Retries Job
+ *
+ * This job retries failed Sentient Loop™ webhook deliveries whose backoff has elapsed.
+ */
+
+import { LoggingService } from '../../shared/services/logging';
+import { processWebhookRetries } from '../../modules/arcana/shared/services/sentientLoop/webhookService';
+
+/**
+ * Webhook retries job
+ */
+export const webhookRetriesJob = async () => {
+  try {
+    const results = await processWebhookRetries();
+
+    if (results.length > 0) {
+      const succeeded = results.filter(result => result.success).length;
+
+      await LoggingService.logSystemEvent({
+        message: `Retried ${results.length} webhook deliveries (${succeeded} succeeded)`,
+        level: 'INFO',
+        category: 'SYSTEM_EVENT',
+        source: 'webhook-retries-job',
+        tags: ['job', 'webhooks'],
+        metadata: {
+          attempted: results.length,
+          succeeded,
+          dead: results.filter(result => result.status === 'DEAD').length,
+        },
+      });
+    }
+  } catch (error) {
+    console.error('Error in webhook retries job:', error);
+
+    await LoggingService.logSystemEvent({
+      message: `Error in webhook retries job: ${error.message}`,
+      level: 'ERROR',
+      category: 'SYSTEM_EVENT',
+      source: 'webhook-retries-job',
+      tags: ['job', 'webhooks', 'error'],
+      metadata: {
+        error: error.message,
+        stack: error.stack,
+      },
+    });
+
+    throw error;
+  }
+};
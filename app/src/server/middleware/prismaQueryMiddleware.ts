@@ -194,12 +194,14 @@ async function storeExecutionPlan(
   args: any
 ) {
   try {
-    // For PostgreSQL, we would use EXPLAIN ANALYZE
-    // This requires a raw query execution, which we'll implement
-    // in the QueryAnalyticsService
-    
-    // For now, just log that we would store the execution plan
-    console.log(`Would store execution plan for query ${queryId} (${model}.${action})`);
+    // Raw queries have no model to explain
+    if (!model) {
+      return;
+    }
+
+    // Imported on use, as the analytics service uses the Prisma client this middleware is applied to
+    const { QueryAnalyticsService } = await import('../services/queryAnalyticsService');
+    await QueryAnalyticsService.storeExecutionPlan(queryId, model, action, args);
   } catch (error) {
     console.error('Failed to store execution plan:', error);
   }
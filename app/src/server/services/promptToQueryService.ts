@@ -11,6 +11,7 @@ import { LoggingService } from '../../shared/services/logging';
 import { QuerySandboxService } from './querySandboxService';
 import { SentientQueryService } from './sentientQueryService';
 import { QueryPerformanceService } from './queryPerformanceService';
+import { QueryWriteService } from './queryWriteService';
 import {
   QueryPermissionLevel,
   QueryApprovalStatus,
@@ -174,8 +175,8 @@ export class PromptToQueryService {
         };
       }
 
-      // Determine if the query requires approval
-      const requiresApproval = agent.queryPermissions.some(permission =>
+      // Determine if the query requires approval; writes always do
+      const requiresApproval = QueryWriteService.isWriteAction(action) || agent.queryPermissions.some(permission =>
         permission.allowedModels.includes(targetModel) &&
         permission.requiresApproval
       );
@@ -436,11 +437,14 @@ export class PromptToQueryService {
         1. Only use models and fields that are explicitly listed in the schema maps.
         2. Respect the allowed actions for each model.
         3. Include required fields in create operations.
-        4. Use appropriate filters based on the user's intent.
+        4. Use appropriate filters based on the user's intent, with Prisma filter operators only; substring filters
+           (contains, endsWith) need at least 3 characters.
         5. For security reasons, limit the number of results to 100 by default unless specified otherwise.
         6. Use appropriate sorting and pagination when relevant.
-        7. For relations, use the correct syntax (e.g., include, connect, create).
+        7. For relations, use include to read related rows.
         8. Avoid complex nested queries unless necessary.
+        9. Writes (create, update, delete) change a single row: update and delete select it with a unique where
+           clause, and data only sets fields of the target model, using foreign key fields instead of nested writes.
 
         EXAMPLES:
 
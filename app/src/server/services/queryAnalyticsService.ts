@@ -7,7 +7,7 @@
 
 import { prisma } from 'wasp/server';
 import { LoggingService } from '../../shared/services/logging';
-import { QueryStatus } from '@prisma/client';
+import { Prisma, QueryStatus } from '@prisma/client';
 
 // Types
 export interface QueryAnalyticsOptions {
@@ -36,6 +36,21 @@ export interface QueryPerformanceStats {
   recentErrorQueries: any[];
 }
 
+export interface QueryPlan {
+  model: string;
+  action: string;
+  sql: string;
+  cost: number; // Planner cost units
+  rows: number; // Rows the planner expects
+  plan: any; // EXPLAIN output
+}
+
+export interface QueryCostEstimate {
+  totalCost: number; // Cost of the query and the queries loading its included relations
+  estimatedRows: number; // Rows the planner expects the query to return
+  plans: QueryPlan[];
+}
+
 export interface QueryAggregateOptions {
   period: 'hourly' | 'daily' | 'weekly' | 'monthly';
   moduleId?: string;
@@ -232,25 +247,31 @@ export class QueryAnalyticsService {
 
   /**
    * Store execution plan for a query
+   *
+   * The plan is the planner's estimate from EXPLAIN, so the query is not run again. Pass the
+   * estimate of the query when it is known, or it is generated from the Prisma arguments.
    */
-  static async storeExecutionPlan(queryId: string, model: string, action: string, params: any): Promise<void> {
+  static async storeExecutionPlan(
+    queryId: string,
+    model: string,
+    action: string,
+    params: any,
+    estimate?: QueryCostEstimate | null
+  ): Promise<void> {
     try {
-      // For PostgreSQL, we would use EXPLAIN ANALYZE
-      // This requires a raw query execution
-      // We need to reconstruct the query from the model, action, and params
-      
-      // This is a simplified example and would need to be adapted for real use
-      const planData = await this.generateExecutionPlan(model, action, params);
-      
-      if (planData) {
+      const planEstimate = estimate ?? await this.estimateQueryCost(model, action, params);
+
+      if (planEstimate) {
         await prisma.queryExecutionPlan.create({
           data: {
             queryId,
-            planType: 'explain_analyze',
-            planData,
+            planType: 'explain',
+            planData: JSON.stringify(planEstimate.plans),
             metadata: {
               model,
               action,
+              totalCost: planEstimate.totalCost,
+              estimatedRows: planEstimate.estimatedRows,
               params: JSON.stringify(params).substring(0, 1000) // Limit size
             }
           }
@@ -262,13 +283,300 @@ export class QueryAnalyticsService {
   }
 
   /**
-   * Generate execution plan for a query
-   * This is a placeholder implementation
+   * Estimate the cost of a Prisma query with the PostgreSQL planner
+   *
+   * The query and each included relation are translated to SQL and explained without being
+   * run. Filters that cannot be translated, such as relation filters, are left out, so the
+   * estimate errs on the expensive side.
+   *
+   * @returns The estimate, or null if the query could not be explained
+   */
+  static async estimateQueryCost(model: string, action: string, params: any): Promise<QueryCostEstimate | null> {
+    try {
+      const plans: QueryPlan[] = [];
+      await this.explainQuery(model, action, params || {}, 1, plans);
+
+      if (plans.length === 0) {
+        return null;
+      }
+
+      return {
+        totalCost: plans.reduce((total, plan) => total + plan.cost, 0),
+        estimatedRows: plans[0].rows,
+        plans
+      };
+    } catch (error) {
+      console.error('Error estimating query cost:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Explain a query and, recursively, the relations it includes
+   *
+   * @param parentRows Number of rows the relation is loaded for
+   */
+  private static async explainQuery(
+    modelName: string,
+    action: string,
+    args: any,
+    parentRows: number,
+    plans: QueryPlan[]
+  ): Promise<void> {
+    const model = this.getModel(modelName);
+    if (!model) {
+      throw new Error(`Model ${modelName} not found`);
+    }
+
+    const values: any[] = [];
+    const table = `"${model.dbName ?? model.name}"`;
+    const where = this.buildWhere(model, args.where, values);
+    const whereSql = where ? ` WHERE ${where}` : '';
+
+    let sql: string;
+    if (['count', 'aggregate', 'groupBy'].includes(action)) {
+      sql = `SELECT COUNT(*) FROM ${table}${whereSql}`;
+    } else {
+      const columns = this.buildColumns(model, args.select);
+      const orderBy = this.buildOrderBy(model, args.orderBy);
+      const take = ['findUnique', 'findUniqueOrThrow', 'findFirst', 'findFirstOrThrow'].includes(action)
+        ? 1
+        : typeof args.take === 'number' ? Math.abs(args.take) : undefined;
+      // A relation is loaded with one query for all parent rows
+      const limit = take !== undefined ? ` LIMIT ${Math.ceil(take * parentRows)}` : '';
+      const offset = typeof args.skip === 'number' && args.skip > 0 ? ` OFFSET ${Math.floor(args.skip)}` : '';
+
+      sql = `SELECT ${columns} FROM ${table}${whereSql}${orderBy}${limit}${offset}`;
+    }
+
+    const result: any = await prisma.$queryRawUnsafe(`EXPLAIN (FORMAT JSON) ${sql}`, ...values);
+    const plan = result?.[0]?.['QUERY PLAN']?.[0]?.Plan;
+    if (!plan) {
+      throw new Error(`No plan returned for ${model.name}.${action}`);
+    }
+
+    const rows = Number(plan['Plan Rows']) || 0;
+    plans.push({ model: model.name, action, sql, cost: Number(plan['Total Cost']) || 0, rows, plan });
+
+    // Included relations are loaded with separate queries
+    for (const key of ['include', 'select']) {
+      const selection = args[key];
+      if (!selection || typeof selection !== 'object') continue;
+
+      for (const [fieldName, value] of Object.entries(selection)) {
+        const field = model.fields.find(f => f.name === fieldName);
+        if (!value || !field || field.kind !== 'object') continue;
+
+        await this.explainQuery(
+          field.type,
+          field.isList ? 'findMany' : 'findFirst',
+          value === true ? {} : value,
+          Math.max(rows, 1) * parentRows,
+          plans
+        );
+      }
+    }
+  }
+
+  /**
+   * Get the Prisma model metadata of a model
+   */
+  private static getModel(modelName: string): Prisma.DMMF.Model | undefined {
+    return Prisma.dmmf.datamodel.models.find(model => model.name === modelName);
+  }
+
+  /**
+   * Build the column list of a query from its select
+   */
+  private static buildColumns(model: Prisma.DMMF.Model, select: any): string {
+    if (!select || typeof select !== 'object') {
+      return '*';
+    }
+
+    const columns = model.fields
+      .filter(field => field.kind !== 'object' && select[field.name])
+      .map(field => `"${field.dbName ?? field.name}"`);
+
+    return columns.length > 0 ? columns.join(', ') : '*';
+  }
+
+  /**
+   * Build the ORDER BY clause of a query from the scalar fields it is ordered by
+   */
+  private static buildOrderBy(model: Prisma.DMMF.Model, orderBy: any): string {
+    const terms = (Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : [])
+      .flatMap((term: any) => Object.entries(term || {}))
+      .map(([fieldName, direction]: [string, any]) => {
+        const field = model.fields.find(f => f.name === fieldName && f.kind !== 'object');
+        const sort = typeof direction === 'object' ? direction?.sort : direction;
+        return field ? `"${field.dbName ?? field.name}" ${sort === 'desc' ? 'DESC' : 'ASC'}` : null;
+      })
+      .filter(Boolean);
+
+    return terms.length > 0 ? ` ORDER BY ${terms.join(', ')}` : '';
+  }
+
+  /**
+   * Translate a Prisma where clause to SQL
+   *
+   * @returns The condition, or null if it cannot be translated and must be left out
+   */
+  private static buildWhere(model: Prisma.DMMF.Model, where: any, values: any[]): string | null {
+    if (!where || typeof where !== 'object') {
+      return null;
+    }
+
+    const conditions: string[] = [];
+
+    // Parts are built with a scratch copy of the parameters, which only replaces the
+    // parameters when the part is kept; left out parts must not leave parameters behind
+    const commit = (scratch: any[]) => values.push(...scratch.slice(values.length));
+
+    for (const [key, value] of Object.entries(where)) {
+      if (value === undefined) continue;
+
+      if (key === 'AND' || key === 'OR' || key === 'NOT') {
+        let scratch = [...values];
+        const parts: (string | null)[] = [];
+
+        for (const part of Array.isArray(value) ? value : [value]) {
+          const partValues = [...scratch];
+          const condition = this.buildWhere(model, part, partValues);
+          if (condition !== null) scratch = partValues;
+          parts.push(condition);
+        }
+
+        if (key === 'AND') {
+          // Leaving out part of a conjunction only widens it
+          const known = parts.filter((part): part is string => part !== null);
+          if (known.length > 0) {
+            commit(scratch);
+            conditions.push(`(${known.join(' AND ')})`);
+          }
+        } else if (parts.length > 0 && parts.every(part => part !== null)) {
+          // A disjunction or negation with an unknown part cannot be narrowed safely
+          commit(scratch);
+          conditions.push(key === 'OR' ? `(${parts.join(' OR ')})` : `NOT (${parts.join(' AND ')})`);
+        }
+        continue;
+      }
+
+      const field = model.fields.find(f => f.name === key);
+      if (!field || field.kind === 'object') continue;
+
+      const scratch = [...values];
+      const condition = this.buildFieldCondition(field, value, scratch);
+      if (condition) {
+        commit(scratch);
+        conditions.push(condition);
+      }
+    }
+
+    return conditions.length > 0 ? conditions.join(' AND ') : null;
+  }
+
+  /**
+   * Translate the filter of a scalar field to SQL
+   */
+  private static buildFieldCondition(field: Prisma.DMMF.Field, filter: any, values: any[]): string | null {
+    const column = `"${field.dbName ?? field.name}"`;
+    const param = (value: any) => {
+      values.push(value instanceof Date ? value.toISOString() : value);
+      return `$${values.length}::${this.getColumnType(field)}`;
+    };
+
+    if (filter === null) {
+      return `${column} IS NULL`;
+    }
+
+    if (typeof filter !== 'object' || filter instanceof Date) {
+      return `${column} = ${param(filter)}`;
+    }
+
+    const insensitive = filter.mode === 'insensitive';
+    const like = (pattern: (value: string) => string, value: any) =>
+      `${column} ${insensitive ? 'ILIKE' : 'LIKE'} ${param(pattern(String(value).replace(/[\\%_]/g, match => `\\${match}`)))}`;
+
+    const conditions: string[] = [];
+
+    for (const [operator, value] of Object.entries(filter)) {
+      if (value === undefined || operator === 'mode') continue;
+
+      switch (operator) {
+        case 'equals':
+          conditions.push(value === null ? `${column} IS NULL` : `${column} = ${param(value)}`);
+          break;
+        case 'not': {
+          const condition = value !== null && typeof value === 'object' && !(value instanceof Date)
+            ? this.buildFieldCondition(field, value, values)
+            : value === null ? `${column} IS NULL` : `${column} = ${param(value)}`;
+          if (!condition) return null;
+          conditions.push(`NOT (${condition})`);
+          break;
+        }
+        case 'in':
+        case 'notIn': {
+          const list = Array.isArray(value) ? value : [value];
+          const listSql = list.length > 0 ? `${column} IN (${list.map(param).join(', ')})` : 'FALSE';
+          conditions.push(operator === 'in' ? listSql : `NOT (${listSql})`);
+          break;
+        }
+        case 'lt':
+          conditions.push(`${column} < ${param(value)}`);
+          break;
+        case 'lte':
+          conditions.push(`${column} <= ${param(value)}`);
+          break;
+        case 'gt':
+          conditions.push(`${column} > ${param(value)}`);
+          break;
+        case 'gte':
+          conditions.push(`${column} >= ${param(value)}`);
+          break;
+        case 'contains':
+          conditions.push(like(text => `%${text}%`, value));
+          break;
+        case 'startsWith':
+          conditions.push(like(text => `${text}%`, value));
+          break;
+        case 'endsWith':
+          conditions.push(like(text => `%${text}`, value));
+          break;
+        default:
+          // Operators without a translation, e.g. list and JSON filters
+          return null;
+      }
+    }
+
+    return conditions.length > 0 ? conditions.join(' AND ') : null;
+  }
+
+  /**
+   * Get the PostgreSQL type parameters compared with a field are cast to
    */
-  private static async generateExecutionPlan(model: string, action: string, params: any): Promise<string> {
-    // In a real implementation, we would construct the SQL query and run EXPLAIN ANALYZE
-    // This is a simplified example
-    return `EXPLAIN ANALYZE for ${model}.${action} with params ${JSON.stringify(params).substring(0, 100)}...`;
+  private static getColumnType(field: Prisma.DMMF.Field): string {
+    if (field.kind === 'enum') {
+      return `"${field.type}"`;
+    }
+
+    switch (field.type) {
+      case 'Int':
+        return 'integer';
+      case 'BigInt':
+        return 'bigint';
+      case 'Float':
+        return 'double precision';
+      case 'Decimal':
+        return 'numeric';
+      case 'Boolean':
+        return 'boolean';
+      case 'DateTime':
+        return 'timestamp(3)';
+      case 'Json':
+        return 'jsonb';
+      default:
+        return 'text';
+    }
   }
 
   /**
@@ -0,0 +1,1075 @@
+/**
+ * Query Argument Validator
+ *
+ * This service validates the arguments of agent-generated Prisma queries structurally.
+ * The accepted arguments are generated from the Prisma schema (DMMF): every filter operator,
+ * value type, enum value and relation path is checked against the model it applies to and
+ * the agent's schema map, and unknown keys are rejected. Each error names the path of the
+ * offending argument, e.g. `where.user.is.email.contains`.
+ */
+
+import { Prisma } from '@prisma/client';
+
+// Field of a model, as described by the Prisma schema
+interface FieldDefinition {
+  name: string;
+  kind: string;
+  type: string;
+  isList: boolean;
+  isRequired: boolean;
+}
+
+// Model of the Prisma schema, with the compound unique keys usable in where clauses
+interface ModelDefinition {
+  name: string;
+  fields: Map<string, FieldDefinition>;
+  compoundKeys: Map<string, string[]>;
+}
+
+// Arguments of relations read through select or include
+const TO_MANY_RELATION_ARGUMENTS = ['where', 'orderBy', 'cursor', 'take', 'skip', 'distinct', 'select', 'include'];
+const TO_ONE_RELATION_ARGUMENTS = ['select', 'include'];
+
+// Arguments each action accepts
+const FIND_MANY_ARGUMENTS = ['where', 'orderBy', 'cursor', 'take', 'skip', 'distinct', 'select', 'include'];
+const FIND_UNIQUE_ARGUMENTS = ['where', 'select', 'include'];
+const ACTION_ARGUMENTS: Record<string, string[]> = {
+  findMany: FIND_MANY_ARGUMENTS,
+  findFirst: FIND_MANY_ARGUMENTS,
+  findFirstOrThrow: FIND_MANY_ARGUMENTS,
+  findUnique: FIND_UNIQUE_ARGUMENTS,
+  findUniqueOrThrow: FIND_UNIQUE_ARGUMENTS,
+  count: ['where', 'orderBy', 'cursor', 'take', 'skip', 'select'],
+  aggregate: ['where', 'orderBy', 'cursor', 'take', 'skip', '_count', '_avg', '_sum', '_min', '_max'],
+  groupBy: ['by', 'where', 'orderBy', 'having', 'take', 'skip', '_count', '_avg', '_sum', '_min', '_max'],
+  create: ['data', 'select', 'include'],
+  update: ['where', 'data', 'select', 'include'],
+  delete: ['where', 'select', 'include'],
+};
+
+// Filter operators of each scalar type
+const COMPARISON_OPERATORS = ['equals', 'not', 'in', 'notIn', 'lt', 'lte', 'gt', 'gte'];
+const FILTER_OPERATORS: Record<string, string[]> = {
+  String: [...COMPARISON_OPERATORS, 'contains', 'startsWith', 'endsWith', 'mode'],
+  Int: COMPARISON_OPERATORS,
+  BigInt: COMPARISON_OPERATORS,
+  Float: COMPARISON_OPERATORS,
+  Decimal: COMPARISON_OPERATORS,
+  DateTime: COMPARISON_OPERATORS,
+  Boolean: ['equals', 'not'],
+  Bytes: ['equals', 'not', 'in', 'notIn'],
+  Json: [
+    'equals', 'not', 'path',
+    'string_contains', 'string_starts_with', 'string_ends_with',
+    'array_contains', 'array_starts_with', 'array_ends_with',
+  ],
+};
+const ENUM_OPERATORS = ['equals', 'not', 'in', 'notIn'];
+const LIST_OPERATORS = ['equals', 'has', 'hasEvery', 'hasSome', 'isEmpty'];
+const TO_MANY_OPERATORS = ['some', 'every', 'none'];
+const TO_ONE_OPERATORS = ['is', 'isNot'];
+const LOGICAL_OPERATORS = ['AND', 'OR', 'NOT'];
+
+// Operations of update data, besides setting a value
+const NUMBER_OPERATIONS = ['set', 'increment', 'decrement', 'multiply', 'divide'];
+const LIST_OPERATIONS = ['set', 'push'];
+
+const AGGREGATES = ['_count', '_avg', '_sum', '_min', '_max'];
+const NUMERIC_TYPES = ['Int', 'BigInt', 'Float', 'Decimal'];
+
+// Substrings shorter than this match nearly every row and cannot use an index, scanning the whole table
+const MIN_SUBSTRING_LENGTH = 3;
+const SUBSTRING_OPERATORS = ['contains', 'endsWith', 'string_contains', 'string_ends_with'];
+
+/**
+ * Query Argument Validator
+ */
+export class QueryArgumentValidator {
+  // Models and enums of the Prisma schema, generated from the DMMF on first use
+  private static models?: Map<string, ModelDefinition>;
+  private static enums?: Map<string, string[]>;
+
+  /**
+   * Validate the arguments of a query
+   *
+   * Fields are checked against the allowed fields of their model in the schema map, at any
+   * depth, and relations can only be followed when the schema map declares them.
+   *
+   * @returns The errors found, empty if the arguments are valid
+   */
+  static validateArguments(
+    schema: Record<string, any> | undefined,
+    model: string,
+    action: string,
+    args: Record<string, any>
+  ): string[] {
+    const errors: string[] = [];
+
+    if (!this.getModel(model)) {
+      return [`Model ${model} is not in the Prisma schema`];
+    }
+
+    const allowedArguments = ACTION_ARGUMENTS[action];
+    if (!allowedArguments) {
+      return [`Action ${action} is not supported for agent queries`];
+    }
+
+    this.validateArgs(schema || {}, model, action, args || {}, allowedArguments, '', errors);
+
+    return errors;
+  }
+
+  /**
+   * Validate query arguments, at the top level or of a relation read through select or include
+   */
+  private static validateArgs(
+    schema: Record<string, any>,
+    model: string,
+    action: string,
+    args: Record<string, any>,
+    allowedArguments: string[],
+    path: string,
+    errors: string[]
+  ): void {
+    for (const [key, value] of Object.entries(args)) {
+      const argPath = this.join(path, key);
+
+      if (!allowedArguments.includes(key)) {
+        errors.push(key.startsWith('$')
+          ? `${argPath}: Raw query operators are not allowed`
+          : `${argPath}: Unknown argument for ${action}`);
+        continue;
+      }
+
+      switch (key) {
+        case 'where':
+          this.validateWhere(schema, model, value, argPath, errors);
+          break;
+        case 'having':
+          this.validateHaving(schema, model, value, argPath, errors);
+          break;
+        case 'orderBy':
+          this.validateOrderBy(schema, model, value, argPath, action === 'groupBy', errors);
+          break;
+        case 'cursor':
+          this.validateUniqueInput(schema, model, value, argPath, errors);
+          break;
+        case 'take':
+          if (!Number.isInteger(value)) {
+            errors.push(`${argPath}: Expected an integer, got ${this.describe(value)}`);
+          }
+          break;
+        case 'skip':
+          if (!Number.isInteger(value) || value < 0) {
+            errors.push(`${argPath}: Expected a non-negative integer, got ${this.describe(value)}`);
+          }
+          break;
+        case 'distinct':
+        case 'by':
+          this.validateFieldNames(schema, model, value, argPath, errors);
+          break;
+        case 'select':
+          if (action === 'count') {
+            this.validateAggregate(schema, model, '_count', value, argPath, errors);
+          } else {
+            this.validateSelection(schema, model, 'select', value, argPath, errors);
+          }
+          break;
+        case 'include':
+          this.validateSelection(schema, model, 'include', value, argPath, errors);
+          break;
+        case 'data':
+          this.validateData(schema, model, action, value, argPath, errors);
+          break;
+        default:
+          this.validateAggregate(schema, model, key, value, argPath, errors);
+      }
+    }
+  }
+
+  /**
+   * Validate a where clause
+   */
+  private static validateWhere(
+    schema: Record<string, any>,
+    model: string,
+    where: any,
+    path: string,
+    errors: string[]
+  ): void {
+    if (!this.isPlainObject(where)) {
+      errors.push(`${path}: Expected an object, got ${this.describe(where)}`);
+      return;
+    }
+
+    for (const [key, value] of Object.entries(where)) {
+      const keyPath = this.join(path, key);
+
+      if (LOGICAL_OPERATORS.includes(key)) {
+        this.validateLogicalOperator(key, value, keyPath, errors, (condition, conditionPath) =>
+          this.validateWhere(schema, model, condition, conditionPath, errors)
+        );
+        continue;
+      }
+
+      const compoundKey = this.getModel(model)!.compoundKeys.get(key);
+      if (compoundKey && !this.getField(model, key)) {
+        this.validateCompoundKey(schema, model, compoundKey, value, keyPath, errors);
+        continue;
+      }
+
+      const field = this.resolveField(schema, model, key, keyPath, errors);
+      if (!field) continue;
+
+      if (field.kind === 'object') {
+        this.validateRelationFilter(schema, model, field, value, keyPath, errors);
+      } else {
+        this.validateScalarFilter(field, value, keyPath, errors);
+      }
+    }
+  }
+
+  /**
+   * Validate a filter on a relation; relations are followed into the related model
+   */
+  private static validateRelationFilter(
+    schema: Record<string, any>,
+    model: string,
+    field: FieldDefinition,
+    value: any,
+    path: string,
+    errors: string[]
+  ): void {
+    if (!this.isRelationInSchemaMap(schema, model, field.name, path, errors)) {
+      return;
+    }
+
+    if (value === null && !field.isList) {
+      if (field.isRequired) {
+        errors.push(`${path}: Relation ${field.name} of ${model} is required and cannot be null`);
+      }
+      return;
+    }
+
+    if (!this.isPlainObject(value)) {
+      errors.push(`${path}: Expected a relation filter, got ${this.describe(value)}`);
+      return;
+    }
+
+    const operators = field.isList ? TO_MANY_OPERATORS : TO_ONE_OPERATORS;
+    const keys = Object.keys(value);
+
+    // To-one relations can also be filtered by the fields of the related row directly
+    if (!field.isList && !keys.some(key => [...TO_ONE_OPERATORS, ...TO_MANY_OPERATORS].includes(key))) {
+      this.validateWhere(schema, field.type, value, path, errors);
+      return;
+    }
+
+    for (const key of keys) {
+      const operatorPath = this.join(path, key);
+
+      if (!operators.includes(key)) {
+        errors.push(`${operatorPath}: Unknown operator for ${field.isList ? 'to-many' : 'to-one'} relation ${field.name}, expected one of: ${operators.join(', ')}`);
+        continue;
+      }
+
+      if (value[key] === null && !field.isList) {
+        continue;
+      }
+
+      this.validateWhere(schema, field.type, value[key], operatorPath, errors);
+    }
+  }
+
+  /**
+   * Validate a filter on a scalar or enum field, either a value or an object of operators
+   */
+  private static validateScalarFilter(
+    field: FieldDefinition,
+    value: any,
+    path: string,
+    errors: string[]
+  ): void {
+    if (!this.isPlainObject(value)) {
+      if (field.type === 'Json') {
+        errors.push(`${path}: Json fields must be filtered with one of: ${FILTER_OPERATORS.Json.join(', ')}`);
+      } else if (field.isList) {
+        this.validateList(field, value, path, errors);
+      } else {
+        this.validateValue(field, value, path, errors);
+      }
+      return;
+    }
+
+    const operators = field.isList
+      ? LIST_OPERATORS
+      : field.kind === 'enum' ? ENUM_OPERATORS : FILTER_OPERATORS[field.type] || [];
+
+    for (const [operator, operand] of Object.entries(value)) {
+      const operatorPath = this.join(path, operator);
+
+      if (!operators.includes(operator)) {
+        errors.push(`${operatorPath}: Unknown operator for ${this.typeName(field)} field ${field.name}`);
+        continue;
+      }
+
+      if (field.isList) {
+        this.validateListOperator(field, operator, operand, operatorPath, errors);
+      } else if (field.type === 'Json') {
+        this.validateJsonOperator(operator, operand, operatorPath, errors);
+      } else if (operator === 'in' || operator === 'notIn') {
+        if (!Array.isArray(operand)) {
+          errors.push(`${operatorPath}: Expected an array, got ${this.describe(operand)}`);
+          continue;
+        }
+        operand.forEach((item, index) => this.validateValue(field, item, `${operatorPath}[${index}]`, errors));
+      } else if (operator === 'not') {
+        // not takes a value or a nested filter
+        this.validateScalarFilter(field, operand, operatorPath, errors);
+      } else if (operator === 'mode') {
+        if (operand !== 'default' && operand !== 'insensitive') {
+          errors.push(`${operatorPath}: Expected one of: default, insensitive, got ${this.describe(operand)}`);
+        }
+      } else {
+        if (this.validateValue(field, operand, operatorPath, errors)) {
+          this.validateSubstring(operator, operand, operatorPath, errors);
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate an operator of a scalar list filter
+   */
+  private static validateListOperator(
+    field: FieldDefinition,
+    operator: string,
+    operand: any,
+    path: string,
+    errors: string[]
+  ): void {
+    switch (operator) {
+      case 'isEmpty':
+        if (typeof operand !== 'boolean') {
+          errors.push(`${path}: Expected a Boolean, got ${this.describe(operand)}`);
+        }
+        break;
+      case 'has':
+        this.validateValue({ ...field, isList: false, isRequired: true }, operand, path, errors);
+        break;
+      default:
+        this.validateList(field, operand, path, errors);
+    }
+  }
+
+  /**
+   * Validate an operator of a Json filter
+   */
+  private static validateJsonOperator(operator: string, operand: any, path: string, errors: string[]): void {
+    if (operator === 'path') {
+      const valid = typeof operand === 'string' ||
+        (Array.isArray(operand) && operand.every(segment => typeof segment === 'string'));
+      if (!valid) {
+        errors.push(`${path}: Expected a string or an array of strings, got ${this.describe(operand)}`);
+      }
+      return;
+    }
+
+    if (operator.startsWith('string_')) {
+      if (typeof operand !== 'string') {
+        errors.push(`${path}: Expected a String, got ${this.describe(operand)}`);
+        return;
+      }
+      this.validateSubstring(operator, operand, path, errors);
+    }
+  }
+
+  /**
+   * Validate a having clause of groupBy; fields can be filtered by their aggregates
+   */
+  private static validateHaving(
+    schema: Record<string, any>,
+    model: string,
+    having: any,
+    path: string,
+    errors: string[]
+  ): void {
+    if (!this.isPlainObject(having)) {
+      errors.push(`${path}: Expected an object, got ${this.describe(having)}`);
+      return;
+    }
+
+    for (const [key, value] of Object.entries(having)) {
+      const keyPath = this.join(path, key);
+
+      if (LOGICAL_OPERATORS.includes(key)) {
+        this.validateLogicalOperator(key, value, keyPath, errors, (condition, conditionPath) =>
+          this.validateHaving(schema, model, condition, conditionPath, errors)
+        );
+        continue;
+      }
+
+      const field = this.resolveField(schema, model, key, keyPath, errors);
+      if (!field) continue;
+
+      if (field.kind === 'object') {
+        errors.push(`${keyPath}: Relations cannot be filtered in having`);
+        continue;
+      }
+
+      const aggregates = this.isPlainObject(value) ? Object.keys(value).filter(aggregate => AGGREGATES.includes(aggregate)) : [];
+      if (aggregates.length === 0) {
+        this.validateScalarFilter(field, value, keyPath, errors);
+        continue;
+      }
+
+      for (const [aggregate, filter] of Object.entries(value)) {
+        if (!AGGREGATES.includes(aggregate)) {
+          errors.push(`${this.join(keyPath, aggregate)}: Unknown aggregate, expected one of: ${AGGREGATES.join(', ')}`);
+          continue;
+        }
+        // Counts are integers whatever the type of the field
+        const aggregateField = aggregate === '_count' ? { ...field, type: 'Int', kind: 'scalar', isList: false } : field;
+        this.validateScalarFilter(aggregateField, filter, this.join(keyPath, aggregate), errors);
+      }
+    }
+  }
+
+  /**
+   * Validate the operands of AND, OR and NOT
+   */
+  private static validateLogicalOperator(
+    operator: string,
+    value: any,
+    path: string,
+    errors: string[],
+    validateCondition: (condition: any, path: string) => void
+  ): void {
+    if (Array.isArray(value)) {
+      value.forEach((condition, index) => validateCondition(condition, `${path}[${index}]`));
+    } else if (operator !== 'OR' && this.isPlainObject(value)) {
+      validateCondition(value, path);
+    } else {
+      errors.push(`${path}: Expected ${operator === 'OR' ? 'an array' : 'an object or an array'} of conditions, got ${this.describe(value)}`);
+    }
+  }
+
+  /**
+   * Validate an orderBy argument
+   */
+  private static validateOrderBy(
+    schema: Record<string, any>,
+    model: string,
+    orderBy: any,
+    path: string,
+    allowAggregates: boolean,
+    errors: string[]
+  ): void {
+    if (Array.isArray(orderBy)) {
+      orderBy.forEach((item, index) =>
+        this.validateOrderBy(schema, model, item, `${path}[${index}]`, allowAggregates, errors)
+      );
+      return;
+    }
+
+    if (!this.isPlainObject(orderBy)) {
+      errors.push(`${path}: Expected an object or an array of objects, got ${this.describe(orderBy)}`);
+      return;
+    }
+
+    for (const [key, value] of Object.entries(orderBy)) {
+      const keyPath = this.join(path, key);
+
+      if (allowAggregates && AGGREGATES.includes(key)) {
+        this.validateOrderBy(schema, model, value, keyPath, false, errors);
+        continue;
+      }
+
+      const field = this.resolveField(schema, model, key, keyPath, errors);
+      if (!field) continue;
+
+      if (field.kind !== 'object') {
+        this.validateSortOrder(value, keyPath, errors);
+        continue;
+      }
+
+      if (!this.isRelationInSchemaMap(schema, model, field.name, keyPath, errors)) {
+        continue;
+      }
+
+      if (field.isList) {
+        // To-many relations can only be ordered by their number of rows
+        const keys = this.isPlainObject(value) ? Object.keys(value) : [];
+        if (keys.length !== 1 || keys[0] !== '_count') {
+          errors.push(`${keyPath}: To-many relations can only be ordered by _count`);
+          continue;
+        }
+        this.validateSortOrder(value._count, this.join(keyPath, '_count'), errors);
+      } else {
+        this.validateOrderBy(schema, field.type, value, keyPath, false, errors);
+      }
+    }
+  }
+
+  private static validateSortOrder(value: any, path: string, errors: string[]): void {
+    const isDirection = (direction: any) => direction === 'asc' || direction === 'desc';
+
+    if (isDirection(value)) {
+      return;
+    }
+
+    if (this.isPlainObject(value) && isDirection(value.sort)) {
+      const unknownKeys = Object.keys(value).filter(key => key !== 'sort' && key !== 'nulls');
+      if (unknownKeys.length === 0 && (value.nulls === undefined || value.nulls === 'first' || value.nulls === 'last')) {
+        return;
+      }
+    }
+
+    errors.push(`${path}: Expected asc, desc or { sort, nulls }, got ${this.describe(value)}`);
+  }
+
+  /**
+   * Validate a unique input, e.g. a cursor
+   */
+  private static validateUniqueInput(
+    schema: Record<string, any>,
+    model: string,
+    input: any,
+    path: string,
+    errors: string[]
+  ): void {
+    if (!this.isPlainObject(input)) {
+      errors.push(`${path}: Expected an object, got ${this.describe(input)}`);
+      return;
+    }
+
+    for (const [key, value] of Object.entries(input)) {
+      const keyPath = this.join(path, key);
+      const field = this.getField(model, key);
+      const compoundKey = this.getModel(model)!.compoundKeys.get(key);
+
+      if (field && field.kind !== 'object') {
+        if (!this.isFieldAllowed(schema, model, key)) {
+          errors.push(`${keyPath}: Field ${key} of ${model} is not allowed`);
+        } else {
+          this.validateValue(field, value, keyPath, errors);
+        }
+      } else if (compoundKey) {
+        this.validateCompoundKey(schema, model, compoundKey, value, keyPath, errors);
+      } else {
+        errors.push(`${keyPath}: Unknown unique field of ${model}`);
+      }
+    }
+  }
+
+  /**
+   * Validate the value of a compound unique key, e.g. { agentId_userId: { agentId, userId } }
+   */
+  private static validateCompoundKey(
+    schema: Record<string, any>,
+    model: string,
+    fields: string[],
+    value: any,
+    path: string,
+    errors: string[]
+  ): void {
+    if (!this.isPlainObject(value)) {
+      errors.push(`${path}: Expected an object with ${fields.join(', ')}, got ${this.describe(value)}`);
+      return;
+    }
+
+    for (const key of Object.keys(value)) {
+      if (!fields.includes(key)) {
+        errors.push(`${this.join(path, key)}: Unknown field of the unique key, expected one of: ${fields.join(', ')}`);
+      }
+    }
+
+    for (const fieldName of fields) {
+      const field = this.getField(model, fieldName)!;
+      if (!(fieldName in value)) {
+        errors.push(`${this.join(path, fieldName)}: Missing field of the unique key`);
+      } else if (!this.isFieldAllowed(schema, model, fieldName)) {
+        errors.push(`${this.join(path, fieldName)}: Field ${fieldName} of ${model} is not allowed`);
+      } else {
+        this.validateValue(field, value[fieldName], this.join(path, fieldName), errors);
+      }
+    }
+  }
+
+  /**
+   * Validate scalar field names, e.g. of distinct or groupBy
+   */
+  private static validateFieldNames(
+    schema: Record<string, any>,
+    model: string,
+    value: any,
+    path: string,
+    errors: string[]
+  ): void {
+    const names = Array.isArray(value) ? value : [value];
+
+    names.forEach((name, index) => {
+      const namePath = Array.isArray(value) ? `${path}[${index}]` : path;
+
+      if (typeof name !== 'string') {
+        errors.push(`${namePath}: Expected a field name, got ${this.describe(name)}`);
+        return;
+      }
+
+      const field = this.resolveField(schema, model, name, namePath, errors);
+      if (field?.kind === 'object') {
+        errors.push(`${namePath}: Expected a scalar field, but ${name} is a relation of ${model}`);
+      }
+    });
+  }
+
+  /**
+   * Validate a select or include
+   */
+  private static validateSelection(
+    schema: Record<string, any>,
+    model: string,
+    kind: 'select' | 'include',
+    selection: any,
+    path: string,
+    errors: string[]
+  ): void {
+    if (!this.isPlainObject(selection)) {
+      errors.push(`${path}: Expected an object, got ${this.describe(selection)}`);
+      return;
+    }
+
+    for (const [key, value] of Object.entries(selection)) {
+      const keyPath = this.join(path, key);
+
+      if (key === '_count') {
+        this.validateRelationCount(schema, model, value, keyPath, errors);
+        continue;
+      }
+
+      const field = this.resolveField(schema, model, key, keyPath, errors);
+      if (!field) continue;
+
+      if (field.kind !== 'object') {
+        if (kind === 'include') {
+          errors.push(`${keyPath}: ${key} is not a relation of ${model}`);
+        } else if (typeof value !== 'boolean') {
+          errors.push(`${keyPath}: Expected a Boolean, got ${this.describe(value)}`);
+        }
+        continue;
+      }
+
+      if (!this.isRelationInSchemaMap(schema, model, field.name, keyPath, errors)) {
+        continue;
+      }
+
+      if (typeof value === 'boolean') {
+        continue;
+      }
+
+      if (!this.isPlainObject(value)) {
+        errors.push(`${keyPath}: Expected a Boolean or an object, got ${this.describe(value)}`);
+        continue;
+      }
+
+      this.validateArgs(
+        schema,
+        field.type,
+        kind,
+        value,
+        field.isList ? TO_MANY_RELATION_ARGUMENTS : TO_ONE_RELATION_ARGUMENTS,
+        keyPath,
+        errors
+      );
+    }
+  }
+
+  /**
+   * Validate the relation counts of a select or include
+   */
+  private static validateRelationCount(
+    schema: Record<string, any>,
+    model: string,
+    value: any,
+    path: string,
+    errors: string[]
+  ): void {
+    if (typeof value === 'boolean') {
+      return;
+    }
+
+    const keys = this.isPlainObject(value) ? Object.keys(value) : [];
+    if (keys.length !== 1 || keys[0] !== 'select' || !this.isPlainObject(value.select)) {
+      errors.push(`${path}: Expected a Boolean or { select }, got ${this.describe(value)}`);
+      return;
+    }
+
+    for (const [key, count] of Object.entries(value.select)) {
+      const keyPath = this.join(this.join(path, 'select'), key);
+      const field = this.getField(model, key);
+
+      if (!field || field.kind !== 'object' || !field.isList) {
+        errors.push(`${keyPath}: Unknown to-many relation of ${model}`);
+        continue;
+      }
+
+      if (!this.isRelationInSchemaMap(schema, model, key, keyPath, errors)) {
+        continue;
+      }
+
+      if (typeof count === 'boolean') {
+        continue;
+      }
+
+      if (!this.isPlainObject(count)) {
+        errors.push(`${keyPath}: Expected a Boolean or an object, got ${this.describe(count)}`);
+        continue;
+      }
+
+      this.validateArgs(schema, field.type, '_count', count, ['where'], keyPath, errors);
+    }
+  }
+
+  /**
+   * Validate an aggregate, e.g. _count: { _all: true } or _avg: { duration: true }
+   */
+  private static validateAggregate(
+    schema: Record<string, any>,
+    model: string,
+    aggregate: string,
+    value: any,
+    path: string,
+    errors: string[]
+  ): void {
+    if (aggregate === '_count' && typeof value === 'boolean') {
+      return;
+    }
+
+    if (!this.isPlainObject(value)) {
+      errors.push(`${path}: Expected an object of fields, got ${this.describe(value)}`);
+      return;
+    }
+
+    for (const [key, selected] of Object.entries(value)) {
+      const keyPath = this.join(path, key);
+
+      if (typeof selected !== 'boolean') {
+        errors.push(`${keyPath}: Expected a Boolean, got ${this.describe(selected)}`);
+        continue;
+      }
+
+      if (aggregate === '_count' && key === '_all') {
+        continue;
+      }
+
+      const field = this.getField(model, key);
+      if (!field || field.kind === 'object') {
+        errors.push(`${keyPath}: Unknown scalar field of ${model}`);
+      } else if (!this.isFieldAllowed(schema, model, key)) {
+        errors.push(`${keyPath}: Field ${key} of ${model} is not allowed`);
+      } else if ((aggregate === '_avg' || aggregate === '_sum') && !(NUMERIC_TYPES.includes(field.type) && !field.isList)) {
+        errors.push(`${keyPath}: ${aggregate} needs a numeric field, but ${key} is ${this.typeName(field)}`);
+      } else if ((aggregate === '_min' || aggregate === '_max') && (field.isList || field.type === 'Json')) {
+        errors.push(`${keyPath}: ${aggregate} cannot be computed for ${this.typeName(field)} fields`);
+      }
+    }
+  }
+
+  /**
+   * Validate the data of a create or update
+   *
+   * Relation fields are left to the query write service, which rejects nested writes.
+   */
+  private static validateData(
+    schema: Record<string, any>,
+    model: string,
+    action: string,
+    data: any,
+    path: string,
+    errors: string[]
+  ): void {
+    if (!this.isPlainObject(data)) {
+      errors.push(`${path}: Expected an object, got ${this.describe(data)}`);
+      return;
+    }
+
+    for (const [key, value] of Object.entries(data)) {
+      const keyPath = this.join(path, key);
+      const field = this.getField(model, key);
+
+      if (!field) {
+        errors.push(key.startsWith('$')
+          ? `${keyPath}: Raw query operators are not allowed`
+          : `${keyPath}: Unknown field of ${model}`);
+        continue;
+      }
+
+      if (field.kind === 'object') {
+        continue;
+      }
+
+      if (field.kind === 'unsupported') {
+        errors.push(`${keyPath}: ${key} has a type agent queries do not support`);
+        continue;
+      }
+
+      if (!this.isFieldAllowed(schema, model, key)) {
+        errors.push(`${keyPath}: Field ${key} of ${model} is not allowed`);
+        continue;
+      }
+
+      const isOperation = action === 'update' && field.type !== 'Json' && this.isPlainObject(value);
+      if (!isOperation) {
+        if (field.isList) {
+          this.validateList(field, value, keyPath, errors);
+        } else {
+          this.validateValue(field, value, keyPath, errors);
+        }
+        continue;
+      }
+
+      const operations = field.isList ? LIST_OPERATIONS : NUMERIC_TYPES.includes(field.type) ? NUMBER_OPERATIONS : ['set'];
+      for (const [operation, operand] of Object.entries(value)) {
+        const operationPath = this.join(keyPath, operation);
+
+        if (!operations.includes(operation)) {
+          errors.push(`${operationPath}: Unknown update operation for ${this.typeName(field)} field ${key}`);
+        } else if (field.isList && operation === 'set') {
+          this.validateList(field, operand, operationPath, errors);
+        } else if (field.isList) {
+          // push takes a value or a list of values
+          if (Array.isArray(operand)) {
+            this.validateList(field, operand, operationPath, errors);
+          } else {
+            this.validateValue({ ...field, isList: false, isRequired: true }, operand, operationPath, errors);
+          }
+        } else {
+          this.validateValue(operation === 'set' ? field : { ...field, isRequired: true }, operand, operationPath, errors);
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate a list of values of a scalar list field
+   */
+  private static validateList(field: FieldDefinition, value: any, path: string, errors: string[]): void {
+    if (!Array.isArray(value)) {
+      errors.push(`${path}: Expected an array of ${this.typeName({ ...field, isList: false })}, got ${this.describe(value)}`);
+      return;
+    }
+
+    const item = { ...field, isList: false, isRequired: true };
+    value.forEach((element, index) => this.validateValue(item, element, `${path}[${index}]`, errors));
+  }
+
+  /**
+   * Validate a value against the type of a field
+   *
+   * @returns Whether the value is valid
+   */
+  private static validateValue(field: FieldDefinition, value: any, path: string, errors: string[]): boolean {
+    if (value === null) {
+      if (field.isRequired) {
+        errors.push(`${path}: ${field.name} is required and cannot be null`);
+        return false;
+      }
+      return true;
+    }
+
+    if (field.kind === 'enum') {
+      const values = this.getEnums().get(field.type) || [];
+      if (!values.includes(value)) {
+        errors.push(`${path}: Expected one of ${values.join(', ')} (${field.type}), got ${this.describe(value)}`);
+        return false;
+      }
+      return true;
+    }
+
+    let valid: boolean;
+    switch (field.type) {
+      case 'String':
+      case 'Bytes':
+        valid = typeof value === 'string';
+        break;
+      case 'Int':
+        valid = Number.isInteger(value);
+        break;
+      case 'BigInt':
+        valid = typeof value === 'bigint' || Number.isInteger(value) || (typeof value === 'string' && /^-?\d+$/.test(value));
+        break;
+      case 'Float':
+        valid = typeof value === 'number' && Number.isFinite(value);
+        break;
+      case 'Decimal':
+        valid = (typeof value === 'number' && Number.isFinite(value)) ||
+          (typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value));
+        break;
+      case 'Boolean':
+        valid = typeof value === 'boolean';
+        break;
+      case 'DateTime':
+        valid = (value instanceof Date && !isNaN(value.getTime())) ||
+          (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !isNaN(Date.parse(value)));
+        break;
+      case 'Json':
+        valid = value !== undefined;
+        break;
+      default:
+        errors.push(`${path}: ${field.name} has a type agent queries do not support`);
+        return false;
+    }
+
+    if (!valid) {
+      errors.push(`${path}: Expected ${this.article(field.type)} ${field.type}, got ${this.describe(value)}`);
+    }
+
+    return valid;
+  }
+
+  /**
+   * Reject substring filters short enough to scan the whole table
+   */
+  private static validateSubstring(operator: string, operand: any, path: string, errors: string[]): void {
+    if (SUBSTRING_OPERATORS.includes(operator) && typeof operand === 'string' && operand.length < MIN_SUBSTRING_LENGTH) {
+      errors.push(`${path}: Expected at least ${MIN_SUBSTRING_LENGTH} characters, as shorter substrings scan the whole table`);
+    }
+  }
+
+  /**
+   * Find a field of a model, reporting unknown fields and fields the schema map does not allow
+   */
+  private static resolveField(
+    schema: Record<string, any>,
+    model: string,
+    key: string,
+    path: string,
+    errors: string[]
+  ): FieldDefinition | undefined {
+    if (key.startsWith('$')) {
+      errors.push(`${path}: Raw query operators are not allowed`);
+      return undefined;
+    }
+
+    const field = this.getField(model, key);
+    if (!field) {
+      errors.push(`${path}: Unknown field of ${model}`);
+      return undefined;
+    }
+
+    if (field.kind === 'unsupported') {
+      errors.push(`${path}: ${key} has a type agent queries do not support`);
+      return undefined;
+    }
+
+    if (field.kind !== 'object' && !this.isFieldAllowed(schema, model, key)) {
+      errors.push(`${path}: Field ${key} of ${model} is not allowed`);
+      return undefined;
+    }
+
+    return field;
+  }
+
+  /**
+   * Check whether the schema map allows a scalar field; models without allowed fields allow all
+   */
+  private static isFieldAllowed(schema: Record<string, any>, model: string, field: string): boolean {
+    const allowedFields = schema[model]?.allowedFields;
+    return !Array.isArray(allowedFields) || allowedFields.includes(field);
+  }
+
+  private static isRelationInSchemaMap(
+    schema: Record<string, any>,
+    model: string,
+    relation: string,
+    path: string,
+    errors: string[]
+  ): boolean {
+    if (!schema[model]?.relations?.[relation]) {
+      errors.push(`${path}: Relation ${relation} of ${model} is not in the schema map`);
+      return false;
+    }
+    return true;
+  }
+
+  private static getField(model: string, field: string): FieldDefinition | undefined {
+    return this.getModel(model)?.fields.get(field);
+  }
+
+  private static getModel(model: string): ModelDefinition | undefined {
+    if (!this.models) {
+      this.models = new Map();
+
+      for (const dmmfModel of Prisma.dmmf?.datamodel.models || []) {
+        const fields = new Map<string, FieldDefinition>(
+          dmmfModel.fields.map(field => [field.name, {
+            name: field.name,
+            kind: field.kind,
+            type: field.type,
+            isList: field.isList,
+            isRequired: field.isRequired,
+          }])
+        );
+
+        // Compound unique keys are named after their fields unless named explicitly
+        const compoundKeys = new Map<string, string[]>();
+        const uniqueKeys = [
+          ...(dmmfModel.primaryKey ? [dmmfModel.primaryKey] : []),
+          ...(dmmfModel.uniqueIndexes || []),
+        ];
+        for (const { name, fields: keyFields } of uniqueKeys) {
+          if (keyFields.length > 1) {
+            compoundKeys.set(name || keyFields.join('_'), [...keyFields]);
+          }
+        }
+
+        this.models.set(dmmfModel.name, { name: dmmfModel.name, fields, compoundKeys });
+      }
+    }
+
+    return this.models.get(model);
+  }
+
+  private static getEnums(): Map<string, string[]> {
+    if (!this.enums) {
+      this.enums = new Map(
+        (Prisma.dmmf?.datamodel.enums || []).map(dmmfEnum => [dmmfEnum.name, dmmfEnum.values.map(value => value.name)])
+      );
+    }
+    return this.enums;
+  }
+
+  private static typeName(field: FieldDefinition): string {
+    return field.isList ? `${field.type}[]` : field.type;
+  }
+
+  private static article(type: string): string {
+    return /^[AEIOU]/.test(type) ? 'an' : 'a';
+  }
+
+  /**
+   * Describe a value in an error, without echoing long strings back
+   */
+  private static describe(value: any): string {
+    if (typeof value === 'string') {
+      return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+    }
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    if (value instanceof Date) return isNaN(value.getTime()) ? 'an invalid date' : 'a date';
+    return typeof value === 'object' ? 'an object' : typeof value;
+  }
+
+  private static join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+  }
+
+  private static isPlainObject(value: any): value is Record<string, any> {
+    if (!value || typeof value !== 'object') {
+      return false;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+}
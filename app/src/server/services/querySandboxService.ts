@@ -11,16 +11,38 @@ import { LoggingService } from '../../shared/services/logging';
 import {
   QueryPermissionLevel,
   QueryApprovalStatus,
-  AgentQueryRequest
+  AgentQueryRequest,
+  RedactionRecord,
+  WriteDiff
 } from '../../shared/types/entities/agentQuery';
 import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
 import { QueryPerformanceService } from './queryPerformanceService';
 import { SentientQueryService } from './sentientQueryService';
+import { RowPolicyService } from './rowPolicyService';
+import { QueryAnalyticsService, QueryCostEstimate } from './queryAnalyticsService';
+import { RedactionService } from './redactionService';
+import { QueryWriteService } from './queryWriteService';
+import { QueryArgumentValidator } from './queryArgumentValidator';
 
 // Define the schema for query parameters
 const queryParamsSchema = z.record(z.any());
 
+// Planner cost limits for agent queries, in PostgreSQL cost units (see EXPLAIN)
+const QUERY_COST_LIMITS = {
+  approval: parseFloat(process.env.AGENT_QUERY_APPROVAL_COST || '10000'),
+  max: parseFloat(process.env.AGENT_QUERY_MAX_COST || '100000'),
+};
+
+// Time a query transaction may take beyond the statement timeout, to start and commit
+const TRANSACTION_TIMEOUT_MARGIN_MS = 1000;
+
+// Actions that return rows of the target model
+const ROW_ACTIONS = ['findMany', 'findFirst', 'findFirstOrThrow', 'findUnique', 'findUniqueOrThrow'];
+
+// Actions that only read data
+const READ_ACTIONS = [...ROW_ACTIONS, 'count', 'aggregate', 'groupBy'];
+
 // Define the schema for query execution options
 const queryExecutionOptionsSchema = z.object({
   timeout: z.number().optional().default(5000), // Default timeout of 5 seconds
@@ -30,11 +52,22 @@ const queryExecutionOptionsSchema = z.object({
   enforceRateLimit: z.boolean().optional().default(true), // Whether to enforce rate limits
   logQuery: z.boolean().optional().default(true), // Whether to log the query
   sandboxMode: z.enum(['strict', 'permissive']).optional().default('strict'), // Sandbox mode
+  estimateCost: z.boolean().optional().default(true), // Whether to estimate the query cost before execution
+  maxQueryCost: z.number().optional().default(QUERY_COST_LIMITS.max), // Estimated cost above which queries are rejected
+  approvalQueryCost: z.number().optional().default(QUERY_COST_LIMITS.approval), // Estimated cost above which auto-approved queries need approval
+  maxIncludeDepth: z.number().optional().default(2), // Maximum nesting of included relations
 });
 
 // Define the type for query execution options
 type QueryExecutionOptions = z.infer<typeof queryExecutionOptionsSchema>;
 
+// Outcome of checking the estimated cost of a query against the cost limits
+type QueryCostCheck = {
+  estimate: QueryCostEstimate | null;
+  error?: string;
+  requiresApproval?: boolean;
+};
+
 // Define sensitive models that require extra scrutiny
 const SENSITIVE_MODELS = [
   'User',
@@ -162,11 +195,9 @@ export class QuerySandboxService {
         }
       }
 
-      // Check for allowed fields in different parameter objects
-      if (modelSchema.allowedFields) {
-        // Check fields in the main query params
-        this.validateAllowedFields(queryParams, modelSchema.allowedFields, errors, '', sandboxMode);
-
+      // In permissive mode, remove fields the schema map does not allow; in strict mode they are
+      // reported with the other argument errors below
+      if (modelSchema.allowedFields && sandboxMode === 'permissive') {
         // Check fields in the where clause
         if (queryParams.where) {
           this.validateAllowedFields(queryParams.where, modelSchema.allowedFields, errors, 'where.', sandboxMode);
@@ -181,20 +212,6 @@ export class QuerySandboxService {
         if (queryParams.select) {
           this.validateAllowedFields(queryParams.select, modelSchema.allowedFields, errors, 'select.', sandboxMode);
         }
-
-        // Check fields in the include object
-        if (queryParams.include) {
-          // For include, we need to check if the relations are allowed
-          if (modelSchema.relations) {
-            for (const field in queryParams.include) {
-              if (!(field in modelSchema.relations)) {
-                errors.push(`Relation ${field} in include is not allowed`);
-              }
-            }
-          } else {
-            errors.push(`Include not allowed as no relations are defined in the schema`);
-          }
-        }
       }
 
       // Check for field types
@@ -213,8 +230,8 @@ export class QuerySandboxService {
         }
       }
 
-      // Check for potential SQL injection in string values
-      this.checkForSqlInjection(queryParams, errors);
+      // Check the structure of the arguments: operators, value types, enum values and relation paths
+      errors.push(...QueryArgumentValidator.validateArguments(schemaMap.schema, targetModel, action, queryParams));
 
       // Check for reasonable limits on findMany operations
       if (action === 'findMany' && !queryParams.take && !queryParams.first) {
@@ -377,50 +394,20 @@ export class QuerySandboxService {
     }
   }
 
-  /**
-   * Check for potential SQL injection in string values
-   */
-  private static checkForSqlInjection(params: Record<string, any>, errors: string[]): void {
-    const sqlInjectionPatterns = [
-      /'\s*OR\s*'1'\s*=\s*'1/i,
-      /'\s*OR\s*1\s*=\s*1/i,
-      /'\s*;\s*DROP\s+TABLE/i,
-      /'\s*;\s*DELETE\s+FROM/i,
-      /'\s*UNION\s+SELECT/i,
-      /'\s*;\s*INSERT\s+INTO/i,
-      /'\s*;\s*UPDATE\s+/i,
-      /'\s*--/i,
-      /\/\*/i,
-      /xp_cmdshell/i
-    ];
-
-    const checkValue = (value: any, path: string) => {
-      if (typeof value === 'string') {
-        for (const pattern of sqlInjectionPatterns) {
-          if (pattern.test(value)) {
-            errors.push(`Potential SQL injection detected in ${path}: ${value}`);
-            break;
-          }
-        }
-      } else if (typeof value === 'object' && value !== null) {
-        for (const key in value) {
-          checkValue(value[key], `${path}.${key}`);
-        }
-      }
-    };
-
-    for (const key in params) {
-      checkValue(params[key], key);
-    }
-  }
-
   /**
    * Execute a query in the sandbox
    */
   static async executeQuery(
     queryRequestId: string,
     options: QueryExecutionOptions = {}
-  ): Promise<{ success: boolean; result?: any; error?: string; warnings?: string[] }> {
+  ): Promise<{
+    success: boolean;
+    result?: any;
+    error?: string;
+    warnings?: string[];
+    requiresApproval?: boolean;
+    costEstimate?: { totalCost: number; estimatedRows: number };
+  }> {
     try {
       // Merge options with defaults
       const mergedOptions = queryExecutionOptionsSchema.parse(options);
@@ -484,22 +471,92 @@ export class QuerySandboxService {
         warnings.push(...validation.warnings);
       }
 
-      // If this is a dry run, return success without executing
+      // Scope the query to the requester's rows with the row policies of the schema map
+      const scoping = await this.applyRowPolicies(queryRequest);
+      if (scoping.error) {
+        return { success: false, error: scoping.error };
+      }
+
+      // Push result limits down into the query
+      const schema = this.getSchemaMapSchema(queryRequest);
+      const limits = this.applyQueryLimits(
+        queryRequest.targetModel,
+        queryRequest.action,
+        scoping.params,
+        schema,
+        mergedOptions
+      );
+      if (limits.error) {
+        return { success: false, error: limits.error };
+      }
+      warnings.push(...limits.warnings);
+
+      // Writes can only be reverted when they change a single row of the target model
+      const isWrite = QueryWriteService.isWriteAction(queryRequest.action);
+      if (isWrite) {
+        const writeErrors = QueryWriteService.validateWriteParams(
+          schema,
+          queryRequest.targetModel,
+          queryRequest.action,
+          limits.params
+        );
+        if (writeErrors.length > 0) {
+          return { success: false, error: `Invalid write: ${writeErrors.join(', ')}` };
+        }
+      } else if (!READ_ACTIONS.includes(queryRequest.action)) {
+        return { success: false, error: `Action ${queryRequest.action} is not supported by the query sandbox` };
+      }
+
+      // Estimate the cost of reads before running them
+      const costCheck: QueryCostCheck = isWrite
+        ? { estimate: null }
+        : await this.checkQueryCost(queryRequest, limits.params, mergedOptions);
+      const costEstimate = costCheck.estimate
+        ? { totalCost: costCheck.estimate.totalCost, estimatedRows: costCheck.estimate.estimatedRows }
+        : undefined;
+
+      // Writes are only run once a person approved them
+      const approvalReason = isWrite && queryRequest.status !== QueryApprovalStatus.APPROVED
+        ? 'Write operations require human approval'
+        : costCheck.requiresApproval ? costCheck.error : undefined;
+
+      // If this is a dry run, return success without executing; writes return the diff they would make
       if (mergedOptions.dryRun) {
+        let diff: WriteDiff | undefined;
+        if (isWrite) {
+          try {
+            diff = await QueryWriteService.previewWrite(schema, queryRequest.targetModel, queryRequest.action, limits.params);
+          } catch (error) {
+            return { success: false, error: error instanceof Error ? error.message : String(error) };
+          }
+        }
+
         return {
-          success: true,
-          result: { dryRun: true },
-          warnings: warnings.length > 0 ? warnings : undefined
+          success: !costCheck.error || costCheck.requiresApproval === true,
+          result: { dryRun: true, ...(diff && { diff }) },
+          error: costCheck.error ?? approvalReason,
+          warnings: warnings.length > 0 ? warnings : undefined,
+          requiresApproval: approvalReason ? true : undefined,
+          costEstimate
         };
       }
 
+      if (approvalReason) {
+        await this.routeToApproval(queryRequest, approvalReason, costEstimate);
+        return { success: false, error: approvalReason, requiresApproval: true, costEstimate };
+      }
+
+      if (costCheck.error) {
+        return { success: false, error: costCheck.error, costEstimate };
+      }
+
       // Generate a unique query ID
       const queryId = uuidv4();
 
       // Check if the query result is cached
-      const model = queryRequest.targetModel.toLowerCase();
+      const model = queryRequest.targetModel.charAt(0).toLowerCase() + queryRequest.targetModel.slice(1);
       const action = queryRequest.action;
-      const params = queryRequest.queryParams as Record<string, any> || {};
+      const params = limits.params;
 
       // Only use cache for read operations
       const isCacheable = ['findMany', 'findUnique', 'findFirst', 'count', 'aggregate'].includes(action);
@@ -556,17 +613,12 @@ export class QuerySandboxService {
       // Execute the query
       let result;
       let error;
+      let redactions: RedactionRecord[] = [];
       const startTime = Date.now();
 
       try {
         // Apply additional safety measures for sensitive models
         if (SENSITIVE_MODELS.includes(queryRequest.targetModel)) {
-          // For sensitive models, always limit the number of results
-          if (['findMany'].includes(action) && !params.take) {
-            params.take = 50;
-            warnings.push(`Automatically limited result size to 50 for sensitive model ${queryRequest.targetModel}`);
-          }
-
           // For sensitive models, always require a where clause
           if (['findMany', 'count'].includes(action) && (!params.where || Object.keys(params.where).length === 0)) {
             return {
@@ -576,18 +628,18 @@ export class QuerySandboxService {
           }
         }
 
-        // Set a timeout for the query execution
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => {
-            reject(new Error(`Query execution timed out after ${mergedOptions.timeout}ms`));
-          }, mergedOptions.timeout);
-        });
-
-        // Execute the query with a timeout
-        result = await Promise.race([
-          prisma[model][action](params),
-          timeoutPromise
-        ]);
+        // Execute the query in a transaction, so that the statement timeout cancels it in the database
+        // and writes are only committed together with the record to revert them
+        result = await prisma.$transaction(
+          async (tx) => {
+            await tx.$executeRawUnsafe(`SET LOCAL statement_timeout = ${Math.floor(mergedOptions.timeout)}`);
+            if (isWrite) {
+              return (await QueryWriteService.executeWrite(tx, queryRequest, schema, params)).result;
+            }
+            return (tx as any)[model][action](params);
+          },
+          { timeout: mergedOptions.timeout + TRANSACTION_TIMEOUT_MARGIN_MS }
+        );
 
         // Limit the result size if needed
         if (Array.isArray(result) && result.length > mergedOptions.maxResultSize) {
@@ -596,8 +648,10 @@ export class QuerySandboxService {
           warnings.push(`Result truncated from ${originalLength} to ${mergedOptions.maxResultSize} items`);
         }
 
-        // Sanitize sensitive data if present
-        result = this.sanitizeSensitiveData(result, queryRequest.targetModel);
+        // Redact classified fields, including those of included relations
+        const redaction = RedactionService.redactResult(schema, queryRequest.targetModel, result);
+        result = redaction.result;
+        redactions = redaction.redactions;
 
         // Cache the result if cacheable
         if (isCacheable && result) {
@@ -626,6 +680,11 @@ export class QuerySandboxService {
       } catch (err) {
         error = err instanceof Error ? err.message : String(err);
 
+        // PostgreSQL cancels statements running past the statement timeout
+        if (/statement timeout/i.test(error)) {
+          error = `Query execution timed out after ${mergedOptions.timeout}ms`;
+        }
+
         // Log detailed error information
         LoggingService.error({
           message: `Error executing agent query: ${error}`,
@@ -642,16 +701,6 @@ export class QuerySandboxService {
       const endTime = Date.now();
       const duration = endTime - startTime;
 
-      // Store query execution plan for slow queries
-      if (!error && duration > 500 && ['findMany', 'findFirst'].includes(action)) {
-        await QueryPerformanceService.storeQueryExecutionPlan(
-          queryId,
-          queryRequest.targetModel,
-          queryRequest.action,
-          params
-        );
-      }
-
       // Log the query execution if enabled
       if (mergedOptions.logQuery) {
         const queryLog = await prisma.queryLog.create({
@@ -671,12 +720,26 @@ export class QuerySandboxService {
               userId: queryRequest.userId,
               sessionId: queryRequest.sessionId,
               queryRequestId: queryRequest.id,
+              rowPolicyModels: scoping.scopedModels.length > 0 ? scoping.scopedModels : undefined,
+              costEstimate,
+              redactedFields: redactions.length > 0 ? redactions.map(redaction => redaction.path) : undefined,
               warnings: warnings.length > 0 ? warnings : undefined
             },
             userId: queryRequest.userId,
           },
         });
 
+        // Store the execution plan of slow queries
+        if (!error && duration > 500 && costCheck.estimate) {
+          await QueryAnalyticsService.storeExecutionPlan(
+            queryId,
+            queryRequest.targetModel,
+            queryRequest.action,
+            params,
+            costCheck.estimate
+          );
+        }
+
         // Update the query request with the execution result
         await prisma.agentQueryRequest.update({
           where: { id: queryRequest.id },
@@ -699,6 +762,9 @@ export class QuerySandboxService {
         });
       }
 
+      // Record what was redacted from the result
+      await RedactionService.recordRedactions(queryRequest, redactions);
+
       // Track performance metrics if enabled
       if (mergedOptions.trackPerformance && !error) {
         await QueryPerformanceService.trackQueryPerformance(
@@ -722,6 +788,351 @@ export class QuerySandboxService {
     }
   }
 
+  /**
+   * Compute the diff a write query request would make, without changing any data
+   *
+   * Unlike a dry run of executeQuery, this also previews requests still waiting for approval.
+   *
+   * @param queryRequestId The ID of the query request
+   * @returns The before/after diff of the row the write affects
+   */
+  static async previewWrite(queryRequestId: string): Promise<{
+    success: boolean;
+    diff?: WriteDiff;
+    error?: string;
+  }> {
+    try {
+      const queryRequest = await prisma.agentQueryRequest.findUnique({
+        where: { id: queryRequestId },
+        include: {
+          agent: {
+            include: {
+              queryPermissions: {
+                include: {
+                  schemaMap: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!queryRequest) {
+        return { success: false, error: 'Query request not found' };
+      }
+
+      if (!QueryWriteService.isWriteAction(queryRequest.action)) {
+        return { success: false, error: `Action ${queryRequest.action} does not change data` };
+      }
+
+      const validation = await this.validateQuery(
+        queryRequest.agentId,
+        queryRequest.targetModel,
+        queryRequest.action,
+        queryRequest.queryParams as Record<string, any> || {}
+      );
+
+      if (!validation.valid) {
+        return { success: false, error: `Query validation failed: ${validation.errors?.join(', ')}` };
+      }
+
+      // Preview the write as it would run, scoped to the requester's rows
+      const scoping = await this.applyRowPolicies(queryRequest);
+      if (scoping.error) {
+        return { success: false, error: scoping.error };
+      }
+
+      const schema = this.getSchemaMapSchema(queryRequest);
+      const writeErrors = QueryWriteService.validateWriteParams(
+        schema,
+        queryRequest.targetModel,
+        queryRequest.action,
+        scoping.params
+      );
+      if (writeErrors.length > 0) {
+        return { success: false, error: `Invalid write: ${writeErrors.join(', ')}` };
+      }
+
+      const diff = await QueryWriteService.previewWrite(
+        schema,
+        queryRequest.targetModel,
+        queryRequest.action,
+        scoping.params
+      );
+
+      return { success: true, diff };
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return { success: false, error: error.message };
+      }
+
+      console.error('Error previewing query:', error);
+      return { success: false, error: 'Internal error previewing query' };
+    }
+  }
+
+  /**
+   * Get the schema of the agent's schema map for the target model of a query request
+   */
+  private static getSchemaMapSchema(queryRequest: any): Record<string, any> | undefined {
+    // Use the same schema map the query was validated against
+    const permission = queryRequest.agent?.queryPermissions?.find(
+      (p: any) => p.isActive && p.allowedModels.includes(queryRequest.targetModel)
+    );
+    return permission?.schemaMap?.schema as Record<string, any> | undefined;
+  }
+
+  /**
+   * Push result limits down into the Prisma arguments of a query
+   *
+   * Lists are limited with take, including lists of included relations, and queries without
+   * a select only fetch the fields allowed by the schema map.
+   */
+  private static applyQueryLimits(
+    targetModel: string,
+    action: string,
+    params: Record<string, any>,
+    schema: Record<string, any> | undefined,
+    options: QueryExecutionOptions
+  ): { params: Record<string, any>; warnings: string[]; error?: string } {
+    const warnings: string[] = [];
+
+    const includeDepth = this.getIncludeDepth(schema, targetModel, params);
+    if (includeDepth > options.maxIncludeDepth) {
+      return {
+        params,
+        warnings,
+        error: `Include depth (${includeDepth}) exceeds maximum allowed (${options.maxIncludeDepth})`
+      };
+    }
+
+    const limited = this.limitIncludedRelations(schema, targetModel, params, options.maxResultSize);
+
+    if (action === 'findMany') {
+      // For sensitive models, always limit the number of results
+      const maxTake = SENSITIVE_MODELS.includes(targetModel) ? Math.min(50, options.maxResultSize) : options.maxResultSize;
+
+      if (typeof limited.take !== 'number') {
+        limited.take = maxTake;
+        if (SENSITIVE_MODELS.includes(targetModel)) {
+          warnings.push(`Automatically limited result size to ${maxTake} for sensitive model ${targetModel}`);
+        }
+      } else if (Math.abs(limited.take) > maxTake) {
+        warnings.push(`Take value (${limited.take}) limited to ${maxTake}`);
+        limited.take = Math.sign(limited.take) * maxTake;
+      }
+    }
+
+    // Only fetch the fields the agent may see; relations are left to include
+    const modelSchema = schema?.[targetModel];
+    if (ROW_ACTIONS.includes(action) && !limited.select && !limited.include && modelSchema?.allowedFields) {
+      const relations = Object.keys(modelSchema.relations || {});
+      const fields = (modelSchema.allowedFields as string[]).filter(field => !relations.includes(field));
+
+      if (fields.length > 0) {
+        limited.select = Object.fromEntries(fields.map(field => [field, true]));
+      }
+    }
+
+    return { params: limited, warnings };
+  }
+
+  /**
+   * Limit the number of rows loaded for included to-many relations
+   */
+  private static limitIncludedRelations(
+    schema: Record<string, any> | undefined,
+    model: string | undefined,
+    args: Record<string, any>,
+    maxResultSize: number
+  ): Record<string, any> {
+    const limited = { ...args };
+
+    for (const key of ['include', 'select']) {
+      const selection = args[key];
+      if (!selection || typeof selection !== 'object') continue;
+
+      const limitedSelection: Record<string, any> = { ...selection };
+
+      for (const [field, value] of Object.entries(selection)) {
+        const relation = model ? schema?.[model]?.relations?.[field] : undefined;
+        if (!value || field === '_count' || (!relation && typeof value !== 'object')) continue;
+
+        const nested = this.limitIncludedRelations(
+          schema,
+          relation?.model,
+          value === true ? {} : (value as Record<string, any>),
+          maxResultSize
+        );
+
+        if (relation && ['one-to-many', 'many-to-many'].includes(relation.type)) {
+          if (typeof nested.take !== 'number' || Math.abs(nested.take) > maxResultSize) {
+            nested.take = typeof nested.take === 'number' ? Math.sign(nested.take) * maxResultSize : maxResultSize;
+          }
+        }
+
+        limitedSelection[field] = value === true && Object.keys(nested).length === 0 ? true : nested;
+      }
+
+      limited[key] = limitedSelection;
+    }
+
+    return limited;
+  }
+
+  /**
+   * Get how deeply the relations included by a query are nested
+   */
+  private static getIncludeDepth(
+    schema: Record<string, any> | undefined,
+    model: string | undefined,
+    args: Record<string, any>
+  ): number {
+    let depth = 0;
+
+    for (const key of ['include', 'select']) {
+      const selection = args?.[key];
+      if (!selection || typeof selection !== 'object') continue;
+
+      for (const [field, value] of Object.entries(selection)) {
+        if (!value || field === '_count') continue;
+
+        // Selected fields are relations if the schema map says so or they have nested arguments
+        const relation = model ? schema?.[model]?.relations?.[field] : undefined;
+        if (key === 'select' && !relation && typeof value !== 'object') continue;
+
+        const nested = typeof value === 'object' ? (value as Record<string, any>) : {};
+        depth = Math.max(depth, 1 + this.getIncludeDepth(schema, relation?.model, nested));
+      }
+    }
+
+    return depth;
+  }
+
+  /**
+   * Check the estimated cost of a query against the cost limits
+   *
+   * Queries above the maximum cost are rejected, as are queries whose cost cannot be
+   * estimated. Auto-approved queries above the approval cost need approval; queries a person
+   * approved have already been reviewed.
+   */
+  private static async checkQueryCost(
+    queryRequest: any,
+    params: Record<string, any>,
+    options: QueryExecutionOptions
+  ): Promise<QueryCostCheck> {
+    if (!options.estimateCost) {
+      return { estimate: null };
+    }
+
+    const estimate = await QueryAnalyticsService.estimateQueryCost(
+      queryRequest.targetModel,
+      queryRequest.action,
+      params
+    );
+
+    if (!estimate) {
+      return { estimate, error: 'Query cost could not be estimated' };
+    }
+
+    const cost = Math.round(estimate.totalCost);
+
+    if (estimate.totalCost > options.maxQueryCost) {
+      return { estimate, error: `Estimated query cost (${cost}) exceeds maximum allowed (${options.maxQueryCost})` };
+    }
+
+    if (estimate.totalCost > options.approvalQueryCost && queryRequest.status === QueryApprovalStatus.AUTO_APPROVED) {
+      return {
+        estimate,
+        requiresApproval: true,
+        error: `Estimated query cost (${cost}) exceeds the auto-approval limit (${options.approvalQueryCost})`
+      };
+    }
+
+    return { estimate };
+  }
+
+  /**
+   * Send an auto-approved query request back for approval, e.g. an expensive query or a write
+   */
+  private static async routeToApproval(
+    queryRequest: any,
+    reason: string,
+    costEstimate?: { totalCost: number; estimatedRows: number }
+  ): Promise<void> {
+    await prisma.agentQueryRequest.update({
+      where: { id: queryRequest.id },
+      data: {
+        status: QueryApprovalStatus.PENDING,
+        metadata: {
+          ...(queryRequest.metadata as any || {}),
+          approvalReason: reason,
+          costEstimate,
+        },
+      },
+    });
+
+    LoggingService.logSystemEvent({
+      message: `Agent query sent for approval: ${reason}`,
+      level: 'INFO',
+      category: 'AUTHORIZATION',
+      source: 'query-sandbox',
+      userId: queryRequest.userId,
+      tags: ['agent-query', 'approval'],
+      metadata: {
+        queryRequestId: queryRequest.id,
+        agentId: queryRequest.agentId,
+        targetModel: queryRequest.targetModel,
+        action: queryRequest.action,
+        costEstimate,
+      },
+    });
+  }
+
+  /**
+   * Apply the row policies of the agent's schema map for the target model to a query request
+   */
+  private static async applyRowPolicies(
+    queryRequest: any
+  ): Promise<{ params: Record<string, any>; scopedModels: string[]; error?: string }> {
+    const params = queryRequest.queryParams as Record<string, any> || {};
+    const schema = this.getSchemaMapSchema(queryRequest);
+
+    if (!schema || !RowPolicyService.hasRowPolicies(schema)) {
+      return { params, scopedModels: [] };
+    }
+
+    try {
+      const requester = await RowPolicyService.resolveRequester(queryRequest.userId);
+      return RowPolicyService.applyRowPolicies(
+        schema,
+        queryRequest.targetModel,
+        queryRequest.action,
+        params,
+        requester
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      LoggingService.logSystemEvent({
+        message: `Agent query blocked by row policies: ${message}`,
+        level: 'WARN',
+        category: 'AUTHORIZATION',
+        source: 'query-sandbox',
+        userId: queryRequest.userId,
+        tags: ['agent-query', 'row-policy', 'blocked'],
+        metadata: {
+          queryRequestId: queryRequest.id,
+          agentId: queryRequest.agentId,
+          targetModel: queryRequest.targetModel,
+          action: queryRequest.action,
+        },
+      });
+
+      return { params, scopedModels: [], error: `Row policy violation: ${message}` };
+    }
+  }
+
   /**
    * Check rate limits for an agent
    */
@@ -855,62 +1266,4 @@ export class QuerySandboxService {
       // Don't throw, just log the error
     }
   }
-
-  /**
-   * Sanitize sensitive data from query results
-   */
-  private static sanitizeSensitiveData(result: any, model: string): any {
-    // If not a sensitive model, return as is
-    if (!SENSITIVE_MODELS.includes(model)) {
-      return result;
-    }
-
-    // Define fields to redact for each sensitive model
-    const sensitiveFields: Record<string, string[]> = {
-      'User': ['password', 'passwordHash', 'passwordSalt', 'resetToken', 'verificationToken', 'twoFactorSecret'],
-      'Organization': ['apiKey', 'secretKey'],
-      'APIKey': ['key', 'secret'],
-      'CredentialStore': ['value', 'encryptedValue'],
-      'SentientLoopApiKey': ['key', 'secret'],
-      'Subscription': ['stripeCustomerId', 'stripeSubscriptionId'],
-      'SubscriptionInvoice': ['stripeInvoiceId', 'stripePaymentIntentId']
-    };
-
-    // Get the fields to redact for this model
-    const fieldsToRedact = sensitiveFields[model] || [];
-
-    // If no fields to redact, return as is
-    if (fieldsToRedact.length === 0) {
-      return result;
-    }
-
-    // Sanitize the result
-    if (Array.isArray(result)) {
-      // Sanitize each item in the array
-      return result.map(item => this.sanitizeObject(item, fieldsToRedact));
-    } else if (result && typeof result === 'object') {
-      // Sanitize a single object
-      return this.sanitizeObject(result, fieldsToRedact);
-    }
-
-    // Return as is if not an array or object
-    return result;
-  }
-
-  /**
-   * Sanitize sensitive fields in an object
-   */
-  private static sanitizeObject(obj: Record<string, any>, sensitiveFields: string[]): Record<string, any> {
-    // Create a copy of the object
-    const sanitized = { ...obj };
-
-    // Redact sensitive fields
-    for (const field of sensitiveFields) {
-      if (field in sanitized) {
-        sanitized[field] = '[REDACTED]';
-      }
-    }
-
-    return sanitized;
-  }
 }
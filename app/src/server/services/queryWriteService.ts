@@ -0,0 +1,524 @@
+/**
+ * Query Write Service
+ *
+ * This service runs the write operations (create, update, delete) of agent-generated
+ * queries. Writes are previewed as a before/after diff of the affected row, and every
+ * executed write is recorded with an AIThoughtRollback so that it can be reverted.
+ */
+
+import { prisma } from 'wasp/server';
+import { HttpError } from 'wasp/server';
+import { Prisma } from '@prisma/client';
+import { LoggingService } from '../../shared/services/logging';
+import {
+  FieldChange,
+  QueryRollbackStatus,
+  WriteDiff
+} from '../../shared/types/entities/agentQuery';
+import { RedactionService } from './redactionService';
+
+// Write actions agents can propose; each affects a single row and can be reverted
+export const WRITE_ACTIONS = ['create', 'update', 'delete'];
+
+// Operations that undo each write action
+const ROLLBACK_OPERATIONS: Record<string, string> = {
+  create: 'delete',
+  update: 'update',
+  delete: 'create',
+};
+
+// Atomic number operations of Prisma update data
+const NUMBER_OPERATIONS: Record<string, (value: number, operand: number) => number> = {
+  increment: (value, operand) => value + operand,
+  decrement: (value, operand) => value - operand,
+  multiply: (value, operand) => value * operand,
+  divide: (value, operand) => value / operand,
+};
+
+// Shown in diffs in place of values redacted by the schema map
+const REDACTED_VALUE = '[REDACTED]';
+
+/**
+ * Query Write Service
+ */
+export class QueryWriteService {
+  /**
+   * Check whether an action is a write agents can propose
+   */
+  static isWriteAction(action: string): boolean {
+    return WRITE_ACTIONS.includes(action);
+  }
+
+  /**
+   * Validate the parameters of a write
+   *
+   * Writes may only set fields of the target model; nested writes to relations could not
+   * be reverted with the row.
+   *
+   * @returns The errors found, empty if the write is valid
+   */
+  static validateWriteParams(
+    schema: Record<string, any> | undefined,
+    model: string,
+    action: string,
+    params: Record<string, any>
+  ): string[] {
+    const errors: string[] = [];
+
+    if (params.select || params.include) {
+      errors.push(`select and include are not supported for ${action}`);
+    }
+
+    if (action !== 'create' && (!params.where || Object.keys(params.where).length === 0)) {
+      errors.push(`A where clause identifying the row is required for ${action}`);
+    }
+
+    if (action === 'delete') {
+      return errors;
+    }
+
+    if (!params.data || typeof params.data !== 'object' || Array.isArray(params.data)) {
+      errors.push(`Data is required for ${action}`);
+      return errors;
+    }
+
+    for (const field of Object.keys(params.data)) {
+      if (this.isRelation(schema, model, field)) {
+        errors.push(`Nested writes are not supported: data.${field} is a relation of ${model}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Compute the diff a write would make, without changing any data
+   *
+   * Values of classified fields are redacted with the schema map.
+   */
+  static async previewWrite(
+    schema: Record<string, any> | undefined,
+    model: string,
+    action: string,
+    params: Record<string, any>
+  ): Promise<WriteDiff> {
+    const before = await this.findAffectedRow(prisma, model, action, params);
+    const after = action === 'delete'
+      ? null
+      : action === 'create' ? params.data : this.applyUpdateData(before!, params.data);
+
+    return this.redactDiff(schema, this.computeDiff(model, action, this.toJson(before), this.toJson(after)));
+  }
+
+  /**
+   * Run a write in a transaction and record how to revert it
+   *
+   * The write is recorded as an AIThoughtTrace with an AIThoughtRollback holding the
+   * inverse operation, and the diff and rollback are added to the query request.
+   *
+   * @param tx The transaction to run the write in
+   * @returns The written row and the diff, with classified values redacted
+   */
+  static async executeWrite(
+    tx: Prisma.TransactionClient,
+    queryRequest: any,
+    schema: Record<string, any> | undefined,
+    params: Record<string, any>
+  ): Promise<{ result: any; diff: WriteDiff; rollbackId: string }> {
+    const model = queryRequest.targetModel;
+    const action = queryRequest.action;
+
+    const before = this.toJson(await this.findAffectedRow(tx, model, action, params));
+    const result = await (tx as any)[this.getDelegateName(model)][action](params);
+    const after = action === 'delete' ? null : this.toJson(result);
+
+    const diff = this.computeDiff(model, action, before, after);
+    const rollback = this.buildRollback(model, action, before, after, diff.changes);
+
+    const trace = await tx.aIThoughtTrace.create({
+      data: {
+        agentId: queryRequest.agentId,
+        userId: queryRequest.userId,
+        sessionId: queryRequest.sessionId,
+        moduleId: queryRequest.agent?.moduleId || 'agent-query',
+        intent: queryRequest.prompt,
+        decisionPath: JSON.parse(JSON.stringify([
+          { step: 'generated', at: queryRequest.createdAt },
+          { step: 'approved', by: queryRequest.approvedById, at: queryRequest.approvedAt },
+          { step: 'executed', at: new Date() },
+        ])),
+        dbOperation: action,
+        dbEntity: model,
+        dbQuery: queryRequest.generatedQuery,
+        queryParams: this.toJson(params),
+        resultSummary: `${action} ${model} ${JSON.stringify(rollback.primaryKey)}`,
+        affectedRecords: [rollback.primaryKey],
+        humanApproved: true,
+        humanApprovedBy: queryRequest.approvedById,
+        humanApprovedAt: queryRequest.approvedAt,
+        rollbackStatus: 'AVAILABLE',
+        metadata: { queryRequestId: queryRequest.id },
+      },
+    });
+
+    const rollbackRecord = await tx.aIThoughtRollback.create({
+      data: {
+        traceId: trace.id,
+        rollbackOperation: rollback.operation,
+        rollbackQuery: `prisma.${this.getDelegateName(model)}.${rollback.operation}(${JSON.stringify(rollback.params)})`,
+        rollbackParams: rollback.params,
+        status: QueryRollbackStatus.PENDING,
+        metadata: {
+          queryRequestId: queryRequest.id,
+          model,
+          // State the row must still be in to be reverted
+          expected: rollback.expected,
+        },
+      },
+    });
+
+    await tx.aIThoughtTrace.update({
+      where: { id: trace.id },
+      data: { rollbackId: rollbackRecord.id },
+    });
+
+    const redactedDiff = this.redactDiff(schema, diff);
+
+    await tx.agentQueryRequest.update({
+      where: { id: queryRequest.id },
+      data: {
+        metadata: {
+          ...(queryRequest.metadata as any || {}),
+          writeDiff: redactedDiff,
+          thoughtTraceId: trace.id,
+          rollbackId: rollbackRecord.id,
+        },
+      },
+    });
+
+    return { result, diff: redactedDiff, rollbackId: rollbackRecord.id };
+  }
+
+  /**
+   * Revert the write of a query request
+   *
+   * The write is only reverted while the row is still in the state the write left it in,
+   * so that later changes are not lost.
+   */
+  static async revertWrite(queryRequestId: string, userId: string): Promise<{ success: boolean }> {
+    const queryRequest = await prisma.agentQueryRequest.findUnique({
+      where: { id: queryRequestId },
+    });
+
+    if (!queryRequest) {
+      throw new HttpError(404, 'Query request not found');
+    }
+
+    const metadata = queryRequest.metadata as any || {};
+    if (!metadata.rollbackId) {
+      throw new HttpError(400, 'Query request has no changes to revert');
+    }
+    if (metadata.revertedAt) {
+      throw new HttpError(400, 'Changes of the query request were already reverted');
+    }
+
+    const rollback = await prisma.aIThoughtRollback.findUnique({
+      where: { id: metadata.rollbackId },
+    });
+
+    if (!rollback || rollback.status !== QueryRollbackStatus.PENDING) {
+      throw new HttpError(400, 'Changes of the query request cannot be reverted');
+    }
+
+    const model = (rollback.metadata as any)?.model || queryRequest.targetModel;
+    const delegateName = this.getDelegateName(model);
+    const rollbackParams = rollback.rollbackParams as Record<string, any>;
+    const expected = (rollback.metadata as any)?.expected as Record<string, any> | null;
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        if (expected) {
+          const current = this.toJson(
+            await (tx as any)[delegateName].findUnique({ where: rollbackParams.where })
+          );
+
+          const changed = !current || Object.entries(expected).some(
+            ([field, value]) => JSON.stringify(current[field]) !== JSON.stringify(value)
+          );
+          if (changed) {
+            throw new HttpError(409, `The ${model} row was changed or deleted after the query ran and cannot be reverted`);
+          }
+        }
+
+        await (tx as any)[delegateName][rollback.rollbackOperation](this.toWriteParams(model, rollbackParams));
+
+        await tx.aIThoughtRollback.update({
+          where: { id: rollback.id },
+          data: {
+            status: QueryRollbackStatus.EXECUTED,
+            executedAt: new Date(),
+            executedBy: userId,
+          },
+        });
+
+        await tx.aIThoughtTrace.update({
+          where: { id: rollback.traceId },
+          data: { rollbackStatus: 'ROLLED_BACK' },
+        });
+
+        await tx.agentQueryRequest.update({
+          where: { id: queryRequest.id },
+          data: {
+            metadata: {
+              ...metadata,
+              revertedAt: new Date().toISOString(),
+              revertedById: userId,
+            },
+          },
+        });
+      });
+    } catch (error) {
+      // A changed row can be reverted by hand; other failures are recorded on the rollback
+      if (!(error instanceof HttpError)) {
+        await prisma.aIThoughtRollback.update({
+          where: { id: rollback.id },
+          data: {
+            status: QueryRollbackStatus.FAILED,
+            errorMessage: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+
+      LoggingService.logSystemEvent({
+        message: `Failed to revert agent query: ${error instanceof Error ? error.message : String(error)}`,
+        level: 'ERROR',
+        category: 'DATA_ACCESS',
+        source: 'query-write',
+        userId,
+        tags: ['agent-query', 'write', 'revert'],
+        metadata: { queryRequestId, rollbackId: rollback.id, model },
+      });
+
+      throw error instanceof HttpError ? error : new HttpError(500, 'Failed to revert query changes');
+    }
+
+    LoggingService.logSystemEvent({
+      message: `Reverted agent query ${queryRequest.action} on ${model}`,
+      level: 'INFO',
+      category: 'DATA_ACCESS',
+      source: 'query-write',
+      userId,
+      tags: ['agent-query', 'write', 'revert'],
+      metadata: { queryRequestId, rollbackId: rollback.id, model },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Get the name of the Prisma client delegate of a model
+   */
+  static getDelegateName(model: string): string {
+    return model.charAt(0).toLowerCase() + model.slice(1);
+  }
+
+  /**
+   * Find the row an update or delete affects
+   */
+  private static async findAffectedRow(
+    client: any,
+    model: string,
+    action: string,
+    params: Record<string, any>
+  ): Promise<Record<string, any> | null> {
+    if (action === 'create') {
+      return null;
+    }
+
+    const row = await client[this.getDelegateName(model)].findUnique({ where: params.where });
+    if (!row) {
+      throw new HttpError(404, `No ${model} row matches the ${action}`);
+    }
+
+    return row;
+  }
+
+  /**
+   * Apply Prisma update data to a row
+   */
+  private static applyUpdateData(row: Record<string, any>, data: Record<string, any>): Record<string, any> {
+    const updated = { ...row };
+
+    for (const [field, value] of Object.entries(data || {})) {
+      const isOperation = value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+      const operation = isOperation ? Object.keys(value).find(key => key === 'set' || key in NUMBER_OPERATIONS) : undefined;
+
+      if (operation === 'set') {
+        updated[field] = value.set;
+      } else if (operation) {
+        updated[field] = NUMBER_OPERATIONS[operation](Number(row[field]), Number(value[operation]));
+      } else {
+        updated[field] = value;
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Compute the changed fields between the before and after state of a row
+   */
+  private static computeDiff(
+    model: string,
+    action: string,
+    before: Record<string, any> | null,
+    after: Record<string, any> | null
+  ): WriteDiff {
+    const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    const changes: FieldChange[] = [];
+
+    for (const field of fields) {
+      const beforeValue = before?.[field] ?? null;
+      const afterValue = after?.[field] ?? null;
+
+      if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+        changes.push({ field, before: beforeValue, after: afterValue });
+      }
+    }
+
+    return { model, action, before, after, changes };
+  }
+
+  /**
+   * Redact the values of classified fields in a diff
+   */
+  private static redactDiff(schema: Record<string, any> | undefined, diff: WriteDiff): WriteDiff {
+    const before = diff.before && RedactionService.redactResult(schema, diff.model, diff.before).result;
+    const after = diff.after && RedactionService.redactResult(schema, diff.model, diff.after).result;
+
+    // Dropped fields still show that they changed
+    const valueOf = (row: Record<string, any> | null, field: string) =>
+      row ? (field in row ? row[field] : REDACTED_VALUE) : null;
+
+    return {
+      ...diff,
+      before,
+      after,
+      changes: diff.changes.map(change => ({
+        field: change.field,
+        before: valueOf(before, change.field),
+        after: valueOf(after, change.field),
+      })),
+    };
+  }
+
+  /**
+   * Build the operation that reverts a write
+   */
+  private static buildRollback(
+    model: string,
+    action: string,
+    before: Record<string, any> | null,
+    after: Record<string, any> | null,
+    changes: FieldChange[]
+  ): {
+    operation: string;
+    params: Record<string, any>;
+    primaryKey: Record<string, any>;
+    expected: Record<string, any> | null;
+  } {
+    const primaryKey = this.getPrimaryKey(model, (after || before)!);
+    const changedFields = changes.map(change => change.field);
+
+    switch (action) {
+      case 'create':
+        return { operation: ROLLBACK_OPERATIONS.create, params: { where: primaryKey }, primaryKey, expected: after };
+      case 'update':
+        return {
+          operation: ROLLBACK_OPERATIONS.update,
+          params: { where: primaryKey, data: this.pick(before!, changedFields) },
+          primaryKey,
+          expected: this.pick(after!, changedFields),
+        };
+      default:
+        // A deleted row is created again as it was
+        return { operation: ROLLBACK_OPERATIONS.delete, params: { data: before }, primaryKey, expected: null };
+    }
+  }
+
+  /**
+   * Get the unique where clause of a row by its primary key
+   */
+  private static getPrimaryKey(model: string, row: Record<string, any>): Record<string, any> {
+    const dmmfModel = Prisma.dmmf?.datamodel.models.find(dmmfModel => dmmfModel.name === model);
+    const idField = dmmfModel?.fields.find(field => field.isId);
+
+    if (idField) {
+      return { [idField.name]: row[idField.name] };
+    }
+
+    if (dmmfModel?.primaryKey) {
+      const { name, fields } = dmmfModel.primaryKey;
+      return { [name || fields.join('_')]: this.pick(row, fields) };
+    }
+
+    return { id: row.id };
+  }
+
+  /**
+   * Check whether a field of a model is a relation, from the schema map or the Prisma schema
+   */
+  private static isRelation(schema: Record<string, any> | undefined, model: string, field: string): boolean {
+    if (schema?.[model]?.relations?.[field]) {
+      return true;
+    }
+
+    const dmmfField = Prisma.dmmf?.datamodel.models
+      .find(dmmfModel => dmmfModel.name === model)
+      ?.fields.find(modelField => modelField.name === field);
+
+    return dmmfField?.kind === 'object';
+  }
+
+  /**
+   * Convert stored rollback params back to write params
+   *
+   * Rollback params are stored as JSON, where a null Json field is plain null; Prisma only
+   * accepts Prisma.DbNull to write a database NULL to a Json field.
+   */
+  private static toWriteParams(model: string, params: Record<string, any>): Record<string, any> {
+    if (!params.data) {
+      return params;
+    }
+
+    const jsonFields = new Set(
+      Prisma.dmmf?.datamodel.models
+        .find(dmmfModel => dmmfModel.name === model)
+        ?.fields.filter(field => field.type === 'Json')
+        .map(field => field.name)
+    );
+
+    return {
+      ...params,
+      data: Object.fromEntries(Object.entries(params.data).map(([field, value]) => [
+        field,
+        value === null && jsonFields.has(field) ? Prisma.DbNull : value,
+      ])),
+    };
+  }
+
+  private static pick(row: Record<string, any>, fields: string[]): Record<string, any> {
+    return Object.fromEntries(fields.map(field => [field, row[field] ?? null]));
+  }
+
+  /**
+   * Convert a row to the JSON it is stored and compared as
+   */
+  private static toJson(row: any): Record<string, any> | null {
+    if (!row) {
+      return null;
+    }
+
+    return JSON.parse(JSON.stringify(row, (_key, value) => typeof value === 'bigint' ? value.toString() : value));
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Redaction Service
+ *
+ * This service redacts classified fields from the results of agent-generated queries.
+ * Fields are classified per model in schema maps (secret, PII, financial), and values are
+ * redacted wherever they appear in a result, including rows of nested relations.
+ */
+
+import { prisma } from 'wasp/server';
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import {
+  FieldClassification,
+  MaskingStrategy,
+  RedactionRecord
+} from '../../shared/types/entities/agentQuery';
+
+// Strategy used for a classification when the schema map does not name one
+const DEFAULT_STRATEGIES: Record<string, MaskingStrategy> = {
+  [FieldClassification.SECRET]: MaskingStrategy.DROP,
+  [FieldClassification.PII]: MaskingStrategy.HASH,
+  [FieldClassification.FINANCIAL]: MaskingStrategy.PARTIAL,
+};
+
+// Fields classified even when a schema map does not classify them
+const DEFAULT_FIELD_CLASSIFICATIONS: Record<string, Record<string, FieldClassification>> = {
+  Organization: { apiKey: FieldClassification.SECRET, secretKey: FieldClassification.SECRET },
+  APIKey: { key: FieldClassification.SECRET, secret: FieldClassification.SECRET },
+  CredentialStore: { value: FieldClassification.SECRET, encryptedValue: FieldClassification.SECRET },
+  SentientLoopApiKey: { key: FieldClassification.SECRET, secret: FieldClassification.SECRET },
+  Subscription: {
+    stripeCustomerId: FieldClassification.FINANCIAL,
+    stripeSubscriptionId: FieldClassification.FINANCIAL,
+  },
+  SubscriptionInvoice: {
+    stripeInvoiceId: FieldClassification.FINANCIAL,
+    stripePaymentIntentId: FieldClassification.FINANCIAL,
+  },
+};
+
+// Field names that hold secrets on any model, e.g. password, passwordHash, resetToken
+const SECRET_FIELD_PATTERN = /password|secret|salt$|apikey|privatekey|(access|refresh|reset|verification|auth|session|bearer)token$/i;
+
+// Field names suggested as personal or financial data when generating schema maps
+const PII_FIELD_PATTERN = /^(email|phone|phoneNumber|mobile|address|street|postalCode|zipCode|ipAddress|dateOfBirth|birthDate|ssn|firstName|lastName|fullName)$|email$|phone$|ipAddress$/i;
+const FINANCIAL_FIELD_PATTERN = /^stripe|iban|accountNumber|routingNumber|cardNumber|cardLast4|taxId|vatNumber|lemonSqueezy/i;
+
+// Aggregates whose values are keyed by the fields of the aggregated model
+const AGGREGATE_KEYS = ['_sum', '_avg', '_min', '_max'];
+
+// Characters shown at the end of partially masked values
+const PARTIAL_MASK_VISIBLE = 4;
+
+/**
+ * Redaction Service
+ */
+export class RedactionService {
+  /**
+   * Suggest the classification of a field from its name
+   *
+   * Used to classify fields when generating schema maps; secrets are also recognized by
+   * name when redacting models the schema map does not classify.
+   */
+  static suggestClassification(field: string): FieldClassification | undefined {
+    if (SECRET_FIELD_PATTERN.test(field)) {
+      return FieldClassification.SECRET;
+    }
+    if (FINANCIAL_FIELD_PATTERN.test(field)) {
+      return FieldClassification.FINANCIAL;
+    }
+    if (PII_FIELD_PATTERN.test(field)) {
+      return FieldClassification.PII;
+    }
+    return undefined;
+  }
+
+  /**
+   * Validate the field classifications declared in a schema map
+   *
+   * @returns The errors found, empty if the classifications are valid
+   */
+  static validateClassifications(schema: Record<string, any>): string[] {
+    const errors: string[] = [];
+    const classifications = Object.values(FieldClassification) as string[];
+    const strategies = Object.values(MaskingStrategy) as string[];
+
+    for (const [model, modelSchema] of Object.entries(schema || {})) {
+      const fieldClassifications = (modelSchema as any)?.fieldClassifications;
+      if (fieldClassifications === undefined) continue;
+
+      if (!fieldClassifications || typeof fieldClassifications !== 'object' || Array.isArray(fieldClassifications)) {
+        errors.push(`Field classifications of ${model} must be an object`);
+        continue;
+      }
+
+      for (const [field, rule] of Object.entries(fieldClassifications)) {
+        const classification = typeof rule === 'string' ? rule : (rule as any)?.classification;
+        const strategy = typeof rule === 'object' ? (rule as any)?.strategy : undefined;
+
+        if (!classifications.includes(classification)) {
+          errors.push(`Field ${field} of ${model} must be classified as one of: ${classifications.join(', ')}`);
+        }
+        if (strategy !== undefined && !strategies.includes(strategy)) {
+          errors.push(`Field ${field} of ${model} must be masked with one of: ${strategies.join(', ')}`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Redact the classified fields of a query result
+   *
+   * Rows of included relations are redacted with the classifications of their model, at any
+   * depth. Classified values are masked with the strategy of their classification.
+   *
+   * @returns The redacted result and the fields redacted from it
+   */
+  static redactResult(
+    schema: Record<string, any> | undefined,
+    model: string,
+    result: any
+  ): { result: any; redactions: RedactionRecord[] } {
+    const redactions = new Map<string, RedactionRecord>();
+    const redacted = this.redactValue(schema || {}, model, result, '', redactions);
+
+    return { result: redacted, redactions: Array.from(redactions.values()) };
+  }
+
+  /**
+   * Record the fields redacted from the result of a query request
+   */
+  static async recordRedactions(
+    queryRequest: { id: string; agentId: string; userId: string; targetModel: string },
+    redactions: RedactionRecord[]
+  ): Promise<void> {
+    if (redactions.length === 0) {
+      return;
+    }
+
+    await prisma.queryRedactionAudit.create({
+      data: {
+        queryRequestId: queryRequest.id,
+        agentId: queryRequest.agentId,
+        userId: queryRequest.userId,
+        targetModel: queryRequest.targetModel,
+        redactedCount: redactions.reduce((total, redaction) => total + redaction.count, 0),
+        redactions: redactions as unknown as Prisma.InputJsonArray,
+      },
+    });
+  }
+
+  /**
+   * Mask a value with a masking strategy; dropped values are undefined
+   */
+  static maskValue(value: any, strategy: MaskingStrategy): any {
+    const text = value instanceof Date
+      ? value.toISOString()
+      : Array.isArray(value) || this.isPlainObject(value) ? JSON.stringify(value) : String(value);
+
+    switch (strategy) {
+      case MaskingStrategy.HASH:
+        return `sha256:${createHash('sha256').update(text).digest('hex').slice(0, 16)}`;
+      case MaskingStrategy.PARTIAL:
+        // Short values would be given away by their last characters
+        return text.length >= PARTIAL_MASK_VISIBLE * 2 ? `****${text.slice(-PARTIAL_MASK_VISIBLE)}` : '****';
+      case MaskingStrategy.DROP:
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Redact a value of a model, an object or a list of objects
+   */
+  private static redactValue(
+    schema: Record<string, any>,
+    model: string | undefined,
+    value: any,
+    path: string,
+    redactions: Map<string, RedactionRecord>
+  ): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(schema, model, item, path, redactions));
+    }
+
+    if (!this.isPlainObject(value)) {
+      return value;
+    }
+
+    const redacted: Record<string, any> = {};
+
+    for (const [field, fieldValue] of Object.entries(value)) {
+      const fieldPath = path ? `${path}.${field}` : field;
+
+      // Relation counts hold no field values
+      if (field === '_count') {
+        redacted[field] = fieldValue;
+        continue;
+      }
+
+      if (AGGREGATE_KEYS.includes(field)) {
+        redacted[field] = this.redactValue(schema, model, fieldValue, fieldPath, redactions);
+        continue;
+      }
+
+      const relationModel = model ? this.getRelationModel(schema, model, field) : undefined;
+      if (relationModel) {
+        redacted[field] = this.redactValue(schema, relationModel, fieldValue, fieldPath, redactions);
+        continue;
+      }
+
+      const rule = this.getClassification(schema, model, field);
+      if (!rule || fieldValue === null || fieldValue === undefined) {
+        redacted[field] = fieldValue;
+        continue;
+      }
+
+      const masked = this.maskValue(fieldValue, rule.strategy);
+      if (masked !== undefined) {
+        redacted[field] = masked;
+      }
+
+      const record = redactions.get(fieldPath);
+      if (record) {
+        record.count++;
+      } else {
+        redactions.set(fieldPath, {
+          path: fieldPath,
+          model: model || 'unknown',
+          field,
+          classification: rule.classification,
+          strategy: rule.strategy,
+          count: 1,
+        });
+      }
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Get the classification of a field and the strategy to mask it with
+   *
+   * Schema map classifications take precedence; fields the schema map does not classify
+   * are only redacted when they are known to hold secrets.
+   */
+  private static getClassification(
+    schema: Record<string, any>,
+    model: string | undefined,
+    field: string
+  ): { classification: FieldClassification; strategy: MaskingStrategy } | undefined {
+    const rule = model ? schema[model]?.fieldClassifications?.[field] : undefined;
+
+    let classification: FieldClassification | undefined;
+    let strategy: MaskingStrategy | undefined;
+
+    if (rule) {
+      classification = (typeof rule === 'string' ? rule : rule.classification) as FieldClassification;
+      strategy = typeof rule === 'object' ? rule.strategy : undefined;
+    } else {
+      classification = (model ? DEFAULT_FIELD_CLASSIFICATIONS[model]?.[field] : undefined) ||
+        (SECRET_FIELD_PATTERN.test(field) ? FieldClassification.SECRET : undefined);
+    }
+
+    if (!classification || classification === FieldClassification.PUBLIC) {
+      return undefined;
+    }
+
+    return { classification, strategy: strategy || DEFAULT_STRATEGIES[classification] || MaskingStrategy.DROP };
+  }
+
+  /**
+   * Get the model of a relation field, from the schema map or the Prisma schema
+   */
+  private static getRelationModel(schema: Record<string, any>, model: string, field: string): string | undefined {
+    const relation = schema[model]?.relations?.[field];
+    if (relation?.model) {
+      return relation.model;
+    }
+
+    // Relations the schema map leaves out can still be in the result, e.g. through select
+    const dmmfField = Prisma.dmmf?.datamodel.models
+      .find(dmmfModel => dmmfModel.name === model)
+      ?.fields.find(modelField => modelField.name === field);
+
+    return dmmfField?.kind === 'object' ? dmmfField.type : undefined;
+  }
+
+  private static isPlainObject(value: any): value is Record<string, any> {
+    if (!value || typeof value !== 'object') {
+      return false;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+}
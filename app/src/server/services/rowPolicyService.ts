@@ -0,0 +1,409 @@
+/**
+ * Row Policy Service
+ *
+ * This service enforces the row-level policies declared per model in schema maps.
+ * Agent-generated queries are rewritten before execution so that they only read and
+ * write rows of the requester's tenant, including rows of included relations.
+ */
+
+import { prisma } from 'wasp/server';
+import { HttpError } from 'wasp/server';
+import { RowPolicy, RowPolicySubject, QueryRequester } from '../../shared/types/entities/agentQuery';
+
+// Actions whose where clause selects the rows they read or write
+const WHERE_ACTIONS = [
+  'findMany',
+  'findFirst',
+  'findFirstOrThrow',
+  'findUnique',
+  'findUniqueOrThrow',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+];
+
+// Actions that create rows from their data
+const CREATE_ACTIONS = ['create', 'createMany', 'upsert'];
+
+// Actions that change rows with their data
+const UPDATE_ACTIONS = ['update', 'updateMany', 'upsert'];
+
+// Relation types whose rows are included as a list
+const TO_MANY_RELATIONS = ['one-to-many', 'many-to-many'];
+
+const SUBJECT_LABELS: Record<string, string> = {
+  [RowPolicySubject.USER_ID]: 'user',
+  [RowPolicySubject.ORGANIZATION_ID]: 'organization',
+};
+
+/**
+ * Row Policy Service
+ */
+export class RowPolicyService {
+  /**
+   * Check whether a schema map declares row policies for any model
+   */
+  static hasRowPolicies(schema: Record<string, any>): boolean {
+    return Object.values(schema || {}).some(
+      (modelSchema: any) => Array.isArray(modelSchema?.rowPolicies) && modelSchema.rowPolicies.length > 0
+    );
+  }
+
+  /**
+   * Validate the row policies declared in a schema map
+   *
+   * @returns The errors found, empty if the policies are valid
+   */
+  static validatePolicies(schema: Record<string, any>): string[] {
+    const errors: string[] = [];
+    const subjects = Object.values(RowPolicySubject) as string[];
+
+    for (const [model, modelSchema] of Object.entries(schema || {})) {
+      const policies = (modelSchema as any)?.rowPolicies;
+      if (policies === undefined) continue;
+
+      if (!Array.isArray(policies)) {
+        errors.push(`Row policies of ${model} must be an array`);
+        continue;
+      }
+
+      policies.forEach((policy: any, index: number) => {
+        if (typeof policy?.field !== 'string' || policy.field.trim() === '') {
+          errors.push(`Row policy ${index} of ${model} must have a field`);
+        }
+        if (!subjects.includes(policy?.equals)) {
+          errors.push(`Row policy ${index} of ${model} must compare with one of: ${subjects.join(', ')}`);
+        }
+
+        // A path must start with a to-one relation, or there is no single row to compare with
+        const [relationName] = typeof policy?.field === 'string' ? policy.field.split('.') : [];
+        const relation = (modelSchema as any)?.relations?.[relationName];
+        if (policy?.field?.includes('.') && relation && TO_MANY_RELATIONS.includes(relation.type)) {
+          errors.push(`Row policy ${index} of ${model} cannot use the to-many relation ${relationName}`);
+        }
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Get the requester attributes row policies compare with
+   */
+  static async resolveRequester(userId: string): Promise<QueryRequester> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!user) {
+      throw new HttpError(403, 'Requester of the query not found');
+    }
+
+    return { userId: user.id, organizationId: user.organizationId };
+  }
+
+  /**
+   * Rewrite a query so that it only reads and writes rows allowed by the row policies
+   *
+   * The policies of the target model are ANDed into the where clause and enforced on
+   * created and updated data. Included to-many relations are filtered by the policies of
+   * their model; rows whose included to-one relation is not allowed are left out.
+   *
+   * @returns The rewritten query parameters and the models whose policies were applied
+   */
+  static applyRowPolicies(
+    schema: Record<string, any>,
+    targetModel: string,
+    action: string,
+    params: Record<string, any>,
+    requester: QueryRequester
+  ): { params: Record<string, any>; scopedModels: string[] } {
+    const scopedModels = new Set<string>();
+    const { args, conditions } = this.scopeSelection(schema, targetModel, params, requester, scopedModels);
+    const scopedParams: Record<string, any> = { ...args };
+
+    if (WHERE_ACTIONS.includes(action)) {
+      if (conditions.length > 0) {
+        scopedParams.where = this.mergeWhere(scopedParams.where, conditions);
+      }
+    } else if (conditions.length > this.getPolicies(schema, targetModel).length) {
+      // Created rows cannot be filtered by their included relations
+      throw new HttpError(403, `Relations restricted by row policies cannot be included when running ${action} on ${targetModel}`);
+    }
+
+    if (CREATE_ACTIONS.includes(action)) {
+      const key = action === 'upsert' ? 'create' : 'data';
+      if (scopedParams[key] !== undefined) {
+        scopedParams[key] = Array.isArray(scopedParams[key])
+          ? scopedParams[key].map((data: Record<string, any>) => this.scopeCreateData(schema, targetModel, data, requester))
+          : this.scopeCreateData(schema, targetModel, scopedParams[key], requester);
+      }
+    }
+
+    if (UPDATE_ACTIONS.includes(action)) {
+      const key = action === 'upsert' ? 'update' : 'data';
+      if (scopedParams[key] !== undefined) {
+        this.checkUpdateData(schema, targetModel, scopedParams[key], requester);
+      }
+    }
+
+    return { params: scopedParams, scopedModels: Array.from(scopedModels) };
+  }
+
+  /**
+   * Get the row policies of a model
+   */
+  private static getPolicies(schema: Record<string, any>, model: string): RowPolicy[] {
+    const policies = schema?.[model]?.rowPolicies;
+    return Array.isArray(policies) ? policies : [];
+  }
+
+  /**
+   * Get the value of the requester a policy compares with
+   */
+  private static getRequesterValue(model: string, policy: RowPolicy, requester: QueryRequester): string {
+    const value = requester[policy.equals as keyof QueryRequester];
+
+    // Comparing with a missing value would match the rows of everyone without one
+    if (value === undefined || value === null || value === '') {
+      throw new HttpError(
+        403,
+        `Rows of ${model} are restricted to the requester's ${SUBJECT_LABELS[policy.equals] || policy.equals}, which is not set`
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Build the where conditions that enforce the row policies of a model
+   */
+  private static getPolicyConditions(
+    schema: Record<string, any>,
+    model: string,
+    requester: QueryRequester,
+    scopedModels: Set<string>
+  ): Record<string, any>[] {
+    const policies = this.getPolicies(schema, model);
+    if (policies.length > 0) {
+      scopedModels.add(model);
+    }
+
+    return policies.map(policy => {
+      const value = this.getRequesterValue(model, policy, requester);
+      const path = policy.field.split('.');
+
+      // Paths through relations become relation filters, e.g. { user: { is: { organizationId } } }
+      return path.reduceRight<Record<string, any>>(
+        (condition, segment, index) => (index === path.length - 1 ? { [segment]: value } : { [segment]: { is: condition } }),
+        {}
+      );
+    });
+  }
+
+  /**
+   * Scope the relations included or selected by a query on a model
+   *
+   * @returns The rewritten query arguments and the where conditions the rows of the model
+   * must meet, for its own policies and for its included to-one relations
+   */
+  private static scopeSelection(
+    schema: Record<string, any>,
+    model: string,
+    args: Record<string, any>,
+    requester: QueryRequester,
+    scopedModels: Set<string>
+  ): { args: Record<string, any>; conditions: Record<string, any>[] } {
+    const conditions = this.getPolicyConditions(schema, model, requester, scopedModels);
+    const scopedArgs = { ...args };
+
+    for (const key of ['include', 'select']) {
+      const selection = args[key];
+      if (!selection || typeof selection !== 'object') continue;
+
+      const scopedSelection: Record<string, any> = {};
+
+      for (const [field, value] of Object.entries(selection)) {
+        if (field === '_count') {
+          scopedSelection[field] = this.scopeRelationCounts(schema, model, value, requester, scopedModels);
+          continue;
+        }
+
+        const relation = schema[model]?.relations?.[field];
+
+        if (!relation) {
+          // Without relation metadata an included relation cannot be scoped
+          if (value && (key === 'include' || typeof value === 'object')) {
+            throw new HttpError(403, `Relation ${field} of ${model} is not in the schema map and cannot be scoped by row policies`);
+          }
+          scopedSelection[field] = value;
+          continue;
+        }
+
+        if (!value) {
+          scopedSelection[field] = value;
+          continue;
+        }
+
+        const nested = this.scopeSelection(
+          schema,
+          relation.model,
+          value === true ? {} : (value as Record<string, any>),
+          requester,
+          scopedModels
+        );
+
+        if (TO_MANY_RELATIONS.includes(relation.type)) {
+          scopedSelection[field] =
+            nested.conditions.length > 0
+              ? { ...nested.args, where: this.mergeWhere(nested.args.where, nested.conditions) }
+              : value === true
+                ? true
+                : nested.args;
+          continue;
+        }
+
+        scopedSelection[field] = value === true ? true : nested.args;
+
+        // A to-one relation cannot be filtered, so leave out the rows it would expose
+        if (nested.conditions.length > 0) {
+          const allowed = { [field]: { is: this.combine(nested.conditions) } };
+          conditions.push(relation.required === false ? { OR: [{ [field]: { is: null } }, allowed] } : allowed);
+        }
+      }
+
+      scopedArgs[key] = scopedSelection;
+    }
+
+    return { args: scopedArgs, conditions };
+  }
+
+  /**
+   * Scope relation counts (_count) to the rows allowed by the policies of the counted models
+   */
+  private static scopeRelationCounts(
+    schema: Record<string, any>,
+    model: string,
+    value: any,
+    requester: QueryRequester,
+    scopedModels: Set<string>
+  ): any {
+    const relations: Record<string, any> = schema[model]?.relations || {};
+    const counted =
+      value === true
+        ? Object.fromEntries(
+            Object.entries(relations)
+              .filter(([, relation]) => TO_MANY_RELATIONS.includes(relation.type))
+              .map(([field]) => [field, true])
+          )
+        : value?.select;
+
+    if (!counted || typeof counted !== 'object') {
+      return value;
+    }
+
+    let scoped = false;
+    const scopedCounts: Record<string, any> = {};
+
+    for (const [field, countArgs] of Object.entries(counted)) {
+      const relation = relations[field];
+      if (!relation) {
+        if (countArgs) {
+          throw new HttpError(403, `Relation ${field} of ${model} is not in the schema map and cannot be scoped by row policies`);
+        }
+        scopedCounts[field] = countArgs;
+        continue;
+      }
+
+      const relationConditions = countArgs
+        ? this.getPolicyConditions(schema, relation.model, requester, scopedModels)
+        : [];
+
+      if (relationConditions.length === 0) {
+        scopedCounts[field] = countArgs;
+        continue;
+      }
+
+      scoped = true;
+      const existingWhere = typeof countArgs === 'object' ? (countArgs as any).where : undefined;
+      scopedCounts[field] = {
+        ...(typeof countArgs === 'object' ? countArgs : {}),
+        where: this.mergeWhere(existingWhere, relationConditions),
+      };
+    }
+
+    return scoped || value !== true ? { ...(value === true ? {} : value), select: scopedCounts } : value;
+  }
+
+  /**
+   * Set the policy fields of created data to the requester's values
+   */
+  private static scopeCreateData(
+    schema: Record<string, any>,
+    model: string,
+    data: Record<string, any>,
+    requester: QueryRequester
+  ): Record<string, any> {
+    const scopedData = { ...data };
+
+    for (const policy of this.getPolicies(schema, model)) {
+      const value = this.getRequesterValue(model, policy, requester);
+
+      if (policy.field.includes('.')) {
+        throw new HttpError(403, `Rows of ${model} restricted by ${policy.field} cannot be created by agent queries`);
+      }
+
+      if (scopedData[policy.field] !== undefined && scopedData[policy.field] !== value) {
+        throw new HttpError(403, `Rows of ${model} can only be created with ${policy.field} of the requester`);
+      }
+
+      scopedData[policy.field] = value;
+    }
+
+    return scopedData;
+  }
+
+  /**
+   * Check that updated data does not move rows out of the requester's scope
+   */
+  private static checkUpdateData(
+    schema: Record<string, any>,
+    model: string,
+    data: Record<string, any>,
+    requester: QueryRequester
+  ): void {
+    for (const policy of this.getPolicies(schema, model)) {
+      const value = this.getRequesterValue(model, policy, requester);
+      const [field] = policy.field.split('.');
+
+      // Any write to the relation of a policy path could connect the row to another tenant
+      const changesRelation = policy.field.includes('.') && data[field] !== undefined;
+      const changesField = !policy.field.includes('.') && data[field] !== undefined && data[field] !== value;
+
+      if (changesRelation || changesField) {
+        throw new HttpError(403, `${policy.field} of ${model} cannot be changed by agent queries`);
+      }
+    }
+  }
+
+  /**
+   * AND conditions into a where clause, keeping its unique fields at the top level
+   */
+  private static mergeWhere(where: Record<string, any> | undefined, conditions: Record<string, any>[]): Record<string, any> {
+    const existing = where?.AND === undefined ? [] : Array.isArray(where.AND) ? where.AND : [where.AND];
+    return { ...(where || {}), AND: [...existing, ...conditions] };
+  }
+
+  /**
+   * Combine conditions into a single condition
+   */
+  private static combine(conditions: Record<string, any>[]): Record<string, any> {
+    return conditions.length === 1 ? conditions[0] : { AND: conditions };
+  }
+}
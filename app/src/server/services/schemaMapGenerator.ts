@@ -8,7 +8,9 @@
 import { prisma } from 'wasp/server';
 import { HttpError } from 'wasp/server';
 import { LoggingService } from '../../shared/services/logging';
-import { SchemaMap } from '../../shared/types/entities/agentQuery';
+import { FieldClassificationRule, RowPolicy, SchemaMap } from '../../shared/types/entities/agentQuery';
+import { RedactionService } from './redactionService';
+import { WRITE_ACTIONS } from './queryWriteService';
 
 // Define the structure of a model schema
 interface ModelSchema {
@@ -18,6 +20,8 @@ interface ModelSchema {
   fieldTypes: Record<string, string>;
   relations?: Record<string, RelationSchema>;
   constraints?: Record<string, any>;
+  rowPolicies?: RowPolicy[];
+  fieldClassifications?: Record<string, FieldClassificationRule>;
 }
 
 // Define the structure of a relation schema
@@ -25,6 +29,7 @@ interface RelationSchema {
   type: 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
   model: string;
   foreignKey: string;
+  required: boolean;
 }
 
 // Define the structure of a schema map
@@ -47,6 +52,8 @@ export class SchemaMapGenerator {
     includeRelations?: boolean;
     includeConstraints?: boolean;
     includeVirtualFields?: boolean;
+    classifyFields?: boolean;
+    includeWriteActions?: boolean;
     excludeFields?: Record<string, string[]>;
     customActions?: Record<string, string[]>;
   } = {}): Promise<GeneratedSchemaMap> {
@@ -56,6 +63,8 @@ export class SchemaMapGenerator {
         includeRelations = true,
         includeConstraints = true,
         includeVirtualFields = false,
+        classifyFields = true,
+        includeWriteActions = false,
         excludeFields = {},
         customActions = {},
       } = options;
@@ -74,7 +83,14 @@ export class SchemaMapGenerator {
       // Process each model
       for (const model of modelsToInclude) {
         const modelSchema: ModelSchema = {
-          actions: customActions[model.name] || ['findMany', 'findUnique', 'findFirst', 'count'],
+          // Writes are opt-in; agents can then propose them for approval
+          actions: customActions[model.name] || [
+            'findMany',
+            'findUnique',
+            'findFirst',
+            'count',
+            ...(includeWriteActions ? WRITE_ACTIONS : []),
+          ],
           allowedFields: [],
           requiredFields: [],
           fieldTypes: {},
@@ -102,6 +118,17 @@ export class SchemaMapGenerator {
           
           // Add field type
           modelSchema.fieldTypes[field.name] = field.type;
+
+          // Classify fields holding secrets, personal or financial data for redaction
+          const classification = classifyFields && field.kind !== 'object'
+            ? RedactionService.suggestClassification(field.name)
+            : undefined;
+          if (classification) {
+            modelSchema.fieldClassifications = {
+              ...modelSchema.fieldClassifications,
+              [field.name]: classification,
+            };
+          }
         }
         
         // Add relations if includeRelations is true
@@ -136,6 +163,7 @@ export class SchemaMapGenerator {
                     type: relationType,
                     model: relatedModel.name,
                     foreignKey: relatedField.name,
+                    required: field.isRequired,
                   };
                 }
               }
@@ -0,0 +1,16 @@
+/**
+ * Server Setup
+ *
+ * This file runs once when the Wasp server starts, before it accepts requests.
+ */
+
+import { type ServerSetupFn } from 'wasp/server';
+import { recoverLangGraphRunsOnStartup } from '../modules/forgeflow/jobs/langGraphRecovery';
+
+/**
+ * Server setup function
+ */
+export const serverSetup: ServerSetupFn = async () => {
+  // Resume or fail LangGraph runs interrupted by the previous shutdown
+  await recoverLangGraphRunsOnStartup();
+};
@@ -0,0 +1,55 @@
+/**
+ * WebSocket Server
+ *
+ * This file pushes server-side events to connected clients. Each authenticated socket joins
+ * a room for its user and one for its organization, and events are delivered to those rooms.
+ */
+
+import { type WebSocketDefinition, type WaspSocketData } from 'wasp/server/webSocket';
+import {
+  type CheckpointEvent,
+  subscribeToCheckpointEvents,
+} from '../modules/arcana/shared/services/sentientLoop/checkpointEvents';
+
+export interface ServerToClientEvents {
+  sentientCheckpoint: (event: CheckpointEvent) => void;
+}
+
+export interface ClientToServerEvents {}
+
+export interface InterServerEvents {}
+
+export const userRoom = (userId: string) => `user:${userId}`;
+export const organizationRoom = (organizationId: string) => `org:${organizationId}`;
+
+/**
+ * WebSocket setup function
+ */
+export const webSocketFn: WebSocketDefinition<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  WaspSocketData
+> = (io) => {
+  // Checkpoint events go to the owner and to everyone in the owner's organization
+  subscribeToCheckpointEvents((event) => {
+    const rooms = [userRoom(event.userId)];
+    if (event.organizationId) {
+      rooms.push(organizationRoom(event.organizationId));
+    }
+    io.to(rooms).emit('sentientCheckpoint', event);
+  });
+
+  io.on('connection', (socket) => {
+    const user = socket.data.user;
+    if (!user) {
+      socket.disconnect(true);
+      return;
+    }
+
+    socket.join(userRoom(user.id));
+    if (user.organizationId) {
+      socket.join(organizationRoom(user.organizationId));
+    }
+  });
+};
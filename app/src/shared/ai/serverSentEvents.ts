@@ -0,0 +1,135 @@
+/**
+ * Server-Sent Events Utilities
+ *
+ * Client helpers for the streaming AI chat endpoint, which sends generated text as
+ * `data: {"delta": ...}` events followed by a `done` or `error` event.
+ */
+
+import { config } from 'wasp/client';
+import { getSessionId } from 'wasp/client/api';
+
+export interface ServerSentEvent {
+  event: string;
+  data: any;
+}
+
+/**
+ * Parse a server-sent event stream into its events
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of rawEvent.split('\n')) {
+          if (line.startsWith('event:')) {
+            event = line.slice(6).trim();
+          } else if (line.startsWith('data:')) {
+            data.push(line.slice(5).trim());
+          }
+        }
+
+        if (data.length > 0) {
+          yield { event, data: JSON.parse(data.join('\n')) };
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * A fetch for the Vercel AI SDK's text stream protocol that calls the streaming chat
+ * endpoint on the Wasp server and returns the generated text as a plain text stream
+ */
+export const fetchChatTextStream: typeof fetch = async (input, init) => {
+  const path = typeof input === 'string' ? input : input instanceof URL ? input.pathname : input.url;
+  const sessionId = getSessionId();
+  const body = init?.body ? JSON.parse(init.body as string) : {};
+
+  const response = await fetch(`${config.apiUrl}${path}`, {
+    ...init,
+    headers: {
+      ...init?.headers,
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...(sessionId && { Authorization: `Bearer ${sessionId}` }),
+    },
+    body: JSON.stringify({
+      ...body,
+      // The endpoint only takes the conversation itself
+      messages: body.messages
+        ?.filter((message: any) => ['system', 'user', 'assistant'].includes(message.role))
+        .map((message: any) => ({ role: message.role, content: message.content })),
+    }),
+  });
+
+  if (!response.ok || !response.body) {
+    return response;
+  }
+
+  const events = readServerSentEvents(response.body);
+  const encoder = new TextEncoder();
+
+  const text = new ReadableStream<Uint8Array>({
+    // Each pull must enqueue, close or error, otherwise the stream is never pulled again,
+    // so events without text are skipped until one of those happens
+    async pull(controller) {
+      try {
+        while (true) {
+          const { done, value } = await events.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+
+          if (value.event === 'done') {
+            controller.close();
+            await events.return(undefined);
+            return;
+          }
+
+          if (value.event === 'error') {
+            controller.error(new Error(value.data.error || 'Failed to generate AI response'));
+            await events.return(undefined);
+            return;
+          }
+
+          if (value.event === 'message' && value.data.delta) {
+            controller.enqueue(encoder.encode(value.data.delta));
+            return;
+          }
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    // Stopping the chat cancels the stream, which closes the request to the server
+    async cancel() {
+      await events.return(undefined);
+    },
+  });
+
+  return new Response(text, {
+    status: response.status,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+};
@@ -8,6 +8,7 @@
 
 import { useState, useCallback, useRef } from 'react';
 import { useChat, useCompletion, Message as VercelMessage } from 'ai';
+import { fetchChatTextStream } from './serverSentEvents';
 
 /**
  * Message interface compatible with Vercel AI SDK
@@ -36,7 +37,7 @@ export interface AIFunction {
  * Options for the useCauldronChat hook
  */
 export interface UseCauldronChatOptions {
-  /** API endpoint for chat completions */
+  /** API endpoint for chat completions, on the Wasp server */
   api?: string;
   /** Initial messages to populate the chat */
   initialMessages?: Message[];
@@ -82,7 +83,7 @@ export interface UseCauldronChatReturn {
  * @example
  * ```tsx
  * const { messages, input, setInput, sendMessage, isLoading } = useCauldronChat({
- *   api: '/api/chat',
+ *   api: '/api/ai/chat',
  *   module: 'arcana',
  *   onFinish: (message) => console.log('Chat completed:', message),
  * });
@@ -103,7 +104,7 @@ export interface UseCauldronChatReturn {
  * ```
  */
 export function useCauldronChat({
-  api = '/api/chat',
+  api = '/api/ai/chat',
   initialMessages = [],
   functions,
   module = 'arcana',
@@ -136,6 +137,9 @@ export function useCauldronChat({
     api,
     initialMessages: initialVercelMessages,
     body: { module },
+    // The Wasp chat endpoint streams server-sent events; stop() aborts the server request
+    streamProtocol: 'text',
+    fetch: fetchChatTextStream,
     onError,
     onFinish: (message) => {
       if (onFinish) {
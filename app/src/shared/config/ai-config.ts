@@ -252,6 +252,76 @@ export const GROQ_CONFIG = {
   },
 };
 
+// Semantic response cache configuration
+export const SEMANTIC_CACHE_CONFIG = {
+  // Serves cached responses to prompts that are similar, not only identical, to earlier ones
+  enabled: process.env.SEMANTIC_CACHE_ENABLED === 'true',
+
+  // Minimum cosine similarity between prompt embeddings for a cached response to be served
+  similarityThresholds: {
+    default: 0.95,
+    requestTypes: {
+      chat: 0.97,
+      summarization: 0.93,
+      contentGeneration: 0.95,
+      embedding: 0.99,
+    } as Record<string, number>,
+    // Per-module overrides, keyed by request type or 'default' for all request types
+    modules: {
+      athena: { summarization: 0.92 },
+      sentinel: { default: 0.98 },
+    } as Record<string, Record<string, number>>,
+  },
+
+  // Responses generated above this temperature are neither cached nor served from the cache
+  maxTemperature: 0.7,
+
+  // How long semantic cache entries are served
+  ttlSeconds: 86400, // 24 hours
+
+  // Most recent entries compared against a prompt
+  maxCandidates: 500,
+
+  // Whether a response cached for one user may be served to another
+  shareAcrossUsers: false,
+
+  // Entries stop being served once they have at least minVotes feedback votes and the
+  // share of negative votes exceeds maxNegativeRatio
+  feedback: {
+    minVotes: 2,
+    maxNegativeRatio: 0.5,
+  },
+
+  // Lookups are kept this long for hit-rate and savings metrics
+  lookupRetentionDays: 90,
+};
+
+// Token quota configuration
+export const TOKEN_QUOTA_CONFIG = {
+  // Checks usage quotas before every routed AI request
+  enabled: process.env.TOKEN_QUOTAS_ENABLED !== 'false',
+
+  // 'hard' blocks requests over a quota, 'soft' only warns; overrides may change this per user or organization
+  enforcement: (process.env.TOKEN_QUOTA_ENFORCEMENT === 'soft' ? 'soft' : 'hard') as 'hard' | 'soft',
+
+  // Share of a quota from which requests are let through with a warning and an alert
+  warningThreshold: 0.8,
+
+  // Limits of every user, whatever their plan; omitted or -1 means unlimited
+  userLimits: {
+    dailyTokens: 250000,
+  } as { dailyTokens?: number; monthlyTokens?: number; dailyRequests?: number; monthlyRequests?: number },
+
+  // Token limits of each plan tier, shared by the members of an organization; monthly request
+  // limits come from the plan's maxRequests feature
+  planLimits: {
+    FREE: { dailyTokens: 20000, monthlyTokens: 200000 },
+    PRO: { dailyTokens: 200000, monthlyTokens: 2000000 },
+    TEAM: { dailyTokens: 1000000, monthlyTokens: 10000000 },
+    EXECUTIVE: { dailyTokens: -1, monthlyTokens: -1 },
+  } as Record<string, { dailyTokens?: number; monthlyTokens?: number; dailyRequests?: number }>,
+};
+
 // Sentient Loop™ configuration
 export const SENTIENT_LOOP_CONFIG = {
   // System prompts for different modules
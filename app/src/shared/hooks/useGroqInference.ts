@@ -1,781 +1,59 @@
-import { useState, useCallback } from 'react';
-import { groqInference } from 'wasp/client/operations';
-import type { GroqInferenceInput } from '../../ai-services/groq';
+import { useState, useCallback, useRef } from 'react';
+import { config } from 'wasp/client';
+import { getSessionId } from 'wasp/client/api';
+import { readServerSentEvents } from '../ai/serverSentEvents';
 
-interface UseGroqInferenceOptions {
-  onStart?: () => void;
-  onChunk?: (chunk: string) => void;
-  onComplete?: (fullText: string) => void;
-  onError?: (error: Error) => void;
-}
-
-interface UseGroqInferenceReturn {
-  isLoading: boolean;
-  error: Error | null;
-  fullText: string;
-  generateText: (input: Omit<GroqInferenceInput, 'stream'>) => Promise<string>;
-  reset: () => void;
-}
-
-/**
- * React hook for using Groq inference with streaming support
- * 
- * @example
- * ```tsx
- * const { generateText, isLoading, fullText } = useGroqInference({
- *   onChunk: (chunk) => console.log('New chunk:', chunk),
- *   onComplete: (text) => console.log('Complete text:', text)
- * });
- * 
- * const handleSubmit = async () => {
- *   await generateText({
- *     prompt: 'Write a short story about a robot',
- *     model: 'llama3-8b-8192',
- *     temperature: 0.7
- *   });
- * };
- * ```
- */
-export function useGroqInference(options: UseGroqInferenceOptions = {}): UseGroqInferenceReturn {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [fullText, setFullText] = useState('');
-
-  const reset = useCallback(() => {
-    setFullText('');
-    setError(null);
-  }, []);
-
-  const generateText = useCallback(
-    async (input: Omit<GroqInferenceInput, 'stream'>): Promise<string> => {
-      try {
-        reset();
-        setIsLoading(true);
-        
-        if (options.onStart) {
-          options.onStart();
-        }
-
-        // Always use streaming for low latency
-        const stream = await groqInference({
-          ...input,
-          stream: true,
-        });
-
-        let completeText = '';
-
-        // Process the stream
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
-          if (content) {
-            completeText += content;
-            setFullText(prev => prev + content);
-            
-            if (options.onChunk) {
-              options.onChunk(content);
-            }
-          }
-        }
-
-        if (options.onComplete) {
-          options.onComplete(completeText);
-        }
-
-        return completeText;
-      } catch (err: any) {
-        const error = new Error(err.message || 'Failed to generate text');
-        setError(error);
-        
-        if (options.onError) {
-          options.onError(error);
-        }
-        
-        throw error;
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [options, reset]
-  );
-
-  return {
-    isLoading,
-    error,
-    fullText,
-    generateText,
-    reset,
-  };
-}import { useState, useCallback } from 'react';
-import { groqInference } from 'wasp/client/operations';
-import type { GroqInferenceInput } from '../../ai-services/groq';
-
-interface UseGroqInferenceOptions {
-  onStart?: () => void;
-  onChunk?: (chunk: string) => void;
-  onComplete?: (fullText: string) => void;
-  onError?: (error: Error) => void;
-}
-
-interface UseGroqInferenceReturn {
-  isLoading: boolean;
-  error: Error | null;
-  fullText: string;
-  generateText: (input: Omit<GroqInferenceInput, 'stream'>) => Promise<string>;
-  reset: () => void;
-}
-
-/**
- * React hook for using Groq inference with streaming support
- * 
- * @example
- * ```tsx
- * const { generateText, isLoading, fullText } = useGroqInference({
- *   onChunk: (chunk) => console.log('New chunk:', chunk),
- *   onComplete: (text) => console.log('Complete text:', text)
- * });
- * 
- * const handleSubmit = async () => {
- *   await generateText({
- *     prompt: 'Write a short story about a robot',
- *     model: 'llama3-8b-8192',
- *     temperature: 0.7
- *   });
- * };
- * ```
- */
-export function useGroqInference(options: UseGroqInferenceOptions = {}): UseGroqInferenceReturn {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [fullText, setFullText] = useState('');
-
-  const reset = useCallback(() => {
-    setFullText('');
-    setError(null);
-  }, []);
-
-  const generateText = useCallback(
-    async (input: Omit<GroqInferenceInput, 'stream'>): Promise<string> => {
-      try {
-        reset();
-        setIsLoading(true);
-        
-        if (options.onStart) {
-          options.onStart();
-        }
-
-        // Always use streaming for low latency
-        const stream = await groqInference({
-          ...input,
-          stream: true,
-        });
-
-        let completeText = '';
-
-        // Process the stream
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
-          if (content) {
-            completeText += content;
-            setFullText(prev => prev + content);
-            
-            if (options.onChunk) {
-              options.onChunk(content);
-            }
-          }
-        }
-
-        if (options.onComplete) {
-          options.onComplete(completeText);
-        }
-
-        return completeText;
-      } catch (err: any) {
-        const error = new Error(err.message || 'Failed to generate text');
-        setError(error);
-        
-        if (options.onError) {
-          options.onError(error);
-        }
-        
-        throw error;
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [options, reset]
-  );
-
-  return {
-    isLoading,
-    error,
-    fullText,
-    generateText,
-    reset,
-  };
-}import { useState, useCallback } from 'react';
-import { groqInference } from 'wasp/client/operations';
-import type { GroqInferenceInput } from '../../ai-services/groq';
-
-interface UseGroqInferenceOptions {
-  onStart?: () => void;
-  onChunk?: (chunk: string) => void;
-  onComplete?: (fullText: string) => void;
-  onError?: (error: Error) => void;
-}
-
-interface UseGroqInferenceReturn {
-  isLoading: boolean;
-  error: Error | null;
-  fullText: string;
-  generateText: (input: Omit<GroqInferenceInput, 'stream'>) => Promise<string>;
-  reset: () => void;
-}
-
-/**
- * React hook for using Groq inference with streaming support
- * 
- * @example
- * ```tsx
- * const { generateText, isLoading, fullText } = useGroqInference({
- *   onChunk: (chunk) => console.log('New chunk:', chunk),
- *   onComplete: (text) => console.log('Complete text:', text)
- * });
- * 
- * const handleSubmit = async () => {
- *   await generateText({
- *     prompt: 'Write a short story about a robot',
- *     model: 'llama3-8b-8192',
- *     temperature: 0.7
- *   });
- * };
- * ```
- */
-export function useGroqInference(options: UseGroqInferenceOptions = {}): UseGroqInferenceReturn {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [fullText, setFullText] = useState('');
-
-  const reset = useCallback(() => {
-    setFullText('');
-    setError(null);
-  }, []);
-
-  const generateText = useCallback(
-    async (input: Omit<GroqInferenceInput, 'stream'>): Promise<string> => {
-      try {
-        reset();
-        setIsLoading(true);
-        
-        if (options.onStart) {
-          options.onStart();
-        }
-
-        // Always use streaming for low latency
-        const stream = await groqInference({
-          ...input,
-          stream: true,
-        });
-
-        let completeText = '';
-
-        // Process the stream
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
-          if (content) {
-            completeText += content;
-            setFullText(prev => prev + content);
-            
-            if (options.onChunk) {
-              options.onChunk(content);
-            }
-          }
-        }
-
-        if (options.onComplete) {
-          options.onComplete(completeText);
-        }
-
-        return completeText;
-      } catch (err: any) {
-        const error = new Error(err.message || 'Failed to generate text');
-        setError(error);
-        
-        if (options.onError) {
-          options.onError(error);
-        }
-        
-        throw error;
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [options, reset]
-  );
-
-  return {
-    isLoading,
-    error,
-    fullText,
-    generateText,
-    reset,
-  };
-}import { useState, useCallback } from 'react';
-import { groqInference } from 'wasp/client/operations';
-import type { GroqInferenceInput } from '../../ai-services/groq';
-
-interface UseGroqInferenceOptions {
-  onStart?: () => void;
-  onChunk?: (chunk: string) => void;
-  onComplete?: (fullText: string) => void;
-  onError?: (error: Error) => void;
-}
-
-interface UseGroqInferenceReturn {
-  isLoading: boolean;
-  error: Error | null;
-  fullText: string;
-  generateText: (input: Omit<GroqInferenceInput, 'stream'>) => Promise<string>;
-  reset: () => void;
-}
-
-/**
- * React hook for using Groq inference with streaming support
- * 
- * @example
- * ```tsx
- * const { generateText, isLoading, fullText } = useGroqInference({
- *   onChunk: (chunk) => console.log('New chunk:', chunk),
- *   onComplete: (text) => console.log('Complete text:', text)
- * });
- * 
- * const handleSubmit = async () => {
- *   await generateText({
- *     prompt: 'Write a short story about a robot',
- *     model: 'llama3-8b-8192',
- *     temperature: 0.7
- *   });
- * };
- * ```
- */
-export function useGroqInference(options: UseGroqInferenceOptions = {}): UseGroqInferenceReturn {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [fullText, setFullText] = useState('');
-
-  const reset = useCallback(() => {
-    setFullText('');
-    setError(null);
-  }, []);
-
-  const generateText = useCallback(
-    async (input: Omit<GroqInferenceInput, 'stream'>): Promise<string> => {
-      try {
-        reset();
-        setIsLoading(true);
-        
-        if (options.onStart) {
-          options.onStart();
-        }
-
-        // Always use streaming for low latency
-        const stream = await groqInference({
-          ...input,
-          stream: true,
-        });
-
-        let completeText = '';
-
-        // Process the stream
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
-          if (content) {
-            completeText += content;
-            setFullText(prev => prev + content);
-            
-            if (options.onChunk) {
-              options.onChunk(content);
-            }
-          }
-        }
-
-        if (options.onComplete) {
-          options.onComplete(completeText);
-        }
-
-        return completeText;
-      } catch (err: any) {
-        const error = new Error(err.message || 'Failed to generate text');
-        setError(error);
-        
-        if (options.onError) {
-          options.onError(error);
-        }
-        
-        throw error;
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [options, reset]
-  );
-
-  return {
-    isLoading,
-    error,
-    fullText,
-    generateText,
-    reset,
-  };
-}import { useState, useCallback } from 'react';
-import { groqInference } from 'wasp/client/operations';
-import type { GroqInferenceInput } from '../../ai-services/groq';
-
-interface UseGroqInferenceOptions {
-  onStart?: () => void;
-  onChunk?: (chunk: string) => void;
-  onComplete?: (fullText: string) => void;
-  onError?: (error: Error) => void;
-}
-
-interface UseGroqInferenceReturn {
-  isLoading: boolean;
-  error: Error | null;
-  fullText: string;
-  generateText: (input: Omit<GroqInferenceInput, 'stream'>) => Promise<string>;
-  reset: () => void;
-}
-
-/**
- * React hook for using Groq inference with streaming support
- * 
- * @example
- * ```tsx
- * const { generateText, isLoading, fullText } = useGroqInference({
- *   onChunk: (chunk) => console.log('New chunk:', chunk),
- *   onComplete: (text) => console.log('Complete text:', text)
- * });
- * 
- * const handleSubmit = async () => {
- *   await generateText({
- *     prompt: 'Write a short story about a robot',
- *     model: 'llama3-8b-8192',
- *     temperature: 0.7
- *   });
- * };
- * ```
- */
-export function useGroqInference(options: UseGroqInferenceOptions = {}): UseGroqInferenceReturn {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [fullText, setFullText] = useState('');
-
-  const reset = useCallback(() => {
-    setFullText('');
-    setError(null);
-  }, []);
-
-  const generateText = useCallback(
-    async (input: Omit<GroqInferenceInput, 'stream'>): Promise<string> => {
-      try {
-        reset();
-        setIsLoading(true);
-        
-        if (options.onStart) {
-          options.onStart();
-        }
-
-        // Always use streaming for low latency
-        const stream = await groqInference({
-          ...input,
-          stream: true,
-        });
-
-        let completeText = '';
-
-        // Process the stream
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
-          if (content) {
-            completeText += content;
-            setFullText(prev => prev + content);
-            
-            if (options.onChunk) {
-              options.onChunk(content);
-            }
-          }
-        }
-
-        if (options.onComplete) {
-          options.onComplete(completeText);
-        }
-
-        return completeText;
-      } catch (err: any) {
-        const error = new Error(err.message || 'Failed to generate text');
-        setError(error);
-        
-        if (options.onError) {
-          options.onError(error);
-        }
-        
-        throw error;
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [options, reset]
-  );
-
-  return {
-    isLoading,
-    error,
-    fullText,
-    generateText,
-    reset,
-  };
-}import { useState, useCallback } from 'react';
-import { groqInference } from 'wasp/client/operations';
-import type { GroqInferenceInput } from '../../ai-services/groq';
-
-interface UseGroqInferenceOptions {
-  onStart?: () => void;
-  onChunk?: (chunk: string) => void;
-  onComplete?: (fullText: string) => void;
-  onError?: (error: Error) => void;
-}
-
-interface UseGroqInferenceReturn {
-  isLoading: boolean;
-  error: Error | null;
-  fullText: string;
-  generateText: (input: Omit<GroqInferenceInput, 'stream'>) => Promise<string>;
-  reset: () => void;
-}
-
-/**
- * React hook for using Groq inference with streaming support
- * 
- * @example
- * ```tsx
- * const { generateText, isLoading, fullText } = useGroqInference({
- *   onChunk: (chunk) => console.log('New chunk:', chunk),
- *   onComplete: (text) => console.log('Complete text:', text)
- * });
- * 
- * const handleSubmit = async () => {
- *   await generateText({
- *     prompt: 'Write a short story about a robot',
- *     model: 'llama3-8b-8192',
- *     temperature: 0.7
- *   });
- * };
- * ```
- */
-export function useGroqInference(options: UseGroqInferenceOptions = {}): UseGroqInferenceReturn {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [fullText, setFullText] = useState('');
-
-  const reset = useCallback(() => {
-    setFullText('');
-    setError(null);
-  }, []);
-
-  const generateText = useCallback(
-    async (input: Omit<GroqInferenceInput, 'stream'>): Promise<string> => {
-      try {
-        reset();
-        setIsLoading(true);
-        
-        if (options.onStart) {
-          options.onStart();
-        }
-
-        // Always use streaming for low latency
-        const stream = await groqInference({
-          ...input,
-          stream: true,
-        });
-
-        let completeText = '';
-
-        // Process the stream
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
-          if (content) {
-            completeText += content;
-            setFullText(prev => prev + content);
-            
-            if (options.onChunk) {
-              options.onChunk(content);
-            }
-          }
-        }
-
-        if (options.onComplete) {
-          options.onComplete(completeText);
-        }
-
-        return completeText;
-      } catch (err: any) {
-        const error = new Error(err.message || 'Failed to generate text');
-        setError(error);
-        
-        if (options.onError) {
-          options.onError(error);
-        }
-        
-        throw error;
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [options, reset]
-  );
-
-  return {
-    isLoading,
-    error,
-    fullText,
-    generateText,
-    reset,
-  };
-}import { useState, useCallback } from 'react';
-import { groqInference } from 'wasp/client/operations';
-import type { GroqInferenceInput } from '../../ai-services/groq';
+export interface StreamCompletionSummary {
+  finishReason: string | null;
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+  semanticCache?: { lookupId: string; similarity: number };
+  moderation: { decision: 'allow' | 'flag' | 'block'; score: number } | null;
+}
 
 interface UseGroqInferenceOptions {
   onStart?: () => void;
   onChunk?: (chunk: string) => void;
-  onComplete?: (fullText: string) => void;
+  onComplete?: (fullText: string, summary: StreamCompletionSummary | null) => void;
   onError?: (error: Error) => void;
 }
 
-interface UseGroqInferenceReturn {
-  isLoading: boolean;
-  error: Error | null;
-  fullText: string;
-  generateText: (input: Omit<GroqInferenceInput, 'stream'>) => Promise<string>;
-  reset: () => void;
-}
-
-/**
- * React hook for using Groq inference with streaming support
- * 
- * @example
- * ```tsx
- * const { generateText, isLoading, fullText } = useGroqInference({
- *   onChunk: (chunk) => console.log('New chunk:', chunk),
- *   onComplete: (text) => console.log('Complete text:', text)
- * });
- * 
- * const handleSubmit = async () => {
- *   await generateText({
- *     prompt: 'Write a short story about a robot',
- *     model: 'llama3-8b-8192',
- *     temperature: 0.7
- *   });
- * };
- * ```
- */
-export function useGroqInference(options: UseGroqInferenceOptions = {}): UseGroqInferenceReturn {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [fullText, setFullText] = useState('');
-
-  const reset = useCallback(() => {
-    setFullText('');
-    setError(null);
-  }, []);
-
-  const generateText = useCallback(
-    async (input: Omit<GroqInferenceInput, 'stream'>): Promise<string> => {
-      try {
-        reset();
-        setIsLoading(true);
-        
-        if (options.onStart) {
-          options.onStart();
-        }
-
-        // Always use streaming for low latency
-        const stream = await groqInference({
-          ...input,
-          stream: true,
-        });
-
-        let completeText = '';
-
-        // Process the stream
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
-          if (content) {
-            completeText += content;
-            setFullText(prev => prev + content);
-            
-            if (options.onChunk) {
-              options.onChunk(content);
-            }
-          }
-        }
-
-        if (options.onComplete) {
-          options.onComplete(completeText);
-        }
-
-        return completeText;
-      } catch (err: any) {
-        const error = new Error(err.message || 'Failed to generate text');
-        setError(error);
-        
-        if (options.onError) {
-          options.onError(error);
-        }
-        
-        throw error;
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [options, reset]
-  );
-
-  return {
-    isLoading,
-    error,
-    fullText,
-    generateText,
-    reset,
-  };
-}import { useState, useCallback } from 'react';
-import { groqInference } from 'wasp/client/operations';
-import type { GroqInferenceInput } from '../../ai-services/groq';
-
-interface UseGroqInferenceOptions {
-  onStart?: () => void;
-  onChunk?: (chunk: string) => void;
-  onComplete?: (fullText: string) => void;
-  onError?: (error: Error) => void;
+interface UseGroqInferenceInput {
+  // Either a prompt or a conversation ending with the user message to answer
+  prompt?: string;
+  messages?: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
+  context?: string;
+  systemPrompt?: string;
+  module?: string;
+  model?: string;
+  provider?: string;
+  temperature?: number;
+  maxTokens?: number;
 }
 
 interface UseGroqInferenceReturn {
   isLoading: boolean;
   error: Error | null;
   fullText: string;
-  generateText: (input: Omit<GroqInferenceInput, 'stream'>) => Promise<string>;
+  summary: StreamCompletionSummary | null;
+  generateText: (input: UseGroqInferenceInput) => Promise<string>;
+  cancel: () => void;
   reset: () => void;
 }
 
 /**
  * React hook for using Groq inference with streaming support
- * 
+ *
+ * Responses are streamed from the AI chat endpoint and rendered as they arrive.
+ * Cancelling aborts the request, which stops generation on the server. Responses the
+ * server's safety scoring blocks end early and are withdrawn.
+ *
  * @example
  * ```tsx
- * const { generateText, isLoading, fullText } = useGroqInference({
+ * const { generateText, cancel, isLoading, fullText } = useGroqInference({
  *   onChunk: (chunk) => console.log('New chunk:', chunk),
  *   onComplete: (text) => console.log('Complete text:', text)
  * });
- * 
+ *
  * const handleSubmit = async () => {
  *   await generateText({
  *     prompt: 'Write a short story about a robot',
@@ -789,283 +67,122 @@ export function useGroqInference(options: UseGroqInferenceOptions = {}): UseGroq
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [fullText, setFullText] = useState('');
+  const [summary, setSummary] = useState<StreamCompletionSummary | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  }, []);
 
   const reset = useCallback(() => {
     setFullText('');
+    setSummary(null);
     setError(null);
   }, []);
 
   const generateText = useCallback(
-    async (input: Omit<GroqInferenceInput, 'stream'>): Promise<string> => {
+    async (input: UseGroqInferenceInput): Promise<string> => {
+      // Only one response streams at a time
+      cancel();
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      let completeText = '';
+
       try {
         reset();
         setIsLoading(true);
-        
+
         if (options.onStart) {
           options.onStart();
         }
 
-        // Always use streaming for low latency
-        const stream = await groqInference({
-          ...input,
-          stream: true,
+        const sessionId = getSessionId();
+        const response = await fetch(`${config.apiUrl}/api/ai/chat`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'text/event-stream',
+            ...(sessionId && { Authorization: `Bearer ${sessionId}` }),
+          },
+          body: JSON.stringify(input),
+          signal: abortController.signal,
         });
 
-        let completeText = '';
-
-        // Process the stream
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
-          if (content) {
-            completeText += content;
-            setFullText(prev => prev + content);
-            
-            if (options.onChunk) {
-              options.onChunk(content);
-            }
-          }
-        }
-
-        if (options.onComplete) {
-          options.onComplete(completeText);
-        }
-
-        return completeText;
-      } catch (err: any) {
-        const error = new Error(err.message || 'Failed to generate text');
-        setError(error);
-        
-        if (options.onError) {
-          options.onError(error);
+        if (!response.ok || !response.body) {
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error || `Request failed with status ${response.status}`);
         }
-        
-        throw error;
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [options, reset]
-  );
-
-  return {
-    isLoading,
-    error,
-    fullText,
-    generateText,
-    reset,
-  };
-}import { useState, useCallback } from 'react';
-import { groqInference } from 'wasp/client/operations';
-import type { GroqInferenceInput } from '../../ai-services/groq';
-
-interface UseGroqInferenceOptions {
-  onStart?: () => void;
-  onChunk?: (chunk: string) => void;
-  onComplete?: (fullText: string) => void;
-  onError?: (error: Error) => void;
-}
-
-interface UseGroqInferenceReturn {
-  isLoading: boolean;
-  error: Error | null;
-  fullText: string;
-  generateText: (input: Omit<GroqInferenceInput, 'stream'>) => Promise<string>;
-  reset: () => void;
-}
-
-/**
- * React hook for using Groq inference with streaming support
- * 
- * @example
- * ```tsx
- * const { generateText, isLoading, fullText } = useGroqInference({
- *   onChunk: (chunk) => console.log('New chunk:', chunk),
- *   onComplete: (text) => console.log('Complete text:', text)
- * });
- * 
- * const handleSubmit = async () => {
- *   await generateText({
- *     prompt: 'Write a short story about a robot',
- *     model: 'llama3-8b-8192',
- *     temperature: 0.7
- *   });
- * };
- * ```
- */
-export function useGroqInference(options: UseGroqInferenceOptions = {}): UseGroqInferenceReturn {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [fullText, setFullText] = useState('');
-
-  const reset = useCallback(() => {
-    setFullText('');
-    setError(null);
-  }, []);
 
-  const generateText = useCallback(
-    async (input: Omit<GroqInferenceInput, 'stream'>): Promise<string> => {
-      try {
-        reset();
-        setIsLoading(true);
-        
-        if (options.onStart) {
-          options.onStart();
-        }
+        let completion: StreamCompletionSummary | null = null;
 
-        // Always use streaming for low latency
-        const stream = await groqInference({
-          ...input,
-          stream: true,
-        });
+        for await (const event of readServerSentEvents(response.body)) {
+          if (event.event === 'error') {
+            throw new Error(event.data.error || 'Failed to generate text');
+          }
 
-        let completeText = '';
+          if (event.event === 'done') {
+            completion = event.data;
+            continue;
+          }
 
-        // Process the stream
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
+          const content: string = event.data.delta || '';
           if (content) {
             completeText += content;
             setFullText(prev => prev + content);
-            
+
             if (options.onChunk) {
               options.onChunk(content);
             }
           }
         }
 
-        if (options.onComplete) {
-          options.onComplete(completeText);
-        }
-
-        return completeText;
-      } catch (err: any) {
-        const error = new Error(err.message || 'Failed to generate text');
-        setError(error);
-        
-        if (options.onError) {
-          options.onError(error);
-        }
-        
-        throw error;
-      } finally {
-        setIsLoading(false);
-      }
-    },
-    [options, reset]
-  );
-
-  return {
-    isLoading,
-    error,
-    fullText,
-    generateText,
-    reset,
-  };
-}import { useState, useCallback } from 'react';
-import { groqInference } from 'wasp/client/operations';
-import type { GroqInferenceInput } from '../../ai-services/groq';
-
-interface UseGroqInferenceOptions {
-  onStart?: () => void;
-  onChunk?: (chunk: string) => void;
-  onComplete?: (fullText: string) => void;
-  onError?: (error: Error) => void;
-}
-
-interface UseGroqInferenceReturn {
-  isLoading: boolean;
-  error: Error | null;
-  fullText: string;
-  generateText: (input: Omit<GroqInferenceInput, 'stream'>) => Promise<string>;
-  reset: () => void;
-}
-
-/**
- * React hook for using Groq inference with streaming support
- * 
- * @example
- * ```tsx
- * const { generateText, isLoading, fullText } = useGroqInference({
- *   onChunk: (chunk) => console.log('New chunk:', chunk),
- *   onComplete: (text) => console.log('Complete text:', text)
- * });
- * 
- * const handleSubmit = async () => {
- *   await generateText({
- *     prompt: 'Write a short story about a robot',
- *     model: 'llama3-8b-8192',
- *     temperature: 0.7
- *   });
- * };
- * ```
- */
-export function useGroqInference(options: UseGroqInferenceOptions = {}): UseGroqInferenceReturn {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
-  const [fullText, setFullText] = useState('');
-
-  const reset = useCallback(() => {
-    setFullText('');
-    setError(null);
-  }, []);
-
-  const generateText = useCallback(
-    async (input: Omit<GroqInferenceInput, 'stream'>): Promise<string> => {
-      try {
-        reset();
-        setIsLoading(true);
-        
-        if (options.onStart) {
-          options.onStart();
+        // Moderation scores the text while it streams and stops blocked responses early;
+        // the text already rendered is withdrawn
+        if (completion?.moderation?.decision === 'block') {
+          completeText = '';
+          setFullText('');
         }
 
-        // Always use streaming for low latency
-        const stream = await groqInference({
-          ...input,
-          stream: true,
-        });
-
-        let completeText = '';
-
-        // Process the stream
-        for await (const chunk of stream) {
-          const content = chunk.choices[0]?.delta?.content || '';
-          if (content) {
-            completeText += content;
-            setFullText(prev => prev + content);
-            
-            if (options.onChunk) {
-              options.onChunk(content);
-            }
-          }
-        }
+        setSummary(completion);
 
         if (options.onComplete) {
-          options.onComplete(completeText);
+          options.onComplete(completeText, completion);
         }
 
         return completeText;
       } catch (err: any) {
+        // A cancelled request keeps the text generated so far
+        if (abortController.signal.aborted) {
+          return completeText;
+        }
+
         const error = new Error(err.message || 'Failed to generate text');
         setError(error);
-        
+
         if (options.onError) {
           options.onError(error);
         }
-        
+
         throw error;
       } finally {
-        setIsLoading(false);
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+          setIsLoading(false);
+        }
       }
     },
-    [options, reset]
+    [options, reset, cancel]
   );
 
   return {
     isLoading,
     error,
     fullText,
+    summary,
     generateText,
+    cancel,
     reset,
   };
-}
\ No newline at end of file
+}
@@ -20,6 +20,59 @@ export enum QueryApprovalStatus {
   AUTO_APPROVED = 'AUTO_APPROVED',
 }
 
+// Requester attribute a row policy compares a field with
+export enum RowPolicySubject {
+  USER_ID = 'userId',
+  ORGANIZATION_ID = 'organizationId',
+}
+
+// Row-level policy of a model in a schema map: agent queries only see rows where
+// `field` equals the requester's attribute. The field may be a path through to-one
+// relations, e.g. `user.organizationId`
+export interface RowPolicy {
+  field: string;
+  equals: RowPolicySubject | `${RowPolicySubject}`;
+}
+
+// The requester on whose behalf an agent query runs
+export interface QueryRequester {
+  userId: string;
+  organizationId?: string | null;
+}
+
+// Classification of a field in a schema map; classified fields are redacted from
+// agent query results, public fields never are
+export enum FieldClassification {
+  SECRET = 'secret',
+  PII = 'pii',
+  FINANCIAL = 'financial',
+  PUBLIC = 'public',
+}
+
+// How a redacted field value is masked
+export enum MaskingStrategy {
+  DROP = 'drop', // Remove the field
+  HASH = 'hash', // Replace the value with a hash, so equal values still compare equal
+  PARTIAL = 'partial', // Show only the last characters, e.g. ****1234
+}
+
+// Classification of a field in the `fieldClassifications` of a model in a schema map,
+// either the classification alone or with the strategy to mask it with
+export type FieldClassificationRule =
+  | FieldClassification
+  | `${FieldClassification}`
+  | { classification: FieldClassification | `${FieldClassification}`; strategy?: MaskingStrategy | `${MaskingStrategy}` };
+
+// A field redacted from a query result; paths leave out array indices
+export interface RedactionRecord {
+  path: string;
+  model: string;
+  field: string;
+  classification: FieldClassification;
+  strategy: MaskingStrategy;
+  count: number; // Number of values redacted at the path
+}
+
 // Schema map entity
 export interface SchemaMap {
   id: string;
@@ -28,7 +81,7 @@ export interface SchemaMap {
   name: string;
   description?: string;
   version: string;
-  schema: Record<string, any>; // JSON schema map of allowed tables and fields
+  schema: Record<string, any>; // JSON schema map of allowed tables and fields, with optional rowPolicies and fieldClassifications per model
   isActive: boolean;
   createdById: string;
   organizationId?: string;
@@ -72,6 +125,42 @@ export interface AgentQueryRequest {
   queryLogId?: string; // Reference to the query log
 }
 
+// A field changed by an agent write
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+// Before and after state of the row an agent write changes; before is null for created
+// rows and after is null for deleted rows
+export interface WriteDiff {
+  model: string;
+  action: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  changes: FieldChange[];
+}
+
+// Status of the rollback recorded for an agent write
+export enum QueryRollbackStatus {
+  PENDING = 'PENDING', // The write can be reverted
+  EXECUTED = 'EXECUTED', // The write was reverted
+  FAILED = 'FAILED',
+}
+
+// Audit record of the fields redacted from the result of an agent query request
+export interface QueryRedactionAudit {
+  id: string;
+  createdAt: Date;
+  queryRequestId: string;
+  agentId: string;
+  userId: string;
+  targetModel: string;
+  redactedCount: number; // Total number of values redacted
+  redactions: RedactionRecord[];
+}
+
 // Query template entity
 export interface QueryTemplate {
   id: string;
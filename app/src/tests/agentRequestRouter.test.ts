@@ -0,0 +1,117 @@
+/**
+ * Agent Request Router Tests
+ *
+ * This file contains unit tests for the agent request router, which records the tokens
+ * of every inference to the user's token usage, including streams that are aborted.
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { routeRequest } from '../ai-services/agentRequestRouter';
+import { LLMGateway } from '../ai-services/gateway';
+import { trackTokenBudget } from '../ai-services/inferenceMetrics';
+
+vi.mock('wasp/server', () => ({
+  HttpError: class HttpError extends Error {
+    statusCode: number;
+
+    constructor(statusCode: number, message: string) {
+      super(message);
+      this.statusCode = statusCode;
+    }
+  },
+}));
+
+vi.mock('../ai-services/gateway', () => ({
+  LLMGateway: {
+    isProviderAllowed: vi.fn(),
+    resolveRoute: vi.fn(),
+    complete: vi.fn(),
+    stream: vi.fn(),
+  },
+  llmProviders: {
+    get: vi.fn(() => ({ models: { fast: 'mock-fast', standard: 'mock-standard', premium: 'mock-premium' } })),
+  },
+  toChatCompletion: vi.fn((completion: any) => completion),
+  toChatCompletionChunks: vi.fn((chunks: any) => chunks),
+}));
+
+vi.mock('../ai-services/groq', () => ({
+  groqInference: vi.fn(),
+}));
+
+vi.mock('../ai-services/gemini', () => ({
+  geminiInference: vi.fn(),
+}));
+
+vi.mock('../ai-services/trackedGroqInference', () => ({
+  trackedGroqInference: vi.fn(),
+}));
+
+vi.mock('../ai-services/tokenQuotas', () => ({
+  enforceTokenQuota: vi.fn(),
+}));
+
+vi.mock('../ai-services/inferenceMetrics', () => ({
+  trackTokenBudget: vi.fn(),
+}));
+
+vi.mock('../shared/services/logging', () => ({
+  LoggingService: {
+    logSystemEvent: vi.fn(),
+  },
+}));
+
+const routerOptions = {
+  module: 'athena',
+  requestType: 'chat' as const,
+  userId: 'user-1',
+  useCache: false,
+  useSemanticCache: false,
+};
+
+async function* chunks(contents: string[]) {
+  for (const content of contents) {
+    yield { choices: [{ delta: { content }, finish_reason: null }] };
+  }
+}
+
+describe('routeRequest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (LLMGateway.resolveRoute as Mock).mockResolvedValue({ provider: 'openai', model: 'gpt-test', source: 'module' });
+  });
+
+  it('should record the usage reported for completed requests', async () => {
+    const completion = {
+      choices: [{ message: { role: 'assistant', content: 'Hello' } }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    };
+    (LLMGateway.complete as Mock).mockResolvedValue(completion);
+
+    await expect(routeRequest({ prompt: 'Hi' } as any, routerOptions, {})).resolves.toBe(completion);
+
+    expect(trackTokenBudget).toHaveBeenCalledWith('user-1', 12, 3, 'chat');
+  });
+
+  it('should record the output of aborted streams', async () => {
+    (LLMGateway.stream as Mock).mockReturnValue(chunks(['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)]));
+
+    const stream: any = await routeRequest({ prompt: 'a'.repeat(16), stream: true } as any, routerOptions, {});
+
+    for await (const _chunk of stream) {
+      // The client disconnects after the first chunk
+      break;
+    }
+
+    expect(trackTokenBudget).toHaveBeenCalledTimes(1);
+    expect(trackTokenBudget).toHaveBeenCalledWith('user-1', 4, 10, 'chat');
+  });
+
+  it('should not record requests without a user', async () => {
+    (LLMGateway.complete as Mock).mockResolvedValue({ choices: [{ message: { content: 'Hello' } }] });
+
+    await routeRequest({ prompt: 'Hi' } as any, { ...routerOptions, userId: undefined }, {});
+
+    expect(trackTokenBudget).not.toHaveBeenCalled();
+  });
+});
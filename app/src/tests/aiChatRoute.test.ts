@@ -0,0 +1,101 @@
+/**
+ * AI Chat Route Tests
+ *
+ * This file contains unit tests for the AI chat route, which streams chat completions
+ * as server-sent events and scores the streamed text for safety.
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { routeRequest } from '../ai-services/agentRequestRouter';
+import { SafetyScoringService } from '../ai-services/safetyScoringService';
+import { streamAiChat } from '../api/routes/ai/chat';
+
+vi.mock('wasp/server/api', () => ({}));
+
+vi.mock('../api/middleware/rbac', () => ({
+  requirePermission: vi.fn(() => async () => ({ id: 'user-1' })),
+}));
+
+vi.mock('../ai-services/agentRequestRouter', () => ({
+  routeRequest: vi.fn(),
+}));
+
+vi.mock('../ai-services/safetyScoringService', () => ({
+  SafetyScoringService: {
+    scoreContent: vi.fn(),
+  },
+}));
+
+vi.mock('../shared/services/logging', () => ({
+  LoggingService: {
+    logSystemEvent: vi.fn(),
+  },
+}));
+
+const createResponse = () => {
+  const response: any = {
+    writableEnded: false,
+    writableFinished: false,
+    events: [] as string[],
+    on: vi.fn(),
+    status: vi.fn(() => response),
+    setHeader: vi.fn(),
+    flushHeaders: vi.fn(),
+    json: vi.fn(),
+    write: vi.fn((event: string) => response.events.push(event)),
+    end: vi.fn(() => {
+      response.writableEnded = true;
+      response.writableFinished = true;
+    }),
+  };
+  return response;
+};
+
+// A model stream of 100-character chunks
+async function* chunks(count: number, signal: AbortSignal) {
+  for (let i = 0; i < count; i++) {
+    if (signal.aborted) return;
+    yield { choices: [{ delta: { content: String(i).padEnd(100, '.') }, finish_reason: null }] };
+    // Let background safety checks finish between chunks
+    await new Promise(resolve => setTimeout(resolve, 1));
+  }
+}
+
+const stream = async (count: number) => {
+  (routeRequest as Mock).mockImplementation(async (_input: any, options: any) => chunks(count, options.signal));
+  const response = createResponse();
+
+  await streamAiChat({ body: { prompt: 'Hello' } } as any, response, { user: { id: 'user-1' } } as any);
+
+  const deltas = response.events.filter((event: string) => event.startsWith('data:'));
+  const done = response.events.find((event: string) => event.startsWith('event: done'));
+  return { response, deltas, done: done && JSON.parse(done.split('data: ')[1]) };
+};
+
+describe('streamAiChat', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should score the text while it streams', async () => {
+    (SafetyScoringService.scoreContent as Mock).mockResolvedValue({ moderationDecision: 'allow', overallScore: 0.95 });
+
+    const { deltas, done } = await stream(12);
+
+    expect(deltas).toHaveLength(12);
+    expect(done).toMatchObject({ moderation: { decision: 'allow', score: 0.95 } });
+    // Two checks during the stream and one of the complete text
+    expect(SafetyScoringService.scoreContent).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop blocked responses', async () => {
+    (SafetyScoringService.scoreContent as Mock).mockResolvedValue({ moderationDecision: 'block', overallScore: 0.1 });
+
+    const { response, deltas, done } = await stream(50);
+
+    expect(deltas.length).toBeLessThan(50);
+    expect(done).toEqual({ finishReason: 'content_filter', moderation: { decision: 'block', score: 0.1 } });
+    expect(response.end).toHaveBeenCalledTimes(1);
+    expect(SafetyScoringService.scoreContent).toHaveBeenCalledTimes(1);
+  });
+});
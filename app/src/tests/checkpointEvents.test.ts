@@ -0,0 +1,75 @@
+/**
+ * Checkpoint Events Tests
+ *
+ * This file contains unit tests for the Sentient Loop checkpoint event bus, which agent
+ * waiters listen on for checkpoint resolutions.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
+import { prisma } from 'wasp/server';
+import {
+  publishCheckpointEvent,
+  waitForCheckpointEvent
+} from '../modules/arcana/shared/services/sentientLoop/checkpointEvents';
+
+vi.mock('wasp/server', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../modules/arcana/shared/services/logging', () => ({
+  LoggingService: {
+    error: vi.fn(),
+  },
+}));
+
+const checkpoint = { id: 'checkpoint-1', userId: 'user-1', moduleId: 'arcana', status: 'APPROVED', title: 'Send invoice' };
+
+describe('waitForCheckpointEvent', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    (prisma.user.findUnique as Mock).mockResolvedValue({ organizationId: 'org-1' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve with the matching event and stop listening', async () => {
+    const predicate = vi.fn((event: any) => event.status !== 'PENDING');
+    const wait = waitForCheckpointEvent('checkpoint-1', predicate, 30000);
+
+    await publishCheckpointEvent('checkpoint.resolved', { ...checkpoint, id: 'checkpoint-2' });
+    await publishCheckpointEvent('checkpoint.resolved', checkpoint);
+
+    await expect(wait.event).resolves.toMatchObject({ checkpointId: 'checkpoint-1', status: 'APPROVED' });
+    expect(vi.getTimerCount()).toBe(0);
+
+    await publishCheckpointEvent('checkpoint.resolved', checkpoint);
+    expect(predicate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve with null when the timeout elapses', async () => {
+    const wait = waitForCheckpointEvent('checkpoint-1', () => true, 30000);
+
+    vi.advanceTimersByTime(30000);
+
+    await expect(wait.event).resolves.toBeNull();
+  });
+
+  it('should remove the listener and timer of cancelled waits', async () => {
+    const predicate = vi.fn(() => true);
+    const wait = waitForCheckpointEvent('checkpoint-1', predicate, 30000);
+
+    wait.cancel();
+
+    await expect(wait.event).resolves.toBeNull();
+    expect(vi.getTimerCount()).toBe(0);
+
+    await publishCheckpointEvent('checkpoint.resolved', checkpoint);
+    expect(predicate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Data Subject Service Tests
+ *
+ * This file contains unit tests for the DataSubjectService, which confirms erasure
+ * requests with the verification code emailed to the data subject.
+ */
+
+import { createHash } from 'crypto';
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { prisma } from 'wasp/server';
+import { DataSubjectService } from '../modules/user/services/dataSubjectService';
+import { LoggingService } from '../shared/services/logging';
+
+// Mock the prisma client
+vi.mock('wasp/server', () => ({
+  prisma: {
+    dataSubjectRequest: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+  HttpError: class HttpError extends Error {
+    statusCode: number;
+
+    constructor(statusCode: number, message: string) {
+      super(message);
+      this.statusCode = statusCode;
+    }
+  },
+}));
+
+vi.mock('wasp/server/email', () => ({
+  emailSender: {
+    send: vi.fn(),
+  },
+}));
+
+vi.mock('@prisma/client', () => ({
+  Prisma: {},
+}));
+
+vi.mock('../shared/services/logging', () => ({
+  LoggingService: {
+    logSystemEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../modules/memory/services/memoryService', () => ({
+  MemoryService: {
+    forget: vi.fn(),
+  },
+}));
+
+const pendingRequest = (overrides: Record<string, any> = {}) => ({
+  id: 'request-1',
+  userId: 'user-1',
+  agentId: null,
+  requestedById: 'user-1',
+  type: 'ERASURE',
+  status: 'PENDING_VERIFICATION',
+  verificationCodeHash: createHash('sha256').update('123456').digest('hex'),
+  verificationExpiresAt: new Date(Date.now() + 60 * 1000),
+  verificationAttempts: 0,
+  ...overrides,
+});
+
+describe('DataSubjectService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.dataSubjectRequest.updateMany as Mock).mockResolvedValue({ count: 1 });
+  });
+
+  describe('confirmErasure', () => {
+    it('should count a wrong code and keep the request open', async () => {
+      (prisma.dataSubjectRequest.findUnique as Mock).mockResolvedValue(pendingRequest({ verificationAttempts: 1 }));
+
+      await expect(
+        DataSubjectService.confirmErasure({ requestId: 'request-1', code: '000000', userId: 'user-1' })
+      ).rejects.toMatchObject({ statusCode: 400 });
+
+      expect(prisma.dataSubjectRequest.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'request-1',
+          status: 'PENDING_VERIFICATION',
+          verificationAttempts: { lt: 5 },
+        },
+        data: { verificationAttempts: { increment: 1 } },
+      });
+      expect(prisma.dataSubjectRequest.update).not.toHaveBeenCalled();
+      expect(LoggingService.logSystemEvent).toHaveBeenCalledWith(expect.objectContaining({
+        metadata: expect.objectContaining({ attempts: 2, cancelled: false }),
+      }));
+    });
+
+    it('should cancel the request after the last allowed wrong code', async () => {
+      (prisma.dataSubjectRequest.findUnique as Mock).mockResolvedValue(pendingRequest({ verificationAttempts: 4 }));
+
+      await expect(
+        DataSubjectService.confirmErasure({ requestId: 'request-1', code: '000000', userId: 'user-1' })
+      ).rejects.toMatchObject({ statusCode: 429 });
+
+      expect(prisma.dataSubjectRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request-1' },
+        data: { status: 'CANCELLED', verificationCodeHash: null },
+      });
+    });
+
+    it('should reject codes once the attempts are used up', async () => {
+      (prisma.dataSubjectRequest.findUnique as Mock).mockResolvedValue(pendingRequest({ verificationAttempts: 5 }));
+      (prisma.dataSubjectRequest.updateMany as Mock).mockResolvedValue({ count: 0 });
+
+      await expect(
+        DataSubjectService.confirmErasure({ requestId: 'request-1', code: '123456', userId: 'user-1' })
+      ).rejects.toMatchObject({ statusCode: 409 });
+
+      expect(prisma.dataSubjectRequest.update).not.toHaveBeenCalled();
+    });
+
+    it('should run the erasure for the right code', async () => {
+      (prisma.dataSubjectRequest.findUnique as Mock).mockResolvedValue(pendingRequest({ verificationAttempts: 2 }));
+      const executeErasure = vi.spyOn(DataSubjectService, 'executeErasure').mockResolvedValue({ id: 'request-1' } as any);
+
+      await DataSubjectService.confirmErasure({ requestId: 'request-1', code: ' 123456 ', userId: 'user-1' });
+
+      expect(prisma.dataSubjectRequest.update).toHaveBeenCalledWith({
+        where: { id: 'request-1' },
+        data: expect.objectContaining({ status: 'PROCESSING', verificationCodeHash: null }),
+      });
+      expect(executeErasure).toHaveBeenCalledWith('request-1');
+    });
+  });
+});
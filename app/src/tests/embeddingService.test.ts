@@ -0,0 +1,67 @@
+/**
+ * Embedding Service Tests
+ *
+ * This file contains unit tests for the memory embedding service, which embeds texts
+ * with the active embedding provider and tracks the provider calls.
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { trackedGroqInference } from '../ai-services/trackedGroqInference';
+import { createEmbeddingProviderFromEnv, LocalHashingEmbeddingProvider } from '../modules/memory/services/embeddingProviders';
+import { generateEmbedding, generateEmbeddings, setEmbeddingProvider } from '../modules/memory/services/embeddingService';
+
+// Tracked calls run the inference they are given
+vi.mock('../ai-services/trackedGroqInference', () => ({
+  trackedGroqInference: vi.fn((options: any, context: any, inference: (options: any) => Promise<any>) =>
+    inference(options)
+  ),
+}));
+
+vi.mock('../shared/logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+describe('embeddingService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setEmbeddingProvider(new LocalHashingEmbeddingProvider({ dimensions: 8 }));
+  });
+
+  describe('generateEmbeddings', () => {
+    it('should return every embedding of batches larger than the cache', async () => {
+      const texts = Array.from({ length: 5001 }, (_, i) => `memory ${i}`);
+
+      const embeddings = await generateEmbeddings(texts);
+
+      expect(embeddings).toHaveLength(texts.length);
+      expect(embeddings.every(embedding => embedding?.length === 8)).toBe(true);
+    });
+  });
+
+  describe('generateEmbedding', () => {
+    it('should track provider calls and serve repeated texts from the cache', async () => {
+      const embedding = await generateEmbedding({ text: 'the  launch date', userId: 'user-1' });
+      const repeated = await generateEmbedding({ text: 'the launch date', userId: 'user-1' });
+
+      expect(repeated).toEqual(embedding);
+      expect(trackedGroqInference).toHaveBeenCalledTimes(1);
+      expect((trackedGroqInference as Mock).mock.calls[0][0]).toMatchObject({
+        prompt: 'the launch date',
+        model: 'local:hashing-8',
+        userId: 'user-1',
+        module: 'memory',
+      });
+    });
+  });
+
+  describe('createEmbeddingProviderFromEnv', () => {
+    it('should only switch providers through MEMORY_EMBEDDING_PROVIDER', () => {
+      expect(createEmbeddingProviderFromEnv({ OPENAI_API_KEY: 'sk-test' }).id).toBe('groq:llama3-embedding-v1');
+      expect(
+        createEmbeddingProviderFromEnv({ OPENAI_API_KEY: 'sk-test', MEMORY_EMBEDDING_PROVIDER: 'openai' }).id
+      ).toBe('openai:text-embedding-3-small');
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * LangGraph Scheduler Tests
+ *
+ * This file contains unit tests for the LangGraph scheduler, which runs graph
+ * branches concurrently and synchronizes them at join nodes, and for resuming
+ * persisted runs that stopped between the branches of a join or inside a cycle.
+ */
+
+import { describe, it, expect, vi, Mock } from 'vitest';
+import { prisma } from 'wasp/server';
+import { runScheduledGraph, SchedulerEdge, SchedulerNode } from '../modules/forgeflow/langGraph/scheduler';
+import { registerResumableGraph, resumeGraph } from '../modules/forgeflow/langGraph';
+import {
+  createCheckpointer,
+  getNodeExecutions,
+  recordNodeExecution,
+  updateNodeExecution
+} from '../modules/forgeflow/langGraph/persistence';
+
+// Mock the prisma client and the persistence of graph runs
+vi.mock('wasp/server', () => ({
+  prisma: {
+    langGraphState: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../modules/forgeflow/langGraph/persistence', () => ({
+  GRAPH_STATE_STATUS: { ACTIVE: 'active', COMPLETED: 'completed', FAILED: 'failed' },
+  createCheckpointer: vi.fn(() => ({
+    attach: vi.fn(),
+    persist: vi.fn(),
+    startHeartbeat: () => () => undefined,
+    getStateId: () => null,
+    getGraphId: () => 'graph-1',
+  })),
+  recordNodeExecution: vi.fn(),
+  updateNodeExecution: vi.fn(),
+  getNodeExecutions: vi.fn(),
+  markInterruptedNodeExecutions: vi.fn(),
+}));
+
+vi.mock('../shared/services/logging', () => ({
+  LoggingService: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('../ai-services/groq', () => ({
+  groqInference: vi.fn(),
+}));
+
+type State = { results: string[] };
+
+const nodes: SchedulerNode[] = [
+  { id: 'start' },
+  { id: 'left' },
+  { id: 'right' },
+  { id: 'combine', join: true, reducers: { results: 'append' } },
+];
+
+const edges: SchedulerEdge<State>[] = [
+  { source: 'start', target: 'left' },
+  { source: 'start', target: 'right' },
+  { source: 'left', target: 'combine' },
+  { source: 'right', target: 'combine' },
+];
+
+const runNode = (order: string[]) =>
+  vi.fn(async (nodeId: string, input: State) => {
+    order.push(nodeId);
+    return { results: [...input.results, nodeId] };
+  });
+
+describe('runScheduledGraph', () => {
+  it('should run a join once all its branches have completed', async () => {
+    const order: string[] = [];
+
+    const result = await runScheduledGraph(nodes, edges, { results: [] }, {
+      initialQueue: ['start'],
+      runNode: runNode(order),
+    });
+
+    expect(order.indexOf('combine')).toBe(3);
+    expect(result.state.results).toEqual(expect.arrayContaining(['start', 'left', 'right', 'combine']));
+  });
+
+  it('should wait for the remaining branches of a resumed join', async () => {
+    const order: string[] = [];
+
+    const result = await runScheduledGraph(nodes, edges, { results: ['start', 'left'] }, {
+      initialQueue: ['right'],
+      visitedNodes: new Set(['start', 'left']),
+      joinInputs: new Map([['combine', new Set(['left'])]]),
+      runNode: runNode(order),
+    });
+
+    expect(order).toEqual(['right', 'combine']);
+    expect(result.state.results).toEqual(['start', 'left', 'right', 'combine']);
+  });
+
+  it('should continue cycles with the iterations they already used', async () => {
+    const loopEdges: SchedulerEdge<State>[] = [
+      { source: 'start', target: 'left' },
+      { source: 'left', target: 'right' },
+      { source: 'right', target: 'left', maxIterations: 2 },
+    ];
+    const loopNodes = nodes.filter(node => !node.join);
+    const order: string[] = [];
+    const onStateMerged = vi.fn(async () => undefined);
+
+    await runScheduledGraph(loopNodes, loopEdges, { results: [] }, {
+      initialQueue: ['left'],
+      visitedNodes: new Set(['start']),
+      edgeIterations: { 'right->left': 1 },
+      runNode: runNode(order),
+      onStateMerged,
+    });
+
+    expect(order).toEqual(['left', 'right', 'left', 'right']);
+    expect(onStateMerged).toHaveBeenNthCalledWith(2, expect.anything(), 'right', {
+      visitedNodes: ['start'],
+      edgeIterations: { 'right->left': 2 },
+    });
+  });
+});
+
+describe('resumeGraph', () => {
+  it('should only run a join once its remaining branches have completed', async () => {
+    const events: string[] = [];
+    const track = (nodeId: string) => async (state: State) => {
+      events.push(`${nodeId}:start`);
+      // Let other ready nodes start before this one finishes
+      await new Promise(resolve => setTimeout(resolve, 5));
+      events.push(`${nodeId}:end`);
+      return { results: [...state.results, nodeId] };
+    };
+
+    registerResumableGraph<State>('join-test', state => ({
+      nodes: nodes.map(node => ({ ...node, type: 'test', execute: track(node.id) })),
+      edges,
+      initialState: state,
+    }));
+    (prisma.langGraphState.findUnique as Mock).mockResolvedValue({
+      id: 'state-1',
+      graphId: 'graph-1',
+      status: 'active',
+      state: { results: ['start', 'left'] },
+      metadata: { resumeKey: 'join-test' },
+    });
+    (getNodeExecutions as Mock).mockResolvedValue([
+      { nodeId: 'start', status: 'completed' },
+      { nodeId: 'left', status: 'completed' },
+    ]);
+
+    const state = await resumeGraph<State>('state-1');
+
+    expect(events).toEqual(['right:start', 'right:end', 'combine:start', 'combine:end']);
+    expect(state.results).toEqual(['start', 'left', 'right', 'combine']);
+  });
+
+  it('should complete node executions with the checkpoint of the merged state', async () => {
+    const checkpointNode = vi.fn();
+    (createCheckpointer as Mock).mockReturnValueOnce({
+      attach: vi.fn(),
+      persist: vi.fn(),
+      checkpointNode,
+      startHeartbeat: () => () => undefined,
+      getStateId: () => 'state-1',
+      getGraphId: () => 'graph-1',
+    });
+    (recordNodeExecution as Mock).mockImplementation(async (_stateId: string, nodeId: string) => `execution-${nodeId}`);
+
+    registerResumableGraph<State>('loop-test', state => ({
+      nodes: ['start', 'left', 'right'].map(id => ({
+        id,
+        type: 'test',
+        execute: async (input: State) => ({ results: [...input.results, id] }),
+      })),
+      edges: [
+        { source: 'start', target: 'left' },
+        { source: 'left', target: 'right' },
+        { source: 'right', target: 'left', maxIterations: 1 },
+      ],
+      initialState: state,
+    }));
+    (prisma.langGraphState.findUnique as Mock).mockResolvedValue({
+      id: 'state-1',
+      graphId: 'graph-1',
+      status: 'active',
+      state: { results: ['start', 'left', 'right'] },
+      metadata: {
+        resumeKey: 'loop-test',
+        progress: { visitedNodes: ['start'], edgeIterations: { 'right->left': 1 } },
+      },
+    });
+
+    const state = await resumeGraph<State>('state-1');
+
+    // The loop already used its iteration before the restart
+    expect(state.results).toEqual(['start', 'left', 'right', 'left', 'right']);
+    expect(checkpointNode).toHaveBeenCalledTimes(2);
+    expect(checkpointNode).toHaveBeenLastCalledWith(
+      { results: ['start', 'left', 'right', 'left', 'right'] },
+      { visitedNodes: ['start', 'left', 'right'], edgeIterations: { 'right->left': 1 } },
+      'execution-right',
+      { results: ['start', 'left', 'right', 'left', 'right'] }
+    );
+    expect(updateNodeExecution).not.toHaveBeenCalled();
+  });
+});
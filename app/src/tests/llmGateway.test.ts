@@ -0,0 +1,84 @@
+/**
+ * LLM Gateway Tests
+ *
+ * This file contains unit tests for the routing of the LLMGateway, which decides
+ * the provider serving each request and checks provider overrides from callers.
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { prisma } from 'wasp/server';
+import { LLMGateway } from '../ai-services/gateway/gateway';
+import { createLLMProviderRegistryFromEnv, llmProviders } from '../ai-services/gateway/registry';
+import { MockLLMProvider } from '../ai-services/gateway/providers';
+
+// Mock the prisma client used to read module routing configs
+vi.mock('wasp/server', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+    },
+    moduleConfig: {
+      findFirst: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../shared/services/logging', () => ({
+  LoggingService: {
+    logSystemEvent: vi.fn(),
+  },
+}));
+
+describe('LLMGateway', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    LLMGateway.clearRoutingCache();
+    (prisma.user.findUnique as Mock).mockResolvedValue(null);
+    (prisma.moduleConfig.findFirst as Mock).mockResolvedValue(null);
+    llmProviders.unregister('mock');
+  });
+
+  describe('createLLMProviderRegistryFromEnv', () => {
+    it('should only register the mock provider in tests', () => {
+      expect(createLLMProviderRegistryFromEnv({ NODE_ENV: 'production' }).has('mock')).toBe(false);
+      expect(createLLMProviderRegistryFromEnv({ NODE_ENV: 'test' }).has('mock')).toBe(true);
+    });
+  });
+
+  describe('resolveRoute', () => {
+    it('should use a registered provider requested by the caller', async () => {
+      const route = await LLMGateway.resolveRoute('arcana', { provider: 'groq', model: 'llama3-8b-8192' });
+
+      expect(route).toEqual({ provider: 'groq', model: 'llama3-8b-8192', fallbacks: [], source: 'request' });
+    });
+
+    it('should reject a provider that is not registered', async () => {
+      await expect(LLMGateway.resolveRoute('arcana', { provider: 'mock' })).rejects.toMatchObject({
+        name: 'LLMGatewayError',
+        status: 400,
+      });
+    });
+
+    it('should reject a provider the module does not route to', async () => {
+      llmProviders.register(new MockLLMProvider());
+      (prisma.moduleConfig.findFirst as Mock).mockResolvedValue({
+        config: { rules: [{ requestType: 'chat', provider: 'groq' }] },
+      });
+
+      await expect(LLMGateway.resolveRoute('arcana', { provider: 'mock' })).rejects.toMatchObject({ status: 400 });
+      await expect(LLMGateway.isProviderAllowed('arcana', 'groq')).resolves.toBe(true);
+    });
+
+    it('should allow the providers listed by the module', async () => {
+      llmProviders.register(new MockLLMProvider());
+      (prisma.moduleConfig.findFirst as Mock).mockResolvedValue({
+        config: { provider: 'groq', allowedProviders: ['groq', 'mock'] },
+      });
+
+      const route = await LLMGateway.resolveRoute('arcana', { provider: 'mock' });
+
+      expect(route.provider).toBe('mock');
+      expect(route.source).toBe('request');
+    });
+  });
+});
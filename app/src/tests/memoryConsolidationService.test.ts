@@ -0,0 +1,102 @@
+/**
+ * Memory Consolidation Service Tests
+ *
+ * This file contains unit tests for the memory consolidation service, which clusters
+ * short-term agent memories and summarizes each cluster into a long-term memory.
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { prisma } from '../../prisma/client';
+import { storeMemory } from '../modules/memory/services/memoryManager';
+import { consolidateAgentMemories } from '../modules/memory/services/memoryConsolidationService';
+
+// Mock the prisma client
+vi.mock('../../prisma/client', () => ({
+  prisma: {
+    aI_Agent: {
+      findUnique: vi.fn(),
+    },
+    interactionMemory: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@prisma/client', () => ({
+  Prisma: {},
+}));
+
+vi.mock('../modules/memory/services/memoryManager', () => ({
+  storeMemory: vi.fn(),
+}));
+
+vi.mock('../modules/memory/services/embeddingService', () => ({
+  getEmbeddingProvider: vi.fn(() => ({ id: 'test-embedding' })),
+  prepareTextForEmbedding: vi.fn((content: any) => content.text),
+}));
+
+vi.mock('../modules/memory/services/vectorStore', () => ({
+  SCOPE_CONTENT_TYPES: {},
+}));
+
+vi.mock('../ai-services/gateway', () => ({
+  LLMGateway: {
+    complete: vi.fn(async () => ({ content: 'Summary' })),
+  },
+}));
+
+vi.mock('../shared/logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const memory = (id: string, embedding: number[], minutesAgo: number) => ({
+  id,
+  type: 'fact',
+  content: { text: `Memory ${id}` },
+  importance: 0.5,
+  createdAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+  embedding,
+});
+
+describe('consolidateAgentMemories', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.aI_Agent.findUnique as Mock).mockResolvedValue(null);
+    (storeMemory as Mock).mockResolvedValue({ id: 'summary-1' });
+  });
+
+  it('should read memories that were never clustered first', async () => {
+    (prisma.interactionMemory.findMany as Mock).mockResolvedValue([]);
+
+    await consolidateAgentMemories('user-1', 'agent-1');
+
+    expect((prisma.interactionMemory.findMany as Mock).mock.calls[0][0].orderBy).toEqual([
+      { clusterCheckedAt: { sort: 'asc', nulls: 'first' } },
+      { createdAt: 'asc' },
+    ]);
+  });
+
+  it('should mark memories left in small clusters as checked', async () => {
+    (prisma.interactionMemory.findMany as Mock).mockResolvedValue([
+      memory('memory-1', [1, 0], 300),
+      memory('memory-2', [1, 0.1], 240),
+      memory('memory-3', [0.9, 0], 180),
+      memory('memory-4', [0, 1], 120),
+    ]);
+
+    const result = await consolidateAgentMemories('user-1', 'agent-1');
+
+    expect(result).toEqual({ clusters: 1, memories: 3 });
+    expect(prisma.interactionMemory.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['memory-1', 'memory-2', 'memory-3'] } },
+      data: { consolidatedIntoId: 'summary-1' },
+    });
+    expect(prisma.interactionMemory.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['memory-4'] } },
+      data: { clusterCheckedAt: expect.any(Date) },
+    });
+  });
+});
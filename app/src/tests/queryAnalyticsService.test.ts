@@ -0,0 +1,87 @@
+/**
+ * Query Analytics Service Tests
+ *
+ * This file contains unit tests for the QueryAnalyticsService cost estimates, which
+ * translate Prisma queries to SQL and explain them.
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { prisma } from 'wasp/server';
+import { QueryAnalyticsService } from '../server/services/queryAnalyticsService';
+
+vi.mock('wasp/server', () => ({
+  prisma: {
+    $queryRawUnsafe: vi.fn(),
+  },
+}));
+
+// Mock the Prisma schema of the explained model
+vi.mock('@prisma/client', () => ({
+  Prisma: {
+    dmmf: {
+      datamodel: {
+        models: [
+          {
+            name: 'AgentLog',
+            fields: [
+              { name: 'id', kind: 'scalar', type: 'String' },
+              { name: 'level', kind: 'scalar', type: 'String' },
+              { name: 'tags', kind: 'scalar', type: 'String', isList: true },
+              { name: 'duration', kind: 'scalar', type: 'Int' },
+            ],
+          },
+        ],
+      },
+    },
+  },
+  QueryStatus: {},
+}));
+
+vi.mock('../shared/services/logging', () => ({
+  LoggingService: {
+    error: vi.fn(),
+  },
+}));
+
+const explain = () => (prisma.$queryRawUnsafe as Mock).mock.calls[0];
+
+describe('QueryAnalyticsService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.$queryRawUnsafe as Mock).mockResolvedValue([
+      { 'QUERY PLAN': [{ Plan: { 'Total Cost': 42.5, 'Plan Rows': 10 } }] },
+    ]);
+  });
+
+  describe('estimateQueryCost', () => {
+    it('should return the cost of the query plan', async () => {
+      const estimate = await QueryAnalyticsService.estimateQueryCost('AgentLog', 'findMany', { take: 5 });
+
+      expect(estimate).toMatchObject({ totalCost: 42.5, estimatedRows: 10 });
+      expect(explain()).toEqual(['EXPLAIN (FORMAT JSON) SELECT * FROM "AgentLog" LIMIT 5']);
+    });
+
+    it('should not keep the parameters of left out conditions', async () => {
+      await QueryAnalyticsService.estimateQueryCost('AgentLog', 'count', {
+        where: {
+          OR: [{ level: 'ERROR' }, { tags: { has: 'slow' } }],
+          AND: [{ duration: { gt: 100, has: 1 } }, { level: { not: 'DEBUG' } }],
+          id: 'log-1',
+        },
+      });
+
+      expect(explain()).toEqual([
+        'EXPLAIN (FORMAT JSON) SELECT COUNT(*) FROM "AgentLog" WHERE (NOT ("level" = $1::text)) AND "id" = $2::text',
+        'DEBUG',
+        'log-1',
+      ]);
+    });
+
+    it('should return null when the query cannot be explained', async () => {
+      (prisma.$queryRawUnsafe as Mock).mockResolvedValue([]);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(QueryAnalyticsService.estimateQueryCost('AgentLog', 'findMany', {})).resolves.toBeNull();
+    });
+  });
+});
@@ -9,11 +9,14 @@ import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
 import { prisma } from 'wasp/server';
 import { QuerySandboxService } from '../server/services/querySandboxService';
 import { LoggingService } from '../shared/services/logging';
+import { QueryAnalyticsService } from '../server/services/queryAnalyticsService';
+import { QueryPerformanceService } from '../server/services/queryPerformanceService';
+import { QueryWriteService } from '../server/services/queryWriteService';
 import { QueryApprovalStatus } from '../shared/types/entities/agentQuery';
 
-// Mock the prisma client
-vi.mock('wasp/server', () => ({
-  prisma: {
+// Mock the prisma client; queries run in transactions on the same mock
+vi.mock('wasp/server', () => {
+  const prisma: any = {
     agentQueryPermission: {
       findMany: vi.fn(),
     },
@@ -28,19 +31,77 @@ vi.mock('wasp/server', () => ({
     queryPerformanceMetric: {
       upsert: vi.fn(),
     },
+    queryRedactionAudit: {
+      create: vi.fn(),
+    },
     user: {
       findUnique: vi.fn(),
     },
     raw: {
       // Mock for prisma.raw
     },
+    $executeRawUnsafe: vi.fn(),
+  };
+  prisma.$transaction = vi.fn((callback: (tx: any) => Promise<any>) => callback(prisma));
+
+  return {
+    prisma,
+    HttpError: class HttpError extends Error {
+      statusCode: number;
+      constructor(statusCode: number, message: string) {
+        super(message);
+        this.statusCode = statusCode;
+      }
+    },
+  };
+});
+
+// Mock the Prisma schema the query arguments are validated against
+vi.mock('@prisma/client', () => ({
+  Prisma: {
+    dmmf: {
+      datamodel: {
+        models: [
+          {
+            name: 'User',
+            fields: [
+              { name: 'id', kind: 'scalar', type: 'String', isList: false, isRequired: true },
+              { name: 'email', kind: 'scalar', type: 'String', isList: false, isRequired: true },
+              { name: 'name', kind: 'scalar', type: 'String', isList: false, isRequired: false },
+              { name: 'isActive', kind: 'scalar', type: 'Boolean', isList: false, isRequired: true },
+              { name: 'password', kind: 'scalar', type: 'String', isList: false, isRequired: false },
+              { name: 'agentLogs', kind: 'object', type: 'AgentLog', isList: true, isRequired: false },
+            ],
+          },
+          {
+            name: 'AgentLog',
+            fields: [
+              { name: 'id', kind: 'scalar', type: 'String', isList: false, isRequired: true },
+              { name: 'createdAt', kind: 'scalar', type: 'DateTime', isList: false, isRequired: true },
+              { name: 'level', kind: 'enum', type: 'LogLevel', isList: false, isRequired: true },
+              { name: 'message', kind: 'scalar', type: 'String', isList: false, isRequired: true },
+              { name: 'duration', kind: 'scalar', type: 'Int', isList: false, isRequired: false },
+              { name: 'tags', kind: 'scalar', type: 'String', isList: true, isRequired: true },
+              { name: 'userId', kind: 'scalar', type: 'String', isList: false, isRequired: true },
+              { name: 'agentId', kind: 'scalar', type: 'String', isList: false, isRequired: true },
+              { name: 'user', kind: 'object', type: 'User', isList: false, isRequired: true },
+              { name: 'agent', kind: 'object', type: 'AI_Agent', isList: false, isRequired: true },
+            ],
+          },
+        ],
+        enums: [
+          { name: 'LogLevel', values: [{ name: 'DEBUG' }, { name: 'INFO' }, { name: 'WARN' }, { name: 'ERROR' }] },
+        ],
+      },
+    },
   },
-  HttpError: class HttpError extends Error {
-    statusCode: number;
-    constructor(statusCode: number, message: string) {
-      super(message);
-      this.statusCode = statusCode;
-    }
+}));
+
+// Mock the query analytics service, which explains queries with the database
+vi.mock('../server/services/queryAnalyticsService', () => ({
+  QueryAnalyticsService: {
+    estimateQueryCost: vi.fn(),
+    storeExecutionPlan: vi.fn(),
   },
 }));
 
@@ -61,6 +122,8 @@ vi.mock('uuid', () => ({
 describe('QuerySandboxService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    // Queries are cheap unless a test says otherwise
+    (QueryAnalyticsService.estimateQueryCost as Mock).mockResolvedValue({ totalCost: 10, estimatedRows: 1, plans: [] });
   });
 
   describe('validateQuery', () => {
@@ -323,6 +386,154 @@ describe('QuerySandboxService', () => {
     });
   });
 
+  describe('argument validation', () => {
+    const mockPermissions = [
+      {
+        id: 'permission-456',
+        agentId: 'agent-123',
+        schemaMapId: 'schema-map-456',
+        permissionLevel: 'READ_ONLY',
+        allowedModels: ['AgentLog'],
+        allowedActions: ['findFirst', 'findMany', 'count'],
+        requiresApproval: false,
+        isActive: true,
+        schemaMap: {
+          id: 'schema-map-456',
+          name: 'Agent Log Schema Map',
+          schema: {
+            AgentLog: {
+              actions: ['findFirst', 'findMany', 'count'],
+              allowedFields: ['id', 'createdAt', 'level', 'message', 'duration', 'tags', 'userId'],
+              relations: {
+                user: { type: 'many-to-one', model: 'User', foreignKey: 'agentLogs', required: true },
+              },
+            },
+            User: {
+              actions: ['findMany'],
+              allowedFields: ['id', 'email', 'name'],
+              relations: {
+                agentLogs: { type: 'one-to-many', model: 'AgentLog', foreignKey: 'user', required: false },
+              },
+            },
+          },
+        },
+      },
+    ];
+
+    const validate = (queryParams: Record<string, any>) => {
+      (prisma.agentQueryPermission.findMany as Mock).mockResolvedValue(mockPermissions);
+      return QuerySandboxService.validateQuery('agent-123', 'AgentLog', 'findFirst', queryParams);
+    };
+
+    it('should accept text that looks like SQL', async () => {
+      const result = await validate({
+        where: {
+          message: { contains: "it's fine -- really /* not a comment */", mode: 'insensitive' },
+          OR: [{ level: 'ERROR' }, { level: { in: ['WARN', 'INFO'] } }],
+          createdAt: { gte: '2024-01-01T00:00:00Z' },
+          tags: { has: 'billing' },
+          user: { is: { email: { endsWith: '@example.com' } } },
+        },
+        orderBy: [{ createdAt: 'desc' }, { user: { name: { sort: 'asc', nulls: 'last' } } }],
+        include: { user: { select: { id: true, email: true } } },
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.errors).toBeUndefined();
+    });
+
+    it('should reject unknown fields and operators with their paths', async () => {
+      const result = await validate({
+        where: {
+          message: { matches: 'error' },
+          status: 'open',
+          duration: { contains: 100 },
+        },
+        orderBy: { createdAt: 'newest' },
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(expect.arrayContaining([
+        'where.message.matches: Unknown operator for String field message',
+        'where.status: Unknown field of AgentLog',
+        'where.duration.contains: Unknown operator for Int field duration',
+        'orderBy.createdAt: Expected asc, desc or { sort, nulls }, got "newest"',
+      ]));
+    });
+
+    it('should reject raw query operators', async () => {
+      const result = await validate({
+        where: { $queryRaw: 'SELECT 1', message: { equals: 'error' } },
+        $executeRaw: 'DELETE FROM "AgentLog"',
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(expect.arrayContaining([
+        'where.$queryRaw: Raw query operators are not allowed',
+        '$executeRaw: Raw query operators are not allowed',
+      ]));
+    });
+
+    it('should check value types and enum values', async () => {
+      const result = await validate({
+        where: {
+          level: { in: ['ERROR', 'FATAL'] },
+          duration: { gt: '100' },
+          createdAt: { lt: 'yesterday' },
+          tags: { hasSome: 'billing' },
+          message: null,
+        },
+        take: '10',
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(expect.arrayContaining([
+        'where.level.in[1]: Expected one of DEBUG, INFO, WARN, ERROR (LogLevel), got "FATAL"',
+        'where.duration.gt: Expected an Int, got "100"',
+        'where.createdAt.lt: Expected a DateTime, got "yesterday"',
+        'where.tags.hasSome: Expected an array of String, got "billing"',
+        'where.message: message is required and cannot be null',
+        'take: Expected an integer, got "10"',
+      ]));
+    });
+
+    it('should check relation paths against the schema map', async () => {
+      const result = await validate({
+        where: {
+          user: { some: { email: { equals: 'jane@example.com' } } },
+          agent: { is: { name: { equals: 'Athena' } } },
+        },
+        include: {
+          user: {
+            where: { email: { contains: 'jane' } },
+            select: { password: true, agentLogs: { where: { user: { is: { password: { startsWith: 'a' } } } } } },
+          },
+        },
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(expect.arrayContaining([
+        'where.user.some: Unknown operator for to-one relation user, expected one of: is, isNot',
+        'where.agent: Relation agent of AgentLog is not in the schema map',
+        'include.user.where: Unknown argument for include',
+        'include.user.select.password: Field password of User is not allowed',
+        'include.user.select.agentLogs.where.user.is.password: Field password of User is not allowed',
+      ]));
+    });
+
+    it('should reject substring filters that scan the whole table', async () => {
+      const result = await validate({
+        where: { message: { contains: 'a' }, user: { is: { name: { endsWith: '' } } } },
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(expect.arrayContaining([
+        'where.message.contains: Expected at least 3 characters, as shorter substrings scan the whole table',
+        'where.user.is.name.endsWith: Expected at least 3 characters, as shorter substrings scan the whole table',
+      ]));
+    });
+  });
+
   describe('executeQuery', () => {
     it('should execute a query successfully', async () => {
       // Mock data
@@ -420,8 +631,12 @@ describe('QuerySandboxService', () => {
       // Verify that the query was validated
       expect(QuerySandboxService.validateQuery).toHaveBeenCalled();
 
-      // Verify that the query was executed
-      expect(mockPrismaModel.findMany).toHaveBeenCalledWith(mockQueryRequest.queryParams);
+      // Verify that the query was executed, limited as User is a sensitive model
+      expect(mockPrismaModel.findMany).toHaveBeenCalledWith({
+        ...mockQueryRequest.queryParams,
+        take: 50,
+      });
+      expect(prisma.$executeRawUnsafe).toHaveBeenCalledWith('SET LOCAL statement_timeout = 5000');
 
       // Verify that the query log was created
       expect(prisma.queryLog.create).toHaveBeenCalledWith({
@@ -658,4 +873,469 @@ describe('QuerySandboxService', () => {
       expect(result.warning).toBe('Approaching daily query limit (85/100)');
     });
   });
+
+  describe('row policies', () => {
+    // Agent permission whose schema map restricts agent logs to the requester's organization
+    const mockAgent = {
+      queryPermissions: [
+        {
+          isActive: true,
+          allowedModels: ['AgentLog'],
+          schemaMap: {
+            schema: {
+              AgentLog: {
+                actions: ['findMany'],
+                allowedFields: ['id', 'message', 'organizationId'],
+                rowPolicies: [{ field: 'organizationId', equals: 'organizationId' }],
+              },
+            },
+          },
+        },
+      ],
+    };
+
+    const mockQueryRequest = {
+      id: 'query-request-456',
+      agentId: 'agent-123',
+      userId: 'user-123',
+      targetModel: 'AgentLog',
+      action: 'findMany',
+      queryParams: {
+        where: { organizationId: 'org-other' },
+        take: 10,
+      },
+      status: QueryApprovalStatus.APPROVED,
+      agent: mockAgent,
+    };
+
+    it('should scope queries to the requester organization', async () => {
+      const mockPrismaModel = {
+        findMany: vi.fn().mockResolvedValue([]),
+      };
+      (prisma as any).agentLog = mockPrismaModel;
+      (prisma as any).user = {
+        findUnique: vi.fn().mockResolvedValue({ id: 'user-123', organizationId: 'org-123' }),
+      };
+
+      (prisma.agentQueryRequest.findUnique as Mock).mockResolvedValue(mockQueryRequest);
+      vi.spyOn(QuerySandboxService, 'validateQuery').mockResolvedValue({ valid: true });
+      (prisma.queryLog.create as Mock).mockResolvedValue({ queryId: 'mock-uuid' });
+      (prisma.agentQueryRequest.update as Mock).mockResolvedValue(mockQueryRequest);
+
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, { enforceRateLimit: false });
+
+      expect(result.success).toBe(true);
+
+      // Another tenant's rows cannot match, as the requester's organization is ANDed in
+      expect(mockPrismaModel.findMany).toHaveBeenCalledWith({
+        where: {
+          organizationId: 'org-other',
+          AND: [{ organizationId: 'org-123' }],
+        },
+        take: 10,
+        select: { id: true, message: true, organizationId: true },
+      });
+
+      expect(prisma.queryLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          metadata: expect.objectContaining({ rowPolicyModels: ['AgentLog'] }),
+        }),
+      });
+    });
+
+    it('should block queries when the requester has no organization', async () => {
+      const mockPrismaModel = {
+        findMany: vi.fn().mockResolvedValue([]),
+      };
+      (prisma as any).agentLog = mockPrismaModel;
+      (prisma as any).user = {
+        findUnique: vi.fn().mockResolvedValue({ id: 'user-123', organizationId: null }),
+      };
+
+      (prisma.agentQueryRequest.findUnique as Mock).mockResolvedValue(mockQueryRequest);
+      vi.spyOn(QuerySandboxService, 'validateQuery').mockResolvedValue({ valid: true });
+
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, { enforceRateLimit: false });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        "Row policy violation: Rows of AgentLog are restricted to the requester's organization, which is not set"
+      );
+      expect(mockPrismaModel.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('query cost and limits', () => {
+    const mockAgent = {
+      queryPermissions: [
+        {
+          isActive: true,
+          allowedModels: ['AgentLog'],
+          schemaMap: {
+            schema: {
+              AgentLog: {
+                actions: ['findMany'],
+                allowedFields: ['id', 'message', 'userId'],
+                relations: {
+                  user: { type: 'many-to-one', model: 'User', foreignKey: 'agentLogs', required: true },
+                },
+              },
+              User: {
+                actions: ['findMany'],
+                allowedFields: ['id', 'email'],
+                relations: {
+                  agentLogs: { type: 'one-to-many', model: 'AgentLog', foreignKey: 'user', required: false },
+                },
+              },
+            },
+          },
+        },
+      ],
+    };
+
+    const mockQueryRequest = {
+      id: 'query-request-789',
+      agentId: 'agent-123',
+      userId: 'user-123',
+      targetModel: 'AgentLog',
+      action: 'findMany',
+      queryParams: {
+        where: { message: { contains: 'error' } },
+        take: 500,
+      },
+      status: QueryApprovalStatus.AUTO_APPROVED,
+      agent: mockAgent,
+    };
+
+    const executionOptions = { enforceRateLimit: false, maxResultSize: 100 };
+
+    let mockPrismaModel: { findMany: Mock };
+
+    beforeEach(() => {
+      mockPrismaModel = {
+        findMany: vi.fn().mockResolvedValue([]),
+      };
+      (prisma as any).agentLog = mockPrismaModel;
+      (prisma.agentQueryRequest.findUnique as Mock).mockResolvedValue(mockQueryRequest);
+      (prisma.queryLog.create as Mock).mockResolvedValue({ queryId: 'mock-uuid' });
+      (prisma.agentQueryRequest.update as Mock).mockResolvedValue(mockQueryRequest);
+      vi.spyOn(QuerySandboxService, 'validateQuery').mockResolvedValue({ valid: true });
+      // Results cached by earlier tests would skip the query
+      vi.spyOn(QueryPerformanceService, 'getCachedQueryResult').mockResolvedValue(null);
+    });
+
+    it('should push take and select limits into the query', async () => {
+      (QueryAnalyticsService.estimateQueryCost as Mock).mockResolvedValue({ totalCost: 120, estimatedRows: 100, plans: [] });
+
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, executionOptions);
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toContain('Take value (500) limited to 100');
+      expect(mockPrismaModel.findMany).toHaveBeenCalledWith({
+        where: { message: { contains: 'error' } },
+        take: 100,
+        select: { id: true, message: true, userId: true },
+      });
+
+      // The cost is estimated for the limited query
+      expect(QueryAnalyticsService.estimateQueryCost).toHaveBeenCalledWith('AgentLog', 'findMany', {
+        where: { message: { contains: 'error' } },
+        take: 100,
+        select: { id: true, message: true, userId: true },
+      });
+    });
+
+    it('should limit included to-many relations', async () => {
+      (prisma.agentQueryRequest.findUnique as Mock).mockResolvedValue({
+        ...mockQueryRequest,
+        queryParams: { take: 10, include: { user: { include: { agentLogs: true } } } },
+      });
+      (QueryAnalyticsService.estimateQueryCost as Mock).mockResolvedValue({ totalCost: 120, estimatedRows: 100, plans: [] });
+
+      await QuerySandboxService.executeQuery(mockQueryRequest.id, executionOptions);
+
+      expect(mockPrismaModel.findMany).toHaveBeenCalledWith({
+        take: 10,
+        include: { user: { include: { agentLogs: { take: 100 } } } },
+      });
+    });
+
+    it('should reject relations included too deeply', async () => {
+      (prisma.agentQueryRequest.findUnique as Mock).mockResolvedValue({
+        ...mockQueryRequest,
+        queryParams: { take: 10, include: { user: { include: { agentLogs: { include: { user: true } } } } } },
+      });
+
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, executionOptions);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Include depth (3) exceeds maximum allowed (2)');
+      expect(mockPrismaModel.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject queries above the maximum cost', async () => {
+      (QueryAnalyticsService.estimateQueryCost as Mock).mockResolvedValue({ totalCost: 250000.4, estimatedRows: 90000, plans: [] });
+
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, executionOptions);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Estimated query cost (250000) exceeds maximum allowed (100000)');
+      expect(result.costEstimate).toEqual({ totalCost: 250000.4, estimatedRows: 90000 });
+      expect(mockPrismaModel.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should send expensive auto-approved queries for approval', async () => {
+      (QueryAnalyticsService.estimateQueryCost as Mock).mockResolvedValue({ totalCost: 20000, estimatedRows: 5000, plans: [] });
+
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, executionOptions);
+
+      expect(result.success).toBe(false);
+      expect(result.requiresApproval).toBe(true);
+      expect(mockPrismaModel.findMany).not.toHaveBeenCalled();
+      expect(prisma.agentQueryRequest.update).toHaveBeenCalledWith({
+        where: { id: mockQueryRequest.id },
+        data: {
+          status: QueryApprovalStatus.PENDING,
+          metadata: {
+            approvalReason: 'Estimated query cost (20000) exceeds the auto-approval limit (10000)',
+            costEstimate: { totalCost: 20000, estimatedRows: 5000 },
+          },
+        },
+      });
+    });
+
+    it('should run expensive queries a person approved', async () => {
+      (prisma.agentQueryRequest.findUnique as Mock).mockResolvedValue({
+        ...mockQueryRequest,
+        status: QueryApprovalStatus.APPROVED,
+      });
+      (QueryAnalyticsService.estimateQueryCost as Mock).mockResolvedValue({ totalCost: 20000, estimatedRows: 5000, plans: [] });
+
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, executionOptions);
+
+      expect(result.success).toBe(true);
+      expect(mockPrismaModel.findMany).toHaveBeenCalled();
+    });
+
+    it('should reject queries whose cost cannot be estimated', async () => {
+      (QueryAnalyticsService.estimateQueryCost as Mock).mockResolvedValue(null);
+
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, executionOptions);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Query cost could not be estimated');
+      expect(mockPrismaModel.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should set a statement timeout for the query transaction', async () => {
+      (QueryAnalyticsService.estimateQueryCost as Mock).mockResolvedValue({ totalCost: 120, estimatedRows: 100, plans: [] });
+
+      await QuerySandboxService.executeQuery(mockQueryRequest.id, { ...executionOptions, timeout: 2000 });
+
+      expect(prisma.$executeRawUnsafe).toHaveBeenCalledWith('SET LOCAL statement_timeout = 2000');
+      expect(prisma.$transaction).toHaveBeenCalledWith(expect.any(Function), { timeout: 3000 });
+    });
+
+    it('should report queries cancelled by the statement timeout', async () => {
+      (QueryAnalyticsService.estimateQueryCost as Mock).mockResolvedValue({ totalCost: 120, estimatedRows: 100, plans: [] });
+      mockPrismaModel.findMany.mockRejectedValue(new Error('canceling statement due to statement timeout'));
+
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, { ...executionOptions, timeout: 2000 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Query execution timed out after 2000ms');
+    });
+  });
+
+  describe('redaction', () => {
+    const mockAgent = {
+      queryPermissions: [
+        {
+          isActive: true,
+          allowedModels: ['Organization'],
+          schemaMap: {
+            schema: {
+              Organization: {
+                actions: ['findUnique'],
+                allowedFields: ['id', 'name'],
+                relations: {
+                  users: { type: 'one-to-many', model: 'User', foreignKey: 'organization', required: false },
+                },
+              },
+              User: {
+                actions: ['findMany'],
+                allowedFields: ['id', 'email'],
+                fieldClassifications: { email: 'pii' },
+              },
+            },
+          },
+        },
+      ],
+    };
+
+    const mockQueryRequest = {
+      id: 'query-request-321',
+      agentId: 'agent-123',
+      userId: 'user-123',
+      targetModel: 'Organization',
+      action: 'findUnique',
+      queryParams: {
+        where: { id: 'org-123' },
+        include: { users: true },
+      },
+      status: QueryApprovalStatus.APPROVED,
+      agent: mockAgent,
+    };
+
+    it('should redact classified fields of included relations and record them', async () => {
+      (prisma as any).organization = {
+        findUnique: vi.fn().mockResolvedValue({
+          id: 'org-123',
+          name: 'Acme',
+          users: [{ id: 'user-1', email: 'jane@example.com', password: 'hash-1' }],
+        }),
+      };
+      (prisma.agentQueryRequest.findUnique as Mock).mockResolvedValue(mockQueryRequest);
+      (prisma.queryLog.create as Mock).mockResolvedValue({ queryId: 'mock-uuid' });
+      (prisma.agentQueryRequest.update as Mock).mockResolvedValue(mockQueryRequest);
+      vi.spyOn(QuerySandboxService, 'validateQuery').mockResolvedValue({ valid: true });
+      vi.spyOn(QueryPerformanceService, 'getCachedQueryResult').mockResolvedValue(null);
+      (QueryAnalyticsService.estimateQueryCost as Mock).mockResolvedValue({ totalCost: 20, estimatedRows: 1, plans: [] });
+
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, { enforceRateLimit: false });
+
+      expect(result.success).toBe(true);
+      expect(result.result.users[0]).not.toHaveProperty('password');
+      expect(result.result.users[0].email).toMatch(/^sha256:/);
+
+      expect(prisma.queryRedactionAudit.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          queryRequestId: mockQueryRequest.id,
+          targetModel: 'Organization',
+          redactedCount: 2,
+          redactions: expect.arrayContaining([
+            expect.objectContaining({ path: 'users.email', classification: 'pii', strategy: 'hash' }),
+            expect.objectContaining({ path: 'users.password', classification: 'secret', strategy: 'drop' }),
+          ]),
+        }),
+      });
+      expect(prisma.queryLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          metadata: expect.objectContaining({ redactedFields: ['users.email', 'users.password'] }),
+        }),
+      });
+    });
+  });
+
+  describe('writes', () => {
+    const mockAgent = {
+      queryPermissions: [
+        {
+          isActive: true,
+          allowedModels: ['AgentLog'],
+          schemaMap: {
+            schema: {
+              AgentLog: {
+                actions: ['findMany', 'update'],
+                allowedFields: ['id', 'message', 'level'],
+              },
+            },
+          },
+        },
+      ],
+    };
+
+    const mockQueryRequest = {
+      id: 'query-request-654',
+      agentId: 'agent-123',
+      userId: 'user-123',
+      targetModel: 'AgentLog',
+      action: 'update',
+      queryParams: {
+        where: { id: 'log-1' },
+        data: { level: 'ERROR' },
+      },
+      status: QueryApprovalStatus.AUTO_APPROVED,
+      agent: mockAgent,
+    };
+
+    const diff = {
+      model: 'AgentLog',
+      action: 'update',
+      before: { id: 'log-1', level: 'INFO' },
+      after: { id: 'log-1', level: 'ERROR' },
+      changes: [{ field: 'level', before: 'INFO', after: 'ERROR' }],
+    };
+
+    beforeEach(() => {
+      (prisma.agentQueryRequest.findUnique as Mock).mockResolvedValue(mockQueryRequest);
+      (prisma.queryLog.create as Mock).mockResolvedValue({ queryId: 'mock-uuid' });
+      (prisma.agentQueryRequest.update as Mock).mockResolvedValue(mockQueryRequest);
+      vi.spyOn(QuerySandboxService, 'validateQuery').mockResolvedValue({ valid: true });
+      vi.spyOn(QueryWriteService, 'previewWrite').mockResolvedValue(diff);
+      vi.spyOn(QueryWriteService, 'executeWrite').mockResolvedValue({
+        result: { id: 'log-1', level: 'ERROR' },
+        diff,
+        rollbackId: 'rollback-1',
+      });
+    });
+
+    it('should send auto-approved writes for approval', async () => {
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, { enforceRateLimit: false });
+
+      expect(result.success).toBe(false);
+      expect(result.requiresApproval).toBe(true);
+      expect(result.error).toBe('Write operations require human approval');
+      expect(QueryWriteService.executeWrite).not.toHaveBeenCalled();
+      expect(prisma.agentQueryRequest.update).toHaveBeenCalledWith({
+        where: { id: mockQueryRequest.id },
+        data: {
+          status: QueryApprovalStatus.PENDING,
+          metadata: { approvalReason: 'Write operations require human approval' },
+        },
+      });
+    });
+
+    it('should return the diff of a write on a dry run', async () => {
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, { enforceRateLimit: false, dryRun: true });
+
+      expect(result.result).toEqual({ dryRun: true, diff });
+      expect(result.requiresApproval).toBe(true);
+      expect(QueryWriteService.executeWrite).not.toHaveBeenCalled();
+    });
+
+    it('should run approved writes with a rollback record', async () => {
+      (prisma.agentQueryRequest.findUnique as Mock).mockResolvedValue({
+        ...mockQueryRequest,
+        status: QueryApprovalStatus.APPROVED,
+      });
+
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, { enforceRateLimit: false });
+
+      expect(result.success).toBe(true);
+      expect(result.result).toEqual({ id: 'log-1', level: 'ERROR' });
+      // Writes are not estimated with EXPLAIN
+      expect(QueryAnalyticsService.estimateQueryCost).not.toHaveBeenCalled();
+      expect(QueryWriteService.executeWrite).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ id: mockQueryRequest.id }),
+        mockAgent.queryPermissions[0].schemaMap.schema,
+        { where: { id: 'log-1' }, data: { level: 'ERROR' } }
+      );
+    });
+
+    it('should reject writes that include relations', async () => {
+      (prisma.agentQueryRequest.findUnique as Mock).mockResolvedValue({
+        ...mockQueryRequest,
+        status: QueryApprovalStatus.APPROVED,
+        queryParams: { where: { id: 'log-1' }, data: { level: 'ERROR' }, include: { user: true } },
+      });
+
+      const result = await QuerySandboxService.executeQuery(mockQueryRequest.id, { enforceRateLimit: false });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid write: select and include are not supported for update');
+      expect(QueryWriteService.executeWrite).not.toHaveBeenCalled();
+    });
+  });
 });
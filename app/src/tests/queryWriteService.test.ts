@@ -0,0 +1,376 @@
+/**
+ * Query Write Service Tests
+ *
+ * This file contains unit tests for the QueryWriteService, which previews, runs
+ * and reverts the writes of agent-generated queries.
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { prisma } from 'wasp/server';
+import { Prisma } from '@prisma/client';
+import { QueryWriteService } from '../server/services/queryWriteService';
+import { LoggingService } from '../shared/services/logging';
+
+// Mock the prisma client; reverts run in transactions on the same mock
+vi.mock('wasp/server', () => {
+  const prisma: any = {
+    agentLog: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    agentQueryRequest: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    aIThoughtTrace: {
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    aIThoughtRollback: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  };
+  prisma.$transaction = vi.fn((callback: (tx: any) => Promise<any>) => callback(prisma));
+
+  return {
+    prisma,
+    HttpError: class HttpError extends Error {
+      statusCode: number;
+      constructor(statusCode: number, message: string) {
+        super(message);
+        this.statusCode = statusCode;
+      }
+    },
+  };
+});
+
+// Mock the Prisma schema, for primary keys, relations and Json fields
+vi.mock('@prisma/client', () => ({
+  Prisma: {
+    DbNull: 'DbNull',
+    dmmf: {
+      datamodel: {
+        models: [
+          {
+            name: 'AgentLog',
+            fields: [
+              { name: 'id', kind: 'scalar', type: 'String', isId: true },
+              { name: 'message', kind: 'scalar', type: 'String' },
+              { name: 'level', kind: 'scalar', type: 'String' },
+              { name: 'apiKey', kind: 'scalar', type: 'String' },
+              { name: 'details', kind: 'scalar', type: 'Json' },
+              { name: 'user', kind: 'object', type: 'User' },
+            ],
+          },
+        ],
+      },
+    },
+  },
+}));
+
+// Mock the logging service
+vi.mock('../shared/services/logging', () => ({
+  LoggingService: {
+    logSystemEvent: vi.fn(),
+  },
+}));
+
+// Schema map of the written model
+const schema = {
+  AgentLog: {
+    actions: ['findMany', 'create', 'update', 'delete'],
+    allowedFields: ['id', 'message', 'level', 'userId'],
+    relations: {
+      session: { type: 'many-to-one', model: 'AgentSession', foreignKey: 'logs', required: false },
+    },
+  },
+};
+
+const logRow = { id: 'log-1', message: 'Started', level: 'INFO', apiKey: 'sk_live_123' };
+
+const queryRequest = {
+  id: 'query-request-1',
+  agentId: 'agent-1',
+  userId: 'user-1',
+  sessionId: 'session-1',
+  prompt: 'Mark the startup log as an error',
+  generatedQuery: "prisma.agentLog.update({ where: { id: 'log-1' }, data: { level: 'ERROR' } })",
+  targetModel: 'AgentLog',
+  action: 'update',
+  approvedById: 'admin-1',
+  approvedAt: new Date('2024-01-01T00:00:00Z'),
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  metadata: { approvalReason: 'Write operations require human approval' },
+  agent: { moduleId: 'arcana' },
+};
+
+describe('QueryWriteService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('validateWriteParams', () => {
+    it('should accept single-row writes', () => {
+      expect(QueryWriteService.validateWriteParams(schema, 'AgentLog', 'update', {
+        where: { id: 'log-1' },
+        data: { level: 'ERROR' },
+      })).toEqual([]);
+      expect(QueryWriteService.validateWriteParams(schema, 'AgentLog', 'delete', { where: { id: 'log-1' } })).toEqual([]);
+    });
+
+    it('should report invalid writes', () => {
+      expect(QueryWriteService.validateWriteParams(schema, 'AgentLog', 'update', {
+        data: { level: 'ERROR' },
+        include: { session: true },
+      })).toEqual([
+        'select and include are not supported for update',
+        'A where clause identifying the row is required for update',
+      ]);
+      expect(QueryWriteService.validateWriteParams(schema, 'AgentLog', 'create', {})).toEqual([
+        'Data is required for create',
+      ]);
+    });
+
+    it('should reject nested writes', () => {
+      const errors = QueryWriteService.validateWriteParams(schema, 'AgentLog', 'create', {
+        data: { message: 'Created', session: { connect: { id: 'session-1' } }, user: { create: {} } },
+      });
+
+      // The user relation is only known from the Prisma schema
+      expect(errors).toEqual([
+        'Nested writes are not supported: data.session is a relation of AgentLog',
+        'Nested writes are not supported: data.user is a relation of AgentLog',
+      ]);
+    });
+  });
+
+  describe('previewWrite', () => {
+    it('should diff the row an update would change', async () => {
+      (prisma.agentLog.findUnique as Mock).mockResolvedValue({ ...logRow, retries: 2 });
+
+      const diff = await QueryWriteService.previewWrite(schema, 'AgentLog', 'update', {
+        where: { id: 'log-1' },
+        data: { level: 'ERROR', retries: { increment: 1 } },
+      });
+
+      expect(diff.changes).toEqual([
+        { field: 'level', before: 'INFO', after: 'ERROR' },
+        { field: 'retries', before: 2, after: 3 },
+      ]);
+      expect(prisma.agentLog.update).not.toHaveBeenCalled();
+    });
+
+    it('should redact classified fields of the diff', async () => {
+      const diff = await QueryWriteService.previewWrite(schema, 'AgentLog', 'create', {
+        data: { message: 'Created', apiKey: 'sk_live_456' },
+      });
+
+      expect(diff.before).toBeNull();
+      expect(diff.after).toEqual({ message: 'Created' });
+      expect(diff.changes).toEqual([
+        { field: 'message', before: null, after: 'Created' },
+        { field: 'apiKey', before: null, after: '[REDACTED]' },
+      ]);
+    });
+
+    it('should reject writes to missing rows', async () => {
+      (prisma.agentLog.findUnique as Mock).mockResolvedValue(null);
+
+      await expect(QueryWriteService.previewWrite(schema, 'AgentLog', 'delete', { where: { id: 'log-404' } }))
+        .rejects.toThrow('No AgentLog row matches the delete');
+    });
+  });
+
+  describe('executeWrite', () => {
+    beforeEach(() => {
+      (prisma.aIThoughtTrace.create as Mock).mockResolvedValue({ id: 'trace-1' });
+      (prisma.aIThoughtRollback.create as Mock).mockResolvedValue({ id: 'rollback-1' });
+    });
+
+    it('should record how to revert an update', async () => {
+      (prisma.agentLog.findUnique as Mock).mockResolvedValue(logRow);
+      (prisma.agentLog.update as Mock).mockResolvedValue({ ...logRow, level: 'ERROR' });
+
+      const { result, diff, rollbackId } = await QueryWriteService.executeWrite(prisma as any, queryRequest, schema, {
+        where: { id: 'log-1' },
+        data: { level: 'ERROR' },
+      });
+
+      expect(result.level).toBe('ERROR');
+      expect(rollbackId).toBe('rollback-1');
+      expect(diff.changes).toEqual([{ field: 'level', before: 'INFO', after: 'ERROR' }]);
+
+      expect(prisma.aIThoughtTrace.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          agentId: 'agent-1',
+          userId: 'user-1',
+          moduleId: 'arcana',
+          dbOperation: 'update',
+          dbEntity: 'AgentLog',
+          affectedRecords: [{ id: 'log-1' }],
+          humanApproved: true,
+          humanApprovedBy: 'admin-1',
+          rollbackStatus: 'AVAILABLE',
+        }),
+      });
+      expect(prisma.aIThoughtRollback.create).toHaveBeenCalledWith({
+        data: {
+          traceId: 'trace-1',
+          rollbackOperation: 'update',
+          rollbackQuery: 'prisma.agentLog.update({"where":{"id":"log-1"},"data":{"level":"INFO"}})',
+          rollbackParams: { where: { id: 'log-1' }, data: { level: 'INFO' } },
+          status: 'PENDING',
+          metadata: { queryRequestId: 'query-request-1', model: 'AgentLog', expected: { level: 'ERROR' } },
+        },
+      });
+      expect(prisma.aIThoughtTrace.update).toHaveBeenCalledWith({
+        where: { id: 'trace-1' },
+        data: { rollbackId: 'rollback-1' },
+      });
+      expect(prisma.agentQueryRequest.update).toHaveBeenCalledWith({
+        where: { id: 'query-request-1' },
+        data: {
+          metadata: {
+            approvalReason: 'Write operations require human approval',
+            writeDiff: diff,
+            thoughtTraceId: 'trace-1',
+            rollbackId: 'rollback-1',
+          },
+        },
+      });
+    });
+
+    it('should revert creates by deleting the row', async () => {
+      (prisma.agentLog.create as Mock).mockResolvedValue({ id: 'log-2', message: 'Created', level: 'INFO' });
+
+      await QueryWriteService.executeWrite(prisma as any, { ...queryRequest, action: 'create' }, schema, {
+        data: { message: 'Created' },
+      });
+
+      expect(prisma.agentLog.findUnique).not.toHaveBeenCalled();
+      expect(prisma.aIThoughtRollback.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          rollbackOperation: 'delete',
+          rollbackParams: { where: { id: 'log-2' } },
+        }),
+      });
+    });
+
+    it('should revert deletes by creating the row again', async () => {
+      (prisma.agentLog.findUnique as Mock).mockResolvedValue(logRow);
+      (prisma.agentLog.delete as Mock).mockResolvedValue(logRow);
+
+      const { diff } = await QueryWriteService.executeWrite(prisma as any, { ...queryRequest, action: 'delete' }, schema, {
+        where: { id: 'log-1' },
+      });
+
+      expect(diff.after).toBeNull();
+      expect(prisma.aIThoughtRollback.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          rollbackOperation: 'create',
+          rollbackParams: { data: logRow },
+          metadata: { queryRequestId: 'query-request-1', model: 'AgentLog', expected: null },
+        }),
+      });
+    });
+  });
+
+  describe('revertWrite', () => {
+    const rollback = {
+      id: 'rollback-1',
+      traceId: 'trace-1',
+      rollbackOperation: 'update',
+      rollbackParams: { where: { id: 'log-1' }, data: { level: 'INFO' } },
+      status: 'PENDING',
+      metadata: { queryRequestId: 'query-request-1', model: 'AgentLog', expected: { level: 'ERROR' } },
+    };
+
+    beforeEach(() => {
+      (prisma.agentQueryRequest.findUnique as Mock).mockResolvedValue({
+        ...queryRequest,
+        metadata: { rollbackId: 'rollback-1' },
+      });
+      (prisma.aIThoughtRollback.findUnique as Mock).mockResolvedValue(rollback);
+    });
+
+    it('should revert the write and mark it reverted', async () => {
+      (prisma.agentLog.findUnique as Mock).mockResolvedValue({ ...logRow, level: 'ERROR' });
+
+      const result = await QueryWriteService.revertWrite('query-request-1', 'admin-1');
+
+      expect(result).toEqual({ success: true });
+      expect(prisma.agentLog.update).toHaveBeenCalledWith({ where: { id: 'log-1' }, data: { level: 'INFO' } });
+      expect(prisma.aIThoughtRollback.update).toHaveBeenCalledWith({
+        where: { id: 'rollback-1' },
+        data: { status: 'EXECUTED', executedAt: expect.any(Date), executedBy: 'admin-1' },
+      });
+      expect(prisma.aIThoughtTrace.update).toHaveBeenCalledWith({
+        where: { id: 'trace-1' },
+        data: { rollbackStatus: 'ROLLED_BACK' },
+      });
+      expect(prisma.agentQueryRequest.update).toHaveBeenCalledWith({
+        where: { id: 'query-request-1' },
+        data: {
+          metadata: { rollbackId: 'rollback-1', revertedAt: expect.any(String), revertedById: 'admin-1' },
+        },
+      });
+    });
+
+    it('should write null Json fields as database NULL', async () => {
+      (prisma.aIThoughtRollback.findUnique as Mock).mockResolvedValue({
+        ...rollback,
+        rollbackOperation: 'create',
+        rollbackParams: { data: { ...logRow, details: null } },
+        metadata: { queryRequestId: 'query-request-1', model: 'AgentLog', expected: null },
+      });
+
+      await QueryWriteService.revertWrite('query-request-1', 'admin-1');
+
+      expect(prisma.agentLog.create).toHaveBeenCalledWith({ data: { ...logRow, details: Prisma.DbNull } });
+    });
+
+    it('should not revert rows changed after the write', async () => {
+      (prisma.agentLog.findUnique as Mock).mockResolvedValue({ ...logRow, level: 'WARN' });
+
+      await expect(QueryWriteService.revertWrite('query-request-1', 'admin-1')).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'The AgentLog row was changed or deleted after the query ran and cannot be reverted',
+      });
+      expect(prisma.agentLog.update).not.toHaveBeenCalled();
+      // The rollback stays available
+      expect(prisma.aIThoughtRollback.update).not.toHaveBeenCalled();
+    });
+
+    it('should mark failed reverts', async () => {
+      (prisma.agentLog.findUnique as Mock).mockResolvedValue({ ...logRow, level: 'ERROR' });
+      (prisma.agentLog.update as Mock).mockRejectedValue(new Error('Connection lost'));
+
+      await expect(QueryWriteService.revertWrite('query-request-1', 'admin-1')).rejects.toMatchObject({
+        statusCode: 500,
+        message: 'Failed to revert query changes',
+      });
+      expect(prisma.aIThoughtRollback.update).toHaveBeenCalledWith({
+        where: { id: 'rollback-1' },
+        data: { status: 'FAILED', errorMessage: 'Connection lost' },
+      });
+      expect(LoggingService.logSystemEvent).toHaveBeenCalledWith(expect.objectContaining({
+        level: 'ERROR',
+        source: 'query-write',
+      }));
+    });
+
+    it('should not revert twice', async () => {
+      (prisma.agentQueryRequest.findUnique as Mock).mockResolvedValue({
+        ...queryRequest,
+        metadata: { rollbackId: 'rollback-1', revertedAt: '2024-01-02T00:00:00.000Z' },
+      });
+
+      await expect(QueryWriteService.revertWrite('query-request-1', 'admin-1'))
+        .rejects.toThrow('Changes of the query request were already reverted');
+    });
+  });
+});
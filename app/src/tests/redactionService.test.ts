@@ -0,0 +1,227 @@
+/**
+ * Redaction Service Tests
+ *
+ * This file contains unit tests for the RedactionService, which redacts classified
+ * fields from the results of agent-generated queries.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { prisma } from 'wasp/server';
+import { RedactionService } from '../server/services/redactionService';
+
+// Mock the prisma client
+vi.mock('wasp/server', () => ({
+  prisma: {
+    queryRedactionAudit: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+// Mock the Prisma schema, for relations the schema map leaves out
+vi.mock('@prisma/client', () => ({
+  Prisma: {
+    dmmf: {
+      datamodel: {
+        models: [
+          {
+            name: 'User',
+            fields: [
+              { name: 'id', kind: 'scalar', type: 'String' },
+              { name: 'credentials', kind: 'object', type: 'CredentialStore' },
+            ],
+          },
+        ],
+      },
+    },
+  },
+}));
+
+// Schema map with field classifications, modelled on the Prisma schema
+const schema = {
+  Organization: {
+    allowedFields: ['id', 'name', 'users'],
+    relations: {
+      users: { type: 'one-to-many', model: 'User', foreignKey: 'organization', required: false },
+    },
+  },
+  User: {
+    allowedFields: ['id', 'email', 'phone', 'password', 'organization'],
+    fieldClassifications: {
+      email: 'pii',
+      phone: { classification: 'pii', strategy: 'partial' },
+    },
+    relations: {
+      organization: { type: 'many-to-one', model: 'Organization', foreignKey: 'users', required: false },
+      invoices: { type: 'one-to-many', model: 'SubscriptionInvoice', foreignKey: 'user', required: false },
+    },
+  },
+  SubscriptionInvoice: {
+    allowedFields: ['id', 'amount', 'cardNumber', 'stripeInvoiceId'],
+    fieldClassifications: {
+      cardNumber: 'financial',
+      stripeInvoiceId: 'public',
+    },
+  },
+};
+
+describe('RedactionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('redactResult', () => {
+    it('should redact secrets of included relations', () => {
+      const { result, redactions } = RedactionService.redactResult(schema, 'Organization', {
+        id: 'org-1',
+        name: 'Acme',
+        users: [
+          { id: 'user-1', password: 'hash-1' },
+          { id: 'user-2', password: 'hash-2' },
+        ],
+      });
+
+      expect(result).toEqual({
+        id: 'org-1',
+        name: 'Acme',
+        users: [{ id: 'user-1' }, { id: 'user-2' }],
+      });
+      expect(redactions).toEqual([
+        {
+          path: 'users.password',
+          model: 'User',
+          field: 'password',
+          classification: 'secret',
+          strategy: 'drop',
+          count: 2,
+        },
+      ]);
+    });
+
+    it('should mask fields with the strategy of their classification', () => {
+      const { result } = RedactionService.redactResult(schema, 'User', [
+        {
+          id: 'user-1',
+          email: 'jane@example.com',
+          phone: '+1 555 0100 1234',
+          invoices: [{ id: 'invoice-1', amount: 100, cardNumber: '4242424242424242', stripeInvoiceId: 'in_123' }],
+        },
+      ]);
+
+      expect(result[0].email).toMatch(/^sha256:[0-9a-f]{16}$/);
+      expect(result[0].phone).toBe('****1234');
+      expect(result[0].invoices).toEqual([
+        { id: 'invoice-1', amount: 100, cardNumber: '****4242', stripeInvoiceId: 'in_123' },
+      ]);
+    });
+
+    it('should hash equal values alike', () => {
+      const { result } = RedactionService.redactResult(schema, 'User', [
+        { id: 'user-1', email: 'jane@example.com' },
+        { id: 'user-2', email: 'jane@example.com' },
+      ]);
+
+      expect(result[0].email).toBe(result[1].email);
+    });
+
+    it('should redact default secrets of models the schema map does not classify', () => {
+      const { result, redactions } = RedactionService.redactResult(schema, 'User', {
+        id: 'user-1',
+        credentials: [{ id: 'credential-1', name: 'Stripe', value: 'sk_live_123' }],
+      });
+
+      // The relation is only known from the Prisma schema
+      expect(result).toEqual({ id: 'user-1', credentials: [{ id: 'credential-1', name: 'Stripe' }] });
+      expect(redactions[0]).toMatchObject({ path: 'credentials.value', model: 'CredentialStore', classification: 'secret' });
+    });
+
+    it('should redact aggregated values', () => {
+      const { result } = RedactionService.redactResult(schema, 'SubscriptionInvoice', {
+        _count: { id: 3 },
+        _max: { amount: 250, cardNumber: '4242424242424242' },
+      });
+
+      expect(result).toEqual({ _count: { id: 3 }, _max: { amount: 250, cardNumber: '****4242' } });
+    });
+
+    it('should not record empty values', () => {
+      const { result, redactions } = RedactionService.redactResult(schema, 'User', { id: 'user-1', email: null });
+
+      expect(result).toEqual({ id: 'user-1', email: null });
+      expect(redactions).toEqual([]);
+    });
+
+    it('should leave dates and scalar results unchanged', () => {
+      const createdAt = new Date('2024-01-01T00:00:00Z');
+
+      expect(RedactionService.redactResult(schema, 'User', { id: 'user-1', createdAt }).result.createdAt).toBe(createdAt);
+      expect(RedactionService.redactResult(schema, 'User', 42).result).toBe(42);
+    });
+  });
+
+  describe('maskValue', () => {
+    it('should not give away short values', () => {
+      expect(RedactionService.maskValue('1234', 'partial' as any)).toBe('****');
+    });
+  });
+
+  describe('validateClassifications', () => {
+    it('should accept valid classifications', () => {
+      expect(RedactionService.validateClassifications(schema)).toEqual([]);
+    });
+
+    it('should report invalid classifications', () => {
+      const errors = RedactionService.validateClassifications({
+        User: { fieldClassifications: { email: 'personal', phone: { classification: 'pii', strategy: 'blur' } } },
+        Organization: { fieldClassifications: ['apiKey'] },
+      });
+
+      expect(errors).toEqual([
+        'Field email of User must be classified as one of: secret, pii, financial, public',
+        'Field phone of User must be masked with one of: drop, hash, partial',
+        'Field classifications of Organization must be an object',
+      ]);
+    });
+  });
+
+  describe('suggestClassification', () => {
+    it('should classify fields by name', () => {
+      expect(RedactionService.suggestClassification('passwordHash')).toBe('secret');
+      expect(RedactionService.suggestClassification('resetToken')).toBe('secret');
+      expect(RedactionService.suggestClassification('email')).toBe('pii');
+      expect(RedactionService.suggestClassification('stripeCustomerId')).toBe('financial');
+      expect(RedactionService.suggestClassification('totalTokens')).toBeUndefined();
+      expect(RedactionService.suggestClassification('name')).toBeUndefined();
+    });
+  });
+
+  describe('recordRedactions', () => {
+    const queryRequest = { id: 'query-request-1', agentId: 'agent-1', userId: 'user-1', targetModel: 'Organization' };
+
+    it('should record the redactions of a query request', async () => {
+      const redactions = [
+        { path: 'users.password', model: 'User', field: 'password', classification: 'secret', strategy: 'drop', count: 2 },
+        { path: 'users.email', model: 'User', field: 'email', classification: 'pii', strategy: 'hash', count: 2 },
+      ] as any;
+
+      await RedactionService.recordRedactions(queryRequest, redactions);
+
+      expect(prisma.queryRedactionAudit.create).toHaveBeenCalledWith({
+        data: {
+          queryRequestId: 'query-request-1',
+          agentId: 'agent-1',
+          userId: 'user-1',
+          targetModel: 'Organization',
+          redactedCount: 4,
+          redactions,
+        },
+      });
+    });
+
+    it('should not record results without redactions', async () => {
+      await RedactionService.recordRedactions(queryRequest, []);
+
+      expect(prisma.queryRedactionAudit.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Row Policy Service Tests
+ *
+ * This file contains unit tests for the RowPolicyService, which rewrites
+ * agent-generated queries so that they only access the requester's rows.
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { prisma } from 'wasp/server';
+import { RowPolicyService } from '../server/services/rowPolicyService';
+
+// Mock the prisma client
+vi.mock('wasp/server', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+    },
+  },
+  HttpError: class HttpError extends Error {
+    statusCode: number;
+    constructor(statusCode: number, message: string) {
+      super(message);
+      this.statusCode = statusCode;
+    }
+  },
+}));
+
+// Schema map with tenant policies, modelled on the Prisma schema
+const schema = {
+  User: {
+    actions: ['findMany', 'findUnique'],
+    allowedFields: ['id', 'email', 'organizationId'],
+    rowPolicies: [{ field: 'organizationId', equals: 'organizationId' }],
+    relations: {
+      agentLogs: { type: 'one-to-many', model: 'AgentLog', foreignKey: 'user', required: false },
+      businessMetrics: { type: 'one-to-many', model: 'BusinessMetric', foreignKey: 'user', required: false },
+      organization: { type: 'many-to-one', model: 'Organization', foreignKey: 'users', required: false },
+    },
+  },
+  AgentLog: {
+    actions: ['findMany', 'findFirst', 'count', 'create', 'update'],
+    allowedFields: ['id', 'message', 'userId', 'organizationId'],
+    rowPolicies: [{ field: 'organizationId', equals: 'organizationId' }],
+    relations: {
+      user: { type: 'many-to-one', model: 'User', foreignKey: 'agentLogs', required: true },
+    },
+  },
+  BusinessMetric: {
+    actions: ['findMany', 'create'],
+    allowedFields: ['id', 'name', 'value', 'userId'],
+    rowPolicies: [{ field: 'user.organizationId', equals: 'organizationId' }],
+    relations: {
+      user: { type: 'many-to-one', model: 'User', foreignKey: 'businessMetrics', required: true },
+    },
+  },
+  Organization: {
+    actions: ['findUnique'],
+    allowedFields: ['id', 'name'],
+    relations: {
+      users: { type: 'one-to-many', model: 'User', foreignKey: 'organization', required: false },
+    },
+  },
+  Note: {
+    actions: ['findMany'],
+    allowedFields: ['id', 'content', 'userId'],
+    rowPolicies: [{ field: 'userId', equals: 'userId' }],
+  },
+};
+
+const requester = { userId: 'user-1', organizationId: 'org-1' };
+
+describe('RowPolicyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('applyRowPolicies', () => {
+    it('should AND the requester organization into the where clause', () => {
+      const { params, scopedModels } = RowPolicyService.applyRowPolicies(
+        schema,
+        'AgentLog',
+        'findMany',
+        { where: { message: { contains: 'error' } }, take: 10 },
+        requester
+      );
+
+      expect(params).toEqual({
+        where: {
+          message: { contains: 'error' },
+          AND: [{ organizationId: 'org-1' }],
+        },
+        take: 10,
+      });
+      expect(scopedModels).toEqual(['AgentLog']);
+    });
+
+    it('should make cross-tenant reads impossible', () => {
+      // The agent asks for another tenant's rows, and tries to widen the query with OR
+      const { params } = RowPolicyService.applyRowPolicies(
+        schema,
+        'AgentLog',
+        'findMany',
+        { where: { OR: [{ organizationId: 'org-2' }, { organizationId: { not: 'org-1' } }] }, take: 10 },
+        requester
+      );
+
+      // Rows must still match the requester's organization, so the query returns none
+      expect(params.where.OR).toEqual([{ organizationId: 'org-2' }, { organizationId: { not: 'org-1' } }]);
+      expect(params.where.AND).toEqual([{ organizationId: 'org-1' }]);
+    });
+
+    it('should keep existing AND conditions', () => {
+      const { params } = RowPolicyService.applyRowPolicies(
+        schema,
+        'AgentLog',
+        'count',
+        { where: { AND: { userId: 'user-2' } } },
+        requester
+      );
+
+      expect(params.where.AND).toEqual([{ userId: 'user-2' }, { organizationId: 'org-1' }]);
+    });
+
+    it('should keep unique fields at the top level of findUnique', () => {
+      const { params } = RowPolicyService.applyRowPolicies(schema, 'User', 'findUnique', { where: { id: 'user-2' } }, requester);
+
+      expect(params.where).toEqual({ id: 'user-2', AND: [{ organizationId: 'org-1' }] });
+    });
+
+    it('should scope through relation paths', () => {
+      const { params } = RowPolicyService.applyRowPolicies(schema, 'BusinessMetric', 'findMany', { take: 10 }, requester);
+
+      expect(params.where).toEqual({
+        AND: [{ user: { is: { organizationId: 'org-1' } } }],
+      });
+    });
+
+    it('should scope user policies to the requester', () => {
+      const { params } = RowPolicyService.applyRowPolicies(schema, 'Note', 'findMany', { take: 10 }, requester);
+
+      expect(params.where).toEqual({ AND: [{ userId: 'user-1' }] });
+    });
+
+    it('should filter included to-many relations', () => {
+      const { params, scopedModels } = RowPolicyService.applyRowPolicies(
+        schema,
+        'Organization',
+        'findUnique',
+        {
+          where: { id: 'org-2' },
+          include: {
+            users: {
+              include: { agentLogs: { where: { message: { contains: 'login' } } } },
+            },
+          },
+        },
+        requester
+      );
+
+      // The organization itself has no policy, but the users and their logs must be the requester's tenant
+      expect(params).toEqual({
+        where: { id: 'org-2' },
+        include: {
+          users: {
+            include: {
+              agentLogs: {
+                where: { message: { contains: 'login' }, AND: [{ organizationId: 'org-1' }] },
+              },
+            },
+            where: { AND: [{ organizationId: 'org-1' }] },
+          },
+        },
+      });
+      expect(scopedModels).toEqual(expect.arrayContaining(['User', 'AgentLog']));
+    });
+
+    it('should scope selected relations like included ones', () => {
+      const { params } = RowPolicyService.applyRowPolicies(
+        schema,
+        'User',
+        'findMany',
+        { take: 10, select: { id: true, agentLogs: true } },
+        requester
+      );
+
+      expect(params.select).toEqual({
+        id: true,
+        agentLogs: { where: { AND: [{ organizationId: 'org-1' }] } },
+      });
+    });
+
+    it('should leave out rows whose included to-one relation belongs to another tenant', () => {
+      const { params } = RowPolicyService.applyRowPolicies(
+        schema,
+        'AgentLog',
+        'findMany',
+        { take: 10, include: { user: true } },
+        requester
+      );
+
+      expect(params.include).toEqual({ user: true });
+      expect(params.where.AND).toEqual([
+        { organizationId: 'org-1' },
+        { user: { is: { organizationId: 'org-1' } } },
+      ]);
+    });
+
+    it('should keep rows without an optional to-one relation', () => {
+      const optionalUserSchema = {
+        ...schema,
+        AgentLog: {
+          ...schema.AgentLog,
+          relations: { user: { ...schema.AgentLog.relations.user, required: false } },
+        },
+      };
+
+      const { params } = RowPolicyService.applyRowPolicies(
+        optionalUserSchema,
+        'AgentLog',
+        'findMany',
+        { take: 10, include: { user: true } },
+        requester
+      );
+
+      expect(params.where.AND).toEqual([
+        { organizationId: 'org-1' },
+        { OR: [{ user: { is: null } }, { user: { is: { organizationId: 'org-1' } } }] },
+      ]);
+    });
+
+    it('should filter to-many relations included through to-one relations', () => {
+      const { params } = RowPolicyService.applyRowPolicies(
+        schema,
+        'User',
+        'findMany',
+        { take: 10, include: { organization: { include: { users: true } } } },
+        requester
+      );
+
+      // The organization has no policy, but the users included through it do
+      expect(params.include).toEqual({
+        organization: {
+          include: { users: { where: { AND: [{ organizationId: 'org-1' }] } } },
+        },
+      });
+      expect(params.where).toEqual({ AND: [{ organizationId: 'org-1' }] });
+    });
+
+    it('should scope relation counts', () => {
+      const { params } = RowPolicyService.applyRowPolicies(
+        schema,
+        'User',
+        'findMany',
+        { take: 10, include: { _count: true } },
+        requester
+      );
+
+      expect(params.include._count).toEqual({
+        select: {
+          agentLogs: { where: { AND: [{ organizationId: 'org-1' }] } },
+          businessMetrics: { where: { AND: [{ user: { is: { organizationId: 'org-1' } } }] } },
+        },
+      });
+    });
+
+    it('should reject relations missing from the schema map', () => {
+      expect(() =>
+        RowPolicyService.applyRowPolicies(
+          schema,
+          'AgentLog',
+          'findMany',
+          { take: 10, include: { session: true } },
+          requester
+        )
+      ).toThrow('Relation session of AgentLog is not in the schema map');
+    });
+
+    it('should reject requesters without an organization', () => {
+      expect(() =>
+        RowPolicyService.applyRowPolicies(schema, 'AgentLog', 'findMany', { take: 10 }, { userId: 'user-1', organizationId: null })
+      ).toThrow("Rows of AgentLog are restricted to the requester's organization, which is not set");
+    });
+
+    it('should create rows in the requester organization', () => {
+      const { params } = RowPolicyService.applyRowPolicies(
+        schema,
+        'AgentLog',
+        'create',
+        { data: { message: 'Created by agent', userId: 'user-1' } },
+        requester
+      );
+
+      expect(params.data).toEqual({ message: 'Created by agent', userId: 'user-1', organizationId: 'org-1' });
+      expect(params.where).toBeUndefined();
+    });
+
+    it('should reject rows created for another organization', () => {
+      expect(() =>
+        RowPolicyService.applyRowPolicies(
+          schema,
+          'AgentLog',
+          'create',
+          { data: { message: 'Created by agent', organizationId: 'org-2' } },
+          requester
+        )
+      ).toThrow('Rows of AgentLog can only be created with organizationId of the requester');
+    });
+
+    it('should reject updates moving rows to another organization', () => {
+      expect(() =>
+        RowPolicyService.applyRowPolicies(
+          schema,
+          'AgentLog',
+          'update',
+          { where: { id: 'log-1' }, data: { organizationId: 'org-2' } },
+          requester
+        )
+      ).toThrow('organizationId of AgentLog cannot be changed by agent queries');
+    });
+  });
+
+  describe('validatePolicies', () => {
+    it('should accept valid policies', () => {
+      expect(RowPolicyService.validatePolicies(schema)).toEqual([]);
+    });
+
+    it('should report invalid policies', () => {
+      const errors = RowPolicyService.validatePolicies({
+        AgentLog: { rowPolicies: [{ field: '', equals: 'organizationId' }, { field: 'userId', equals: 'email' }] },
+        User: {
+          rowPolicies: [{ field: 'agentLogs.organizationId', equals: 'organizationId' }],
+          relations: { agentLogs: { type: 'one-to-many', model: 'AgentLog', foreignKey: 'user' } },
+        },
+        Organization: { rowPolicies: { field: 'id', equals: 'organizationId' } },
+      });
+
+      expect(errors).toEqual([
+        'Row policy 0 of AgentLog must have a field',
+        'Row policy 1 of AgentLog must compare with one of: userId, organizationId',
+        'Row policy 0 of User cannot use the to-many relation agentLogs',
+        'Row policies of Organization must be an array',
+      ]);
+    });
+  });
+
+  describe('resolveRequester', () => {
+    it('should resolve the organization of the requester', async () => {
+      (prisma.user.findUnique as Mock).mockResolvedValue({ id: 'user-1', organizationId: 'org-1' });
+
+      const result = await RowPolicyService.resolveRequester('user-1');
+
+      expect(result).toEqual({ userId: 'user-1', organizationId: 'org-1' });
+      expect(prisma.user.findUnique).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        select: { id: true, organizationId: true },
+      });
+    });
+
+    it('should reject unknown requesters', async () => {
+      (prisma.user.findUnique as Mock).mockResolvedValue(null);
+
+      await expect(RowPolicyService.resolveRequester('user-404')).rejects.toThrow('Requester of the query not found');
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Sentient Policy Engine Tests
+ *
+ * This file contains unit tests for the Sentient Loop policy language: its operators,
+ * the precedence of rules and the replay of recorded evaluations against draft policies.
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { prisma } from 'wasp/server';
+import {
+  PolicyFacts,
+  evaluateCondition,
+  evaluatePolicy,
+  sentientLoopPolicySchema
+} from '../modules/arcana/shared/services/sentientLoop/sentientPolicyEngine';
+import { SentientPolicyService } from '../modules/arcana/shared/services/sentientLoop/sentientPolicyService';
+
+vi.mock('wasp/server', () => ({
+  prisma: {
+    sentientPolicyEvaluation: {
+      findMany: vi.fn(),
+    },
+    sentientCheckpoint: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../modules/arcana/shared/services/logging', () => ({
+  LoggingService: {
+    warn: vi.fn(),
+  },
+}));
+
+const createFacts = (overrides: Partial<PolicyFacts> = {}): PolicyFacts => ({
+  module: 'arcana',
+  agent: { id: 'agent-1', trustLevel: 3, trustScore: 0.7 },
+  action: { type: 'send_email', confidence: 0.8, impact: 'MEDIUM' },
+  payload: { amount: 250, tags: ['billing'], recipient: 'ops@example.com' },
+  context: {},
+  time: { hour: 14, dayOfWeek: 3 },
+  spend: { amount: 250, cumulative: 900 },
+  ...overrides,
+});
+
+const matches = (fact: string, op: any, value: any, facts = createFacts()) =>
+  evaluateCondition({ fact, op, value }, facts);
+
+const createPolicy = (policy: any) => sentientLoopPolicySchema.parse(policy);
+
+describe('sentientPolicyEngine', () => {
+  describe('evaluateCondition', () => {
+    it('should compare facts with each operator', () => {
+      expect(matches('action.type', 'eq', 'send_email')).toBe(true);
+      expect(matches('action.type', 'neq', 'send_email')).toBe(false);
+      expect(matches('payload.amount', 'gt', 250)).toBe(false);
+      expect(matches('payload.amount', 'gte', 250)).toBe(true);
+      expect(matches('action.confidence', 'lt', 0.9)).toBe(true);
+      expect(matches('action.confidence', 'lte', 0.5)).toBe(false);
+      expect(matches('module', 'in', ['arcana', 'athena'])).toBe(true);
+      expect(matches('module', 'notIn', ['arcana'])).toBe(false);
+      expect(matches('payload.tags', 'contains', 'billing')).toBe(true);
+      expect(matches('payload.recipient', 'contains', 'example')).toBe(true);
+      expect(matches('payload.recipient', 'startsWith', 'ops@')).toBe(true);
+      expect(matches('payload.missing', 'exists', true)).toBe(false);
+      expect(matches('payload.missing', 'exists', false)).toBe(true);
+    });
+
+    it('should compare impact levels by severity', () => {
+      expect(matches('action.impact', 'gte', 'MEDIUM')).toBe(true);
+      expect(matches('action.impact', 'gt', 'HIGH')).toBe(false);
+      expect(matches('action.impact', 'between', ['LOW', 'HIGH'])).toBe(true);
+    });
+
+    it('should not match numeric operators on values that are not numbers', () => {
+      expect(matches('payload.recipient', 'gt', 0)).toBe(false);
+      expect(matches('payload.missing', 'lt', 10)).toBe(false);
+      expect(matches('payload.amount', 'between', [100])).toBe(false);
+    });
+
+    it('should wrap between ranges whose start is after their end', () => {
+      const at = (hour: number) => createFacts({ time: { hour, dayOfWeek: 3 } });
+
+      expect(matches('time.hour', 'between', [22, 6], at(23))).toBe(true);
+      expect(matches('time.hour', 'between', [22, 6], at(3))).toBe(true);
+      expect(matches('time.hour', 'between', [22, 6], at(6))).toBe(true);
+      expect(matches('time.hour', 'between', [22, 6], at(14))).toBe(false);
+      expect(matches('time.hour', 'between', [9, 17], at(14))).toBe(true);
+      expect(matches('time.hour', 'between', [9, 17], at(23))).toBe(false);
+    });
+
+    it('should combine conditions and explain every comparison', () => {
+      const details: string[] = [];
+
+      const matched = evaluateCondition(
+        {
+          all: [
+            { fact: 'agent.trustLevel', op: 'gte', value: 3 },
+            { any: [{ fact: 'payload.amount', op: 'gt', value: 1000 }, { not: { fact: 'module', op: 'eq', value: 'athena' } }] },
+          ],
+        },
+        createFacts(),
+        details
+      );
+
+      expect(matched).toBe(true);
+      expect(details).toEqual([
+        'agent.trustLevel gte 3 (actual 3): true',
+        'payload.amount gt 1000 (actual 250): false',
+        'module eq "athena" (actual "arcana"): false',
+      ]);
+    });
+  });
+
+  describe('evaluatePolicy', () => {
+    it('should decide by the rule with the highest priority', () => {
+      const policy = createPolicy({
+        rules: [
+          { id: 'large-spend', priority: 10, when: { fact: 'spend.amount', op: 'gt', value: 100 }, effect: 'REQUIRE_CHECKPOINT' },
+          { id: 'trusted', priority: 50, when: { fact: 'agent.trustLevel', op: 'gte', value: 3 }, effect: 'ALLOW' },
+        ],
+      });
+
+      const decision = evaluatePolicy(policy, createFacts());
+
+      expect(decision).toMatchObject({ needed: false, ruleId: 'trusted' });
+      expect(decision.explanation.map(rule => rule.ruleId)).toEqual(['trusted']);
+    });
+
+    it('should try checkpoint rules before allow rules of equal priority, then declaration order', () => {
+      const policy = createPolicy({
+        rules: [
+          { id: 'allow-email', when: { fact: 'action.type', op: 'eq', value: 'send_email' }, effect: 'ALLOW' },
+          { id: 'first-check', when: { fact: 'payload.amount', op: 'gt', value: 100 }, effect: 'REQUIRE_CHECKPOINT', checkpointType: 'DECISION_REQUIRED' },
+          { id: 'second-check', when: { fact: 'payload.amount', op: 'gt', value: 0 }, effect: 'REQUIRE_CHECKPOINT' },
+        ],
+      });
+
+      expect(evaluatePolicy(policy, createFacts())).toMatchObject({
+        needed: true,
+        type: 'DECISION_REQUIRED',
+        ruleId: 'first-check',
+      });
+    });
+
+    it('should skip disabled rules and apply the default when no rule matches', () => {
+      const policy = createPolicy({
+        defaultEffect: 'REQUIRE_CHECKPOINT',
+        rules: [
+          { id: 'disabled', enabled: false, when: { fact: 'module', op: 'eq', value: 'arcana' }, effect: 'ALLOW' },
+          { id: 'night', when: { fact: 'time.hour', op: 'between', value: [22, 6] }, effect: 'ALLOW' },
+        ],
+      });
+
+      expect(evaluatePolicy(policy, createFacts())).toMatchObject({
+        needed: true,
+        type: 'CONFIRMATION_REQUIRED',
+        ruleId: null,
+      });
+    });
+  });
+});
+
+describe('SentientPolicyService.simulatePolicy', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should replay every recorded evaluation, including those without a checkpoint', async () => {
+    (prisma.sentientPolicyEvaluation.findMany as Mock).mockResolvedValue([
+      {
+        id: 'evaluation-1',
+        createdAt: new Date('2026-10-01T14:00:00.000Z'),
+        actionType: 'send_email',
+        needed: false,
+        checkpointId: null,
+        facts: createFacts(),
+      },
+      {
+        id: 'evaluation-2',
+        createdAt: new Date('2026-10-01T15:00:00.000Z'),
+        actionType: 'send_email',
+        needed: true,
+        checkpointId: 'checkpoint-1',
+        facts: createFacts({ payload: { amount: 5 }, spend: { amount: 5, cumulative: 5 } }),
+      },
+    ]);
+    (prisma.sentientCheckpoint.findMany as Mock).mockResolvedValue([{ id: 'checkpoint-1', status: 'REJECTED' }]);
+
+    const simulation = await SentientPolicyService.simulatePolicy({
+      userId: 'user-1',
+      policy: createPolicy({
+        rules: [{ id: 'large-spend', when: { fact: 'spend.amount', op: 'gt', value: 100 }, effect: 'REQUIRE_CHECKPOINT' }],
+      }),
+    });
+
+    expect(prisma.sentientPolicyEvaluation.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: 'user-1' }, take: 100 })
+    );
+    expect(simulation).toMatchObject({
+      actionsReplayed: 2,
+      checkpointsBefore: 1,
+      checkpointsCreated: 1,
+      newlyCheckpointed: 1,
+      autoApprovedButRejected: 1,
+      byRule: { 'large-spend': 1, default: 1 },
+    });
+    expect(simulation.results[0]).toMatchObject({
+      evaluationId: 'evaluation-1',
+      createdCheckpoint: false,
+      wouldCreateCheckpoint: true,
+      humanDecision: null,
+    });
+  });
+});
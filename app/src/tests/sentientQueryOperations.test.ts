@@ -0,0 +1,111 @@
+/**
+ * Sentient Query Operations Tests
+ *
+ * This file contains unit tests for the Sentient Query Approval operations that list
+ * executed agent writes and revert them, which are limited to the requester and the
+ * requester's organization.
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { requirePermission } from '@src/api/middleware/rbac';
+import { QueryWriteService } from '@src/server/services/queryWriteService';
+import { getAppliedQueryRequests, revertQueryRequest } from '../modules/arcana/api/sentientQueryOperations';
+
+vi.mock('wasp/server', () => ({
+  HttpError: class HttpError extends Error {
+    statusCode: number;
+
+    constructor(statusCode: number, message: string) {
+      super(message);
+      this.statusCode = statusCode;
+    }
+  },
+}));
+
+vi.mock('wasp/client/operations', () => ({
+  useQuery: vi.fn(),
+  useAction: vi.fn(),
+}));
+
+vi.mock('@src/api/middleware/rbac', () => ({
+  requirePermission: vi.fn(),
+}));
+
+vi.mock('@src/server/services/queryWriteService', () => ({
+  QueryWriteService: {
+    revertWrite: vi.fn(),
+  },
+}));
+
+const user = { id: 'user-1', organizationId: 'org-1' };
+
+const createContext = () => ({
+  user,
+  entities: {
+    AgentQueryRequest: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+    },
+  },
+});
+
+describe('sentientQueryOperations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (requirePermission as Mock).mockReturnValue(async () => user);
+  });
+
+  describe('getAppliedQueryRequests', () => {
+    it('should list only the writes of the user and organization', async () => {
+      const context = createContext();
+      context.entities.AgentQueryRequest.findMany.mockResolvedValue([
+        { id: 'query-1', metadata: { rollbackId: 'rollback-1' } },
+        { id: 'query-2', metadata: { rollbackId: 'rollback-2', revertedAt: '2026-10-01T00:00:00.000Z' } },
+      ]);
+
+      const queries = await getAppliedQueryRequests(undefined, context);
+
+      expect(requirePermission).toHaveBeenCalledWith(expect.objectContaining({ resource: 'sentient-loop', action: 'read' }));
+      expect(context.entities.AgentQueryRequest.findMany.mock.calls[0][0].where).toMatchObject({
+        OR: [{ userId: 'user-1' }, { user: { organizationId: 'org-1' } }],
+      });
+      expect(queries.map((query: any) => query.id)).toEqual(['query-1']);
+    });
+
+    it('should reject users without permission', async () => {
+      (requirePermission as Mock).mockReturnValue(async () => {
+        throw Object.assign(new Error('Forbidden'), { statusCode: 403 });
+      });
+      const context = createContext();
+
+      await expect(getAppliedQueryRequests(undefined, context)).rejects.toMatchObject({ statusCode: 403 });
+      expect(context.entities.AgentQueryRequest.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revertQueryRequest', () => {
+    it('should not revert writes of other organizations', async () => {
+      const context = createContext();
+      context.entities.AgentQueryRequest.findFirst.mockResolvedValue(null);
+
+      await expect(revertQueryRequest({ queryId: 'query-9' }, context)).rejects.toMatchObject({ statusCode: 404 });
+
+      expect(context.entities.AgentQueryRequest.findFirst.mock.calls[0][0].where).toMatchObject({
+        id: 'query-9',
+        OR: [{ userId: 'user-1' }, { user: { organizationId: 'org-1' } }],
+      });
+      expect(QueryWriteService.revertWrite).not.toHaveBeenCalled();
+    });
+
+    it('should revert writes of the organization', async () => {
+      const context = createContext();
+      context.entities.AgentQueryRequest.findFirst.mockResolvedValue({ id: 'query-1' });
+      (QueryWriteService.revertWrite as Mock).mockResolvedValue({ success: true });
+
+      await expect(revertQueryRequest({ queryId: 'query-1' }, context)).resolves.toEqual({ success: true });
+
+      expect(requirePermission).toHaveBeenCalledWith(expect.objectContaining({ resource: 'sentient-loop', action: 'use' }));
+      expect(QueryWriteService.revertWrite).toHaveBeenCalledWith('query-1', 'user-1');
+    });
+  });
+});
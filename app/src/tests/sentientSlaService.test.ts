@@ -0,0 +1,163 @@
+/**
+ * Sentient SLA Service Tests
+ *
+ * This file contains unit tests for the SLA sweep of Sentient Loop checkpoints, which
+ * escalates open checkpoints along the escalation chain and applies the expiry action.
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { prisma } from 'wasp/server';
+import { SentientLoopService } from '../modules/arcana/shared/services/sentientLoop/index';
+import { SentientSlaService, slaConfigSchema } from '../modules/arcana/shared/services/sentientLoop/sentientSlaService';
+import { sendNotification } from '../shared/services/notificationService';
+
+vi.mock('wasp/server', () => ({
+  prisma: {
+    sentientCheckpoint: {
+      updateMany: vi.fn(),
+    },
+    sentientEscalation: {
+      updateMany: vi.fn(),
+    },
+    user: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../modules/arcana/shared/services/logging', () => ({
+  LoggingService: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('../modules/arcana/shared/services/sentientLoop/index', () => ({
+  SentientLoopService: {
+    createEscalation: vi.fn(),
+    resolveCheckpoint: vi.fn(),
+  },
+}));
+
+vi.mock('../modules/arcana/shared/services/sentientLoop/sentientLoopConfigService', () => ({
+  DEFAULT_CONFIG: { escalationRules: {} },
+  SentientLoopConfigService: {
+    getConfig: vi.fn(),
+  },
+}));
+
+vi.mock('../shared/services/notificationService', () => ({
+  sendNotification: vi.fn(),
+}));
+
+const createdAt = new Date('2026-10-01T12:00:00.000Z');
+const minutesLater = (minutes: number) => new Date(createdAt.getTime() + minutes * 60 * 1000);
+
+const config = slaConfigSchema.parse({
+  slas: {
+    default: {
+      expireAfterMinutes: 240,
+      onExpiry: 'APPROVE_LOW_IMPACT',
+      escalationChain: [
+        { role: 'TEAM_LEAD', afterMinutes: 30, userIds: ['lead-1'] },
+        { role: 'ORG_ADMIN', afterMinutes: 60, userIds: ['admin-1'] },
+      ],
+    },
+  },
+});
+
+const createCheckpoint = (overrides: any = {}) => ({
+  id: 'checkpoint-1',
+  createdAt,
+  updatedAt: createdAt,
+  type: 'DECISION_REQUIRED',
+  status: 'PENDING',
+  userId: 'user-1',
+  moduleId: 'arcana',
+  title: 'Send invoice',
+  expiresAt: null,
+  metadata: { impact: 'LOW' },
+  escalations: [],
+  ...overrides,
+});
+
+describe('SentientSlaService.applySla', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.sentientCheckpoint.updateMany as Mock).mockResolvedValue({ count: 1 });
+  });
+
+  it('should collapse escalation steps whose deadlines passed together into the latest one', async () => {
+    const action = await SentientSlaService.applySla(createCheckpoint(), config, minutesLater(90));
+
+    expect(action).toEqual({
+      checkpointId: 'checkpoint-1',
+      action: 'ESCALATED',
+      step: 2,
+      role: 'ORG_ADMIN',
+      recipients: ['admin-1'],
+    });
+    expect(SentientLoopService.createEscalation).toHaveBeenCalledTimes(1);
+    expect(SentientLoopService.createEscalation).toHaveBeenCalledWith(
+      expect.objectContaining({ level: 'CRITICAL', metadata: expect.objectContaining({ slaStep: 2 }) })
+    );
+    // The chain is complete, so the checkpoint is next due when it expires
+    expect(prisma.sentientCheckpoint.updateMany).toHaveBeenCalledWith({
+      where: { id: 'checkpoint-1', status: { in: ['PENDING', 'ESCALATED'] }, updatedAt: createdAt },
+      data: { status: 'ESCALATED', slaDueAt: minutesLater(240) },
+    });
+    expect(sendNotification).toHaveBeenCalledWith(expect.objectContaining({ recipients: ['admin-1'], severity: 'CRITICAL' }));
+  });
+
+  it('should only record the next deadline of checkpoints within their SLA', async () => {
+    const checkpoint = createCheckpoint({ escalations: [{ metadata: { slaStep: 1 } }] });
+
+    await expect(SentientSlaService.applySla(checkpoint, config, minutesLater(45))).resolves.toBeNull();
+
+    expect(prisma.sentientCheckpoint.updateMany).toHaveBeenCalledWith({
+      where: { id: 'checkpoint-1', status: { in: ['PENDING', 'ESCALATED'] } },
+      data: { slaDueAt: minutesLater(60) },
+    });
+    expect(SentientLoopService.createEscalation).not.toHaveBeenCalled();
+  });
+
+  it('should leave checkpoints changed since they were read to the sweep that changed them', async () => {
+    (prisma.sentientCheckpoint.updateMany as Mock).mockResolvedValue({ count: 0 });
+
+    await expect(SentientSlaService.applySla(createCheckpoint(), config, minutesLater(35))).resolves.toBeNull();
+
+    expect(SentientLoopService.createEscalation).not.toHaveBeenCalled();
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('should approve expired low impact checkpoints and reject the rest', async () => {
+    await expect(SentientSlaService.applySla(createCheckpoint(), config, minutesLater(240))).resolves.toEqual({
+      checkpointId: 'checkpoint-1',
+      action: 'APPROVED',
+    });
+    expect(SentientLoopService.resolveCheckpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'APPROVED', resolvedBy: 'system:sla' })
+    );
+    expect(prisma.sentientEscalation.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { checkpointId: 'checkpoint-1', status: 'PENDING' } })
+    );
+
+    const highImpact = createCheckpoint({ metadata: { impact: 'HIGH' } });
+
+    await expect(SentientSlaService.applySla(highImpact, config, minutesLater(240))).resolves.toEqual({
+      checkpointId: 'checkpoint-1',
+      action: 'REJECTED',
+    });
+  });
+
+  it('should not expire checkpoints resolved since they were read', async () => {
+    (prisma.sentientCheckpoint.updateMany as Mock).mockResolvedValue({ count: 0 });
+
+    await expect(SentientSlaService.applySla(createCheckpoint(), config, minutesLater(300))).resolves.toBeNull();
+
+    expect(SentientLoopService.resolveCheckpoint).not.toHaveBeenCalled();
+    expect(prisma.sentientEscalation.updateMany).not.toHaveBeenCalled();
+  });
+});
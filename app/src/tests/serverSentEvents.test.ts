@@ -0,0 +1,122 @@
+/**
+ * Server-Sent Events Tests
+ *
+ * This file contains unit tests for the client helpers of the streaming AI chat
+ * endpoint, which turn its server-sent events into a plain text stream.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fetchChatTextStream } from '../shared/ai/serverSentEvents';
+
+// Mock the Wasp client config and session
+vi.mock('wasp/client', () => ({
+  config: { apiUrl: 'http://localhost:3001' },
+}));
+
+vi.mock('wasp/client/api', () => ({
+  getSessionId: () => 'session-123',
+}));
+
+// Respond to the chat request with a server-sent event stream
+const respondWith = (events: string[]) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(event));
+      }
+      // The server keeps the connection open after the done event until it ends the response
+    },
+  });
+
+  vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body, { status: 200 })));
+};
+
+const readText = async (response: Response) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return text;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+};
+
+describe('fetchChatTextStream', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should stream the text deltas and close on the done event', async () => {
+    respondWith([
+      'data: {"delta":"Hello"}\n\n',
+      'data: {"delta":", world"}\n\n',
+      'event: done\ndata: {"finishReason":"stop"}\n\n',
+    ]);
+
+    const response = await fetchChatTextStream('/api/ai/chat', {
+      method: 'POST',
+      body: JSON.stringify({ messages: [{ role: 'user', content: 'Hi' }] }),
+    });
+
+    await expect(readText(response)).resolves.toBe('Hello, world');
+  });
+
+  it('should skip events without text', async () => {
+    respondWith([
+      'data: {"delta":""}\n\n',
+      'event: usage\ndata: {"totalTokens":12}\n\n',
+      'data: {"delta":"Hello"}\n\n',
+      'data: {"delta":""}\n\n',
+      'event: done\ndata: {}\n\n',
+    ]);
+
+    const response = await fetchChatTextStream('/api/ai/chat', {
+      method: 'POST',
+      body: JSON.stringify({ messages: [] }),
+    });
+
+    await expect(readText(response)).resolves.toBe('Hello');
+  });
+
+  it('should fail the stream on an error event', async () => {
+    respondWith([
+      'data: {"delta":"Hel"}\n\n',
+      'event: error\ndata: {"error":"Provider unavailable"}\n\n',
+    ]);
+
+    const response = await fetchChatTextStream('/api/ai/chat', {
+      method: 'POST',
+      body: JSON.stringify({ messages: [] }),
+    });
+
+    await expect(readText(response)).rejects.toThrow('Provider unavailable');
+  });
+
+  it('should send the conversation with the session', async () => {
+    respondWith(['event: done\ndata: {}\n\n']);
+
+    await fetchChatTextStream('/api/ai/chat', {
+      method: 'POST',
+      body: JSON.stringify({
+        messages: [
+          { role: 'user', content: 'Hi', id: 'message-1' },
+          { role: 'data', content: 'ignored' },
+        ],
+      }),
+    });
+
+    expect(fetch).toHaveBeenCalledWith('http://localhost:3001/api/ai/chat', expect.objectContaining({
+      headers: expect.objectContaining({ Authorization: 'Bearer session-123' }),
+      body: JSON.stringify({ messages: [{ role: 'user', content: 'Hi' }] }),
+    }));
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Temporal Parser Tests
+ *
+ * A corpus of time expressions and the ranges the local temporal parser resolves them
+ * to. All expressions are parsed at a fixed time, Wednesday 14 May 2025 15:30 UTC.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseTemporalExpression, normalizeMilestone } from '../modules/memory/services/temporalParser';
+import { TemporalReferenceType } from '../modules/memory/types';
+
+const NOW = new Date('2025-05-14T15:30:00.000Z');
+
+interface CorpusEntry {
+  expression: string;
+  start?: string;
+  end?: string;
+  type: TemporalReferenceType;
+}
+
+const day = (date: string) => ({ start: `${date}T00:00:00.000Z`, end: `${date}T23:59:59.999Z` });
+const span = (from: string, to: string) => ({ start: `${from}T00:00:00.000Z`, end: `${to}T23:59:59.999Z` });
+
+const RELATIVE_CORPUS: CorpusEntry[] = [
+  { expression: 'today', ...day('2025-05-14'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'this morning', ...day('2025-05-14'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'yesterday', ...day('2025-05-13'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'the day before yesterday', ...day('2025-05-12'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'last week', ...span('2025-05-05', '2025-05-11'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'this week', ...span('2025-05-12', '2025-05-18'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'next week', ...span('2025-05-19', '2025-05-25'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'last weekend', ...span('2025-05-10', '2025-05-11'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'last month', ...span('2025-04-01', '2025-04-30'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'this quarter', ...span('2025-04-01', '2025-06-30'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'last quarter', ...span('2025-01-01', '2025-03-31'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'last year', ...span('2024-01-01', '2024-12-31'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'two weeks ago', ...span('2025-04-28', '2025-05-04'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'a month ago', ...span('2025-04-01', '2025-04-30'), type: TemporalReferenceType.RELATIVE },
+  { expression: '3 days ago', ...day('2025-05-11'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'last Friday', ...day('2025-05-09'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'last Wednesday', ...day('2025-05-07'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'on Monday', ...day('2025-05-12'), type: TemporalReferenceType.RELATIVE },
+  { expression: 'next Monday', ...day('2025-05-19'), type: TemporalReferenceType.RELATIVE },
+  {
+    expression: 'the past 3 months',
+    start: '2025-02-14T15:30:00.000Z',
+    end: '2025-05-14T15:30:00.000Z',
+    type: TemporalReferenceType.RELATIVE,
+  },
+  {
+    expression: 'the last week',
+    start: '2025-05-07T15:30:00.000Z',
+    end: '2025-05-14T15:30:00.000Z',
+    type: TemporalReferenceType.RELATIVE,
+  },
+  {
+    expression: 'the past two years',
+    start: '2023-05-14T15:30:00.000Z',
+    end: '2025-05-14T15:30:00.000Z',
+    type: TemporalReferenceType.RELATIVE,
+  },
+  {
+    expression: 'year to date',
+    start: '2025-01-01T00:00:00.000Z',
+    end: '2025-05-14T15:30:00.000Z',
+    type: TemporalReferenceType.RELATIVE,
+  },
+  {
+    expression: 'QTD',
+    start: '2025-04-01T00:00:00.000Z',
+    end: '2025-05-14T15:30:00.000Z',
+    type: TemporalReferenceType.RELATIVE,
+  },
+];
+
+const ABSOLUTE_CORPUS: CorpusEntry[] = [
+  { expression: '2024-04-05', ...day('2024-04-05'), type: TemporalReferenceType.ABSOLUTE },
+  { expression: '2024-04', ...span('2024-04-01', '2024-04-30'), type: TemporalReferenceType.ABSOLUTE },
+  { expression: 'April 5th, 2024', ...day('2024-04-05'), type: TemporalReferenceType.ABSOLUTE },
+  { expression: '5 April 2024', ...day('2024-04-05'), type: TemporalReferenceType.ABSOLUTE },
+  { expression: 'the 3rd of March', ...day('2025-03-03'), type: TemporalReferenceType.ABSOLUTE },
+  { expression: 'Dec 24', ...day('2024-12-24'), type: TemporalReferenceType.ABSOLUTE },
+  { expression: 'in April', ...span('2025-04-01', '2025-04-30'), type: TemporalReferenceType.ABSOLUTE },
+  { expression: 'in June', ...span('2024-06-01', '2024-06-30'), type: TemporalReferenceType.ABSOLUTE },
+  { expression: 'March 2024', ...span('2024-03-01', '2024-03-31'), type: TemporalReferenceType.ABSOLUTE },
+  { expression: 'in 2023', ...span('2023-01-01', '2023-12-31'), type: TemporalReferenceType.ABSOLUTE },
+  { expression: 'early April', ...span('2025-04-01', '2025-04-10'), type: TemporalReferenceType.ABSOLUTE },
+  { expression: 'late 2024', ...span('2024-09-01', '2024-12-31'), type: TemporalReferenceType.ABSOLUTE },
+];
+
+const SEASONAL_CORPUS: CorpusEntry[] = [
+  { expression: 'Q1', ...span('2025-01-01', '2025-03-31'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'Q3', ...span('2024-07-01', '2024-09-30'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'Q3 2024', ...span('2024-07-01', '2024-09-30'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'the first quarter of 2023', ...span('2023-01-01', '2023-03-31'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'summer 2023', ...span('2023-06-01', '2023-08-31'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'last summer', ...span('2024-06-01', '2024-08-31'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'winter 2024', ...span('2024-12-01', '2025-02-28'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'in the spring', ...span('2025-03-01', '2025-05-31'), type: TemporalReferenceType.SEASONAL },
+];
+
+// Fiscal years starting in October
+const FISCAL_CORPUS: CorpusEntry[] = [
+  { expression: 'FY24', ...span('2023-10-01', '2024-09-30'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'fiscal year 2025', ...span('2024-10-01', '2025-09-30'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'Q2 FY24', ...span('2024-01-01', '2024-03-31'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'FY2025 Q1', ...span('2024-10-01', '2024-12-31'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'fiscal Q2', ...span('2025-01-01', '2025-03-31'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'fiscal Q4', ...span('2024-07-01', '2024-09-30'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'this fiscal year', ...span('2024-10-01', '2025-09-30'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'last fiscal year', ...span('2023-10-01', '2024-09-30'), type: TemporalReferenceType.SEASONAL },
+  { expression: 'last fiscal quarter', ...span('2025-01-01', '2025-03-31'), type: TemporalReferenceType.SEASONAL },
+];
+
+const RANGE_CORPUS: CorpusEntry[] = [
+  { expression: 'between March and May 2024', ...span('2024-03-01', '2024-05-31'), type: TemporalReferenceType.ABSOLUTE },
+  { expression: 'from November to February', ...span('2024-11-01', '2025-02-28'), type: TemporalReferenceType.ABSOLUTE },
+  { expression: 'between 2022 and 2023', ...span('2022-01-01', '2023-12-31'), type: TemporalReferenceType.ABSOLUTE },
+  {
+    expression: 'since last month',
+    start: '2025-04-01T00:00:00.000Z',
+    end: '2025-05-14T15:30:00.000Z',
+    type: TemporalReferenceType.RELATIVE,
+  },
+  {
+    expression: 'after Q1',
+    start: '2025-04-01T00:00:00.000Z',
+    end: '2025-05-14T15:30:00.000Z',
+    type: TemporalReferenceType.SEASONAL,
+  },
+  { expression: 'before 2024', end: '2023-12-31T23:59:59.999Z', type: TemporalReferenceType.ABSOLUTE },
+  { expression: 'until March', end: '2025-03-31T23:59:59.999Z', type: TemporalReferenceType.ABSOLUTE },
+];
+
+function parse(expression: string, options = {}) {
+  return parseTemporalExpression(expression, { now: NOW, ...options });
+}
+
+function expectRange(entry: CorpusEntry, options = {}) {
+  const result = parse(entry.expression, options);
+
+  expect(result.ambiguous).toBe(false);
+  expect(result.references).toHaveLength(1);
+  expect(result.references[0].type).toBe(entry.type);
+  expect(result.startDate?.toISOString()).toBe(entry.start);
+  expect(result.endDate?.toISOString()).toBe(entry.end);
+}
+
+describe('parseTemporalExpression', () => {
+  describe('relative expressions', () => {
+    it.each(RELATIVE_CORPUS)('should resolve "$expression"', entry => expectRange(entry));
+  });
+
+  describe('dates, months and years', () => {
+    it.each(ABSOLUTE_CORPUS)('should resolve "$expression"', entry => expectRange(entry));
+  });
+
+  describe('quarters and seasons', () => {
+    it.each(SEASONAL_CORPUS)('should resolve "$expression"', entry => expectRange(entry));
+  });
+
+  describe('fiscal periods', () => {
+    it.each(FISCAL_CORPUS)('should resolve "$expression"', entry => expectRange(entry, { fiscalYearStartMonth: 10 }));
+
+    it('should use calendar years by default', () => {
+      const result = parse('FY24');
+
+      expect(result.startDate?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+      expect(result.endDate?.toISOString()).toBe('2024-12-31T23:59:59.999Z');
+    });
+  });
+
+  describe('ranges', () => {
+    it.each(RANGE_CORPUS)('should resolve "$expression"', entry => expectRange(entry));
+  });
+
+  describe('milestones', () => {
+    const milestones = {
+      'product launch': new Date('2025-03-10T12:00:00.000Z'),
+      'v2.0 release': new Date('2024-11-01T00:00:00.000Z'),
+    };
+
+    it('should date "since" a known milestone up to now', () => {
+      const result = parse('feedback since the product launch', { milestones });
+
+      expect(result.query).toBe('feedback');
+      expect(result.references[0]).toMatchObject({
+        type: TemporalReferenceType.MILESTONE,
+        milestone: 'product launch',
+      });
+      expect(result.startDate?.toISOString()).toBe('2025-03-10T12:00:00.000Z');
+      expect(result.endDate?.toISOString()).toBe('2025-05-14T15:30:00.000Z');
+      expect(result.ambiguous).toBe(false);
+    });
+
+    it('should end "before" a known milestone just before it', () => {
+      const result = parse('bugs before the v2.0 release', { milestones });
+
+      expect(result.startDate).toBeUndefined();
+      expect(result.endDate?.toISOString()).toBe('2024-10-31T23:59:59.999Z');
+    });
+
+    it('should report unknown milestones as unresolved and ambiguous', () => {
+      const result = parse('what broke during the migration');
+
+      expect(result.unresolvedMilestones).toEqual(['migration']);
+      expect(result.ambiguous).toBe(true);
+      expect(result.startDate).toBeUndefined();
+    });
+
+    it('should not treat a clause as a milestone name', () => {
+      const result = parse('what changed after we did the launch');
+
+      expect(result.references).toHaveLength(0);
+      expect(result.unresolvedMilestones).toEqual([]);
+    });
+
+    it('should normalize milestone names', () => {
+      expect(normalizeMilestone('the  Product Launch')).toBe('product launch');
+    });
+  });
+
+  describe('recurrences', () => {
+    it('should keep recurrences in the query without a range', () => {
+      const result = parse('notes from every Monday standup');
+
+      expect(result.query).toBe('notes from every Monday standup');
+      expect(result.references).toEqual([
+        { type: TemporalReferenceType.RECURRING, value: 'every Monday', recurrencePattern: 'weekly:monday' },
+      ]);
+      expect(result.startDate).toBeUndefined();
+    });
+
+    it('should recognize frequency words', () => {
+      expect(parse('the weekly sync').references[0].recurrencePattern).toBe('weekly');
+      expect(parse('every other week').references[0].recurrencePattern).toBe('every-other:weekly');
+    });
+  });
+
+  describe('queries', () => {
+    it('should remove time expressions and their prepositions from the query', () => {
+      const result = parse('What did we decide about pricing in the past 3 months?');
+
+      expect(result.query).toBe('What did we decide about pricing?');
+      expect(result.timeframe).toBe('past 3 months');
+    });
+
+    it('should cover every reference in the combined range', () => {
+      const result = parse('on March 3rd, 2024 and in June');
+
+      expect(result.references).toHaveLength(2);
+      expect(result.startDate?.toISOString()).toBe('2024-03-03T00:00:00.000Z');
+      expect(result.endDate?.toISOString()).toBe('2024-06-30T23:59:59.999Z');
+    });
+
+    it('should leave text without time expressions untouched', () => {
+      const result = parse('summarize the pricing discussion');
+
+      expect(result.query).toBe('summarize the pricing discussion');
+      expect(result.references).toHaveLength(0);
+      expect(result.ambiguous).toBe(false);
+    });
+
+    it.each(['May I ask about pricing', 'the fall in revenue', 'march to production'])(
+      'should not read "%s" as a time expression',
+      text => {
+        expect(parse(text).references).toHaveLength(0);
+      }
+    );
+
+    it('should reject dates that do not exist', () => {
+      expect(parse('April 31').references).toHaveLength(0);
+    });
+  });
+
+  describe('ambiguous input', () => {
+    it.each(['what did we talk about recently', 'the meeting on 3/4', 'a few weeks back', 'the last time we talked'])(
+      'should mark "%s" as ambiguous',
+      text => {
+        expect(parse(text).ambiguous).toBe(true);
+      }
+    );
+  });
+});
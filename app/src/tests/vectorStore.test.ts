@@ -0,0 +1,136 @@
+/**
+ * Vector Store Tests
+ *
+ * This file contains unit tests for the memory vector store, which finds memories
+ * similar to a query with pgvector or an in-process HNSW index and ranks them.
+ */
+
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { prisma } from '../../prisma/client';
+import { generateEmbedding } from '../modules/memory/services/embeddingService';
+import { indexMemoryEmbedding, semanticSearch, VECTOR_DIMENSIONS } from '../modules/memory/services/vectorStore';
+
+// Mock the prisma client; batch transactions run their queries in order
+vi.mock('../../prisma/client', () => {
+  const prisma: any = {
+    interactionMemory: {
+      findMany: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+    $executeRaw: vi.fn(),
+    $executeRawUnsafe: vi.fn(),
+  };
+  prisma.$transaction = vi.fn((queries: Promise<any>[]) => Promise.all(queries));
+
+  return { prisma };
+});
+
+// Raw query fragments are only passed through to the mocked client
+vi.mock('@prisma/client', () => ({
+  Prisma: {
+    sql: (strings: TemplateStringsArray, ...values: unknown[]) => ({ strings, values }),
+    join: (values: unknown[]) => values,
+  },
+}));
+
+vi.mock('../modules/memory/services/embeddingService', () => ({
+  calculateCosineSimilarity: vi.fn(() => 0),
+  generateEmbedding: vi.fn(),
+  generateEmbeddings: vi.fn(),
+  getEmbeddingColumns: vi.fn(),
+  getEmbeddingProvider: vi.fn(() => ({ id: 'test-embedding' })),
+  prepareTextForEmbedding: vi.fn((text: string) => text),
+}));
+
+vi.mock('../shared/logger', () => ({
+  logger: {
+    error: vi.fn(),
+  },
+}));
+
+const memory = (id: string, embedding: number[], overrides: Record<string, any> = {}) => ({
+  id,
+  userId: 'user-1',
+  content: `Memory ${id}`,
+  context: null,
+  type: 'fact',
+  importance: 1,
+  embedding,
+  metadata: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const unitVector = (dimensions: number, index: number) =>
+  Array.from({ length: dimensions }, (_, i) => (i === index ? 1 : 0));
+
+describe('vectorStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('semanticSearch', () => {
+    it('should raise ef_search to the candidate limit for pgvector searches', async () => {
+      (generateEmbedding as Mock).mockResolvedValue(unitVector(VECTOR_DIMENSIONS, 0));
+      (prisma.$queryRaw as Mock).mockResolvedValue([
+        { id: 'memory-1', similarity: 0.95 },
+        { id: 'memory-2', similarity: 0.8 },
+      ]);
+      (prisma.interactionMemory.findMany as Mock).mockResolvedValue([
+        memory('memory-2', [], { importance: 0.5 }),
+        memory('memory-1', [], { metadata: { context: 'onboarding' } }),
+      ]);
+
+      const results = await semanticSearch('what did I say', 'user-1', { limit: 5, agentId: 'agent-1' });
+
+      expect(prisma.$executeRawUnsafe).toHaveBeenCalledWith('SET LOCAL hnsw.ef_search = 50');
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(results.map(result => result.id)).toEqual(['memory-1', 'memory-2']);
+      expect(results[0].context).toBe('onboarding');
+    });
+
+    it('should cap ef_search at the pgvector maximum', async () => {
+      (generateEmbedding as Mock).mockResolvedValue(unitVector(VECTOR_DIMENSIONS, 0));
+      (prisma.$queryRaw as Mock).mockResolvedValue([]);
+      (prisma.interactionMemory.findMany as Mock).mockResolvedValue([]);
+
+      await semanticSearch('what did I say', 'user-1', { limit: 500 });
+
+      expect(prisma.$executeRawUnsafe).toHaveBeenCalledWith('SET LOCAL hnsw.ef_search = 1000');
+    });
+
+    it('should search embeddings of other sizes in process', async () => {
+      (generateEmbedding as Mock).mockResolvedValue([1, 0.1, 0]);
+      (prisma.interactionMemory.findMany as Mock).mockImplementation(({ where }) =>
+        Promise.resolve(
+          [
+            memory('memory-1', [1, 0, 0]),
+            memory('memory-2', [0, 1, 0]),
+            memory('memory-3', [0.9, 0.2, 0]),
+          ].filter(candidate => !where.id || where.id.in.includes(candidate.id))
+        )
+      );
+
+      const results = await semanticSearch('what did I say', 'user-2', { limit: 2 });
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(results.map(result => result.id)).toEqual(['memory-1', 'memory-3']);
+    });
+  });
+
+  describe('indexMemoryEmbedding', () => {
+    it('should store pgvector-sized embeddings in the vector column', async () => {
+      await indexMemoryEmbedding('memory-1', 'user-1', unitVector(VECTOR_DIMENSIONS, 3));
+
+      const values = (prisma.$executeRaw as Mock).mock.calls[0].slice(1);
+      expect(values[0]).toMatch(/^\[0,0,0,1,0/);
+      expect(values[1]).toBe('memory-1');
+    });
+
+    it('should clear the vector column for embeddings of other sizes', async () => {
+      await indexMemoryEmbedding('memory-1', 'user-1', [0.5, 0.5]);
+
+      expect((prisma.$executeRaw as Mock).mock.calls[0].slice(1)).toEqual([null, 'memory-1']);
+    });
+  });
+});
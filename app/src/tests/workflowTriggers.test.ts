@@ -0,0 +1,116 @@
+/**
+ * Workflow Trigger Tests
+ *
+ * This file contains unit tests for the Forgeflow workflow triggers: the cron expressions
+ * of scheduled triggers and the signatures of webhook requests.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { isValidCron, matchesCron, parseCron } from '../modules/forgeflow/triggers/cron';
+import { signWebhookPayload, verifyWebhookSignature } from '../modules/forgeflow/triggers/webhook';
+
+vi.mock('express', () => ({
+  default: { raw: vi.fn() },
+}));
+
+vi.mock('wasp/server/api', () => ({}));
+
+vi.mock('@prisma/client', () => ({
+  TriggerSourceType: { WEBHOOK: 'WEBHOOK' },
+}));
+
+vi.mock('../modules/forgeflow/triggers/workflowTriggerService', () => ({
+  fireWorkflowTrigger: vi.fn(),
+  parseWorkflowTriggers: vi.fn(),
+}));
+
+describe('cron', () => {
+  describe('parseCron', () => {
+    it('should parse lists, ranges and steps', () => {
+      const cron = parseCron('0,30 9-17/4 */10 * *');
+
+      expect([...cron.minutes]).toEqual([0, 30]);
+      expect([...cron.hours]).toEqual([9, 13, 17]);
+      expect([...cron.daysOfMonth]).toEqual([1, 11, 21, 31]);
+      expect(cron.months.size).toBe(12);
+      expect(cron.dayOfMonthRestricted).toBe(true);
+      expect(cron.dayOfWeekRestricted).toBe(false);
+    });
+
+    it('should parse month and day names and Sunday as 7', () => {
+      const cron = parseCron('5/15 0 * jan,DEC sun,sat,7');
+
+      expect([...cron.minutes]).toEqual([5, 20, 35, 50]);
+      expect([...cron.months]).toEqual([1, 12]);
+      expect([...cron.daysOfWeek].sort()).toEqual([0, 6]);
+    });
+
+    it('should reject invalid expressions', () => {
+      expect(() => parseCron('* * * *')).toThrow('expected 5 fields');
+      expect(() => parseCron('60 * * * *')).toThrow('out of range');
+      expect(() => parseCron('*/0 * * * *')).toThrow('bad step');
+      expect(() => parseCron('* 10-5 * * *')).toThrow('empty range');
+      expect(isValidCron('0 0 32 * *')).toBe(false);
+      expect(isValidCron('@daily')).toBe(false);
+    });
+  });
+
+  describe('matchesCron', () => {
+    it('should match the minute of a date in UTC', () => {
+      // Wednesday 14 May 2025 15:30 UTC
+      const date = new Date('2025-05-14T15:30:00.000Z');
+
+      expect(matchesCron('30 15 * * *', date)).toBe(true);
+      expect(matchesCron('*/15 * * * wed', date)).toBe(true);
+      expect(matchesCron('31 15 * * *', date)).toBe(false);
+      expect(matchesCron('30 15 * 6 *', date)).toBe(false);
+    });
+
+    it('should match either day field when both are restricted', () => {
+      const date = new Date('2025-05-14T15:30:00.000Z');
+
+      expect(matchesCron('30 15 1 * wed', date)).toBe(true);
+      expect(matchesCron('30 15 14 * mon', date)).toBe(true);
+      expect(matchesCron('30 15 1 * mon', date)).toBe(false);
+    });
+
+    it('should match in the time zone of the trigger', () => {
+      const date = new Date('2025-05-14T23:30:00.000Z');
+
+      expect(matchesCron('30 1 15 * thu', date, 'Europe/Berlin')).toBe(true);
+      expect(matchesCron('30 23 14 * wed', date, 'Europe/Berlin')).toBe(false);
+      expect(matchesCron(parseCron('30 19 * * *'), date, 'America/New_York')).toBe(true);
+    });
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const secret = 'whsec_test';
+  const rawBody = '{"event":"deploy"}';
+  const now = new Date('2025-05-14T15:30:00.000Z');
+  const timestamp = String(now.getTime() / 1000);
+
+  it('should accept requests signed with the secret', () => {
+    const signature = signWebhookPayload(secret, timestamp, rawBody);
+
+    expect(verifyWebhookSignature(secret, timestamp, rawBody, signature, now)).toBe(true);
+  });
+
+  it('should reject other secrets, bodies and missing headers', () => {
+    const signature = signWebhookPayload(secret, timestamp, rawBody);
+
+    expect(verifyWebhookSignature('whsec_other', timestamp, rawBody, signature, now)).toBe(false);
+    expect(verifyWebhookSignature(secret, timestamp, '{"event":"rollback"}', signature, now)).toBe(false);
+    expect(verifyWebhookSignature(secret, timestamp, rawBody, signature.slice(1), now)).toBe(false);
+    expect(verifyWebhookSignature(secret, undefined, rawBody, signature, now)).toBe(false);
+    expect(verifyWebhookSignature(secret, timestamp, rawBody, undefined, now)).toBe(false);
+  });
+
+  it('should reject requests signed outside the tolerance', () => {
+    const stale = String(now.getTime() / 1000 - 6 * 60);
+    const signature = signWebhookPayload(secret, stale, rawBody);
+
+    expect(verifyWebhookSignature(secret, stale, rawBody, signature, now)).toBe(false);
+    expect(verifyWebhookSignature(secret, 'soon', rawBody, signWebhookPayload(secret, 'soon', rawBody), now)).toBe(false);
+  });
+});